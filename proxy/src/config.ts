@@ -0,0 +1,111 @@
+/**
+ * Proxy configuration, read from the environment (see .env.example).
+ * Every secret the app used to carry lives here and never leaves the proxy.
+ */
+
+const env = (name: string, fallback = ''): string => process.env[name] || fallback;
+
+export const config = {
+  PORT: Number(env('PORT', '8787')),
+  // Address the providers reach the proxy at (webhook callbacks)
+  PUBLIC_URL: env('PROXY_PUBLIC_URL', 'http://localhost:8787'),
+
+  // Signs the session tokens handed to the app
+  SESSION_SECRET: env('SESSION_SECRET'),
+  SESSION_TTL_SECONDS: 7 * 24 * 60 * 60,
+
+  ODOO: {
+    URL: env('ODOO_URL'),
+    DATABASE: env('ODOO_DB'),
+    USERNAME: env('ODOO_USERNAME'),
+    PASSWORD: env('ODOO_PASSWORD'),
+  },
+
+  PAYMENT: {
+    PRIMARY_PROVIDER: env('PAYMENT_PRIMARY_PROVIDER', 'FLIP') as 'FLIP' | 'XENDIT',
+    FALLBACK_PROVIDER: (env('PAYMENT_FALLBACK_PROVIDER', 'XENDIT') || null) as 'FLIP' | 'XENDIT' | null,
+    // Enables payments/simulate; never set in production
+    SANDBOX: env('PAYMENT_SANDBOX') === 'true',
+    SUCCESS_REDIRECT_URL: env('PAYMENT_SUCCESS_REDIRECT_URL', 'https://yourapp.com/payment/success'),
+    FAILURE_REDIRECT_URL: env('PAYMENT_FAILURE_REDIRECT_URL', 'https://yourapp.com/payment/failure'),
+  },
+
+  FLIP: {
+    BASE_URL: env('FLIP_BASE_URL', 'https://fm-dev-box.flip.id/'),
+    SECRET_KEY: env('FLIP_SECRET_KEY'),
+    VALIDATION_KEY: env('FLIP_VALIDATION_KEY'),
+  },
+
+  XENDIT: {
+    BASE_URL: env('XENDIT_BASE_URL', 'https://api.xendit.co'),
+    SECRET_KEY: env('XENDIT_SECRET_KEY'),
+    WEBHOOK_TOKEN: env('XENDIT_WEBHOOK_TOKEN'),
+  },
+
+  KIRIMINAJA: {
+    BASE_URL: env('KIRIMINAJA_BASE_URL', 'https://tdev.kiriminaja.com'),
+    TOKEN: env('KIRIMINAJA_TOKEN'),
+    API_VERSION: 'v6.1',
+  },
+
+  WHATSAPP: {
+    // Tried first; the other configured providers are the fallback
+    PROVIDER: env('WHATSAPP_PROVIDER', 'fonnte') as 'fonnte' | 'twilio' | 'meta',
+  },
+
+  FONNTE: {
+    TOKEN: env('FONNTE_TOKEN'),
+  },
+
+  TWILIO: {
+    ACCOUNT_SID: env('TWILIO_ACCOUNT_SID'),
+    AUTH_TOKEN: env('TWILIO_AUTH_TOKEN'),
+    WHATSAPP_NUMBER: env('TWILIO_WHATSAPP_NUMBER'), // e.g. whatsapp:+14155238886
+  },
+
+  // WhatsApp Business Cloud API
+  META_WHATSAPP: {
+    API_VERSION: 'v18.0',
+    ACCESS_TOKEN: env('META_WHATSAPP_ACCESS_TOKEN'),
+    PHONE_NUMBER_ID: env('META_WHATSAPP_PHONE_NUMBER_ID'),
+    OTP_TEMPLATE_NAME: env('META_WHATSAPP_OTP_TEMPLATE', 'pawnexus_otp_verification'),
+    TEMPLATE_LANGUAGE: env('META_WHATSAPP_TEMPLATE_LANGUAGE', 'id'),
+  },
+
+  // Warehouse the couriers pick up from
+  ORIGIN: {
+    NAME: env('ORIGIN_NAME', 'PawSmart Warehouse'),
+    PHONE: env('ORIGIN_PHONE', '+62 21 1234567'),
+    ADDRESS: env('ORIGIN_ADDRESS', 'Jl. Warehouse No. 1, Jakarta Pusat'),
+    DISTRICT_ID: Number(env('ORIGIN_DISTRICT_ID', '151')),
+    POSTAL_CODE: env('ORIGIN_POSTAL_CODE', '10110'),
+    LATITUDE: Number(env('ORIGIN_LATITUDE', '-6.2088')),
+    LONGITUDE: Number(env('ORIGIN_LONGITUDE', '106.8456')),
+  },
+
+  NETWORK: {
+    TIMEOUT_MS: 30000,
+    RETRY_ATTEMPTS: 3,
+    RETRY_DELAY_MS: 1000,
+    RETRY_MULTIPLIER: 2,
+  },
+
+  // How often the background jobs run (see jobs/scheduler)
+  JOBS: {
+    INTERVAL_MS: Number(env('JOBS_INTERVAL_MS', String(5 * 60 * 1000))),
+  },
+};
+
+/**
+ * Names of required settings that are missing; the server refuses to start without them
+ */
+export const missingSettings = (): string[] => {
+  const required: Array<[string, string]> = [
+    ['SESSION_SECRET', config.SESSION_SECRET],
+    ['ODOO_URL', config.ODOO.URL],
+    ['ODOO_DB', config.ODOO.DATABASE],
+    ['ODOO_USERNAME', config.ODOO.USERNAME],
+    ['ODOO_PASSWORD', config.ODOO.PASSWORD],
+  ];
+  return required.filter(([, value]) => !value).map(([name]) => name);
+};
@@ -0,0 +1,40 @@
+/**
+ * Errors the proxy reports to the app as `{ error: { code, message } }`.
+ * Messages are shown to customers, so they are in Indonesian.
+ */
+
+export type ProxyErrorCode =
+  | 'BAD_REQUEST'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'UNAVAILABLE'
+  | 'UPSTREAM_ERROR'
+  | 'INTERNAL';
+
+const STATUS_FOR_CODE: Record<ProxyErrorCode, number> = {
+  BAD_REQUEST: 400,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  CONFLICT: 409,
+  UNAVAILABLE: 503,
+  UPSTREAM_ERROR: 502,
+  INTERNAL: 500,
+};
+
+export class ProxyError extends Error {
+  constructor(
+    public code: ProxyErrorCode | string,
+    message: string,
+    public status: number = STATUS_FOR_CODE[code as ProxyErrorCode] || 400
+  ) {
+    super(message);
+    this.name = 'ProxyError';
+  }
+}
+
+export const badRequest = (message: string) => new ProxyError('BAD_REQUEST', message);
+export const forbidden = (message = 'Akses ditolak') => new ProxyError('FORBIDDEN', message);
+export const notFound = (message = 'Data tidak ditemukan') => new ProxyError('NOT_FOUND', message);
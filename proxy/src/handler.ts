@@ -0,0 +1,43 @@
+/**
+ * Route handler types and the request checks every handler shares. Request
+ * bodies come straight from the app, so handlers check each value they use.
+ */
+
+import { badRequest } from './errors';
+import { Session } from './session';
+import { ProxyRequest, ProxyResponse, ProxyRoute } from '../../src/services/proxy/proxyRoutes';
+
+// Public routes are called without a session and ignore it
+export type Handler<R extends ProxyRoute> = (request: ProxyRequest<R>, session: Session) => Promise<ProxyResponse<R>>;
+
+export type RouteHandlers<R extends ProxyRoute> = { [K in R]: Handler<K> };
+
+export const requireId = (value: any, label = 'ID'): number => {
+  const id = Number(value);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw badRequest(`${label} tidak valid`);
+  }
+  return id;
+};
+
+export const requireIds = (value: any, label = 'ID'): number[] => {
+  if (!Array.isArray(value)) {
+    throw badRequest(`${label} tidak valid`);
+  }
+  return value.map(id => requireId(id, label));
+};
+
+export const requireString = (value: any, label: string): string => {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw badRequest(`${label} wajib diisi`);
+  }
+  return value.trim();
+};
+
+export const requireAmount = (value: any): number => {
+  const amount = Number(value);
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw badRequest('Jumlah tidak valid');
+  }
+  return amount;
+};
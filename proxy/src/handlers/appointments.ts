@@ -0,0 +1,72 @@
+/**
+ * Doctor appointments: reserving a slot while the customer books it, the
+ * booking itself and cancelling it
+ */
+
+import { badRequest } from '../errors';
+import { appointments } from '../services/appointments';
+import { orders } from '../services/orders';
+import { RouteHandlers, requireId, requireString } from '../handler';
+
+const requireDate = (value: any, label: string): Date => {
+  const date = new Date(requireString(value, label));
+  if (Number.isNaN(date.getTime())) {
+    throw badRequest(`${label} tidak valid`);
+  }
+  return date;
+};
+
+export const appointmentHandlers: RouteHandlers<
+  | 'appointments/held-slots'
+  | 'appointments/hold'
+  | 'appointments/release-hold'
+  | 'appointments/book'
+  | 'appointments/cancel'
+> = {
+  'appointments/held-slots': async (request, session) =>
+    appointments.getHeldSlots(
+      session.partnerId,
+      requireId(request.doctorId, 'Dokter'),
+      requireDate(request.from, 'Tanggal'),
+      requireDate(request.to, 'Tanggal')
+    ),
+
+  'appointments/hold': async (request, session) =>
+    appointments.holdSlot(session.partnerId, requireId(request.doctorId, 'Dokter'), requireDate(request.slotStart, 'Jadwal')),
+
+  'appointments/release-hold': async (request, session) => ({
+    released: await appointments.releaseHold(session.partnerId, requireId(request.holdId, 'Jadwal')),
+  }),
+
+  'appointments/book': async (request, session) => ({
+    appointmentId: await appointments.book(session.partnerId, {
+      ...request,
+      doctorId: requireId(request.doctorId, 'Dokter'),
+      petId: request.petId ? requireId(request.petId, 'Hewan peliharaan') : undefined,
+      slotStart: requireDate(request.slotStart, 'Jadwal').toISOString(),
+      reason: typeof request.reason === 'string' ? request.reason : '',
+      additionalServices: Array.isArray(request.additionalServices) ? request.additionalServices.map(String) : [],
+      notes: typeof request.notes === 'string' ? request.notes : undefined,
+      address: typeof request.address === 'string' ? request.address : undefined,
+    }),
+  }),
+
+  /**
+   * Cancel an appointment and its unpaid consultation order. A paid
+   * consultation is cancelled through its order (orders/cancel), which
+   * refunds it.
+   */
+  'appointments/cancel': async (request, session) => {
+    const appointmentId = requireId(request.appointmentId, 'Janji temu');
+    const reason = typeof request.reason === 'string' ? request.reason : undefined;
+
+    const order = await orders.findAppointmentOrder(session.partnerId, appointmentId);
+    if (order && order.status !== 'cancelled') {
+      // Cancels the appointment with it; refused once the consultation is paid
+      await orders.cancelUnpaidOrder(order.id, reason || 'Janji temu dibatalkan', { source: 'app' });
+      return { cancelled: true };
+    }
+
+    return { cancelled: await appointments.cancel(session.partnerId, appointmentId, reason) };
+  },
+};
@@ -0,0 +1,231 @@
+/**
+ * Accounts: login, registration and password changes. res.users is only
+ * reached from here; the app gets back a session token and its profile.
+ */
+
+import { odoo, relationId } from '../odoo';
+import { issueToken } from '../session';
+import { ProxyError, badRequest, notFound } from '../errors';
+import { whatsapp } from '../providers/whatsapp';
+import { otp } from '../services/otp';
+import { RouteHandlers, requireString } from '../handler';
+import { ProxySession, ProxyUser } from '../../../src/services/proxy/proxyRoutes';
+
+const USER_FIELDS = ['name', 'email', 'partner_id', 'company_id', 'image_1920', 'login', 'share'];
+
+// Phone numbers are stored as typed, so look for the common spellings
+const phoneVariations = (phoneNumber: string): string[] => {
+  const cleanPhone = (phoneNumber || '').replace(/[\s\-\(\)]/g, '');
+  return [
+    cleanPhone,
+    cleanPhone.startsWith('0') ? cleanPhone : '0' + cleanPhone,
+    cleanPhone.startsWith('62') ? cleanPhone : '62' + cleanPhone.substring(cleanPhone.startsWith('0') ? 1 : 0),
+  ];
+};
+
+const getUser = async (uid: number): Promise<ProxyUser> => {
+  const [record] = await odoo.read('res.users', [uid], USER_FIELDS);
+  if (!record) {
+    throw notFound('Akun tidak ditemukan');
+  }
+
+  const partnerId = relationId(record.partner_id)!;
+  const [partner] = await odoo.read('res.partner', [partnerId], ['phone']);
+
+  return {
+    id: uid,
+    username: record.login || '',
+    name: record.name || record.login || '',
+    email: record.email || '',
+    partnerId,
+    companyId: relationId(record.company_id),
+    image: record.image_1920 || undefined,
+    phone: partner?.phone || undefined,
+    // Portal users are customers; internal users are clinic staff
+    staff: record.share === false,
+  };
+};
+
+const startSession = async (uid: number): Promise<ProxySession> => {
+  const user = await getUser(uid);
+  const { token, expiresIn } = issueToken({ uid, partnerId: user.partnerId, staff: user.staff });
+  return { token, expiresIn, user };
+};
+
+const isUsernameTaken = async (username: string) =>
+  (await odoo.searchCount('res.users', [['login', '=', username]])) > 0;
+
+const isEmailTaken = async (email: string) =>
+  (await odoo.searchCount('res.users', [['email', '=', email]])) > 0;
+
+const isPhoneRegistered = async (phone: string) =>
+  (await odoo.searchCount('res.partner', [['phone', 'in', phoneVariations(phone)]])) > 0;
+
+export const authHandlers: RouteHandlers<
+  | 'auth/login'
+  | 'auth/social-login'
+  | 'auth/register'
+  | 'auth/check-username'
+  | 'auth/check-email'
+  | 'auth/check-phone'
+  | 'auth/otp-request'
+  | 'auth/otp-verify'
+  | 'auth/find-username'
+  | 'auth/reset-password'
+  | 'auth/change-password'
+  | 'auth/profile'
+> = {
+  'auth/login': async request => {
+    const uid = await odoo.authenticate(requireString(request.username, 'Username'), requireString(request.password, 'Password'));
+    if (!uid) {
+      throw new ProxyError('INVALID_CREDENTIALS', 'Invalid username or password', 401);
+    }
+    return startSession(uid);
+  },
+
+  // res.users.social_login checks the provider token and finds or creates the user
+  'auth/social-login': async request => {
+    const response = await odoo.execute('res.users', 'social_login', [], {
+      provider: requireString(request.provider, 'Provider'),
+      social_id: requireString(request.socialId, 'Social ID'),
+      access_token: requireString(request.accessToken, 'Access token'),
+      email: request.email,
+      name: request.name,
+      avatar: request.avatar,
+    });
+
+    if (!response?.user?.id) {
+      throw new ProxyError('INVALID_CREDENTIALS', 'Invalid response from Odoo social login', 401);
+    }
+    return startSession(response.user.id);
+  },
+
+  // The phone number must have been verified by OTP just before
+  'auth/register': async request => {
+    const username = requireString(request.username, 'Username');
+    const password = requireString(request.password, 'Password');
+    const name = requireString(request.name, 'Nama');
+    const email = requireString(request.email, 'Email');
+
+    if (await isUsernameTaken(username)) {
+      throw new ProxyError('CONFLICT', 'Username sudah terdaftar. Silakan gunakan username lain.');
+    }
+    if (!email.includes('@petnexus.com') && await isEmailTaken(email)) {
+      throw new ProxyError('CONFLICT', 'Email sudah terdaftar. Silakan gunakan email lain atau login dengan akun yang sudah ada.');
+    }
+    if (request.phone) {
+      if (await isPhoneRegistered(request.phone)) {
+        throw new ProxyError('CONFLICT', 'Nomor WhatsApp sudah terdaftar. Silakan gunakan nomor lain atau login dengan akun yang sudah ada.');
+      }
+      await otp.consumeVerification(request.phone);
+    }
+
+    const uid = await odoo.create('res.users', {
+      login: username,
+      password,
+      name,
+      email,
+      // Portal access only
+      groups_id: [[6, 0, []]],
+    });
+
+    if (request.phone) {
+      const [user] = await odoo.read('res.users', [uid], ['partner_id']);
+      await odoo.write('res.partner', [relationId(user.partner_id)!], { phone: request.phone });
+    }
+
+    return startSession(uid);
+  },
+
+  'auth/check-username': async request => ({
+    available: !(await isUsernameTaken(requireString(request.username, 'Username'))),
+  }),
+
+  'auth/check-email': async request => ({
+    available: !(await isEmailTaken(requireString(request.email, 'Email'))),
+  }),
+
+  'auth/check-phone': async request => ({
+    registered: await isPhoneRegistered(requireString(request.phone, 'Nomor telepon')),
+  }),
+
+  'auth/otp-request': async request => otp.requestCode(requireString(request.phone, 'Nomor telepon')),
+
+  'auth/otp-verify': async request =>
+    otp.verifyCode(requireString(request.phone, 'Nomor telepon'), requireString(request.code, 'Kode OTP')),
+
+  // The username goes to the account's WhatsApp, so an email address alone reveals nothing
+  'auth/find-username': async request => {
+    const email = requireString(request.email, 'Email').toLowerCase();
+    const [user] = await odoo.searchRead('res.users', [['email', '=', email]], ['login', 'partner_id'], { limit: 1 });
+    if (!user) {
+      return { sent: false };
+    }
+
+    const [partner] = await odoo.read('res.partner', [relationId(user.partner_id)!], ['phone']);
+    if (!partner?.phone) {
+      return { sent: false };
+    }
+
+    const sent = await whatsapp.send(partner.phone, `PawSmart - Username Anda\n\nUsername Anda adalah: ${user.login}\n\nJika Anda tidak meminta ini, abaikan pesan ini.`);
+    return { sent };
+  },
+
+  // Only a phone number that was just verified by OTP may be reset
+  'auth/reset-password': async request => {
+    const phone = requireString(request.phone, 'Nomor telepon');
+    const password = requireString(request.password, 'Password');
+
+    await otp.consumeVerification(phone);
+
+    const [partnerId] = await odoo.search('res.partner', [['phone', 'in', phoneVariations(phone)]], { limit: 1 });
+    const [uid] = partnerId ? await odoo.search('res.users', [['partner_id', '=', partnerId]], { limit: 1 }) : [];
+    if (!uid) {
+      throw notFound('Phone number is not registered in our system.');
+    }
+
+    await odoo.write('res.users', [uid], { password });
+    await whatsapp.send(phone, 'PawSmart - Password Berhasil Diubah\n\nPassword Anda telah berhasil diubah. Silakan login dengan password baru Anda.\n\nJika Anda tidak melakukan perubahan ini, segera hubungi customer service kami.');
+
+    return { reset: true };
+  },
+
+  'auth/change-password': async (request, session) => {
+    const oldPassword = requireString(request.oldPassword, 'Password lama');
+    const newPassword = requireString(request.newPassword, 'Password baru');
+
+    const [user] = await odoo.read('res.users', [session.uid], ['login']);
+    if (!user || !(await odoo.authenticate(user.login, oldPassword))) {
+      throw new ProxyError('WRONG_PASSWORD', 'Password lama tidak sesuai');
+    }
+
+    await odoo.write('res.users', [session.uid], { password: newPassword });
+
+    const [partner] = await odoo.read('res.partner', [session.partnerId], ['phone']);
+    if (partner?.phone) {
+      await whatsapp.send(partner.phone, 'PawSmart - Password Berhasil Diubah\n\nPassword Anda telah berhasil diubah. Jika Anda tidak melakukan perubahan ini, segera hubungi customer service kami.');
+    }
+
+    return { changed: true };
+  },
+
+  'auth/profile': async (request, session) => {
+    const userValues: Record<string, any> = {};
+    if (request.name) userValues.name = request.name;
+    if (request.email) {
+      if (typeof request.email !== 'string' || !/\S+@\S+\.\S+/.test(request.email)) {
+        throw badRequest('Format email tidak valid');
+      }
+      userValues.email = request.email;
+    }
+
+    if (Object.keys(userValues).length > 0) {
+      await odoo.write('res.users', [session.uid], userValues);
+    }
+    if (request.phone !== undefined) {
+      await odoo.write('res.partner', [session.partnerId], { phone: request.phone });
+    }
+
+    return getUser(session.uid);
+  },
+};
@@ -0,0 +1,149 @@
+/**
+ * Orders: creating them at catalogue prices, cancelling, returning and paying
+ * from the PawSmart balance. Every handler acts on the caller's own orders.
+ */
+
+import { odoo, relationId } from '../odoo';
+import { ProxyError, badRequest, notFound } from '../errors';
+import { orders } from '../services/orders';
+import { refunds } from '../services/refunds';
+import { shipments } from '../services/shipments';
+import { RouteHandlers, requireAmount, requireId, requireString } from '../handler';
+import { CONSULTATION_ADDITIONAL_SERVICES } from '../../../src/services/proxy/proxyRoutes';
+import { ORDER_LIFECYCLE_FIELDS } from '../../../src/services/order/orderLifecycle';
+
+// Fee for doctors without one of their own (see doctorService)
+const DEFAULT_CONSULTATION_FEE = 350000;
+
+export const orderHandlers: RouteHandlers<
+  | 'orders/create'
+  | 'orders/consultation'
+  | 'orders/transition'
+  | 'orders/cancel'
+  | 'orders/reopen'
+  | 'orders/pay-with-wallet'
+  | 'orders/return'
+> = {
+  /**
+   * Order at catalogue prices with the chosen courier. Shipping is quoted
+   * here and billed on the order, and the courier is booked once it is paid.
+   * A cash on delivery order is not paid up front: it is approved and the
+   * courier booked right away.
+   */
+  'orders/create': async (request, session) => {
+    if (!request.shipment) {
+      throw badRequest('Pilih jasa pengiriman terlebih dahulu');
+    }
+
+    const lines = (Array.isArray(request.lines) ? request.lines : [])
+      .map(line => ({ productId: Number(line.productId), quantity: Number(line.quantity) }))
+      .filter(line => Number.isInteger(line.productId) && line.quantity > 0);
+    if (lines.length === 0) {
+      throw badRequest('Pesanan harus berisi minimal satu produk');
+    }
+    const quote = await shipments.quoteShipment(request.shipment, lines);
+
+    const orderId = await orders.createOrder(
+      session.partnerId,
+      lines,
+      typeof request.note === 'string' ? request.note : undefined,
+      { name: `Ongkos kirim ${request.shipment.courier.toUpperCase()} (${request.shipment.serviceType})`, cost: quote.cost }
+    );
+
+    await shipments.requestForOrder(await orders.getOrder(orderId), request.shipment, quote);
+    if (request.shipment.cod) {
+      await orders.confirmCashOnDelivery(orderId);
+      await shipments.bookShipment(orderId);
+    }
+    return { orderId };
+  },
+
+  /**
+   * Order for a booked consultation, priced from the doctor's fee and the
+   * chosen additional services. The [DOCTOR_SERVICE] marker puts it in the
+   * Activity "Dokter" tab. Paying it confirms the appointment.
+   */
+  'orders/consultation': async (request, session) => {
+    const appointmentId = requireId(request.appointmentId, 'Janji temu');
+    const [appointment] = await odoo.searchRead('medical.appointment', [
+      ['id', '=', appointmentId],
+      ['patient_id', '=', session.partnerId],
+    ], ['name', 'doctor_id', 'pet_id', 'appointment_date', 'service_type', 'state'], { limit: 1 });
+    if (!appointment) {
+      throw notFound('Janji temu tidak ditemukan');
+    }
+
+    const existing = await orders.findAppointmentOrder(session.partnerId, appointmentId);
+    if (existing) {
+      return { orderId: existing.id };
+    }
+    if (appointment.state !== 'draft') {
+      throw new ProxyError('CONFLICT', 'Janji temu ini tidak dapat dipesan lagi');
+    }
+
+    const doctorId = relationId(appointment.doctor_id)!;
+    const [doctor] = await odoo.read('hr.employee', [doctorId], ['name', 'consultation_fee', 'home_service_fee']);
+    const homeService = appointment.service_type === 'home-service';
+    const fee = (homeService ? doctor?.home_service_fee : doctor?.consultation_fee) || DEFAULT_CONSULTATION_FEE;
+
+    const petName = Array.isArray(appointment.pet_id) ? appointment.pet_id[1] : '';
+    const services = CONSULTATION_ADDITIONAL_SERVICES.filter(service => (request.additionalServices || []).includes(service.id));
+    const productId = await orders.getServiceProductId('CONSULTATION', 'Consultation Service');
+
+    const dateLabel = new Date(`${String(appointment.appointment_date).replace(' ', 'T')}Z`).toLocaleString('id-ID', {
+      weekday: 'long',
+      day: 'numeric',
+      month: 'long',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      timeZone: 'Asia/Jakarta',
+    });
+
+    const orderId = await orders.createPricedOrder(
+      session.partnerId,
+      [
+        [0, 0, { product_id: productId, product_uom_qty: 1, price_unit: fee, name: `Konsultasi ${doctor?.name || ''} - ${petName}` }],
+        ...services.map(service => [0, 0, { product_id: productId, product_uom_qty: 1, price_unit: service.price, name: service.name }]),
+      ],
+      `[DOCTOR_SERVICE] ${appointment.name || `#${appointmentId}`} - ${doctor?.name || ''}, ${petName}, ${dateLabel}`,
+      { [ORDER_LIFECYCLE_FIELDS.APPOINTMENT_ID]: appointmentId }
+    );
+    return { orderId };
+  },
+
+  // Only the move from draft to waiting_payment is requested by the app
+  'orders/transition': async (request, session) => {
+    if (request.status !== 'waiting_payment') {
+      throw new ProxyError('FORBIDDEN', 'Status pesanan tidak dapat diubah dari aplikasi');
+    }
+    return { status: await orders.awaitPayment(session.partnerId, requireId(request.orderId, 'Pesanan')) };
+  },
+
+  'orders/cancel': async (request, session) => {
+    const orderId = requireId(request.orderId, 'Pesanan');
+    const returnId = await refunds.cancelOrder(session.partnerId, orderId, {
+      reason: requireString(request.reason, 'Alasan'),
+      note: request.note,
+      bankAccount: request.bankAccount,
+    });
+    return { status: 'cancelled', ...(returnId && { returnId }) };
+  },
+
+  'orders/reopen': async (request, session) => ({
+    status: await orders.reopenExpiredOrder(session.partnerId, requireId(request.orderId, 'Pesanan')),
+  }),
+
+  'orders/pay-with-wallet': async (request, session) => ({
+    paid: await orders.payWithWallet(session.partnerId, requireId(request.orderId, 'Pesanan'), requireAmount(request.amount)),
+  }),
+
+  'orders/return': async (request, session) => ({
+    returnId: await refunds.requestReturn(session.partnerId, requireId(request.orderId, 'Pesanan'), {
+      reason: requireString(request.reason, 'Alasan'),
+      note: request.note,
+      photos: request.photos,
+      bankAccount: request.bankAccount,
+    }),
+  }),
+};
@@ -0,0 +1,12 @@
+/**
+ * Health passports: links to a read-only page of one of the caller's pets.
+ * The page itself is served by the server at GET /passport/<token>.
+ */
+
+import { passports } from '../services/passports';
+import { RouteHandlers, requireId } from '../handler';
+
+export const passportHandlers: RouteHandlers<'passports/create'> = {
+  'passports/create': async (request, session) =>
+    passports.createLink(session.partnerId, requireId(request.petId, 'Hewan peliharaan'), Number(request.days) || undefined),
+};
@@ -0,0 +1,42 @@
+/**
+ * Gateway payments for the caller's orders
+ */
+
+import { badRequest } from '../errors';
+import { payments } from '../services/payments';
+import { RouteHandlers, requireAmount, requireString } from '../handler';
+
+export const paymentHandlers: RouteHandlers<
+  | 'payments/create'
+  | 'payments/status'
+  | 'payments/card-charge'
+  | 'payments/simulate'
+> = {
+  'payments/create': async (request, session) => {
+    if (!request.request) {
+      throw badRequest('Data pembayaran tidak lengkap');
+    }
+    return payments.createOrderPayment(
+      session.partnerId,
+      { ...request.request, amount: requireAmount(request.request.amount) },
+      request.provider,
+      request.options
+    );
+  },
+
+  'payments/status': async (request, session) =>
+    payments.applyStatus(requireString(request.paymentId, 'ID pembayaran'), session.partnerId),
+
+  'payments/card-charge': async (request, session) =>
+    payments.chargeCard(session.partnerId, {
+      orderId: requireString(String(request.orderId ?? ''), 'Pesanan'),
+      tokenId: requireString(request.tokenId, 'Token kartu'),
+      authenticationId: requireString(request.authenticationId, 'Autentikasi kartu'),
+      amount: requireAmount(request.amount),
+      description: request.description,
+    }),
+
+  'payments/simulate': async (request, session) => ({
+    simulated: await payments.simulate(session.partnerId, requireString(request.paymentId, 'ID pembayaran')),
+  }),
+};
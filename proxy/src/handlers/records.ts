@@ -0,0 +1,165 @@
+/**
+ * Plain Odoo reads and writes for the models in the record policies. Every
+ * query is limited to the caller's records, and every change is checked
+ * against the records the caller owns before it is made.
+ */
+
+import { odoo, Domain } from '../odoo';
+import { Session } from '../session';
+import { badRequest, forbidden, notFound } from '../errors';
+import { ModelPolicy, canCreate, canRunAction, canWrite, getPolicy, readFields, scopeDomain, writeValues } from '../policies';
+import { RouteHandlers, requireIds, requireString } from '../handler';
+
+const MAX_LIMIT = 500;
+
+const asDomain = (domain: any): Domain => {
+  if (domain === undefined || domain === null) {
+    return [];
+  }
+  if (!Array.isArray(domain)) {
+    throw badRequest('Domain tidak valid');
+  }
+  return domain;
+};
+
+const asLimit = (limit: any): number => {
+  const value = Number(limit);
+  return Number.isInteger(value) && value > 0 ? Math.min(value, MAX_LIMIT) : MAX_LIMIT;
+};
+
+/**
+ * Check that every ID is a record the caller may change and return them
+ */
+const assertOwned = async (model: string, policy: ModelPolicy, session: Session, ids: number[]): Promise<number[]> => {
+  if (ids.length === 0) {
+    return ids;
+  }
+
+  const scope = await scopeDomain(policy, session);
+  const writeScope = session.staff ? [] : policy.writeScope || [];
+  const owned = await odoo.search(model, [['id', 'in', ids], ...scope, ...writeScope]);
+  if (owned.length !== new Set(ids).size) {
+    throw notFound();
+  }
+  return ids;
+};
+
+export const recordHandlers: RouteHandlers<
+  | 'records/search-read'
+  | 'records/read'
+  | 'records/search'
+  | 'records/search-count'
+  | 'records/name-search'
+  | 'records/fields-get'
+  | 'records/create'
+  | 'records/write'
+  | 'records/unlink'
+  | 'records/action'
+> = {
+  'records/search-read': async (request, session) => {
+    const policy = getPolicy(request.model);
+    const fields = readFields(policy, request.fields);
+    const scope = await scopeDomain(policy, session, request.fields);
+
+    return odoo.execute(request.model, 'search_read', [], {
+      domain: [...scope, ...asDomain(request.domain)],
+      ...(fields && { fields }),
+      limit: asLimit(request.limit),
+      ...(request.offset && { offset: Number(request.offset) }),
+      ...(request.order && { order: String(request.order) }),
+    });
+  },
+
+  'records/read': async (request, session) => {
+    const policy = getPolicy(request.model);
+    const ids = requireIds(request.ids);
+    const fields = readFields(policy, request.fields);
+    const scope = await scopeDomain(policy, session, request.fields);
+
+    // Records outside the scope are left out, as if they did not exist
+    const visible = scope.length > 0 ? await odoo.search(request.model, [['id', 'in', ids], ...scope]) : ids;
+    const records = visible.length > 0
+      ? await odoo.execute(request.model, 'read', [visible], fields ? { fields } : {})
+      : [];
+
+    // Keep the order the app asked for
+    return ids.map(id => records.find((record: any) => record.id === id)).filter(Boolean);
+  },
+
+  'records/search': async (request, session) => {
+    const policy = getPolicy(request.model);
+    const scope = await scopeDomain(policy, session);
+
+    return odoo.execute(request.model, 'search', [[...scope, ...asDomain(request.domain)]], {
+      limit: asLimit(request.limit),
+      ...(request.offset && { offset: Number(request.offset) }),
+      ...(request.order && { order: String(request.order) }),
+    });
+  },
+
+  'records/search-count': async (request, session) => {
+    const policy = getPolicy(request.model);
+    const scope = await scopeDomain(policy, session);
+    return odoo.searchCount(request.model, [...scope, ...asDomain(request.domain)]);
+  },
+
+  'records/name-search': async (request, session) => {
+    const policy = getPolicy(request.model);
+    const scope = await scopeDomain(policy, session);
+
+    return odoo.execute(request.model, 'name_search', [], {
+      name: request.name || '',
+      args: [...scope, ...asDomain(request.domain)],
+      limit: asLimit(request.limit),
+    });
+  },
+
+  'records/fields-get': async request => {
+    getPolicy(request.model);
+    return odoo.execute(request.model, 'fields_get', [], {
+      attributes: request.attributes?.length ? request.attributes : ['string', 'type', 'required', 'readonly'],
+    });
+  },
+
+  'records/create': async (request, session) => {
+    const policy = getPolicy(request.model);
+    if (!canCreate(policy, session)) {
+      throw forbidden();
+    }
+
+    const values = await writeValues(policy, session, request.values);
+    return odoo.create(request.model, values);
+  },
+
+  'records/write': async (request, session) => {
+    const policy = getPolicy(request.model);
+    if (!canWrite(policy, session)) {
+      throw forbidden();
+    }
+
+    const ids = await assertOwned(request.model, policy, session, requireIds(request.ids));
+    const values = await writeValues(policy, session, request.values, ids);
+    return odoo.write(request.model, ids, values);
+  },
+
+  'records/unlink': async (request, session) => {
+    const policy = getPolicy(request.model);
+    if (!policy.unlink) {
+      throw forbidden();
+    }
+
+    const ids = await assertOwned(request.model, policy, session, requireIds(request.ids));
+    return odoo.execute(request.model, 'unlink', [ids]);
+  },
+
+  'records/action': async (request, session) => {
+    const policy = getPolicy(request.model);
+    const action = requireString(request.action, 'Action');
+    if (!canRunAction(policy, session, action)) {
+      throw forbidden();
+    }
+
+    const ids = await assertOwned(request.model, policy, session, requireIds(request.ids));
+    return odoo.execute(request.model, action, [ids]);
+  },
+};
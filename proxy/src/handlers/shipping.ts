@@ -0,0 +1,84 @@
+/**
+ * Shipping: KiriminAja rates and locations, parcel sizes and order
+ * tracking. The courier the customer chose is sent with the order
+ * (orders/create).
+ */
+
+import { badRequest } from '../errors';
+import { kiriminAja } from '../providers/kiriminAja';
+import { orders } from '../services/orders';
+import { calculatePackage } from '../services/packages';
+import { RouteHandlers, requireId, requireString } from '../handler';
+import { OrderStatus, canTransitionOrder } from '../../../src/services/order/orderLifecycle';
+
+// KiriminAja status codes that mean the parcel reached the customer. Only the
+// code is compared: the free-text status name also reads "diterima oleh kurir"
+// at pickup, and "UNDELIVERED" contains "delivered".
+const DELIVERED_STATUS_CODES = ['DELIVERED'];
+
+// Steps an order walks through when the courier reports delivery
+const DELIVERY_PATH: OrderStatus[] = ['processing', 'shipped', 'delivered'];
+
+export const shippingHandlers: RouteHandlers<
+  | 'shipping/rates'
+  | 'shipping/instant-rates'
+  | 'shipping/locations'
+  | 'shipping/subdistricts'
+  | 'shipping/order-tracking'
+  | 'shipping/package'
+> = {
+  'shipping/rates': async request => {
+    if (!request.origin || !request.destination || !(request.weight > 0)) {
+      throw badRequest('Data pengiriman tidak lengkap');
+    }
+    return kiriminAja.getRates(request);
+  },
+
+  'shipping/instant-rates': async request => kiriminAja.getInstantRates(request),
+
+  'shipping/locations': async request => kiriminAja.searchLocation(requireString(request.keyword, 'Kata kunci')),
+
+  'shipping/subdistricts': async request => kiriminAja.getSubdistricts(requireId(request.districtId, 'Kecamatan')),
+
+  // Weight and box size the proxy quotes shipping with, so the app shows the same rates
+  'shipping/package': async request => {
+    const items = (Array.isArray(request.items) ? request.items : [])
+      .map(item => ({ productId: Number(item.productId), quantity: Number(item.quantity) }))
+      .filter(item => Number.isInteger(item.productId) && item.quantity > 0);
+    if (items.length === 0) {
+      throw badRequest('Produk tidak ditemukan');
+    }
+    return calculatePackage(items);
+  },
+
+  /**
+   * Track the order's AWB and walk the order to 'delivered' once the courier
+   * reports it. A cash on delivery order is paid from then on.
+   */
+  'shipping/order-tracking': async (request, session) => {
+    const order = await orders.getOwnedOrder(session.partnerId, requireId(request.orderId, 'Pesanan'));
+    if (!order.shippingAwb) {
+      throw badRequest('Pesanan ini belum memiliki nomor resi');
+    }
+
+    const tracking = await kiriminAja.track(order.shippingAwb, order.shippingCourier);
+    const delivered = DELIVERED_STATUS_CODES.includes((tracking.status_code || '').trim().toUpperCase());
+
+    let status = order.status;
+    if (delivered) {
+      const note = tracking.receiver_name ? `Diterima oleh ${tracking.receiver_name}` : tracking.status_name;
+      try {
+        for (const step of DELIVERY_PATH) {
+          if (canTransitionOrder(status, step)) {
+            status = await orders.updateOrderStatus(order.id, step, { note, source: 'shipping' });
+          }
+        }
+        await orders.settleCashOnDelivery(order.id, note);
+      } catch (error) {
+        // The order catches up on the next refresh
+      }
+    }
+
+    return { tracking, orderStatusUpdated: status !== order.status };
+  },
+};
@@ -0,0 +1,35 @@
+/**
+ * PawSmart balance: holding it for an order and topping it up
+ */
+
+import { ProxyError } from '../errors';
+import { orders } from '../services/orders';
+import { wallet } from '../services/wallet';
+import { RouteHandlers, requireAmount, requireId, requireString } from '../handler';
+import { canTransitionOrder } from '../../../src/services/order/orderLifecycle';
+
+export const walletHandlers: RouteHandlers<'wallet/hold' | 'wallet/release' | 'wallet/top-up'> = {
+  // Part of an order paid from the balance; spent when the rest is paid
+  'wallet/hold': async (request, session) => {
+    const order = await orders.getOwnedOrder(session.partnerId, requireId(request.orderId, 'Pesanan'));
+    if (!canTransitionOrder(order.status, 'payment_confirmed')) {
+      throw new ProxyError('CONFLICT', 'Pesanan ini tidak dapat dibayar');
+    }
+    return wallet.holdForOrder(session.partnerId, order.id, Math.min(requireAmount(request.amount), order.amountTotal), order.name);
+  },
+
+  'wallet/release': async (request, session) => {
+    const order = await orders.getOwnedOrder(session.partnerId, requireId(request.orderId, 'Pesanan'));
+    return { released: await wallet.releaseOrderHolds(order.id) };
+  },
+
+  'wallet/top-up': async (request, session) =>
+    wallet.createTopUp(session.partnerId, {
+      amount: requireAmount(request.amount),
+      paymentMethod: request.paymentMethod,
+      customerName: requireString(request.customerName, 'Nama'),
+      customerEmail: request.customerEmail,
+      customerPhone: request.customerPhone,
+      paymentOptions: request.paymentOptions,
+    }),
+};
@@ -0,0 +1,78 @@
+/**
+ * Small fetch wrapper for the provider APIs: JSON or form bodies, a timeout,
+ * and an HttpError carrying the provider's status and response body.
+ */
+
+import { config } from './config';
+
+export class HttpError extends Error {
+  constructor(
+    public status: number | null, // null when the request never got a response
+    public data: any,
+    message: string
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export interface HttpRequest {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  headers?: Record<string, string>;
+  json?: any;
+  form?: Record<string, string | number | undefined>;
+  timeoutMs?: number;
+}
+
+export const basicAuth = (username: string, password = '') =>
+  `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+
+/**
+ * Send a request and return the parsed body. Throws HttpError for non-2xx
+ * answers, timeouts and network failures.
+ */
+export async function httpRequest<T = any>(url: string, request: HttpRequest = {}): Promise<T> {
+  const headers: Record<string, string> = { Accept: 'application/json', ...request.headers };
+  let body: string | undefined;
+
+  if (request.json !== undefined) {
+    headers['Content-Type'] = 'application/json';
+    body = JSON.stringify(request.json);
+  } else if (request.form) {
+    headers['Content-Type'] = 'application/x-www-form-urlencoded';
+    const params = new URLSearchParams();
+    Object.entries(request.form).forEach(([key, value]) => {
+      if (value !== undefined) {
+        params.append(key, String(value));
+      }
+    });
+    body = params.toString();
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: request.method || (body === undefined ? 'GET' : 'POST'),
+      headers,
+      body,
+      signal: AbortSignal.timeout(request.timeoutMs || config.NETWORK.TIMEOUT_MS),
+    });
+  } catch (error: any) {
+    const reason = error?.name === 'TimeoutError' ? 'timed out' : error?.message || 'network error';
+    throw new HttpError(null, null, `${request.method || 'POST'} ${url} ${reason}`);
+  }
+
+  const text = await response.text();
+  let data: any = text;
+  try {
+    data = text ? JSON.parse(text) : null;
+  } catch (error) {
+    // Not JSON; keep the raw text
+  }
+
+  if (!response.ok) {
+    throw new HttpError(response.status, data, `${url} answered ${response.status}`);
+  }
+
+  return data as T;
+}
@@ -0,0 +1,50 @@
+/**
+ * Background jobs that used to run on customers' devices: AutoKirim cycles,
+ * payment expiry and reminders, appointments booked without a payment,
+ * top-ups whose callback was missed, courier booking retries and refunds.
+ * One run at a time; a job that fails is tried again on the next run.
+ */
+
+import { config } from '../config';
+import { autoKirim } from '../services/autoKirim';
+import { payments } from '../services/payments';
+import { refunds } from '../services/refunds';
+import { shipments } from '../services/shipments';
+
+const JOBS: Array<[string, () => Promise<void>]> = [
+  ['autokirim', () => autoKirim.generateDueOrders()],
+  ['payments', () => payments.expireAndRemind()],
+  ['appointments', () => payments.releaseUnpaidAppointments()],
+  ['topups', () => payments.checkPendingTopUps()],
+  ['shipments', () => shipments.retryPendingBookings()],
+  ['refunds', () => refunds.processPendingRefunds()],
+];
+
+let running = false;
+
+export const runJobs = async (): Promise<void> => {
+  if (running) {
+    return;
+  }
+  running = true;
+
+  try {
+    for (const [name, job] of JOBS) {
+      try {
+        await job();
+      } catch (error: any) {
+        console.error(`[jobs] ${name} failed: ${error.message}`);
+      }
+    }
+  } finally {
+    running = false;
+  }
+};
+
+/**
+ * Run the jobs every JOBS.INTERVAL_MS. Returns a function that stops them.
+ */
+export const startScheduler = (): (() => void) => {
+  const timer = setInterval(runJobs, config.JOBS.INTERVAL_MS);
+  return () => clearInterval(timer);
+};
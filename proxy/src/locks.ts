@@ -0,0 +1,29 @@
+/**
+ * Per-key locks for read-then-write sequences on Odoo records (OTP attempts,
+ * wallet balances, job claims). Calls with the same key run one after the
+ * other; the proxy runs as a single instance, so this covers every caller.
+ */
+
+const tails = new Map<string, Promise<void>>();
+
+export const withLock = async <T>(key: string, task: () => Promise<T>): Promise<T> => {
+  const previous = tails.get(key) || Promise.resolve();
+
+  let release!: () => void;
+  const current = new Promise<void>(resolve => {
+    release = resolve;
+  });
+  const tail = previous.then(() => current);
+  tails.set(key, tail);
+
+  await previous;
+  try {
+    return await task();
+  } finally {
+    release();
+    // Nothing queued behind this call
+    if (tails.get(key) === tail) {
+      tails.delete(key);
+    }
+  }
+};
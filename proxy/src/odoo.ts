@@ -0,0 +1,112 @@
+/**
+ * Odoo JSON-RPC client running as the admin user. Only the proxy's handlers
+ * and services call it; the app never reaches Odoo with these credentials.
+ */
+
+import { config } from './config';
+import { httpRequest } from './http';
+import { ProxyError } from './errors';
+
+export type Domain = any[];
+
+// Odoo datetimes are UTC 'YYYY-MM-DD HH:MM:SS'
+export const toOdooDate = (date: Date) => date.toISOString().replace('T', ' ').substring(0, 19);
+export const fromOdooDate = (value: string) => new Date(`${value.replace(' ', 'T')}Z`);
+
+// Many2one fields come back as [id, name] or false
+export const relationId = (value: any): number | undefined =>
+  Array.isArray(value) ? value[0] : typeof value === 'number' ? value : undefined;
+
+class OdooClient {
+  private uid: number | null = null;
+
+  /**
+   * Call a JSON-RPC service method (common, object, db)
+   */
+  async rpc(service: string, method: string, args: any[]): Promise<any> {
+    const response = await httpRequest(`${config.ODOO.URL}/jsonrpc`, {
+      json: {
+        jsonrpc: '2.0',
+        method: 'call',
+        params: { service, method, args },
+        id: Date.now(),
+      },
+    });
+
+    if (response?.error) {
+      const message = response.error.data?.message || response.error.message || 'Odoo error';
+      throw new ProxyError('UPSTREAM_ERROR', message);
+    }
+    return response?.result;
+  }
+
+  /**
+   * Check a customer's login without keeping their password.
+   * Returns the user ID, or null when the credentials are wrong.
+   */
+  async authenticate(username: string, password: string): Promise<number | null> {
+    const uid = await this.rpc('common', 'authenticate', [config.ODOO.DATABASE, username, password, {}]);
+    return uid || null;
+  }
+
+  /**
+   * Run a model method as the admin user
+   */
+  async execute(model: string, method: string, args: any[] = [], kwargs: any = {}): Promise<any> {
+    const uid = await this.adminUid();
+    return this.rpc('object', 'execute_kw', [
+      config.ODOO.DATABASE,
+      uid,
+      config.ODOO.PASSWORD,
+      model,
+      method,
+      args,
+      kwargs,
+    ]);
+  }
+
+  searchRead(model: string, domain: Domain, fields: string[], options: { limit?: number; offset?: number; order?: string } = {}): Promise<any[]> {
+    return this.execute(model, 'search_read', [], {
+      domain,
+      fields,
+      ...(options.limit && { limit: options.limit }),
+      ...(options.offset && { offset: options.offset }),
+      ...(options.order && { order: options.order }),
+    });
+  }
+
+  search(model: string, domain: Domain, options: { limit?: number; order?: string } = {}): Promise<number[]> {
+    return this.execute(model, 'search', [domain], options);
+  }
+
+  searchCount(model: string, domain: Domain): Promise<number> {
+    return this.execute(model, 'search_count', [domain]);
+  }
+
+  read(model: string, ids: number[], fields: string[]): Promise<any[]> {
+    return this.execute(model, 'read', [ids], { fields });
+  }
+
+  create(model: string, values: Record<string, any>): Promise<number> {
+    return this.execute(model, 'create', [values]);
+  }
+
+  write(model: string, ids: number[], values: Record<string, any>): Promise<boolean> {
+    return this.execute(model, 'write', [ids, values]);
+  }
+
+  private async adminUid(): Promise<number> {
+    if (this.uid) {
+      return this.uid;
+    }
+
+    const uid = await this.authenticate(config.ODOO.USERNAME, config.ODOO.PASSWORD);
+    if (!uid) {
+      throw new ProxyError('UNAVAILABLE', 'Server sedang tidak tersedia');
+    }
+    this.uid = uid;
+    return uid;
+  }
+}
+
+export const odoo = new OdooClient();
@@ -0,0 +1,327 @@
+/**
+ * Record policies for the records/* routes: which Odoo models the app may
+ * read and change, and which of their records belong to the caller. Models
+ * that are not listed here (OTP codes, webhook events, slot holds, users,
+ * ...) cannot be reached through records/* at all.
+ *
+ * Records the proxy manages itself (orders past the cart, wallet entries,
+ * returns, shipments) are read-only here; they change through their own
+ * routes.
+ */
+
+import { odoo, Domain, relationId } from './odoo';
+import { Session } from './session';
+import { forbidden } from './errors';
+import { ORDER_LIFECYCLE_FIELDS, ORDER_LIFECYCLE_MODELS } from '../../src/services/order/orderLifecycle';
+
+export interface ModelPolicy {
+  // Records the caller may see and change; all records when not set
+  scope?: (session: Session) => Domain | Promise<Domain>;
+  // Fields readable outside the scope, e.g. other customers' appointment times for slot checks
+  sharedFields?: string[];
+  // Fields a read may return; all fields when not set
+  readableFields?: string[];
+  // Further limit on the records the caller may write or delete
+  writeScope?: Domain;
+  create?: boolean;
+  write?: boolean;
+  unlink?: boolean;
+  // Fields the caller may set on create and write; all fields when not set
+  writableFields?: string[];
+  // Values set on every record the caller creates, over anything in the request
+  ownerValues?: (session: Session) => Record<string, any>;
+  // Checks or rewrites the values of a create or write
+  sanitize?: (values: Record<string, any>, session: Session, ids?: number[]) => Record<string, any> | Promise<Record<string, any>>;
+  actions?: string[];
+  // Clinic staff read every record and may make these changes
+  staff?: { create?: boolean; write?: boolean; actions?: string[] };
+}
+
+// client_order_ref of the customer's saved cart (see orderService.CART_DRAFT_REF)
+export const CART_DRAFT_REF = 'PAWSMART_CART';
+
+const byPartner = (field: string) => (session: Session): Domain => [[field, '=', session.partnerId]];
+
+const ownPets = (field: string) => (session: Session): Domain => [[`${field}.x_owner_id`, '=', session.partnerId]];
+
+const ownerValues = (field: string) => (session: Session) => ({ [field]: session.partnerId });
+
+const ADDRESS_FIELDS = [
+  'name', 'phone', 'mobile', 'street', 'street2', 'city', 'zip', 'state_id', 'country_id',
+  'partner_latitude', 'partner_longitude', 'type', 'is_company', 'active',
+];
+
+const SAVED_CARD_FIELDS = [
+  'x_name', 'x_token_id', 'x_masked_number', 'x_brand', 'x_card_type', 'x_bank', 'x_exp_month', 'x_exp_year', 'x_is_default',
+];
+
+const PET_FIELDS = [
+  'x_name', 'x_type', 'x_breed', 'x_age', 'x_weight', 'x_color', 'x_gender', 'x_microchip_id', 'x_birth_date',
+  'x_photo', 'x_photo_id', 'x_photo_thumbnail_id', 'x_medical_history', 'x_vaccinations', 'x_notes',
+  'x_reminder_type', 'x_last_vet_visit', 'x_active',
+];
+
+const DOCTOR_FIELDS = [
+  'id', 'name', 'display_name', 'specialization', 'qualification', 'experience_years', 'rating',
+  'total_appointments', 'image_1920', 'image_128', 'mobile_phone', 'work_email', 'work_location',
+  'consultation_fee', 'home_service_fee', 'is_available', 'available_days', 'working_hours', 'languages',
+  'certifications', 'offers_walk_in', 'offers_home_service', 'location_ids', 'is_doctor',
+];
+
+/**
+ * The customer's own partner only takes a new photo; name, email and phone
+ * change through auth/profile. Delivery addresses take the address fields.
+ */
+const sanitizePartner = (values: Record<string, any>, session: Session, ids?: number[]) => {
+  if (ids?.includes(session.partnerId)) {
+    const fields = Object.keys(values);
+    if (fields.some(field => field !== 'image_1920')) {
+      throw forbidden('Perbarui profil melalui halaman Edit Profil');
+    }
+    return values;
+  }
+  return { ...values, type: 'delivery', is_company: false };
+};
+
+/**
+ * Cart lines carry only a product and quantity; Odoo prices them. The only
+ * commands accepted are (5, 0, 0) to clear the lines and (0, 0, vals).
+ */
+const sanitizeCart = (values: Record<string, any>) => {
+  const lines = Array.isArray(values.order_line) ? values.order_line : [];
+
+  const orderLine = lines.map((command: any) => {
+    if (Array.isArray(command) && command[0] === 5) {
+      return [5, 0, 0];
+    }
+    if (Array.isArray(command) && command[0] === 0 && command[2]) {
+      const productId = Number(command[2].product_id);
+      const quantity = Number(command[2].product_uom_qty);
+      if (!Number.isInteger(productId) || !(quantity > 0)) {
+        throw forbidden('Isi keranjang tidak valid');
+      }
+      return [0, 0, { product_id: productId, product_uom_qty: quantity }];
+    }
+    throw forbidden('Isi keranjang tidak valid');
+  });
+
+  return { ...values, client_order_ref: CART_DRAFT_REF, order_line: orderLine };
+};
+
+// Pet photos are the only attachments the app uploads
+const sanitizeAttachment = async (values: Record<string, any>, session: Session) => {
+  if (values.res_model !== 'x_pawsmart_pet') {
+    throw forbidden();
+  }
+  const owned = await odoo.searchCount('x_pawsmart_pet', [['id', '=', values.res_id], ['x_owner_id', '=', session.partnerId]]);
+  if (!owned) {
+    throw forbidden();
+  }
+  return values;
+};
+
+/**
+ * A home visit is requested for one of the customer's own appointments. Its
+ * doctor comes from the appointment and it starts scheduled.
+ */
+const sanitizeHomeVisit = async (values: Record<string, any>, session: Session) => {
+  const [appointment] = await odoo.searchRead('medical.appointment', [
+    ['id', '=', values.x_appointment_id],
+    ['patient_id', '=', session.partnerId],
+  ], ['doctor_id'], { limit: 1 });
+  if (!appointment) {
+    throw forbidden();
+  }
+  return { ...values, x_doctor_id: relationId(appointment.doctor_id) || false, x_status: 'scheduled' };
+};
+
+const attachmentScope = async (session: Session): Promise<Domain> => {
+  const [petIds, returnIds] = await Promise.all([
+    odoo.search('x_pawsmart_pet', [['x_owner_id', '=', session.partnerId]]),
+    odoo.search('x_pawsmart_return', [['x_partner_id', '=', session.partnerId]]),
+  ]);
+
+  return [
+    '|',
+    '&', ['res_model', '=', 'x_pawsmart_pet'], ['res_id', 'in', petIds],
+    '&', ['res_model', '=', 'x_pawsmart_return'], ['res_id', 'in', returnIds],
+  ];
+};
+
+const POLICIES: Record<string, ModelPolicy> = {
+  // Catalogue and reference data
+  'product.product': { staff: { create: true, write: true } },
+  'product.template': {},
+  'product.category': {},
+  'res.country': {},
+  'res.country.state': {},
+  'hr.employee': {
+    scope: () => [['is_doctor', '=', true]],
+    readableFields: DOCTOR_FIELDS,
+  },
+
+  // The customer and their delivery addresses
+  'res.partner': {
+    scope: session => ['|', ['id', '=', session.partnerId], ['parent_id', '=', session.partnerId]],
+    create: true,
+    write: true,
+    writableFields: [...ADDRESS_FIELDS, 'image_1920'],
+    ownerValues: ownerValues('parent_id'),
+    sanitize: sanitizePartner,
+  },
+
+  // Orders: the saved cart is the only sale.order the app writes
+  'sale.order': {
+    scope: byPartner('partner_id'),
+    writeScope: [['state', '=', 'draft'], ['client_order_ref', '=', CART_DRAFT_REF]],
+    create: true,
+    write: true,
+    unlink: true,
+    writableFields: ['order_line', 'client_order_ref'],
+    ownerValues: ownerValues('partner_id'),
+    sanitize: sanitizeCart,
+  },
+  'sale.order.line': { scope: byPartner('order_id.partner_id') },
+  [ORDER_LIFECYCLE_MODELS.ORDER_EVENT]: { scope: byPartner('x_order_id.partner_id') },
+  'account.move': { scope: byPartner('partner_id'), staff: { create: true, actions: ['action_post'] } },
+  x_pawsmart_return: { scope: byPartner('x_partner_id') },
+  x_pawsmart_shipment: { scope: byPartner('x_order_id.partner_id') },
+  x_pawsmart_wallet_entry: { scope: byPartner('x_partner_id') },
+  x_pawsmart_subscription: {
+    scope: byPartner('x_partner_id'),
+    create: true,
+    write: true,
+    ownerValues: ownerValues('x_partner_id'),
+    // The scheduler keeps the cycle bookkeeping
+    sanitize: values => {
+      const { x_last_order_id, x_cycle_count, x_last_error, ...rest } = values;
+      return rest;
+    },
+  },
+  x_pawsmart_saved_card: {
+    scope: byPartner('x_partner_id'),
+    create: true,
+    write: true,
+    unlink: true,
+    // The owner is set on create and never changes
+    writableFields: SAVED_CARD_FIELDS,
+    ownerValues: ownerValues('x_partner_id'),
+  },
+
+  // Pets and their health records
+  x_pawsmart_pet: {
+    scope: byPartner('x_owner_id'),
+    create: true,
+    write: true,
+    unlink: true,
+    writableFields: PET_FIELDS,
+    ownerValues: ownerValues('x_owner_id'),
+  },
+  'ir.attachment': {
+    scope: attachmentScope,
+    create: true,
+    unlink: true,
+    writableFields: ['name', 'type', 'datas', 'mimetype', 'res_model', 'res_id'],
+    sanitize: sanitizeAttachment,
+  },
+  x_pawsmart_grooming: { scope: ownPets('x_pet_id'), staff: { create: true, write: true } },
+  // Links are created through passports/create; the token stays on the proxy
+  x_pawsmart_pet_passport: {
+    scope: byPartner('x_partner_id'),
+    readableFields: ['id', 'x_name', 'x_pet_id', 'x_expires_at', 'x_state'],
+  },
+  'medical.record': { scope: ownPets('pet_id'), staff: { create: true, write: true } },
+  'medical.prescription': { scope: ownPets('medical_record_id.pet_id'), staff: { create: true, write: true } },
+
+  // Appointments and home visits
+  // Booked and cancelled through appointments/*, which hold the slot's lock
+  'medical.appointment': {
+    scope: byPartner('patient_id'),
+    sharedFields: ['id', 'doctor_id', 'appointment_date', 'duration', 'state'],
+    staff: { write: true },
+  },
+  x_pawsmart_home_visit: {
+    scope: byPartner('x_partner_id'),
+    create: true,
+    // The customer sends the request; progress and location come from the doctor's device
+    writableFields: ['x_name', 'x_appointment_id', 'x_address', 'x_dest_latitude', 'x_dest_longitude'],
+    ownerValues: ownerValues('x_partner_id'),
+    sanitize: sanitizeHomeVisit,
+    staff: { write: true },
+  },
+};
+
+// Order lifecycle fields are only ever written by the proxy
+const PROTECTED_FIELDS = Object.values(ORDER_LIFECYCLE_FIELDS);
+
+/**
+ * The policy for a model, or FORBIDDEN when the app may not use it
+ */
+export const getPolicy = (model: string): ModelPolicy => {
+  const policy = Object.prototype.hasOwnProperty.call(POLICIES, model) ? POLICIES[model] : undefined;
+  if (!policy) {
+    throw forbidden(`Model ${model} tidak tersedia`);
+  }
+  return policy;
+};
+
+/**
+ * Domain of the records the caller may see
+ */
+export const scopeDomain = async (policy: ModelPolicy, session: Session, fields?: string[]): Promise<Domain> => {
+  if (!policy.scope) {
+    return [];
+  }
+  // Staff see every record, except doctor profiles which stay limited to doctors
+  if (session.staff && policy.readableFields === undefined) {
+    return [];
+  }
+  if (policy.sharedFields && fields?.length && fields.every(field => policy.sharedFields!.includes(field))) {
+    return [];
+  }
+  return policy.scope(session);
+};
+
+/**
+ * Fields a read returns: the requested ones within readableFields
+ */
+export const readFields = (policy: ModelPolicy, fields?: string[]): string[] | undefined => {
+  if (!policy.readableFields) {
+    return fields?.length ? fields : undefined;
+  }
+  const requested = fields?.length ? fields : policy.readableFields;
+  return requested.filter(field => policy.readableFields!.includes(field));
+};
+
+/**
+ * Values the caller may send for a create or write
+ */
+export const writeValues = async (
+  policy: ModelPolicy,
+  session: Session,
+  values: Record<string, any>,
+  ids?: number[]
+): Promise<Record<string, any>> => {
+  // The owner is set below, whatever the request says
+  const owner = !ids && policy.ownerValues && !session.staff ? policy.ownerValues(session) : {};
+  const fields = Object.keys(values || {}).filter(field => !(field in owner));
+
+  if (fields.some(field => PROTECTED_FIELDS.includes(field))) {
+    throw forbidden('Status pesanan tidak dapat diubah dari aplikasi');
+  }
+  if (!(session.staff && policy.staff) && policy.writableFields && fields.some(field => !policy.writableFields!.includes(field))) {
+    throw forbidden('Sebagian data tidak dapat diubah');
+  }
+
+  const sanitized = policy.sanitize && !session.staff ? await policy.sanitize(values, session, ids) : values;
+  return { ...sanitized, ...owner };
+};
+
+export const canCreate = (policy: ModelPolicy, session: Session) =>
+  !!policy.create || (session.staff && !!policy.staff?.create);
+
+export const canWrite = (policy: ModelPolicy, session: Session) =>
+  !!policy.write || (session.staff && !!policy.staff?.write);
+
+export const canRunAction = (policy: ModelPolicy, session: Session, action: string) =>
+  !!policy.actions?.includes(action) || (session.staff && !!policy.staff?.actions?.includes(action));
@@ -0,0 +1,208 @@
+/**
+ * Flip API (secret key). Direct-API bills for QRIS, virtual accounts and
+ * e-wallets, hosted bill pages, and disbursements for bank refunds.
+ */
+
+import { config } from '../config';
+import { HttpError, basicAuth, httpRequest } from '../http';
+
+export type FlipBillStatus = 'PENDING' | 'PAID' | 'EXPIRED';
+
+export interface FlipBill {
+  linkId: string;
+  linkUrl?: string;
+  status: FlipBillStatus;
+  amount: number;
+  referenceId?: string;
+  qrString?: string;
+  accountNumber?: string;
+  bankCode?: string;
+  paymentUrl?: string;
+  expiresAt?: string; // ISO 8601
+  raw: any;
+}
+
+export interface FlipBillRequest {
+  referenceId: string; // One per payment attempt; used to find a bill whose creation timed out
+  amount: number;
+  title: string;
+  customerName: string;
+  customerEmail?: string;
+  customerPhone?: string;
+}
+
+export interface FlipDisbursementRequest {
+  idempotencyKey: string;
+  accountNumber: string;
+  bankCode: string;
+  amount: number;
+  remark: string;
+  recipientName?: string;
+}
+
+const url = (path: string) => `${config.FLIP.BASE_URL.replace(/\/$/, '')}/${path.replace(/^\//, '')}`;
+const headers = () => ({ Authorization: basicAuth(config.FLIP.SECRET_KEY) });
+
+const mapBillStatus = (status: string | undefined): FlipBillStatus => {
+  switch (status) {
+    case 'PAID':
+    case 'COMPLETED':
+    case 'SUCCESSFUL':
+      return 'PAID';
+    case 'EXPIRED':
+    case 'CANCELLED':
+    case 'INACTIVE':
+      return 'EXPIRED';
+    default:
+      return 'PENDING';
+  }
+};
+
+// Flip dates are Jakarta time without an offset ('YYYY-MM-DD HH:mm')
+const fromFlipDate = (value: string | undefined): string | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(/[zZ]|[+-]\d{2}:?\d{2}$/.test(value) ? value : `${value.replace(' ', 'T')}+07:00`);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+const toBill = (data: any): FlipBill => {
+  const account = data?.bill_payment?.receiver_bank_account || {};
+  return {
+    linkId: String(data?.link_id ?? data?.bill_payment?.id ?? data?.id),
+    linkUrl: data?.link_url || undefined,
+    status: mapBillStatus(data?.bill_payment?.status || data?.status),
+    amount: Number(data?.amount) || 0,
+    referenceId: data?.reference_id || undefined,
+    qrString: account.qr_code_data || data?.qr_string || undefined,
+    accountNumber: account.account_number || undefined,
+    bankCode: account.bank_code || undefined,
+    paymentUrl: data?.payment_url || account.payment_url || undefined,
+    expiresAt: fromFlipDate(data?.expired_date),
+    raw: data,
+  };
+};
+
+const providerMessage = (error: any, fallback: string) =>
+  (error instanceof HttpError && (error.data?.message || error.data?.errors?.[0]?.message)) || fallback;
+
+class FlipProvider {
+  /**
+   * Create a direct-API bill paid by QRIS, a virtual account or an e-wallet.
+   * senderBank is 'qris', a lowercase bank code or an e-wallet code.
+   */
+  async createBill(
+    request: FlipBillRequest,
+    senderBank: string,
+    senderBankType: 'wallet_account' | 'virtual_account'
+  ): Promise<FlipBill> {
+    try {
+      const data = await httpRequest(url('big_api/v3/pwf/bill'), {
+        headers: headers(),
+        json: {
+          title: request.title,
+          type: 'single',
+          step: 'direct_api',
+          amount: Math.round(request.amount),
+          sender_name: request.customerName,
+          sender_email: request.customerEmail || 'noreply@example.com',
+          sender_bank: senderBank,
+          sender_bank_type: senderBankType,
+          reference_id: request.referenceId,
+        },
+      });
+      return toBill(data);
+    } catch (error) {
+      throw new Error(providerMessage(error, 'Failed to create Flip payment'));
+    }
+  }
+
+  /**
+   * Create a hosted bill page where the customer picks the payment method
+   */
+  async createBillLink(request: FlipBillRequest): Promise<FlipBill> {
+    const expiredDate = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+    try {
+      const data = await httpRequest(url('v2/pwf/bill'), {
+        headers: headers(),
+        form: {
+          title: request.title,
+          type: 'SINGLE',
+          amount: Math.round(request.amount),
+          sender_name: request.customerName,
+          sender_email: request.customerEmail,
+          sender_phone_number: request.customerPhone,
+          expired_date: expiredDate.toISOString().split('T')[0],
+          reference_id: request.referenceId,
+          is_address_required: 0,
+          is_phone_number_required: 0,
+        },
+      });
+      // Hosted bills report ACTIVE until they are paid
+      return { ...toBill(data), status: data?.status === 'ACTIVE' ? 'PENDING' : mapBillStatus(data?.status) };
+    } catch (error) {
+      throw new Error(providerMessage(error, 'Failed to create Flip payment link'));
+    }
+  }
+
+  /**
+   * Find the bill created with a reference ID. Returns null when there is none.
+   */
+  async findBillByReference(referenceId: string): Promise<FlipBill | null> {
+    try {
+      const data = await httpRequest(url('v2/pwf/bill'), { headers: headers() });
+      const bill = (Array.isArray(data) ? data : data?.data || []).find((item: any) => item?.reference_id === referenceId);
+      return bill ? toBill(bill) : null;
+    } catch (error) {
+      throw new Error(providerMessage(error, 'Failed to look up Flip payment'));
+    }
+  }
+
+  /**
+   * Look up a bill by link ID. Returns null when Flip does not know it.
+   */
+  async getBill(linkId: string): Promise<FlipBill | null> {
+    try {
+      return toBill(await httpRequest(url(`big_api/v3/bill/${linkId}`), { headers: headers() }));
+    } catch (error) {
+      if (error instanceof HttpError && error.status === 404) {
+        return null;
+      }
+      throw new Error(providerMessage(error, 'Failed to get Flip payment status'));
+    }
+  }
+
+  /**
+   * Transfer money to a bank account. Flip ignores a repeated idempotency key.
+   */
+  async createDisbursement(request: FlipDisbursementRequest): Promise<{ id: string; status: string; amount: number }> {
+    try {
+      const data = await httpRequest(url('disbursement'), {
+        headers: { ...headers(), 'idempotency-key': request.idempotencyKey },
+        form: {
+          account_number: request.accountNumber,
+          bank_code: request.bankCode,
+          amount: Math.round(request.amount),
+          remark: request.remark.substring(0, 18),
+          recipient_name: request.recipientName,
+        },
+      });
+      return { id: String(data.id), status: data.status, amount: Number(data.amount) };
+    } catch (error) {
+      throw new Error(providerMessage(error, 'Failed to create bank transfer'));
+    }
+  }
+
+  async getDisbursement(id: string): Promise<{ id: string; status: string; amount: number }> {
+    try {
+      const data = await httpRequest(url(`disbursement/${id}`), { headers: headers() });
+      return { id: String(data.id), status: data.status, amount: Number(data.amount) };
+    } catch (error) {
+      throw new Error(providerMessage(error, 'Failed to get transfer status'));
+    }
+  }
+}
+
+export const flip = new FlipProvider();
@@ -0,0 +1,205 @@
+/**
+ * KiriminAja API (bearer token): rates, locations, tracking and pickups.
+ * Documentation: https://developer.kiriminaja.com/docs
+ */
+
+import { config } from '../config';
+import { HttpError, httpRequest } from '../http';
+import {
+  InstantPricingRequest,
+  LocationSearchResponse,
+  ShippingPriceRequest,
+  ShippingPriceResponse,
+  SubdistrictResult,
+  TrackingResponse,
+} from '../../../src/services/proxy/proxyRoutes';
+
+export interface PickupSchedule {
+  clock: string; // 'YYYY-MM-DD HH:MM:SS'
+  until: string;
+  expired: boolean;
+  libur: boolean; // Holiday, no pickup
+}
+
+export interface PickupPackage {
+  order_id: string; // Our reference, must be unique per package
+  destination_name: string;
+  destination_phone: string;
+  destination_address: string;
+  destination_kecamatan_id: number;
+  destination_kelurahan_id?: number;
+  destination_zipcode?: string;
+  weight: number; // grams
+  width?: number;
+  length?: number;
+  height?: number;
+  item_value: number;
+  shipping_cost: number;
+  service: string;
+  service_type: string;
+  item_name: string;
+  package_type_id: number;
+  cod: number; // COD amount to collect, 0 for prepaid
+  note?: string;
+}
+
+export interface PickupRequest {
+  name: string;
+  phone: string;
+  address: string;
+  kecamatan_id: number;
+  kelurahan_id?: number;
+  zipcode?: string;
+  latitude?: number;
+  longitude?: number;
+  schedule: string;
+  packages: PickupPackage[];
+}
+
+export interface PickupResponse {
+  status: boolean;
+  text: string;
+  details?: { kj_order_id?: string; pickup_number?: string };
+  results: Array<{ order_id: string; kj_order_id?: string; awb?: string | null }>;
+}
+
+export interface InstantPickupRequest {
+  service: string;
+  service_type: string;
+  vehicle: 'motor' | 'mobil';
+  order_prefix: string;
+  packages: Array<{
+    origin_name: string;
+    origin_phone: string;
+    origin_lat: number;
+    origin_long: number;
+    origin_address: string;
+    destination_name: string;
+    destination_phone: string;
+    destination_lat: number;
+    destination_long: number;
+    destination_address: string;
+    destination_address_note?: string;
+    shipping_price: number;
+    item: { name: string; price: number; weight: number };
+  }>;
+}
+
+export interface InstantPickupResponse {
+  status: boolean;
+  text: string;
+  result?: {
+    packages?: Array<{ order_id: string; awb?: string | null }>;
+  };
+}
+
+const post = async <T = any>(path: string, body: any, fallback: string): Promise<T> => {
+  try {
+    const data = await httpRequest(`${config.KIRIMINAJA.BASE_URL}${path}`, {
+      headers: { Authorization: `Bearer ${config.KIRIMINAJA.TOKEN}` },
+      json: body,
+    });
+    if (!data?.status) {
+      throw new Error(data?.text || fallback);
+    }
+    return data;
+  } catch (error: any) {
+    throw new Error((error instanceof HttpError && error.data?.text) || error.message || fallback);
+  }
+};
+
+// Max of the actual weight and the volumetric weight (cm³ / 6000)
+const finalWeight = (request: ShippingPriceRequest): number => {
+  if (!request.width || !request.length || !request.height) {
+    return request.weight;
+  }
+  return Math.max(request.weight, Math.ceil((request.width * request.length * request.height) / 6000));
+};
+
+class KiriminAjaProvider {
+  getRates(request: ShippingPriceRequest): Promise<ShippingPriceResponse> {
+    return post(`/api/mitra/${config.KIRIMINAJA.API_VERSION}/shipping_price`, {
+      origin: request.origin,
+      destination: request.destination,
+      weight: finalWeight(request),
+      ...(request.subdistrict_origin && { subdistrict_origin: request.subdistrict_origin }),
+      ...(request.subdistrict_destination && { subdistrict_destination: request.subdistrict_destination }),
+      ...(request.length && { length: request.length }),
+      ...(request.width && { width: request.width }),
+      ...(request.height && { height: request.height }),
+      ...(request.insurance !== undefined && { insurance: request.insurance }),
+      ...(request.item_value && { item_value: request.item_value }),
+      ...(request.courier && { courier: request.courier }),
+    }, 'Failed to fetch shipping rates from KiriminAja');
+  }
+
+  /**
+   * Instant rates; an empty result when instant couriers are unavailable
+   */
+  async getInstantRates(request: InstantPricingRequest): Promise<ShippingPriceResponse> {
+    try {
+      return await post('/api/mitra/v4/instant/pricing', {
+        origin: { lat: request.origin.lat, long: request.origin.long },
+        destination: { lat: request.destination.lat, long: request.destination.long },
+        weight: request.weight,
+        timezone: request.timezone,
+        ...(request.item_value && { item_value: request.item_value }),
+      }, 'Instant services not available');
+    } catch (error: any) {
+      return { status: false, method: 'instant', text: error.message, results: [] };
+    }
+  }
+
+  /**
+   * Search districts by name. v2 answers "District, City, Province" strings.
+   */
+  async searchLocation(keyword: string): Promise<LocationSearchResponse> {
+    const data = await post('/api/mitra/v2/get_address_by_name', { search: keyword }, 'Failed to search location');
+
+    return {
+      status: data.status,
+      method: data.method || 'get_address_by_name',
+      text: data.text,
+      results: (data.data || []).map((item: any) => {
+        const [district = '', city = '', province = ''] = String(item.text).split(',').map(part => part.trim());
+        return {
+          district_id: item.id,
+          district_name: district,
+          city_name: city,
+          province_name: province,
+          postal_code: '',
+        };
+      }),
+    };
+  }
+
+  async getSubdistricts(districtId: number): Promise<SubdistrictResult[]> {
+    const data = await post('/api/mitra/kelurahan', { kecamatan_id: districtId }, 'Failed to fetch subdistricts');
+    return (data.datas || data.results || []).map((item: any) => ({
+      id: item.id,
+      name: item.kelurahan_name || item.name || item.text,
+    }));
+  }
+
+  track(awb: string, courier?: string): Promise<TrackingResponse> {
+    return post(`/api/mitra/${config.KIRIMINAJA.API_VERSION}/tracking`, {
+      awb,
+      ...(courier && { courier }),
+    }, 'Failed to track shipment');
+  }
+
+  async getPickupSchedules(): Promise<PickupSchedule[]> {
+    const data = await post('/api/mitra/v2/schedules', {}, 'Failed to fetch pickup schedules');
+    return data.schedules || [];
+  }
+
+  requestPickup(request: PickupRequest): Promise<PickupResponse> {
+    return post(`/api/mitra/${config.KIRIMINAJA.API_VERSION}/request_pickup`, request, 'Failed to request pickup');
+  }
+
+  requestInstantPickup(request: InstantPickupRequest): Promise<InstantPickupResponse> {
+    return post('/api/mitra/v4/instant/pickup/request', request, 'Failed to request instant pickup');
+  }
+}
+
+export const kiriminAja = new KiriminAjaProvider();
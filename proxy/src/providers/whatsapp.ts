@@ -0,0 +1,139 @@
+/**
+ * WhatsApp messages through Fonnte (https://fonnte.com/), Twilio
+ * (https://www.twilio.com/whatsapp) or the WhatsApp Business Cloud API
+ * (Meta). WHATSAPP_PROVIDER picks the provider tried first (Fonnte when
+ * unset); when it fails, the other providers that have credentials are tried
+ * in the order Fonnte, Twilio, Meta.
+ */
+
+import { config } from '../config';
+import { basicAuth, httpRequest } from '../http';
+
+export type WhatsAppProviderName = 'fonnte' | 'twilio' | 'meta';
+
+const PROVIDER_ORDER: WhatsAppProviderName[] = ['fonnte', 'twilio', 'meta'];
+
+// Fonnte wants the number without the country code; countryCode adds it back
+const formatTarget = (phone: string): string => {
+  const digits = phone.replace(/\D/g, '');
+  if (digits.startsWith('62')) {
+    return digits.substring(2);
+  }
+  return digits.startsWith('0') ? digits.substring(1) : digits;
+};
+
+// Twilio and Meta want the international number (Indonesia by default)
+const formatInternational = (phone: string): string => `62${formatTarget(phone)}`;
+
+class WhatsAppProvider {
+  /**
+   * Send a text message. Returns false when no provider accepted it.
+   */
+  async send(phone: string, message: string): Promise<boolean> {
+    return this.deliver(phone, provider => this.sendText(provider, phone, message));
+  }
+
+  /**
+   * Send a one-time code. Meta only delivers it with the approved
+   * authentication template; the other providers send the message as text.
+   */
+  async sendOtp(phone: string, code: string, message: string): Promise<boolean> {
+    return this.deliver(phone, provider =>
+      provider === 'meta' ? this.sendMetaOtp(phone, code) : this.sendText(provider, phone, message)
+    );
+  }
+
+  // Providers with credentials, the configured one first
+  private providers(): WhatsAppProviderName[] {
+    const configured = PROVIDER_ORDER.filter(provider => this.isConfigured(provider));
+    const preferred = config.WHATSAPP.PROVIDER;
+    return configured.includes(preferred)
+      ? [preferred, ...configured.filter(provider => provider !== preferred)]
+      : configured;
+  }
+
+  private isConfigured(provider: WhatsAppProviderName): boolean {
+    switch (provider) {
+      case 'fonnte':
+        return !!config.FONNTE.TOKEN;
+      case 'twilio':
+        return !!(config.TWILIO.ACCOUNT_SID && config.TWILIO.AUTH_TOKEN && config.TWILIO.WHATSAPP_NUMBER);
+      case 'meta':
+        return !!(config.META_WHATSAPP.ACCESS_TOKEN && config.META_WHATSAPP.PHONE_NUMBER_ID);
+    }
+  }
+
+  private async deliver(phone: string, sendWith: (provider: WhatsAppProviderName) => Promise<boolean>): Promise<boolean> {
+    if (!phone) {
+      return false;
+    }
+
+    for (const provider of this.providers()) {
+      try {
+        if (await sendWith(provider)) {
+          return true;
+        }
+      } catch (error: any) {
+        console.error(`[whatsapp] ${provider} failed: ${error.message}`);
+      }
+    }
+    return false;
+  }
+
+  private async sendText(provider: WhatsAppProviderName, phone: string, message: string): Promise<boolean> {
+    switch (provider) {
+      case 'fonnte': {
+        const data = await httpRequest('https://api.fonnte.com/send', {
+          headers: { Authorization: config.FONNTE.TOKEN },
+          json: { target: formatTarget(phone), message, countryCode: '62' },
+        });
+        return !!data?.status;
+      }
+
+      case 'twilio': {
+        const data = await httpRequest(`https://api.twilio.com/2010-04-01/Accounts/${config.TWILIO.ACCOUNT_SID}/Messages.json`, {
+          headers: { Authorization: basicAuth(config.TWILIO.ACCOUNT_SID, config.TWILIO.AUTH_TOKEN) },
+          form: {
+            From: config.TWILIO.WHATSAPP_NUMBER,
+            To: `whatsapp:+${formatInternational(phone)}`,
+            Body: message,
+          },
+        });
+        return !!data?.sid;
+      }
+
+      case 'meta':
+        // Free-form text only reaches customers who messaged the business in the last 24 hours
+        return this.sendMeta({
+          to: formatInternational(phone),
+          type: 'text',
+          text: { preview_url: false, body: message },
+        });
+    }
+  }
+
+  private sendMetaOtp(phone: string, code: string): Promise<boolean> {
+    return this.sendMeta({
+      to: formatInternational(phone),
+      type: 'template',
+      template: {
+        name: config.META_WHATSAPP.OTP_TEMPLATE_NAME,
+        language: { code: config.META_WHATSAPP.TEMPLATE_LANGUAGE },
+        components: [
+          { type: 'body', parameters: [{ type: 'text', text: code }] },
+          { type: 'button', sub_type: 'copy_code', index: '0', parameters: [{ type: 'coupon_code', coupon_code: code }] },
+        ],
+      },
+    });
+  }
+
+  private async sendMeta(message: Record<string, any>): Promise<boolean> {
+    const data = await httpRequest(`https://graph.facebook.com/${config.META_WHATSAPP.API_VERSION}/${config.META_WHATSAPP.PHONE_NUMBER_ID}/messages`, {
+      headers: { Authorization: `Bearer ${config.META_WHATSAPP.ACCESS_TOKEN}` },
+      json: { messaging_product: 'whatsapp', recipient_type: 'individual', ...message },
+    });
+    return !!data?.messages?.[0]?.id;
+  }
+}
+
+export const whatsapp = new WhatsAppProvider();
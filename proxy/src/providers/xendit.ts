@@ -0,0 +1,215 @@
+/**
+ * Xendit API (secret key): QRIS, e-wallet and virtual account payments,
+ * card charges for tokens made on the device, and card and e-wallet refunds.
+ */
+
+import { config } from '../config';
+import { HttpError, basicAuth, httpRequest } from '../http';
+import { PaymentMethod } from '../../../src/services/proxy/proxyRoutes';
+
+export interface XenditPaymentRequest {
+  orderId: string;
+  idempotencyKey: string; // One per payment attempt; Xendit answers a repeat with the first payment
+  amount: number;
+  customerName: string;
+  customerEmail?: string;
+  customerPhone?: string;
+  description?: string;
+}
+
+const EXPIRY_MINUTES = {
+  QRIS: 30,
+  VIRTUAL_ACCOUNT: 1440,
+};
+
+// Xendit rejects a description for these banks
+const BANKS_WITHOUT_DESCRIPTION = ['BCA', 'MANDIRI'];
+
+const STATUS_PATHS: Record<PaymentMethod, string> = {
+  QRIS: 'qr_codes',
+  EWALLET: 'ewallets/charges',
+  VIRTUAL_ACCOUNT: 'callback_virtual_accounts',
+  CARDS: 'credit_card_charges',
+};
+
+const EWALLET_ERRORS: Record<string, (channelCode: string) => string> = {
+  INVALID_JSON_FORMAT: () => 'Format data tidak valid. Silakan coba lagi.',
+  DUPLICATE_PAYMENT: () => 'Pembayaran dengan ID ini sudah ada.',
+  CHANNEL_UNAVAILABLE: channelCode => `${channelCode} sedang tidak tersedia. Silakan pilih metode lain.`,
+};
+
+const url = (path: string) => `${config.XENDIT.BASE_URL.replace(/\/$/, '')}/${path}`;
+const headers = (extra: Record<string, string> = {}) => ({ Authorization: basicAuth(config.XENDIT.SECRET_KEY), ...extra });
+
+const providerMessage = (error: any, fallback: string) =>
+  (error instanceof HttpError && error.data?.message) || fallback;
+
+// 62-prefixed digits, as the e-wallet channels expect
+const formatMobileNumber = (phone?: string): string => {
+  let digits = (phone || '').replace(/\D/g, '');
+  if (!digits) {
+    return '';
+  }
+  if (digits.startsWith('0')) {
+    digits = `62${digits.substring(1)}`;
+  }
+  return digits.startsWith('62') ? digits : `62${digits}`;
+};
+
+class XenditProvider {
+  async createQRIS(request: XenditPaymentRequest): Promise<any> {
+    try {
+      return await httpRequest(url('qr_codes'), {
+        headers: headers({ 'X-IDEMPOTENCY-KEY': request.idempotencyKey }),
+        json: {
+          external_id: `qris_${request.idempotencyKey}`,
+          reference_id: request.orderId,
+          type: 'DYNAMIC',
+          currency: 'IDR',
+          amount: Math.max(1000, Math.round(request.amount)),
+          channel_code: 'QRIS',
+          callback_url: `${config.PUBLIC_URL}/webhooks/xendit`,
+          expires_at: new Date(Date.now() + EXPIRY_MINUTES.QRIS * 60000).toISOString(),
+          metadata: {
+            customer_name: request.customerName,
+            customer_email: request.customerEmail,
+            customer_phone: request.customerPhone,
+            description: request.description,
+          },
+        },
+      });
+    } catch (error) {
+      throw new Error(providerMessage(error, 'Failed to create QRIS payment'));
+    }
+  }
+
+  async createEwallet(request: XenditPaymentRequest, channelCode: string): Promise<any> {
+    const mobileNumber = formatMobileNumber(request.customerPhone);
+
+    try {
+      return await httpRequest(url('ewallets/charges'), {
+        headers: headers({ 'X-IDEMPOTENCY-KEY': request.idempotencyKey }),
+        json: {
+          reference_id: request.orderId,
+          currency: 'IDR',
+          amount: Math.round(request.amount),
+          checkout_method: 'ONE_TIME_PAYMENT',
+          channel_code: channelCode,
+          channel_properties: {
+            success_redirect_url: config.PAYMENT.SUCCESS_REDIRECT_URL,
+            failure_redirect_url: config.PAYMENT.FAILURE_REDIRECT_URL,
+            ...(mobileNumber && { mobile_number: mobileNumber }),
+          },
+          metadata: {
+            customer_name: request.customerName,
+            customer_email: request.customerEmail || '',
+            description: request.description || `Payment for order ${request.orderId}`,
+          },
+        },
+      });
+    } catch (error) {
+      const errorCode = error instanceof HttpError ? error.data?.error_code : undefined;
+      const known = errorCode && EWALLET_ERRORS[errorCode];
+      throw new Error(known ? known(channelCode) : providerMessage(error, 'Gagal membuat pembayaran e-wallet'));
+    }
+  }
+
+  async createVirtualAccount(request: XenditPaymentRequest, bankCode: string): Promise<any> {
+    try {
+      return await httpRequest(url('callback_virtual_accounts'), {
+        headers: headers({ 'X-IDEMPOTENCY-KEY': request.idempotencyKey }),
+        json: {
+          external_id: `va_${request.idempotencyKey}`,
+          bank_code: bankCode,
+          name: request.customerName.substring(0, 50),
+          expected_amount: Math.max(10000, Math.round(request.amount)),
+          is_closed: true,
+          is_single_use: true,
+          expiration_date: new Date(Date.now() + EXPIRY_MINUTES.VIRTUAL_ACCOUNT * 60000).toISOString(),
+          ...(!BANKS_WITHOUT_DESCRIPTION.includes(bankCode) && request.description && { description: request.description }),
+        },
+      });
+    } catch (error) {
+      throw new Error(providerMessage(error, 'Failed to create virtual account'));
+    }
+  }
+
+  /**
+   * Charge a card token that passed 3-D Secure on the device
+   */
+  async chargeCard(request: { orderId: string; tokenId: string; authenticationId: string; amount: number; description?: string }): Promise<any> {
+    try {
+      return await httpRequest(url('credit_card_charges'), {
+        headers: headers(),
+        json: {
+          token_id: request.tokenId,
+          authentication_id: request.authenticationId,
+          external_id: `card_${request.orderId}_${Date.now()}`,
+          amount: Math.round(request.amount),
+          currency: 'IDR',
+          capture: true,
+          ...(request.description && { descriptor: request.description.substring(0, 22) }),
+          metadata: { order_id: request.orderId },
+        },
+      });
+    } catch (error) {
+      throw new Error(providerMessage(error, 'Gagal menagih kartu'));
+    }
+  }
+
+  /**
+   * Look up a payment. Returns null when Xendit does not know it.
+   */
+  async getPayment(paymentId: string, paymentMethod: PaymentMethod): Promise<any | null> {
+    try {
+      return await httpRequest(url(`${STATUS_PATHS[paymentMethod]}/${paymentId}`), { headers: headers() });
+    } catch (error) {
+      if (error instanceof HttpError && error.status === 404) {
+        return null;
+      }
+      throw new Error(providerMessage(error, 'Failed to get payment status'));
+    }
+  }
+
+  /**
+   * Refund a card or e-wallet charge. Xendit ignores a repeated reference ID.
+   */
+  async createRefund(request: { paymentId: string; paymentMethod: 'CARDS' | 'EWALLET'; amount: number; referenceId: string }): Promise<any> {
+    const amount = Math.round(request.amount);
+
+    try {
+      return await httpRequest(url(`${STATUS_PATHS[request.paymentMethod]}/${request.paymentId}/refunds`), {
+        headers: headers({ 'X-IDEMPOTENCY-KEY': request.referenceId }),
+        json: request.paymentMethod === 'CARDS'
+          ? { amount, external_id: request.referenceId }
+          : { amount, reason: 'REQUESTED_BY_CUSTOMER', metadata: { reference_id: request.referenceId } },
+      });
+    } catch (error) {
+      throw new Error(providerMessage(error, 'Gagal membuat refund'));
+    }
+  }
+
+  async getRefund(paymentId: string, refundId: string, paymentMethod: 'CARDS' | 'EWALLET'): Promise<any> {
+    try {
+      return await httpRequest(url(`${STATUS_PATHS[paymentMethod]}/${paymentId}/refunds/${refundId}`), { headers: headers() });
+    } catch (error) {
+      throw new Error(providerMessage(error, 'Failed to check refund status'));
+    }
+  }
+
+  /**
+   * Pay a test virtual account (test mode keys only)
+   */
+  async simulateVirtualAccountPayment(paymentId: string, amount: number): Promise<void> {
+    try {
+      await httpRequest(url(`pool_virtual_accounts/${paymentId}/simulate_payment`), {
+        headers: headers(),
+        json: { amount: Math.round(amount) },
+      });
+    } catch (error) {
+      throw new Error(providerMessage(error, 'Failed to simulate VA payment'));
+    }
+  }
+}
+
+export const xendit = new XenditProvider();
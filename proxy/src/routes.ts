@@ -0,0 +1,37 @@
+/**
+ * Every route the proxy serves, one handler per operation. There is no
+ * generic passthrough: a route that is not listed here does not exist.
+ */
+
+import { Handler, RouteHandlers } from './handler';
+import { appointmentHandlers } from './handlers/appointments';
+import { authHandlers } from './handlers/auth';
+import { orderHandlers } from './handlers/orders';
+import { passportHandlers } from './handlers/passports';
+import { paymentHandlers } from './handlers/payments';
+import { recordHandlers } from './handlers/records';
+import { shippingHandlers } from './handlers/shipping';
+import { walletHandlers } from './handlers/wallet';
+import { PUBLIC_ROUTES, ProxyRoute } from '../../src/services/proxy/proxyRoutes';
+
+// Typed against ProxyRoutes, so a route missing from the contract or from here fails the build
+const ROUTES: RouteHandlers<ProxyRoute> = {
+  ...authHandlers,
+  ...recordHandlers,
+  ...orderHandlers,
+  ...appointmentHandlers,
+  ...passportHandlers,
+  ...walletHandlers,
+  ...paymentHandlers,
+  ...shippingHandlers,
+};
+
+export const findRoute = (route: string): { handler: Handler<ProxyRoute>; isPublic: boolean } | null => {
+  if (!Object.prototype.hasOwnProperty.call(ROUTES, route)) {
+    return null;
+  }
+  return {
+    handler: ROUTES[route as ProxyRoute] as Handler<ProxyRoute>,
+    isPublic: PUBLIC_ROUTES.includes(route as ProxyRoute),
+  };
+};
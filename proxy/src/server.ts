@@ -0,0 +1,171 @@
+/**
+ * PawSmart proxy: the backend-for-frontend between the app and Odoo, Flip,
+ * Xendit, KiriminAja and Fonnte.
+ *
+ * POST /<route> with the route's request as JSON and the session token as
+ * Bearer auth; answers { result } or { error: { code, message } }.
+ * POST /webhooks/flip and /webhooks/xendit take the providers' payment
+ * callbacks, checked with their callback tokens instead of a session.
+ * GET /passport/<token> serves a health passport page without a session,
+ * while its link is active.
+ * GET /health answers { status: 'ok' }.
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { config, missingSettings } from './config';
+import { ProxyError } from './errors';
+import { findRoute } from './routes';
+import { Session, verifyToken } from './session';
+import { startScheduler } from './jobs/scheduler';
+import { passports } from './services/passports';
+import { webhooks } from './services/webhooks';
+
+// Return photos arrive as base64 JPEGs
+const MAX_BODY_BYTES = 15 * 1024 * 1024;
+
+const WEBHOOK_PROVIDERS = {
+  'webhooks/flip': 'FLIP',
+  'webhooks/xendit': 'XENDIT',
+} as const;
+
+const readRawBody = (req: IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new ProxyError('BAD_REQUEST', 'Permintaan terlalu besar', 413));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+const readBody = async (req: IncomingMessage): Promise<any> => {
+  const raw = await readRawBody(req);
+  if (!raw) {
+    return {};
+  }
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    throw new ProxyError('BAD_REQUEST', 'Permintaan tidak valid');
+  }
+};
+
+const send = (res: ServerResponse, status: number, body: any) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+// Passport pages are opened from a QR code; they are not cached or indexed
+const sendHtml = (res: ServerResponse, status: number, html: string) => {
+  res.writeHead(status, {
+    'Content-Type': 'text/html; charset=utf-8',
+    'Cache-Control': 'no-store',
+    'Referrer-Policy': 'no-referrer',
+    'X-Robots-Tag': 'noindex',
+  });
+  res.end(html);
+};
+
+const messagePage = (title: string, message: string) =>
+  `<!DOCTYPE html><html><head><meta charset="utf-8" /><meta name="viewport" content="width=device-width, initial-scale=1.0" />` +
+  `<title>${title}</title></head><body style="font-family: Helvetica, Arial, sans-serif; margin: 24px;"><h1>${title}</h1><p>${message}</p></body></html>`;
+
+const handle = async (req: IncomingMessage, res: ServerResponse) => {
+  const path = (req.url || '/').split('?')[0].replace(/^\/+/, '');
+
+  if (req.method === 'GET' && path === 'health') {
+    send(res, 200, { status: 'ok' });
+    return;
+  }
+
+  const passport = /^passport\/([^/]+)$/.exec(path);
+  if (req.method === 'GET' && passport) {
+    await handlePassport(res, passport[1]);
+    return;
+  }
+
+  const provider = WEBHOOK_PROVIDERS[path as keyof typeof WEBHOOK_PROVIDERS];
+  if (req.method === 'POST' && provider) {
+    await handleWebhook(req, res, provider);
+    return;
+  }
+
+  const route = findRoute(path);
+  if (req.method !== 'POST' || !route) {
+    send(res, 404, { error: { code: 'NOT_FOUND', message: 'Route tidak ditemukan' } });
+    return;
+  }
+
+  try {
+    const bearer = (req.headers.authorization || '').replace(/^Bearer\s+/i, '');
+    // Public routes never read the session
+    const session = route.isPublic ? undefined : verifyToken(bearer);
+    const body = await readBody(req);
+
+    const result = await route.handler(body, session as Session);
+    send(res, 200, { result: result === undefined ? null : result });
+  } catch (error: any) {
+    if (error instanceof ProxyError) {
+      send(res, error.status, { error: { code: error.code, message: error.message } });
+      return;
+    }
+
+    console.error(`[${path}] ${error?.stack || error}`);
+    send(res, 500, { error: { code: 'INTERNAL', message: 'Terjadi kesalahan pada server. Silakan coba lagi.' } });
+  }
+};
+
+const handlePassport = async (res: ServerResponse, token: string) => {
+  try {
+    const html = await passports.renderPage(token);
+    if (!html) {
+      sendHtml(res, 404, messagePage('Paspor tidak ditemukan', 'Tautan paspor kesehatan ini tidak ditemukan atau sudah kedaluwarsa.'));
+      return;
+    }
+    sendHtml(res, 200, html);
+  } catch (error: any) {
+    console.error(`[passport] ${error?.stack || error}`);
+    sendHtml(res, 500, messagePage('Terjadi kesalahan', 'Paspor kesehatan tidak dapat dimuat. Silakan coba lagi.'));
+  }
+};
+
+const handleWebhook = async (req: IncomingMessage, res: ServerResponse, provider: 'FLIP' | 'XENDIT') => {
+  try {
+    const headers: Record<string, string | undefined> = {};
+    Object.entries(req.headers).forEach(([name, value]) => {
+      headers[name] = Array.isArray(value) ? value[0] : value;
+    });
+
+    const result = await webhooks.handle({ provider, headers, body: await readRawBody(req) });
+    if (result.outcome === 'failed' || result.outcome === 'rejected') {
+      console.error(`[webhooks/${provider}] ${result.outcome}: ${result.message}`);
+    }
+    send(res, result.status, { outcome: result.outcome });
+  } catch (error: any) {
+    console.error(`[webhooks/${provider}] ${error?.stack || error}`);
+    // The provider retries until it gets a 2xx
+    send(res, 500, { outcome: 'failed' });
+  }
+};
+
+const missing = missingSettings();
+if (missing.length > 0) {
+  console.error(`Missing settings: ${missing.join(', ')}`);
+  process.exit(1);
+}
+
+createServer((req, res) => {
+  handle(req, res);
+}).listen(config.PORT, () => {
+  console.log(`PawSmart proxy listening on port ${config.PORT}`);
+});
+
+startScheduler();
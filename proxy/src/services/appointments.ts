@@ -0,0 +1,229 @@
+/**
+ * Doctor appointments and the x_pawsmart_slot_hold records that reserve a
+ * slot while the customer books it. Holding and booking run under the slot's
+ * lock and see every customer's holds and appointments, so a slot goes to
+ * one customer. A hold counts only while it is active and before
+ * x_expires_at, so holds left behind by a closed app lapse on their own.
+ *
+ * A booked appointment stays in draft, keeping its slot, until its
+ * consultation order is paid (orders.settleOrderPayment confirms it). It is
+ * cancelled with the order when the order expires or is cancelled, or when
+ * no payment is created for it within SLOT_HOLD_MINUTES of booking
+ * (payments.releaseUnpaidAppointments).
+ */
+
+import { odoo, toOdooDate, fromOdooDate, relationId } from '../odoo';
+import { ProxyError, notFound } from '../errors';
+import { withLock } from '../locks';
+import { DOCTOR_SLOT_MINUTES, NewAppointment, SLOT_HOLD_MINUTES, SlotHold } from '../../../src/services/proxy/proxyRoutes';
+
+export const APPOINTMENT_MODEL = 'medical.appointment';
+export const SLOT_HOLD_MODEL = 'x_pawsmart_slot_hold';
+
+// Appointments in these states no longer take up their slot
+const FREED_STATES = ['cancelled', 'no_show'];
+
+const slotKey = (doctorId: number, slotStart: Date) => `slot:${doctorId}:${slotStart.toISOString()}`;
+
+const slotTaken = () => new ProxyError('SLOT_TAKEN', 'Jadwal ini sudah dipesan oleh pelanggan lain.', 409);
+const slotHeld = () => new ProxyError('SLOT_HELD', 'Jadwal ini sedang dipesan oleh pelanggan lain.', 409);
+
+class AppointmentService {
+  /**
+   * Starts of the doctor's slots within [from, to] that other customers hold
+   */
+  async getHeldSlots(partnerId: number, doctorId: number, from: Date, to: Date): Promise<string[]> {
+    const holds = await odoo.searchRead(SLOT_HOLD_MODEL, [
+      ...this.activeHoldDomain(doctorId),
+      ['x_slot_start', '>=', toOdooDate(from)],
+      ['x_slot_start', '<=', toOdooDate(to)],
+      ['x_partner_id', '!=', partnerId],
+    ], ['x_slot_start']);
+    return holds.map(hold => fromOdooDate(hold.x_slot_start).toISOString());
+  }
+
+  /**
+   * Reserve a slot for SLOT_HOLD_MINUTES. Any other slot the customer was
+   * holding is released first.
+   */
+  async holdSlot(partnerId: number, doctorId: number, slotStart: Date): Promise<SlotHold> {
+    await this.releasePartnerHolds(partnerId);
+
+    return withLock(slotKey(doctorId, slotStart), async () => {
+      await this.assertSlotFree(partnerId, doctorId, slotStart);
+
+      const expiresAt = new Date(Date.now() + SLOT_HOLD_MINUTES * 60 * 1000);
+      const holdId = await odoo.create(SLOT_HOLD_MODEL, {
+        x_name: `Dokter ${doctorId} - ${slotStart.toISOString()}`,
+        x_doctor_id: doctorId,
+        x_partner_id: partnerId,
+        x_slot_start: toOdooDate(slotStart),
+        x_expires_at: toOdooDate(expiresAt),
+        x_state: 'active',
+      });
+
+      return { id: holdId, doctorId, slotStart: slotStart.toISOString(), expiresAt: expiresAt.toISOString() };
+    });
+  }
+
+  /**
+   * Give up one of the customer's holds. Returns false when it was no longer active.
+   */
+  async releaseHold(partnerId: number, holdId: number): Promise<boolean> {
+    const [owned] = await odoo.search(SLOT_HOLD_MODEL, [
+      ['id', '=', holdId],
+      ['x_partner_id', '=', partnerId],
+      ['x_state', '=', 'active'],
+    ], { limit: 1 });
+    if (!owned) {
+      return false;
+    }
+    await odoo.write(SLOT_HOLD_MODEL, [holdId], { x_state: 'released' });
+    return true;
+  }
+
+  /**
+   * Book a slot for the customer. The slot must be free of other customers'
+   * appointments and holds; the customer's own hold on it is converted.
+   */
+  async book(partnerId: number, request: NewAppointment): Promise<number> {
+    const doctorId = Number(request.doctorId);
+    const slotStart = new Date(request.slotStart);
+
+    if (request.petId) {
+      const owned = await odoo.searchCount('x_pawsmart_pet', [['id', '=', request.petId], ['x_owner_id', '=', partnerId]]);
+      if (!owned) {
+        throw notFound('Hewan peliharaan tidak ditemukan');
+      }
+    }
+
+    return withLock(slotKey(doctorId, slotStart), async () => {
+      await this.assertSlotFree(partnerId, doctorId, slotStart);
+
+      const appointmentId = await odoo.create(APPOINTMENT_MODEL, {
+        doctor_id: doctorId,
+        patient_id: partnerId,
+        pet_id: request.petId || false,
+        appointment_date: toOdooDate(slotStart),
+        service_type: request.serviceType === 'home-service' ? 'home-service' : 'walk-in',
+        reason: request.reason || '',
+        additional_services: request.additionalServices || [],
+        notes: request.notes || '',
+        state: 'draft',
+        duration: DOCTOR_SLOT_MINUTES / 60,
+        ...(request.serviceType === 'home-service' && request.address && { service_address: request.address }),
+      });
+
+      const holdIds = await odoo.search(SLOT_HOLD_MODEL, [
+        ...this.activeHoldDomain(doctorId),
+        ['x_slot_start', '=', toOdooDate(slotStart)],
+        ['x_partner_id', '=', partnerId],
+      ]);
+      if (holdIds.length > 0) {
+        await odoo.write(SLOT_HOLD_MODEL, holdIds, { x_state: 'converted', x_appointment_id: appointmentId });
+      }
+
+      return appointmentId;
+    });
+  }
+
+  /**
+   * Every customer's appointments still in draft that were booked before the given time
+   */
+  async findDraftsBookedBefore(bookedBefore: Date): Promise<Array<{ id: number; partnerId: number }>> {
+    const found = await odoo.searchRead(APPOINTMENT_MODEL, [
+      ['state', '=', 'draft'],
+      ['create_date', '<', toOdooDate(bookedBefore)],
+    ], ['patient_id'], { order: 'id asc' });
+    return found.map(appointment => ({ id: appointment.id, partnerId: relationId(appointment.patient_id)! }));
+  }
+
+  /**
+   * Confirm an appointment once its consultation is paid. Returns false when
+   * it is no longer a draft (e.g. confirmed before, or cancelled).
+   */
+  async confirm(appointmentId: number): Promise<boolean> {
+    const [appointment] = await odoo.read(APPOINTMENT_MODEL, [appointmentId], ['state']);
+    if (appointment?.state !== 'draft') {
+      return false;
+    }
+    await odoo.execute(APPOINTMENT_MODEL, 'action_confirm', [[appointmentId]]);
+    return true;
+  }
+
+  /**
+   * Cancel one of the customer's appointments
+   */
+  async cancel(partnerId: number, appointmentId: number, reason?: string): Promise<boolean> {
+    const owned = await odoo.searchCount(APPOINTMENT_MODEL, [['id', '=', appointmentId], ['patient_id', '=', partnerId]]);
+    if (!owned) {
+      throw notFound('Janji temu tidak ditemukan');
+    }
+    return this.cancelAppointment(appointmentId, reason || 'User cancelled');
+  }
+
+  /**
+   * Cancel an appointment and free its slot. Returns false when it was
+   * already cancelled.
+   */
+  async cancelAppointment(appointmentId: number, reason: string): Promise<boolean> {
+    const [appointment] = await odoo.read(APPOINTMENT_MODEL, [appointmentId], ['state']);
+    if (!appointment || FREED_STATES.includes(appointment.state)) {
+      return false;
+    }
+
+    await odoo.write(APPOINTMENT_MODEL, [appointmentId], {
+      state: 'cancelled',
+      cancellation_reason: reason,
+      cancelled_date: toOdooDate(new Date()),
+    });
+    return true;
+  }
+
+  private activeHoldDomain(doctorId: number) {
+    return [
+      ['x_doctor_id', '=', doctorId],
+      ['x_state', '=', 'active'],
+      ['x_expires_at', '>', toOdooDate(new Date())],
+    ];
+  }
+
+  private async releasePartnerHolds(partnerId: number): Promise<void> {
+    const holdIds = await odoo.search(SLOT_HOLD_MODEL, [['x_partner_id', '=', partnerId], ['x_state', '=', 'active']]);
+    if (holdIds.length > 0) {
+      await odoo.write(SLOT_HOLD_MODEL, holdIds, { x_state: 'released' });
+    }
+  }
+
+  /**
+   * Throw SLOT_TAKEN when the slot is booked, or SLOT_HELD when another
+   * customer holds it. Callers hold the slot's lock.
+   */
+  private async assertSlotFree(partnerId: number, doctorId: number, slotStart: Date): Promise<void> {
+    if (Number.isNaN(slotStart.getTime()) || slotStart.getTime() <= Date.now()) {
+      throw new ProxyError('BAD_REQUEST', 'Jadwal tidak valid');
+    }
+
+    const slotEnd = new Date(slotStart.getTime() + DOCTOR_SLOT_MINUTES * 60 * 1000 - 1000);
+    const booked = await odoo.searchCount(APPOINTMENT_MODEL, [
+      ['doctor_id', '=', doctorId],
+      ['appointment_date', '>=', toOdooDate(slotStart)],
+      ['appointment_date', '<=', toOdooDate(slotEnd)],
+      ['state', 'not in', FREED_STATES],
+    ]);
+    if (booked > 0) {
+      throw slotTaken();
+    }
+
+    const held = await odoo.searchCount(SLOT_HOLD_MODEL, [
+      ...this.activeHoldDomain(doctorId),
+      ['x_slot_start', '=', toOdooDate(slotStart)],
+      ['x_partner_id', '!=', partnerId],
+    ]);
+    if (held > 0) {
+      throw slotHeld();
+    }
+  }
+}
+
+export const appointments = new AppointmentService();
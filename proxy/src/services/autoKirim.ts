@@ -0,0 +1,280 @@
+/**
+ * AutoKirim cycles. The app manages the customer's x_pawsmart_subscription
+ * records; the scheduler generates a sale.order for every delivery date a few
+ * days ahead, books its courier and requests its payment (a charge to the
+ * saved method, or a payment link sent over WhatsApp).
+ */
+
+import { odoo, relationId } from '../odoo';
+import { whatsapp } from '../providers/whatsapp';
+import { ORDER_LIFECYCLE_FIELDS } from '../../../src/services/order/orderLifecycle';
+import { PaymentMethod, ShipmentDestination, ShipmentServiceGroup, UnifiedPaymentResponse } from '../../../src/services/proxy/proxyRoutes';
+import { gateway } from './gateway';
+import { orders, OrderRecord, SALE_ORDER_MODEL } from './orders';
+import { resolvePaymentExpiry } from './payments';
+import { calculatePackage } from './packages';
+import { shipments, SHIPMENT_MODEL } from './shipments';
+
+export const SUBSCRIPTION_MODEL = 'x_pawsmart_subscription';
+
+type AutoKirimUnit = 'minggu' | 'bulan';
+
+interface SubscriptionShipping {
+  courier: string;
+  serviceType: string;
+  group: ShipmentServiceGroup;
+  shippingCost: number;
+  destination: ShipmentDestination;
+}
+
+interface Subscription {
+  id: number;
+  partnerId: number;
+  productId: number;
+  productName: string;
+  quantity: number;
+  period: number;
+  unit: AutoKirimUnit;
+  nextDate: string; // YYYY-MM-DD
+  endDate?: string;
+  paymentMode: 'link' | 'auto';
+  paymentMethod?: PaymentMethod;
+  channelCode?: string;
+  bankCode?: string;
+  shipping?: SubscriptionShipping;
+  cycleCount: number;
+}
+
+// Orders are generated this many days before the delivery date
+const ORDER_LEAD_DAYS = 3;
+
+const SUBSCRIPTION_FIELDS = [
+  'x_name', 'x_partner_id', 'x_product_id', 'x_product_name', 'x_quantity', 'x_period', 'x_period_unit',
+  'x_next_date', 'x_end_date', 'x_payment_mode', 'x_payment_method', 'x_payment_channel', 'x_payment_bank',
+  'x_shipping', 'x_cycle_count',
+];
+
+// Odoo date fields are 'YYYY-MM-DD'
+const toOdooDay = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+const fromOdooDay = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const addPeriod = (date: Date, amount: number, unit: AutoKirimUnit): Date => {
+  const next = new Date(date);
+  if (unit === 'minggu') {
+    next.setDate(next.getDate() + amount * 7);
+  } else {
+    next.setMonth(next.getMonth() + amount);
+  }
+  return next;
+};
+
+const toSubscription = (record: any): Subscription => {
+  let shipping: SubscriptionShipping | undefined;
+  try {
+    shipping = record.x_shipping ? JSON.parse(record.x_shipping) : undefined;
+  } catch (error) {
+    // Cycles without shipping details are booked by the fulfilment team
+  }
+
+  return {
+    id: record.id,
+    partnerId: relationId(record.x_partner_id)!,
+    productId: relationId(record.x_product_id)!,
+    productName: record.x_product_name || record.x_name,
+    quantity: record.x_quantity || 1,
+    period: record.x_period || 1,
+    unit: record.x_period_unit || 'bulan',
+    nextDate: record.x_next_date,
+    endDate: record.x_end_date || undefined,
+    paymentMode: record.x_payment_mode || 'link',
+    paymentMethod: record.x_payment_method || undefined,
+    channelCode: record.x_payment_channel || undefined,
+    bankCode: record.x_payment_bank || undefined,
+    shipping,
+    cycleCount: record.x_cycle_count || 0,
+  };
+};
+
+class AutoKirimService {
+  /**
+   * Generate orders for every active subscription whose next delivery is
+   * within ORDER_LEAD_DAYS. A cycle that already has an order is not
+   * generated twice; a failed cycle is retried on the next run.
+   */
+  async generateDueOrders(): Promise<void> {
+    const horizon = new Date();
+    horizon.setHours(0, 0, 0, 0);
+    horizon.setDate(horizon.getDate() + ORDER_LEAD_DAYS);
+
+    const records = await odoo.searchRead(SUBSCRIPTION_MODEL, [
+      ['x_state', '=', 'active'],
+      ['x_next_date', '<=', toOdooDay(horizon)],
+    ], SUBSCRIPTION_FIELDS, { order: 'x_next_date asc', limit: 20 });
+
+    for (const subscription of records.map(toSubscription)) {
+      try {
+        await this.runCycle(subscription);
+      } catch (error: any) {
+        try {
+          await odoo.write(SUBSCRIPTION_MODEL, [subscription.id], { x_last_error: error.message || 'Gagal membuat pesanan' });
+        } catch (writeError) {
+          // Next run tries again
+        }
+      }
+    }
+  }
+
+  private async runCycle(subscription: Subscription): Promise<void> {
+    const cycle = subscription.nextDate;
+
+    const [existingId] = await odoo.search(SALE_ORDER_MODEL, [
+      [ORDER_LIFECYCLE_FIELDS.SUBSCRIPTION_ID, '=', subscription.id],
+      [ORDER_LIFECYCLE_FIELDS.SUBSCRIPTION_CYCLE, '=', cycle],
+    ], { limit: 1 });
+    const order = await orders.getOrder(existingId || await this.createCycleOrder(subscription, cycle));
+
+    // Move the schedule on before payment so a failed charge never generates the cycle twice
+    const nextDate = addPeriod(fromOdooDay(cycle), subscription.period, subscription.unit);
+    const completed = !!subscription.endDate && nextDate > fromOdooDay(subscription.endDate);
+
+    await odoo.write(SUBSCRIPTION_MODEL, [subscription.id], {
+      x_next_date: toOdooDay(nextDate),
+      x_state: completed ? 'completed' : 'active',
+      x_last_order_id: order.id,
+      x_cycle_count: subscription.cycleCount + 1,
+      x_last_error: false,
+    });
+
+    if (subscription.shipping) {
+      await this.createCycleShipment(subscription, order);
+    }
+
+    if (!order.paymentId) {
+      await this.requestCyclePayment(subscription, order);
+    }
+  }
+
+  // Priced by Odoo from the product, like any other order
+  private createCycleOrder(subscription: Subscription, cycle: string): Promise<number> {
+    const shipping = subscription.shipping;
+    const deliveryDate = fromOdooDay(cycle).toLocaleDateString('id-ID');
+
+    return orders.createPricedOrder(
+      subscription.partnerId,
+      [[0, 0, { product_id: subscription.productId, product_uom_qty: subscription.quantity }]],
+      `[AUTOKIRIM_ORDER]\nAutoKirim: ${subscription.productName}, setiap ${subscription.period} ${subscription.unit}\nPengiriman: ${deliveryDate}${shipping
+        ? `\nShipping: ${shipping.courier.toUpperCase()} (${shipping.serviceType})\nShipping Cost: Rp${shipping.shippingCost.toLocaleString('id-ID')}\nAddress: ${shipping.destination.address}`
+        : ''}`,
+      {
+        [ORDER_LIFECYCLE_FIELDS.SUBSCRIPTION_ID]: subscription.id,
+        [ORDER_LIFECYCLE_FIELDS.SUBSCRIPTION_CYCLE]: cycle,
+      }
+    );
+  }
+
+  private async createCycleShipment(subscription: Subscription, order: OrderRecord): Promise<void> {
+    const shipping = subscription.shipping!;
+
+    try {
+      if ((await odoo.searchCount(SHIPMENT_MODEL, [['x_order_id', '=', order.id]])) > 0) {
+        return;
+      }
+
+      const parcel = await calculatePackage([{ productId: subscription.productId, quantity: subscription.quantity }]);
+
+      await shipments.createShipmentRequest(order, {
+        courier: shipping.courier,
+        serviceType: shipping.serviceType,
+        group: shipping.group,
+        cod: false,
+        shippingCost: shipping.shippingCost,
+        itemValue: order.amountTotal,
+        itemName: subscription.productName.substring(0, 100),
+        weight: parcel.weight,
+        dimensions: parcel.length && parcel.width && parcel.height
+          ? { length: parcel.length, width: parcel.width, height: parcel.height }
+          : undefined,
+        destination: shipping.destination,
+      });
+    } catch (error) {
+      // The fulfilment team books orders without a shipment request by hand
+    }
+  }
+
+  /**
+   * Charge the saved payment method, or send a payment link over WhatsApp.
+   * An auto charge that fails falls back to a payment link.
+   */
+  private async requestCyclePayment(subscription: Subscription, order: OrderRecord): Promise<void> {
+    const destination = subscription.shipping?.destination;
+    const amount = order.amountTotal + (subscription.shipping?.shippingCost || 0);
+    const request = {
+      orderId: order.id.toString(),
+      amount,
+      customerName: destination?.name || '',
+      customerPhone: destination?.phone,
+      description: `AutoKirim ${order.name}`,
+    };
+
+    let payment: UnifiedPaymentResponse | null = null;
+    let paymentMethod = 'PAYMENT_LINK';
+
+    if (subscription.paymentMode === 'auto' && subscription.paymentMethod) {
+      try {
+        payment = await gateway.createPayment(
+          { ...request, paymentMethod: subscription.paymentMethod },
+          undefined,
+          { channelCode: subscription.channelCode, bankCode: subscription.bankCode }
+        );
+        paymentMethod = subscription.paymentMethod;
+      } catch (error) {
+        payment = null;
+      }
+    }
+
+    if (!payment) {
+      payment = await gateway.createPaymentLink(request);
+    }
+
+    await orders.updatePaymentInfo(order.id, {
+      paymentId: payment.paymentId,
+      paymentMethod,
+      paymentStatus: payment.status,
+      paymentProvider: payment.provider,
+      expiresAt: resolvePaymentExpiry(paymentMethod, payment.expiresAt),
+    });
+
+    if (destination?.phone) {
+      await whatsapp.send(destination.phone, this.buildPaymentMessage(subscription, order, amount, payment));
+    }
+  }
+
+  private buildPaymentMessage(subscription: Subscription, order: OrderRecord, amount: number, payment: UnifiedPaymentResponse): string {
+    const deliveryDate = fromOdooDay(subscription.nextDate).toLocaleDateString('id-ID', {
+      day: 'numeric',
+      month: 'long',
+      year: 'numeric',
+    });
+    const lines = [
+      `PawSmart AutoKirim - ${subscription.productName} (x${subscription.quantity})`,
+      `Pesanan ${order.name} untuk pengiriman ${deliveryDate}.`,
+      `Total: Rp${amount.toLocaleString('id-ID')}`,
+    ];
+
+    if (payment.paymentUrl) {
+      lines.push(`Bayar di sini: ${payment.paymentUrl}`);
+    } else if (payment.accountNumber) {
+      lines.push(`Transfer ke Virtual Account ${payment.bankCode} ${payment.accountNumber}`);
+    } else {
+      lines.push('Selesaikan pembayaran di aplikasi PawSmart.');
+    }
+
+    return lines.join('\n');
+  }
+}
+
+export const autoKirim = new AutoKirimService();
@@ -0,0 +1,483 @@
+/**
+ * Payment gateways behind one interface. A failing provider is retried, then
+ * the payment falls back to the other provider for the same method; the
+ * response keeps the same shape and names the provider that served it.
+ * Creating a payment is not idempotent at every provider, so each attempt
+ * carries one key and a payment already made under it is returned instead
+ * of creating another.
+ */
+
+import { randomBytes } from 'node:crypto';
+import { config } from '../config';
+import { flip, FlipBill } from '../providers/flip';
+import { xendit } from '../providers/xendit';
+import {
+  calculatePaymentFee,
+  CardChargeRequest,
+  PaymentMethod,
+  PaymentOptions,
+  PaymentProvider,
+  PaymentStatusResult,
+  RefundBankAccount,
+  UnifiedPaymentRequest,
+  UnifiedPaymentResponse,
+} from '../../../src/services/proxy/proxyRoutes';
+
+type UnifiedStatus = UnifiedPaymentResponse['status'];
+
+// Xendit card and e-wallet charges are refunded to the card or wallet;
+// everything else is transferred to the customer's bank account through Flip.
+// Orders paid from the PawSmart balance are credited back to it ('wallet').
+export type RefundMethod = 'xendit_refund' | 'bank_transfer' | 'wallet';
+
+export type RefundStatus = 'PENDING' | 'SUCCEEDED' | 'FAILED';
+
+export interface RefundRequest {
+  orderId: string;
+  referenceId: string; // One per refund, reused on retries
+  amount: number;
+  provider: PaymentProvider; // Provider that took the payment
+  paymentId: string;
+  paymentMethod: PaymentMethod;
+  bankAccount?: RefundBankAccount; // Required for bank transfers
+  remark?: string;
+}
+
+export interface RefundResult {
+  provider: PaymentProvider; // Provider that pays the refund
+  method: RefundMethod;
+  refundId: string;
+  status: RefundStatus;
+  amount: number;
+}
+
+const GATEWAY_CONFIG = {
+  RETRY_ATTEMPTS: 2, // Attempts per provider before falling back
+  RETRY_DELAY_MS: 1000,
+  TIMEOUT_MS: 30000,
+  COOLDOWN_MS: 2 * 60 * 1000, // Skip a provider for this long after it failed all attempts
+};
+
+// Methods each provider can create directly
+const PROVIDER_METHODS: Record<PaymentProvider, PaymentMethod[]> = {
+  FLIP: ['QRIS', 'VIRTUAL_ACCOUNT', 'EWALLET', 'CARDS'], // Cards through a Flip bill page
+  XENDIT: ['QRIS', 'VIRTUAL_ACCOUNT', 'EWALLET'],
+};
+
+// Amount a Xendit payment object says was (or is to be) paid
+const xenditPaidAmount = (payment: any, paymentMethod: PaymentMethod): number | undefined => {
+  const amount = paymentMethod === 'EWALLET'
+    ? payment.capture_amount ?? payment.charge_amount
+    : paymentMethod === 'CARDS'
+      ? payment.capture_amount ?? payment.authorized_amount
+      : payment.amount ?? payment.expected_amount;
+  return Number(amount) || undefined;
+};
+
+const delay = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// The provider did not answer in time; it may still have made the payment
+class ProviderTimeoutError extends Error {
+  constructor() {
+    super('Payment provider timed out');
+    this.name = 'ProviderTimeoutError';
+  }
+}
+
+const mapXenditStatus = (status: string): UnifiedStatus => {
+  switch (status) {
+    case 'PAID':
+    case 'SUCCEEDED':
+    case 'COMPLETED':
+    case 'CAPTURED':
+      return 'PAID';
+    case 'EXPIRED':
+      return 'EXPIRED';
+    case 'FAILED':
+    case 'CANCELLED':
+    case 'REVERSED':
+      return 'FAILED';
+    default:
+      return 'PENDING';
+  }
+};
+
+// Flip disbursement and Xendit refund statuses
+const mapRefundStatus = (status: string): RefundStatus => {
+  switch (status) {
+    case 'DONE':
+    case 'SUCCEEDED':
+      return 'SUCCEEDED';
+    case 'CANCELLED':
+    case 'FAILED':
+      return 'FAILED';
+    default:
+      return 'PENDING';
+  }
+};
+
+const fromFlipBill = (bill: FlipBill, request: UnifiedPaymentRequest): UnifiedPaymentResponse => ({
+  provider: 'FLIP',
+  paymentId: bill.linkId,
+  status: bill.status,
+  paymentUrl: bill.paymentUrl || bill.linkUrl,
+  paymentData: bill.raw,
+  qrString: bill.qrString,
+  accountNumber: bill.accountNumber,
+  bankCode: bill.bankCode?.toUpperCase(),
+  amount: bill.amount || request.amount,
+  expiresAt: bill.expiresAt,
+  fees: calculatePaymentFee('FLIP', request.paymentMethod, request.amount),
+});
+
+class PaymentGateway {
+  // When each provider last failed every attempt
+  private providerFailures = new Map<PaymentProvider, number>();
+
+  /**
+   * Create a payment, retrying the provider and then falling back to the
+   * other provider when it supports the same payment method
+   */
+  async createPayment(
+    request: UnifiedPaymentRequest,
+    preferredProvider?: PaymentProvider,
+    options: PaymentOptions = {}
+  ): Promise<UnifiedPaymentResponse> {
+    const providers = this.getProviderOrder(request.paymentMethod, preferredProvider);
+    if (providers.length === 0) {
+      throw new Error(`No payment provider supports ${request.paymentMethod}`);
+    }
+
+    // Shared by every retry and fallback of this payment
+    const idempotencyKey = `${request.orderId}_${randomBytes(6).toString('hex')}`;
+    let lastError: any;
+
+    for (const provider of providers) {
+      for (let attempt = 1; attempt <= GATEWAY_CONFIG.RETRY_ATTEMPTS; attempt++) {
+        try {
+          const response = await this.withTimeout(this.createWithProvider(provider, request, options, idempotencyKey));
+          this.providerFailures.delete(provider);
+          return response;
+        } catch (error) {
+          lastError = error;
+
+          const created = await this.findCreatedPayment(provider, request, idempotencyKey, error);
+          if (created) {
+            this.providerFailures.delete(provider);
+            return created;
+          }
+
+          if (attempt < GATEWAY_CONFIG.RETRY_ATTEMPTS) {
+            await delay(GATEWAY_CONFIG.RETRY_DELAY_MS * attempt);
+          }
+        }
+      }
+
+      this.providerFailures.set(provider, Date.now());
+    }
+
+    throw new Error(`Payment failed with ${providers.join(', ')}: ${lastError?.message}`);
+  }
+
+  /**
+   * Create a hosted payment page the customer can open from a message.
+   * The customer picks the payment method on the provider's page.
+   */
+  async createPaymentLink(request: Omit<UnifiedPaymentRequest, 'paymentMethod'>): Promise<UnifiedPaymentResponse> {
+    const bill = await flip.createBillLink({
+      referenceId: request.orderId,
+      amount: request.amount,
+      title: request.description || `Payment for order ${request.orderId}`,
+      customerName: request.customerName,
+      customerEmail: request.customerEmail,
+      customerPhone: request.customerPhone,
+    });
+    return fromFlipBill(bill, { ...request, paymentMethod: 'CARDS' });
+  }
+
+  /**
+   * Charge a card token that passed 3-D Secure. Cards are charged through
+   * Xendit only, because the token and its authentication belong to Xendit.
+   */
+  async chargeCard(request: CardChargeRequest): Promise<UnifiedPaymentResponse> {
+    const charge = await this.withTimeout(xendit.chargeCard(request));
+
+    return {
+      provider: 'XENDIT',
+      paymentId: charge.id,
+      status: mapXenditStatus(charge.status),
+      paymentData: charge,
+      amount: charge.capture_amount || charge.authorized_amount,
+      fees: calculatePaymentFee('XENDIT', 'CARDS', request.amount),
+    };
+  }
+
+  /**
+   * Ask the provider for a payment's status and the amount it was made for
+   */
+  async getPaymentStatus(
+    paymentId: string,
+    provider: PaymentProvider,
+    paymentMethod: PaymentMethod
+  ): Promise<PaymentStatusResult & { unified: UnifiedStatus; amount?: number }> {
+    if (provider === 'FLIP') {
+      const bill = await flip.getBill(paymentId);
+      if (!bill) {
+        return { isPaid: false, status: 'PENDING', unified: 'PENDING' };
+      }
+      return { isPaid: bill.status === 'PAID', status: bill.status, paymentData: bill.raw, unified: bill.status, amount: bill.amount || undefined };
+    }
+
+    const payment = await xendit.getPayment(paymentId, paymentMethod);
+    if (!payment) {
+      return { isPaid: false, status: 'PENDING', unified: 'PENDING' };
+    }
+    const unified = mapXenditStatus(payment.status);
+    return { isPaid: unified === 'PAID', status: payment.status, paymentData: payment, unified, amount: xenditPaidAmount(payment, paymentMethod) };
+  }
+
+  /**
+   * How a payment is refunded
+   */
+  getRefundMethod(provider: PaymentProvider, paymentMethod: PaymentMethod): RefundMethod {
+    return provider === 'XENDIT' && (paymentMethod === 'CARDS' || paymentMethod === 'EWALLET')
+      ? 'xendit_refund'
+      : 'bank_transfer';
+  }
+
+  /**
+   * Refund a payment with a Xendit refund or a Flip disbursement
+   */
+  async createRefund(request: RefundRequest): Promise<RefundResult> {
+    const method = this.getRefundMethod(request.provider, request.paymentMethod);
+
+    if (method === 'xendit_refund') {
+      const refund = await this.withTimeout(xendit.createRefund({
+        paymentId: request.paymentId,
+        paymentMethod: request.paymentMethod as 'CARDS' | 'EWALLET',
+        amount: request.amount,
+        referenceId: request.referenceId,
+      }));
+
+      return {
+        provider: 'XENDIT',
+        method,
+        refundId: refund.id,
+        status: mapRefundStatus(refund.status),
+        amount: refund.refund_amount || refund.amount || request.amount,
+      };
+    }
+
+    if (!request.bankAccount) {
+      throw new Error('Bank account is required for a bank transfer refund');
+    }
+
+    const transfer = await this.withTimeout(flip.createDisbursement({
+      idempotencyKey: request.referenceId,
+      accountNumber: request.bankAccount.accountNumber,
+      bankCode: request.bankAccount.bankCode,
+      amount: request.amount,
+      remark: request.remark || `Refund ${request.orderId}`,
+      recipientName: request.bankAccount.accountName,
+    }));
+
+    return {
+      provider: 'FLIP',
+      method,
+      refundId: transfer.id,
+      status: mapRefundStatus(transfer.status),
+      amount: transfer.amount,
+    };
+  }
+
+  /**
+   * Check a refund created with createRefund
+   */
+  async getRefundStatus(request: { method: RefundMethod; refundId: string; paymentId: string; paymentMethod: PaymentMethod }): Promise<RefundStatus> {
+    if (request.method === 'xendit_refund') {
+      const refund = await this.withTimeout(xendit.getRefund(request.paymentId, request.refundId, request.paymentMethod as 'CARDS' | 'EWALLET'));
+      return mapRefundStatus(refund.status);
+    }
+
+    const transfer = await this.withTimeout(flip.getDisbursement(request.refundId));
+    return mapRefundStatus(transfer.status);
+  }
+
+  /**
+   * Pay a test payment at the provider (sandbox keys only)
+   */
+  async simulatePayment(paymentId: string, provider: PaymentProvider, paymentMethod: PaymentMethod, amount: number): Promise<boolean> {
+    if (!config.PAYMENT.SANDBOX) {
+      return false;
+    }
+    if (provider === 'XENDIT' && paymentMethod === 'VIRTUAL_ACCOUNT') {
+      await xendit.simulateVirtualAccountPayment(paymentId, amount);
+      return true;
+    }
+    // Other test payments are completed from the provider's sandbox dashboard
+    return false;
+  }
+
+  /**
+   * Providers to try for a payment method, in order. A provider that
+   * recently failed every attempt goes last until its cooldown ends.
+   */
+  private getProviderOrder(paymentMethod: PaymentMethod, preferredProvider?: PaymentProvider): PaymentProvider[] {
+    const candidates = [
+      preferredProvider || config.PAYMENT.PRIMARY_PROVIDER,
+      config.PAYMENT.PRIMARY_PROVIDER,
+      config.PAYMENT.FALLBACK_PROVIDER,
+    ].filter((provider, index, list): provider is PaymentProvider =>
+      !!provider && list.indexOf(provider) === index && PROVIDER_METHODS[provider].includes(paymentMethod)
+    );
+
+    const isCoolingDown = (provider: PaymentProvider) => {
+      const failedAt = this.providerFailures.get(provider);
+      return failedAt !== undefined && Date.now() - failedAt < GATEWAY_CONFIG.COOLDOWN_MS;
+    };
+
+    return [
+      ...candidates.filter(provider => !isCoolingDown(provider)),
+      ...candidates.filter(isCoolingDown),
+    ];
+  }
+
+  private async createWithProvider(
+    provider: PaymentProvider,
+    request: UnifiedPaymentRequest,
+    options: PaymentOptions,
+    idempotencyKey: string
+  ): Promise<UnifiedPaymentResponse> {
+    return provider === 'FLIP'
+      ? this.createFlipPayment(request, options, idempotencyKey)
+      : this.createXenditPayment(request, options, idempotencyKey);
+  }
+
+  /**
+   * After a failed attempt, the payment the provider made under the key
+   * anyway, or null when it made none. Throws when that cannot be told, so
+   * no second payment is created. Xendit answers a repeated key with the
+   * first payment, so only a Xendit timeout is left unknown.
+   */
+  private async findCreatedPayment(
+    provider: PaymentProvider,
+    request: UnifiedPaymentRequest,
+    idempotencyKey: string,
+    error: unknown
+  ): Promise<UnifiedPaymentResponse | null> {
+    if (provider === 'XENDIT') {
+      if (error instanceof ProviderTimeoutError) {
+        throw new Error('Xendit did not answer in time; the payment was not created elsewhere');
+      }
+      return null;
+    }
+
+    let bill: FlipBill | null;
+    try {
+      bill = await this.withTimeout(flip.findBillByReference(idempotencyKey));
+    } catch (lookupError: any) {
+      throw new Error(`Could not check for an existing Flip payment: ${lookupError.message}`);
+    }
+    return bill ? fromFlipBill(bill, request) : null;
+  }
+
+  // Treat a provider that hangs like one that errors, so the fallback gets a chance
+  private withTimeout<T>(promise: Promise<T>): Promise<T> {
+    let timer: ReturnType<typeof setTimeout>;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new ProviderTimeoutError()), GATEWAY_CONFIG.TIMEOUT_MS);
+    });
+
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+
+  private async createFlipPayment(request: UnifiedPaymentRequest, options: PaymentOptions, idempotencyKey: string): Promise<UnifiedPaymentResponse> {
+    const billRequest = {
+      referenceId: idempotencyKey,
+      amount: request.amount,
+      title: request.description || `Payment for order ${request.orderId}`,
+      customerName: request.customerName,
+      customerEmail: request.customerEmail,
+      customerPhone: request.customerPhone,
+    };
+
+    try {
+      switch (request.paymentMethod) {
+        case 'QRIS':
+          return fromFlipBill(await flip.createBill(billRequest, 'qris', 'wallet_account'), request);
+        case 'VIRTUAL_ACCOUNT':
+          return fromFlipBill(await flip.createBill(billRequest, (options.bankCode || 'bca').toLowerCase(), 'virtual_account'), request);
+        case 'EWALLET':
+          return fromFlipBill(await flip.createBill(billRequest, options.channelCode || 'shopeepay_app', 'wallet_account'), request);
+        default:
+          // Cards are paid on a Flip bill page
+          return fromFlipBill(await flip.createBillLink(billRequest), request);
+      }
+    } catch (error: any) {
+      throw new Error(`Flip payment creation failed: ${error.message}`);
+    }
+  }
+
+  private async createXenditPayment(request: UnifiedPaymentRequest, options: PaymentOptions, idempotencyKey: string): Promise<UnifiedPaymentResponse> {
+    const xenditRequest = { ...request, idempotencyKey };
+
+    try {
+      switch (request.paymentMethod) {
+        case 'QRIS': {
+          const qr = await xendit.createQRIS(xenditRequest);
+          return {
+            provider: 'XENDIT',
+            paymentId: qr.id,
+            status: mapXenditStatus(qr.status),
+            paymentData: qr,
+            qrString: qr.qr_string,
+            amount: qr.amount,
+            expiresAt: qr.expires_at,
+            fees: calculatePaymentFee('XENDIT', 'QRIS', request.amount),
+          };
+        }
+
+        case 'EWALLET': {
+          if (!options.channelCode) {
+            throw new Error('E-wallet channel code is required');
+          }
+          const charge = await xendit.createEwallet(xenditRequest, options.channelCode);
+          return {
+            provider: 'XENDIT',
+            paymentId: charge.id,
+            status: mapXenditStatus(charge.status),
+            paymentData: charge,
+            paymentUrl: charge.actions?.mobile_web_checkout_url,
+            amount: charge.charge_amount,
+            fees: calculatePaymentFee('XENDIT', 'EWALLET', request.amount),
+          };
+        }
+
+        case 'VIRTUAL_ACCOUNT': {
+          if (!options.bankCode) {
+            throw new Error('Bank code is required for virtual account');
+          }
+          const account = await xendit.createVirtualAccount(xenditRequest, options.bankCode);
+          return {
+            provider: 'XENDIT',
+            paymentId: account.id,
+            status: 'PENDING',
+            paymentData: account,
+            accountNumber: account.account_number,
+            bankCode: account.bank_code,
+            amount: account.expected_amount,
+            expiresAt: account.expiration_date,
+            fees: calculatePaymentFee('XENDIT', 'VIRTUAL_ACCOUNT', request.amount),
+          };
+        }
+
+        default:
+          throw new Error(`Unsupported payment method for Xendit: ${request.paymentMethod}`);
+      }
+    } catch (error: any) {
+      throw new Error(`Xendit payment creation failed: ${error.message}`);
+    }
+  }
+}
+
+export const gateway = new PaymentGateway();
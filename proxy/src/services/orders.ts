@@ -0,0 +1,583 @@
+/**
+ * sale.order status changes, payments and shipments. Every status write goes
+ * through the shared lifecycle rules in orderLifecycle, so the app and the
+ * proxy agree on which moves are allowed.
+ */
+
+import { odoo, toOdooDate, relationId } from '../odoo';
+import { ProxyError, notFound } from '../errors';
+import { withLock } from '../locks';
+import {
+  ORDER_LIFECYCLE_FIELDS,
+  ORDER_LIFECYCLE_MODELS,
+  OrderCancelReason,
+  OrderEventSource,
+  OrderShipmentInfo,
+  OrderStatus,
+  assertOrderTransition,
+  canTransitionOrder,
+  getOdooStateForStatus,
+  normalizeOrderStatus,
+} from '../../../src/services/order/orderLifecycle';
+import { NewOrderLine } from '../../../src/services/proxy/proxyRoutes';
+import { appointments } from './appointments';
+import { wallet, WALLET_PAYMENT_PROVIDER } from './wallet';
+
+export const SALE_ORDER_MODEL = 'sale.order';
+const SALE_ORDER_LINE_MODEL = 'sale.order.line';
+
+// Payment status stored on the order once its payment has been refunded
+export const REFUNDED_PAYMENT_STATUS = 'REFUNDED';
+
+// Payment method and provider of orders paid to the courier on delivery
+export const COD_PAYMENT_METHOD = 'COD';
+
+export interface OrderRecord {
+  id: number;
+  name: string;
+  partnerId: number;
+  status: OrderStatus;
+  amountTotal: number;
+  dateOrder: string;
+  note: string;
+  clientOrderRef: string;
+  cancelReason?: OrderCancelReason;
+  paymentId?: string;
+  paymentMethod?: string;
+  paymentStatus?: string;
+  paymentProvider?: string;
+  paymentExpiresAt?: string; // Odoo datetime
+  paymentRemindedAt?: string; // Odoo datetime
+  shippingAwb?: string;
+  shippingCourier?: string;
+  subscriptionId?: number;
+  appointmentId?: number; // Consultation orders
+}
+
+const ORDER_FIELDS = [
+  'name',
+  'partner_id',
+  'state',
+  'amount_total',
+  'date_order',
+  'note',
+  'client_order_ref',
+  ...Object.values(ORDER_LIFECYCLE_FIELDS),
+];
+
+const toOrderRecord = (order: any): OrderRecord => ({
+  id: order.id,
+  name: order.name,
+  partnerId: relationId(order.partner_id)!,
+  status: normalizeOrderStatus(order[ORDER_LIFECYCLE_FIELDS.STATUS] || order.state),
+  amountTotal: order.amount_total || 0,
+  dateOrder: order.date_order,
+  note: order.note || '',
+  clientOrderRef: order.client_order_ref || '',
+  cancelReason: order[ORDER_LIFECYCLE_FIELDS.CANCEL_REASON] || undefined,
+  paymentId: order[ORDER_LIFECYCLE_FIELDS.PAYMENT_ID] || undefined,
+  paymentMethod: order[ORDER_LIFECYCLE_FIELDS.PAYMENT_METHOD] || undefined,
+  paymentStatus: order[ORDER_LIFECYCLE_FIELDS.PAYMENT_STATUS] || undefined,
+  paymentProvider: order[ORDER_LIFECYCLE_FIELDS.PAYMENT_PROVIDER] || undefined,
+  paymentExpiresAt: order[ORDER_LIFECYCLE_FIELDS.PAYMENT_EXPIRES_AT] || undefined,
+  paymentRemindedAt: order[ORDER_LIFECYCLE_FIELDS.PAYMENT_REMINDED_AT] || undefined,
+  shippingAwb: order[ORDER_LIFECYCLE_FIELDS.SHIPPING_AWB] || undefined,
+  shippingCourier: order[ORDER_LIFECYCLE_FIELDS.SHIPPING_COURIER] || undefined,
+  subscriptionId: relationId(order[ORDER_LIFECYCLE_FIELDS.SUBSCRIPTION_ID]),
+  appointmentId: relationId(order[ORDER_LIFECYCLE_FIELDS.APPOINTMENT_ID]),
+});
+
+class OrderService {
+  async getOrder(orderId: number): Promise<OrderRecord> {
+    const [order] = await odoo.searchRead(SALE_ORDER_MODEL, [['id', '=', orderId]], ORDER_FIELDS, { limit: 1 });
+    if (!order) {
+      throw notFound('Pesanan tidak ditemukan');
+    }
+    return toOrderRecord(order);
+  }
+
+  /**
+   * Read an order the caller owns. Someone else's order reads as not found.
+   */
+  async getOwnedOrder(partnerId: number, orderId: number): Promise<OrderRecord> {
+    if (!Number.isInteger(orderId)) {
+      throw notFound('Pesanan tidak ditemukan');
+    }
+    const order = await this.getOrder(orderId);
+    if (order.partnerId !== partnerId) {
+      throw notFound('Pesanan tidak ditemukan');
+    }
+    return order;
+  }
+
+  /**
+   * Products on an order, for weighing its parcel
+   */
+  async getOrderLines(orderId: number): Promise<Array<{ productId: number; quantity: number; name: string }>> {
+    const lines = await odoo.searchRead(SALE_ORDER_LINE_MODEL, [
+      ['order_id', '=', orderId],
+      ['product_id.type', '!=', 'service'],
+    ], ['product_id', 'product_uom_qty', 'name']);
+    return lines.map(line => ({ productId: relationId(line.product_id)!, quantity: line.product_uom_qty, name: line.name }));
+  }
+
+  /**
+   * The consultation order of one of the customer's appointments
+   */
+  async findAppointmentOrder(partnerId: number, appointmentId: number): Promise<OrderRecord | null> {
+    const [order] = await odoo.searchRead(SALE_ORDER_MODEL, [
+      ['partner_id', '=', partnerId],
+      [ORDER_LIFECYCLE_FIELDS.APPOINTMENT_ID, '=', appointmentId],
+    ], ORDER_FIELDS, { order: 'id desc', limit: 1 });
+    return order ? toOrderRecord(order) : null;
+  }
+
+  async findOrderByPaymentId(paymentId: string): Promise<OrderRecord | null> {
+    const [order] = await odoo.searchRead(SALE_ORDER_MODEL, [[ORDER_LIFECYCLE_FIELDS.PAYMENT_ID, '=', paymentId]], ORDER_FIELDS, { limit: 1 });
+    return order ? toOrderRecord(order) : null;
+  }
+
+  /**
+   * Create a customer order at catalogue prices and put it up for payment.
+   * Shipping the proxy quoted is billed as its own line.
+   */
+  async createOrder(
+    partnerId: number,
+    lines: NewOrderLine[],
+    note?: string,
+    shipping?: { name: string; cost: number }
+  ): Promise<number> {
+    const validLines = (lines || []).filter(line => Number.isInteger(line.productId) && line.quantity > 0);
+    if (validLines.length === 0) {
+      throw new ProxyError('BAD_REQUEST', 'Pesanan harus berisi minimal satu produk');
+    }
+
+    const products = await odoo.read('product.product', validLines.map(line => line.productId), ['list_price', 'sale_ok']);
+    const prices = new Map<number, number>(products.filter(product => product.sale_ok !== false).map(product => [product.id, product.list_price]));
+
+    const orderLines: any[] = validLines.map(line => {
+      if (!prices.has(line.productId)) {
+        throw new ProxyError('BAD_REQUEST', 'Produk tidak tersedia');
+      }
+      return [0, 0, {
+        product_id: line.productId,
+        product_uom_qty: line.quantity,
+        price_unit: prices.get(line.productId),
+      }];
+    });
+
+    if (shipping) {
+      orderLines.push([0, 0, {
+        product_id: await this.getServiceProductId('SHIPPING', 'Ongkos Kirim'),
+        product_uom_qty: 1,
+        price_unit: shipping.cost,
+        name: shipping.name,
+      }]);
+    }
+
+    return this.createPricedOrder(partnerId, orderLines, note);
+  }
+
+  /**
+   * Service product for fees billed on an order (shipping, consultations),
+   * created the first time it is needed
+   */
+  async getServiceProductId(code: string, name: string): Promise<number> {
+    const [productId] = await odoo.search('product.product', [['default_code', '=', code]], { limit: 1 });
+    if (productId) {
+      return productId;
+    }
+    return odoo.create('product.product', {
+      name,
+      default_code: code,
+      type: 'service',
+      list_price: 0,
+      sale_ok: true,
+      purchase_ok: false,
+    });
+  }
+
+  /**
+   * Create an order from lines the proxy priced itself (consultations, AutoKirim)
+   */
+  async createPricedOrder(
+    partnerId: number,
+    orderLines: any[],
+    note?: string,
+    extra: Record<string, any> = {}
+  ): Promise<number> {
+    const orderId = await odoo.create(SALE_ORDER_MODEL, {
+      partner_id: partnerId,
+      order_line: orderLines,
+      note: note || '',
+      ...extra,
+    });
+
+    await this.updateOrderStatus(orderId, 'waiting_payment', { source: 'system' });
+    return orderId;
+  }
+
+  /**
+   * Move an order to a new status. Setting the current status again is a
+   * no-op, so repeated payment callbacks are safe.
+   */
+  async updateOrderStatus(
+    orderId: number,
+    status: OrderStatus,
+    options: { note?: string; source?: OrderEventSource } = {}
+  ): Promise<OrderStatus> {
+    const order = await this.getOrder(orderId);
+    const targetStatus = normalizeOrderStatus(status);
+
+    if (order.status === targetStatus) {
+      return targetStatus;
+    }
+
+    assertOrderTransition(order.status, targetStatus, order.cancelReason);
+
+    await odoo.write(SALE_ORDER_MODEL, [orderId], {
+      state: getOdooStateForStatus(targetStatus),
+      [ORDER_LIFECYCLE_FIELDS.STATUS]: targetStatus,
+    });
+
+    await this.recordStatusEvent(orderId, {
+      status: targetStatus,
+      previousStatus: order.status,
+      note: options.note,
+      source: options.source || 'app',
+    });
+
+    return targetStatus;
+  }
+
+  /**
+   * Append an event to the order's timeline. The status fields on sale.order
+   * are authoritative, so a failed history write does not undo the change.
+   */
+  async recordStatusEvent(
+    orderId: number,
+    event: { status: OrderStatus; previousStatus?: OrderStatus; note?: string; source?: OrderEventSource }
+  ): Promise<void> {
+    try {
+      await odoo.create(ORDER_LIFECYCLE_MODELS.ORDER_EVENT, {
+        x_name: `${event.previousStatus || '-'} → ${event.status}`,
+        x_order_id: orderId,
+        x_status: event.status,
+        x_previous_status: event.previousStatus || false,
+        x_note: event.note || false,
+        x_source: event.source || 'app',
+        x_event_date: toOdooDate(new Date()),
+      });
+    } catch (error) {
+      // Timeline is best-effort
+    }
+  }
+
+  /**
+   * Store the latest payment attempt on the order, with the time the gateway
+   * stops accepting it. A new payment gets its own expiry reminder.
+   */
+  async updatePaymentInfo(
+    orderId: number,
+    payment: { paymentId: string; paymentMethod: string; paymentStatus: string; paymentProvider?: string; expiresAt?: Date }
+  ): Promise<void> {
+    await odoo.write(SALE_ORDER_MODEL, [orderId], {
+      [ORDER_LIFECYCLE_FIELDS.PAYMENT_ID]: payment.paymentId,
+      [ORDER_LIFECYCLE_FIELDS.PAYMENT_METHOD]: payment.paymentMethod,
+      [ORDER_LIFECYCLE_FIELDS.PAYMENT_STATUS]: payment.paymentStatus,
+      ...(payment.paymentProvider && { [ORDER_LIFECYCLE_FIELDS.PAYMENT_PROVIDER]: payment.paymentProvider }),
+      ...(payment.expiresAt && { [ORDER_LIFECYCLE_FIELDS.PAYMENT_EXPIRES_AT]: toOdooDate(payment.expiresAt) }),
+      [ORDER_LIFECYCLE_FIELDS.PAYMENT_REMINDED_AT]: false,
+    });
+  }
+
+  async updatePaymentStatus(orderId: number, paymentStatus: string): Promise<void> {
+    await odoo.write(SALE_ORDER_MODEL, [orderId], { [ORDER_LIFECYCLE_FIELDS.PAYMENT_STATUS]: paymentStatus });
+  }
+
+  async markPaymentReminded(orderId: number): Promise<void> {
+    await odoo.write(SALE_ORDER_MODEL, [orderId], { [ORDER_LIFECYCLE_FIELDS.PAYMENT_REMINDED_AT]: toOdooDate(new Date()) });
+  }
+
+  /**
+   * Every customer's orders still waiting on a gateway payment
+   */
+  async findAwaitingPayment(): Promise<OrderRecord[]> {
+    const found = await odoo.searchRead(SALE_ORDER_MODEL, [
+      [ORDER_LIFECYCLE_FIELDS.STATUS, '=', 'waiting_payment'],
+      [ORDER_LIFECYCLE_FIELDS.PAYMENT_ID, '!=', false],
+      [ORDER_LIFECYCLE_FIELDS.PAYMENT_STATUS, 'not in', ['PAID', 'EXPIRED', 'FAILED']],
+    ], ORDER_FIELDS, { order: 'id asc' });
+    return found.map(toOrderRecord);
+  }
+
+  /**
+   * Mark an order as paid exactly once. Returns false when the order was
+   * already settled or can no longer be paid (e.g. it was cancelled).
+   * Webhooks and status checks for the same order settle one at a time.
+   *
+   * amount is what the provider reports as paid. It must cover the order
+   * total less the balance still held for the order, checked here so a hold
+   * released after the payment was created cannot leave the order part-paid.
+   * Throws UNDERPAID when it does not.
+   *
+   * A consultation order confirms its appointment once it is paid.
+   */
+  async settleOrderPayment(
+    orderId: number,
+    payment: { paymentId: string; paymentMethod: string; paymentProvider?: string; amount?: number; note?: string; source?: OrderEventSource }
+  ): Promise<boolean> {
+    return withLock(`order:${orderId}`, async () => {
+      const order = await this.getOrder(orderId);
+      if (!canTransitionOrder(order.status, 'payment_confirmed')) {
+        return false;
+      }
+
+      if (payment.amount !== undefined) {
+        const due = Math.round(order.amountTotal - await wallet.getOrderWalletAmount(orderId, 'pending'));
+        if (payment.amount < due) {
+          throw new ProxyError('UNDERPAID', `Dibayar Rp${payment.amount.toLocaleString('id-ID')}, kurang dari tagihan Rp${due.toLocaleString('id-ID')}`, 409);
+        }
+      }
+
+      // Balance held for a split payment is spent together with the gateway part
+      await wallet.captureOrderHolds(orderId);
+      await this.updatePaymentInfo(orderId, {
+        paymentId: payment.paymentId,
+        paymentMethod: payment.paymentMethod,
+        paymentProvider: payment.paymentProvider,
+        paymentStatus: 'PAID',
+      });
+      await this.updateOrderStatus(orderId, 'payment_confirmed', { note: payment.note, source: payment.source || 'webhook' });
+      if (order.appointmentId) {
+        await appointments.confirm(order.appointmentId);
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Move a new order from draft to waiting for payment. Only drafts are moved
+   * here: a cancelled order comes back through reopenExpiredOrder.
+   */
+  async awaitPayment(partnerId: number, orderId: number): Promise<OrderStatus> {
+    const { id } = await this.getOwnedOrder(partnerId, orderId);
+
+    return withLock(`order:${id}`, async () => {
+      const order = await this.getOrder(id);
+      if (order.status === 'waiting_payment') {
+        return order.status;
+      }
+      if (order.status !== 'draft' || !canTransitionOrder(order.status, 'waiting_payment', order.cancelReason)) {
+        throw new ProxyError('CONFLICT', 'Pesanan ini tidak dapat menunggu pembayaran');
+      }
+      return this.updateOrderStatus(id, 'waiting_payment', { source: 'app' });
+    });
+  }
+
+  /**
+   * Pay a whole order from the customer's PawSmart balance
+   */
+  async payWithWallet(partnerId: number, orderId: number, amount: number): Promise<boolean> {
+    const order = await this.getOwnedOrder(partnerId, orderId);
+    if (amount < order.amountTotal) {
+      throw new ProxyError('INVALID_AMOUNT', 'Jumlah pembayaran kurang dari total pesanan');
+    }
+    if (!canTransitionOrder(order.status, 'payment_confirmed')) {
+      throw new ProxyError('CONFLICT', 'Pesanan ini tidak dapat dibayar');
+    }
+
+    const hold = await wallet.holdForOrder(partnerId, orderId, order.amountTotal, order.name);
+
+    return this.settleOrderPayment(orderId, {
+      paymentId: `WALLET-${hold.entryId}`,
+      paymentMethod: WALLET_PAYMENT_PROVIDER,
+      paymentProvider: WALLET_PAYMENT_PROVIDER,
+      note: 'Dibayar dengan Saldo PawSmart',
+      source: 'payment',
+    });
+  }
+
+  /**
+   * Send an unpaid order with a cash on delivery shipment to fulfilment. The
+   * courier collects the total, so nothing is held from the balance; the
+   * payment stays PENDING until the parcel is delivered.
+   */
+  async confirmCashOnDelivery(orderId: number): Promise<OrderStatus> {
+    return withLock(`order:${orderId}`, async () => {
+      const order = await this.getOrder(orderId);
+      if (order.status !== 'waiting_payment') {
+        throw new ProxyError('CONFLICT', 'Pesanan ini tidak dapat dibayar di tempat');
+      }
+
+      await wallet.releaseOrderHolds(orderId);
+      await this.updatePaymentInfo(orderId, {
+        paymentId: `${COD_PAYMENT_METHOD}-${order.name}`,
+        paymentMethod: COD_PAYMENT_METHOD,
+        paymentProvider: COD_PAYMENT_METHOD,
+        paymentStatus: 'PENDING',
+      });
+      return this.updateOrderStatus(orderId, 'approved', { note: 'Bayar di tempat (COD)', source: 'app' });
+    });
+  }
+
+  /**
+   * Mark a cash on delivery order as paid once the courier delivered it.
+   * Returns false for other orders and for orders settled before.
+   */
+  async settleCashOnDelivery(orderId: number, note?: string): Promise<boolean> {
+    return withLock(`order:${orderId}`, async () => {
+      const order = await this.getOrder(orderId);
+      if (order.paymentMethod !== COD_PAYMENT_METHOD || order.paymentStatus !== 'PENDING' || order.status !== 'delivered') {
+        return false;
+      }
+
+      await this.updatePaymentStatus(orderId, 'PAID');
+      await this.recordStatusEvent(orderId, {
+        status: order.status,
+        previousStatus: order.status,
+        note: note ? `Dibayar di tempat (COD) - ${note}` : 'Dibayar di tempat (COD)',
+        source: 'shipping',
+      });
+      return true;
+    });
+  }
+
+  /**
+   * Cancel an order. action_cancel also releases the stock reserved for it,
+   * and a consultation order frees its appointment's slot.
+   * Callers hold the order's lock (`order:${orderId}`) around their status
+   * check and this call.
+   */
+  async cancelOrder(
+    orderId: number,
+    reason?: string,
+    options: { cancelReason?: OrderCancelReason; source?: OrderEventSource } = {}
+  ): Promise<void> {
+    const order = await this.getOrder(orderId);
+    assertOrderTransition(order.status, 'cancelled');
+
+    await odoo.execute(SALE_ORDER_MODEL, 'action_cancel', [[orderId]]);
+    await odoo.write(SALE_ORDER_MODEL, [orderId], {
+      [ORDER_LIFECYCLE_FIELDS.STATUS]: 'cancelled',
+      [ORDER_LIFECYCLE_FIELDS.CANCEL_REASON]: options.cancelReason || 'customer',
+    });
+
+    await wallet.releaseOrderHolds(orderId);
+    if (order.appointmentId) {
+      await appointments.cancelAppointment(order.appointmentId, reason || 'Pesanan dibatalkan');
+    }
+
+    await this.recordStatusEvent(orderId, {
+      status: 'cancelled',
+      previousStatus: order.status,
+      note: reason,
+      source: options.source || 'app',
+    });
+  }
+
+  /**
+   * Cancel an order that has not been paid, under the order's lock so a
+   * payment settled at the same time is never cancelled without a refund.
+   * Returns false when the order was already cancelled; throws CONFLICT once
+   * it is paid (a paid order is cancelled through refunds.cancelOrder).
+   */
+  async cancelUnpaidOrder(orderId: number, reason?: string, options: { source?: OrderEventSource } = {}): Promise<boolean> {
+    return withLock(`order:${orderId}`, async () => {
+      const order = await this.getOrder(orderId);
+      if (order.status === 'cancelled') {
+        return false;
+      }
+      if (!canTransitionOrder(order.status, 'payment_confirmed')) {
+        throw new ProxyError('CONFLICT', 'Pesanan ini sudah dibayar. Batalkan melalui pesanannya agar dana dikembalikan.');
+      }
+
+      await this.cancelOrder(orderId, reason, options);
+      return true;
+    });
+  }
+
+  /**
+   * Cancel an order whose payment expired before it was paid.
+   * Returns false when the order was paid or cancelled in the meantime.
+   * Runs under the order's lock, so a payment settled at the same time is
+   * never cancelled. With onlyWithoutPayment, an order a payment was created
+   * for is left to that payment's expiry.
+   */
+  async expireOrder(orderId: number, options: { onlyWithoutPayment?: boolean } = {}): Promise<boolean> {
+    return withLock(`order:${orderId}`, async () => {
+      const order = await this.getOrder(orderId);
+      if (order.status !== 'draft' && order.status !== 'waiting_payment') {
+        return false;
+      }
+      if (options.onlyWithoutPayment && order.paymentId) {
+        return false;
+      }
+
+      await this.cancelOrder(orderId, 'Pembayaran kedaluwarsa', { cancelReason: 'expired', source: 'payment' });
+      return true;
+    });
+  }
+
+  /**
+   * Whether a new payment may be created for an unpaid order whose last
+   * payment expired or failed. An expired consultation order is not reopened:
+   * its appointment was cancelled and the slot freed.
+   */
+  canRegeneratePayment(order: OrderRecord): boolean {
+    if (order.status === 'cancelled') {
+      return order.cancelReason === 'expired' && !order.appointmentId;
+    }
+    return order.status === 'waiting_payment' && (order.paymentStatus === 'EXPIRED' || order.paymentStatus === 'FAILED');
+  }
+
+  /**
+   * Put an order cancelled by payment expiry back to waiting for payment
+   */
+  async reopenExpiredOrder(partnerId: number, orderId: number): Promise<OrderStatus> {
+    const order = await this.getOwnedOrder(partnerId, orderId);
+
+    if (!this.canRegeneratePayment(order)) {
+      throw new ProxyError('CONFLICT', 'Pembayaran untuk pesanan ini tidak dapat dibuat ulang');
+    }
+    if (order.status !== 'cancelled') {
+      return order.status;
+    }
+
+    // Back to a quotation; stock is reserved again when the new payment confirms it
+    await odoo.execute(SALE_ORDER_MODEL, 'action_draft', [[orderId]]);
+
+    // The transition checks the cancel reason, so it is cleared afterwards
+    const status = await this.updateOrderStatus(orderId, 'waiting_payment', { note: 'Pembayaran dibuat ulang', source: 'app' });
+    await odoo.write(SALE_ORDER_MODEL, [orderId], { [ORDER_LIFECYCLE_FIELDS.CANCEL_REASON]: false });
+    return status;
+  }
+
+  /**
+   * Mark an order's payment as refunded. The order keeps its status; the
+   * refund is recorded on the payment and in the timeline.
+   */
+  async markOrderRefunded(orderId: number, note?: string): Promise<void> {
+    const order = await this.getOrder(orderId);
+    await this.updatePaymentStatus(orderId, REFUNDED_PAYMENT_STATUS);
+    await this.recordStatusEvent(orderId, {
+      status: order.status,
+      previousStatus: order.status,
+      note: note || 'Dana telah dikembalikan',
+      source: 'payment',
+    });
+  }
+
+  /**
+   * Store the courier AWB on the order so it can be tracked
+   */
+  async updateOrderShipment(orderId: number, shipment: OrderShipmentInfo): Promise<void> {
+    await odoo.write(SALE_ORDER_MODEL, [orderId], {
+      [ORDER_LIFECYCLE_FIELDS.SHIPPING_AWB]: shipment.awb,
+      [ORDER_LIFECYCLE_FIELDS.SHIPPING_COURIER]: shipment.courier,
+      [ORDER_LIFECYCLE_FIELDS.SHIPPING_SERVICE]: shipment.service || false,
+    });
+  }
+}
+
+export const orders = new OrderService();
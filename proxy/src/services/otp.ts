@@ -0,0 +1,197 @@
+/**
+ * WhatsApp one-time codes kept in Odoo as x_pawsmart_otp records holding only
+ * a salted HMAC of the code. Codes are made, checked and used up here; the
+ * app never sees a code's hash or salt. Every limit is enforced from those
+ * records:
+ * - a code expires after OTP_TTL_MS
+ * - a code is locked after MAX_VERIFY_ATTEMPTS wrong guesses
+ * - a new code can be requested once per RESEND_INTERVAL_MS
+ * - a phone number gets at most MAX_CODES_PER_HOUR codes
+ *
+ * A verified code lets its phone number register or reset a password once.
+ */
+
+import { createHmac, randomBytes, randomInt, timingSafeEqual } from 'node:crypto';
+import { config } from '../config';
+import { odoo, fromOdooDate, toOdooDate } from '../odoo';
+import { ProxyError } from '../errors';
+import { withLock } from '../locks';
+import { whatsapp } from '../providers/whatsapp';
+import { OtpRequestResult, OtpVerifyResult } from '../../../src/services/proxy/proxyRoutes';
+
+export const OTP_MODEL = 'x_pawsmart_otp';
+
+const OTP_LENGTH = 4;
+const OTP_TTL_MS = 5 * 60 * 1000;
+const MAX_VERIFY_ATTEMPTS = 5;
+const RESEND_INTERVAL_MS = 60 * 1000;
+const MAX_CODES_PER_HOUR = 5;
+
+// How long a verified code can be used for a follow-up action (e.g. password reset)
+const VERIFICATION_VALIDITY_MS = 10 * 60 * 1000;
+
+const OTP_FIELDS = ['id', 'x_name', 'x_code_hash', 'x_salt', 'x_expires_at', 'x_attempts', 'x_state', 'create_date'];
+
+interface OtpRecord {
+  id: number;
+  codeHash: string;
+  salt: string;
+  expiresAt: Date;
+  attempts: number;
+  state: 'pending' | 'verified' | 'expired' | 'locked' | 'used';
+  createdAt: Date;
+}
+
+// One key per number regardless of how it was typed ('0812…', '+62812…', '62812…')
+export const normalizePhone = (phoneNumber: string): string => {
+  let digits = (phoneNumber || '').replace(/\D/g, '');
+  if (digits.startsWith('0')) {
+    digits = `62${digits.substring(1)}`;
+  } else if (!digits.startsWith('62')) {
+    digits = `62${digits}`;
+  }
+  return digits;
+};
+
+// Keyed with the session secret, so the records alone are not enough to guess codes
+const hashCode = (phone: string, code: string, salt: string): string =>
+  createHmac('sha256', config.SESSION_SECRET).update(`${salt}:${phone}:${code}`).digest('hex');
+
+const hashesMatch = (a: string, b: string): boolean => {
+  const given = Buffer.from(a || '');
+  const expected = Buffer.from(b || '');
+  return given.length > 0 && given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+const generateCode = (): string => randomInt(0, 10 ** OTP_LENGTH).toString().padStart(OTP_LENGTH, '0');
+
+class OtpService {
+  /**
+   * Send a new code to a phone number over WhatsApp. Earlier pending codes
+   * for the number stop working. A throttled number gets no code and the
+   * seconds until it may ask again.
+   */
+  async requestCode(phoneNumber: string): Promise<OtpRequestResult> {
+    const phone = normalizePhone(phoneNumber);
+
+    return withLock(`otp:${phone}`, async () => {
+      const now = Date.now();
+      const recent = await this.getRecords(phone, [['create_date', '>=', toOdooDate(new Date(now - 60 * 60 * 1000))]]);
+
+      if (recent.length > 0) {
+        const sinceLast = now - recent[0].createdAt.getTime();
+        if (sinceLast < RESEND_INTERVAL_MS) {
+          return { sent: false, reason: 'RESEND_TOO_SOON', retryAfter: Math.ceil((RESEND_INTERVAL_MS - sinceLast) / 1000) };
+        }
+      }
+
+      if (recent.length >= MAX_CODES_PER_HOUR) {
+        const oldest = recent[recent.length - 1].createdAt.getTime();
+        return { sent: false, reason: 'RATE_LIMITED', retryAfter: Math.ceil((oldest + 60 * 60 * 1000 - now) / 1000) };
+      }
+
+      const pendingIds = recent.filter(record => record.state === 'pending').map(record => record.id);
+      if (pendingIds.length > 0) {
+        await odoo.write(OTP_MODEL, pendingIds, { x_state: 'expired' });
+      }
+
+      const code = generateCode();
+      const salt = randomBytes(16).toString('hex');
+      const expiresAt = new Date(now + OTP_TTL_MS);
+
+      const recordId = await odoo.create(OTP_MODEL, {
+        x_name: phone,
+        x_code_hash: hashCode(phone, code, salt),
+        x_salt: salt,
+        x_expires_at: toOdooDate(expiresAt),
+        x_attempts: 0,
+        x_state: 'pending',
+      });
+
+      const sent = await whatsapp.sendOtp(phone, code, `*PawSmart - Kode OTP*\n\nKode OTP Anda: *${code}*\n\nKode ini berlaku selama 5 menit.\nJangan bagikan kode ini kepada siapapun.\n\n_Abaikan pesan ini jika Anda tidak melakukan registrasi._`);
+      if (!sent) {
+        await odoo.write(OTP_MODEL, [recordId], { x_state: 'expired' });
+        throw new ProxyError('SEND_FAILED', 'Gagal mengirim kode OTP melalui WhatsApp.', 502);
+      }
+
+      return { sent: true, expiresAt: expiresAt.toISOString(), retryAfter: RESEND_INTERVAL_MS / 1000 };
+    });
+  }
+
+  /**
+   * Check a code against the latest one sent to the phone number.
+   * Wrong guesses count against the code; it is locked after MAX_VERIFY_ATTEMPTS.
+   */
+  async verifyCode(phoneNumber: string, code: string): Promise<OtpVerifyResult> {
+    const phone = normalizePhone(phoneNumber);
+
+    return withLock(`otp:${phone}`, async () => {
+      const [record] = await this.getRecords(phone, [['x_state', '=', 'pending']], 1);
+      if (!record) {
+        return { verified: false, message: 'Kode OTP tidak ditemukan. Silakan minta kode baru.' };
+      }
+
+      if (Date.now() > record.expiresAt.getTime()) {
+        await odoo.write(OTP_MODEL, [record.id], { x_state: 'expired' });
+        return { verified: false, message: 'Kode OTP sudah kedaluwarsa. Silakan minta kode baru.' };
+      }
+
+      if (!hashesMatch(hashCode(phone, (code || '').trim(), record.salt), record.codeHash)) {
+        const attempts = record.attempts + 1;
+        const locked = attempts >= MAX_VERIFY_ATTEMPTS;
+
+        await odoo.write(OTP_MODEL, [record.id], {
+          x_attempts: attempts,
+          x_state: locked ? 'locked' : 'pending',
+        });
+
+        return locked
+          ? { verified: false, message: 'Terlalu banyak percobaan. Silakan minta kode baru.', remainingAttempts: 0 }
+          : { verified: false, message: 'Kode OTP tidak valid.', remainingAttempts: MAX_VERIFY_ATTEMPTS - attempts };
+      }
+
+      await odoo.write(OTP_MODEL, [record.id], { x_state: 'verified' });
+      return { verified: true };
+    });
+  }
+
+  /**
+   * Use up a recent successful verification for a phone number.
+   * Throws NOT_VERIFIED when there is none.
+   */
+  async consumeVerification(phoneNumber: string): Promise<void> {
+    const phone = normalizePhone(phoneNumber);
+
+    await withLock(`otp:${phone}`, async () => {
+      const [record] = await this.getRecords(phone, [
+        ['x_state', '=', 'verified'],
+        ['write_date', '>=', toOdooDate(new Date(Date.now() - VERIFICATION_VALIDITY_MS))],
+      ], 1);
+
+      if (!record) {
+        throw new ProxyError('NOT_VERIFIED', 'Verifikasi OTP sudah tidak berlaku. Silakan ulangi verifikasi.', 403);
+      }
+
+      await odoo.write(OTP_MODEL, [record.id], { x_state: 'used' });
+    });
+  }
+
+  private async getRecords(phone: string, domain: any[], limit?: number): Promise<OtpRecord[]> {
+    const records = await odoo.searchRead(OTP_MODEL, [['x_name', '=', phone], ...domain], OTP_FIELDS, {
+      order: 'create_date desc, id desc',
+      limit,
+    });
+
+    return records.map((record: any) => ({
+      id: record.id,
+      codeHash: record.x_code_hash,
+      salt: record.x_salt,
+      expiresAt: fromOdooDate(record.x_expires_at),
+      attempts: record.x_attempts || 0,
+      state: record.x_state,
+      createdAt: fromOdooDate(record.create_date),
+    }));
+  }
+}
+
+export const otp = new OtpService();
@@ -0,0 +1,60 @@
+/**
+ * Parcel weight and box size for a set of products, from the Odoo product
+ * weights (kg) and volumes (m³)
+ */
+
+import { odoo } from '../odoo';
+import { PackageDetails } from '../../../src/services/proxy/proxyRoutes';
+
+export type { PackageDetails } from '../../../src/services/proxy/proxyRoutes';
+
+// Used for products without a weight in Odoo
+const DEFAULT_ITEM_WEIGHT = 500;
+
+// Room for padding and bubble wrap around the items
+const PACKING_MARGIN = 1.2;
+
+// Standard shipping boxes (length x width x height, cm), smallest first
+const STANDARD_BOXES: Array<[number, number, number]> = [
+  [20, 15, 10],
+  [25, 20, 15],
+  [30, 25, 20],
+  [40, 30, 25],
+  [50, 40, 30],
+  [60, 40, 40],
+];
+
+// Smallest standard box that holds the volume (cm³), or a cube big enough
+const estimateBox = (volume: number): [number, number, number] => {
+  const required = volume * PACKING_MARGIN;
+  const box = STANDARD_BOXES.find(([length, width, height]) => length * width * height >= required);
+  if (box) {
+    return box;
+  }
+  const side = Math.ceil(Math.cbrt(required));
+  return [side, side, side];
+};
+
+export const calculatePackage = async (items: Array<{ productId: number; quantity: number }>): Promise<PackageDetails> => {
+  const records = await odoo.read('product.product', items.map(item => item.productId), ['weight', 'volume']);
+  const products = new Map<number, { weight: number; volume: number }>(
+    records.map(record => [record.id, { weight: record.weight || 0, volume: record.volume || 0 }])
+  );
+
+  let weight = 0;
+  let volume = 0;
+  const itemWeights: Record<string, number> = {};
+  items.forEach(item => {
+    const product = products.get(item.productId);
+    const unitWeight = product?.weight ? Math.round(product.weight * 1000) : DEFAULT_ITEM_WEIGHT;
+    itemWeights[item.productId] = unitWeight;
+    weight += unitWeight * item.quantity;
+    volume += (product?.volume || 0) * 1000000 * item.quantity;
+  });
+
+  if (volume === 0) {
+    return { weight, itemWeights };
+  }
+  const [length, width, height] = estimateBox(volume);
+  return { weight, length, width, height, itemWeights };
+};
@@ -0,0 +1,148 @@
+/**
+ * Health passport links. The app asks for a link to one of the customer's
+ * pets; an x_pawsmart_pet_passport record keeps the pet behind a random token
+ * until x_expires_at. GET /passport/<token> renders the passport from the
+ * pet's current records, so the page never holds content the app wrote and
+ * stops answering once the link expires or is revoked.
+ */
+
+import { randomBytes } from 'node:crypto';
+import { config } from '../config';
+import { odoo, toOdooDate, fromOdooDate, relationId } from '../odoo';
+import { notFound } from '../errors';
+import { PASSPORT_LINK_DAYS, PASSPORT_MAX_LINK_DAYS, PassportLink } from '../../../src/services/proxy/proxyRoutes';
+import { PassportDocument, PassportVaccination, renderPassportHtml } from '../../../src/services/health/passportDocument';
+
+export const PASSPORT_MODEL = 'x_pawsmart_pet_passport';
+const PET_MODEL = 'x_pawsmart_pet';
+
+const PET_FIELDS = [
+  'x_name', 'x_type', 'x_breed', 'x_gender', 'x_birth_date', 'x_color', 'x_weight',
+  'x_microchip_id', 'x_medical_history', 'x_vaccinations', 'x_owner_id',
+];
+
+// 48 hex characters, as made by createLink
+const TOKEN_PATTERN = /^[0-9a-f]{48}$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Odoo dates are 'YYYY-MM-DD', datetimes UTC 'YYYY-MM-DD HH:MM:SS'
+const toIsoDate = (value: any): string => {
+  if (!value) {
+    return '';
+  }
+  return String(value).length <= 10 ? new Date(`${value}T00:00:00`).toISOString() : fromOdooDate(String(value)).toISOString();
+};
+
+const parseVaccinations = (value: any): PassportVaccination[] => {
+  try {
+    const vaccinations = JSON.parse(value || '[]');
+    return Array.isArray(vaccinations) ? vaccinations.filter(vaccination => vaccination?.name && vaccination?.date) : [];
+  } catch (error) {
+    return [];
+  }
+};
+
+// Allergies are kept as an 'Allergies:' line in the pet's medical history (see the app's petService)
+const parseAllergies = (medicalHistory: any): string | undefined => {
+  const history = typeof medicalHistory === 'string' ? medicalHistory : '';
+  if (!history.includes('Allergies:')) {
+    return undefined;
+  }
+  return history.split('Allergies:')[1].split('\n')[0].trim() || undefined;
+};
+
+class PassportService {
+  /**
+   * Create a link to one of the customer's pets, readable for `days` days
+   * (PASSPORT_LINK_DAYS by default, at most PASSPORT_MAX_LINK_DAYS)
+   */
+  async createLink(partnerId: number, petId: number, days?: number): Promise<PassportLink> {
+    const [pet] = await odoo.searchRead(PET_MODEL, [['id', '=', petId], ['x_owner_id', '=', partnerId]], ['x_name'], { limit: 1 });
+    if (!pet) {
+      throw notFound('Hewan peliharaan tidak ditemukan');
+    }
+
+    const lifetime = Number.isInteger(days) && days! > 0 ? Math.min(days!, PASSPORT_MAX_LINK_DAYS) : PASSPORT_LINK_DAYS;
+    const expiresAt = new Date(Date.now() + lifetime * DAY_MS);
+    const token = randomBytes(24).toString('hex');
+
+    await odoo.create(PASSPORT_MODEL, {
+      x_name: `Paspor Kesehatan ${pet.x_name}`,
+      x_pet_id: petId,
+      x_partner_id: partnerId,
+      x_token: token,
+      x_expires_at: toOdooDate(expiresAt),
+      x_state: 'active',
+    });
+
+    return { url: `${config.PUBLIC_URL}/passport/${token}`, expiresAt: expiresAt.toISOString() };
+  }
+
+  /**
+   * The passport page behind a token, or null when the link is unknown,
+   * revoked or expired
+   */
+  async renderPage(token: string): Promise<string | null> {
+    if (!TOKEN_PATTERN.test(token)) {
+      return null;
+    }
+
+    const [link] = await odoo.searchRead(PASSPORT_MODEL, [
+      ['x_token', '=', token],
+      ['x_state', '=', 'active'],
+      ['x_expires_at', '>', toOdooDate(new Date())],
+    ], ['x_pet_id', 'x_expires_at'], { limit: 1 });
+    const petId = relationId(link?.x_pet_id);
+    if (!link || !petId) {
+      return null;
+    }
+
+    return renderPassportHtml(await this.buildDocument(petId, fromOdooDate(link.x_expires_at)));
+  }
+
+  private async buildDocument(petId: number, expiresAt: Date): Promise<PassportDocument> {
+    const [[pet], records, prescriptions] = await Promise.all([
+      odoo.read(PET_MODEL, [petId], PET_FIELDS),
+      odoo.searchRead('medical.record', [['pet_id', '=', petId]], ['date', 'diagnosis', 'doctor_id', 'treatment'], { order: 'date desc' }),
+      odoo.searchRead('medical.prescription', [['medical_record_id.pet_id', '=', petId]], [
+        'medication_name', 'dosage', 'frequency', 'duration', 'prescribed_date',
+      ], { order: 'prescribed_date desc' }),
+    ]);
+    if (!pet) {
+      throw notFound('Hewan peliharaan tidak ditemukan');
+    }
+
+    return {
+      pet: {
+        name: pet.x_name || '',
+        type: pet.x_type || 'other',
+        breed: pet.x_breed || undefined,
+        gender: pet.x_gender || undefined,
+        birthDate: pet.x_birth_date || undefined,
+        color: pet.x_color || undefined,
+        weight: pet.x_weight || undefined,
+        microchipId: pet.x_microchip_id || undefined,
+      },
+      ownerName: Array.isArray(pet.x_owner_id) ? pet.x_owner_id[1] : '',
+      allergies: parseAllergies(pet.x_medical_history),
+      vaccinations: parseVaccinations(pet.x_vaccinations).sort((a, b) => b.date.localeCompare(a.date)),
+      visits: records.map(record => ({
+        date: toIsoDate(record.date),
+        diagnosis: record.diagnosis || 'Kunjungan Dokter',
+        doctorName: Array.isArray(record.doctor_id) ? record.doctor_id[1] : undefined,
+        treatment: record.treatment || undefined,
+      })),
+      prescriptions: prescriptions.map(prescription => ({
+        date: toIsoDate(prescription.prescribed_date),
+        medication: prescription.medication_name,
+        dosage: [prescription.dosage, prescription.frequency].filter(Boolean).join(', ') || undefined,
+        duration: prescription.duration || undefined,
+      })),
+      generatedAt: new Date().toISOString(),
+      expiresAt: expiresAt.toISOString(),
+    };
+  }
+}
+
+export const passports = new PassportService();
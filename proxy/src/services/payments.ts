@@ -0,0 +1,368 @@
+/**
+ * Gateway payments for orders and top-ups. The proxy stores each payment on
+ * its order (or wallet entry) when it is created and applies the provider's
+ * final status, so the app never writes a payment result itself. Unpaid
+ * orders are expired and reminded by the scheduler (expireAndRemind),
+ * appointments booked without a payment are released
+ * (releaseUnpaidAppointments), and top-ups whose callback never arrived are
+ * settled or dropped by checkPendingTopUps.
+ */
+
+import { ProxyError } from '../errors';
+import { odoo, fromOdooDate } from '../odoo';
+import { whatsapp } from '../providers/whatsapp';
+import {
+  PaymentMethod,
+  PaymentOptions,
+  PaymentProvider,
+  PaymentStatusResult,
+  SLOT_HOLD_MINUTES,
+  UnifiedPaymentRequest,
+  UnifiedPaymentResponse,
+} from '../../../src/services/proxy/proxyRoutes';
+import { canTransitionOrder } from '../../../src/services/order/orderLifecycle';
+import { appointments } from './appointments';
+import { gateway } from './gateway';
+import { orders, OrderRecord } from './orders';
+import { refunds } from './refunds';
+import { shipments } from './shipments';
+import { TopUpRecord, wallet } from './wallet';
+
+// How long each method's payment stays payable
+export const PAYMENT_EXPIRY_MINUTES: Record<PaymentMethod, number> = {
+  QRIS: 30,
+  EWALLET: 60,
+  VIRTUAL_ACCOUNT: 1440,
+  CARDS: 30,
+};
+
+// WhatsApp reminder this long before a payment expires; cards are paid on the spot
+const PAYMENT_REMINDER_MINUTES: Partial<Record<PaymentMethod, number>> = {
+  QRIS: 10,
+  EWALLET: 15,
+  VIRTUAL_ACCOUNT: 120,
+};
+
+const METHOD_LABELS: Record<PaymentMethod, string> = {
+  QRIS: 'QRIS',
+  EWALLET: 'e-wallet',
+  VIRTUAL_ACCOUNT: 'Virtual Account',
+  CARDS: 'kartu',
+};
+
+// A payment is only treated as expired a little after its expiry, in case the provider settles late
+const EXPIRY_GRACE_MS = 5 * 60 * 1000;
+
+const PAYMENT_METHODS = Object.keys(PAYMENT_EXPIRY_MINUTES) as PaymentMethod[];
+
+/**
+ * When a new payment stops being payable: the gateway's expiry when it
+ * reports one, otherwise the method's usual window from now
+ */
+export const resolvePaymentExpiry = (paymentMethod: string, expiresAt?: string): Date => {
+  const given = expiresAt ? new Date(expiresAt).getTime() : NaN;
+  if (!Number.isNaN(given)) {
+    return new Date(given);
+  }
+  const method = PAYMENT_METHODS.includes(paymentMethod as PaymentMethod) ? paymentMethod as PaymentMethod : 'QRIS';
+  return new Date(Date.now() + PAYMENT_EXPIRY_MINUTES[method] * 60 * 1000);
+};
+
+/**
+ * When an order's current payment expires, as stored with the payment.
+ * Orders from before the expiry was stored count from the order date.
+ */
+export const getPaymentExpiry = (order: OrderRecord): number => {
+  if (order.paymentExpiresAt) {
+    return fromOdooDate(order.paymentExpiresAt).getTime();
+  }
+
+  const method = PAYMENT_METHODS.includes(order.paymentMethod as PaymentMethod) ? order.paymentMethod as PaymentMethod : 'QRIS';
+  const orderedAt = order.dateOrder ? fromOdooDate(order.dateOrder).getTime() : Date.now();
+  return orderedAt + PAYMENT_EXPIRY_MINUTES[method] * 60 * 1000;
+};
+
+class PaymentService {
+  /**
+   * Create a gateway payment for the caller's order and store it on the order.
+   * The amount must cover the order total less the balance held for it.
+   */
+  async createOrderPayment(
+    partnerId: number,
+    request: UnifiedPaymentRequest,
+    provider?: PaymentProvider,
+    options?: PaymentOptions
+  ): Promise<UnifiedPaymentResponse> {
+    if (!PAYMENT_METHODS.includes(request.paymentMethod)) {
+      throw new ProxyError('BAD_REQUEST', 'Metode pembayaran tidak dikenal');
+    }
+
+    const order = await orders.getOwnedOrder(partnerId, Number(request.orderId));
+    if (!canTransitionOrder(order.status, 'payment_confirmed')) {
+      throw new ProxyError('CONFLICT', 'Pesanan ini tidak dapat dibayar');
+    }
+
+    const held = await wallet.getOrderWalletAmount(order.id, 'pending');
+    if (!(request.amount >= Math.round(order.amountTotal - held))) {
+      throw new ProxyError('INVALID_AMOUNT', 'Jumlah pembayaran kurang dari total pesanan');
+    }
+
+    const payment = await gateway.createPayment({ ...request, orderId: order.id.toString() }, provider, options);
+
+    await orders.updatePaymentInfo(order.id, {
+      paymentId: payment.paymentId,
+      paymentMethod: request.paymentMethod,
+      paymentStatus: payment.status,
+      paymentProvider: payment.provider,
+      expiresAt: resolvePaymentExpiry(request.paymentMethod, payment.expiresAt),
+    });
+
+    return payment;
+  }
+
+  /**
+   * Charge a card token for the caller's order and store the charge on it
+   */
+  async chargeCard(
+    partnerId: number,
+    request: { orderId: string; tokenId: string; authenticationId: string; amount: number; description?: string }
+  ): Promise<UnifiedPaymentResponse> {
+    const order = await orders.getOwnedOrder(partnerId, Number(request.orderId));
+    if (!canTransitionOrder(order.status, 'payment_confirmed')) {
+      throw new ProxyError('CONFLICT', 'Pesanan ini tidak dapat dibayar');
+    }
+
+    const held = await wallet.getOrderWalletAmount(order.id, 'pending');
+    if (!(request.amount >= Math.round(order.amountTotal - held))) {
+      throw new ProxyError('INVALID_AMOUNT', 'Jumlah pembayaran kurang dari total pesanan');
+    }
+
+    const charge = await gateway.chargeCard({ ...request, orderId: order.id.toString() });
+
+    await orders.updatePaymentInfo(order.id, {
+      paymentId: charge.paymentId,
+      paymentMethod: 'CARDS',
+      paymentStatus: charge.status,
+      paymentProvider: charge.provider,
+      expiresAt: resolvePaymentExpiry('CARDS', charge.expiresAt),
+    });
+
+    if (charge.status === 'PAID') {
+      await this.applyStatus(charge.paymentId);
+    }
+    return charge;
+  }
+
+  /**
+   * Check a payment with its provider and apply a final status to its order
+   * or top-up. partnerId limits the lookup to the caller's payments.
+   */
+  async applyStatus(paymentId: string, partnerId?: number): Promise<PaymentStatusResult> {
+    const order = await orders.findOrderByPaymentId(paymentId);
+    if (order && (partnerId === undefined || order.partnerId === partnerId)) {
+      return this.applyOrderStatus(order);
+    }
+
+    const topUp = await wallet.findTopUpByPayment(paymentId);
+    if (topUp && (partnerId === undefined || topUp.partnerId === partnerId)) {
+      if (topUp.state !== 'pending') {
+        return { isPaid: topUp.state === 'posted', status: topUp.state === 'posted' ? 'PAID' : 'EXPIRED' };
+      }
+      return this.applyTopUpStatus(topUp, paymentId);
+    }
+
+    throw new ProxyError('NOT_FOUND', 'Pembayaran tidak ditemukan');
+  }
+
+  /**
+   * Mark a payment as paid at the provider (sandbox only)
+   */
+  async simulate(partnerId: number, paymentId: string): Promise<boolean> {
+    const order = await orders.findOrderByPaymentId(paymentId);
+    if (!order || order.partnerId !== partnerId) {
+      throw new ProxyError('NOT_FOUND', 'Pembayaran tidak ditemukan');
+    }
+    return gateway.simulatePayment(
+      paymentId,
+      (order.paymentProvider as PaymentProvider) || 'FLIP',
+      order.paymentMethod as PaymentMethod,
+      order.amountTotal
+    );
+  }
+
+  /**
+   * Scheduler job: check every unpaid order whose payment has lapsed, so it is
+   * cancelled even when the customer's app is closed, and send the expiry
+   * reminder once per payment
+   */
+  async expireAndRemind(): Promise<void> {
+    const now = Date.now();
+
+    for (const order of await orders.findAwaitingPayment()) {
+      try {
+        const expiresAt = getPaymentExpiry(order);
+        if (now > expiresAt + EXPIRY_GRACE_MS) {
+          await this.applyOrderStatus(order);
+          continue;
+        }
+
+        const leadMinutes = PAYMENT_REMINDER_MINUTES[order.paymentMethod as PaymentMethod];
+        if (leadMinutes && !order.paymentRemindedAt && now >= expiresAt - leadMinutes * 60 * 1000 && now < expiresAt) {
+          // Marked first, so a failed send is not retried on every run
+          await orders.markPaymentReminded(order.id);
+          await this.sendExpiryReminder(order, expiresAt);
+        }
+      } catch (error: any) {
+        console.error(`[payments] order ${order.id}: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Scheduler job: cancel draft appointments no payment was created for within
+   * SLOT_HOLD_MINUTES of booking, with their consultation order, so a booking
+   * abandoned before the payment screen does not keep the doctor's slot
+   */
+  async releaseUnpaidAppointments(): Promise<void> {
+    const bookedBefore = new Date(Date.now() - SLOT_HOLD_MINUTES * 60 * 1000);
+
+    for (const appointment of await appointments.findDraftsBookedBefore(bookedBefore)) {
+      try {
+        const order = await orders.findAppointmentOrder(appointment.partnerId, appointment.id);
+        if (!order) {
+          await appointments.cancelAppointment(appointment.id, 'Pembayaran tidak dibuat');
+        } else if (!order.paymentId) {
+          // Cancels the appointment with it
+          await orders.expireOrder(order.id, { onlyWithoutPayment: true });
+        }
+      } catch (error: any) {
+        console.error(`[payments] appointment ${appointment.id}: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Scheduler job: check every pending top-up with its provider, so one whose
+   * callback was lost is still credited, and one that lapsed is dropped
+   */
+  async checkPendingTopUps(): Promise<void> {
+    for (const topUp of await wallet.findPendingTopUps()) {
+      try {
+        await this.applyTopUpStatus(topUp, topUp.paymentId!);
+      } catch (error: any) {
+        console.error(`[payments] top-up ${topUp.id}: ${error.message}`);
+      }
+    }
+  }
+
+  // WhatsApp reminder that the order's payment is about to expire
+  private async sendExpiryReminder(order: OrderRecord, expiresAt: number): Promise<boolean> {
+    const [partner] = await odoo.read('res.partner', [order.partnerId], ['phone', 'mobile']);
+    const phone = partner?.mobile || partner?.phone;
+    if (!phone) {
+      return false;
+    }
+
+    const method = METHOD_LABELS[order.paymentMethod as PaymentMethod];
+    const expiryTime = new Date(expiresAt).toLocaleTimeString('id-ID', {
+      hour: '2-digit',
+      minute: '2-digit',
+      timeZone: 'Asia/Jakarta',
+    });
+
+    return whatsapp.send(phone, [
+      `PawSmart - Pesanan ${order.name}`,
+      `Pembayaran${method ? ` ${method}` : ''} sebesar Rp${order.amountTotal.toLocaleString('id-ID')} akan kedaluwarsa pukul ${expiryTime}.`,
+      'Selesaikan pembayaran di aplikasi PawSmart agar pesanan tidak dibatalkan otomatis.',
+    ].join('\n'));
+  }
+
+  private async applyOrderStatus(order: OrderRecord): Promise<PaymentStatusResult> {
+    if (order.paymentStatus === 'PAID') {
+      return { isPaid: true, status: 'PAID' };
+    }
+
+    const paymentId = order.paymentId!;
+    const result = await gateway.getPaymentStatus(
+      paymentId,
+      (order.paymentProvider as PaymentProvider) || 'FLIP',
+      (order.paymentMethod as PaymentMethod) || 'EWALLET'
+    );
+
+    let status = result.unified;
+    if (status === 'PENDING' && Date.now() > getPaymentExpiry(order) + EXPIRY_GRACE_MS) {
+      status = 'EXPIRED';
+    }
+
+    if (status === 'PAID') {
+      try {
+        const settled = await orders.settleOrderPayment(order.id, {
+          paymentId,
+          paymentMethod: order.paymentMethod || 'EWALLET',
+          paymentProvider: order.paymentProvider,
+          amount: result.amount,
+          source: 'payment',
+        });
+        if (settled) {
+          await shipments.bookShipment(order.id);
+        }
+      } catch (error) {
+        if (!(error instanceof ProxyError && error.code === 'UNDERPAID')) {
+          throw error;
+        }
+        await refunds.holdUnderpayment(order, {
+          paymentId,
+          paymentProvider: (order.paymentProvider as PaymentProvider) || 'FLIP',
+          paymentMethod: (order.paymentMethod as PaymentMethod) || 'EWALLET',
+          amount: result.amount!,
+        });
+        return { isPaid: false, status: 'FAILED', paymentData: result.paymentData };
+      }
+    } else if (status !== 'PENDING') {
+      await orders.updatePaymentStatus(order.id, status);
+      // A failed payment can be retried with another method; an expired one releases the order
+      if (status === 'EXPIRED') {
+        await orders.expireOrder(order.id);
+      }
+    }
+
+    return { isPaid: status === 'PAID', status, paymentData: result.paymentData };
+  }
+
+  private async applyTopUpStatus(topUp: TopUpRecord, paymentId: string): Promise<PaymentStatusResult> {
+    const paymentProvider = topUp.provider || 'FLIP';
+    const paymentMethod = topUp.paymentMethod || 'QRIS';
+    const result = await gateway.getPaymentStatus(paymentId, paymentProvider, paymentMethod);
+
+    let status = result.unified;
+    const expiresAt = fromOdooDate(topUp.createdAt).getTime() + PAYMENT_EXPIRY_MINUTES[paymentMethod] * 60 * 1000;
+    if (status === 'PENDING' && Date.now() > expiresAt + EXPIRY_GRACE_MS) {
+      status = 'EXPIRED';
+    }
+
+    if (status === 'PAID') {
+      try {
+        await wallet.settleTopUp(topUp.id, { paymentId, amount: result.amount });
+      } catch (error) {
+        if (!(error instanceof ProxyError && error.code === 'UNDERPAID')) {
+          throw error;
+        }
+        await wallet.cancelTopUp(topUp.id);
+        await refunds.holdTopUpPayment(topUp, {
+          paymentId,
+          paymentProvider,
+          paymentMethod,
+          amount: result.amount!,
+          reason: 'Pembayaran kurang dari jumlah isi saldo',
+        });
+        return { isPaid: false, status: 'FAILED', paymentData: result.paymentData };
+      }
+    } else if (status !== 'PENDING') {
+      await wallet.cancelTopUp(topUp.id);
+    }
+
+    return { isPaid: status === 'PAID', status, paymentData: result.paymentData };
+  }
+}
+
+export const payments = new PaymentService();
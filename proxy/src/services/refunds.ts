@@ -0,0 +1,501 @@
+/**
+ * Returns and refunds for paid orders, one x_pawsmart_return record each:
+ * - 'return': a delivered order sent back with photos. The order waits in
+ *   'inspecting' until the admin approves or rejects the return in Odoo.
+ * - 'cancellation': a paid order cancelled before it shipped.
+ * - 'late_payment': a payment that arrived after its order was closed (e.g.
+ *   expired), or a top-up payment that lapsed or fell short. It keeps the
+ *   payment's own details and waits for the admin, who adds the bank account
+ *   when needed and approves the refund. A top-up's record has no order.
+ *
+ * Approved returns are refunded with a Xendit refund for Xendit card and
+ * e-wallet payments, otherwise with a Flip disbursement to the customer's
+ * bank account. Whatever was paid from the PawSmart balance goes back to the
+ * wallet. processPendingRefunds runs from the scheduler and follows each
+ * refund until the money has arrived. A return is handled by one caller at a
+ * time and re-read before each step, and the refund reference doubles as the
+ * provider's idempotency key, so a refund is never paid out twice. The
+ * reference carries the return's attempt number, which only moves on once a
+ * refund has failed at the provider, so the admin's retry is a new refund
+ * while a retry after a timeout still reaches the original one.
+ */
+
+import { odoo, toOdooDate, relationId } from '../odoo';
+import { ProxyError } from '../errors';
+import { withLock } from '../locks';
+import { assertOrderTransition, CUSTOMER_CANCELLABLE_STATUSES } from '../../../src/services/order/orderLifecycle';
+import { PaymentMethod, PaymentProvider, RefundBankAccount } from '../../../src/services/proxy/proxyRoutes';
+import { gateway, RefundMethod, RefundStatus } from './gateway';
+import { orders, OrderRecord, REFUNDED_PAYMENT_STATUS } from './orders';
+import { shipments } from './shipments';
+import { topUpReference, TopUpRecord, wallet, WALLET_PAYMENT_PROVIDER } from './wallet';
+
+export const RETURN_MODEL = 'x_pawsmart_return';
+
+const RETURN_FIELDS = [
+  'x_name', 'x_order_id', 'x_partner_id', 'x_type', 'x_state', 'x_reason', 'x_note', 'x_amount',
+  'x_refund_method', 'x_bank_code', 'x_account_number', 'x_account_name', 'x_refund_id',
+  'x_refund_provider', 'x_refund_attempt', 'x_inspection_note', 'x_payment_id', 'x_payment_provider', 'x_payment_method',
+];
+
+type ReturnType = 'cancellation' | 'return' | 'late_payment';
+
+// requested → approved | rejected (by the admin) → refunding → refunded | failed
+type ReturnState = 'requested' | 'approved' | 'rejected' | 'refunding' | 'refunded' | 'failed';
+
+interface ReturnRecord {
+  id: number;
+  name: string;
+  orderId?: number; // Not set for a top-up payment
+  partnerId: number;
+  type: ReturnType;
+  state: ReturnState;
+  amount: number;
+  refundMethod: RefundMethod;
+  bankAccount?: RefundBankAccount;
+  refundId?: string;
+  refundProvider?: PaymentProvider;
+  refundAttempt: number; // Refunds that failed at the provider so far
+  inspectionNote?: string;
+  payment?: LatePayment; // Late payments only; other returns refund the order's payment
+}
+
+export interface LatePayment {
+  paymentId: string;
+  paymentProvider: PaymentProvider;
+  paymentMethod: PaymentMethod;
+  amount: number;
+  reason?: string;
+}
+
+// Orders need this many photos of the goods before a return can be requested
+const MIN_RETURN_PHOTOS = 1;
+
+const formatRupiah = (amount: number) => `Rp${Math.round(amount).toLocaleString('id-ID')}`;
+
+// Idempotency key for the return's current refund at the provider
+const refundReference = (orderReturn: ReturnRecord) =>
+  orderReturn.refundAttempt > 0 ? `refund_${orderReturn.id}_${orderReturn.refundAttempt}` : `refund_${orderReturn.id}`;
+
+const toReturn = (record: any): ReturnRecord => ({
+  id: record.id,
+  name: record.x_name || '',
+  orderId: relationId(record.x_order_id),
+  partnerId: relationId(record.x_partner_id)!,
+  type: record.x_type,
+  state: record.x_state,
+  amount: record.x_amount || 0,
+  refundMethod: record.x_refund_method,
+  bankAccount: record.x_account_number
+    ? { bankCode: record.x_bank_code || '', accountNumber: record.x_account_number, accountName: record.x_account_name || '' }
+    : undefined,
+  refundId: record.x_refund_id || undefined,
+  refundProvider: record.x_refund_provider || undefined,
+  refundAttempt: record.x_refund_attempt || 0,
+  inspectionNote: record.x_inspection_note || undefined,
+  payment: record.x_payment_id
+    ? { paymentId: record.x_payment_id, paymentProvider: record.x_payment_provider, paymentMethod: record.x_payment_method, amount: record.x_amount || 0 }
+    : undefined,
+});
+
+class RefundService {
+  /**
+   * How the order's payment would be refunded, or null when it was not paid
+   */
+  getRefundMethod(order: OrderRecord): RefundMethod | null {
+    if (!order.paymentId || order.paymentStatus !== 'PAID') {
+      return null;
+    }
+    if (order.paymentProvider === WALLET_PAYMENT_PROVIDER) {
+      return 'wallet';
+    }
+    return gateway.getRefundMethod((order.paymentProvider as PaymentProvider) || 'FLIP', order.paymentMethod as PaymentMethod);
+  }
+
+  /**
+   * Send a delivered order back. The order waits in 'inspecting' until the
+   * admin has checked the goods.
+   */
+  async requestReturn(
+    partnerId: number,
+    orderId: number,
+    request: { reason: string; note?: string; photos: string[]; bankAccount?: RefundBankAccount }
+  ): Promise<number> {
+    const order = await orders.getOwnedOrder(partnerId, orderId);
+    const refundMethod = this.getRefundMethod(order);
+
+    if (!refundMethod) {
+      throw new ProxyError('NOT_PAID', 'Pesanan ini belum dibayar sehingga tidak dapat dikembalikan.');
+    }
+    if (!Array.isArray(request.photos) || request.photos.length < MIN_RETURN_PHOTOS) {
+      throw new ProxyError('PHOTOS_REQUIRED', 'Tambahkan foto barang yang akan dikembalikan.');
+    }
+    this.assertBankAccount(refundMethod, request.bankAccount);
+
+    const [existing] = await odoo.searchRead(RETURN_MODEL, [['x_order_id', '=', orderId]], ['x_state'], { order: 'id desc', limit: 1 });
+    if (existing && existing.x_state !== 'rejected') {
+      throw new ProxyError('ALREADY_REQUESTED', 'Pengembalian untuk pesanan ini sudah diajukan.');
+    }
+
+    assertOrderTransition(order.status, 'inspecting');
+
+    const returnId = await this.createReturn(partnerId, order, 'return', 'requested', request, refundMethod);
+
+    for (const [index, photo] of request.photos.entries()) {
+      await odoo.create('ir.attachment', {
+        name: `retur_${returnId}_${index + 1}.jpg`,
+        datas: photo,
+        mimetype: 'image/jpeg',
+        res_model: RETURN_MODEL,
+        res_id: returnId,
+      });
+    }
+
+    await orders.updateOrderStatus(orderId, 'inspecting', { note: request.reason, source: 'app' });
+    return returnId;
+  }
+
+  /**
+   * Cancel an order, refunding it when it was already paid. Only orders that
+   * have not reached the courier can be cancelled by the customer.
+   * Returns the refund record, or undefined when there was nothing to refund.
+   *
+   * Runs under the order's lock, so a payment cannot settle in between. The
+   * refund record is created first and only approved once the order is
+   * cancelled: a paid order is never cancelled without one, and a refund is
+   * never issued for an order that stayed open.
+   */
+  async cancelOrder(
+    partnerId: number,
+    orderId: number,
+    request: { reason: string; note?: string; bankAccount?: RefundBankAccount }
+  ): Promise<number | undefined> {
+    const returnId = await withLock(`order:${orderId}`, async () => {
+      const order = await orders.getOwnedOrder(partnerId, orderId);
+      const refundMethod = this.getRefundMethod(order);
+
+      if (!CUSTOMER_CANCELLABLE_STATUSES.includes(order.status)) {
+        throw new ProxyError('CONFLICT', 'Pesanan ini sudah diproses dan tidak dapat dibatalkan. Hubungi admin untuk bantuan.');
+      }
+      if (refundMethod) {
+        this.assertBankAccount(refundMethod, request.bankAccount);
+      }
+
+      // Left in 'requested' until the order is cancelled; the admin can still approve it if the proxy stops in between
+      const pendingReturnId = refundMethod
+        ? await this.createReturn(partnerId, order, 'cancellation', 'requested', request, refundMethod)
+        : undefined;
+
+      try {
+        await shipments.cancelBeforeBooking(orderId, () =>
+          orders.cancelOrder(orderId, request.note ? `${request.reason} - ${request.note}` : request.reason)
+        );
+      } catch (error) {
+        if (pendingReturnId) {
+          await odoo.execute(RETURN_MODEL, 'unlink', [[pendingReturnId]]);
+        }
+        throw error;
+      }
+
+      if (pendingReturnId) {
+        await odoo.write(RETURN_MODEL, [pendingReturnId], { x_state: 'approved' });
+      }
+      return pendingReturnId;
+    });
+
+    if (!returnId) {
+      return undefined;
+    }
+
+    // Refund right away; the scheduler retries it if the gateway is unavailable
+    try {
+      await this.processReturn(returnId);
+    } catch (error) {
+      // Still approved, picked up by processPendingRefunds
+    }
+
+    return returnId;
+  }
+
+  /**
+   * Hold a payment that arrived for a closed order for the admin to refund.
+   * A payment is only held once; returns the refund record.
+   */
+  async holdLatePayment(order: OrderRecord, payment: LatePayment): Promise<number> {
+    return this.holdPayment(`Bayar terlambat ${order.name}`, order.partnerId, order.id, {
+      ...payment,
+      reason: payment.reason || 'Pembayaran diterima setelah pesanan ditutup',
+    });
+  }
+
+  /**
+   * Hold a top-up payment that arrived after the top-up lapsed, or did not
+   * cover it, for the admin to refund. The balance is not credited.
+   */
+  async holdTopUpPayment(topUp: TopUpRecord, payment: LatePayment): Promise<number> {
+    return this.holdPayment(`Isi saldo ${topUpReference(topUp.id)}`, topUp.partnerId, undefined, {
+      ...payment,
+      reason: payment.reason || 'Pembayaran isi saldo diterima setelah kedaluwarsa',
+    });
+  }
+
+  /**
+   * Hold a payment that did not cover the order for the admin to refund.
+   * The order stays open and its payment is marked failed, so the customer
+   * can pay again.
+   */
+  async holdUnderpayment(order: OrderRecord, payment: LatePayment): Promise<number> {
+    const returnId = await this.holdLatePayment(order, { ...payment, reason: 'Pembayaran kurang dari total pesanan' });
+    if (order.paymentId === payment.paymentId) {
+      await orders.updatePaymentStatus(order.id, 'FAILED');
+    }
+    return returnId;
+  }
+
+  /**
+   * Follow up on returns: apply the admin's inspection result, issue approved
+   * refunds and check refunds in flight. One failing gateway call does not
+   * hold up the others.
+   */
+  async processPendingRefunds(): Promise<void> {
+    const returnIds = await odoo.search(RETURN_MODEL, [
+      '|',
+      ['x_state', 'in', ['approved', 'refunding']],
+      '&',
+      ['x_state', '=', 'rejected'],
+      ['x_order_id.x_pawsmart_status', '=', 'inspecting'],
+    ], { order: 'id asc' });
+
+    for (const returnId of returnIds) {
+      try {
+        await this.processReturn(returnId);
+      } catch (error) {
+        // Left in its current state and retried on the next run
+      }
+    }
+  }
+
+  // Take the next step for one return, from its state as stored right now
+  private processReturn(returnId: number): Promise<void> {
+    return withLock(`return:${returnId}`, async () => {
+      const orderReturn = await this.getReturn(returnId);
+
+      switch (orderReturn.state) {
+        case 'approved':
+          await this.applyInspection(orderReturn);
+          await this.issueRefund(orderReturn);
+          break;
+        case 'rejected':
+          await this.applyInspection(orderReturn);
+          break;
+        case 'refunding':
+          await this.checkRefund(orderReturn);
+          break;
+      }
+    });
+  }
+
+  private async getReturn(returnId: number): Promise<ReturnRecord> {
+    const [record] = await odoo.read(RETURN_MODEL, [returnId], RETURN_FIELDS);
+    if (!record) {
+      throw new Error('Return not found');
+    }
+    return toReturn(record);
+  }
+
+  // A payment is only held once; returns the refund record
+  private async holdPayment(name: string, partnerId: number, orderId: number | undefined, payment: LatePayment): Promise<number> {
+    const [existing] = await odoo.search(RETURN_MODEL, [['x_payment_id', '=', payment.paymentId]], { limit: 1 });
+    if (existing) {
+      return existing;
+    }
+
+    return odoo.create(RETURN_MODEL, {
+      x_name: name,
+      x_order_id: orderId || false,
+      x_partner_id: partnerId,
+      x_type: 'late_payment',
+      x_state: 'requested',
+      x_reason: payment.reason,
+      x_amount: payment.amount,
+      x_refund_method: gateway.getRefundMethod(payment.paymentProvider, payment.paymentMethod),
+      x_payment_id: payment.paymentId,
+      x_payment_provider: payment.paymentProvider,
+      x_payment_method: payment.paymentMethod,
+    });
+  }
+
+  private assertBankAccount(refundMethod: RefundMethod, bankAccount?: RefundBankAccount): void {
+    if (
+      refundMethod === 'bank_transfer' &&
+      (!bankAccount?.bankCode || !bankAccount.accountNumber || !bankAccount.accountName)
+    ) {
+      throw new ProxyError('BANK_ACCOUNT_REQUIRED', 'Lengkapi rekening bank untuk pengembalian dana.');
+    }
+  }
+
+  private createReturn(
+    partnerId: number,
+    order: OrderRecord,
+    type: ReturnType,
+    state: ReturnState,
+    request: { reason: string; note?: string; bankAccount?: RefundBankAccount },
+    refundMethod: RefundMethod
+  ): Promise<number> {
+    return odoo.create(RETURN_MODEL, {
+      x_name: `${type === 'return' ? 'Retur' : 'Batal'} ${order.name}`,
+      x_order_id: order.id,
+      x_partner_id: partnerId,
+      x_type: type,
+      x_state: state,
+      x_reason: request.reason,
+      x_note: request.note || false,
+      x_amount: order.amountTotal,
+      x_refund_method: refundMethod,
+      x_bank_code: request.bankAccount?.bankCode || false,
+      x_account_number: request.bankAccount?.accountNumber || false,
+      x_account_name: request.bankAccount?.accountName || false,
+    });
+  }
+
+  // Mirror the admin's decision on a return onto the order
+  private async applyInspection(orderReturn: ReturnRecord): Promise<void> {
+    if (orderReturn.type !== 'return') {
+      return;
+    }
+
+    const order = await orders.getOrder(orderReturn.orderId!);
+    if (order.status !== 'inspecting') {
+      return;
+    }
+
+    await orders.updateOrderStatus(
+      order.id,
+      orderReturn.state === 'rejected' ? 'delivered' : 'return_approved',
+      { note: orderReturn.inspectionNote, source: 'admin' }
+    );
+  }
+
+  private async issueRefund(orderReturn: ReturnRecord): Promise<void> {
+    if (orderReturn.state !== 'approved') {
+      return;
+    }
+
+    if (orderReturn.payment) {
+      await this.issueLatePaymentRefund(orderReturn, orderReturn.payment);
+      return;
+    }
+
+    const order = await orders.getOrder(orderReturn.orderId!);
+
+    // Refunded some other way, e.g. by the admin from the gateway dashboard
+    if (order.paymentStatus === REFUNDED_PAYMENT_STATUS) {
+      await odoo.write(RETURN_MODEL, [orderReturn.id], { x_state: 'refunded', x_refunded_at: toOdooDate(new Date()) });
+      return;
+    }
+    if (!order.paymentId) {
+      throw new Error('Order has no payment to refund');
+    }
+
+    // The part paid from the wallet is credited back to it; only the rest goes through the gateway
+    const walletAmount = Math.min(await wallet.getOrderWalletAmount(order.id), orderReturn.amount);
+    if (walletAmount > 0) {
+      await wallet.refundToWallet(
+        orderReturn.partnerId,
+        order.id,
+        walletAmount,
+        `refund_${orderReturn.id}`,
+        `Pengembalian dana ${order.name}`
+      );
+    }
+
+    const gatewayAmount = orderReturn.amount - walletAmount;
+    if (orderReturn.refundMethod === 'wallet' || gatewayAmount <= 0) {
+      await this.applyRefundStatus(orderReturn, 'SUCCEEDED');
+      return;
+    }
+
+    const refund = await gateway.createRefund({
+      orderId: order.id.toString(),
+      referenceId: refundReference(orderReturn),
+      amount: gatewayAmount,
+      provider: (order.paymentProvider as PaymentProvider) || 'FLIP',
+      paymentId: order.paymentId,
+      paymentMethod: order.paymentMethod as PaymentMethod,
+      bankAccount: orderReturn.bankAccount,
+      remark: `Refund ${order.name}`,
+    });
+
+    await odoo.write(RETURN_MODEL, [orderReturn.id], {
+      x_state: 'refunding',
+      x_refund_id: refund.refundId,
+      x_refund_provider: refund.provider,
+    });
+
+    await this.applyRefundStatus({ ...orderReturn, state: 'refunding', refundId: refund.refundId }, refund.status);
+  }
+
+  // The whole late payment goes back the way it came; the order or top-up is not touched
+  private async issueLatePaymentRefund(orderReturn: ReturnRecord, payment: LatePayment): Promise<void> {
+    const label = orderReturn.orderId ? (await orders.getOrder(orderReturn.orderId)).name : orderReturn.name;
+    const refund = await gateway.createRefund({
+      orderId: orderReturn.orderId?.toString() || label,
+      referenceId: refundReference(orderReturn),
+      amount: payment.amount,
+      provider: payment.paymentProvider,
+      paymentId: payment.paymentId,
+      paymentMethod: payment.paymentMethod,
+      bankAccount: orderReturn.bankAccount,
+      remark: `Refund ${label}`,
+    });
+
+    await odoo.write(RETURN_MODEL, [orderReturn.id], {
+      x_state: 'refunding',
+      x_refund_id: refund.refundId,
+      x_refund_provider: refund.provider,
+    });
+
+    await this.applyRefundStatus({ ...orderReturn, state: 'refunding', refundId: refund.refundId }, refund.status);
+  }
+
+  private async checkRefund(orderReturn: ReturnRecord): Promise<void> {
+    if (!orderReturn.refundId) {
+      return;
+    }
+
+    // A late payment carries its own; other returns refund the order's payment
+    const payment = orderReturn.payment || await orders.getOrder(orderReturn.orderId!);
+    const status = await gateway.getRefundStatus({
+      method: orderReturn.refundMethod,
+      refundId: orderReturn.refundId,
+      paymentId: payment.paymentId || '',
+      paymentMethod: payment.paymentMethod as PaymentMethod,
+    });
+
+    await this.applyRefundStatus(orderReturn, status);
+  }
+
+  private async applyRefundStatus(orderReturn: ReturnRecord, status: RefundStatus): Promise<void> {
+    if (status === 'FAILED') {
+      // The admin checks the account details and sets the return back to approved to retry
+      await odoo.write(RETURN_MODEL, [orderReturn.id], {
+        x_state: 'failed',
+        x_refund_attempt: orderReturn.refundAttempt + 1,
+        x_failure_reason: orderReturn.refundMethod === 'bank_transfer'
+          ? 'Transfer ke rekening gagal'
+          : 'Refund ditolak oleh penyedia pembayaran',
+      });
+      return;
+    }
+
+    if (status === 'SUCCEEDED') {
+      await odoo.write(RETURN_MODEL, [orderReturn.id], { x_state: 'refunded', x_refunded_at: toOdooDate(new Date()) });
+      // A late payment was never the order's payment
+      if (orderReturn.type !== 'late_payment') {
+        await orders.markOrderRefunded(orderReturn.orderId!, `Dana ${formatRupiah(orderReturn.amount)} telah dikembalikan`);
+      }
+    }
+  }
+}
+
+export const refunds = new RefundService();
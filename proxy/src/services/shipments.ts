@@ -0,0 +1,488 @@
+/**
+ * Courier bookings. The courier the customer chose at checkout is stored as
+ * an x_pawsmart_shipment record and booked with KiriminAja once the order is
+ * paid, or right away for cash on delivery (COD), where the courier collects
+ * the order total. Failed bookings are retried by the scheduler and finally
+ * left to the fulfilment team.
+ *
+ * The app only picks the courier and the destination: the parcel is weighed
+ * from the Odoo products and its cost quoted with KiriminAja here.
+ *
+ * A booking claims its shipment (state 'booking') under the order's lock
+ * before KiriminAja is called, so no caller books the same pickup twice.
+ * A shipment left in 'booking' (the proxy stopped mid-request) is not
+ * retried; the fulfilment team checks KiriminAja for it.
+ */
+
+import { config } from '../config';
+import { odoo, toOdooDate, fromOdooDate, relationId } from '../odoo';
+import { ProxyError, badRequest } from '../errors';
+import { withLock } from '../locks';
+import { kiriminAja } from '../providers/kiriminAja';
+import { OrderStatus, canTransitionOrder, normalizeOrderStatus, ORDER_LIFECYCLE_FIELDS } from '../../../src/services/order/orderLifecycle';
+import { NewShipmentRequest, ShipmentChoice, ShipmentDestination, ShippingPriceResponse } from '../../../src/services/proxy/proxyRoutes';
+import { orders, OrderRecord, SALE_ORDER_MODEL } from './orders';
+import { calculatePackage, PackageDetails } from './packages';
+
+export const SHIPMENT_MODEL = 'x_pawsmart_shipment';
+
+export type ShipmentBookingState = 'pending' | 'retrying' | 'booking' | 'booked' | 'failed' | 'cancelled';
+
+export interface ShipmentRecord extends NewShipmentRequest {
+  id: number;
+  orderId: number;
+  orderName: string;
+  state: ShipmentBookingState;
+  weight: number;
+  attempts: number;
+  lastAttemptAt?: string;
+}
+
+export interface ShipmentQuote {
+  cost: number;
+  parcel: PackageDetails;
+}
+
+interface BookingResult {
+  awb?: string;
+  pickupNumber?: string;
+  bookingRef?: string;
+}
+
+// Used when the parcel could not be weighed at checkout
+export const DEFAULT_PACKAGE_WEIGHT = 1000;
+
+// Scheduled retries before the booking is left to the fulfilment team
+const MAX_BOOKING_ATTEMPTS = 5;
+
+// Order statuses in which an order may be handed to the courier
+const BOOKABLE_STATUSES: OrderStatus[] = ['payment_confirmed', 'admin_review', 'approved', 'processing'];
+
+const SHIPMENT_FIELDS = [
+  'x_name', 'x_order_id', 'x_state', 'x_courier', 'x_service_type', 'x_service_group',
+  'x_cod', 'x_shipping_cost', 'x_item_value', 'x_item_name', 'x_weight', 'x_length', 'x_width', 'x_height', 'x_destination',
+  'x_attempts', 'x_last_attempt_date',
+];
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const toShipment = (record: any): ShipmentRecord => {
+  let destination: ShipmentDestination = { name: '', phone: '', address: '' };
+  try {
+    destination = JSON.parse(record.x_destination || '{}');
+  } catch (error) {
+    // Malformed destination fails validation when booking
+  }
+
+  return {
+    id: record.id,
+    orderId: relationId(record.x_order_id)!,
+    orderName: record.x_name,
+    state: record.x_state,
+    courier: record.x_courier,
+    serviceType: record.x_service_type,
+    group: record.x_service_group || 'regular',
+    cod: !!record.x_cod,
+    shippingCost: record.x_shipping_cost || 0,
+    itemValue: record.x_item_value || 0,
+    itemName: record.x_item_name || record.x_name,
+    weight: record.x_weight || DEFAULT_PACKAGE_WEIGHT,
+    dimensions: record.x_length && record.x_width && record.x_height
+      ? { length: record.x_length, width: record.x_width, height: record.x_height }
+      : undefined,
+    destination,
+    attempts: record.x_attempts || 0,
+    lastAttemptAt: record.x_last_attempt_date || undefined,
+  };
+};
+
+class ShipmentService {
+  // Bookings running in this process, so a webhook and a status check
+  // confirming the same order do not book it twice
+  private inFlight = new Map<number, Promise<void>>();
+
+  /**
+   * Price the customer's courier choice for a set of products. Throws when
+   * the service is not offered for the destination, or does not collect
+   * cash on delivery when COD was chosen.
+   */
+  async quoteShipment(choice: ShipmentChoice, items: Array<{ productId: number; quantity: number }>): Promise<ShipmentQuote> {
+    if (!choice?.courier || !choice.serviceType || !choice.destination) {
+      throw badRequest('Data pengiriman tidak lengkap');
+    }
+    if (choice.cod && choice.group === 'instant') {
+      throw badRequest('Bayar di tempat (COD) tidak tersedia untuk pengiriman instan');
+    }
+
+    const parcel = await calculatePackage(items);
+    const { destination } = choice;
+    const origin = config.ORIGIN;
+    let rates: ShippingPriceResponse;
+
+    if (choice.group === 'instant') {
+      if (destination.latitude === undefined || destination.longitude === undefined) {
+        throw badRequest('Titik lokasi tujuan belum diisi');
+      }
+      rates = await kiriminAja.getInstantRates({
+        origin: { lat: origin.LATITUDE, long: origin.LONGITUDE },
+        destination: { lat: destination.latitude, long: destination.longitude },
+        weight: parcel.weight,
+        timezone: 'WIB',
+      });
+    } else {
+      if (!destination.districtId) {
+        throw badRequest('Kecamatan tujuan belum diisi');
+      }
+      rates = await kiriminAja.getRates({
+        origin: origin.DISTRICT_ID,
+        destination: destination.districtId,
+        weight: parcel.weight,
+        length: parcel.length,
+        width: parcel.width,
+        height: parcel.height,
+        insurance: 0,
+      });
+    }
+
+    const service = (rates.results || []).find(result => result.service === choice.courier && result.service_type === choice.serviceType);
+    const cost = parseInt(service?.cost || '', 10);
+    if (!service || Number.isNaN(cost)) {
+      throw new ProxyError('CONFLICT', 'Layanan kurir tidak tersedia untuk alamat ini. Silakan pilih kurir lain.');
+    }
+    if (choice.cod && !service.cod) {
+      throw new ProxyError('CONFLICT', 'Layanan kurir ini tidak melayani bayar di tempat (COD). Silakan pilih kurir lain.');
+    }
+    return { cost, parcel };
+  }
+
+  /**
+   * Save the courier choice for an order, with the quote its shipping line
+   * was billed at. One courier per order.
+   */
+  async requestForOrder(order: OrderRecord, choice: ShipmentChoice, quote: ShipmentQuote): Promise<number> {
+    const [existingId] = await odoo.search(SHIPMENT_MODEL, [['x_order_id', '=', order.id]], { limit: 1 });
+    if (existingId) {
+      return existingId;
+    }
+
+    const lines = await orders.getOrderLines(order.id);
+    const { cost, parcel } = quote;
+
+    return this.createShipmentRequest(order, {
+      courier: choice.courier,
+      serviceType: choice.serviceType,
+      group: choice.group,
+      cod: !!choice.cod,
+      shippingCost: cost,
+      itemValue: order.amountTotal - cost, // The goods, without the shipping line
+      itemName: lines.map(line => line.name).join(', ').substring(0, 100) || order.name,
+      weight: parcel.weight,
+      dimensions: parcel.length && parcel.width && parcel.height
+        ? { length: parcel.length, width: parcel.width, height: parcel.height }
+        : undefined,
+      destination: choice.destination,
+    });
+  }
+
+  /**
+   * Save a courier choice the proxy priced. It is booked once the order is
+   * paid or confirmed for cash on delivery.
+   */
+  async createShipmentRequest(order: OrderRecord, request: NewShipmentRequest): Promise<number> {
+    return odoo.create(SHIPMENT_MODEL, {
+      x_name: order.name,
+      x_order_id: order.id,
+      x_state: 'pending',
+      x_courier: request.courier,
+      x_service_type: request.serviceType,
+      x_service_group: request.group,
+      x_cod: !!request.cod,
+      x_shipping_cost: request.shippingCost,
+      x_item_value: request.itemValue,
+      x_item_name: request.itemName,
+      x_weight: request.weight || DEFAULT_PACKAGE_WEIGHT,
+      x_length: request.dimensions?.length || 0,
+      x_width: request.dimensions?.width || 0,
+      x_height: request.dimensions?.height || 0,
+      x_destination: JSON.stringify(request.destination),
+      x_attempts: 0,
+    });
+  }
+
+  /**
+   * Book the courier for an order and attach the AWB. Safe to call
+   * repeatedly; never throws, failures are recorded on the shipment.
+   */
+  bookShipment(orderId: number): Promise<void> {
+    const running = this.inFlight.get(orderId);
+    if (running) {
+      return running;
+    }
+
+    const booking = withLock(`shipment:${orderId}`, () => this.runBooking(orderId)).finally(() => this.inFlight.delete(orderId));
+    this.inFlight.set(orderId, booking);
+    return booking;
+  }
+
+  /**
+   * Cancel an order before its courier is booked: waits for a booking that
+   * is running and refuses once a pickup exists. The pending booking is
+   * dropped together with the order.
+   */
+  async cancelBeforeBooking(orderId: number, cancel: () => Promise<void>): Promise<void> {
+    await withLock(`shipment:${orderId}`, async () => {
+      const shipment = await this.getShipment(orderId);
+      if (shipment?.state === 'booking' || shipment?.state === 'booked') {
+        throw new ProxyError('CONFLICT', 'Kurir sudah dipesan untuk pesanan ini. Hubungi admin untuk membatalkan.');
+      }
+
+      await cancel();
+
+      if (shipment && ['pending', 'retrying'].includes(shipment.state)) {
+        await odoo.write(SHIPMENT_MODEL, [shipment.id], { x_state: 'cancelled' });
+      }
+    });
+  }
+
+  /**
+   * Retry bookings that failed or were never started. Attempts back off exponentially.
+   */
+  async retryPendingBookings(): Promise<void> {
+    const records = await odoo.searchRead(SHIPMENT_MODEL, [['x_state', 'in', ['pending', 'retrying']]], SHIPMENT_FIELDS, {
+      order: 'id asc',
+      limit: 20,
+    });
+
+    const shipments = records.map(toShipment);
+    if (shipments.length === 0) {
+      return;
+    }
+
+    // Skip orders that are still waiting for payment
+    const saleOrders = await odoo.searchRead(SALE_ORDER_MODEL, [['id', 'in', shipments.map(shipment => shipment.orderId)]], [
+      'state',
+      ORDER_LIFECYCLE_FIELDS.STATUS,
+    ]);
+    const statuses = new Map<number, OrderStatus>(
+      saleOrders.map(order => [order.id, normalizeOrderStatus(order[ORDER_LIFECYCLE_FIELDS.STATUS] || order.state)])
+    );
+
+    const now = Date.now();
+    for (const shipment of shipments) {
+      const status = statuses.get(shipment.orderId);
+      if (!status || (status !== 'cancelled' && !BOOKABLE_STATUSES.includes(status))) {
+        continue;
+      }
+      if (shipment.lastAttemptAt) {
+        const backoff = Math.min(config.NETWORK.RETRY_DELAY_MS * 60 * 2 ** shipment.attempts, 60 * 60 * 1000);
+        if (fromOdooDate(shipment.lastAttemptAt).getTime() + backoff > now) {
+          continue;
+        }
+      }
+      await this.bookShipment(shipment.orderId);
+    }
+  }
+
+  private async getShipment(orderId: number): Promise<ShipmentRecord | null> {
+    const [record] = await odoo.searchRead(SHIPMENT_MODEL, [['x_order_id', '=', orderId]], SHIPMENT_FIELDS, { order: 'id desc', limit: 1 });
+    return record ? toShipment(record) : null;
+  }
+
+  private async runBooking(orderId: number): Promise<void> {
+    let shipment: ShipmentRecord | null = null;
+    let status: OrderStatus;
+    let result: BookingResult;
+
+    try {
+      shipment = await this.getShipment(orderId);
+      if (!shipment || !['pending', 'retrying'].includes(shipment.state)) {
+        return;
+      }
+
+      status = (await orders.getOrder(orderId)).status;
+
+      if (status === 'cancelled') {
+        await odoo.write(SHIPMENT_MODEL, [shipment.id], { x_state: 'cancelled' });
+        return;
+      }
+
+      if (!BOOKABLE_STATUSES.includes(status)) {
+        return;
+      }
+
+      await odoo.write(SHIPMENT_MODEL, [shipment.id], {
+        x_state: 'booking',
+        x_last_attempt_date: toOdooDate(new Date()),
+      });
+
+      result = await this.requestWithRetry(shipment);
+    } catch (error: any) {
+      if (!shipment) {
+        return;
+      }
+
+      const attempts = shipment.attempts + 1;
+      try {
+        await odoo.write(SHIPMENT_MODEL, [shipment.id], {
+          x_state: attempts >= MAX_BOOKING_ATTEMPTS ? 'failed' : 'retrying',
+          x_attempts: attempts,
+          x_last_error: error?.message || 'Booking gagal',
+          x_last_attempt_date: toOdooDate(new Date()),
+        });
+      } catch (writeError) {
+        // Shipment stays in its previous state and is retried as is
+      }
+      return;
+    }
+
+    // The pickup exists at KiriminAja from here on, so failures below must
+    // not send the shipment back to the retry queue
+    try {
+      await odoo.write(SHIPMENT_MODEL, [shipment.id], {
+        x_state: 'booked',
+        x_awb: result.awb || false,
+        x_pickup_number: result.pickupNumber || false,
+        x_booking_ref: result.bookingRef || false,
+        x_attempts: shipment.attempts + 1,
+        x_last_error: false,
+        x_last_attempt_date: toOdooDate(new Date()),
+      });
+
+      if (result.awb) {
+        await orders.updateOrderShipment(orderId, { awb: result.awb, courier: shipment.courier, service: shipment.serviceType });
+      }
+
+      if (canTransitionOrder(status, 'processing')) {
+        await orders.updateOrderStatus(orderId, 'processing', {
+          note: result.pickupNumber ? `Pickup kurir dipesan (${result.pickupNumber})` : 'Pickup kurir dipesan',
+          source: 'shipping',
+        });
+      }
+    } catch (error) {
+      // The pickup stands at KiriminAja; a failed save is reconciled by the fulfilment team
+    }
+  }
+
+  /**
+   * Call KiriminAja, retrying transient failures within this attempt.
+   * The sale.order name is sent as the KiriminAja order_id, so a pickup can
+   * always be matched back to its order from the KiriminAja dashboard.
+   */
+  private async requestWithRetry(shipment: ShipmentRecord): Promise<BookingResult> {
+    let lastError: any;
+    let delay = config.NETWORK.RETRY_DELAY_MS;
+
+    for (let attempt = 0; attempt < config.NETWORK.RETRY_ATTEMPTS; attempt++) {
+      try {
+        return shipment.group === 'instant'
+          ? await this.requestInstant(shipment)
+          : await this.requestRegular(shipment);
+      } catch (error) {
+        lastError = error;
+        if (attempt < config.NETWORK.RETRY_ATTEMPTS - 1) {
+          await sleep(delay);
+          delay *= config.NETWORK.RETRY_MULTIPLIER;
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
+  private async requestRegular(shipment: ShipmentRecord): Promise<BookingResult> {
+    const { destination } = shipment;
+    if (!destination.districtId) {
+      throw new Error('Kecamatan tujuan belum diisi');
+    }
+
+    const schedules = await kiriminAja.getPickupSchedules();
+    const schedule = schedules.find(slot => !slot.expired && !slot.libur);
+    if (!schedule) {
+      throw new Error('Jadwal pickup tidak tersedia');
+    }
+
+    const origin = config.ORIGIN;
+    const response = await kiriminAja.requestPickup({
+      name: origin.NAME,
+      phone: origin.PHONE,
+      address: origin.ADDRESS,
+      kecamatan_id: origin.DISTRICT_ID,
+      zipcode: origin.POSTAL_CODE,
+      latitude: origin.LATITUDE,
+      longitude: origin.LONGITUDE,
+      schedule: schedule.clock,
+      packages: [{
+        order_id: shipment.orderName,
+        destination_name: destination.name,
+        destination_phone: destination.phone,
+        destination_address: destination.address,
+        destination_kecamatan_id: destination.districtId,
+        destination_kelurahan_id: destination.subdistrictId,
+        destination_zipcode: destination.postalCode,
+        weight: shipment.weight,
+        length: shipment.dimensions?.length,
+        width: shipment.dimensions?.width,
+        height: shipment.dimensions?.height,
+        item_value: shipment.itemValue,
+        shipping_cost: shipment.shippingCost,
+        service: shipment.courier,
+        service_type: shipment.serviceType,
+        item_name: shipment.itemName,
+        package_type_id: 1,
+        cod: shipment.cod ? shipment.itemValue + shipment.shippingCost : 0, // Collected by the courier
+        note: destination.note,
+      }],
+    });
+
+    const result = response.results?.find(item => item.order_id === shipment.orderName) || response.results?.[0];
+
+    return {
+      awb: result?.awb || undefined,
+      pickupNumber: response.details?.pickup_number,
+      bookingRef: result?.kj_order_id || response.details?.kj_order_id,
+    };
+  }
+
+  private async requestInstant(shipment: ShipmentRecord): Promise<BookingResult> {
+    const { destination } = shipment;
+    if (destination.latitude === undefined || destination.longitude === undefined) {
+      throw new Error('Titik lokasi tujuan belum diisi');
+    }
+
+    const origin = config.ORIGIN;
+    const response = await kiriminAja.requestInstantPickup({
+      service: shipment.courier,
+      service_type: shipment.serviceType,
+      vehicle: 'motor',
+      order_prefix: shipment.orderName,
+      packages: [{
+        origin_name: origin.NAME,
+        origin_phone: origin.PHONE,
+        origin_lat: origin.LATITUDE,
+        origin_long: origin.LONGITUDE,
+        origin_address: origin.ADDRESS,
+        destination_name: destination.name,
+        destination_phone: destination.phone,
+        destination_lat: destination.latitude,
+        destination_long: destination.longitude,
+        destination_address: destination.address,
+        destination_address_note: destination.note,
+        shipping_price: shipment.shippingCost,
+        item: {
+          name: shipment.itemName,
+          price: shipment.itemValue,
+          weight: shipment.weight,
+        },
+      }],
+    });
+
+    const result = response.result?.packages?.[0];
+
+    return {
+      awb: result?.awb || undefined,
+      bookingRef: result?.order_id,
+    };
+  }
+}
+
+export const shipments = new ShipmentService();
@@ -0,0 +1,337 @@
+/**
+ * PawSmart balance ledger (x_pawsmart_wallet_entry). Only the proxy writes
+ * entries; the app reads them through records/*.
+ * - 'topup': pending until its gateway payment is paid, cancelled when it
+ *   lapses or was paid short (the payment is then held for a refund)
+ * - 'payment': a pending hold while the rest of the order is paid through a
+ *   gateway, posted when the order is paid, cancelled when it is not
+ * - 'refund': balance given back for a returned or cancelled order
+ *
+ * Checks that a write depends on (available balance, an entry still pending,
+ * a refund not yet given) run under a lock with the write itself.
+ */
+
+import { odoo, toOdooDate, relationId } from '../odoo';
+import { ProxyError } from '../errors';
+import { withLock } from '../locks';
+import { PaymentMethod, PaymentOptions, PaymentProvider, UnifiedPaymentResponse } from '../../../src/services/proxy/proxyRoutes';
+import { gateway } from './gateway';
+
+export const WALLET_ENTRY_MODEL = 'x_pawsmart_wallet_entry';
+
+// Stored as the order's payment provider and method when the wallet covers the whole order
+export const WALLET_PAYMENT_PROVIDER = 'WALLET';
+
+export const WALLET_TOPUP_LIMITS = {
+  MIN: 10000,
+  MAX: 10000000,
+};
+
+type EntryType = 'topup' | 'payment' | 'refund';
+type EntryState = 'pending' | 'posted' | 'cancelled';
+
+const formatRupiah = (amount: number) => `Rp${Math.round(amount).toLocaleString('id-ID')}`;
+
+export const topUpReference = (entryId: number) => `TOPUP-${entryId}`;
+
+export interface TopUpRecord {
+  id: number;
+  partnerId: number;
+  amount: number;
+  state: EntryState;
+  paymentId?: string;
+  paymentMethod?: PaymentMethod;
+  provider?: PaymentProvider;
+  createdAt: string; // Odoo datetime
+}
+
+const TOPUP_FIELDS = ['x_partner_id', 'x_amount', 'x_state', 'x_payment_id', 'x_payment_method', 'x_payment_provider', 'create_date'];
+
+const toTopUp = (entry: any): TopUpRecord => ({
+  id: entry.id,
+  partnerId: relationId(entry.x_partner_id)!,
+  amount: entry.x_amount || 0,
+  state: entry.x_state,
+  paymentId: entry.x_payment_id || undefined,
+  paymentMethod: entry.x_payment_method || undefined,
+  provider: entry.x_payment_provider || undefined,
+  createdAt: entry.create_date,
+});
+
+class WalletService {
+  /**
+   * Posted balance, pending holds and what is left to spend
+   */
+  async getBalance(partnerId: number): Promise<{ balance: number; held: number; available: number }> {
+    const records = await odoo.searchRead(WALLET_ENTRY_MODEL, [
+      ['x_partner_id', '=', partnerId],
+      '|',
+      ['x_state', '=', 'posted'],
+      '&',
+      ['x_state', '=', 'pending'],
+      ['x_type', '=', 'payment'],
+    ], ['x_type', 'x_state', 'x_amount']);
+
+    let balance = 0;
+    let held = 0;
+    records.forEach(record => {
+      const amount = record.x_amount || 0;
+      if (record.x_state === 'pending') {
+        held += amount;
+      } else {
+        balance += record.x_type === 'payment' ? -amount : amount;
+      }
+    });
+
+    return { balance, held, available: Math.max(0, balance - held) };
+  }
+
+  /**
+   * Start a top-up and its gateway payment
+   */
+  async createTopUp(partnerId: number, request: {
+    amount: number;
+    paymentMethod: PaymentMethod;
+    customerName: string;
+    customerEmail?: string;
+    customerPhone?: string;
+    paymentOptions?: PaymentOptions;
+  }): Promise<{ entryId: number; payment: UnifiedPaymentResponse }> {
+    if (!(request.amount >= WALLET_TOPUP_LIMITS.MIN && request.amount <= WALLET_TOPUP_LIMITS.MAX)) {
+      throw new ProxyError(
+        'INVALID_AMOUNT',
+        `Jumlah isi saldo harus antara ${formatRupiah(WALLET_TOPUP_LIMITS.MIN)} dan ${formatRupiah(WALLET_TOPUP_LIMITS.MAX)}.`
+      );
+    }
+
+    const entryId = await this.createEntry(partnerId, {
+      type: 'topup',
+      state: 'pending',
+      amount: request.amount,
+      description: `Isi saldo ${formatRupiah(request.amount)}`,
+      paymentMethod: request.paymentMethod,
+    });
+
+    try {
+      const payment = await gateway.createPayment({
+        orderId: topUpReference(entryId),
+        amount: request.amount,
+        paymentMethod: request.paymentMethod,
+        customerName: request.customerName,
+        customerEmail: request.customerEmail,
+        customerPhone: request.customerPhone,
+        description: 'Isi Saldo PawSmart',
+      }, undefined, request.paymentOptions);
+
+      await odoo.write(WALLET_ENTRY_MODEL, [entryId], {
+        x_payment_id: payment.paymentId,
+        x_payment_provider: payment.provider,
+      });
+
+      return { entryId, payment };
+    } catch (error) {
+      await odoo.write(WALLET_ENTRY_MODEL, [entryId], { x_state: 'cancelled' });
+      throw error;
+    }
+  }
+
+  /**
+   * Credit a paid top-up exactly once. Returns false when it was already
+   * credited or is no longer pending (e.g. it lapsed).
+   *
+   * amount is what the provider reports as paid and must cover the top-up;
+   * throws UNDERPAID when it does not.
+   */
+  async settleTopUp(entryId: number, payment: { paymentId: string; amount?: number }): Promise<boolean> {
+    return withLock(`topup:${entryId}`, async () => {
+      const [entry] = await odoo.searchRead(WALLET_ENTRY_MODEL, [
+        ['id', '=', entryId],
+        ['x_type', '=', 'topup'],
+        ['x_state', '=', 'pending'],
+      ], ['x_amount'], { limit: 1 });
+      if (!entry) {
+        return false;
+      }
+
+      const due = Math.round(entry.x_amount || 0);
+      if (payment.amount !== undefined && payment.amount < due) {
+        throw new ProxyError('UNDERPAID', `Dibayar ${formatRupiah(payment.amount)}, kurang dari isi saldo ${formatRupiah(due)}`, 409);
+      }
+
+      await odoo.write(WALLET_ENTRY_MODEL, [entryId], {
+        x_state: 'posted',
+        x_payment_id: payment.paymentId,
+        x_posted_at: toOdooDate(new Date()),
+      });
+      return true;
+    });
+  }
+
+  /**
+   * Drop a top-up whose payment expired or failed
+   */
+  async cancelTopUp(entryId: number): Promise<void> {
+    await withLock(`topup:${entryId}`, async () => {
+      const ids = await odoo.search(WALLET_ENTRY_MODEL, [['id', '=', entryId], ['x_type', '=', 'topup'], ['x_state', '=', 'pending']]);
+      if (ids.length > 0) {
+        await odoo.write(WALLET_ENTRY_MODEL, ids, { x_state: 'cancelled' });
+      }
+    });
+  }
+
+  /**
+   * Reserve balance for an order while the rest is paid through a gateway.
+   * Replaces an earlier hold for the same order.
+   */
+  async holdForOrder(partnerId: number, orderId: number, amount: number, orderName: string): Promise<{ entryId: number; amount: number }> {
+    if (!(amount > 0)) {
+      throw new ProxyError('INVALID_AMOUNT', 'Jumlah saldo yang digunakan tidak valid.');
+    }
+
+    // Two holds for the same customer must not both see the same available balance
+    return withLock(`wallet:${partnerId}`, async () => {
+      await this.releaseOrderHolds(orderId);
+
+      const { available } = await this.getBalance(partnerId);
+      if (available < amount) {
+        throw new ProxyError('INSUFFICIENT_BALANCE', 'Saldo PawSmart tidak mencukupi.');
+      }
+
+      const entryId = await this.createEntry(partnerId, {
+        type: 'payment',
+        state: 'pending',
+        amount,
+        orderId,
+        description: `Pembayaran pesanan ${orderName}`,
+      });
+
+      return { entryId, amount };
+    });
+  }
+
+  /**
+   * Turn an order's holds into posted payments once the order is paid
+   */
+  async captureOrderHolds(orderId: number): Promise<void> {
+    const holdIds = await this.getOrderEntryIds(orderId, 'payment', 'pending');
+    if (holdIds.length > 0) {
+      await odoo.write(WALLET_ENTRY_MODEL, holdIds, { x_state: 'posted', x_posted_at: toOdooDate(new Date()) });
+    }
+  }
+
+  /**
+   * Give back the balance held for an order that will not be paid.
+   * Returns how much was released.
+   */
+  async releaseOrderHolds(orderId: number): Promise<number> {
+    const holds = await odoo.searchRead(WALLET_ENTRY_MODEL, [
+      ['x_order_id', '=', orderId],
+      ['x_type', '=', 'payment'],
+      ['x_state', '=', 'pending'],
+    ], ['x_amount']);
+    if (holds.length === 0) {
+      return 0;
+    }
+
+    await odoo.write(WALLET_ENTRY_MODEL, holds.map(hold => hold.id), { x_state: 'cancelled' });
+    return holds.reduce((total, hold) => total + (hold.x_amount || 0), 0);
+  }
+
+  /**
+   * Balance held for or spent on an order
+   */
+  async getOrderWalletAmount(orderId: number, state: 'pending' | 'posted' = 'posted'): Promise<number> {
+    const records = await odoo.searchRead(WALLET_ENTRY_MODEL, [
+      ['x_order_id', '=', orderId],
+      ['x_type', '=', 'payment'],
+      ['x_state', '=', state],
+    ], ['x_amount']);
+    return records.reduce((total, record) => total + (record.x_amount || 0), 0);
+  }
+
+  /**
+   * Credit a refund. The reference keeps a retried refund from being credited twice.
+   */
+  async refundToWallet(partnerId: number, orderId: number, amount: number, reference: string, description: string): Promise<void> {
+    await withLock(`wallet:${partnerId}`, async () => {
+      const existing = await odoo.search(WALLET_ENTRY_MODEL, [['x_reference', '=', reference], ['x_state', '=', 'posted']], { limit: 1 });
+      if (existing.length > 0) {
+        return;
+      }
+
+      await this.createEntry(partnerId, { type: 'refund', state: 'posted', amount, orderId, reference, description });
+    });
+  }
+
+  /**
+   * Top-up paid with a gateway payment, if any
+   */
+  async findTopUpByPayment(paymentId: string): Promise<TopUpRecord | null> {
+    const [entry] = await odoo.searchRead(WALLET_ENTRY_MODEL, [
+      ['x_payment_id', '=', paymentId],
+      ['x_type', '=', 'topup'],
+    ], TOPUP_FIELDS, { limit: 1 });
+    return entry ? toTopUp(entry) : null;
+  }
+
+  /**
+   * Top-up by its payment reference (TOPUP-<entry ID>), for a callback that
+   * arrives before the payment ID was stored
+   */
+  async findTopUpByReference(reference: string): Promise<TopUpRecord | null> {
+    const match = /^TOPUP-(\d+)$/.exec(reference);
+    if (!match) {
+      return null;
+    }
+    const [entry] = await odoo.searchRead(WALLET_ENTRY_MODEL, [
+      ['id', '=', parseInt(match[1], 10)],
+      ['x_type', '=', 'topup'],
+    ], TOPUP_FIELDS, { limit: 1 });
+    return entry ? toTopUp(entry) : null;
+  }
+
+  /**
+   * Every customer's top-ups still waiting on their gateway payment
+   */
+  async findPendingTopUps(): Promise<TopUpRecord[]> {
+    const entries = await odoo.searchRead(WALLET_ENTRY_MODEL, [
+      ['x_type', '=', 'topup'],
+      ['x_state', '=', 'pending'],
+      ['x_payment_id', '!=', false],
+    ], TOPUP_FIELDS, { order: 'id asc' });
+    return entries.map(toTopUp);
+  }
+
+  private async getOrderEntryIds(orderId: number, type: EntryType, state: EntryState): Promise<number[]> {
+    return odoo.search(WALLET_ENTRY_MODEL, [
+      ['x_order_id', '=', orderId],
+      ['x_type', '=', type],
+      ['x_state', '=', state],
+    ]);
+  }
+
+  private createEntry(partnerId: number, values: {
+    type: EntryType;
+    state: EntryState;
+    amount: number;
+    description: string;
+    orderId?: number;
+    reference?: string;
+    paymentMethod?: PaymentMethod;
+  }): Promise<number> {
+    return odoo.create(WALLET_ENTRY_MODEL, {
+      x_name: values.description,
+      x_partner_id: partnerId,
+      x_type: values.type,
+      x_state: values.state,
+      x_amount: values.amount,
+      x_order_id: values.orderId || false,
+      x_reference: values.reference || false,
+      x_payment_method: values.paymentMethod || false,
+      x_description: values.description,
+      x_posted_at: values.state === 'posted' ? toOdooDate(new Date()) : false,
+    });
+  }
+}
+
+export const wallet = new WalletService();
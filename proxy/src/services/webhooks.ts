@@ -0,0 +1,385 @@
+/**
+ * Flip and Xendit payment callbacks (POST /webhooks/flip, /webhooks/xendit):
+ * - the callback token is checked (Xendit x-callback-token header, Flip
+ *   validation token in the form body); unverified requests are rejected
+ * - every verified event is stored as an x_pawsmart_webhook_event record with
+ *   its raw payload. x_name holds provider + event ID and is looked up under
+ *   the event's lock before the record is created, so a provider retry
+ *   cannot create a second record or settle twice
+ * - paid events settle the order through orders.settleOrderPayment, which
+ *   confirms an order at most once, or credit a top-up (TOPUP-<entry ID>)
+ *   through wallet.settleTopUp, which credits it at most once
+ * - a payment for an order or top-up that was already closed (e.g. expired),
+ *   or one short of what it was for, is held for the admin to refund
+ *
+ * Parsing and verification are plain functions so recorded provider payloads
+ * can be replayed against them (see test/webhooks.test.ts).
+ */
+
+import { timingSafeEqual } from 'node:crypto';
+import { config } from '../config';
+import { odoo } from '../odoo';
+import { ProxyError } from '../errors';
+import { withLock } from '../locks';
+import { PaymentMethod, PaymentProvider } from '../../../src/services/proxy/proxyRoutes';
+import { orders } from './orders';
+import { refunds } from './refunds';
+import { shipments } from './shipments';
+import { TopUpRecord, wallet } from './wallet';
+
+export const WEBHOOK_EVENT_MODEL = 'x_pawsmart_webhook_event';
+
+type WebhookEventState = 'received' | 'processed' | 'ignored' | 'failed';
+
+export type WebhookOutcome = 'settled' | 'held' | 'duplicate' | 'ignored' | 'rejected' | 'failed';
+
+export interface WebhookRequest {
+  provider: PaymentProvider;
+  headers: Record<string, string | undefined>; // Lower-case names
+  body: string; // Raw request body, exactly as received
+}
+
+export interface WebhookResult {
+  status: number; // HTTP status to answer the provider with
+  outcome: WebhookOutcome;
+  eventId?: string;
+  orderId?: number;
+  message?: string;
+}
+
+export interface PaymentEvent {
+  provider: PaymentProvider;
+  eventId: string;
+  eventType: string;
+  paymentId: string; // ID stored on the order when the payment was created
+  orderReference?: string; // Order ID sent to the provider, when the payload carries it
+  paymentMethod?: PaymentMethod;
+  status: 'PAID' | 'PENDING' | 'EXPIRED' | 'FAILED';
+  amount?: number;
+}
+
+const safeEqual = (a?: string, b?: string): boolean => {
+  const given = Buffer.from(a || '');
+  const expected = Buffer.from(b || '');
+  return given.length > 0 && given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+/**
+ * Read Flip's callback body (`data=<json>&token=<validation token>` as a
+ * form, or the same fields as JSON) into its data and token
+ */
+export const readFlipCallback = (body: string): { data: any; token?: string } | null => {
+  try {
+    const trimmed = body.trim();
+    const fields: Record<string, any> = trimmed.startsWith('{')
+      ? JSON.parse(trimmed)
+      : Object.fromEntries(new URLSearchParams(trimmed));
+    const data = typeof fields.data === 'string' ? JSON.parse(fields.data) : fields.data;
+    return data ? { data, token: fields.token } : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Check Xendit's callback token header
+ */
+export const verifyXenditWebhook = (headers: Record<string, string | undefined>, webhookToken: string): boolean =>
+  safeEqual(headers['x-callback-token'], webhookToken);
+
+/**
+ * Check the validation token Flip sends with each callback
+ */
+export const verifyFlipWebhook = (body: string, validationKey: string): boolean =>
+  safeEqual(readFlipCallback(body)?.token, validationKey);
+
+/**
+ * Turn a Flip accept-payment callback into a payment event
+ */
+export const parseFlipWebhook = (body: string): PaymentEvent | null => {
+  const data = readFlipCallback(body)?.data;
+  if (!data?.id || !data.bill_link_id) {
+    return null;
+  }
+
+  const status = data.status === 'SUCCESSFUL'
+    ? 'PAID'
+    : data.status === 'CANCELLED' || data.status === 'FAILED' ? 'FAILED' : 'PENDING';
+
+  return {
+    provider: 'FLIP',
+    eventId: `${data.id}:${data.status}`,
+    eventType: 'accept_payment',
+    paymentId: data.bill_link_id.toString(), // Flip payments are stored by link ID
+    status,
+    amount: Number(data.amount) || undefined,
+  };
+};
+
+/**
+ * Turn a Xendit callback (VA payment, QR payment or e-wallet charge) into a payment event
+ */
+export const parseXenditWebhook = (body: string, headers: Record<string, string | undefined> = {}): PaymentEvent | null => {
+  let payload: any;
+  try {
+    payload = JSON.parse(body);
+  } catch (error) {
+    return null;
+  }
+
+  const webhookId = headers['webhook-id'];
+
+  // Fixed VA payment callback (only sent once the VA is paid)
+  if (payload.callback_virtual_account_id) {
+    return {
+      provider: 'XENDIT',
+      eventId: webhookId || payload.payment_id || payload.id,
+      eventType: 'virtual_account.paid',
+      paymentId: payload.callback_virtual_account_id,
+      paymentMethod: 'VIRTUAL_ACCOUNT',
+      status: 'PAID',
+      amount: Number(payload.amount) || undefined,
+    };
+  }
+
+  const data = payload.data || {};
+
+  if (payload.event === 'qr.payment') {
+    const qrId = data.qr_id || payload.qr_code?.id;
+    const status = data.status || payload.status;
+    return qrId ? {
+      provider: 'XENDIT',
+      eventId: webhookId || data.id || payload.id,
+      eventType: payload.event,
+      paymentId: qrId,
+      orderReference: data.reference_id || payload.qr_code?.external_id,
+      paymentMethod: 'QRIS',
+      status: status === 'SUCCEEDED' || status === 'COMPLETED' ? 'PAID' : 'FAILED',
+      amount: Number(data.amount ?? payload.amount) || undefined,
+    } : null;
+  }
+
+  if (typeof payload.event === 'string' && payload.event.startsWith('ewallet.') && data.id) {
+    return {
+      provider: 'XENDIT',
+      eventId: webhookId || `${data.id}:${data.status}`,
+      eventType: payload.event,
+      paymentId: data.id,
+      orderReference: data.reference_id,
+      paymentMethod: 'EWALLET',
+      status: data.status === 'SUCCEEDED' ? 'PAID' : data.status === 'FAILED' || data.status === 'VOIDED' ? 'FAILED' : 'PENDING',
+      amount: Number(data.capture_amount ?? data.charge_amount) || undefined,
+    };
+  }
+
+  return null;
+};
+
+class WebhookService {
+  /**
+   * Handle one provider callback and return the answer for the provider.
+   * Non-2xx answers make the provider retry later.
+   */
+  async handle(request: WebhookRequest): Promise<WebhookResult> {
+    const verified = request.provider === 'FLIP'
+      ? verifyFlipWebhook(request.body, config.FLIP.VALIDATION_KEY)
+      : verifyXenditWebhook(request.headers, config.XENDIT.WEBHOOK_TOKEN);
+
+    if (!verified) {
+      return { status: 401, outcome: 'rejected', message: 'Invalid callback token' };
+    }
+
+    const event = request.provider === 'FLIP'
+      ? parseFlipWebhook(request.body)
+      : parseXenditWebhook(request.body, request.headers);
+
+    if (!event?.eventId) {
+      // Acknowledge so the provider stops retrying, but keep the payload
+      await this.createEventRecord(`${request.provider}:unrecognized:${Date.now()}`, request, null, 'ignored');
+      return { status: 200, outcome: 'ignored', message: 'Unrecognized event' };
+    }
+
+    const key = `${event.provider}:${event.eventId}`;
+
+    return withLock(`webhook:${key}`, async () => {
+      const recordId = await this.claimEvent(key, request, event);
+      if (recordId === null) {
+        return { status: 200, outcome: 'duplicate', eventId: event.eventId };
+      }
+
+      try {
+        const result = await this.processEvent(event);
+        await this.updateEventRecord(recordId, {
+          state: result.outcome === 'failed' ? 'failed' : result.outcome === 'settled' || result.outcome === 'held' ? 'processed' : 'ignored',
+          orderId: result.orderId,
+          error: result.outcome === 'failed' ? result.message : undefined,
+        });
+        return { ...result, eventId: event.eventId };
+      } catch (error: any) {
+        await this.updateEventRecord(recordId, { state: 'failed', error: error.message });
+        return { status: 500, outcome: 'failed', eventId: event.eventId, message: error.message };
+      }
+    });
+  }
+
+  private async processEvent(event: PaymentEvent): Promise<Omit<WebhookResult, 'eventId'>> {
+    const orderId = await this.resolveOrderId(event);
+
+    if (!orderId) {
+      const topUp = await wallet.findTopUpByPayment(event.paymentId)
+        || (event.orderReference ? await wallet.findTopUpByReference(event.orderReference) : null);
+      if (topUp) {
+        return this.processTopUpEvent(event, topUp);
+      }
+
+      // The payment ID may not be stored yet; let the provider retry
+      return { status: 503, outcome: 'failed', message: 'Order not found for payment' };
+    }
+
+    const order = await orders.getOrder(orderId);
+    const paymentMethod = (event.paymentMethod || order.paymentMethod || 'EWALLET') as PaymentMethod;
+
+    if (event.status !== 'PAID') {
+      if (order.paymentStatus !== 'PAID' && order.paymentId === event.paymentId) {
+        await orders.updatePaymentStatus(orderId, event.status);
+      }
+      return { status: 200, outcome: 'ignored', orderId, message: `Payment ${event.status.toLowerCase()}` };
+    }
+
+    let settled: boolean;
+    try {
+      settled = await orders.settleOrderPayment(orderId, {
+        paymentId: event.paymentId,
+        paymentMethod,
+        paymentProvider: event.provider,
+        amount: event.amount,
+        note: `Pembayaran diterima melalui ${event.provider === 'FLIP' ? 'Flip' : 'Xendit'}`,
+      });
+    } catch (error) {
+      if (!(error instanceof ProxyError && error.code === 'UNDERPAID')) {
+        throw error;
+      }
+      await refunds.holdUnderpayment(order, {
+        paymentId: event.paymentId,
+        paymentProvider: event.provider,
+        paymentMethod,
+        amount: event.amount!,
+      });
+      return { status: 200, outcome: 'held', orderId, message: error.message };
+    }
+
+    if (settled) {
+      await shipments.bookShipment(orderId);
+      return { status: 200, outcome: 'settled', orderId };
+    }
+
+    // Settled before by this payment, e.g. through a status check
+    const current = await orders.getOrder(orderId);
+    if (current.paymentStatus === 'PAID' && current.paymentId === event.paymentId) {
+      return { status: 200, outcome: 'duplicate', orderId, message: 'Order already settled' };
+    }
+
+    // Money arrived for an order that was closed or paid another way
+    await refunds.holdLatePayment(current, {
+      paymentId: event.paymentId,
+      paymentProvider: event.provider,
+      paymentMethod,
+      amount: event.amount ?? order.amountTotal,
+    });
+    return { status: 200, outcome: 'held', orderId, message: 'Payment held for refund' };
+  }
+
+  private async processTopUpEvent(event: PaymentEvent, topUp: TopUpRecord): Promise<Omit<WebhookResult, 'eventId'>> {
+    const paymentMethod = (event.paymentMethod || topUp.paymentMethod || 'EWALLET') as PaymentMethod;
+    const payment = { paymentId: event.paymentId, paymentProvider: event.provider, paymentMethod, amount: event.amount ?? topUp.amount };
+
+    if (event.status !== 'PAID') {
+      if (topUp.paymentId === event.paymentId) {
+        await wallet.cancelTopUp(topUp.id);
+      }
+      return { status: 200, outcome: 'ignored', message: `Top-up payment ${event.status.toLowerCase()}` };
+    }
+
+    let settled: boolean;
+    try {
+      settled = await wallet.settleTopUp(topUp.id, { paymentId: event.paymentId, amount: event.amount });
+    } catch (error) {
+      if (!(error instanceof ProxyError && error.code === 'UNDERPAID')) {
+        throw error;
+      }
+      await wallet.cancelTopUp(topUp.id);
+      await refunds.holdTopUpPayment(topUp, { ...payment, reason: 'Pembayaran kurang dari jumlah isi saldo' });
+      return { status: 200, outcome: 'held', message: error.message };
+    }
+
+    if (settled) {
+      return { status: 200, outcome: 'settled' };
+    }
+
+    // Credited before by this payment, e.g. through a status check
+    const current = await wallet.findTopUpByPayment(event.paymentId);
+    if (current?.id === topUp.id && current.state === 'posted') {
+      return { status: 200, outcome: 'duplicate', message: 'Top-up already credited' };
+    }
+
+    // Money arrived for a top-up that lapsed
+    await refunds.holdTopUpPayment(topUp, payment);
+    return { status: 200, outcome: 'held', message: 'Payment held for refund' };
+  }
+
+  private async resolveOrderId(event: PaymentEvent): Promise<number | null> {
+    const order = await orders.findOrderByPaymentId(event.paymentId);
+    if (order) {
+      return order.id;
+    }
+
+    // Payment created but its ID not stored yet: trust the reference only if it is an order ID
+    return event.orderReference && /^\d+$/.test(event.orderReference) ? parseInt(event.orderReference, 10) : null;
+  }
+
+  /**
+   * Create the event's record. Returns null when the event was handled
+   * before; an event that failed (or stopped half-way) is handled again.
+   * Callers hold the event's lock, so two deliveries cannot both create one.
+   */
+  private async claimEvent(key: string, request: WebhookRequest, event: PaymentEvent): Promise<number | null> {
+    const [existing] = await odoo.searchRead(WEBHOOK_EVENT_MODEL, [['x_name', '=', key]], ['x_state'], { limit: 1 });
+    if (existing) {
+      return existing.x_state === 'processed' || existing.x_state === 'ignored' ? null : existing.id;
+    }
+    return this.createEventRecord(key, request, event, 'received');
+  }
+
+  private createEventRecord(
+    key: string,
+    request: WebhookRequest,
+    event: PaymentEvent | null,
+    state: WebhookEventState
+  ): Promise<number> {
+    return odoo.create(WEBHOOK_EVENT_MODEL, {
+      x_name: key,
+      x_provider: request.provider,
+      x_event_type: event?.eventType || false,
+      x_payment_id: event?.paymentId || false,
+      x_payload: request.body,
+      x_state: state,
+    });
+  }
+
+  private async updateEventRecord(
+    recordId: number,
+    update: { state: WebhookEventState; orderId?: number; error?: string }
+  ): Promise<void> {
+    try {
+      await odoo.write(WEBHOOK_EVENT_MODEL, [recordId], {
+        x_state: update.state,
+        x_error: update.error || false,
+        ...(update.orderId && { x_order_id: update.orderId }),
+      });
+    } catch (error) {
+      // The provider retries failed events; settlement itself is idempotent
+    }
+  }
+}
+
+export const webhooks = new WebhookService();
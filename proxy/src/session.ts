@@ -0,0 +1,53 @@
+/**
+ * Session tokens handed to the app after login: a base64url JSON payload and
+ * its HMAC-SHA256 signature. Handlers trust the partner in a verified token
+ * and nothing the app sends in the request body.
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { config } from './config';
+import { ProxyError } from './errors';
+
+export interface Session {
+  uid: number; // res.users ID
+  partnerId: number; // res.partner every record is scoped to
+  staff: boolean; // Internal Odoo user (clinic staff)
+  exp: number; // Unix seconds
+}
+
+const sign = (payload: string) =>
+  createHmac('sha256', config.SESSION_SECRET).update(payload).digest('base64url');
+
+/**
+ * Create a token for a signed-in user
+ */
+export const issueToken = (session: Omit<Session, 'exp'>): { token: string; expiresIn: number } => {
+  const payload = Buffer.from(JSON.stringify({
+    ...session,
+    exp: Math.floor(Date.now() / 1000) + config.SESSION_TTL_SECONDS,
+  })).toString('base64url');
+
+  return { token: `${payload}.${sign(payload)}`, expiresIn: config.SESSION_TTL_SECONDS };
+};
+
+/**
+ * Check a token's signature and expiry and return its session
+ */
+export const verifyToken = (token: string | undefined): Session => {
+  const [payload, signature] = (token || '').split('.');
+  if (!payload || !signature) {
+    throw new ProxyError('UNAUTHORIZED', 'Sesi tidak valid. Silakan masuk kembali.');
+  }
+
+  const expected = Buffer.from(sign(payload));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) {
+    throw new ProxyError('UNAUTHORIZED', 'Sesi tidak valid. Silakan masuk kembali.');
+  }
+
+  const session: Session = JSON.parse(Buffer.from(payload, 'base64url').toString());
+  if (!session.partnerId || session.exp < Date.now() / 1000) {
+    throw new ProxyError('UNAUTHORIZED', 'Sesi telah berakhir. Silakan masuk kembali.');
+  }
+  return session;
+};
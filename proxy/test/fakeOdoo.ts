@@ -0,0 +1,120 @@
+/**
+ * In-memory stand-in for the Odoo models the services use, answering the
+ * calls odoo.execute makes (search, search_read, search_count, read, create,
+ * write, unlink). Domains support the leaf operators the services use and
+ * Odoo's prefix '|', '&' and '!'. Other methods (workflow buttons such as
+ * action_confirm) are recorded in `calls` and answer true.
+ */
+
+type OdooRecord = Record<string, any> & { id: number };
+
+const compare = (value: any, operator: string, expected: any): boolean => {
+  switch (operator) {
+    case '=': return value === expected || (expected === false && (value === undefined || value === false));
+    case '!=': return !compare(value, '=', expected);
+    case 'in': return (expected as any[]).includes(value);
+    case 'not in': return !(expected as any[]).includes(value);
+    case '<': return value < expected;
+    case '<=': return value <= expected;
+    case '>': return value > expected;
+    case '>=': return value >= expected;
+    case 'ilike': return String(value || '').toLowerCase().includes(String(expected).toLowerCase());
+    default: throw new Error(`Unsupported operator ${operator}`);
+  }
+};
+
+const fieldValue = (record: OdooRecord, field: string) => {
+  const value = record[field];
+  return Array.isArray(value) && value.length === 2 && typeof value[0] === 'number' ? value[0] : value;
+};
+
+export class FakeOdoo {
+  private models = new Map<string, OdooRecord[]>();
+  private nextId = 1;
+  calls: { model: string; method: string; args: any[] }[] = [];
+
+  seed(model: string, values: Record<string, any>): number {
+    const id = this.nextId++;
+    this.records(model).push({ ...values, id });
+    return id;
+  }
+
+  records(model: string): OdooRecord[] {
+    if (!this.models.has(model)) {
+      this.models.set(model, []);
+    }
+    return this.models.get(model)!;
+  }
+
+  find(model: string, domain: any[]): OdooRecord[] {
+    return this.records(model).filter(record => this.matches(record, [...domain]));
+  }
+
+  execute = async (model: string, method: string, args: any[] = [], kwargs: any = {}): Promise<any> => {
+    this.calls.push({ model, method, args });
+
+    switch (method) {
+      case 'search':
+        return this.select(model, args[0], kwargs).map(record => record.id);
+      case 'search_read':
+        return this.select(model, kwargs.domain, kwargs).map(record => this.pick(record, kwargs.fields));
+      case 'search_count':
+        return this.find(model, args[0]).length;
+      case 'read':
+        return this.records(model).filter(record => args[0].includes(record.id)).map(record => this.pick(record, kwargs.fields));
+      case 'create':
+        return this.seed(model, args[0]);
+      case 'write':
+        for (const record of this.records(model).filter(record => args[0].includes(record.id))) {
+          Object.assign(record, args[1]);
+        }
+        return true;
+      case 'unlink':
+        this.models.set(model, this.records(model).filter(record => !args[0].includes(record.id)));
+        return true;
+      default:
+        return true;
+    }
+  };
+
+  private select(model: string, domain: any[] = [], options: { limit?: number; order?: string }): OdooRecord[] {
+    const found = this.find(model, domain).sort((a, b) => a.id - b.id);
+    if (options.order?.endsWith('desc')) {
+      found.reverse();
+    }
+    return options.limit ? found.slice(0, options.limit) : found;
+  }
+
+  private pick(record: OdooRecord, fields?: string[]): OdooRecord {
+    if (!fields) {
+      return { ...record };
+    }
+    return Object.fromEntries([['id', record.id], ...fields.map(field => [field, record[field] ?? false])]) as OdooRecord;
+  }
+
+  // Consumes the domain from the front, Polish notation as Odoo reads it
+  private matches(record: OdooRecord, domain: any[]): boolean {
+    const results: boolean[] = [];
+    const evaluate = (): boolean => {
+      const term = domain.shift();
+      if (term === '|') {
+        const left = evaluate();
+        return evaluate() || left;
+      }
+      if (term === '&') {
+        const left = evaluate();
+        return evaluate() && left;
+      }
+      if (term === '!') {
+        return !evaluate();
+      }
+      const [field, operator, expected] = term;
+      return compare(fieldValue(record, field), operator, expected);
+    };
+
+    while (domain.length > 0) {
+      results.push(evaluate());
+    }
+    return results.every(Boolean);
+  }
+}
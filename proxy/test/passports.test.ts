@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { odoo, toOdooDate } from '../src/odoo';
+import { passports, PASSPORT_MODEL } from '../src/services/passports';
+import { PASSPORT_MAX_LINK_DAYS } from '../../src/services/proxy/proxyRoutes';
+import { FakeOdoo } from './fakeOdoo';
+
+describe('PassportService', () => {
+  const OWNER_ID = 7;
+
+  let fake: FakeOdoo;
+  let petId: number;
+
+  const tokenOf = (url: string) => url.split('/passport/')[1];
+  const link = () => fake.records(PASSPORT_MODEL)[0];
+
+  beforeEach(() => {
+    fake = new FakeOdoo();
+    mock.method(odoo, 'execute', fake.execute);
+
+    petId = fake.seed('x_pawsmart_pet', {
+      x_name: 'Mochi <script>',
+      x_type: 'cat',
+      x_microchip_id: '985112004871623',
+      x_medical_history: 'Allergies: Ayam\nSteril 2023',
+      x_vaccinations: JSON.stringify([{ name: 'Rabies', date: '2025-03-01' }]),
+      x_owner_id: [OWNER_ID, 'Rina Wulandari'],
+    });
+    fake.seed('medical.record', { pet_id: [petId, 'Mochi'], date: '2025-04-02 03:00:00', diagnosis: 'Otitis', doctor_id: [3, 'drh. Sari'] });
+  });
+
+  afterEach(() => mock.restoreAll());
+
+  test('renders the page from the pet records while the link is active', async () => {
+    const { url } = await passports.createLink(OWNER_ID, petId);
+
+    const html = await passports.renderPage(tokenOf(url));
+
+    assert.ok(html);
+    assert.match(html, /985112004871623/);
+    assert.match(html, /Ayam/);
+    assert.match(html, /Rabies/);
+    assert.match(html, /Otitis/);
+    assert.match(html, /Mochi &lt;script&gt;/);
+  });
+
+  test('stores only the pet and the lifetime, capped at the maximum', async () => {
+    const { expiresAt } = await passports.createLink(OWNER_ID, petId, 365);
+
+    const days = (new Date(expiresAt).getTime() - Date.now()) / (24 * 60 * 60 * 1000);
+    assert.ok(days <= PASSPORT_MAX_LINK_DAYS && days > PASSPORT_MAX_LINK_DAYS - 1);
+    assert.equal(link().x_pet_id, petId);
+    assert.equal(link().x_content, undefined);
+  });
+
+  test('refuses a pet of another customer', async () => {
+    await assert.rejects(passports.createLink(99, petId), { code: 'NOT_FOUND' });
+    assert.equal(fake.records(PASSPORT_MODEL).length, 0);
+  });
+
+  test('does not render an expired or revoked link', async () => {
+    const { url } = await passports.createLink(OWNER_ID, petId);
+
+    link().x_expires_at = toOdooDate(new Date(Date.now() - 1000));
+    assert.equal(await passports.renderPage(tokenOf(url)), null);
+
+    link().x_expires_at = toOdooDate(new Date(Date.now() + 60 * 60 * 1000));
+    link().x_state = 'revoked';
+    assert.equal(await passports.renderPage(tokenOf(url)), null);
+  });
+
+  test('does not look up malformed tokens', async () => {
+    assert.equal(await passports.renderPage("' or 1=1"), null);
+    assert.equal(fake.calls.length, 0);
+  });
+});
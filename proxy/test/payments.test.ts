@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { odoo, toOdooDate } from '../src/odoo';
+import { APPOINTMENT_MODEL } from '../src/services/appointments';
+import { payments } from '../src/services/payments';
+import { SLOT_HOLD_MINUTES } from '../../src/services/proxy/proxyRoutes';
+import { ORDER_LIFECYCLE_FIELDS } from '../../src/services/order/orderLifecycle';
+import { FakeOdoo } from './fakeOdoo';
+
+describe('PaymentService.releaseUnpaidAppointments', () => {
+  const PARTNER_ID = 7;
+
+  let fake: FakeOdoo;
+
+  const minutesAgo = (minutes: number) => toOdooDate(new Date(Date.now() - minutes * 60 * 1000));
+
+  const book = (bookedMinutesAgo: number) => fake.seed(APPOINTMENT_MODEL, {
+    name: 'APT/0042',
+    doctor_id: [3, 'drh. Sari'],
+    patient_id: [PARTNER_ID, 'Rina Wulandari'],
+    appointment_date: toOdooDate(new Date(Date.now() + 24 * 60 * 60 * 1000)),
+    state: 'draft',
+    create_date: minutesAgo(bookedMinutesAgo),
+  });
+
+  const orderFor = (appointmentId: number, values: Record<string, any> = {}) => fake.seed('sale.order', {
+    name: 'S04822',
+    partner_id: [PARTNER_ID, 'Rina Wulandari'],
+    state: 'draft',
+    amount_total: 350000,
+    [ORDER_LIFECYCLE_FIELDS.STATUS]: 'waiting_payment',
+    [ORDER_LIFECYCLE_FIELDS.APPOINTMENT_ID]: [appointmentId, 'APT/0042'],
+    ...values,
+  });
+
+  const record = (model: string, id: number) => fake.find(model, [['id', '=', id]])[0];
+
+  beforeEach(() => {
+    fake = new FakeOdoo();
+    mock.method(odoo, 'execute', fake.execute);
+  });
+
+  afterEach(() => mock.restoreAll());
+
+  test('cancels an appointment and its order when no payment was created within the hold window', async () => {
+    const appointmentId = book(SLOT_HOLD_MINUTES + 1);
+    const orderId = orderFor(appointmentId);
+
+    await payments.releaseUnpaidAppointments();
+
+    assert.equal(record('sale.order', orderId)[ORDER_LIFECYCLE_FIELDS.STATUS], 'cancelled');
+    assert.equal(record('sale.order', orderId)[ORDER_LIFECYCLE_FIELDS.CANCEL_REASON], 'expired');
+    assert.equal(record(APPOINTMENT_MODEL, appointmentId).state, 'cancelled');
+  });
+
+  test('cancels an appointment booked without an order', async () => {
+    const appointmentId = book(SLOT_HOLD_MINUTES + 1);
+
+    await payments.releaseUnpaidAppointments();
+
+    assert.equal(record(APPOINTMENT_MODEL, appointmentId).state, 'cancelled');
+  });
+
+  test('keeps appointments still in the hold window or with a payment', async () => {
+    const recentId = book(SLOT_HOLD_MINUTES - 1);
+    const paidForId = book(SLOT_HOLD_MINUTES + 1);
+    const orderId = orderFor(paidForId, {
+      [ORDER_LIFECYCLE_FIELDS.PAYMENT_ID]: '103947',
+      [ORDER_LIFECYCLE_FIELDS.PAYMENT_STATUS]: 'PENDING',
+    });
+
+    await payments.releaseUnpaidAppointments();
+
+    assert.equal(record(APPOINTMENT_MODEL, recentId).state, 'draft');
+    assert.equal(record(APPOINTMENT_MODEL, paidForId).state, 'draft');
+    assert.equal(record('sale.order', orderId)[ORDER_LIFECYCLE_FIELDS.STATUS], 'waiting_payment');
+  });
+});
@@ -0,0 +1,271 @@
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { config } from '../src/config';
+import { odoo } from '../src/odoo';
+import { RETURN_MODEL } from '../src/services/refunds';
+import { WALLET_ENTRY_MODEL } from '../src/services/wallet';
+import {
+  parseFlipWebhook,
+  parseXenditWebhook,
+  readFlipCallback,
+  verifyFlipWebhook,
+  verifyXenditWebhook,
+  webhooks,
+  WEBHOOK_EVENT_MODEL,
+} from '../src/services/webhooks';
+import { ORDER_LIFECYCLE_FIELDS, ORDER_LIFECYCLE_MODELS } from '../../src/services/order/orderLifecycle';
+import { FakeOdoo } from './fakeOdoo';
+
+// Compiled to dist/proxy/test; the fixtures stay in test/fixtures
+const fixture = (name: string) => readFileSync(join(__dirname, '../../../test/fixtures', name), 'utf8');
+
+const FLIP_VALIDATION_KEY = '$2y$13$test_flip_validation_key';
+
+test('Flip successful payment settles the bill by link ID', () => {
+  const event = parseFlipWebhook(fixture('flip-accept-payment-successful.txt'));
+
+  assert.deepEqual(event, {
+    provider: 'FLIP',
+    eventId: 'FT1736914353:SUCCESSFUL',
+    eventType: 'accept_payment',
+    paymentId: '103947',
+    status: 'PAID',
+    amount: 185000,
+  });
+});
+
+test('Flip cancelled payment is a failed event', () => {
+  const event = parseFlipWebhook(fixture('flip-accept-payment-cancelled.txt'));
+
+  assert.equal(event?.status, 'FAILED');
+  assert.equal(event?.paymentId, '103948');
+  assert.equal(event?.eventId, 'FT1736914999:CANCELLED');
+});
+
+test('Flip callbacks are verified with the validation token in the body', () => {
+  const body = fixture('flip-accept-payment-successful.txt');
+
+  assert.equal(verifyFlipWebhook(body, FLIP_VALIDATION_KEY), true);
+  assert.equal(verifyFlipWebhook(body, '$2y$13$another_key_entirely_'), false);
+  assert.equal(verifyFlipWebhook(body.replace(/&token=[^&\n]*/, ''), FLIP_VALIDATION_KEY), false);
+});
+
+test('Flip callbacks sent as JSON read the same as the form', () => {
+  const form = readFlipCallback(fixture('flip-accept-payment-successful.txt'));
+  const json = readFlipCallback(JSON.stringify({ data: JSON.stringify(form?.data), token: form?.token }));
+
+  assert.deepEqual(json, form);
+});
+
+test('Xendit VA payment is paid by callback virtual account ID', () => {
+  const event = parseXenditWebhook(fixture('xendit-va-paid.json'));
+
+  assert.deepEqual(event, {
+    provider: 'XENDIT',
+    eventId: '62a1b1a9-4f1f-4e4b-9d0f-61c2f4e7a3b1',
+    eventType: 'virtual_account.paid',
+    paymentId: '6787267cf3a8e4c2d1b0a9f8',
+    paymentMethod: 'VIRTUAL_ACCOUNT',
+    status: 'PAID',
+    amount: 185000,
+  });
+});
+
+test('Xendit QR payment is paid by QR ID and carries the order reference', () => {
+  const event = parseXenditWebhook(fixture('xendit-qr-payment.json'));
+
+  assert.equal(event?.status, 'PAID');
+  assert.equal(event?.paymentId, 'qr_4d5e6f7a-8b9c-4d0e-9f1a-2b3c4d5e6f7a');
+  assert.equal(event?.orderReference, '4821');
+  assert.equal(event?.paymentMethod, 'QRIS');
+  assert.equal(event?.amount, 185000);
+});
+
+test('Xendit e-wallet capture is paid; a failed charge is not', () => {
+  const paid = parseXenditWebhook(fixture('xendit-ewallet-capture.json'));
+  const failed = parseXenditWebhook(fixture('xendit-ewallet-failed.json'));
+
+  assert.equal(paid?.status, 'PAID');
+  assert.equal(paid?.paymentId, 'ewc_3b4c5d6e-7f8a-4b9c-8d0e-1f2a3b4c5d6e');
+  assert.equal(paid?.amount, 92000);
+  assert.equal(failed?.status, 'FAILED');
+  assert.notEqual(failed?.eventId, paid?.eventId);
+});
+
+test('Xendit webhook-id header is the event ID when present', () => {
+  const event = parseXenditWebhook(fixture('xendit-qr-payment.json'), { 'webhook-id': 'whk_01HM3X9Q' });
+
+  assert.equal(event?.eventId, 'whk_01HM3X9Q');
+});
+
+test('Xendit callbacks are verified with the callback token header', () => {
+  assert.equal(verifyXenditWebhook({ 'x-callback-token': 'xnd_callback_token' }, 'xnd_callback_token'), true);
+  assert.equal(verifyXenditWebhook({ 'x-callback-token': 'xnd_callback_tokem' }, 'xnd_callback_token'), false);
+  assert.equal(verifyXenditWebhook({}, 'xnd_callback_token'), false);
+  assert.equal(verifyXenditWebhook({ 'x-callback-token': '' }, ''), false);
+});
+
+test('Unknown payloads are not payment events', () => {
+  assert.equal(parseXenditWebhook('{"event":"payment_method.activated","data":{"id":"pm_1"}}'), null);
+  assert.equal(parseXenditWebhook('not json'), null);
+  assert.equal(parseFlipWebhook('token=abc'), null);
+});
+
+describe('WebhookService.handle', () => {
+  const XENDIT_TOKEN = 'xnd_callback_token';
+  const vaPaid = fixture('xendit-va-paid.json');
+
+  let fake: FakeOdoo;
+  let orderId: number;
+
+  const deliver = (body = vaPaid, webhookId?: string) => webhooks.handle({
+    provider: 'XENDIT',
+    headers: { 'x-callback-token': XENDIT_TOKEN, ...(webhookId && { 'webhook-id': webhookId }) },
+    body,
+  });
+
+  const order = () => fake.find('sale.order', [['id', '=', orderId]])[0];
+  const paidEvents = () => fake.find(ORDER_LIFECYCLE_MODELS.ORDER_EVENT, [['x_status', '=', 'payment_confirmed']]);
+
+  beforeEach(() => {
+    config.XENDIT.WEBHOOK_TOKEN = XENDIT_TOKEN;
+    fake = new FakeOdoo();
+    mock.method(odoo, 'execute', fake.execute);
+
+    // Waiting on the VA the fixture pays
+    orderId = fake.seed('sale.order', {
+      name: 'S04821',
+      partner_id: [7, 'Rina Wulandari'],
+      state: 'sent',
+      amount_total: 185000,
+      [ORDER_LIFECYCLE_FIELDS.STATUS]: 'waiting_payment',
+      [ORDER_LIFECYCLE_FIELDS.PAYMENT_ID]: '6787267cf3a8e4c2d1b0a9f8',
+      [ORDER_LIFECYCLE_FIELDS.PAYMENT_METHOD]: 'VIRTUAL_ACCOUNT',
+      [ORDER_LIFECYCLE_FIELDS.PAYMENT_PROVIDER]: 'XENDIT',
+      [ORDER_LIFECYCLE_FIELDS.PAYMENT_STATUS]: 'PENDING',
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  test('a paid callback settles the order', async () => {
+    const result = await deliver();
+
+    assert.equal(result.status, 200);
+    assert.equal(result.outcome, 'settled');
+    assert.equal(order()[ORDER_LIFECYCLE_FIELDS.STATUS], 'payment_confirmed');
+    assert.equal(order()[ORDER_LIFECYCLE_FIELDS.PAYMENT_STATUS], 'PAID');
+    assert.equal(fake.find(WEBHOOK_EVENT_MODEL, [])[0].x_state, 'processed');
+  });
+
+  test('a redelivered callback is acknowledged once and recorded once', async () => {
+    const first = await deliver();
+    const second = await deliver();
+
+    assert.equal(first.outcome, 'settled');
+    assert.equal(second.outcome, 'duplicate');
+    assert.equal(second.status, 200);
+    assert.equal(fake.find(WEBHOOK_EVENT_MODEL, []).length, 1);
+    assert.equal(paidEvents().length, 1);
+  });
+
+  test('two events for the same payment settle the order once', async () => {
+    const results = await Promise.all([deliver(vaPaid, 'whk_01'), deliver(vaPaid, 'whk_02')]);
+
+    assert.deepEqual(results.map(result => result.outcome).sort(), ['duplicate', 'settled']);
+    assert.equal(fake.find(WEBHOOK_EVENT_MODEL, []).length, 2);
+    assert.equal(paidEvents().length, 1);
+    assert.equal(fake.find(RETURN_MODEL, []).length, 0);
+  });
+
+  test('a payment for an expired order is held for refund', async () => {
+    Object.assign(order(), {
+      state: 'cancel',
+      [ORDER_LIFECYCLE_FIELDS.STATUS]: 'cancelled',
+      [ORDER_LIFECYCLE_FIELDS.CANCEL_REASON]: 'expired',
+      [ORDER_LIFECYCLE_FIELDS.PAYMENT_STATUS]: 'EXPIRED',
+    });
+
+    const result = await deliver();
+    const [held] = fake.find(RETURN_MODEL, []);
+
+    assert.equal(result.status, 200);
+    assert.equal(result.outcome, 'held');
+    assert.equal(order()[ORDER_LIFECYCLE_FIELDS.STATUS], 'cancelled');
+    assert.equal(held.x_type, 'late_payment');
+    assert.equal(held.x_payment_id, '6787267cf3a8e4c2d1b0a9f8');
+    assert.equal(held.x_amount, 185000);
+    assert.equal(paidEvents().length, 0);
+  });
+
+  test('a payment short of the order total is held and the order stays open', async () => {
+    const result = await deliver(JSON.stringify({ ...JSON.parse(vaPaid), amount: 150000 }));
+    const [held] = fake.find(RETURN_MODEL, []);
+
+    assert.equal(result.status, 200);
+    assert.equal(result.outcome, 'held');
+    assert.equal(order()[ORDER_LIFECYCLE_FIELDS.STATUS], 'waiting_payment');
+    assert.equal(order()[ORDER_LIFECYCLE_FIELDS.PAYMENT_STATUS], 'FAILED');
+    assert.equal(held.x_type, 'late_payment');
+    assert.equal(held.x_amount, 150000);
+    assert.equal(paidEvents().length, 0);
+  });
+
+  test('a paid top-up is credited once', async () => {
+    Object.assign(order(), { [ORDER_LIFECYCLE_FIELDS.PAYMENT_ID]: 'va_paid_for_something_else' });
+    const entryId = fake.seed(WALLET_ENTRY_MODEL, {
+      x_partner_id: [7, 'Rina Wulandari'],
+      x_type: 'topup',
+      x_state: 'pending',
+      x_amount: 185000,
+      x_payment_id: '6787267cf3a8e4c2d1b0a9f8',
+      x_payment_method: 'VIRTUAL_ACCOUNT',
+      x_payment_provider: 'XENDIT',
+    });
+
+    const first = await deliver(vaPaid, 'whk_01');
+    const second = await deliver(vaPaid, 'whk_02');
+    const [entry] = fake.find(WALLET_ENTRY_MODEL, [['id', '=', entryId]]);
+
+    assert.equal(first.outcome, 'settled');
+    assert.equal(second.outcome, 'duplicate');
+    assert.equal(entry.x_state, 'posted');
+    assert.equal(order()[ORDER_LIFECYCLE_FIELDS.STATUS], 'waiting_payment');
+  });
+
+  test('a top-up paid short is held for refund and not credited', async () => {
+    Object.assign(order(), { [ORDER_LIFECYCLE_FIELDS.PAYMENT_ID]: 'va_paid_for_something_else' });
+    const entryId = fake.seed(WALLET_ENTRY_MODEL, {
+      x_partner_id: [7, 'Rina Wulandari'],
+      x_type: 'topup',
+      x_state: 'pending',
+      x_amount: 200000,
+      x_payment_id: '6787267cf3a8e4c2d1b0a9f8',
+      x_payment_method: 'VIRTUAL_ACCOUNT',
+      x_payment_provider: 'XENDIT',
+    });
+
+    const result = await deliver();
+    const [entry] = fake.find(WALLET_ENTRY_MODEL, [['id', '=', entryId]]);
+    const [held] = fake.find(RETURN_MODEL, []);
+
+    assert.equal(result.outcome, 'held');
+    assert.equal(entry.x_state, 'cancelled');
+    assert.equal(held.x_type, 'late_payment');
+    assert.equal(held.x_order_id, false);
+    assert.equal(held.x_partner_id, 7);
+    assert.equal(held.x_amount, 185000);
+  });
+
+  test('a callback without the right token is rejected and not recorded', async () => {
+    const result = await webhooks.handle({ provider: 'XENDIT', headers: { 'x-callback-token': 'wrong' }, body: vaPaid });
+
+    assert.equal(result.status, 401);
+    assert.equal(result.outcome, 'rejected');
+    assert.equal(fake.find(WEBHOOK_EVENT_MODEL, []).length, 0);
+  });
+});
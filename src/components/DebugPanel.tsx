@@ -1,7 +1,7 @@
 import React, { useState } from 'react';
 import { View, Text, TouchableOpacity, Alert, StyleSheet } from 'react-native';
-import fonnteWhatsApp from '../services/whatsapp/fonnteWhatsApp';
 import apiClient from '../services/api/apiClient';
+import proxyClient from '../services/proxy/proxyClient';
 import config from '../config/environment';
 
 const DebugPanel: React.FC = () => {
@@ -28,25 +28,9 @@ const DebugPanel: React.FC = () => {
         results.push(`❌ Odoo Server: ${error.message}`);
       }
 
-      // Test Fonnte API
-      try {
-        const fonnteTest = await fetch('https://api.fonnte.com/send', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': config.WHATSAPP.FONNTE_TOKEN || 'test-token'
-          },
-          body: JSON.stringify({
-            target: '081234567890',
-            message: 'connectivity test',
-            countryCode: '62'
-          }),
-          timeout: 10000,
-        });
-        results.push(`✅ Fonnte API: ${fonnteTest.status} ${fonnteTest.statusText}`);
-      } catch (error) {
-        results.push(`❌ Fonnte API: ${error.message}`);
-      }
+      // Test proxy
+      const proxyHealthy = await proxyClient.health();
+      results.push(`${proxyHealthy ? '✅' : '❌'} Proxy: ${config.PROXY.BASE_URL}`);
 
       Alert.alert(
         'Network Test Results',
@@ -60,48 +44,18 @@ const DebugPanel: React.FC = () => {
     }
   };
 
-  const testWhatsAppOTP = async () => {
+  const testOdooAPI = async () => {
     try {
       setTesting(true);
-      const result = await fonnteWhatsApp.sendOTP('+6281234567890', '123456');
+
+      // Test a simple Odoo API call through the proxy
+      const productCount = await apiClient.odooExecute('product.product', 'search_count', [[['sale_ok', '=', true]]]);
+
       Alert.alert(
-        'WhatsApp Test Result',
-        result ? 'OTP sent successfully!' : 'Failed to send OTP',
+        'Odoo API Test Result',
+        `✅ Odoo reachable through the proxy!\n\nProducts: ${productCount}`,
         [{ text: 'OK' }]
       );
-    } catch (error) {
-      Alert.alert('WhatsApp Test Error', error.message);
-    } finally {
-      setTesting(false);
-    }
-  };
-
-  const testOdooAPI = async () => {
-    try {
-      setTesting(true);
-
-      // Test basic Odoo authentication
-      const authResult = await apiClient.authenticateAdmin();
-
-      if (authResult && authResult.uid) {
-        // Test a simple Odoo API call
-        const testResult = await apiClient.odooExecute('res.users', 'search_read', [[['id', '=', authResult.uid]]], {
-          fields: ['name', 'login'],
-          limit: 1
-        });
-
-        Alert.alert(
-          'Odoo API Test Result',
-          `✅ Authentication successful!\n\nUID: ${authResult.uid}\nDatabase: ${authResult.database}\nUser: ${testResult?.[0]?.name || 'Unknown'}`,
-          [{ text: 'OK' }]
-        );
-      } else {
-        Alert.alert(
-          'Odoo API Test Result',
-          '❌ Authentication failed - no UID returned',
-          [{ text: 'OK' }]
-        );
-      }
     } catch (error) {
       Alert.alert(
         'Odoo API Test Error',
@@ -132,16 +86,6 @@ const DebugPanel: React.FC = () => {
         </Text>
       </TouchableOpacity>
 
-      <TouchableOpacity
-        style={[styles.button, testing && styles.buttonDisabled]}
-        onPress={testWhatsAppOTP}
-        disabled={testing}
-      >
-        <Text style={styles.buttonText}>
-          {testing ? 'Testing...' : 'Test WhatsApp'}
-        </Text>
-      </TouchableOpacity>
-
       <TouchableOpacity
         style={[styles.button, testing && styles.buttonDisabled]}
         onPress={testOdooAPI}
@@ -154,9 +98,8 @@ const DebugPanel: React.FC = () => {
 
       <Text style={styles.info}>
         Debug Mode: {config.DEBUG}
-        {'\n'}Fonnte Token: {config.WHATSAPP.FONNTE_TOKEN ? 'OK' : 'Missing'}
-        {'\n'}Odoo URL: {config.ODOO.URL}
-        {'\n'}Odoo User: {config.ODOO.USERNAME ? 'OK' : 'Missing'}
+        {'\n'}Odoo URL: {config.ODOO.BASE_URL}
+        {'\n'}Proxy URL: {config.PROXY.BASE_URL}
       </Text>
     </View>
   );
@@ -0,0 +1,36 @@
+/**
+ * Shared pieces of the Leaflet pages rendered inside react-native-webview
+ * (address picker, home visit tracking). Pages talk to React Native through
+ * window.ReactNativeWebView.postMessage and listen for JSON messages on both
+ * window and document, since Android delivers them on document.
+ */
+
+export const LEAFLET_HEAD = `
+  <meta name="viewport" content="width=device-width, initial-scale=1.0, maximum-scale=1.0, user-scalable=no" />
+  <link rel="stylesheet" href="https://unpkg.com/leaflet@1.9.4/dist/leaflet.css" />
+  <link href="https://fonts.googleapis.com/icon?family=Material+Icons" rel="stylesheet">
+  <script src="https://unpkg.com/leaflet@1.9.4/dist/leaflet.js"></script>`;
+
+/**
+ * Adds the OpenStreetMap tile layer to the Leaflet map held in mapVar
+ */
+export const leafletTileLayer = (mapVar: string = 'map') => `
+    // Use OpenStreetMap tiles (free, no API key required)
+    L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
+      attribution: '© OpenStreetMap contributors',
+      maxZoom: 19
+    }).addTo(${mapVar});`;
+
+/**
+ * Routes JSON messages from React Native to a page function handler(data)
+ */
+export const leafletMessageListener = (handler: string) => `
+    function onNativeMessage(e) {
+      try {
+        ${handler}(JSON.parse(e.data));
+      } catch (error) {
+        console.error('Error parsing WebView message:', error);
+      }
+    }
+    window.addEventListener('message', onNativeMessage);
+    document.addEventListener('message', onNativeMessage);`;
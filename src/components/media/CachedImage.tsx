@@ -0,0 +1,131 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Image,
+  ActivityIndicator,
+  StyleSheet,
+  ImageStyle,
+  StyleProp,
+  ViewStyle,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { Colors } from '../../constants/colors';
+import mediaUploadService, { MediaSource } from '../../services/media/mediaUploadService';
+
+interface CachedImageProps {
+  source?: MediaSource;
+  fallbackUri?: string; // Local photo not uploaded yet
+  placeholderImage?: any;
+  style?: StyleProp<ImageStyle>;
+  resizeMode?: 'cover' | 'contain' | 'stretch' | 'center';
+}
+
+// Size and shape of the image for the loading and placeholder views
+const toFrameStyle = (style?: StyleProp<ImageStyle>): ViewStyle => {
+  const { resizeMode, tintColor, objectFit, overlayColor, ...frame } = StyleSheet.flatten(style) || {};
+  return frame;
+};
+
+/**
+ * Shows a pet photo or profile photo stored in Odoo through the media cache
+ */
+export default function CachedImage({
+  source,
+  fallbackUri,
+  placeholderImage,
+  style,
+  resizeMode = 'cover',
+}: CachedImageProps) {
+  const [imageUri, setImageUri] = useState<string | null>(
+    () => (source ? mediaUploadService.peekImage(source) : null) || fallbackUri || null
+  );
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState(false);
+
+  const sourceKey = source
+    ? source.type === 'attachment' ? `att_${source.id}` : `avatar_${source.partnerId}`
+    : null;
+
+  useEffect(() => {
+    let isMounted = true;
+    setError(false);
+
+    if (!source) {
+      setImageUri(fallbackUri || null);
+      return;
+    }
+
+    const cachedUri = mediaUploadService.peekImage(source);
+    if (cachedUri) {
+      setImageUri(cachedUri);
+      return;
+    }
+
+    setLoading(true);
+    mediaUploadService.getImage(source)
+      .then(uri => {
+        if (isMounted) {
+          setImageUri(uri || fallbackUri || null);
+        }
+      })
+      .catch(() => {
+        if (isMounted) {
+          setImageUri(fallbackUri || null);
+        }
+      })
+      .finally(() => {
+        if (isMounted) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [sourceKey, fallbackUri]);
+
+  if (loading) {
+    return (
+      <View style={[styles.container, toFrameStyle(style)]}>
+        <ActivityIndicator size="small" color={Colors.primary.main} />
+      </View>
+    );
+  }
+
+  if (error || !imageUri) {
+    if (placeholderImage) {
+      return (
+        <Image
+          source={placeholderImage}
+          style={style}
+          resizeMode={resizeMode}
+        />
+      );
+    }
+
+    return (
+      <View style={[styles.container, styles.placeholder, toFrameStyle(style)]}>
+        <MaterialIcons name="pets" size={32} color={Colors.text.tertiary} />
+      </View>
+    );
+  }
+
+  return (
+    <Image
+      source={{ uri: imageUri }}
+      style={style}
+      resizeMode={resizeMode}
+      onError={() => setError(true)}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  placeholder: {
+    backgroundColor: Colors.background.secondary,
+  },
+});
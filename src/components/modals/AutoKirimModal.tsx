@@ -14,6 +14,7 @@ import DateTimePicker from '@react-native-community/datetimepicker';
 import { Colors } from '../../constants/colors';
 import { Typography } from '../../constants/typography';
 import { Spacing, BorderRadius } from '../../constants/spacing';
+import type { AutoKirimConfig } from '../../services/subscription/autoKirimService';
 
 interface AutoKirimModalProps {
   visible: boolean;
@@ -22,14 +23,6 @@ interface AutoKirimModalProps {
   productName: string;
 }
 
-interface AutoKirimConfig {
-  period: number;
-  unit: 'minggu' | 'bulan';
-  startDate: Date;
-  duration?: number;
-  durationUnit?: 'minggu' | 'bulan';
-}
-
 const periodOptions = [
   { value: 2, unit: 'minggu' as const, label: '2 minggu' },
   { value: 1, unit: 'bulan' as const, label: '1 bulan' },
@@ -17,7 +17,7 @@ import { Spacing, BorderRadius } from '../../constants/spacing';
 export interface PaymentMethod {
   id: string;
   name: string;
-  type: 'QRIS' | 'EWALLET' | 'VIRTUAL_ACCOUNT';
+  type: 'QRIS' | 'EWALLET' | 'VIRTUAL_ACCOUNT' | 'CARDS' | 'COD';
   icon: any;
   iconType?: 'MaterialIcons' | 'Ionicons';
   iconColor?: string;
@@ -30,6 +30,7 @@ interface PaymentMethodModalProps {
   visible: boolean;
   onClose: () => void;
   onSelect: (method: PaymentMethod) => void;
+  codAvailable?: boolean; // The chosen courier collects cash on delivery
 }
 
 const paymentMethods = {
@@ -137,12 +138,33 @@ const paymentMethods = {
     //   bankCode: 'CIMB',
     // },
   ],
+  cards: [
+    {
+      id: 'card',
+      name: 'Kartu Kredit/Debit',
+      type: 'CARDS' as const,
+      icon: 'credit-card',
+      iconType: 'MaterialIcons' as const,
+      iconColor: Colors.primary.main,
+    },
+  ],
+  cod: [
+    {
+      id: 'cod',
+      name: 'Bayar di Tempat (COD)',
+      type: 'COD' as const,
+      icon: 'local-shipping',
+      iconType: 'MaterialIcons' as const,
+      iconColor: Colors.primary.main,
+    },
+  ],
 };
 
 export default function PaymentMethodModal({
   visible,
   onClose,
   onSelect,
+  codAvailable = false,
 }: PaymentMethodModalProps) {
   const handleSelect = (method: PaymentMethod) => {
     onSelect(method);
@@ -156,7 +178,11 @@ export default function PaymentMethodModal({
       onPress={() => handleSelect(method)}
     >
       <View style={styles.paymentLogo}>
-        <Image source={method.icon} style={styles.logoImage} resizeMode="contain" />
+        {method.iconType === 'MaterialIcons' ? (
+          <MaterialIcons name={method.icon} size={32} color={method.iconColor} />
+        ) : (
+          <Image source={method.icon} style={styles.logoImage} resizeMode="contain" />
+        )}
       </View>
       <Text style={styles.paymentName}>{method.name}</Text>
       <MaterialIcons name="chevron-right" size={24} color={Colors.text.tertiary} />
@@ -198,6 +224,20 @@ export default function PaymentMethodModal({
               <Text style={styles.sectionTitle}>Virtual Account</Text>
               {paymentMethods.virtualAccount.map(renderPaymentOption)}
             </View>
+
+            {/* Cards */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Kartu Kredit/Debit</Text>
+              {paymentMethods.cards.map(renderPaymentOption)}
+            </View>
+
+            {/* Cash on delivery */}
+            {codAvailable && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Bayar di Tempat</Text>
+                {paymentMethods.cod.map(renderPaymentOption)}
+              </View>
+            )}
           </ScrollView>
         </View>
       </View>
@@ -0,0 +1,133 @@
+import React, { useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { WebView, WebViewMessageEvent } from 'react-native-webview';
+import { Colors } from '../../constants/colors';
+import { Typography } from '../../constants/typography';
+import { Spacing } from '../../constants/spacing';
+import cardPaymentService from '../../services/payment/cardPaymentService';
+import { CardAuthenticationStatus } from '../../services/payment/xenditPaymentGateway';
+
+interface CardAuthenticationModalProps {
+  visible: boolean;
+  authenticationUrl?: string;
+  onComplete: (status: CardAuthenticationStatus) => void;
+  onCancel: () => void;
+}
+
+// The challenge page reports its result with postMessage to its parent frame;
+// forward it to React Native since the page is not framed here.
+const MESSAGE_BRIDGE = `
+  (function() {
+    var forward = function(data) {
+      window.ReactNativeWebView.postMessage(typeof data === 'string' ? data : JSON.stringify(data));
+    };
+    window.parent.postMessage = forward;
+    window.top.postMessage = forward;
+  })();
+  true;
+`;
+
+export default function CardAuthenticationModal({
+  visible,
+  authenticationUrl,
+  onComplete,
+  onCancel,
+}: CardAuthenticationModalProps) {
+  const [loading, setLoading] = useState(true);
+  const completedRef = useRef(false);
+
+  const handleMessage = (event: WebViewMessageEvent) => {
+    const status = cardPaymentService.parseAuthenticationMessage(event.nativeEvent.data);
+    if (status && !completedRef.current) {
+      completedRef.current = true;
+      onComplete(status);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      onRequestClose={onCancel}
+      onShow={() => {
+        completedRef.current = false;
+        setLoading(true);
+      }}
+    >
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onCancel}>
+            <Ionicons name="close" size={24} color={Colors.text.primary} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Verifikasi Kartu</Text>
+          <View style={{ width: 24 }} />
+        </View>
+
+        {authenticationUrl && (
+          <WebView
+            source={{ uri: authenticationUrl }}
+            style={styles.webView}
+            onMessage={handleMessage}
+            injectedJavaScriptBeforeContentLoaded={MESSAGE_BRIDGE}
+            javaScriptEnabled={true}
+            domStorageEnabled={true}
+            onLoadEnd={() => setLoading(false)}
+          />
+        )}
+
+        {loading && (
+          <View style={styles.loadingOverlay}>
+            <ActivityIndicator size="large" color={Colors.primary.main} />
+            <Text style={styles.loadingText}>Menghubungkan ke bank penerbit...</Text>
+          </View>
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background.primary,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.base,
+    paddingVertical: Spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border.light,
+  },
+  headerTitle: {
+    fontSize: Typography.fontSize.lg,
+    fontFamily: Typography.fontFamily.semibold,
+    color: Colors.text.primary,
+  },
+  webView: {
+    flex: 1,
+  },
+  loadingOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    top: 56,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: Colors.background.primary,
+  },
+  loadingText: {
+    marginTop: Spacing.md,
+    fontSize: Typography.fontSize.sm,
+    fontFamily: Typography.fontFamily.regular,
+    color: Colors.text.secondary,
+  },
+});
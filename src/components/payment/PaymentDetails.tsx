@@ -15,7 +15,6 @@ import { Colors } from '../../constants/colors';
 import { Typography } from '../../constants/typography';
 import { Spacing, BorderRadius } from '../../constants/spacing';
 import paymentGatewayService from '../../services/payment/paymentGatewayService';
-import orderService from '../../services/order/orderService';
 
 interface PaymentDetailsProps {
   paymentType: 'QRIS' | 'EWALLET' | 'VIRTUAL_ACCOUNT';
@@ -89,7 +88,7 @@ export default function PaymentDetails({
       }
       
       setCheckingStatus(true);
-      const status = await paymentGatewayService.getPaymentStatus(paymentData.id, paymentType);
+      const status = await paymentGatewayService.getPaymentStatus(paymentData.id);
       
       if (status.status === 'PAID' || status.status === 'SUCCEEDED' || status.status === 'COMPLETED') {
         handlePaymentSuccess();
@@ -109,14 +108,7 @@ export default function PaymentDetails({
     clearInterval(timerRef.current);
     clearInterval(statusCheckRef.current);
     
-    // Update order status in Odoo
-    if (orderInfo?.orderId) {
-      try {
-        await orderService.updateOrderStatus(orderInfo.orderId, 'payment_confirmed');
-      } catch (error) {
-        }
-    }
-    
+    // The proxy confirmed the order and booked the courier when it saw the payment
     Alert.alert('Pembayaran Berhasil', 'Pembayaran Anda telah dikonfirmasi!');
     onPaymentSuccess();
   };
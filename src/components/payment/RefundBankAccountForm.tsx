@@ -0,0 +1,120 @@
+import React from 'react';
+import { View, Text, StyleSheet, TextInput, TouchableOpacity } from 'react-native';
+import { Colors } from '../../constants/colors';
+import { Typography } from '../../constants/typography';
+import { Spacing, BorderRadius } from '../../constants/spacing';
+import { RefundBankAccount } from '../../services/payment/paymentGatewayService';
+
+// Flip bank codes offered for refunds
+const REFUND_BANKS = [
+  { code: 'bca', name: 'BCA' },
+  { code: 'mandiri', name: 'Mandiri' },
+  { code: 'bni', name: 'BNI' },
+  { code: 'bri', name: 'BRI' },
+  { code: 'bsm', name: 'BSI' },
+  { code: 'cimb', name: 'CIMB Niaga' },
+  { code: 'permata', name: 'Permata' },
+];
+
+export const EMPTY_REFUND_BANK_ACCOUNT: RefundBankAccount = {
+  bankCode: '',
+  accountNumber: '',
+  accountName: '',
+};
+
+export const isRefundBankAccountComplete = (account: RefundBankAccount): boolean =>
+  !!account.bankCode && account.accountNumber.length >= 6 && account.accountName.trim().length > 0;
+
+interface RefundBankAccountFormProps {
+  value: RefundBankAccount;
+  onChange: (value: RefundBankAccount) => void;
+}
+
+export default function RefundBankAccountForm({ value, onChange }: RefundBankAccountFormProps) {
+  return (
+    <View>
+      <Text style={styles.label}>Bank</Text>
+      <View style={styles.bankList}>
+        {REFUND_BANKS.map((bank) => {
+          const selected = value.bankCode === bank.code;
+          return (
+            <TouchableOpacity
+              key={bank.code}
+              style={[styles.bankChip, selected && styles.bankChipSelected]}
+              onPress={() => onChange({ ...value, bankCode: bank.code })}
+            >
+              <Text style={[styles.bankChipText, selected && styles.bankChipTextSelected]}>
+                {bank.name}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <Text style={styles.label}>Nomor Rekening</Text>
+      <TextInput
+        style={styles.input}
+        placeholder="Masukkan nomor rekening"
+        placeholderTextColor={Colors.text.tertiary}
+        keyboardType="number-pad"
+        value={value.accountNumber}
+        onChangeText={(text) => onChange({ ...value, accountNumber: text.replace(/\D/g, '') })}
+        maxLength={20}
+      />
+
+      <Text style={styles.label}>Nama Pemilik Rekening</Text>
+      <TextInput
+        style={styles.input}
+        placeholder="Sesuai buku tabungan"
+        placeholderTextColor={Colors.text.tertiary}
+        autoCapitalize="characters"
+        value={value.accountName}
+        onChangeText={(text) => onChange({ ...value, accountName: text })}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: {
+    fontSize: Typography.fontSize.sm,
+    fontFamily: Typography.fontFamily.medium,
+    color: Colors.text.secondary,
+    marginBottom: Spacing.sm,
+  },
+  bankList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+    marginBottom: Spacing.base,
+  },
+  bankChip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: Colors.border.light,
+    backgroundColor: Colors.background.primary,
+  },
+  bankChipSelected: {
+    borderColor: Colors.primary.main,
+  },
+  bankChipText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.text.secondary,
+  },
+  bankChipTextSelected: {
+    color: Colors.primary.main,
+    fontFamily: Typography.fontFamily.semibold,
+  },
+  input: {
+    backgroundColor: Colors.background.primary,
+    borderWidth: 1,
+    borderColor: Colors.border.light,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.base,
+    fontSize: Typography.fontSize.base,
+    color: Colors.text.primary,
+    marginBottom: Spacing.base,
+  },
+});
@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  Image,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialIcons } from '@expo/vector-icons';
+import { WebView } from 'react-native-webview';
+import { Colors } from '../../constants/colors';
+import { Typography } from '../../constants/typography';
+import { Spacing } from '../../constants/spacing';
+import mediaUploadService from '../../services/media/mediaUploadService';
+import { TimelineAttachment } from '../../services/health/healthTimelineService';
+
+interface AttachmentViewerProps {
+  attachment: TimelineAttachment | null;
+  onClose: () => void;
+}
+
+// Android WebView can't open PDFs, so pages are drawn with pdf.js
+const pdfViewerHtml = (base64: string) => `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+  <script src="https://unpkg.com/pdfjs-dist@3.11.174/build/pdf.min.js"></script>
+  <style>
+    body { margin: 0; background: #F5F5F5; }
+    canvas { display: block; width: 100%; margin-bottom: 8px; background: #FFFFFF; }
+  </style>
+</head>
+<body>
+  <script>
+    pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://unpkg.com/pdfjs-dist@3.11.174/build/pdf.worker.min.js';
+    const raw = atob('${base64}');
+    const data = new Uint8Array(raw.length);
+    for (let i = 0; i < raw.length; i++) data[i] = raw.charCodeAt(i);
+
+    pdfjsLib.getDocument({ data }).promise.then(async (pdf) => {
+      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        const viewport = page.getViewport({ scale: (window.innerWidth / page.getViewport({ scale: 1 }).width) * 2 });
+        const canvas = document.createElement('canvas');
+        canvas.width = viewport.width;
+        canvas.height = viewport.height;
+        document.body.appendChild(canvas);
+        await page.render({ canvasContext: canvas.getContext('2d'), viewport }).promise;
+      }
+    });
+  </script>
+</body>
+</html>`;
+
+/**
+ * Full-screen viewer for medical record files (images and PDFs)
+ */
+export default function AttachmentViewer({ attachment, onClose }: AttachmentViewerProps) {
+  const [content, setContent] = useState<{ mimetype: string; datas: string } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    if (!attachment) {
+      setContent(null);
+      return;
+    }
+
+    let isMounted = true;
+    setLoading(true);
+    setError(false);
+
+    mediaUploadService.getAttachmentContent(attachment.id)
+      .then(result => {
+        if (isMounted) {
+          setContent(result);
+          setError(!result);
+        }
+      })
+      .catch(() => {
+        if (isMounted) {
+          setError(true);
+        }
+      })
+      .finally(() => {
+        if (isMounted) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [attachment?.id]);
+
+  const renderContent = () => {
+    if (loading) {
+      return <ActivityIndicator size="large" color={Colors.primary.main} />;
+    }
+
+    if (error || !content) {
+      return <Text style={styles.message}>Gagal memuat dokumen</Text>;
+    }
+
+    if (content.mimetype.startsWith('image/')) {
+      return (
+        <Image
+          source={{ uri: `data:${content.mimetype};base64,${content.datas}` }}
+          style={styles.image}
+          resizeMode="contain"
+        />
+      );
+    }
+
+    if (content.mimetype === 'application/pdf') {
+      return (
+        <WebView
+          originWhitelist={['*']}
+          source={{ html: pdfViewerHtml(content.datas) }}
+          style={styles.webview}
+        />
+      );
+    }
+
+    return <Text style={styles.message}>Format dokumen ini belum bisa ditampilkan</Text>;
+  };
+
+  return (
+    <Modal visible={!!attachment} animationType="slide" onRequestClose={onClose}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <MaterialIcons name="close" size={24} color={Colors.text.primary} />
+          </TouchableOpacity>
+          <Text style={styles.title} numberOfLines={1}>{attachment?.name}</Text>
+          <View style={styles.closeButton} />
+        </View>
+        <View style={styles.content}>{renderContent()}</View>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background.primary,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.base,
+    paddingVertical: Spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border.light,
+  },
+  closeButton: {
+    width: 40,
+  },
+  title: {
+    flex: 1,
+    fontSize: Typography.fontSize.base,
+    fontFamily: Typography.fontFamily.semibold,
+    color: Colors.text.primary,
+    textAlign: 'center',
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  image: {
+    width: '100%',
+    height: '100%',
+  },
+  webview: {
+    flex: 1,
+    alignSelf: 'stretch',
+  },
+  message: {
+    fontSize: Typography.fontSize.base,
+    color: Colors.text.secondary,
+  },
+});
@@ -0,0 +1,277 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { Colors } from '../../constants/colors';
+import { Typography } from '../../constants/typography';
+import { Spacing, BorderRadius } from '../../constants/spacing';
+import { Pet } from '../../services/petService';
+import healthTimelineService, {
+  PetHealthTimeline,
+  TimelineAttachment,
+  TimelineItemType,
+  TIMELINE_TYPE_LABELS,
+} from '../../services/health/healthTimelineService';
+import WeightChart from './WeightChart';
+import AttachmentViewer from './AttachmentViewer';
+
+interface HealthTimelineProps {
+  pet: Pet;
+}
+
+const TYPE_ICONS: Record<TimelineItemType, keyof typeof MaterialIcons.glyphMap> = {
+  visit: 'local-hospital',
+  prescription: 'medication',
+  vaccination: 'vaccines',
+  grooming: 'content-cut',
+};
+
+const TYPE_COLORS: Record<TimelineItemType, string> = {
+  visit: Colors.primary.main,
+  prescription: Colors.warning.main,
+  vaccination: Colors.success.main,
+  grooming: Colors.info.main,
+};
+
+const FILTERS: Array<TimelineItemType | 'all'> = ['all', 'visit', 'prescription', 'vaccination', 'grooming'];
+
+/**
+ * Vet visits, prescriptions, vaccinations and grooming of a pet in one list,
+ * with its weight charted above
+ */
+export default function HealthTimeline({ pet }: HealthTimelineProps) {
+  const [timeline, setTimeline] = useState<PetHealthTimeline | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<TimelineItemType | 'all'>('all');
+  const [openAttachment, setOpenAttachment] = useState<TimelineAttachment | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+    setLoading(true);
+
+    healthTimelineService.getTimeline(pet)
+      .then(result => {
+        if (isMounted) {
+          setTimeline(result);
+        }
+      })
+      .catch(() => {
+        if (isMounted) {
+          setTimeline({ items: [], weights: [], incomplete: true });
+        }
+      })
+      .finally(() => {
+        if (isMounted) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [pet.id, pet.updatedAt]);
+
+  const items = (timeline?.items || []).filter(item => filter === 'all' || item.type === filter);
+
+  return (
+    <View>
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Berat Badan</Text>
+        {loading ? (
+          <ActivityIndicator size="small" color={Colors.primary.main} />
+        ) : (
+          <WeightChart weights={timeline?.weights || []} />
+        )}
+      </View>
+
+      <Text style={styles.sectionTitle}>Riwayat Kesehatan</Text>
+
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.filterRow}
+      >
+        {FILTERS.map(type => (
+          <TouchableOpacity
+            key={type}
+            style={[styles.filterChip, filter === type && styles.filterChipActive]}
+            onPress={() => setFilter(type)}
+          >
+            <Text style={[styles.filterText, filter === type && styles.filterTextActive]}>
+              {type === 'all' ? 'Semua' : TIMELINE_TYPE_LABELS[type]}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      {timeline?.incomplete && (
+        <Text style={styles.warningText}>Sebagian riwayat gagal dimuat. Coba buka halaman ini lagi nanti.</Text>
+      )}
+
+      <View style={styles.card}>
+        {loading ? (
+          <ActivityIndicator size="small" color={Colors.primary.main} />
+        ) : items.length === 0 ? (
+          <Text style={styles.emptyText}>Belum ada riwayat</Text>
+        ) : (
+          items.map((item, index) => (
+            <View key={item.id} style={styles.item}>
+              <View style={styles.rail}>
+                <View style={[styles.iconCircle, { backgroundColor: TYPE_COLORS[item.type] }]}>
+                  <MaterialIcons name={TYPE_ICONS[item.type]} size={14} color={Colors.text.white} />
+                </View>
+                {index < items.length - 1 && <View style={styles.railLine} />}
+              </View>
+
+              <View style={styles.itemBody}>
+                <Text style={styles.itemDate}>
+                  {new Date(item.date).toLocaleDateString('id-ID', { day: 'numeric', month: 'long', year: 'numeric' })}
+                  {' • '}
+                  {TIMELINE_TYPE_LABELS[item.type]}
+                </Text>
+                <Text style={styles.itemTitle}>{item.title}</Text>
+                {!!item.subtitle && <Text style={styles.itemSubtitle}>{item.subtitle}</Text>}
+                {item.details.map((detail, detailIndex) => (
+                  <Text key={detailIndex} style={styles.itemDetail}>{detail}</Text>
+                ))}
+                {item.attachments.map(attachment => (
+                  <TouchableOpacity
+                    key={attachment.id}
+                    style={styles.attachment}
+                    onPress={() => setOpenAttachment(attachment)}
+                  >
+                    <MaterialIcons
+                      name={attachment.mimetype.startsWith('image/') ? 'image' : 'description'}
+                      size={16}
+                      color={Colors.primary.main}
+                    />
+                    <Text style={styles.attachmentName} numberOfLines={1}>{attachment.name}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          ))
+        )}
+      </View>
+
+      <AttachmentViewer attachment={openAttachment} onClose={() => setOpenAttachment(null)} />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: Colors.background.primary,
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.lg,
+    marginBottom: Spacing.lg,
+  },
+  cardTitle: {
+    fontSize: Typography.fontSize.base,
+    fontFamily: Typography.fontFamily.semibold,
+    color: Colors.text.primary,
+    marginBottom: Spacing.md,
+  },
+  sectionTitle: {
+    fontSize: Typography.fontSize.lg,
+    fontFamily: Typography.fontFamily.semibold,
+    color: Colors.text.primary,
+    marginBottom: Spacing.md,
+  },
+  filterRow: {
+    gap: Spacing.sm,
+    paddingBottom: Spacing.md,
+  },
+  filterChip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: Colors.border.light,
+    backgroundColor: Colors.background.primary,
+  },
+  filterChipActive: {
+    backgroundColor: Colors.primary.main,
+    borderColor: Colors.primary.main,
+  },
+  filterText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.text.secondary,
+  },
+  filterTextActive: {
+    color: Colors.text.white,
+    fontFamily: Typography.fontFamily.medium,
+  },
+  warningText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.warning.main,
+    marginBottom: Spacing.md,
+  },
+  emptyText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.text.secondary,
+    textAlign: 'center',
+  },
+  item: {
+    flexDirection: 'row',
+  },
+  rail: {
+    width: 28,
+    alignItems: 'center',
+  },
+  iconCircle: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  railLine: {
+    flex: 1,
+    width: 2,
+    backgroundColor: Colors.border.light,
+    marginVertical: Spacing.xs,
+  },
+  itemBody: {
+    flex: 1,
+    paddingLeft: Spacing.sm,
+    paddingBottom: Spacing.lg,
+  },
+  itemDate: {
+    fontSize: Typography.fontSize.xs,
+    color: Colors.text.tertiary,
+    marginBottom: 2,
+  },
+  itemTitle: {
+    fontSize: Typography.fontSize.base,
+    fontFamily: Typography.fontFamily.semibold,
+    color: Colors.text.primary,
+  },
+  itemSubtitle: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.text.secondary,
+    marginBottom: Spacing.xs,
+  },
+  itemDetail: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.text.secondary,
+    lineHeight: 20,
+  },
+  attachment: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    marginTop: Spacing.xs,
+  },
+  attachmentName: {
+    flex: 1,
+    fontSize: Typography.fontSize.sm,
+    color: Colors.primary.main,
+  },
+});
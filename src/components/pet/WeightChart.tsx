@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, LayoutChangeEvent } from 'react-native';
+import Svg, { Polyline, Circle, Line, Text as SvgText } from 'react-native-svg';
+import { Colors } from '../../constants/colors';
+import { Typography } from '../../constants/typography';
+import { Spacing } from '../../constants/spacing';
+import { WeightPoint } from '../../services/health/healthTimelineService';
+
+interface WeightChartProps {
+  weights: WeightPoint[]; // oldest first
+  height?: number;
+}
+
+const PADDING = { top: 16, right: 16, bottom: 24, left: 40 };
+
+const formatShortDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('id-ID', { day: 'numeric', month: 'short', year: '2-digit' });
+
+/**
+ * Line chart of a pet's weight over time
+ */
+export default function WeightChart({ weights, height = 160 }: WeightChartProps) {
+  const [width, setWidth] = useState(0);
+
+  const onLayout = (event: LayoutChangeEvent) => setWidth(event.nativeEvent.layout.width);
+
+  if (weights.length === 0) {
+    return (
+      <View style={styles.empty}>
+        <Text style={styles.emptyText}>Belum ada data berat badan</Text>
+      </View>
+    );
+  }
+
+  const values = weights.map(point => point.weight);
+  const times = weights.map(point => new Date(point.date).getTime());
+  // Pad the range so a flat line sits in the middle
+  const minWeight = Math.min(...values) - 0.5;
+  const maxWeight = Math.max(...values) + 0.5;
+  const minTime = Math.min(...times);
+  const timeRange = Math.max(...times) - minTime || 1;
+
+  const plotWidth = width - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+
+  const points = weights.map((point, index) => ({
+    x: PADDING.left + (weights.length === 1 ? plotWidth / 2 : ((times[index] - minTime) / timeRange) * plotWidth),
+    y: PADDING.top + (1 - (point.weight - minWeight) / (maxWeight - minWeight)) * plotHeight,
+  }));
+
+  return (
+    <View onLayout={onLayout} style={{ height }}>
+      {width > 0 && (
+        <Svg width={width} height={height}>
+          {[maxWeight, (maxWeight + minWeight) / 2, minWeight].map((value, index) => {
+            const y = PADDING.top + (index / 2) * plotHeight;
+            return (
+              <React.Fragment key={index}>
+                <Line
+                  x1={PADDING.left}
+                  y1={y}
+                  x2={width - PADDING.right}
+                  y2={y}
+                  stroke={Colors.border.light}
+                  strokeWidth={1}
+                />
+                <SvgText x={PADDING.left - 6} y={y + 4} fontSize={10} fill={Colors.text.tertiary} textAnchor="end">
+                  {value.toFixed(1)}
+                </SvgText>
+              </React.Fragment>
+            );
+          })}
+
+          {points.length > 1 && (
+            <Polyline
+              points={points.map(point => `${point.x},${point.y}`).join(' ')}
+              fill="none"
+              stroke={Colors.primary.main}
+              strokeWidth={2}
+            />
+          )}
+
+          {points.map((point, index) => (
+            <Circle key={index} cx={point.x} cy={point.y} r={4} fill={Colors.primary.main} />
+          ))}
+
+          <SvgText x={PADDING.left} y={height - 6} fontSize={10} fill={Colors.text.tertiary}>
+            {formatShortDate(weights[0].date)}
+          </SvgText>
+          {weights.length > 1 && (
+            <SvgText x={width - PADDING.right} y={height - 6} fontSize={10} fill={Colors.text.tertiary} textAnchor="end">
+              {formatShortDate(weights[weights.length - 1].date)}
+            </SvgText>
+          )}
+        </Svg>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  empty: {
+    paddingVertical: Spacing.lg,
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.text.secondary,
+  },
+});
@@ -12,69 +12,34 @@ export const config = {
         : 'http://103.67.244.254:8069'), // Production fallback
     DATABASE: process.env.EXPO_PUBLIC_ODOO_DATABASE ||
       (isProduction ? 'production' : 'development'),
-    USERNAME: process.env.EXPO_PUBLIC_ODOO_USERNAME || 'zakariali0705@gmail.com',
-    PASSWORD: process.env.EXPO_PUBLIC_ODOO_PASSWORD || 'admin',
-    API_KEY: process.env.EXPO_PUBLIC_ODOO_API_KEY || 'bd598ce6e94176c354da8333ea381b854617175f',
     API_VERSION: process.env.EXPO_PUBLIC_API_VERSION || 'v1',
   },
   
   // Payment Gateway Configuration
+  // Flip and Xendit are called by the proxy (see PROXY); the app only
+  // tokenizes cards with the Xendit public key
   PAYMENT_GATEWAYS: {
-    // Use Flip as primary provider with correct sandbox endpoint
-    PRIMARY_PROVIDER: 'FLIP' as const,
-    FALLBACK_PROVIDER: null, // No fallback
-
-    // Flip Configuration
-    FLIP: {
-      SECRET_KEY: process.env.EXPO_PUBLIC_FLIP_SECRET_KEY ||
-        (__DEV__
-          ? 'JDJ5JDEzJGN0ZEpkeDhSaTdYQVhITEJ5Tzl0dk9GdDlCWkNaQm4zeUdxVHVKenp4UDlvb0VkemxYd3dD'
-          : 'JDJ5JDEzJGN0ZEpkeDhSaTdYQVhITEJ5Tzl0dk9GdDlCWkNaQm4zeUdxVHVKenp4UDlvb0VkemxYd3dD'),
-      VALIDATION_KEY: process.env.EXPO_PUBLIC_FLIP_VALIDATION_KEY ||
-        (__DEV__
-          ? '$2y$13$2dLwn5UGqX8Y4zKCiynWyenSYQMM0MohS3r.YRvTBUVVii4b3gH8m'
-          : '$2y$13$2dLwn5UGqX8Y4zKCiynWyenSYQMM0MohS3r.YRvTBUVVii4b3gH8m'),
-      BASE_URL: 'https://fm-dev-box.flip.id/', // Sandbox endpoint for testing
-      WEBHOOK_URL: process.env.EXPO_PUBLIC_FLIP_WEBHOOK_URL ||
-        (__DEV__
-          ? 'https://webhook.site/#!/c8c8c8c8-1234-5678-90ab-cdef12345678' // Temporary webhook for testing
-          : 'https://your-production-webhook.com/flip'),
-    },
-
-    // Xendit Configuration (Fallback)
     XENDIT: {
-      SECRET_KEY: process.env.EXPO_PUBLIC_XENDIT_SECRET_KEY ||
-        (__DEV__
-          ? 'xnd_development_msfP7kWOSLK5Yq1W765yVEYv33hTaMU7llz1z84PTQLeNOBmb0Xl5550owlh3W'
-          : 'xnd_production_YOUR_PRODUCTION_SECRET_KEY'), // Replace with your production key
       PUBLIC_KEY: process.env.EXPO_PUBLIC_XENDIT_PUBLIC_KEY ||
         (__DEV__
           ? 'xnd_public_development_fKdWUc1tI9wCWkP0u5QIOEL2yycIzd8WzO2S3s7NsvL6djBJZ2iXR6LPzgBeUhkx'
           : 'xnd_public_production_YOUR_PRODUCTION_PUBLIC_KEY'), // Replace with your production key
       BASE_URL: 'https://api.xendit.co',
-      WEBHOOK_URL: process.env.EXPO_PUBLIC_XENDIT_WEBHOOK_URL ||
-        (__DEV__
-          ? 'https://webhook.site/182463e6-a64b-441a-8f69-92416f08145c'
-          : 'https://your-production-webhook.com/xendit'), // Replace with your production webhook
-      WEBHOOK_TOKEN: process.env.EXPO_PUBLIC_XENDIT_WEBHOOK_TOKEN ||
-        (__DEV__
-          ? 'RSIYNgN5N5hEp9etz2k3ukqhNepjL86dIuhqGfPzNT4JoQmX'
-          : 'YOUR_PRODUCTION_WEBHOOK_TOKEN'), // Replace with your production token
     },
   },
 
   // Shipping Service Configuration
+  // KiriminAja is called by the proxy (see PROXY)
   SHIPPING: {
-    KIRIMINAJA: {
-      BASE_URL: process.env.EXPO_PUBLIC_KIRIMINAJA_BASE_URL ||
-        (__DEV__
-          ? 'https://tdev.kiriminaja.com' // Development/Testing endpoint
-          : 'https://api.kiriminaja.com'), // Production endpoint
-      API_TOKEN: process.env.EXPO_PUBLIC_KIRIMINAJA_TOKEN ||
-        (__DEV__
-          ? '68ba0c1ca45329a8ccf59371cad993ba1c4a23d749ca0569e5e4476e18de6cf8' // Development token
-          : 'YOUR_PRODUCTION_TOKEN'), // Replace with production token
-      API_VERSION: 'v6.1',
+    // Warehouse the couriers pick up from
+    ORIGIN: {
+      NAME: 'PawSmart Warehouse',
+      PHONE: '+62 21 1234567',
+      ADDRESS: 'Jl. Warehouse No. 1, Jakarta Pusat',
+      POSTAL_CODE: '10110',
+      DISTRICT_ID: 151, // Jakarta Pusat district ID for KiriminAja
+      LATITUDE: -6.2088,
+      LONGITUDE: 106.8456,
     },
   },
   
@@ -90,25 +55,6 @@ export const config = {
     },
   },
   
-  // WhatsApp Integration Configuration
-  WHATSAPP: {
-    PROVIDER: process.env.EXPO_PUBLIC_WHATSAPP_PROVIDER || 'fonnte',
-    FONNTE_TOKEN: process.env.EXPO_PUBLIC_FONNTE_TOKEN || 'foUxAsfeYPs5CpBoTz6q',
-    // WhatsApp Business API (Meta) - Use commented values from .env when ready
-    META: {
-      ACCESS_TOKEN: __DEV__ ? '' : '', // EAAJMOb01Y10BPQlBxz9pgn8D4r0e6EZBxdrBXTgwkfCnhFaGmLQpi3og50bkiYtQDFHqkjBCNbwzDGUSpNRpmZCZB5ZAqil37DtY0S3C9ZBNsvmjUewv4c62Ju8Cgj2VzqP0zZC3qJffaynFC0dZCajsGrgAgfE7ghr9cUVY6iuxLFxXbgbiBUgzOqZBNN2I67hlo7s7QwT5wXZBGN0qAR7yx3O34
-      PHONE_NUMBER_ID: __DEV__ ? '' : '', // 791724457356264
-      OTP_TEMPLATE_NAME: 'pawnexus_otp_verification', // From commented line in .env
-      TEMPLATE_LANGUAGE: 'id', // Indonesian (can change to 'en' if needed)
-    },
-    // Twilio WhatsApp API
-    TWILIO: {
-      ACCOUNT_SID: __DEV__ ? '' : '',
-      AUTH_TOKEN: __DEV__ ? '' : '',
-      WHATSAPP_NUMBER: 'whatsapp:+14155238886',
-    },
-  },
-  
   // Network Configuration
   NETWORK: {
     TIMEOUT: 30000, // 30 seconds
@@ -126,6 +72,9 @@ export const config = {
     USER_DATA: '@PawSmart:userData',
     ODOO_CREDENTIALS: '@PawSmart:odooCredentials',
     ADMIN_CREDENTIALS: '@PawSmart:adminCredentials',
+    CART_ITEMS: '@PawSmart:cartItems',
+    SHIPMENT_TRACKING: '@PawSmart:shipmentTracking',
+    PENDING_PAYMENTS: '@PawSmart:pendingPayments',
   },
   
   // App Configuration
@@ -142,6 +91,16 @@ export const config = {
       : 'https://api.petnexus.com',     // Production API
   },
   
+  // Backend-for-frontend proxy holding the Odoo admin login and the payment,
+  // shipping and WhatsApp secrets (the proxy/ package). In development run it
+  // locally with `npm start` in proxy/.
+  PROXY: {
+    BASE_URL: process.env.EXPO_PUBLIC_PROXY_URL ||
+      (__DEV__
+        ? 'http://localhost:8787'
+        : 'https://api.petnexus.com/bff'),
+  },
+
   // Debug Configuration - Use EAS build environment variables
   DEBUG: process.env.EXPO_PUBLIC_DEBUG === 'true' || __DEV__,
 
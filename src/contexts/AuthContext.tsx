@@ -2,6 +2,9 @@ import React, { createContext, useState, useContext, useEffect, ReactNode } from
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import authService, { User as AuthUser } from '../services/auth/authService';
 import socialAuthService from '../services/auth/socialAuthService';
+import paymentStatusEngine from '../services/payment/paymentStatusEngine';
+import petService from '../services/petService';
+import healthReminderService from '../services/reminder/healthReminderService';
 import { SocialAuthResponse, SocialProvider } from '../types/socialAuth';
 import config from '../config/environment';
 
@@ -48,6 +51,33 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     checkAuthStatus();
   }, []);
 
+  // Follow pending payments while signed in
+  useEffect(() => {
+    if (!isAuthenticated || !user?.partner_id) {
+      return;
+    }
+
+    paymentStatusEngine.start(user.partner_id);
+    return () => paymentStatusEngine.stop();
+  }, [isAuthenticated, user?.partner_id]);
+
+  // Move pets saved on this device before pets were stored in Odoo, then
+  // schedule their health reminders on this device
+  useEffect(() => {
+    if (!isAuthenticated || !user?.partner_id) {
+      return;
+    }
+
+    petService.migrateLocalPets(user.partner_id)
+      .catch(() => {
+        // Pets left behind are retried on the next login
+      })
+      .then(() => healthReminderService.refresh())
+      .catch(() => {
+        // Reminders are scheduled again when the pet list loads
+      });
+  }, [isAuthenticated, user?.partner_id]);
+
   const checkAuthStatus = async () => {
     try {
       setIsLoading(true);
@@ -90,22 +120,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     try {
       setIsLoading(true);
       
-      // If we have an API key configured, we don't need password
-      // The API key will be used automatically
-      if (config.ODOO.API_KEY) {
-        // API key authentication will be handled by authService
-      }
-      
-      // Use configured username if available and no username provided
-      const finalUsername = username || config.ODOO.USERNAME || '';
-      
-      // Use the auth service to login
-      // The auth service will automatically try API key if available
-      const response = await authService.login({
-        username: finalUsername,
-        password: password || config.ODOO.PASSWORD || '', // Use config password if none provided
-        database: config.ODOO.DATABASE,
-      });
+      const response = await authService.login({ username, password });
 
       // Update state with the user from the response
       setIsAuthenticated(true);
@@ -140,6 +155,12 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       
       // Use the auth service to logout
       await authService.logout();
+
+      // Reminders belong to this account's pets
+      await healthReminderService.clear();
+
+      // Followed payments belong to this account's orders
+      await paymentStatusEngine.clear();
       
       // Clear all stored data
       await AsyncStorage.multiRemove([
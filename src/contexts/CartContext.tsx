@@ -1,4 +1,4 @@
-import React, { createContext, useContext, useReducer, ReactNode, useState } from 'react';
+import React, { createContext, useContext, useReducer, ReactNode, useState, useEffect, useRef } from 'react';
 import {
   Modal,
   View,
@@ -11,6 +11,16 @@ import { Colors } from '../constants/colors';
 import { Typography } from '../constants/typography';
 import { Spacing, BorderRadius } from '../constants/spacing';
 import { goToCart } from '../services/navigationService';
+import cartService from '../services/cart/cartService';
+import { useAuth } from './AuthContext';
+
+// Delay before pushing cart changes to the Odoo draft order, so quick
+// quantity taps are sent as a single write
+const SERVER_SYNC_DELAY = 1500;
+
+// Retries of a server cart that could not be loaded at login, doubling up to the maximum
+const SERVER_LOAD_RETRY_DELAY = 5000;
+const SERVER_LOAD_MAX_RETRY_DELAY = 60000;
 
 export interface CartItem {
   id: string;
@@ -33,13 +43,15 @@ type CartAction =
   | { type: 'ADD_ITEM'; payload: Omit<CartItem, 'quantity'> }
   | { type: 'REMOVE_ITEM'; payload: string }
   | { type: 'UPDATE_QUANTITY'; payload: { id: string; quantity: number; maxQuantity?: number } }
-  | { type: 'CLEAR_CART' };
+  | { type: 'CLEAR_CART' }
+  | { type: 'RESTORE_ITEMS'; payload: CartItem[] };
 
 interface CartContextType extends CartState {
   addItem: (item: Omit<CartItem, 'quantity'>) => boolean; // Returns false if can't add due to stock limit
   removeItem: (id: string) => void;
   updateQuantity: (id: string, quantity: number, maxQuantity?: number) => void;
   clearCart: () => void;
+  replaceItems: (items: CartItem[]) => void; // e.g. after price/stock revalidation
   getItemQuantity: (id: string) => number;
   canAddMore: (id: string, maxQuantity?: number) => boolean;
   showAddModal: boolean;
@@ -133,6 +145,17 @@ const cartReducer = (state: CartState, action: CartAction): CartState => {
       };
     }
     
+    case 'RESTORE_ITEMS': {
+      const totalItems = action.payload.reduce((sum, item) => sum + item.quantity, 0);
+      const totalPrice = action.payload.reduce((sum, item) => sum + (item.price * item.quantity), 0);
+      
+      return {
+        items: action.payload,
+        totalItems,
+        totalPrice,
+      };
+    }
+    
     default:
       return state;
   }
@@ -151,6 +174,119 @@ interface CartProviderProps {
 export function CartProvider({ children }: CartProviderProps) {
   const [state, dispatch] = useReducer(cartReducer, initialState);
   const [showAddModal, setShowAddModal] = useState(false);
+  const [isRestored, setIsRestored] = useState(false);
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const partnerId = user?.partner_id;
+  
+  // Partner the cart belongs to (undefined for a guest cart)
+  const ownerRef = useRef<number | undefined>(undefined);
+  // Partner whose server cart has been merged in this session; changes are
+  // only mirrored to Odoo once this matches the logged-in partner
+  const syncedPartnerRef = useRef<number | undefined>(undefined);
+  // When the customer last changed the cart, used to pick the newer copy at login
+  const changedAtRef = useRef<string>(new Date(0).toISOString());
+  const serverSyncTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const itemsRef = useRef<CartItem[]>(state.items);
+  itemsRef.current = state.items;
+  
+  const markChanged = () => {
+    changedAtRef.current = new Date().toISOString();
+  };
+  
+  // Restore the cart saved on this device
+  useEffect(() => {
+    cartService.loadLocalCart().then(snapshot => {
+      ownerRef.current = snapshot.partnerId;
+      changedAtRef.current = snapshot.updatedAt;
+      dispatch({ type: 'RESTORE_ITEMS', payload: snapshot.items });
+      setIsRestored(true);
+    });
+  }, []);
+  
+  // Merge with the server cart when a customer logs in, drop it on logout
+  useEffect(() => {
+    if (!isRestored || isAuthLoading) return;
+    
+    // A write still waiting for the previous customer must not reach their draft after they left
+    if (serverSyncTimer.current && syncedPartnerRef.current !== partnerId) {
+      clearTimeout(serverSyncTimer.current);
+      serverSyncTimer.current = null;
+    }
+    
+    if (!partnerId) {
+      if (ownerRef.current !== undefined) {
+        ownerRef.current = undefined;
+        syncedPartnerRef.current = undefined;
+        markChanged();
+        dispatch({ type: 'CLEAR_CART' });
+      }
+      return;
+    }
+    
+    if (syncedPartnerRef.current === partnerId) return;
+    
+    let cancelled = false;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    
+    const mergeServerCart = async (retryDelay: number) => {
+      const serverCart = await cartService.loadServerCart(partnerId);
+      if (cancelled) return;
+      
+      const items = cartService.resolveLoginCart(
+        {
+          partnerId: ownerRef.current,
+          items: itemsRef.current,
+          updatedAt: changedAtRef.current,
+        },
+        serverCart,
+        partnerId
+      );
+      
+      // A draft we could not read must not be overwritten by the device cart,
+      // so changes stay on the device until a retry reads it
+      if (serverCart) {
+        ownerRef.current = partnerId;
+        syncedPartnerRef.current = partnerId;
+        markChanged();
+      } else {
+        retryTimer = setTimeout(
+          () => mergeServerCart(Math.min(retryDelay * 2, SERVER_LOAD_MAX_RETRY_DELAY)),
+          retryDelay
+        );
+      }
+      dispatch({ type: 'RESTORE_ITEMS', payload: items });
+    };
+    
+    mergeServerCart(SERVER_LOAD_RETRY_DELAY);
+    
+    return () => {
+      cancelled = true;
+      if (retryTimer) {
+        clearTimeout(retryTimer);
+      }
+    };
+  }, [isRestored, isAuthLoading, partnerId]);
+  
+  // Persist every change locally and mirror it to the Odoo draft order
+  useEffect(() => {
+    if (!isRestored) return;
+    
+    cartService.saveLocalCart(state.items, ownerRef.current, changedAtRef.current);
+    
+    const syncedPartnerId = syncedPartnerRef.current;
+    if (syncedPartnerId && syncedPartnerId === partnerId) {
+      if (serverSyncTimer.current) {
+        clearTimeout(serverSyncTimer.current);
+      }
+      const items = state.items;
+      serverSyncTimer.current = setTimeout(() => {
+        serverSyncTimer.current = null;
+        cartService.saveServerCart(syncedPartnerId, items).catch(() => {
+          // The device copy is kept; the next change retries the sync
+        });
+      }, SERVER_SYNC_DELAY);
+    }
+  }, [state.items, isRestored, partnerId]);
   
   const addItem = (item: Omit<CartItem, 'quantity'>) => {
     const existingItem = state.items.find(i => i.id.toString() === item.id.toString());
@@ -161,6 +297,7 @@ export function CartProvider({ children }: CartProviderProps) {
       return false; // Can't add more
     }
     
+    markChanged();
     dispatch({ type: 'ADD_ITEM', payload: item });
     // Modal notification removed per user request
     // setShowAddModal(true);
@@ -168,17 +305,25 @@ export function CartProvider({ children }: CartProviderProps) {
   };
   
   const removeItem = (id: string) => {
+    markChanged();
     dispatch({ type: 'REMOVE_ITEM', payload: id });
   };
   
   const updateQuantity = (id: string, quantity: number, maxQuantity?: number) => {
+    markChanged();
     dispatch({ type: 'UPDATE_QUANTITY', payload: { id, quantity, maxQuantity } });
   };
   
   const clearCart = () => {
+    markChanged();
     dispatch({ type: 'CLEAR_CART' });
   };
   
+  const replaceItems = (items: CartItem[]) => {
+    markChanged();
+    dispatch({ type: 'RESTORE_ITEMS', payload: items });
+  };
+  
   const getItemQuantity = (id: string) => {
     const item = state.items.find(item => item.id.toString() === id.toString());
     return item ? item.quantity : 0;
@@ -197,6 +342,7 @@ export function CartProvider({ children }: CartProviderProps) {
     removeItem,
     updateQuantity,
     clearCart,
+    replaceItems,
     getItemQuantity,
     canAddMore,
     showAddModal,
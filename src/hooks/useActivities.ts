@@ -1,5 +1,7 @@
-import { useQuery, useInfiniteQuery, useQueryClient } from '@tanstack/react-query';
-import { orderService, Activity } from '../services';
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { orderService, Activity, Order } from '../services';
+import shipmentTrackingService from '../services/shipping/shipmentTrackingService';
+import autoKirimService from '../services/subscription/autoKirimService';
 import { useAuth } from '../contexts/AuthContext';
 
 // Query keys
@@ -16,6 +18,18 @@ export const orderKeys = {
   detail: (id: string | number) => [...orderKeys.details(), id] as const,
 };
 
+export const trackingKeys = {
+  all: ['shipment-tracking'] as const,
+  detail: (orderId: string | number) => [...trackingKeys.all, orderId] as const,
+};
+
+export const subscriptionKeys = {
+  all: ['autokirim-subscriptions'] as const,
+  list: (partnerId?: number) => [...subscriptionKeys.all, partnerId] as const,
+};
+
+export type SubscriptionAction = 'pause' | 'resume' | 'skip' | 'cancel';
+
 /**
  * Hook to fetch user activities
  */
@@ -142,4 +156,72 @@ export function useOrder(orderId: string | number) {
     enabled: !!orderId, // Only fetch if orderId is provided
     retry: 1, // Reduce retries since we have fallback logic
   });
-}
\ No newline at end of file
+}
+/**
+ * Hook to fetch the live courier timeline of an order.
+ * Refreshes order data when the courier reports delivery.
+ */
+export function useShipmentTracking(order?: Order) {
+  const queryClient = useQueryClient();
+
+  return useQuery({
+    queryKey: trackingKeys.detail(order?.id ?? ''),
+    queryFn: async () => {
+      const tracking = await shipmentTrackingService.getTracking(order as Order);
+
+      if (tracking?.orderStatusUpdated) {
+        queryClient.invalidateQueries({ queryKey: orderKeys.all });
+        queryClient.invalidateQueries({ queryKey: activityKeys.all });
+      }
+
+      return tracking;
+    },
+    staleTime: 5 * 60 * 1000, // Courier updates are infrequent
+    gcTime: 10 * 60 * 1000,
+    enabled: !!order?.shipment?.awb,
+    retry: 1,
+  });
+}
+
+/**
+ * Hook to fetch the user's AutoKirim subscriptions
+ */
+export function useSubscriptions() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: subscriptionKeys.list(user?.partner_id),
+    queryFn: () => autoKirimService.getSubscriptions(user?.partner_id as number),
+    staleTime: 2 * 60 * 1000,
+    gcTime: 5 * 60 * 1000,
+    enabled: !!user?.partner_id,
+  });
+}
+
+/**
+ * Hook to pause, resume, skip or cancel an AutoKirim subscription
+ */
+export function useSubscriptionAction() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ subscriptionId, action }: { subscriptionId: number; action: SubscriptionAction }) => {
+      switch (action) {
+        case 'pause':
+          return autoKirimService.pause(subscriptionId);
+        case 'resume':
+          return autoKirimService.resume(subscriptionId);
+        case 'skip':
+          return autoKirimService.skipNext(subscriptionId);
+        case 'cancel':
+          return autoKirimService.cancel(subscriptionId);
+      }
+    },
+    onSuccess: (_, { action }) => {
+      queryClient.invalidateQueries({ queryKey: subscriptionKeys.all });
+      if (action === 'cancel') {
+        queryClient.invalidateQueries({ queryKey: orderKeys.all });
+      }
+    },
+  });
+}
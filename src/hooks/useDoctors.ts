@@ -59,7 +59,8 @@ export function useDoctor(doctorId: number | null) {
 }
 
 /**
- * Hook for getting doctor schedule
+ * Hook for getting doctor schedule. The customer's own slot hold does not
+ * show as unavailable.
  */
 export function useDoctorSchedule(doctorId: number | null, date?: Date) {
   const selectedDate = date || new Date();
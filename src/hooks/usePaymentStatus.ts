@@ -0,0 +1,37 @@
+/**
+ * Payment Status Hook
+ * Follows one payment through the payment status engine
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import paymentStatusEngine, {
+  TrackPaymentInput,
+  TrackedPaymentStatus,
+} from '../services/payment/paymentStatusEngine';
+
+export const usePaymentStatus = (payment: TrackPaymentInput | null) => {
+  const paymentId = payment?.paymentId;
+  const [status, setStatus] = useState<TrackedPaymentStatus>('PENDING');
+
+  useEffect(() => {
+    if (!payment || !paymentId) {
+      return;
+    }
+
+    // Already tracked when the payment was created; this covers screens opened from elsewhere
+    paymentStatusEngine.track(payment);
+
+    return paymentStatusEngine.subscribe(event => setStatus(event.status), { paymentId });
+  }, [paymentId]);
+
+  const checkNow = useCallback(async (): Promise<TrackedPaymentStatus> => {
+    if (!paymentId) {
+      return 'PENDING';
+    }
+    const latest = await paymentStatusEngine.checkNow(paymentId);
+    setStatus(latest);
+    return latest;
+  }, [paymentId]);
+
+  return { status, checkNow };
+};
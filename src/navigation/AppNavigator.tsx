@@ -1,9 +1,10 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { NavigationContainer } from '@react-navigation/native';
 import { createStackNavigator } from '@react-navigation/stack';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { Text, View, ActivityIndicator } from 'react-native';
 import { navigationRef } from '../services/navigationService';
+import healthReminderService from '../services/reminder/healthReminderService';
 import { Colors } from '../constants/colors';
 import { Typography } from '../constants/typography';
 import CustomTabBar from '../components/navigation/CustomTabBar';
@@ -24,6 +25,7 @@ import DoctorHomeServiceScreen from '../screens/services/DoctorHomeServiceScreen
 import DoctorWalkInScreen from '../screens/services/DoctorWalkInScreen';
 import DoctorDetailScreen from '../screens/services/DoctorDetailScreen';
 import PetSelectionScreen from '../screens/services/PetSelectionScreen';
+import HomeVisitTrackingScreen from '../screens/services/HomeVisitTrackingScreen';
 import GroomingScreen from '../screens/services/GroomingScreen';
 import GroomingWalkInScreen from '../screens/services/GroomingWalkInScreen';
 import GroomingDetailScreen from '../screens/services/GroomingDetailScreen';
@@ -39,6 +41,7 @@ import AddPetStepTwoScreen from '../screens/profile/AddPetStepTwoScreen';
 import AddPetStepThreeScreen from '../screens/profile/AddPetStepThreeScreen';
 import PetDetailScreen from '../screens/profile/PetDetailScreen';
 import EditPetScreen from '../screens/profile/EditPetScreen';
+import WalletScreen from '../screens/profile/WalletScreen';
 
 // Address Management Screens (Profile)
 import ProfileAddressListScreen from '../screens/profile/AddressListScreen';
@@ -71,6 +74,7 @@ import OrderHistoryScreen from '../screens/order/OrderHistoryScreen';
 import OrderDetailScreen from '../screens/order/OrderDetailScreen';
 import OrderTrackingScreen from '../screens/order/OrderTrackingScreen';
 import CancelOrderScreen from '../screens/order/CancelOrderScreen';
+import ReturnRequestScreen from '../screens/order/ReturnRequestScreen';
 
 // Payment Screens
 import PaymentProcessScreen from '../screens/payment/PaymentProcessScreen';
@@ -79,6 +83,7 @@ import PaymentMethodSelectionScreen from '../screens/payment/PaymentMethodSelect
 import QRISPaymentScreen from '../screens/payment/QRISPaymentScreen';
 import EwalletPaymentScreen from '../screens/payment/EwalletPaymentScreen';
 import VirtualAccountPaymentScreen from '../screens/payment/VirtualAccountPaymentScreen';
+import CardPaymentScreen from '../screens/payment/CardPaymentScreen';
 import UniversalSuccessScreen from '../screens/payment/UniversalSuccessScreen';
 
 // Import navigators
@@ -169,6 +174,8 @@ function ProfileNavigator() {
       <ProfileStack.Screen name="OrderTracking" component={OrderTrackingScreen} />
       <ProfileStack.Screen name="PaymentResult" component={PaymentResultScreen} />
       <ProfileStack.Screen name="CancelOrder" component={CancelOrderScreen} />
+      <ProfileStack.Screen name="ReturnRequest" component={ReturnRequestScreen} />
+      <ProfileStack.Screen name="Wallet" component={WalletScreen} />
     </ProfileStack.Navigator>
   );
 }
@@ -201,6 +208,7 @@ function HomeNavigator() {
       <HomeStack.Screen name="PaymentMethodSelection" component={PaymentMethodSelectionScreen} />
       <HomeStack.Screen name="OrderDetail" component={OrderDetailScreen} />
       <HomeStack.Screen name="CancelOrder" component={CancelOrderScreen} />
+      <HomeStack.Screen name="ReturnRequest" component={ReturnRequestScreen} />
       <HomeStack.Screen name="AddressList" component={AddressListScreen} />
       <HomeStack.Screen name="AddAddress" component={AddAddressScreen} />
       <HomeStack.Screen name="MapPicker" component={MapPickerScreen} />
@@ -222,6 +230,7 @@ function ServicesNavigator() {
       <ServicesStack.Screen name="DoctorWalkIn" component={DoctorWalkInScreen} />
       <ServicesStack.Screen name="DoctorDetail" component={DoctorDetailScreen} />
       <ServicesStack.Screen name="PetSelection" component={PetSelectionScreen} />
+      <ServicesStack.Screen name="HomeVisitTracking" component={HomeVisitTrackingScreen} />
       <ServicesStack.Screen name="BookingDoctor">
         {() => <PlaceholderScreen title="Booking Doctor" />}
       </ServicesStack.Screen>
@@ -273,6 +282,15 @@ function TabNavigator() {
 export default function AppNavigator() {
   const { isAuthenticated, isLoading } = useAuth();
 
+  // Tapping a health reminder opens doctor booking
+  useEffect(() => {
+    if (!isAuthenticated || isLoading) {
+      return;
+    }
+
+    return healthReminderService.listenForNotificationTaps();
+  }, [isAuthenticated, isLoading]);
+
   // Show loading screen while checking auth status
   if (isLoading) {
     return (
@@ -320,6 +338,14 @@ export default function AppNavigator() {
                 gestureEnabled: false,
               }}
             />
+            <Stack.Screen
+              name="CardPayment"
+              component={CardPaymentScreen}
+              options={{
+                presentation: 'modal',
+                gestureEnabled: false,
+              }}
+            />
             <Stack.Screen
               name="PaymentResult"
               component={PaymentResultScreen}
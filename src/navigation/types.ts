@@ -1,6 +1,7 @@
 import { BottomTabScreenProps } from '@react-navigation/bottom-tabs';
 import { CompositeScreenProps, NavigatorScreenParams } from '@react-navigation/native';
 import { StackScreenProps } from '@react-navigation/stack';
+import type { PackageDetails } from '../services/shipping/packageService';
 
 export type RootStackParamList = {
   Auth: NavigatorScreenParams<AuthStackParamList>;
@@ -36,6 +37,13 @@ export type RootStackParamList = {
       totalAmount: number;
     };
   };
+  CardPayment: {
+    orderInfo: {
+      orderId: string | number;
+      orderName: string;
+      totalAmount: number;
+    };
+  };
   PaymentResult: {
     status: 'success' | 'failed' | 'cancelled';
     paymentDetails?: {
@@ -78,11 +86,11 @@ export type AuthStackParamList = {
 };
 
 export type MainTabParamList = {
-  Home: undefined;
+  Home: NavigatorScreenParams<HomeStackParamList> | undefined;
   Promo: undefined;
   Services: undefined;
-  Activity: undefined;
-  Profile: undefined;
+  Activity: NavigatorScreenParams<ActivityStackParamList> | undefined;
+  Profile: NavigatorScreenParams<ProfileStackParamList> | undefined;
 };
 
 export type ActivityStackParamList = {
@@ -144,6 +152,7 @@ export type HomeStackParamList = {
   PaymentMethod: undefined;
   ShippingOptions: {
     deliveryAddress?: any; // Selected delivery address from checkout
+    packageDetails?: PackageDetails; // Parcel weight and box size of the cart
     selectedShipping?: any;
     selectedPayment?: any;
   };
@@ -184,6 +193,7 @@ export type HomeStackParamList = {
   };
   OrderDetail: { orderId: string };
   CancelOrder: { orderId: string };
+  ReturnRequest: { orderId: string };
   OrderSummary: { 
     orderId?: string;
     items?: any[];
@@ -200,9 +210,11 @@ export type ServicesStackParamList = {
   PetDoctor: undefined;
   DoctorHomeService: undefined;
   DoctorWalkIn: undefined;
-  DoctorDetail: { doctorId: string };
-  PetSelection: undefined;
+  DoctorDetail: { doctorId: string; petId?: number; reason?: string };
+  // returnTo receives the chosen pet back as its petId param
+  PetSelection: { selectedPetId?: number; returnTo?: 'DoctorDetail'; doctorId?: string } | undefined;
   BookingDoctor: { doctorId: string; serviceType: 'homeService' | 'walkIn' };
+  HomeVisitTracking: { visitId: number };
   Grooming: undefined;
   GroomingWalkIn: undefined;
   GroomingHomeService: undefined;
@@ -259,6 +271,8 @@ export type ProfileStackParamList = {
   OrderDetail: { orderId: string };
   OrderTracking: { orderId: string };
   CancelOrder: { orderId: string };
+  ReturnRequest: { orderId: string };
+  Wallet: undefined;
 };
 
 export type RootStackScreenProps<T extends keyof RootStackParamList> =
@@ -10,20 +10,33 @@ import {
   RefreshControl,
   ActivityIndicator,
   SectionList,
+  Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useNavigation } from '@react-navigation/native';
+import { CompositeNavigationProp, useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
+import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 import { MaterialIcons, Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
 import { Colors } from '../../constants/colors';
 import { Typography } from '../../constants/typography';
 import { Spacing, BorderRadius } from '../../constants/spacing';
-import { ActivityStackParamList } from '../../navigation/types';
-import { useActivities, useOrders } from '../../hooks/useActivities';
-import { Activity, Order } from '../../services';
+import { ActivityStackParamList, MainTabParamList } from '../../navigation/types';
+import {
+  useActivities,
+  useOrders,
+  useSubscriptions,
+  useSubscriptionAction,
+  SubscriptionAction,
+} from '../../hooks/useActivities';
+import { Activity, Order, OrderStatusEvent, ORDER_STATUS_LABELS, normalizeOrderStatus } from '../../services';
+import { Subscription } from '../../services/subscription/autoKirimService';
+import { PaymentStatus } from '../../services/payment/paymentGatewayConfig';
 import { useAuth } from '../../contexts/AuthContext';
 
-type NavigationProp = StackNavigationProp<ActivityStackParamList, 'ActivityScreen'>;
+type NavigationProp = CompositeNavigationProp<
+  StackNavigationProp<ActivityStackParamList, 'ActivityScreen'>,
+  BottomTabNavigationProp<MainTabParamList>
+>;
 
 interface OrderSection {
   title: string;
@@ -48,6 +61,7 @@ const getStatusColor = (status?: string): string => {
     approved: '#2196F3', // Blue for shipped/delivered
     return_approved: Colors.error.main,
     inspecting: Colors.info.main,
+    refunded: Colors.success.main,
   };
   return statusColors[status || ''] || Colors.text.secondary;
 };
@@ -68,6 +82,7 @@ const getStatusText = (status?: string): string => {
     approved: 'Dikirim',
     return_approved: 'Pengembalian Disetujui',
     inspecting: 'Pemeriksaan Barang',
+    refunded: 'Dana Dikembalikan',
   };
   return statusTexts[status || ''] || status || '';
 };
@@ -81,6 +96,27 @@ const formatDateHeader = (dateString: string): string => {
   return `${days[date.getDay()]}, ${date.getDate()} ${months[date.getMonth()]} ${date.getFullYear()}`;
 };
 
+// Subscription dates are 'YYYY-MM-DD'
+const formatDeliveryDate = (date?: string): string => {
+  if (!date) return '';
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString('id-ID', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+  });
+};
+
+const formatEventTime = (timestamp: string): string => {
+  if (!timestamp) return '';
+  const date = new Date(timestamp);
+  const months = ['Jan', 'Feb', 'Mar', 'Apr', 'Mei', 'Jun', 'Jul', 'Agu', 'Sep', 'Okt', 'Nov', 'Des'];
+  const hours = date.getHours().toString().padStart(2, '0');
+  const minutes = date.getMinutes().toString().padStart(2, '0');
+  return `${date.getDate()} ${months[date.getMonth()]} ${date.getFullYear()}, ${hours}:${minutes}`;
+};
+
 // Helper function to safely get image URI (based on promo page implementation)
 const getImageUri = (item: any): string | null => {
   // Check for different image field formats from ODOO API
@@ -119,7 +155,8 @@ const getImageUri = (item: any): string | null => {
 export default function ActivityScreen() {
   const navigation = useNavigation<NavigationProp>();
   const { user } = useAuth();
-  const [selectedTab, setSelectedTab] = useState<'belanja' | 'dokter' | 'salon'>('belanja');
+  const [selectedTab, setSelectedTab] = useState<'belanja' | 'autokirim' | 'dokter' | 'salon'>('belanja');
+  const [purchaseFilter, setPurchaseFilter] = useState<'sekali' | 'autokirim'>('sekali');
   const [expandedOrders, setExpandedOrders] = useState<{ [key: string]: boolean }>({});
   const [expandedDateSections, setExpandedDateSections] = useState<{ [key: string]: boolean }>({});
   const [expandedSections, setExpandedSections] = useState<{ [key: string]: boolean }>({
@@ -280,6 +317,14 @@ export default function ActivityScreen() {
 
   const isLoading = showLoadingSpinner;
   
+  const {
+    data: subscriptions = [],
+    isLoading: subscriptionsLoading,
+    isFetching: subscriptionsFetching,
+    refetch: refetchSubscriptions,
+  } = useSubscriptions();
+  const subscriptionAction = useSubscriptionAction();
+
   const handleRefresh = () => {
     refetchOrders();
   };
@@ -358,26 +403,21 @@ export default function ActivityScreen() {
   };
 
   const renderOrderItem = (order: any) => {
-    const needsPayment = (order.state === 'draft' ||
-                        order.state === 'waiting_payment' ||
-                        (order.note && order.note.includes('[WAITING_PAYMENT]'))) &&
-                        order.state !== 'cancel' &&
-                        order.state !== 'cancelled' &&
-                        order.state !== 'sale' &&
-                        !order.note?.includes('[PAYMENT_CONFIRMED]');
-
-    const canTrack = order.state === 'sale' ||
-                     order.state === 'shipped' ||
-                     order.state === 'processing' ||
-                     order.note?.includes('[PAYMENT_CONFIRMED]') ||
-                     order.statusText === 'Sedang Diproses' ||
-                     order.statusText === 'Dikirim';
-
-    // Check if this is an AutoKirim order
-    const isAutoKirim = order.note && (
-      order.note.includes('[AUTOKIRIM_ORDER]') ||
-      order.note.includes('[MIXED_ORDER]')
-    );
+    const lifecycleStatus = normalizeOrderStatus(order.state);
+    const needsPayment = lifecycleStatus === 'draft' || lifecycleStatus === 'waiting_payment';
+
+    const canTrack = ['payment_confirmed', 'admin_review', 'approved', 'processing', 'shipped']
+      .includes(lifecycleStatus);
+
+    // A refunded order shows the refund instead of its cancelled/returned status
+    const isRefunded = order.payment_info?.paymentStatus === PaymentStatus.REFUNDED;
+    const displayStatus = isRefunded ? 'refunded' : order.state;
+    const canReturn = lifecycleStatus === 'delivered' && !isRefunded;
+
+    const statusHistory: OrderStatusEvent[] = order.status_history || [];
+
+    // Check if this order was generated by an AutoKirim subscription
+    const isAutoKirim = !!order.subscription_id;
 
     const isExpanded = expandedOrders[order.id] || false;
 
@@ -474,11 +514,38 @@ export default function ActivityScreen() {
                 </View>
                 <View style={styles.summaryRow}>
                   <Text style={styles.summaryLabel}>Status</Text>
-                  <Text style={[styles.summaryValue, { color: getStatusColor(order.state) }]}>
-                    {getStatusText(order.state)}
+                  <Text style={[styles.summaryValue, { color: getStatusColor(displayStatus) }]}>
+                    {getStatusText(displayStatus)}
                   </Text>
                 </View>
               </View>
+
+              {/* Status timeline */}
+              {statusHistory.length > 0 && (
+                <View style={styles.statusTimeline}>
+                  <Text style={styles.statusTimelineTitle}>Riwayat Status</Text>
+                  {statusHistory.map((event, index) => {
+                    const isLatest = index === statusHistory.length - 1;
+                    return (
+                      <View key={event.id || index} style={styles.timelineRow}>
+                        <View style={styles.timelineIndicator}>
+                          <View style={[styles.timelineDot, isLatest && styles.timelineDotActive]} />
+                          {!isLatest && <View style={styles.timelineLine} />}
+                        </View>
+                        <View style={styles.timelineContent}>
+                          <Text style={[styles.timelineStatus, isLatest && styles.timelineStatusActive]}>
+                            {ORDER_STATUS_LABELS[event.status] || getStatusText(event.status)}
+                          </Text>
+                          <Text style={styles.timelineDate}>{formatEventTime(event.timestamp)}</Text>
+                          {event.note ? (
+                            <Text style={styles.timelineNote}>{event.note}</Text>
+                          ) : null}
+                        </View>
+                      </View>
+                    );
+                  })}
+                </View>
+              )}
             </View>
           ) : (
             // COLLAPSED VIEW - Compact single row
@@ -523,8 +590,8 @@ export default function ActivityScreen() {
                 <Text style={styles.collapsedPrice}>
                   Rp {order.amount_total?.toLocaleString('id-ID') || '0'}
                 </Text>
-                <Text style={[styles.collapsedStatus, { color: getStatusColor(order.state) }]}>
-                  {getStatusText(order.state)}
+                <Text style={[styles.collapsedStatus, { color: getStatusColor(displayStatus) }]}>
+                  {getStatusText(displayStatus)}
                 </Text>
               </View>
             </>
@@ -537,6 +604,16 @@ export default function ActivityScreen() {
             <TouchableOpacity
               style={styles.actionButton}
               onPress={() => {
+                // Service bookings have no cart or shipping to check out
+                if (order.note?.includes('[DOCTOR_SERVICE]')) {
+                  navigation.navigate('PaymentMethodSelection', {
+                    orderId: order.id,
+                    orderName: order.name,
+                    totalAmount: order.amount_total,
+                    customerInfo: user ? { name: user.name, email: user.email, phone: user.phone } : undefined,
+                  });
+                  return;
+                }
                 navigation.navigate('Checkout', {
                   orderId: order.id.toString(),
                   orderName: order.name
@@ -563,6 +640,22 @@ export default function ActivityScreen() {
             </TouchableOpacity>
           </View>
         )}
+
+        {canReturn && (
+          <View style={styles.bottomActionContainer}>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.trackActionButton]}
+              onPress={() => {
+                navigation.navigate('Profile', {
+                  screen: 'ReturnRequest',
+                  params: { orderId: order.id.toString() }
+                });
+              }}
+            >
+              <Text style={[styles.actionButtonText, styles.trackActionButtonText]}>Ajukan Pengembalian</Text>
+            </TouchableOpacity>
+          </View>
+        )}
       </View>
     );
   };
@@ -642,33 +735,148 @@ export default function ActivityScreen() {
     </View>
   );
 
-  // Filter orders based on selected tab and order type
-  const martOrders = orders.filter(order => {
-    // Check if it's NOT an AutoKirim order
-    const isAutoKirim = order.note && (
-      order.note.includes('[AUTOKIRIM_ORDER]') || 
-      order.note.includes('[MIXED_ORDER]')
+  const handleSubscriptionAction = (subscription: Subscription, action: SubscriptionAction) => {
+    const run = () => subscriptionAction.mutate(
+      { subscriptionId: subscription.id, action },
+      {
+        onError: (error: any) => {
+          Alert.alert('Gagal', error.message || 'Gagal memperbarui langganan. Silakan coba lagi.');
+        },
+      }
     );
-    // Return regular orders for Mart tab
-    return !isAutoKirim && order.items && order.items.length > 0;
-  });
-  
-  const autoKirimOrders = orders.filter(order => {
-    // Check if it's an AutoKirim order
-    const isAutoKirim = order.note && (
-      order.note.includes('[AUTOKIRIM_ORDER]') || 
-      order.note.includes('[MIXED_ORDER]')
+
+    if (action === 'cancel') {
+      Alert.alert(
+        'Hentikan AutoKirim',
+        `Hentikan pengiriman rutin ${subscription.productName}? Pesanan AutoKirim yang belum dibayar juga akan dibatalkan.`,
+        [
+          { text: 'Batal', style: 'cancel' },
+          { text: 'Hentikan', style: 'destructive', onPress: run },
+        ]
+      );
+      return;
+    }
+
+    if (action === 'skip') {
+      Alert.alert(
+        'Lewati Pengiriman',
+        `Lewati pengiriman ${formatDeliveryDate(subscription.nextDate)}?`,
+        [
+          { text: 'Batal', style: 'cancel' },
+          { text: 'Lewati', onPress: run },
+        ]
+      );
+      return;
+    }
+
+    run();
+  };
+
+  const renderSubscriptionItem = (subscription: Subscription) => {
+    const isPaused = subscription.state === 'paused';
+
+    return (
+      <View style={styles.orderCard}>
+        <View style={styles.subscriptionContent}>
+          <View style={styles.subscriptionHeader}>
+            <Text style={[styles.collapsedProductName, styles.subscriptionName]} numberOfLines={1}>
+              {subscription.productName}
+            </Text>
+            <Text style={[styles.collapsedStatus, { color: isPaused ? Colors.text.secondary : Colors.success.main }]}>
+              {isPaused ? 'Dijeda' : 'Aktif'}
+            </Text>
+          </View>
+
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Jumlah</Text>
+            <Text style={styles.summaryValue}>x{subscription.quantity}</Text>
+          </View>
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Periode</Text>
+            <Text style={styles.summaryValue}>Setiap {subscription.period} {subscription.unit}</Text>
+          </View>
+          {subscription.endDate && (
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>Berakhir</Text>
+              <Text style={styles.summaryValue}>{formatDeliveryDate(subscription.endDate)}</Text>
+            </View>
+          )}
+
+          <View style={styles.nextDeliveryInfo}>
+            <MaterialIcons name="event" size={16} color={Colors.text.secondary} />
+            <Text style={styles.nextDeliveryText}>
+              {isPaused
+                ? 'Pengiriman dijeda'
+                : `Pengiriman berikutnya: ${formatDeliveryDate(subscription.nextDate)}`}
+            </Text>
+          </View>
+
+          <View style={styles.autoKirimButtons}>
+            {isPaused ? (
+              <TouchableOpacity
+                style={styles.manageButton}
+                disabled={subscriptionAction.isPending}
+                onPress={() => handleSubscriptionAction(subscription, 'resume')}
+              >
+                <Text style={styles.manageButtonText}>Lanjutkan</Text>
+              </TouchableOpacity>
+            ) : (
+              <>
+                <TouchableOpacity
+                  style={styles.manageButton}
+                  disabled={subscriptionAction.isPending}
+                  onPress={() => handleSubscriptionAction(subscription, 'skip')}
+                >
+                  <Text style={styles.manageButtonText}>Lewati</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.manageButton, styles.subscriptionButtonSpacing]}
+                  disabled={subscriptionAction.isPending}
+                  onPress={() => handleSubscriptionAction(subscription, 'pause')}
+                >
+                  <Text style={styles.manageButtonText}>Jeda</Text>
+                </TouchableOpacity>
+              </>
+            )}
+            <TouchableOpacity
+              style={[styles.manageButton, styles.subscriptionButtonSpacing]}
+              disabled={subscriptionAction.isPending}
+              onPress={() => handleSubscriptionAction(subscription, 'cancel')}
+            >
+              <Text style={styles.manageButtonText}>Hentikan</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
     );
-    // Return AutoKirim orders for AutoKirim tab
-    return isAutoKirim && order.items && order.items.length > 0;
-  });
+  };
+
+  const renderSubscriptionEmptyState = () => (
+    <View style={styles.emptyContainer}>
+      <Image
+        source={require('../../../assets/mascot-sad.png')}
+        style={styles.emptyImage}
+        resizeMode="contain"
+      />
+      <Text style={styles.emptyTitle}>Belum ada AutoKirim</Text>
+      <Text style={styles.emptySubtitle}>
+        Pilih AutoKirim saat checkout agar kebutuhan hewanmu dikirim rutin.
+      </Text>
+    </View>
+  );
+
+  const isServiceOrder = (order: Order) =>
+    !!order.note?.includes('[DOCTOR_SERVICE]') || !!order.note?.includes('[SALON_SERVICE]');
 
   // Get current orders based on selected tab
   const getCurrentOrders = () => {
     switch (selectedTab) {
       case 'belanja':
-        // Use real orders from API only
-        return orders || [];
+        // One-time purchases, or orders generated by AutoKirim subscriptions
+        return orders.filter(order =>
+          !isServiceOrder(order) &&
+          (purchaseFilter === 'autokirim' ? !!order.subscription_id : !order.subscription_id)
+        );
       case 'dokter':
         // Filter orders for doctor services
         return orders?.filter(order => order.note?.includes('[DOCTOR_SERVICE]')) || [];
@@ -703,6 +911,15 @@ export default function ActivityScreen() {
             Belanja
           </Text>
         </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.mainTab, selectedTab === 'autokirim' && styles.mainTabActive]}
+          onPress={() => setSelectedTab('autokirim')}
+        >
+          <MaterialIcons name="autorenew" size={20} color={selectedTab === 'autokirim' ? Colors.primary.main : Colors.text.secondary} />
+          <Text style={[styles.mainTabText, selectedTab === 'autokirim' && styles.mainTabTextActive]}>
+            AutoKirim
+          </Text>
+        </TouchableOpacity>
         <TouchableOpacity
           style={[styles.mainTab, selectedTab === 'dokter' && styles.mainTabActive]}
           onPress={() => setSelectedTab('dokter')}
@@ -724,17 +941,50 @@ export default function ActivityScreen() {
       </View>
 
       {/* Action Button */}
-      <View style={styles.actionContainer}>
-        <TouchableOpacity style={styles.sekaliBeliButton}>
-          <Text style={styles.sekaliBeliText}>Sekali Beli</Text>
-        </TouchableOpacity>
-        <TouchableOpacity style={styles.autoKirimButton}>
-          <Text style={styles.autoKirimText}>Auto Kirim</Text>
-        </TouchableOpacity>
-      </View>
+      {selectedTab === 'belanja' && (
+        <View style={styles.actionContainer}>
+          <TouchableOpacity
+            style={purchaseFilter === 'sekali' ? styles.sekaliBeliButton : [styles.autoKirimButton, styles.purchaseFilterSpacing]}
+            onPress={() => setPurchaseFilter('sekali')}
+          >
+            <Text style={purchaseFilter === 'sekali' ? styles.sekaliBeliText : styles.autoKirimText}>Sekali Beli</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={purchaseFilter === 'autokirim' ? styles.sekaliBeliButton : styles.autoKirimButton}
+            onPress={() => setPurchaseFilter('autokirim')}
+          >
+            <Text style={purchaseFilter === 'autokirim' ? styles.sekaliBeliText : styles.autoKirimText}>Auto Kirim</Text>
+          </TouchableOpacity>
+        </View>
+      )}
 
       {/* Content */}
-      {isLoading ? (
+      {selectedTab === 'autokirim' ? (
+        subscriptionsLoading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={Colors.primary.main} />
+            <Text style={styles.loadingText}>Memuat AutoKirim...</Text>
+          </View>
+        ) : (
+          <FlatList
+            style={styles.content}
+            data={subscriptions}
+            keyExtractor={(item) => item.id.toString()}
+            renderItem={({ item }) => renderSubscriptionItem(item)}
+            showsVerticalScrollIndicator={false}
+            refreshControl={
+              <RefreshControl
+                refreshing={subscriptionsFetching}
+                onRefresh={refetchSubscriptions}
+                colors={[Colors.primary.main]}
+              />
+            }
+            ListEmptyComponent={renderSubscriptionEmptyState}
+            contentContainerStyle={subscriptions.length === 0 ? styles.emptyContainer : styles.ordersContainer}
+            ItemSeparatorComponent={() => <View style={styles.orderSeparator} />}
+          />
+        )
+      ) : isLoading ? (
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color={Colors.primary.main} />
           <Text style={styles.loadingText}>Memuat pesanan...</Text>
@@ -892,6 +1142,9 @@ const styles = StyleSheet.create({
     fontFamily: Typography.fontFamily.medium,
     textAlign: 'center',
   },
+  purchaseFilterSpacing: {
+    marginRight: Spacing.sm,
+  },
   
   // Content
   content: {
@@ -1135,6 +1388,64 @@ const styles = StyleSheet.create({
     padding: Spacing.md,
     borderRadius: BorderRadius.sm,
   },
+  statusTimeline: {
+    marginTop: Spacing.sm,
+    paddingTop: Spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E5E5',
+  },
+  statusTimelineTitle: {
+    fontSize: Typography.fontSize.sm,
+    fontFamily: Typography.fontFamily.semibold,
+    color: Colors.text.primary,
+    marginBottom: Spacing.sm,
+  },
+  timelineRow: {
+    flexDirection: 'row',
+  },
+  timelineIndicator: {
+    width: 16,
+    alignItems: 'center',
+  },
+  timelineDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: Colors.border.main,
+    marginTop: 4,
+  },
+  timelineDotActive: {
+    backgroundColor: Colors.primary.main,
+  },
+  timelineLine: {
+    flex: 1,
+    width: 2,
+    backgroundColor: Colors.border.main,
+    marginVertical: 2,
+  },
+  timelineContent: {
+    flex: 1,
+    marginLeft: Spacing.xs,
+    paddingBottom: Spacing.sm,
+  },
+  timelineStatus: {
+    fontSize: Typography.fontSize.sm,
+    fontFamily: Typography.fontFamily.medium,
+    color: Colors.text.secondary,
+  },
+  timelineStatusActive: {
+    color: Colors.text.primary,
+    fontFamily: Typography.fontFamily.semibold,
+  },
+  timelineDate: {
+    fontSize: Typography.fontSize.xs,
+    color: Colors.text.tertiary,
+  },
+  timelineNote: {
+    fontSize: Typography.fontSize.xs,
+    color: Colors.text.secondary,
+    marginTop: 2,
+  },
   orderSummaryTitle: {
     fontSize: Typography.fontSize.base,
     fontFamily: Typography.fontFamily.semibold,
@@ -1260,6 +1571,24 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     justifyContent: 'flex-start',
   },
+  subscriptionContent: {
+    paddingHorizontal: Spacing.base,
+    paddingVertical: Spacing.md,
+    backgroundColor: Colors.background.primary,
+  },
+  subscriptionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: Spacing.sm,
+  },
+  subscriptionName: {
+    flex: 1,
+    marginRight: Spacing.sm,
+  },
+  subscriptionButtonSpacing: {
+    marginLeft: Spacing.sm,
+  },
   manageButton: {
     paddingHorizontal: Spacing.md,
     paddingVertical: Spacing.sm,
@@ -21,7 +21,6 @@ import { Typography } from '../../constants/typography';
 import { Spacing, BorderRadius } from '../../constants/spacing';
 import { AuthStackParamList } from '../../navigation/types';
 import authService from '../../services/auth/authService';
-import apiClient from '../../services/api/apiClient';
 
 type NavigationProp = StackNavigationProp<AuthStackParamList, 'ForgotPassword'>;
 
@@ -29,7 +28,7 @@ export default function ForgotUsernameScreen() {
   const navigation = useNavigation<NavigationProp>();
   const [email, setEmail] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [foundUsername, setFoundUsername] = useState<string | null>(null);
+  const [usernameSent, setUsernameSent] = useState(false);
 
   const handleFindUsername = async () => {
     if (!email.trim()) {
@@ -44,28 +43,15 @@ export default function ForgotUsernameScreen() {
 
     setIsLoading(true);
     try {
-      // Authenticate as admin to search for user
-      await apiClient.authenticateAdmin();
-      
-      // Search for user by email
-      const users = await apiClient.odooExecute(
-        'res.users',
-        'search_read',
-        [],
-        {
-          domain: [['email', '=', email.toLowerCase().trim()]],
-          fields: ['id', 'login', 'name', 'email'],
-          limit: 1
-        }
-      );
+      // The username goes to the account's WhatsApp number, never to this screen
+      const sent = await authService.findUsername(email.toLowerCase().trim());
 
-      if (users && users.length > 0) {
-        const username = users[0].login;
-        setFoundUsername(username);
+      if (sent) {
+        setUsernameSent(true);
         
         Alert.alert(
-          'Username Ditemukan!',
-          `Username Anda adalah: ${username}`,
+          'Username Dikirim!',
+          'Username Anda telah dikirim ke nomor WhatsApp yang terdaftar.',
           [
             {
               text: 'Login',
@@ -150,12 +136,12 @@ export default function ForgotUsernameScreen() {
               </View>
             </View>
 
-            {foundUsername && (
+            {usernameSent && (
               <View style={styles.successBox}>
                 <Ionicons name="checkmark-circle" size={24} color={Colors.success.main} />
                 <View style={styles.successContent}>
-                  <Text style={styles.successTitle}>Username ditemukan!</Text>
-                  <Text style={styles.successUsername}>{foundUsername}</Text>
+                  <Text style={styles.successTitle}>Username dikirim!</Text>
+                  <Text style={styles.successUsername}>Periksa WhatsApp Anda</Text>
                 </View>
               </View>
             )}
@@ -24,6 +24,7 @@ import { Spacing, BorderRadius } from '../../constants/spacing';
 import { AuthStackParamList } from '../../navigation/types';
 import { useAuth } from '../../contexts/AuthContext';
 import authService from '../../services/auth/authService';
+import { OtpError } from '../../services/auth/otpService';
 
 type NavigationProp = StackNavigationProp<AuthStackParamList, 'OTP'>;
 type RoutePropType = RouteProp<AuthStackParamList, 'OTP'>;
@@ -40,6 +41,7 @@ export default function OTPVerificationScreen() {
   const [canResend, setCanResend] = useState(false);
   const [showSuccessModal, setShowSuccessModal] = useState(false);
   const [showErrorModal, setShowErrorModal] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
   
   const otpInputs = useRef<(TextInput | null)[]>([]);
   const scaleAnim = useRef(new Animated.Value(0)).current;
@@ -50,7 +52,7 @@ export default function OTPVerificationScreen() {
   const mode = route.params?.mode || 'register';
 
   useEffect(() => {
-    // Start countdown timer
+    // Count down until a new code may be requested
     const interval = setInterval(() => {
       setTimer((prevTimer) => {
         if (prevTimer <= 1) {
@@ -64,16 +66,22 @@ export default function OTPVerificationScreen() {
     // Send initial OTP via WhatsApp when screen loads (without alert)
     const sendInitialOTP = async () => {
       try {
-        // Generate and send OTP
-        const otpCode = await authService.generateOTP(phoneNumber);
-        
-        // The OTP is now automatically sent via WhatsApp service
-        console.log(`=================================`);
-        console.log(`OTP sent to WhatsApp ${phoneNumber}`);
-        console.log(`OTP Code (for testing): ${otpCode}`);
-        console.log(`=================================`);
+        const result = await authService.generateOTP(phoneNumber);
+        restartTimer(result.resendAfter);
       } catch (error) {
-        console.error('Failed to send initial OTP:', error);
+        // A code sent moments ago (e.g. when coming back to this screen) is still valid
+        if (error instanceof OtpError && error.code === 'RESEND_TOO_SOON') {
+          restartTimer(error.retryAfter || 60);
+          return;
+        }
+
+        if (error instanceof OtpError && error.code === 'RATE_LIMITED') {
+          Alert.alert('Gagal Mengirim OTP', error.message, [
+            { text: 'Kembali', onPress: () => navigation.goBack() }
+          ]);
+          return;
+        }
+
         // Show alert if initial OTP sending fails
         Alert.alert(
           'Gagal Mengirim OTP',
@@ -91,6 +99,11 @@ export default function OTPVerificationScreen() {
     return () => clearInterval(interval);
   }, []);
 
+  const restartTimer = (seconds: number) => {
+    setTimer(seconds);
+    setCanResend(seconds <= 0);
+  };
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -166,7 +179,7 @@ export default function OTPVerificationScreen() {
         showAnimatedModal('success');
       } else {
         // Show error and reset for retry
-        console.log('OTP verification failed:', response.message);
+        setErrorMessage(response.message || null);
         showAnimatedModal('error');
         // Reset OTP inputs after showing modal
         setTimeout(() => {
@@ -177,6 +190,7 @@ export default function OTPVerificationScreen() {
       }
     } catch (error: any) {
       console.error('OTP verification error:', error);
+      setErrorMessage(null);
       showAnimatedModal('error');
       // Reset OTP inputs after showing modal
       setTimeout(() => {
@@ -192,17 +206,15 @@ export default function OTPVerificationScreen() {
     try {
       // Send OTP via WhatsApp
       await sendWhatsAppOTP();
-      
-      // Reset timer
-      setTimer(60);
-      setCanResend(false);
-      
-      Alert.alert(
-        'OTP Terkirim',
-        'Kode OTP baru telah dikirim ke WhatsApp Anda',
-        [{ text: 'OK' }]
-      );
     } catch (error) {
+      if (error instanceof OtpError) {
+        if (error.retryAfter) {
+          restartTimer(error.retryAfter);
+        }
+        Alert.alert('Gagal Mengirim OTP', error.message, [{ text: 'OK' }]);
+        return;
+      }
+
       Alert.alert(
         'Gagal Mengirim OTP',
         'Terjadi kesalahan saat mengirim ulang OTP. Silakan coba lagi.',
@@ -215,14 +227,8 @@ export default function OTPVerificationScreen() {
 
   const sendWhatsAppOTP = async () => {
     try {
-      // Generate and send OTP
-      const otpCode = await authService.generateOTP(phoneNumber);
-      
-      // OTP is automatically sent via WhatsApp service
-      console.log(`=================================`);
-      console.log(`Resent OTP to WhatsApp ${phoneNumber}`);
-      console.log(`OTP Code (for testing): ${otpCode}`);
-      console.log(`=================================`);
+      const result = await authService.generateOTP(phoneNumber);
+      restartTimer(result.resendAfter);
       
       // Show notification that OTP was sent
       Alert.alert(
@@ -231,9 +237,8 @@ export default function OTPVerificationScreen() {
         [{ text: 'OK' }]
       );
       
-      return otpCode;
+      return result;
     } catch (error) {
-      console.error('Failed to send WhatsApp OTP:', error);
       throw error;
     }
   };
@@ -429,9 +434,9 @@ export default function OTPVerificationScreen() {
               {mode === 'forgot-password' ? 'Verifikasi Gagal!' : 'Pendaftaran Gagal!'}
             </Text>
             <Text style={styles.bottomSheetMessage}>
-              {mode === 'forgot-password' 
+              {errorMessage || (mode === 'forgot-password'
                 ? 'Kode OTP tidak valid. Silakan coba lagi.'
-                : 'Coba kembali atau gunakan metode{`\n`}pendaftaran yang berbeda'}
+                : 'Coba kembali atau gunakan metode{`\n`}pendaftaran yang berbeda')}
             </Text>
             <TouchableOpacity
               style={styles.bottomSheetButton}
@@ -16,19 +16,47 @@ import { Colors } from '../../constants/colors';
 import { Typography } from '../../constants/typography';
 import { Spacing, BorderRadius } from '../../constants/spacing';
 import { HomeStackParamList } from '../../navigation/types';
+import { useLoading } from '../../hooks/useLoading';
+import healthReminderService, { HealthReminder } from '../../services/reminder/healthReminderService';
 
 type NavigationProp = StackNavigationProp<HomeStackParamList, 'NotificationScreen'>;
 
 interface Notification {
   id: string;
-  type: 'doctor' | 'mart' | 'general' | 'promo';
+  type: 'doctor' | 'mart' | 'general' | 'promo' | 'reminder';
   title: string;
   message: string;
   timestamp: string;
   isRead: boolean;
   icon?: string;
+  reminder?: HealthReminder;
 }
 
+const formatReminderDue = (daysUntilDue: number) => {
+  if (daysUntilDue === 0) return 'Jatuh tempo hari ini';
+  if (daysUntilDue > 0) return `${daysUntilDue} hari lagi`;
+  return `Terlambat ${-daysUntilDue} hari`;
+};
+
+const toReminderNotification = (reminder: HealthReminder): Notification => {
+  const daysUntilDue = healthReminderService.getDaysUntilDue(reminder);
+  const dueDate = new Date(`${reminder.dueDate}T00:00:00`).toLocaleDateString('id-ID', {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+  });
+
+  return {
+    id: `reminder:${reminder.id}`,
+    type: 'reminder',
+    title: `${reminder.title} untuk ${reminder.petName}`,
+    message: `Jadwal ${reminder.title.toLowerCase()} jatuh tempo ${dueDate}. Ketuk untuk pesan dokter.`,
+    timestamp: formatReminderDue(daysUntilDue),
+    isRead: daysUntilDue > 3,
+    reminder,
+  };
+};
+
 // Sample notifications - in real app, this would come from an API
 const sampleNotifications: Notification[] = [
   {
@@ -61,18 +89,22 @@ export default function NotificationScreen() {
   const navigation = useNavigation<NavigationProp>();
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [unreadCount, setUnreadCount] = useState(0);
+  const { showLoading, hideLoading } = useLoading();
 
   useEffect(() => {
-    // Simulate loading notifications
+    // Health reminders come from the on-device scheduler, the rest are samples
     // In real app, you would fetch from API
-    setNotifications(sampleNotifications);
-    const unread = sampleNotifications.filter(n => !n.isRead).length;
-    setUnreadCount(unread);
+    healthReminderService.getUpcomingReminders().then(reminders => {
+      const loaded = [...reminders.map(toReminderNotification), ...sampleNotifications];
+      setNotifications(loaded);
+      setUnreadCount(loaded.filter(n => !n.isRead).length);
+    });
   }, []);
 
   const getNotificationIcon = (type: string) => {
     switch (type) {
       case 'doctor':
+      case 'reminder':
         return require('../../../assets/icons/Property 1=doctor.png');
       case 'mart':
         return require('../../../assets/icons/Property 1=mart.png');
@@ -94,8 +126,14 @@ export default function NotificationScreen() {
 
     // Handle notification action based on type
     switch (notification.type) {
+      case 'reminder':
+        if (notification.reminder) {
+          openReminderBooking(notification.reminder);
+        }
+        break;
       case 'doctor':
-        // Navigate to doctor service or booking
+        // Ongoing home visits are tracked from the home service screen
+        navigation.getParent()?.navigate('Services', { screen: 'DoctorHomeService' });
         break;
       case 'mart':
         // Navigate to orders or products
@@ -113,6 +151,22 @@ export default function NotificationScreen() {
     }
   };
 
+  const openReminderBooking = async (reminder: HealthReminder) => {
+    showLoading('Mencari dokter...');
+    try {
+      const params = await healthReminderService.getBookingParams(reminder);
+      if (params) {
+        navigation.getParent()?.navigate('Services', { screen: 'DoctorDetail', params });
+      } else {
+        Alert.alert('Dokter Tidak Tersedia', 'Belum ada dokter yang tersedia saat ini. Silakan pilih dokter lain nanti.');
+      }
+    } catch (error) {
+      Alert.alert('Error', 'Gagal membuka pemesanan dokter. Silakan coba lagi.');
+    } finally {
+      hideLoading();
+    }
+  };
+
   const markAllAsRead = () => {
     setNotifications(prev => prev.map(n => ({ ...n, isRead: true })));
     setUnreadCount(0);
@@ -199,8 +253,14 @@ export default function NotificationScreen() {
             style={styles.content}
             showsVerticalScrollIndicator={false}
           >
+            {notifications.some(n => n.type === 'reminder') && (
+              <>
+                <Text style={styles.sectionTitle}>Pengingat Kesehatan</Text>
+                {notifications.filter(n => n.type === 'reminder').map(renderNotification)}
+              </>
+            )}
             <Text style={styles.sectionTitle}>Hari ini</Text>
-            {notifications.map(renderNotification)}
+            {notifications.filter(n => n.type !== 'reminder').map(renderNotification)}
           </ScrollView>
         </>
       )}
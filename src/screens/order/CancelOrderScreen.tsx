@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -6,6 +6,8 @@ import {
   ScrollView,
   TouchableOpacity,
   TextInput,
+  ActivityIndicator,
+  Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useNavigation, useRoute } from '@react-navigation/native';
@@ -16,6 +18,13 @@ import { Colors } from '../../constants/colors';
 import { Typography } from '../../constants/typography';
 import { Spacing, BorderRadius } from '../../constants/spacing';
 import { ProfileStackParamList } from '../../navigation/types';
+import orderService from '../../services/order/orderService';
+import refundService from '../../services/order/refundService';
+import { RefundBankAccount, RefundMethod } from '../../services/payment/paymentGatewayService';
+import RefundBankAccountForm, {
+  EMPTY_REFUND_BANK_ACCOUNT,
+  isRefundBankAccountComplete,
+} from '../../components/payment/RefundBankAccountForm';
 
 type NavigationProp = StackNavigationProp<ProfileStackParamList, 'CancelOrder'>;
 type RouteProps = RouteProp<ProfileStackParamList, 'CancelOrder'>;
@@ -40,14 +49,65 @@ export default function CancelOrderScreen() {
 
   const [selectedReason, setSelectedReason] = useState<string>('');
   const [additionalNotes, setAdditionalNotes] = useState<string>('');
+  const [refundMethod, setRefundMethod] = useState<RefundMethod | null>(null);
+  const [bankAccount, setBankAccount] = useState<RefundBankAccount>(EMPTY_REFUND_BANK_ACCOUNT);
+  const [loadingOrder, setLoadingOrder] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
 
-  const handleSubmitCancellation = () => {
-    // In a real app, you would submit the cancellation request
-    // Navigate back to order history or show success message
-    navigation.navigate('OrderHistory');
+  useEffect(() => {
+    orderService.getOrderById(orderId)
+      .then(order => setRefundMethod(refundService.getRefundMethod(order)))
+      .catch(() => {
+        // Treated as unpaid; the service checks again on submit
+      })
+      .finally(() => setLoadingOrder(false));
+  }, [orderId]);
+
+  const handleSubmitCancellation = async () => {
+    const reason = cancelReasons.find(item => item.id === selectedReason);
+    if (!reason) {
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const refund = await refundService.cancelOrder(orderId, {
+        reason: reason.label,
+        note: additionalNotes.trim() || undefined,
+        bankAccount: refundMethod === 'bank_transfer' ? bankAccount : undefined,
+      });
+
+      Alert.alert(
+        'Pesanan Dibatalkan',
+        refund
+          ? 'Pengembalian dana sedang diproses. Status pengembalian dapat dilihat di detail pesanan.'
+          : 'Pesanan Anda telah dibatalkan.',
+        [{ text: 'OK', onPress: () => navigation.navigate('OrderHistory') }]
+      );
+    } catch (error: any) {
+      Alert.alert('Gagal Membatalkan', error.message || 'Pesanan tidak dapat dibatalkan. Silakan coba lagi.');
+    } finally {
+      setSubmitting(false);
+    }
   };
 
-  const isFormValid = selectedReason !== '';
+  const isFormValid = selectedReason !== '' &&
+    !loadingOrder &&
+    !submitting &&
+    (refundMethod !== 'bank_transfer' || isRefundBankAccountComplete(bankAccount));
+
+  const getRefundDescription = () => {
+    switch (refundMethod) {
+      case 'bank_transfer':
+        return 'Refund akan dikembalikan ke rekening bank, dan membutuhkan waktu sekitar 1-3 hari kerja.';
+      case 'xendit_refund':
+        return 'Refund akan dikembalikan ke kartu atau e-wallet yang digunakan untuk membayar, dan membutuhkan waktu sekitar 3-14 hari kerja.';
+      case 'wallet':
+        return 'Refund akan langsung dikembalikan ke Saldo PawSmart Anda.';
+      default:
+        return 'Pesanan ini belum dibayar, sehingga tidak ada dana yang perlu dikembalikan.';
+    }
+  };
 
   return (
     <SafeAreaView style={styles.container} edges={['top']}>
@@ -115,11 +175,21 @@ export default function CancelOrderScreen() {
         {/* Process Information */}
         <View style={styles.processSection}>
           <Text style={styles.processTitle}>Proses Pengembalian</Text>
-          <Text style={styles.processDescription}>
-            Refund akan dikembalikan ke rekening bank, dan membutuhkan waktu sekitar 1-3 hari kerja.
-          </Text>
+          {loadingOrder ? (
+            <ActivityIndicator size="small" color={Colors.primary.main} />
+          ) : (
+            <Text style={styles.processDescription}>{getRefundDescription()}</Text>
+          )}
         </View>
 
+        {/* Refund bank account */}
+        {refundMethod === 'bank_transfer' && (
+          <View style={styles.processSection}>
+            <Text style={styles.sectionTitle}>Rekening Pengembalian Dana</Text>
+            <RefundBankAccountForm value={bankAccount} onChange={setBankAccount} />
+          </View>
+        )}
+
         {/* Terms and Conditions */}
         <View style={styles.termsSection}>
           <Text style={styles.termsText}>
@@ -139,12 +209,16 @@ export default function CancelOrderScreen() {
           onPress={handleSubmitCancellation}
           disabled={!isFormValid}
         >
-          <Text style={[
-            styles.submitButtonText,
-            !isFormValid && styles.submitButtonTextDisabled,
-          ]}>
-            Submit Form
-          </Text>
+          {submitting ? (
+            <ActivityIndicator size="small" color={Colors.text.white} />
+          ) : (
+            <Text style={[
+              styles.submitButtonText,
+              !isFormValid && styles.submitButtonTextDisabled,
+            ]}>
+              Submit Form
+            </Text>
+          )}
         </TouchableOpacity>
       </View>
     </SafeAreaView>
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   View,
   Text,
@@ -7,20 +7,28 @@ import {
   TouchableOpacity,
   Image,
   ActivityIndicator,
+  Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useNavigation, useRoute } from '@react-navigation/native';
+import { CompositeNavigationProp, useNavigation, useRoute, useFocusEffect } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
+import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 import { RouteProp } from '@react-navigation/native';
 import { MaterialIcons, Ionicons } from '@expo/vector-icons';
 import { Colors } from '../../constants/colors';
 import { Typography } from '../../constants/typography';
 import { Spacing, BorderRadius } from '../../constants/spacing';
-import { ProfileStackParamList } from '../../navigation/types';
+import { MainTabParamList, ProfileStackParamList } from '../../navigation/types';
 import kiriminAjaService, { ShippingService } from '../../services/shipping/kiriminAjaService';
+import packageService from '../../services/shipping/packageService';
 import { Address } from '../../services/addressServiceAPI';
+import refundService, { OrderReturn, RETURN_STATE_LABELS } from '../../services/order/refundService';
+import orderService, { Order } from '../../services/order/orderService';
 
-type NavigationProp = StackNavigationProp<ProfileStackParamList, 'OrderDetail'>;
+type NavigationProp = CompositeNavigationProp<
+  StackNavigationProp<ProfileStackParamList, 'OrderDetail'>,
+  BottomTabNavigationProp<MainTabParamList>
+>;
 type RouteProps = RouteProp<ProfileStackParamList, 'OrderDetail'>;
 
 type OrderStatus = 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
@@ -200,9 +208,46 @@ export default function OrderDetailScreen() {
   const [selectedShippingOption, setSelectedShippingOption] = useState<'express' | 'instant'>('express');
   const [loadingShipping, setLoadingShipping] = useState(false);
   const [shippingError, setShippingError] = useState<string | null>(null);
+  const [orderReturn, setOrderReturn] = useState<OrderReturn | null>(null);
+  const [odooOrder, setOdooOrder] = useState<Order | null>(null);
+  const [regeneratingPayment, setRegeneratingPayment] = useState(false);
+
+  // Refresh the order and its return when coming back from ReturnRequest or a payment
+  useFocusEffect(
+    useCallback(() => {
+      orderService.getOrderById(orderId)
+        .then(setOdooOrder)
+        .catch(() => {
+          // No payment section
+        });
+      refundService.getReturnForOrder(orderId)
+        .then(setOrderReturn)
+        .catch(() => {
+          // No return section
+        });
+    }, [orderId])
+  );
+
+  const canRegeneratePayment = !!odooOrder && orderService.canRegeneratePayment(odooOrder);
+
+  const handleRegeneratePayment = async () => {
+    setRegeneratingPayment(true);
+    try {
+      const reopened = await orderService.reopenExpiredOrder(orderId);
+      navigation.navigate('Activity', {
+        screen: 'Checkout',
+        params: { orderId: reopened.id.toString(), orderName: reopened.name },
+      });
+    } catch (error: any) {
+      Alert.alert('Gagal Membuat Pembayaran', error.message || 'Silakan coba lagi.');
+    } finally {
+      setRegeneratingPayment(false);
+    }
+  };
 
   // In a real app, you would fetch order details based on orderId
   const order = { ...mockOrderDetail, items: orderItems };
+  const canRequestReturn = order.status === 'delivered' && (!orderReturn || orderReturn.state === 'rejected');
 
   // Fetch shipping rates on mount
   useEffect(() => {
@@ -222,9 +267,9 @@ export default function OrderDetailScreen() {
         return;
       }
 
-      // Calculate total weight from items (assume 1kg per item as default)
-      // TODO: Add actual weight field to product/item
-      const totalWeight = order.items.reduce((sum, item) => sum + (item.quantity * 1000), 0); // 1000g = 1kg per item
+      // Weigh the parcel from the product weights in Odoo
+      const parcel = await packageService.calculatePackage(order.items);
+      const totalWeight = parcel.weight;
 
       // Check what shipping data we have available
       const hasDistrictId = !!deliveryAddress.district_id;
@@ -247,6 +292,9 @@ export default function OrderDetailScreen() {
           origin: Number(WAREHOUSE_ADDRESS.district_id),
           destination: Number(deliveryAddress.district_id),
           weight: totalWeight,
+          length: parcel.length,
+          width: parcel.width,
+          height: parcel.height,
           insurance: 0 as 0 | 1,
         };
         console.log('Fetching express rates with request:', shippingRequest);
@@ -369,6 +417,18 @@ export default function OrderDetailScreen() {
     }
   };
 
+  const getReturnStateColor = (state: OrderReturn['state']) => {
+    switch (state) {
+      case 'refunded':
+        return Colors.success.main;
+      case 'rejected':
+      case 'failed':
+        return Colors.error.main;
+      default:
+        return Colors.warning.main;
+    }
+  };
+
   const renderOrderItem = (item: OrderItem, index: number) => (
     <View key={item.id} style={styles.orderItemContainer}>
       <View style={styles.productHeader}>
@@ -485,6 +545,32 @@ export default function OrderDetailScreen() {
       </View>
 
       <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        {/* Expired payment */}
+        {canRegeneratePayment && (
+          <View style={styles.expiredBanner}>
+            <View style={styles.expiredHeader}>
+              <MaterialIcons name="timer-off" size={20} color={Colors.error.main} />
+              <Text style={styles.expiredTitle}>Pembayaran Kedaluwarsa</Text>
+            </View>
+            <Text style={styles.expiredText}>
+              {odooOrder?.cancel_reason === 'expired'
+                ? 'Pesanan dibatalkan karena pembayaran tidak diselesaikan tepat waktu. Buat pembayaran baru untuk melanjutkan pesanan ini.'
+                : 'Pembayaran sebelumnya tidak berhasil. Buat pembayaran baru untuk melanjutkan pesanan ini.'}
+            </Text>
+            <TouchableOpacity
+              style={styles.regenerateButton}
+              onPress={handleRegeneratePayment}
+              disabled={regeneratingPayment}
+            >
+              {regeneratingPayment ? (
+                <ActivityIndicator size="small" color={Colors.text.white} />
+              ) : (
+                <Text style={styles.regenerateButtonText}>Buat Pembayaran Baru</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+
         {/* Detail Pelanggan Section */}
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
@@ -752,9 +838,61 @@ export default function OrderDetailScreen() {
           </View>
         </View>
 
+        {/* Return & Refund */}
+        {orderReturn && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <View style={styles.sectionLine} />
+              <Text style={styles.sectionTitle}>
+                {orderReturn.type === 'return' ? 'Pengembalian Barang' : 'Pengembalian Dana'}
+              </Text>
+            </View>
+            <View style={styles.paymentInfo}>
+              <View style={styles.infoRow}>
+                <Text style={styles.infoLabel}>Status</Text>
+                <Text style={[styles.infoValue, { color: getReturnStateColor(orderReturn.state) }]}>
+                  {RETURN_STATE_LABELS[orderReturn.state]}
+                </Text>
+              </View>
+              <View style={styles.infoRow}>
+                <Text style={styles.infoLabel}>Alasan</Text>
+                <Text style={styles.infoValue}>{orderReturn.reason}</Text>
+              </View>
+              <View style={styles.infoRow}>
+                <Text style={styles.infoLabel}>Dana Dikembalikan</Text>
+                <Text style={styles.infoValue}>Rp{orderReturn.amount.toLocaleString('id-ID')}</Text>
+              </View>
+              <View style={styles.infoRow}>
+                <Text style={styles.infoLabel}>Dikembalikan ke</Text>
+                <Text style={styles.infoValue}>
+                  {orderReturn.bankAccount
+                    ? `${orderReturn.bankAccount.bankCode.toUpperCase()} ${orderReturn.bankAccount.accountNumber}`
+                    : 'Metode pembayaran awal'}
+                </Text>
+              </View>
+              {orderReturn.inspectionNote && (
+                <Text style={styles.addressText}>{orderReturn.inspectionNote}</Text>
+              )}
+              {orderReturn.state === 'failed' && (
+                <Text style={styles.addressText}>
+                  {orderReturn.failureReason || 'Pengembalian dana gagal'}. Tim kami akan menghubungi Anda.
+                </Text>
+              )}
+            </View>
+          </View>
+        )}
+
         {/* Action Button */}
         {order.status === 'delivered' && (
           <View style={styles.actionSection}>
+            {canRequestReturn && (
+              <TouchableOpacity
+                style={styles.returnButton}
+                onPress={() => navigation.navigate('ReturnRequest', { orderId })}
+              >
+                <Text style={styles.returnButtonText}>Ajukan Pengembalian</Text>
+              </TouchableOpacity>
+            )}
             <TouchableOpacity style={styles.backButton}>
               <Text style={styles.backButtonText}>Kembali</Text>
             </TouchableOpacity>
@@ -956,6 +1094,56 @@ const styles = StyleSheet.create({
     paddingVertical: Spacing.md,
     alignItems: 'center',
   },
+  expiredBanner: {
+    backgroundColor: Colors.background.primary,
+    borderWidth: 1,
+    borderColor: Colors.error.main,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.base,
+    marginHorizontal: Spacing.base,
+    marginTop: Spacing.base,
+  },
+  expiredHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+  expiredTitle: {
+    fontSize: Typography.fontSize.base,
+    fontFamily: Typography.fontFamily.semibold,
+    color: Colors.error.main,
+  },
+  expiredText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.text.secondary,
+    lineHeight: 20,
+    marginBottom: Spacing.md,
+  },
+  regenerateButton: {
+    backgroundColor: Colors.primary.main,
+    borderRadius: BorderRadius.full,
+    paddingVertical: Spacing.md,
+    alignItems: 'center',
+  },
+  regenerateButtonText: {
+    fontSize: Typography.fontSize.base,
+    color: Colors.text.white,
+    fontFamily: Typography.fontFamily.semibold,
+  },
+  returnButton: {
+    borderWidth: 1,
+    borderColor: Colors.primary.main,
+    borderRadius: BorderRadius.full,
+    paddingVertical: Spacing.md,
+    alignItems: 'center',
+    marginBottom: Spacing.md,
+  },
+  returnButtonText: {
+    fontSize: Typography.fontSize.base,
+    color: Colors.primary.main,
+    fontFamily: Typography.fontFamily.semibold,
+  },
   backButtonText: {
     fontSize: Typography.fontSize.base,
     color: Colors.text.white,
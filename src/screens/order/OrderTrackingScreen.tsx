@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
@@ -7,6 +7,7 @@ import {
   Image,
   ActivityIndicator,
   ScrollView,
+  RefreshControl,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { StackNavigationProp } from '@react-navigation/stack';
@@ -16,7 +17,9 @@ import { ProfileStackParamList } from '../../navigation/types';
 import { Colors } from '../../constants/colors';
 import { Typography } from '../../constants/typography';
 import { Spacing, BorderRadius } from '../../constants/spacing';
-import { useOrder } from '../../hooks/useActivities';
+import { useOrder, useShipmentTracking } from '../../hooks/useActivities';
+import { Order, ORDER_STATUS_LABELS } from '../../services';
+import { ShipmentTracking } from '../../services/shipping/shipmentTrackingService';
 
 type OrderTrackingScreenNavigationProp = StackNavigationProp<
   ProfileStackParamList,
@@ -36,11 +39,23 @@ interface Props {
 interface TrackingStatus {
   id: string;
   title: string;
+  location?: string;
   date?: string;
   completed: boolean;
   current?: boolean;
 }
 
+// Accepts ISO timestamps and KiriminAja's 'YYYY-MM-DD HH:MM:SS'
+const formatTrackingDate = (value?: string): string => {
+  if (!value) return '';
+  const date = new Date(value.includes('T') ? value : value.replace(' ', 'T'));
+  if (isNaN(date.getTime())) return value;
+  const months = ['Jan', 'Feb', 'Mar', 'Apr', 'Mei', 'Jun', 'Jul', 'Agu', 'Sep', 'Okt', 'Nov', 'Des'];
+  const hours = date.getHours().toString().padStart(2, '0');
+  const minutes = date.getMinutes().toString().padStart(2, '0');
+  return `${date.getDate()} ${months[date.getMonth()]} ${date.getFullYear()}, ${hours}:${minutes}`;
+};
+
 const OrderTrackingScreen: React.FC<Props> = ({ navigation, route }) => {
   const { orderId } = route.params;
 
@@ -53,33 +68,95 @@ const OrderTrackingScreen: React.FC<Props> = ({ navigation, route }) => {
     refetch
   } = useOrder(orderId);
 
-  // Define tracking statuses exactly like the screenshot
-  const getTrackingStatuses = (orderState: string, orderDate?: string): TrackingStatus[] => {
-    const statuses: TrackingStatus[] = [
-      {
-        id: 'processing',
-        title: 'Pesanan dalam proses pengantaran',
-        date: '2 Mei 2025, 16:00',
+  const {
+    data: tracking,
+    isLoading: isTrackingLoading,
+    isError: isTrackingError,
+    refetch: refetchTracking,
+  } = useShipmentTracking(order);
+
+  const [refreshing, setRefreshing] = useState(false);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    try {
+      await Promise.all([refetch(), refetchTracking()]);
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  // Courier history when the order has an AWB, otherwise the order's own status timeline
+  const getTrackingStatuses = (
+    currentOrder: Order,
+    shipmentTracking?: ShipmentTracking | null
+  ): TrackingStatus[] => {
+    if (shipmentTracking && shipmentTracking.history.length > 0) {
+      return shipmentTracking.history.map((entry, index) => ({
+        id: `history-${index}`,
+        title: entry.description,
+        location: entry.location,
+        date: formatTrackingDate(entry.date),
+        completed: true,
+        current: index === 0,
+      }));
+    }
+
+    const statuses: TrackingStatus[] = [...(currentOrder.status_history || [])]
+      .reverse()
+      .map((event, index) => ({
+        id: `event-${event.id ?? index}`,
+        title: ORDER_STATUS_LABELS[event.status] || event.status,
+        date: formatTrackingDate(event.timestamp),
         completed: true,
-        current: true,
-      },
-      {
-        id: 'shipped',
-        title: 'Pesanan telah diserahkan ke jasa pengiriman',
-        date: '2 Mei 2025, 16:00',
-        completed: false,
-      },
-      {
-        id: 'created',
-        title: 'Pesanan dibuat',
-        date: '2 Mei 2025, 14:00',
-        completed: false,
-      },
-    ];
+        current: index === 0,
+      }));
+
+    statuses.push({
+      id: 'created',
+      title: 'Pesanan dibuat',
+      date: formatTrackingDate(currentOrder.date_order),
+      completed: true,
+      current: statuses.length === 0,
+    });
 
     return statuses;
   };
 
+  const getStatusSummary = (currentOrder: Order, shipmentTracking?: ShipmentTracking | null) => {
+    if (!currentOrder.shipment?.awb) {
+      return {
+        title: currentOrder.statusText || 'Pesanan Diproses',
+        date: formatTrackingDate(currentOrder.status_history?.slice(-1)[0]?.timestamp || currentOrder.date_order),
+        description: 'Nomor resi akan tersedia setelah pesanan diserahkan ke jasa pengiriman.',
+      };
+    }
+
+    if (!shipmentTracking) {
+      return {
+        title: isTrackingLoading ? 'Memuat status pengiriman...' : 'Status pengiriman belum tersedia',
+        date: '',
+        description: isTrackingError
+          ? 'Gagal memuat status pengiriman. Tarik ke bawah untuk mencoba lagi.'
+          : 'Silakan lacak status pengiriman secara berkala untuk informasi terkini.',
+      };
+    }
+
+    const latestDate = shipmentTracking.history[0]?.date;
+    const description = shipmentTracking.isCached
+      ? `Gagal memperbarui status. Menampilkan status terakhir per ${formatTrackingDate(shipmentTracking.fetchedAt)}.`
+      : shipmentTracking.delivered
+        ? shipmentTracking.receiverName
+          ? `Paket telah diterima oleh ${shipmentTracking.receiverName}.`
+          : 'Paket telah diterima.'
+        : 'Silakan lacak status pengiriman secara berkala untuk informasi terkini.';
+
+    return {
+      title: shipmentTracking.statusName || 'Paket Anda Dalam Perjalanan',
+      date: formatTrackingDate(latestDate || shipmentTracking.fetchedAt),
+      description,
+    };
+  };
 
   const renderTrackingStatus = (status: TrackingStatus, index: number, statuses: TrackingStatus[]) => {
     const isLast = index === statuses.length - 1;
@@ -101,10 +178,13 @@ const OrderTrackingScreen: React.FC<Props> = ({ navigation, route }) => {
         <View style={styles.trackingContent}>
           <Text style={[
             styles.trackingTitle,
-            status.completed || status.current ? styles.trackingTitleActive : styles.trackingTitleInactive
+            status.current ? styles.trackingTitleActive : styles.trackingTitleInactive
           ]}>
             {status.title}
           </Text>
+          {status.location ? (
+            <Text style={styles.trackingLocation}>{status.location}</Text>
+          ) : null}
           {status.date && (
             <Text style={styles.trackingDate}>
               {status.date}
@@ -155,7 +235,8 @@ const OrderTrackingScreen: React.FC<Props> = ({ navigation, route }) => {
     );
   }
 
-  const trackingStatuses = getTrackingStatuses(order?.state || 'processing', order?.date_order);
+  const trackingStatuses = getTrackingStatuses(order, tracking);
+  const statusSummary = getStatusSummary(order, tracking);
   const firstOrderLine = order?.order_line?.[0] || order?.items?.[0];
   const productImage = firstOrderLine?.image_128;
 
@@ -173,7 +254,18 @@ const OrderTrackingScreen: React.FC<Props> = ({ navigation, route }) => {
         <View style={styles.headerSpacer} />
       </View>
 
-      <ScrollView style={styles.scrollContainer} showsVerticalScrollIndicator={false}>
+      <ScrollView
+        style={styles.scrollContainer}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={handleRefresh}
+            colors={[Colors.primary.main]}
+            tintColor={Colors.primary.main}
+          />
+        }
+      >
         {/* Product Section - exact match to screenshot */}
         <View style={styles.productSection}>
           <View style={styles.productImageContainer}>
@@ -211,6 +303,14 @@ const OrderTrackingScreen: React.FC<Props> = ({ navigation, route }) => {
               <Text style={styles.orderInfoValue}>{order?.name || '123456644'}</Text>
             </View>
           </View>
+          {order.shipment?.awb ? (
+            <View style={styles.orderInfoRow}>
+              <Text style={styles.orderInfoLabel}>No. Resi</Text>
+              <Text style={styles.orderInfoValue}>
+                {order.shipment.courier ? `${order.shipment.courier.toUpperCase()} - ` : ''}{order.shipment.awb}
+              </Text>
+            </View>
+          ) : null}
           <View style={styles.orderInfoRow}>
             <Text style={styles.orderInfoLabel}>Jumlah SKU Produk</Text>
             <Text style={styles.orderInfoValue}></Text>
@@ -227,11 +327,18 @@ const OrderTrackingScreen: React.FC<Props> = ({ navigation, route }) => {
         {/* Status Section - exact match to screenshot */}
         <View style={styles.statusSection}>
           <Text style={styles.statusTitle}>Status</Text>
-          <Text style={styles.statusDate}>1 Mei 2025, 07 : 00 WIB</Text>
+          {statusSummary.date ? (
+            <Text style={styles.statusDate}>{statusSummary.date}</Text>
+          ) : null}
 
-          <Text style={styles.statusWarning}>Paket Anda Dalam Perjalanan</Text>
+          <Text style={[
+            styles.statusWarning,
+            tracking?.delivered && styles.statusDelivered
+          ]}>
+            {statusSummary.title}
+          </Text>
           <Text style={styles.statusDescription}>
-            Silakan lacak status pengiriman secara berkala untuk informasi terkini.
+            {statusSummary.description}
           </Text>
         </View>
       </ScrollView>
@@ -419,6 +526,12 @@ const styles = StyleSheet.create({
   trackingTitleInactive: {
     color: Colors.text.secondary,
   },
+  trackingLocation: {
+    fontSize: Typography.fontSize.xs,
+    fontFamily: Typography.fontFamily.regular,
+    color: Colors.text.secondary,
+    marginBottom: Spacing.xs,
+  },
   trackingDate: {
     fontSize: Typography.fontSize.xs,
     fontFamily: Typography.fontFamily.regular,
@@ -450,6 +563,9 @@ const styles = StyleSheet.create({
     color: Colors.error.main,
     marginBottom: Spacing.sm,
   },
+  statusDelivered: {
+    color: Colors.success.main,
+  },
   statusDescription: {
     fontSize: Typography.fontSize.sm,
     fontFamily: Typography.fontFamily.regular,
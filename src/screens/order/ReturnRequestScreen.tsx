@@ -0,0 +1,482 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Image,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RouteProp } from '@react-navigation/native';
+import { Ionicons, MaterialIcons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+import { Colors } from '../../constants/colors';
+import { Typography } from '../../constants/typography';
+import { Spacing, BorderRadius } from '../../constants/spacing';
+import { ProfileStackParamList } from '../../navigation/types';
+import orderService from '../../services/order/orderService';
+import refundService, { MIN_RETURN_PHOTOS } from '../../services/order/refundService';
+import { RefundBankAccount, RefundMethod } from '../../services/payment/paymentGatewayService';
+import RefundBankAccountForm, {
+  EMPTY_REFUND_BANK_ACCOUNT,
+  isRefundBankAccountComplete,
+} from '../../components/payment/RefundBankAccountForm';
+
+type NavigationProp = StackNavigationProp<ProfileStackParamList, 'ReturnRequest'>;
+type RouteProps = RouteProp<ProfileStackParamList, 'ReturnRequest'>;
+
+interface ReturnReason {
+  id: string;
+  label: string;
+}
+
+interface ReturnPhotoAsset {
+  uri: string;
+  base64: string;
+}
+
+const returnReasons: ReturnReason[] = [
+  { id: '1', label: 'Barang rusak atau cacat' },
+  { id: '2', label: 'Barang tidak sesuai pesanan' },
+  { id: '3', label: 'Barang kurang atau tidak lengkap' },
+  { id: '4', label: 'Produk kedaluwarsa' },
+  { id: '5', label: 'Lainnya' },
+];
+
+const MAX_PHOTOS = 5;
+
+export default function ReturnRequestScreen() {
+  const navigation = useNavigation<NavigationProp>();
+  const route = useRoute<RouteProps>();
+  const { orderId } = route.params;
+
+  const [selectedReason, setSelectedReason] = useState<string>('');
+  const [additionalNotes, setAdditionalNotes] = useState<string>('');
+  const [photos, setPhotos] = useState<ReturnPhotoAsset[]>([]);
+  const [refundMethod, setRefundMethod] = useState<RefundMethod | null>(null);
+  const [bankAccount, setBankAccount] = useState<RefundBankAccount>(EMPTY_REFUND_BANK_ACCOUNT);
+  const [loadingOrder, setLoadingOrder] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    orderService.getOrderById(orderId)
+      .then(order => setRefundMethod(refundService.getRefundMethod(order)))
+      .catch(() => {
+        // The service checks the order again on submit
+      })
+      .finally(() => setLoadingOrder(false));
+  }, [orderId]);
+
+  const addPhoto = (result: ImagePicker.ImagePickerResult) => {
+    const asset = !result.canceled ? result.assets[0] : null;
+    if (asset?.base64) {
+      setPhotos(prev => [...prev, { uri: asset.uri, base64: asset.base64! }].slice(0, MAX_PHOTOS));
+    }
+  };
+
+  const takePhoto = async () => {
+    const { status } = await ImagePicker.requestCameraPermissionsAsync();
+
+    if (status !== 'granted') {
+      Alert.alert('Izin Diperlukan', 'Aplikasi memerlukan akses ke kamera untuk mengambil foto.');
+      return;
+    }
+
+    addPhoto(await ImagePicker.launchCameraAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      quality: 0.5,
+      base64: true,
+    }));
+  };
+
+  const pickPhotoFromGallery = async () => {
+    const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+
+    if (status !== 'granted') {
+      Alert.alert('Izin Diperlukan', 'Aplikasi memerlukan akses ke galeri untuk memilih foto.');
+      return;
+    }
+
+    addPhoto(await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      quality: 0.5,
+      base64: true,
+    }));
+  };
+
+  const showPhotoOptions = () => {
+    Alert.alert('Tambah Foto', 'Pilih sumber foto', [
+      { text: 'Kamera', onPress: takePhoto },
+      { text: 'Galeri', onPress: pickPhotoFromGallery },
+      { text: 'Batal', style: 'cancel' },
+    ]);
+  };
+
+  const removePhoto = (index: number) => {
+    setPhotos(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSubmit = async () => {
+    const reason = returnReasons.find(item => item.id === selectedReason);
+    if (!reason) {
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await refundService.requestReturn(orderId, {
+        reason: reason.label,
+        note: additionalNotes.trim() || undefined,
+        photos: photos.map(photo => ({ base64: photo.base64 })),
+        bankAccount: refundMethod === 'bank_transfer' ? bankAccount : undefined,
+      });
+
+      Alert.alert(
+        'Pengembalian Diajukan',
+        'Admin akan memeriksa pengajuan Anda. Dana dikembalikan setelah pengembalian disetujui.',
+        [{ text: 'OK', onPress: () => navigation.goBack() }]
+      );
+    } catch (error: any) {
+      Alert.alert('Gagal Mengajukan', error.message || 'Pengembalian tidak dapat diajukan. Silakan coba lagi.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const isFormValid = selectedReason !== '' &&
+    photos.length >= MIN_RETURN_PHOTOS &&
+    !loadingOrder &&
+    !submitting &&
+    refundMethod !== null &&
+    (refundMethod !== 'bank_transfer' || isRefundBankAccountComplete(bankAccount));
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Ionicons name="chevron-back" size={24} color={Colors.text.primary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Ajukan Pengembalian</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.formHeader}>
+          <Text style={styles.formTitle}>Form Pengembalian Barang</Text>
+          <Text style={styles.formDescription}>
+            Ceritakan kendala pada pesanan Anda dan lampirkan foto barang. Admin akan memeriksa pengajuan sebelum dana dikembalikan.
+          </Text>
+        </View>
+
+        {!loadingOrder && refundMethod === null && (
+          <View style={styles.noticeBox}>
+            <MaterialIcons name="info-outline" size={18} color={Colors.warning.main} />
+            <Text style={styles.noticeText}>
+              Pesanan ini tidak memiliki pembayaran yang dapat dikembalikan.
+            </Text>
+          </View>
+        )}
+
+        {/* Return Reasons */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Alasan Pengembalian</Text>
+
+          <View style={styles.reasonsList}>
+            {returnReasons.map((reason) => (
+              <TouchableOpacity
+                key={reason.id}
+                style={styles.reasonOption}
+                onPress={() => setSelectedReason(reason.id)}
+              >
+                <View style={styles.radioContainer}>
+                  <View
+                    style={[
+                      styles.radioButton,
+                      selectedReason === reason.id && styles.radioButtonSelected,
+                    ]}
+                  >
+                    {selectedReason === reason.id && (
+                      <View style={styles.radioButtonInner} />
+                    )}
+                  </View>
+                </View>
+                <Text style={styles.reasonLabel}>{reason.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        {/* Photos */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Foto Barang</Text>
+          <Text style={styles.sectionHint}>Minimal {MIN_RETURN_PHOTOS} foto, maksimal {MAX_PHOTOS} foto</Text>
+          <View style={styles.photoGrid}>
+            {photos.map((photo, index) => (
+              <View key={photo.uri} style={styles.photoItem}>
+                <Image source={{ uri: photo.uri }} style={styles.photoImage} />
+                <TouchableOpacity style={styles.removePhotoButton} onPress={() => removePhoto(index)}>
+                  <Ionicons name="close" size={14} color={Colors.text.white} />
+                </TouchableOpacity>
+              </View>
+            ))}
+            {photos.length < MAX_PHOTOS && (
+              <TouchableOpacity style={styles.addPhotoButton} onPress={showPhotoOptions}>
+                <MaterialIcons name="add-a-photo" size={24} color={Colors.primary.main} />
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+
+        {/* Additional Notes */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Catatan tambahan</Text>
+          <TextInput
+            style={styles.notesInput}
+            placeholder="jelaskan kendala pada barang"
+            placeholderTextColor={Colors.text.tertiary}
+            value={additionalNotes}
+            onChangeText={setAdditionalNotes}
+            multiline
+            textAlignVertical="top"
+          />
+        </View>
+
+        {/* Refund destination */}
+        {refundMethod === 'bank_transfer' && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Rekening Pengembalian Dana</Text>
+            <RefundBankAccountForm value={bankAccount} onChange={setBankAccount} />
+          </View>
+        )}
+
+        {refundMethod === 'xendit_refund' && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Pengembalian Dana</Text>
+            <Text style={styles.formDescription}>
+              Dana akan dikembalikan ke kartu atau e-wallet yang digunakan untuk membayar.
+            </Text>
+          </View>
+        )}
+
+        {refundMethod === 'wallet' && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Pengembalian Dana</Text>
+            <Text style={styles.formDescription}>
+              Dana akan dikembalikan ke Saldo PawSmart Anda setelah pengembalian disetujui.
+            </Text>
+          </View>
+        )}
+      </ScrollView>
+
+      {/* Submit Button */}
+      <View style={styles.submitContainer}>
+        <TouchableOpacity
+          style={[
+            styles.submitButton,
+            !isFormValid && styles.submitButtonDisabled,
+          ]}
+          onPress={handleSubmit}
+          disabled={!isFormValid}
+        >
+          {submitting ? (
+            <ActivityIndicator size="small" color={Colors.text.white} />
+          ) : (
+            <Text style={[
+              styles.submitButtonText,
+              !isFormValid && styles.submitButtonTextDisabled,
+            ]}>
+              Ajukan Pengembalian
+            </Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background.secondary,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: Spacing.base,
+    paddingVertical: Spacing.md,
+    backgroundColor: Colors.background.primary,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border.light,
+  },
+  headerTitle: {
+    fontSize: Typography.fontSize.lg,
+    fontFamily: Typography.fontFamily.semibold,
+    color: Colors.text.primary,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: Spacing.base,
+    paddingTop: Spacing.lg,
+  },
+  formHeader: {
+    marginBottom: Spacing.xl,
+  },
+  formTitle: {
+    fontSize: Typography.fontSize.xl,
+    fontFamily: Typography.fontFamily.bold,
+    color: Colors.text.primary,
+    marginBottom: Spacing.md,
+  },
+  formDescription: {
+    fontSize: Typography.fontSize.base,
+    color: Colors.text.secondary,
+    lineHeight: 24,
+  },
+  noticeBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    backgroundColor: Colors.background.primary,
+    borderWidth: 1,
+    borderColor: Colors.warning.main,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    marginBottom: Spacing.xl,
+  },
+  noticeText: {
+    flex: 1,
+    fontSize: Typography.fontSize.sm,
+    color: Colors.text.secondary,
+  },
+  section: {
+    marginBottom: Spacing.xl,
+  },
+  sectionTitle: {
+    fontSize: Typography.fontSize.lg,
+    fontFamily: Typography.fontFamily.semibold,
+    color: Colors.text.secondary,
+    marginBottom: Spacing.lg,
+  },
+  sectionHint: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.text.tertiary,
+    marginTop: -Spacing.md,
+    marginBottom: Spacing.md,
+  },
+  reasonsList: {
+    gap: Spacing.base,
+  },
+  reasonOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.background.primary,
+    borderWidth: 1,
+    borderColor: Colors.border.light,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.base,
+  },
+  radioContainer: {
+    marginRight: Spacing.md,
+  },
+  radioButton: {
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: Colors.border.light,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  radioButtonSelected: {
+    borderColor: Colors.primary.main,
+  },
+  radioButtonInner: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: Colors.primary.main,
+  },
+  reasonLabel: {
+    fontSize: Typography.fontSize.base,
+    color: Colors.text.secondary,
+    flex: 1,
+  },
+  photoGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+  },
+  photoItem: {
+    width: 80,
+    height: 80,
+  },
+  photoImage: {
+    width: 80,
+    height: 80,
+    borderRadius: BorderRadius.md,
+  },
+  removePhotoButton: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  addPhotoButton: {
+    width: 80,
+    height: 80,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: Colors.primary.main,
+    backgroundColor: Colors.background.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  notesInput: {
+    backgroundColor: Colors.background.primary,
+    borderWidth: 1,
+    borderColor: Colors.border.light,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.base,
+    fontSize: Typography.fontSize.base,
+    color: Colors.text.primary,
+    minHeight: 100,
+  },
+  submitContainer: {
+    paddingHorizontal: Spacing.base,
+    paddingVertical: Spacing.base,
+    backgroundColor: Colors.background.primary,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border.light,
+  },
+  submitButton: {
+    backgroundColor: Colors.primary.main,
+    borderRadius: BorderRadius.full,
+    paddingVertical: Spacing.md,
+    alignItems: 'center',
+  },
+  submitButtonDisabled: {
+    backgroundColor: Colors.background.tertiary,
+  },
+  submitButtonText: {
+    fontSize: Typography.fontSize.base,
+    color: Colors.text.white,
+    fontFamily: Typography.fontFamily.semibold,
+  },
+  submitButtonTextDisabled: {
+    color: Colors.text.tertiary,
+  },
+});
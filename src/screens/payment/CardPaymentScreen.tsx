@@ -0,0 +1,576 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+  TextInput,
+  Switch,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { Ionicons, MaterialIcons } from '@expo/vector-icons';
+import { Colors } from '../../constants/colors';
+import { Typography } from '../../constants/typography';
+import { Spacing, BorderRadius } from '../../constants/spacing';
+import { RootStackParamList } from '../../navigation/types';
+import { useAuth } from '../../contexts/AuthContext';
+import CardAuthenticationModal from '../../components/payment/CardAuthenticationModal';
+import cardPaymentService, {
+  CardAuthentication,
+  CardPaymentError,
+  SavedCard,
+} from '../../services/payment/cardPaymentService';
+import { CardAuthenticationStatus } from '../../services/payment/xenditPaymentGateway';
+
+type PaymentRouteProp = RouteProp<RootStackParamList, 'CardPayment'>;
+type NavigationProp = StackNavigationProp<RootStackParamList, 'CardPayment'>;
+
+const NEW_CARD = 'new';
+
+// '4111111111111111' -> '4111 1111 1111 1111'
+const formatCardNumber = (value: string) =>
+  value.replace(/\D/g, '').substring(0, 19).replace(/(\d{4})(?=\d)/g, '$1 ');
+
+// '1228' -> '12/28'
+const formatExpiry = (value: string) => {
+  const digits = value.replace(/\D/g, '').substring(0, 4);
+  return digits.length > 2 ? `${digits.substring(0, 2)}/${digits.substring(2)}` : digits;
+};
+
+export default function CardPaymentScreen() {
+  const navigation = useNavigation<NavigationProp>();
+  const route = useRoute<PaymentRouteProp>();
+  const { user } = useAuth();
+
+  const { orderInfo } = route.params;
+  const amount = orderInfo.totalAmount;
+
+  const [savedCards, setSavedCards] = useState<SavedCard[]>([]);
+  const [selectedCard, setSelectedCard] = useState<number | typeof NEW_CARD>(NEW_CARD);
+  const [loadingCards, setLoadingCards] = useState(true);
+  const [cardNumber, setCardNumber] = useState('');
+  const [expiry, setExpiry] = useState('');
+  const [cvv, setCvv] = useState('');
+  const [holderName, setHolderName] = useState('');
+  const [saveCard, setSaveCard] = useState(true);
+  const [processing, setProcessing] = useState(false);
+  const [pendingAuthentication, setPendingAuthentication] = useState<CardAuthentication | null>(null);
+
+  useEffect(() => {
+    loadSavedCards();
+  }, []);
+
+  const loadSavedCards = async () => {
+    if (!user?.partner_id) {
+      setLoadingCards(false);
+      return;
+    }
+
+    try {
+      const cards = await cardPaymentService.getSavedCards(user.partner_id);
+      setSavedCards(cards);
+
+      const preferred = cards.find(card => card.isDefault && !card.isExpired) || cards.find(card => !card.isExpired);
+      setSelectedCard(preferred ? preferred.id : NEW_CARD);
+    } catch (error) {
+      // Fall back to entering a new card
+    } finally {
+      setLoadingCards(false);
+    }
+  };
+
+  const handleCardOptions = (card: SavedCard) => {
+    Alert.alert(card.maskedNumber, 'Kelola kartu tersimpan', [
+      { text: 'Batal', style: 'cancel' },
+      ...(!card.isDefault ? [{
+        text: 'Jadikan Utama',
+        onPress: async () => {
+          try {
+            await cardPaymentService.setDefaultCard(user!.partner_id!, card.id);
+            await loadSavedCards();
+          } catch (error) {
+            Alert.alert('Error', 'Gagal memperbarui kartu utama');
+          }
+        },
+      }] : []),
+      {
+        text: 'Hapus',
+        style: 'destructive' as const,
+        onPress: async () => {
+          try {
+            await cardPaymentService.deleteSavedCard(card.id);
+            await loadSavedCards();
+          } catch (error) {
+            Alert.alert('Error', 'Gagal menghapus kartu');
+          }
+        },
+      },
+    ]);
+  };
+
+  const handlePay = async () => {
+    if (processing) {
+      return;
+    }
+
+    setProcessing(true);
+    try {
+      let authentication: CardAuthentication;
+
+      if (selectedCard === NEW_CARD) {
+        const [expMonth, expYear] = expiry.split('/');
+        authentication = await cardPaymentService.authenticateNewCard(
+          {
+            number: cardNumber,
+            expMonth: expMonth || '',
+            expYear: expYear ? `20${expYear}` : '',
+            cvn: cvv,
+            holderName: holderName.trim() || undefined,
+          },
+          amount,
+          saveCard && !!user?.partner_id
+        );
+      } else {
+        const card = savedCards.find(saved => saved.id === selectedCard)!;
+        authentication = await cardPaymentService.authenticateSavedCard(card, amount, cvv);
+      }
+
+      // The issuer wants a challenge; payment continues from the modal
+      if (authentication.status === 'IN_REVIEW' && authentication.authenticationUrl) {
+        setPendingAuthentication(authentication);
+        return;
+      }
+
+      await completePayment(authentication);
+    } catch (error: any) {
+      Alert.alert('Pembayaran Gagal', error instanceof CardPaymentError ? error.message : 'Gagal memproses kartu. Silakan coba lagi.');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleAuthenticationComplete = async (status: CardAuthenticationStatus) => {
+    const authentication = pendingAuthentication;
+    setPendingAuthentication(null);
+    if (!authentication) {
+      return;
+    }
+
+    setProcessing(true);
+    try {
+      await completePayment({ ...authentication, status });
+    } catch (error: any) {
+      Alert.alert('Pembayaran Gagal', error instanceof CardPaymentError ? error.message : 'Gagal memproses kartu. Silakan coba lagi.');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const completePayment = async (authentication: CardAuthentication) => {
+    const result = await cardPaymentService.chargeOrder(
+      user?.partner_id || 0,
+      orderInfo.orderId,
+      authentication,
+      amount,
+      `PawSmart ${orderInfo.orderName}`
+    );
+
+    if (result.status !== 'PAID') {
+      // Captured but not confirmed yet; the payment status engine keeps checking
+      Alert.alert(
+        'Pembayaran Diproses',
+        'Pembayaran kartu sedang dikonfirmasi. Status pesanan akan diperbarui otomatis.',
+        [{ text: 'OK', onPress: () => navigation.navigate('Main', { screen: 'Home' }) }]
+      );
+      return;
+    }
+
+    navigation.replace('UniversalSuccess', {
+      orderId: orderInfo.orderId,
+      orderName: orderInfo.orderName,
+      totalAmount: amount,
+      transactionId: result.payment.paymentId,
+      transactionType: 'Kartu Kredit/Debit',
+      timestamp: new Date().toLocaleDateString('id-ID', {
+        day: 'numeric',
+        month: 'long',
+        year: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+      }) + ' WIB',
+    });
+  };
+
+  const renderSavedCard = (card: SavedCard) => {
+    const selected = selectedCard === card.id;
+
+    return (
+      <TouchableOpacity
+        key={card.id}
+        style={[styles.cardOption, selected && styles.cardOptionSelected]}
+        onPress={() => !card.isExpired && setSelectedCard(card.id)}
+        onLongPress={() => handleCardOptions(card)}
+        disabled={processing}
+      >
+        <MaterialIcons
+          name={selected ? 'radio-button-checked' : 'radio-button-unchecked'}
+          size={20}
+          color={selected ? Colors.primary.main : Colors.text.tertiary}
+        />
+        <View style={styles.cardInfo}>
+          <Text style={styles.cardNumber}>{card.brand !== 'UNKNOWN' ? `${card.brand} ` : ''}{card.maskedNumber}</Text>
+          <Text style={styles.cardMeta}>
+            {[card.bank, card.cardType === 'DEBIT' ? 'Debit' : card.cardType === 'CREDIT' ? 'Kredit' : null, `${card.expMonth}/${card.expYear.slice(-2)}`]
+              .filter(Boolean)
+              .join(' • ')}
+          </Text>
+        </View>
+        {card.isExpired ? (
+          <Text style={styles.expiredBadge}>Kedaluwarsa</Text>
+        ) : card.isDefault ? (
+          <Text style={styles.defaultBadge}>Utama</Text>
+        ) : null}
+        <TouchableOpacity onPress={() => handleCardOptions(card)} style={styles.moreButton}>
+          <MaterialIcons name="more-vert" size={20} color={Colors.text.tertiary} />
+        </TouchableOpacity>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} disabled={processing}>
+          <Ionicons name="chevron-back" size={24} color={Colors.text.primary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Kartu Kredit/Debit</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        {/* Payment Info Section */}
+        <View style={styles.paymentInfoSection}>
+          <Text style={styles.label}>Total Pembayaran</Text>
+          <Text style={styles.amount}>Rp {amount.toLocaleString('id-ID')}</Text>
+          <Text style={styles.orderName}>{orderInfo.orderName}</Text>
+        </View>
+
+        {/* Saved Cards */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Pilih Kartu</Text>
+          {loadingCards ? (
+            <ActivityIndicator color={Colors.primary.main} style={{ marginVertical: Spacing.md }} />
+          ) : (
+            savedCards.map(renderSavedCard)
+          )}
+
+          <TouchableOpacity
+            style={[styles.cardOption, selectedCard === NEW_CARD && styles.cardOptionSelected]}
+            onPress={() => setSelectedCard(NEW_CARD)}
+            disabled={processing}
+          >
+            <MaterialIcons
+              name={selectedCard === NEW_CARD ? 'radio-button-checked' : 'radio-button-unchecked'}
+              size={20}
+              color={selectedCard === NEW_CARD ? Colors.primary.main : Colors.text.tertiary}
+            />
+            <View style={styles.cardInfo}>
+              <Text style={styles.cardNumber}>Kartu Baru</Text>
+            </View>
+            <MaterialIcons name="credit-card" size={20} color={Colors.primary.main} />
+          </TouchableOpacity>
+        </View>
+
+        {/* Card Form */}
+        <View style={styles.section}>
+          {selectedCard === NEW_CARD && (
+            <>
+              <Text style={styles.inputLabel}>Nomor Kartu</Text>
+              <TextInput
+                style={styles.input}
+                value={cardNumber}
+                onChangeText={value => setCardNumber(formatCardNumber(value))}
+                placeholder="0000 0000 0000 0000"
+                placeholderTextColor={Colors.text.tertiary}
+                keyboardType="number-pad"
+                autoComplete="cc-number"
+                editable={!processing}
+              />
+
+              <Text style={styles.inputLabel}>Nama Pemilik Kartu</Text>
+              <TextInput
+                style={styles.input}
+                value={holderName}
+                onChangeText={setHolderName}
+                placeholder="Sesuai yang tertera di kartu"
+                placeholderTextColor={Colors.text.tertiary}
+                autoCapitalize="characters"
+                editable={!processing}
+              />
+            </>
+          )}
+
+          <View style={styles.inputRow}>
+            {selectedCard === NEW_CARD && (
+              <View style={styles.inputColumn}>
+                <Text style={styles.inputLabel}>Masa Berlaku</Text>
+                <TextInput
+                  style={styles.input}
+                  value={expiry}
+                  onChangeText={value => setExpiry(formatExpiry(value))}
+                  placeholder="BB/TT"
+                  placeholderTextColor={Colors.text.tertiary}
+                  keyboardType="number-pad"
+                  autoComplete="cc-exp"
+                  editable={!processing}
+                />
+              </View>
+            )}
+            <View style={styles.inputColumn}>
+              <Text style={styles.inputLabel}>CVV</Text>
+              <TextInput
+                style={styles.input}
+                value={cvv}
+                onChangeText={value => setCvv(value.replace(/\D/g, '').substring(0, 4))}
+                placeholder="123"
+                placeholderTextColor={Colors.text.tertiary}
+                keyboardType="number-pad"
+                autoComplete="cc-csc"
+                secureTextEntry
+                editable={!processing}
+              />
+            </View>
+          </View>
+
+          {selectedCard === NEW_CARD && !!user?.partner_id && (
+            <View style={styles.saveCardRow}>
+              <Text style={styles.saveCardText}>Simpan kartu untuk pembayaran berikutnya</Text>
+              <Switch
+                value={saveCard}
+                onValueChange={setSaveCard}
+                trackColor={{ false: Colors.border.main, true: Colors.primary.light }}
+                thumbColor={saveCard ? Colors.primary.main : Colors.background.secondary}
+                disabled={processing}
+              />
+            </View>
+          )}
+
+          <View style={styles.securityNote}>
+            <MaterialIcons name="lock" size={16} color={Colors.success.main} />
+            <Text style={styles.securityText}>
+              Data kartu dienkripsi dan dikirim langsung ke Xendit. Bank penerbit dapat meminta verifikasi 3-D Secure (OTP).
+            </Text>
+          </View>
+        </View>
+      </ScrollView>
+
+      {/* Bottom Pay Button */}
+      <View style={styles.bottomSection}>
+        <TouchableOpacity
+          style={[styles.payButton, processing && styles.payButtonDisabled]}
+          onPress={handlePay}
+          disabled={processing}
+        >
+          {processing ? (
+            <ActivityIndicator color={Colors.text.white} />
+          ) : (
+            <Text style={styles.payButtonText}>Bayar Rp {amount.toLocaleString('id-ID')}</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      <CardAuthenticationModal
+        visible={!!pendingAuthentication}
+        authenticationUrl={pendingAuthentication?.authenticationUrl}
+        onComplete={handleAuthenticationComplete}
+        onCancel={() => {
+          setPendingAuthentication(null);
+          Alert.alert('Verifikasi Dibatalkan', 'Pembayaran kartu belum dilakukan. Silakan coba lagi.');
+        }}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background.primary,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.base,
+    paddingVertical: Spacing.md,
+    backgroundColor: Colors.background.primary,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border.light,
+  },
+  headerTitle: {
+    fontSize: Typography.fontSize.lg,
+    fontFamily: Typography.fontFamily.semibold,
+    color: Colors.text.primary,
+  },
+  scrollContent: {
+    paddingBottom: 100,
+  },
+
+  // Payment Info Section
+  paymentInfoSection: {
+    backgroundColor: Colors.background.primary,
+    padding: Spacing.base,
+    borderBottomWidth: 8,
+    borderBottomColor: Colors.background.secondary,
+  },
+  label: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.text.secondary,
+    marginBottom: Spacing.xs,
+  },
+  amount: {
+    fontSize: Typography.fontSize['2xl'],
+    fontFamily: Typography.fontFamily.bold,
+    color: Colors.primary.main,
+    marginBottom: Spacing.xs,
+  },
+  orderName: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.text.tertiary,
+  },
+
+  // Card Sections
+  section: {
+    backgroundColor: Colors.background.primary,
+    padding: Spacing.base,
+    borderBottomWidth: 8,
+    borderBottomColor: Colors.background.secondary,
+  },
+  sectionTitle: {
+    fontSize: Typography.fontSize.base,
+    fontFamily: Typography.fontFamily.semibold,
+    color: Colors.text.primary,
+    marginBottom: Spacing.sm,
+  },
+  cardOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: Spacing.md,
+    borderWidth: 1,
+    borderColor: Colors.border.light,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.sm,
+  },
+  cardOptionSelected: {
+    borderColor: Colors.primary.main,
+    backgroundColor: Colors.background.tertiary,
+  },
+  cardInfo: {
+    flex: 1,
+    marginLeft: Spacing.md,
+  },
+  cardNumber: {
+    fontSize: Typography.fontSize.base,
+    fontFamily: Typography.fontFamily.medium,
+    color: Colors.text.primary,
+  },
+  cardMeta: {
+    fontSize: Typography.fontSize.xs,
+    color: Colors.text.secondary,
+    marginTop: 2,
+  },
+  defaultBadge: {
+    fontSize: Typography.fontSize.xs,
+    fontFamily: Typography.fontFamily.semibold,
+    color: Colors.primary.main,
+  },
+  expiredBadge: {
+    fontSize: Typography.fontSize.xs,
+    fontFamily: Typography.fontFamily.semibold,
+    color: Colors.error.main,
+  },
+  moreButton: {
+    paddingLeft: Spacing.sm,
+  },
+
+  // Card Form
+  inputLabel: {
+    fontSize: Typography.fontSize.sm,
+    fontFamily: Typography.fontFamily.medium,
+    color: Colors.text.secondary,
+    marginBottom: Spacing.xs,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: Colors.border.light,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    fontSize: Typography.fontSize.base,
+    color: Colors.text.primary,
+    marginBottom: Spacing.md,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: Spacing.md,
+  },
+  inputColumn: {
+    flex: 1,
+  },
+  saveCardRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: Spacing.md,
+  },
+  saveCardText: {
+    flex: 1,
+    fontSize: Typography.fontSize.sm,
+    color: Colors.text.primary,
+    marginRight: Spacing.md,
+  },
+  securityNote: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  securityText: {
+    flex: 1,
+    fontSize: Typography.fontSize.xs,
+    color: Colors.text.secondary,
+    marginLeft: Spacing.xs,
+    lineHeight: 18,
+  },
+
+  // Bottom Section
+  bottomSection: {
+    backgroundColor: Colors.background.primary,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border.light,
+    paddingHorizontal: Spacing.base,
+    paddingVertical: Spacing.md,
+  },
+  payButton: {
+    backgroundColor: Colors.primary.main,
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.full,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  payButtonDisabled: {
+    opacity: 0.6,
+  },
+  payButtonText: {
+    fontSize: Typography.fontSize.base,
+    fontFamily: Typography.fontFamily.semibold,
+    color: Colors.text.white,
+  },
+});
@@ -18,8 +18,7 @@ import { Colors } from '../../constants/colors';
 import { Typography } from '../../constants/typography';
 import { Spacing, BorderRadius } from '../../constants/spacing';
 import { RootStackParamList } from '../../navigation/types';
-import paymentGatewayService from '../../services/payment/paymentGatewayService';
-import orderService from '../../services/order/orderService';
+import { usePaymentStatus } from '../../hooks/usePaymentStatus';
 
 type PaymentRouteProp = RouteProp<RootStackParamList, 'EwalletPayment'>;
 type NavigationProp = StackNavigationProp<RootStackParamList, 'EwalletPayment'>;
@@ -34,7 +33,30 @@ export default function EwalletPaymentScreen() {
   const [phoneNumber, setPhoneNumber] = useState('');
   const [isCollapsed, setIsCollapsed] = useState(false);
   const intervalRef = useRef<NodeJS.Timeout>();
-  const statusCheckRef = useRef<NodeJS.Timeout>();
+
+  // Default to XENDIT for e-wallets when the provider is missing
+  const { status: trackedStatus, checkNow } = usePaymentStatus(
+    paymentData?.id && orderInfo?.orderId
+      ? {
+          paymentId: String(paymentData.id),
+          orderId: orderInfo.orderId,
+          provider: paymentData.provider || 'XENDIT',
+          paymentMethod: 'EWALLET',
+          expiresAt: paymentData.expires_at,
+        }
+      : null
+  );
+
+  // The payment status engine settles the order; the screen only reflects it
+  useEffect(() => {
+    if (trackedStatus === 'PAID') {
+      setPaymentStatus('success');
+      handlePaymentSuccess();
+    } else if (trackedStatus === 'EXPIRED' || trackedStatus === 'FAILED') {
+      setPaymentStatus('expired');
+      handlePaymentExpired();
+    }
+  }, [trackedStatus]);
 
   // Get payment method info from paymentMethod or paymentData
   const getPaymentMethodInfo = () => {
@@ -154,14 +176,8 @@ export default function EwalletPaymentScreen() {
       });
     }, 1000);
 
-    // Check payment status every 5 seconds
-    statusCheckRef.current = setInterval(() => {
-      checkPaymentStatus();
-    }, 5000);
-
     return () => {
       if (intervalRef.current) clearInterval(intervalRef.current);
-      if (statusCheckRef.current) clearInterval(statusCheckRef.current);
     };
   }, []);
 
@@ -171,36 +187,8 @@ export default function EwalletPaymentScreen() {
     return `${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
 
-  const checkPaymentStatus = async () => {
-    try {
-      if (!paymentData?.id) return;
-
-      // Determine provider from payment data or use XENDIT as default for e-wallets
-      const provider = paymentData.provider || 'XENDIT';
-      const status = await paymentGatewayService.getPaymentStatus(paymentData.id, provider);
-
-      if (status.isPaid || status.status === 'PAID' || status.status === 'SUCCEEDED') {
-        setPaymentStatus('success');
-        handlePaymentSuccess();
-      } else if (status.status === 'EXPIRED') {
-        setPaymentStatus('expired');
-        handlePaymentExpired();
-      }
-    } catch (error) {
-    }
-  };
-
-  const handlePaymentSuccess = async () => {
+  const handlePaymentSuccess = () => {
     clearInterval(intervalRef.current);
-    clearInterval(statusCheckRef.current);
-
-    // Update order status in Odoo
-    if (orderInfo?.orderId) {
-      try {
-        await orderService.updateOrderStatus(orderInfo.orderId, 'payment_confirmed');
-      } catch (error) {
-      }
-    }
 
     // Navigate to universal success screen
     navigation.replace('UniversalSuccess', {
@@ -220,7 +208,6 @@ export default function EwalletPaymentScreen() {
 
   const handlePaymentExpired = () => {
     clearInterval(intervalRef.current);
-    clearInterval(statusCheckRef.current);
 
     Alert.alert(
       'Pembayaran Gagal',
@@ -237,11 +224,11 @@ export default function EwalletPaymentScreen() {
     );
   };
 
+  // The engine keeps checking afterwards; this only gets the first answer sooner
   const startStatusChecking = () => {
-    // Check payment status every 5 seconds
-    statusCheckRef.current = setInterval(() => {
-      checkPaymentStatus();
-    }, 5000);
+    checkNow().catch(() => {
+      // Next scheduled check will retry
+    });
   };
 
   const handlePaymentInitiation = async () => {
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   View,
   Text,
@@ -9,18 +9,25 @@ import {
   Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { CompositeNavigationProp, useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { MaterialIcons, Ionicons } from '@expo/vector-icons';
 import { Colors } from '../../constants/colors';
 import { Typography } from '../../constants/typography';
 import { Spacing, BorderRadius } from '../../constants/spacing';
-import { HomeStackParamList } from '../../navigation/types';
+import { HomeStackParamList, RootStackParamList } from '../../navigation/types';
 import paymentGatewayService from '../../services/payment/paymentGatewayService';
+import authService from '../../services/auth/authService';
+import paymentStatusEngine from '../../services/payment/paymentStatusEngine';
+import orderService from '../../services/order/orderService';
+import walletService, { WalletBalance } from '../../services/wallet/walletService';
 import { useLoading } from '../../hooks/useLoading';
 
 type PaymentMethodRouteProp = RouteProp<HomeStackParamList, 'PaymentMethodSelection'>;
-type NavigationProp = StackNavigationProp<HomeStackParamList, 'PaymentMethodSelection'>;
+type NavigationProp = CompositeNavigationProp<
+  StackNavigationProp<HomeStackParamList, 'PaymentMethodSelection'>,
+  StackNavigationProp<RootStackParamList>
+>;
 
 interface PaymentMethod {
   id: string;
@@ -151,78 +158,176 @@ export default function PaymentMethodSelectionScreen() {
   
   const { orderId, orderName, totalAmount, customerInfo } = route.params || {};
   const [selectedMethod, setSelectedMethod] = useState<PaymentMethod | null>(null);
+  const [walletBalance, setWalletBalance] = useState<WalletBalance | null>(null);
+  const [useWallet, setUseWallet] = useState(false);
+
+  useEffect(() => {
+    authService.getCurrentUser()
+      .then(user => {
+        if (user?.partner_id) {
+          return walletService.getBalance(user.partner_id).then(setWalletBalance);
+        }
+      })
+      .catch(() => {
+        // Gateway methods stay available without the balance
+      });
+  }, []);
+
+  const walletSplit = walletService.getSplit(
+    totalAmount || 0,
+    useWallet && walletBalance ? walletBalance.available : 0
+  );
+  // Nothing is left for a gateway to charge; the order is settled from the balance
+  const walletCoversTotal = walletSplit.walletAmount > 0 && walletSplit.gatewayAmount === 0;
+
+  const handlePayWithWallet = async () => {
+    if (!orderId) {
+      return;
+    }
+
+    try {
+      showLoading('Membayar dengan Saldo PawSmart...');
+      await orderService.payWithWallet(orderId, totalAmount || 0);
+      hideLoading();
+      navigation.navigate('UniversalSuccess', { orderId, orderName, totalAmount });
+    } catch (error: any) {
+      hideLoading();
+      Alert.alert(
+        'Pembayaran Gagal',
+        error.message || 'Gagal membayar dengan Saldo PawSmart. Silakan coba lagi.',
+        [{ text: 'OK' }]
+      );
+    }
+  };
 
   const handleSelectPayment = async (method: PaymentMethod) => {
+    if (walletCoversTotal) {
+      await handlePayWithWallet();
+      return;
+    }
+
     setSelectedMethod(method);
+
+    if (!orderId) {
+      Alert.alert('Payment Error', 'Order ID tidak valid', [{ text: 'OK' }]);
+      return;
+    }
+
+    if (method.type === 'EWALLET' && !customerInfo?.phone) {
+      Alert.alert(
+        'Nomor Telepon Diperlukan',
+        'Nomor telepon diperlukan untuk pembayaran e-wallet. Silakan lengkapi profil Anda terlebih dahulu.',
+        [{ text: 'OK' }]
+      );
+      return;
+    }
     
     try {
       showLoading(`Memproses ${method.name}...`);
-      
-      const paymentRequest = {
-        orderId: orderId || '',
-        amount: totalAmount || 0,
+
+      // The wallet covers part of the order; the gateway charges the rest
+      if (walletSplit.walletAmount > 0) {
+        await walletService.holdForOrder(orderId, walletSplit.walletAmount);
+      } else {
+        await walletService.releaseOrderHolds(orderId);
+      }
+
+      const paymentResponse = await paymentGatewayService.createPayment(
+        {
+          orderId: orderId.toString(),
+          amount: walletSplit.gatewayAmount,
+          paymentMethod: method.type,
+          customerName: customerInfo?.name || 'Customer',
+          customerEmail: customerInfo?.email,
+          customerPhone: customerInfo?.phone,
+          description: `Payment for order ${orderName}`,
+          items: customerInfo?.items,
+        },
+        undefined, // Let service choose configured provider
+        { channelCode: method.channelCode, bankCode: method.bankCode }
+      );
+
+      await paymentStatusEngine.track({
+        paymentId: paymentResponse.paymentId,
+        orderId,
+        provider: paymentResponse.provider,
         paymentMethod: method.type,
-        customerName: customerInfo?.name || 'Customer',
-        customerEmail: customerInfo?.email,
-        customerPhone: customerInfo?.phone,
-        description: `Payment for order ${orderName}`,
-        items: customerInfo?.items,
+        expiresAt: paymentResponse.expiresAt,
+      });
+
+      hideLoading();
+
+      const orderInfo = {
+        orderId: orderId.toString(),
+        orderName,
+        totalAmount: walletSplit.gatewayAmount,
       };
 
-      let paymentResponse;
-      
       switch (method.type) {
         case 'QRIS':
-          paymentResponse = await paymentGatewayService.createQRISPayment(paymentRequest);
-          hideLoading();
-          navigation.navigate('XenditQRISPayment', {
-            paymentData: paymentResponse,
-            orderInfo: { orderId, orderName, totalAmount },
+          navigation.navigate('QRISPayment', {
+            paymentData: {
+              id: paymentResponse.paymentId,
+              qr_id: paymentResponse.paymentData?.qr_id || paymentResponse.paymentId,
+              link_url: paymentResponse.paymentData?.link_url,
+              payment_url: paymentResponse.paymentData?.payment_url,
+              qr_string: paymentResponse.qrString,
+              amount: paymentResponse.amount,
+              expires_at: paymentResponse.expiresAt,
+              status: paymentResponse.status,
+              provider: paymentResponse.provider,
+            },
+            orderInfo,
           });
           break;
           
         case 'EWALLET':
-          if (method.channelCode) {
-            paymentResponse = await paymentGatewayService.createEwalletPayment(
-              paymentRequest,
-              method.channelCode as any
-            );
-            hideLoading();
-
-            // Debug what we're sending
-            console.log('NavigationDebug - Sending to EwalletPayment:', {
-              methodName: method.name,
-              methodChannelCode: method.channelCode,
-              methodId: method.id
-            });
-
-            navigation.navigate('EwalletPayment', {
-              paymentData: {
-                ...paymentResponse,
-                selectedChannelCode: method.channelCode,
-                selectedMethod: method
+          navigation.navigate('EwalletPayment', {
+            paymentData: {
+              id: paymentResponse.paymentId,
+              actions: {
+                mobile_web_checkout_url: paymentResponse.paymentUrl,
               },
-              orderInfo: { orderId, orderName, totalAmount },
-              paymentMethod: method,
-            });
-          }
+              payment_url: paymentResponse.paymentData?.payment_url || paymentResponse.paymentUrl,
+              link_url: paymentResponse.paymentData?.link_url,
+              amount: paymentResponse.amount,
+              charge_amount: paymentResponse.amount,
+              expires_at: paymentResponse.expiresAt,
+              status: paymentResponse.status,
+              provider: paymentResponse.provider,
+              selectedChannelCode: method.channelCode,
+              selectedMethod: method,
+            },
+            orderInfo,
+            paymentMethod: method,
+          });
           break;
           
         case 'VIRTUAL_ACCOUNT':
-          if (method.bankCode) {
-            paymentResponse = await paymentGatewayService.createVirtualAccount(
-              paymentRequest,
-              method.bankCode as any
-            );
-            hideLoading();
-            navigation.navigate('XenditVAPayment', {
-              paymentData: paymentResponse,
-              orderInfo: { orderId, orderName, totalAmount },
-            });
-          }
+          navigation.navigate('VirtualAccountPayment', {
+            paymentData: {
+              id: paymentResponse.paymentId,
+              va_id: paymentResponse.paymentData?.va_id || paymentResponse.paymentId,
+              link_url: paymentResponse.paymentData?.link_url,
+              payment_url: paymentResponse.paymentData?.payment_url,
+              account_number: paymentResponse.accountNumber,
+              va_number: paymentResponse.accountNumber,
+              bank_code: paymentResponse.bankCode,
+              bank_name: paymentResponse.paymentData?.bank_name,
+              expected_amount: paymentResponse.amount,
+              amount: paymentResponse.amount,
+              expiration_date: paymentResponse.expiresAt,
+              expires_at: paymentResponse.expiresAt,
+              status: paymentResponse.status,
+              provider: paymentResponse.provider,
+            },
+            orderInfo,
+          });
           break;
       }
     } catch (error: any) {
+      // Give back the balance held for a payment that was not created
+      await walletService.releaseOrderHolds(orderId).catch(() => undefined);
       hideLoading();
       Alert.alert(
         'Payment Error',
@@ -232,14 +337,6 @@ export default function PaymentMethodSelectionScreen() {
     }
   };
 
-  const calculateTotal = () => {
-    if (!selectedMethod || !totalAmount) return totalAmount;
-    
-    const fee = paymentGatewayService.calculateFee(totalAmount, selectedMethod.type);
-    // Ensure the total is an integer (no decimals for IDR)
-    return Math.round(totalAmount + fee);
-  };
-
   const popularMethods = paymentMethods.filter(m => m.isPopular);
   const otherMethods = paymentMethods.filter(m => !m.isPopular);
 
@@ -266,6 +363,44 @@ export default function PaymentMethodSelectionScreen() {
           <Text style={styles.orderNumber}>Order: {orderName}</Text>
         </View>
 
+        {/* PawSmart Balance */}
+        {walletBalance && (
+          <View style={styles.walletCard}>
+            <View style={styles.walletHeader}>
+              <MaterialIcons name="account-balance-wallet" size={24} color={Colors.primary.main} />
+              <View style={styles.walletInfo}>
+                <Text style={styles.walletTitle}>Saldo PawSmart</Text>
+                <Text style={styles.walletBalance}>
+                  Rp {walletBalance.available.toLocaleString('id-ID')}
+                </Text>
+              </View>
+              {walletBalance.available > 0 && (
+                <TouchableOpacity onPress={() => setUseWallet(!useWallet)}>
+                  <MaterialIcons
+                    name={useWallet ? 'check-box' : 'check-box-outline-blank'}
+                    size={24}
+                    color={useWallet ? Colors.primary.main : Colors.text.tertiary}
+                  />
+                </TouchableOpacity>
+              )}
+            </View>
+
+            {walletSplit.walletAmount > 0 && (
+              <Text style={styles.walletSplitText}>
+                {walletSplit.gatewayAmount === 0
+                  ? 'Seluruh pembayaran menggunakan Saldo PawSmart'
+                  : `Saldo digunakan Rp ${walletSplit.walletAmount.toLocaleString('id-ID')}, sisa Rp ${walletSplit.gatewayAmount.toLocaleString('id-ID')} dibayar dengan metode di bawah`}
+              </Text>
+            )}
+
+            {walletSplit.walletAmount > 0 && walletSplit.gatewayAmount === 0 && (
+              <TouchableOpacity style={styles.walletPayButton} onPress={handlePayWithWallet}>
+                <Text style={styles.walletPayButtonText}>Bayar dengan Saldo</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
         {/* Popular Payment Methods */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Metode Populer</Text>
@@ -275,8 +410,10 @@ export default function PaymentMethodSelectionScreen() {
               style={[
                 styles.methodCard,
                 selectedMethod?.id === method.id && styles.methodCardSelected,
+                walletCoversTotal && styles.methodCardDisabled,
               ]}
               onPress={() => handleSelectPayment(method)}
+              disabled={walletCoversTotal}
             >
               <View style={styles.methodIcon}>
                 <Image source={method.icon} style={styles.methodIconImage} resizeMode="contain" />
@@ -314,8 +451,10 @@ export default function PaymentMethodSelectionScreen() {
               style={[
                 styles.methodCard,
                 selectedMethod?.id === method.id && styles.methodCardSelected,
+                walletCoversTotal && styles.methodCardDisabled,
               ]}
               onPress={() => handleSelectPayment(method)}
+              disabled={walletCoversTotal}
             >
               <View style={styles.methodIcon}>
                 <Image source={method.icon} style={styles.methodIconImage} resizeMode="contain" />
@@ -387,7 +526,7 @@ const styles = StyleSheet.create({
     marginBottom: Spacing.xs,
   },
   summaryAmount: {
-    fontSize: Typography.fontSize.xxl,
+    fontSize: Typography.fontSize['2xl'],
     fontFamily: Typography.fontFamily.bold,
     color: Colors.primary.main,
     marginBottom: Spacing.xs,
@@ -397,6 +536,48 @@ const styles = StyleSheet.create({
     color: Colors.text.tertiary,
   },
   
+  // Wallet Card
+  walletCard: {
+    backgroundColor: Colors.background.primary,
+    padding: Spacing.base,
+    marginBottom: Spacing.lg,
+  },
+  walletHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  walletInfo: {
+    flex: 1,
+    marginLeft: Spacing.md,
+  },
+  walletTitle: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.text.secondary,
+  },
+  walletBalance: {
+    fontSize: Typography.fontSize.lg,
+    fontFamily: Typography.fontFamily.semibold,
+    color: Colors.text.primary,
+  },
+  walletSplitText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.text.secondary,
+    marginTop: Spacing.sm,
+    lineHeight: 20,
+  },
+  walletPayButton: {
+    backgroundColor: Colors.primary.main,
+    borderRadius: BorderRadius.md,
+    paddingVertical: Spacing.md,
+    alignItems: 'center',
+    marginTop: Spacing.md,
+  },
+  walletPayButtonText: {
+    fontSize: Typography.fontSize.base,
+    fontFamily: Typography.fontFamily.semibold,
+    color: Colors.text.white,
+  },
+
   // Sections
   section: {
     marginBottom: Spacing.lg,
@@ -424,6 +605,9 @@ const styles = StyleSheet.create({
     borderLeftWidth: 3,
     borderLeftColor: Colors.primary.main,
   },
+  methodCardDisabled: {
+    opacity: 0.5,
+  },
   methodIcon: {
     width: 48,
     height: 48,
@@ -102,13 +102,7 @@ export default function PaymentProcessScreen() {
   const handlePaymentSuccess = () => {
     clearInterval(intervalRef.current);
 
-    // Update order status in Odoo
-    if (orderId) {
-      orderService.updateOrderStatus(orderId, 'payment_confirmed').catch(() => {
-        // Error updating order status
-      });
-    }
-
+    // The proxy confirms the order once the provider reports it paid
     navigation.replace('UniversalSuccess', {
       orderId,
       orderName,
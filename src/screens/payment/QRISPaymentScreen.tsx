@@ -18,9 +18,8 @@ import { Colors } from '../../constants/colors';
 import { Typography } from '../../constants/typography';
 import { Spacing, BorderRadius } from '../../constants/spacing';
 import { HomeStackParamList } from '../../navigation/types';
+import { usePaymentStatus } from '../../hooks/usePaymentStatus';
 import paymentGatewayService from '../../services/payment/paymentGatewayService';
-import orderService from '../../services/order/orderService';
-import flipPaymentGateway from '../../services/payment/flipPaymentGateway';
 
 type PaymentRouteProp = RouteProp<HomeStackParamList, 'QRISPayment'>;
 type NavigationProp = StackNavigationProp<HomeStackParamList, 'QRISPayment'>;
@@ -35,7 +34,31 @@ export default function QRISPaymentScreen() {
   const [isQrisCollapsed, setIsQrisCollapsed] = useState(false);
   const [isInstructionCollapsed, setIsInstructionCollapsed] = useState(true);
   const intervalRef = useRef<NodeJS.Timeout>();
-  const statusCheckRef = useRef<NodeJS.Timeout>();
+
+  // Support both Xendit (id) and Flip (qr_id)
+  const paymentId = paymentData?.id || paymentData?.qr_id;
+  const { status: trackedStatus, checkNow } = usePaymentStatus(
+    paymentId && orderInfo?.orderId
+      ? {
+          paymentId: String(paymentId),
+          orderId: orderInfo.orderId,
+          provider: paymentData.provider || 'FLIP',
+          paymentMethod: 'QRIS',
+          expiresAt: paymentData.expires_at,
+        }
+      : null
+  );
+
+  // The payment status engine settles the order; the screen only reflects it
+  useEffect(() => {
+    if (trackedStatus === 'PAID') {
+      setPaymentStatus('success');
+      handlePaymentSuccess();
+    } else if (trackedStatus === 'EXPIRED' || trackedStatus === 'FAILED') {
+      setPaymentStatus('expired');
+      handlePaymentExpired();
+    }
+  }, [trackedStatus]);
 
   useEffect(() => {
     // Start countdown timer
@@ -50,13 +73,8 @@ export default function QRISPaymentScreen() {
       });
     }, 1000);
 
-    // Removed automatic payment status checking
-    // Status will only be checked when user clicks "Test Payment" or manually triggers it
-    // This avoids unnecessary API calls and errors when payment hasn't been made yet
-
     return () => {
       if (intervalRef.current) clearInterval(intervalRef.current);
-      if (statusCheckRef.current) clearInterval(statusCheckRef.current);
     };
   }, []);
 
@@ -68,38 +86,15 @@ export default function QRISPaymentScreen() {
 
   const checkPaymentStatus = async () => {
     try {
-      if (!paymentData?.id && !paymentData?.qr_id) return;
-
-      // Determine provider and payment ID
-      const provider = paymentData.provider || 'FLIP'; // Default to FLIP (using staging endpoint)
-      const paymentId = paymentData.id || paymentData.qr_id; // Support both Xendit (id) and Flip (qr_id)
-
-      const status = await paymentGatewayService.getPaymentStatus(paymentId, provider);
-
-      if (status.isPaid || status.status === 'PAID' || status.status === 'SUCCEEDED') {
-        setPaymentStatus('success');
-        handlePaymentSuccess();
-      } else if (status.status === 'EXPIRED') {
-        setPaymentStatus('expired');
-        handlePaymentExpired();
-      }
+      return await checkNow();
     } catch (error) {
       console.log('Payment status check error:', error);
+      return 'PENDING';
     }
   };
 
-  const handlePaymentSuccess = async () => {
+  const handlePaymentSuccess = () => {
     clearInterval(intervalRef.current);
-    clearInterval(statusCheckRef.current);
-
-    // Update order status in Odoo
-    if (orderInfo?.orderId) {
-      try {
-        await orderService.updateOrderStatus(orderInfo.orderId, 'payment_confirmed');
-      } catch (error) {
-        console.log('Error updating order status:', error);
-      }
-    }
 
     // Stay on current screen - don't navigate away
     // User can manually navigate using buttons if needed
@@ -107,7 +102,6 @@ export default function QRISPaymentScreen() {
 
   const handlePaymentExpired = () => {
     clearInterval(intervalRef.current);
-    clearInterval(statusCheckRef.current);
     
     Alert.alert(
       'Pembayaran Gagal',
@@ -187,19 +181,12 @@ export default function QRISPaymentScreen() {
           text: 'Simulate Success',
           onPress: async () => {
             try {
-              if (!paymentData?.link_id || !paymentData?.bill_payment_id) {
-                Alert.alert('Error', 'Missing payment IDs for testing');
+              if (!paymentId) {
+                Alert.alert('Error', 'Missing payment ID for testing');
                 return;
               }
 
-              console.log('Simulating payment success...');
-              const result = await flipPaymentGateway.simulatePaymentSuccess(
-                paymentData.link_id.toString(),
-                paymentData.bill_payment_id,
-                paymentData.amount
-              );
-
-              console.log('Simulation result:', result);
+              await paymentGatewayService.simulatePayment(String(paymentId));
 
               // Force check payment status after simulation
               setTimeout(() => {
@@ -385,8 +372,9 @@ export default function QRISPaymentScreen() {
           style={styles.checkStatusButton}
           onPress={async () => {
             setPaymentStatus('checking');
-            await checkPaymentStatus();
-            if (paymentStatus === 'pending') {
+            const latest = await checkPaymentStatus();
+            if (latest === 'PENDING') {
+              setPaymentStatus('pending');
               Alert.alert('Info', 'Pembayaran belum diterima. Silakan coba lagi.');
             }
           }}
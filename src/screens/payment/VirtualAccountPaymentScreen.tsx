@@ -18,8 +18,7 @@ import { Typography } from '../../constants/typography';
 import { Spacing, BorderRadius } from '../../constants/spacing';
 import { RootStackParamList } from '../../navigation/types';
 import paymentSimulator from '../../services/payment/paymentSimulator';
-import paymentGatewayService from '../../services/payment/paymentGatewayService';
-import orderService from '../../services/order/orderService';
+import { usePaymentStatus } from '../../hooks/usePaymentStatus';
 
 type PaymentRouteProp = RouteProp<RootStackParamList, 'VirtualAccountPayment'>;
 type NavigationProp = StackNavigationProp<RootStackParamList, 'VirtualAccountPayment'>;
@@ -46,7 +45,6 @@ export default function VirtualAccountPaymentScreen() {
   const [expandedSections, setExpandedSections] = useState<string[]>(['transfer']);
   const [hasNavigated, setHasNavigated] = useState(false); // Prevent multiple navigation calls
   const intervalRef = useRef<NodeJS.Timeout>();
-  const statusCheckRef = useRef<NodeJS.Timeout>();
 
   // Extract order details from the navigation params
   const orderId = orderInfo?.orderId || '40';
@@ -56,6 +54,28 @@ export default function VirtualAccountPaymentScreen() {
   const bankCode = paymentData?.bank_code || 'MANDIRI';
   const bankName = getBankName(bankCode);
 
+  // Default to FLIP for virtual accounts when the provider is missing
+  const { status: trackedStatus } = usePaymentStatus(
+    paymentData?.id && orderInfo?.orderId
+      ? {
+          paymentId: String(paymentData.id),
+          orderId: orderInfo.orderId,
+          provider: paymentData.provider || 'FLIP',
+          paymentMethod: 'VIRTUAL_ACCOUNT',
+          expiresAt: paymentData.expiration_date || paymentData.expires_at,
+        }
+      : null
+  );
+
+  // The payment status engine settles the order; the screen only reflects it
+  useEffect(() => {
+    if (trackedStatus === 'PAID') {
+      handlePaymentSuccess();
+    } else if (trackedStatus === 'EXPIRED' || trackedStatus === 'FAILED') {
+      handlePaymentExpired();
+    }
+  }, [trackedStatus]);
+
   useEffect(() => {
 
     // Start countdown timer
@@ -70,11 +90,6 @@ export default function VirtualAccountPaymentScreen() {
       });
     }, 1000);
 
-    // Check payment status every 5 seconds
-    statusCheckRef.current = setInterval(() => {
-      checkPaymentStatus();
-    }, 5000);
-
     // Add navigation listener to track navigation events
     const unsubscribe = navigation.addListener('beforeRemove', (e) => {
       // Track navigation events if needed
@@ -82,7 +97,6 @@ export default function VirtualAccountPaymentScreen() {
 
     return () => {
       if (intervalRef.current) clearInterval(intervalRef.current);
-      if (statusCheckRef.current) clearInterval(statusCheckRef.current);
       unsubscribe();
     };
   }, []);
@@ -107,44 +121,13 @@ export default function VirtualAccountPaymentScreen() {
     return tomorrow.toLocaleDateString('id-ID', options).replace(',', ',');
   };
 
-  const checkPaymentStatus = async () => {
-    try {
-      if (!paymentData?.id) {
-        return;
-      }
-
-      // Determine provider from payment data or use FLIP as default for virtual accounts
-      const provider = paymentData.provider || 'FLIP';
-
-      const status = await paymentGatewayService.getPaymentStatus(paymentData.id, provider);
-
-      if (status.status === 'PAID' || status.status === 'SUCCEEDED') {
-        handlePaymentSuccess();
-      } else if (status.status === 'EXPIRED') {
-        handlePaymentExpired();
-      }
-    } catch (error) {
-      // Handle error silently
-    }
-  };
-
-  const handlePaymentSuccess = async () => {
+  const handlePaymentSuccess = () => {
     if (hasNavigated) {
       return;
     }
     setHasNavigated(true);
 
     clearInterval(intervalRef.current);
-    clearInterval(statusCheckRef.current);
-
-    // Update order status in Odoo
-    if (orderInfo?.orderId) {
-      try {
-        await orderService.updateOrderStatus(orderInfo.orderId, 'payment_confirmed');
-      } catch (error) {
-        // Silent error
-      }
-    }
 
     navigation.navigate('UniversalSuccess', {
       orderId: orderInfo?.orderId,
@@ -168,7 +151,6 @@ export default function VirtualAccountPaymentScreen() {
     setHasNavigated(true);
 
     clearInterval(intervalRef.current);
-    clearInterval(statusCheckRef.current);
 
     // Navigate back to previous screen or show error
     navigation.goBack();
@@ -347,15 +329,11 @@ export default function VirtualAccountPaymentScreen() {
             }
             setHasNavigated(true);
 
-            // Clear intervals before navigation to prevent conflicts
+            // Clear the countdown before navigation to prevent conflicts
             if (intervalRef.current) {
               clearInterval(intervalRef.current);
               intervalRef.current = undefined;
             }
-            if (statusCheckRef.current) {
-              clearInterval(statusCheckRef.current);
-              statusCheckRef.current = undefined;
-            }
 
             // Navigate to universal success screen when OK is pressed
             navigation.navigate('UniversalSuccess', {
@@ -17,7 +17,8 @@ import { Colors } from '../../constants/colors';
 import { Typography } from '../../constants/typography';
 import { Spacing, BorderRadius } from '../../constants/spacing';
 import { ProfileStackParamList } from '../../navigation/types';
-import petService, { Pet } from '../../services/petService';
+import petService, { Pet, getPetPhotoSource } from '../../services/petService';
+import CachedImage from '../../components/media/CachedImage';
 
 type NavigationProp = StackNavigationProp<ProfileStackParamList, 'AddPetLanding'>;
 
@@ -96,19 +97,12 @@ export default function AddPetLandingScreen() {
         <View style={styles.petCardContent}>
           <View style={styles.blueAccent} />
           <View style={[styles.petImageContainer, { backgroundColor }]}>
-            {item.photo ? (
-              <Image 
-                source={{ uri: item.photo }} 
-                style={styles.petImage}
-                resizeMode="cover"
-              />
-            ) : (
-              <Image 
-                source={require('../../../assets/product-placeholder.jpg')} 
-                style={styles.petImage}
-                resizeMode="cover"
-              />
-            )}
+            <CachedImage
+              source={getPetPhotoSource(item)}
+              fallbackUri={item.photo}
+              placeholderImage={require('../../../assets/product-placeholder.jpg')}
+              style={styles.petImage}
+            />
           </View>
           <View style={styles.petInfo}>
             <Text style={styles.petName}>{item.name || 'Name Pet'}</Text>
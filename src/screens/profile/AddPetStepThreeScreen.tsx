@@ -21,6 +21,7 @@ import { Typography } from '../../constants/typography';
 import { Spacing, BorderRadius } from '../../constants/spacing';
 import { ProfileStackParamList } from '../../navigation/types';
 import petService, { Pet } from '../../services/petService';
+import healthReminderService from '../../services/reminder/healthReminderService';
 
 type NavigationProp = StackNavigationProp<ProfileStackParamList, 'AddPetStepThree'>;
 
@@ -176,10 +177,12 @@ export default function AddPetStepThreeScreen() {
         'Betina': 'female',
       };
       
+      const petType = (petTypeMap[stepOneData.type] || 'other') as Pet['type'];
+
       // Combine all data from the three steps
       const newPet: Pet = {
         name: stepOneData.name || '',
-        type: petTypeMap[stepOneData.type] || 'other',
+        type: petType,
         photo: stepOneData.photo || '',
         breed: stepTwoData.breed || '',
         age: formData.age ? (formData.ageUnit === 'tahun' ? parseInt(formData.age) : Math.floor(parseInt(formData.age) / 12)) : undefined,
@@ -193,14 +196,23 @@ export default function AddPetStepThreeScreen() {
         notes: formData.notes || '',
         vaccinations: formData.vaccinations
           .filter(v => v.isCompleted)
-          .map(v => ({
-            name: v.name,
-            date: v.date || new Date().toISOString(),
-          })),
+          .map(v => {
+            const date = v.date || new Date().toISOString();
+            return {
+              name: v.name,
+              date,
+              nextDueDate: healthReminderService.getNextVaccineDate(petType, v.name, date),
+            };
+          }),
+        reminderType: formData.noReminder || formData.reminder === 'Tidak Ada' ? '' : formData.reminder,
+        lastVetVisit: formData.lastVetVisit,
       };
       
       // Save the pet using petService
       await petService.createPet(newPet);
+      healthReminderService.refresh().catch(() => {
+        // Rescheduled next time the pet list loads
+      });
       
       Alert.alert(
         'Berhasil!', 
@@ -81,7 +81,6 @@ export default function ChangePasswordScreen() {
     try {
       // Call real Odoo API to change password
       const success = await authService.changePassword(
-        user.id,
         oldPassword,
         newPassword
       );
@@ -22,7 +22,9 @@ import { Colors } from '../../constants/colors';
 import { Typography } from '../../constants/typography';
 import { Spacing, BorderRadius } from '../../constants/spacing';
 import { ProfileStackParamList } from '../../navigation/types';
-import petService, { Pet } from '../../services/petService';
+import petService, { Pet, PetServiceError, getPetPhotoSource } from '../../services/petService';
+import CachedImage from '../../components/media/CachedImage';
+import healthReminderService from '../../services/reminder/healthReminderService';
 
 type NavigationProp = StackNavigationProp<ProfileStackParamList, 'EditPet'>;
 type RoutePropType = RouteProp<ProfileStackParamList, 'EditPet'>;
@@ -240,6 +242,9 @@ export default function EditPetScreen() {
       };
       
       await petService.updatePet(petId, updatedPet);
+      healthReminderService.refresh().catch(() => {
+        // Rescheduled next time the pet list loads
+      });
       
       Alert.alert(
         'Berhasil!',
@@ -252,7 +257,7 @@ export default function EditPetScreen() {
         ]
       );
     } catch (error) {
-      Alert.alert('Error', 'Gagal memperbarui informasi peliharaan');
+      Alert.alert('Error', error instanceof PetServiceError ? error.message : 'Gagal memperbarui informasi peliharaan');
     } finally {
       setSaving(false);
     }
@@ -304,11 +309,19 @@ export default function EditPetScreen() {
               style={[styles.petImageContainer, { backgroundColor: '#FF8C42' }]}
               onPress={handlePhotoUpload}
             >
-              <Image
-                source={formData.image}
-                style={styles.petImage}
-                resizeMode="cover"
-              />
+              {formData.image?.uri || !originalPet ? (
+                <Image
+                  source={formData.image}
+                  style={styles.petImage}
+                  resizeMode="cover"
+                />
+              ) : (
+                <CachedImage
+                  source={getPetPhotoSource(originalPet, true)}
+                  placeholderImage={formData.image}
+                  style={styles.petImage}
+                />
+              )}
               <View style={styles.photoEditOverlay}>
                 <MaterialIcons name="camera-alt" size={20} color={Colors.text.white} />
               </View>
@@ -6,18 +6,20 @@ import {
   ScrollView,
   TouchableOpacity,
   TextInput,
-  Image,
   Alert,
   ActivityIndicator,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons, MaterialIcons } from '@expo/vector-icons';
 import { useNavigation } from '@react-navigation/native';
+import * as ImagePicker from 'expo-image-picker';
 import { Colors } from '../../constants/colors';
 import { Typography } from '../../constants/typography';
 import { Spacing, BorderRadius } from '../../constants/spacing';
 import { useAuth } from '../../contexts/AuthContext';
 import authService from '../../services/auth/authService';
+import mediaUploadService from '../../services/media/mediaUploadService';
+import CachedImage from '../../components/media/CachedImage';
 
 export default function EditProfileScreen() {
   const navigation = useNavigation();
@@ -27,6 +29,8 @@ export default function EditProfileScreen() {
   const [username, setUsername] = useState(user?.username || '');
   const [phone, setPhone] = useState(user?.phone || '');
   const [isLoading, setIsLoading] = useState(false);
+  const [isUploadingAvatar, setIsUploadingAvatar] = useState(false);
+  const [avatarVersion, setAvatarVersion] = useState(0);
 
   const handleSave = async () => {
     if (!name.trim()) {
@@ -53,7 +57,7 @@ export default function EditProfileScreen() {
       }
 
       // Call API to update user profile in Odoo
-      const updatedUser = await authService.updateProfile(user!.id, {
+      const updatedUser = await authService.updateProfile({
         name: name.trim(),
         phone: formattedPhone,
       });
@@ -101,7 +105,68 @@ export default function EditProfileScreen() {
   };
 
   const handleChangeAvatar = () => {
-    Alert.alert('Coming Soon', 'Fitur ganti foto profile akan segera tersedia');
+    Alert.alert(
+      'Ganti Foto Profile',
+      'Pilih sumber foto',
+      [
+        {
+          text: 'Kamera',
+          onPress: () => pickAvatar('camera'),
+        },
+        {
+          text: 'Galeri',
+          onPress: () => pickAvatar('gallery'),
+        },
+        {
+          text: 'Batal',
+          style: 'cancel',
+        },
+      ],
+    );
+  };
+
+  const pickAvatar = async (from: 'camera' | 'gallery') => {
+    if (!user?.partner_id) {
+      return;
+    }
+
+    const { status } = from === 'camera'
+      ? await ImagePicker.requestCameraPermissionsAsync()
+      : await ImagePicker.requestMediaLibraryPermissionsAsync();
+
+    if (status !== 'granted') {
+      Alert.alert(
+        'Izin Diperlukan',
+        from === 'camera'
+          ? 'Aplikasi memerlukan akses ke kamera untuk mengambil foto.'
+          : 'Aplikasi memerlukan akses ke galeri untuk memilih foto.'
+      );
+      return;
+    }
+
+    const options: ImagePicker.ImagePickerOptions = {
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      allowsEditing: true,
+      aspect: [1, 1],
+      quality: 1,
+    };
+    const result = from === 'camera'
+      ? await ImagePicker.launchCameraAsync(options)
+      : await ImagePicker.launchImageLibraryAsync(options);
+
+    if (result.canceled || !result.assets[0]) {
+      return;
+    }
+
+    setIsUploadingAvatar(true);
+    try {
+      await mediaUploadService.uploadAvatar(user.partner_id, result.assets[0].uri);
+      setAvatarVersion(version => version + 1);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Gagal mengunggah foto profile');
+    } finally {
+      setIsUploadingAvatar(false);
+    }
   };
 
   return (
@@ -128,12 +193,18 @@ export default function EditProfileScreen() {
           <TouchableOpacity 
             style={styles.avatarContainer}
             onPress={handleChangeAvatar}
+            disabled={isUploadingAvatar}
           >
-            <Image
-              source={require('../../../assets/mascot-happy.png')}
-              style={styles.avatar}
-              resizeMode="contain"
-            />
+            {isUploadingAvatar ? (
+              <ActivityIndicator size="small" color={Colors.primary.main} />
+            ) : (
+              <CachedImage
+                key={avatarVersion}
+                source={user?.partner_id ? { type: 'avatar', partnerId: user.partner_id } : undefined}
+                placeholderImage={require('../../../assets/mascot-happy.png')}
+                style={styles.avatar}
+              />
+            )}
             <View style={styles.editIconContainer}>
               <MaterialIcons name="edit" size={16} color={Colors.text.white} />
             </View>
@@ -264,6 +335,7 @@ const styles = StyleSheet.create({
   avatar: {
     width: 90,
     height: 90,
+    borderRadius: 45,
   },
   editIconContainer: {
     position: 'absolute',
@@ -18,7 +18,9 @@ import { Colors } from '../../constants/colors';
 import { Typography } from '../../constants/typography';
 import { Spacing, BorderRadius } from '../../constants/spacing';
 import { ProfileStackParamList } from '../../navigation/types';
-import petService, { Pet } from '../../services/petService';
+import petService, { Pet, getPetPhotoSource } from '../../services/petService';
+import CachedImage from '../../components/media/CachedImage';
+import healthReminderService from '../../services/reminder/healthReminderService';
 
 type NavigationProp = StackNavigationProp<ProfileStackParamList, 'MyPets'>;
 
@@ -50,6 +52,9 @@ export default function MyPetsScreen() {
     try {
       const userPets = await petService.getPets();
       setPets(userPets);
+      healthReminderService.syncReminders(userPets).catch(() => {
+        // Keeps the previously scheduled reminders
+      });
     } catch (error) {
       console.error('Error loading pets:', error);
       // Pets will be empty if there's an error
@@ -102,19 +107,12 @@ export default function MyPetsScreen() {
         
         {/* Pet Image */}
         <View style={[styles.petImageContainer, { backgroundColor: imageColor }]}>
-          {pet.photo ? (
-            <Image 
-              source={{ uri: pet.photo }} 
-              style={styles.petImage}
-              resizeMode="cover"
-            />
-          ) : (
-            <Image 
-              source={require('../../../assets/product-placeholder.jpg')} 
-              style={styles.petImage}
-              resizeMode="cover"
-            />
-          )}
+          <CachedImage
+            source={getPetPhotoSource(pet)}
+            fallbackUri={pet.photo}
+            placeholderImage={require('../../../assets/product-placeholder.jpg')}
+            style={styles.petImage}
+          />
         </View>
       </ImageBackground>
       
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -19,7 +19,13 @@ import { Colors } from '../../constants/colors';
 import { Typography } from '../../constants/typography';
 import { Spacing, BorderRadius } from '../../constants/spacing';
 import { ProfileStackParamList } from '../../navigation/types';
-import petService, { Pet } from '../../services/petService';
+import petService, { Pet, PetServiceError, getPetPhotoSource, getPetAllergies } from '../../services/petService';
+import CachedImage from '../../components/media/CachedImage';
+import healthReminderService from '../../services/reminder/healthReminderService';
+import HealthTimeline from '../../components/pet/HealthTimeline';
+import healthPassportService, { HealthPassport, HealthPassportError } from '../../services/health/healthPassportService';
+import QRCode from 'react-native-qrcode-svg';
+import { useLoading } from '../../hooks/useLoading';
 
 type NavigationProp = StackNavigationProp<ProfileStackParamList, 'PetDetail'>;
 type RoutePropType = RouteProp<ProfileStackParamList, 'PetDetail'>;
@@ -64,11 +70,34 @@ export default function PetDetailScreen() {
   
   const [pet, setPet] = useState<Pet | null>(null);
   const [loading, setLoading] = useState(true);
+  const [passport, setPassport] = useState<HealthPassport | null>(null);
+  const qrCodeRef = useRef<any>(null);
+  const { showLoading, hideLoading } = useLoading();
 
   useEffect(() => {
     loadPetDetails();
   }, [petId]);
 
+  // The QR code is rendered off-screen first so it can go into the PDF as an image
+  useEffect(() => {
+    if (!passport || !qrCodeRef.current) {
+      return;
+    }
+
+    qrCodeRef.current.toDataURL(async (qrCode: string) => {
+      try {
+        const uri = await healthPassportService.exportPdf(passport, qrCode);
+        hideLoading();
+        await healthPassportService.sharePdf(uri, passport.pet.name);
+      } catch (error) {
+        hideLoading();
+        Alert.alert('Error', error instanceof HealthPassportError ? error.message : 'Gagal membagikan paspor kesehatan');
+      } finally {
+        setPassport(null);
+      }
+    });
+  }, [passport]);
+
   const loadPetDetails = async () => {
     try {
       const petDetails = await petService.getPet(petId);
@@ -117,9 +146,7 @@ export default function PetDetailScreen() {
     gender: pet.gender ? genderMapping[pet.gender] || pet.gender : 'Unknown',
     weight: pet.weight ? `${pet.weight} kg` : '-',
     healthCondition: pet.healthStatus || 'Baik',
-    allergies: pet.medicalHistory?.includes('Allergies:') 
-      ? pet.medicalHistory.split('Allergies:')[1].split('\n')[0].trim() || '-'
-      : '-',
+    allergies: getPetAllergies(pet) || '-',
     notes: pet.notes || '-',
     image: pet.photo ? { uri: pet.photo } : require('../../../assets/product-placeholder.jpg'),
   } : null;
@@ -143,11 +170,14 @@ export default function PetDetailScreen() {
             try {
               setLoading(true);
               await petService.deletePet(petId);
+              healthReminderService.refresh().catch(() => {
+                // Rescheduled next time the pet list loads
+              });
               Alert.alert('Berhasil', 'Peliharaan berhasil dihapus', [
                 { text: 'OK', onPress: () => navigation.navigate('MyPets') }
               ]);
             } catch (error) {
-              Alert.alert('Error', 'Gagal menghapus peliharaan');
+              Alert.alert('Error', error instanceof PetServiceError ? error.message : 'Gagal menghapus peliharaan');
               setLoading(false);
             }
           }
@@ -156,6 +186,18 @@ export default function PetDetailScreen() {
     );
   };
 
+  const handleSharePassport = async () => {
+    if (!pet) return;
+
+    try {
+      showLoading('Menyiapkan paspor kesehatan...');
+      setPassport(await healthPassportService.preparePassport(pet));
+    } catch (error) {
+      hideLoading();
+      Alert.alert('Error', error instanceof HealthPassportError ? error.message : 'Gagal membuat paspor kesehatan');
+    }
+  };
+
   const InfoRow = ({ label, value }: { label: string; value: string }) => (
     <View style={styles.infoRow}>
       <Text style={styles.infoLabel}>{label}</Text>
@@ -213,6 +255,12 @@ export default function PetDetailScreen() {
           <MaterialIcons name="arrow-back" size={24} color={Colors.text.primary} />
         </TouchableOpacity>
         <Text style={styles.headerTitle}>Profil Hewan</Text>
+        <TouchableOpacity
+          style={styles.shareButton}
+          onPress={handleSharePassport}
+        >
+          <MaterialIcons name="share" size={24} color={Colors.primary.main} />
+        </TouchableOpacity>
         <TouchableOpacity
           style={styles.deleteButton}
           onPress={handleDelete}
@@ -221,6 +269,12 @@ export default function PetDetailScreen() {
         </TouchableOpacity>
       </View>
 
+      {passport && (
+        <View style={styles.hiddenQrCode}>
+          <QRCode value={passport.shareUrl} size={300} quietZone={10} getRef={ref => (qrCodeRef.current = ref)} />
+        </View>
+      )}
+
       <ScrollView showsVerticalScrollIndicator={false}>
         <View style={styles.content}>
           <View style={styles.detailHeader}>
@@ -242,10 +296,10 @@ export default function PetDetailScreen() {
               </View>
               
               <View style={[styles.petImageContainer, { backgroundColor: '#FF8C42' }]}>
-                <Image
-                  source={petData.image}
+                <CachedImage
+                  source={pet ? getPetPhotoSource(pet, true) : undefined}
+                  placeholderImage={petData.image}
                   style={styles.petImage}
-                  resizeMode="cover"
                 />
               </View>
             </ImageBackground>
@@ -268,6 +322,8 @@ export default function PetDetailScreen() {
             <InfoRow label="Alergi Obat?" value={petData.allergies} />
             <InfoRow label="Catatan" value={petData.notes} />
           </View>
+
+          {pet && <HealthTimeline pet={pet} />}
         </View>
       </ScrollView>
     </SafeAreaView>
@@ -284,9 +340,17 @@ const styles = StyleSheet.create({
     fontSize: Typography.fontSize.base,
     color: Colors.text.secondary,
   },
+  shareButton: {
+    padding: Spacing.sm,
+  },
   deleteButton: {
     padding: Spacing.sm,
   },
+  hiddenQrCode: {
+    position: 'absolute',
+    left: -1000,
+    top: 0,
+  },
   container: {
     flex: 1,
     backgroundColor: Colors.background.secondary,
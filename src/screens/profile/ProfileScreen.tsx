@@ -1,29 +1,37 @@
-import React from 'react';
+import React, { useCallback, useState } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   ScrollView,
   TouchableOpacity,
-  Image,
   Alert,
   StatusBar,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons, MaterialIcons, MaterialCommunityIcons } from '@expo/vector-icons';
-import { useNavigation } from '@react-navigation/native';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { useAuth } from '../../contexts/AuthContext';
 import { Colors } from '../../constants/colors';
 import { Typography } from '../../constants/typography';
 import { Spacing, BorderRadius } from '../../constants/spacing';
 import { ProfileStackParamList } from '../../navigation/types';
+import CachedImage from '../../components/media/CachedImage';
 
 type NavigationProp = StackNavigationProp<ProfileStackParamList, 'ProfileHome'>;
 
 export default function ProfileScreen() {
   const { user, logout } = useAuth();
   const navigation = useNavigation<NavigationProp>();
+  const [avatarKey, setAvatarKey] = useState(0);
+
+  // Pick up a profile photo changed in Edit Profile
+  useFocusEffect(
+    useCallback(() => {
+      setAvatarKey(key => key + 1);
+    }, [])
+  );
 
   const handleLogout = () => {
     Alert.alert(
@@ -88,6 +96,11 @@ export default function ProfileScreen() {
           label: 'Alamat Saya',
           onPress: () => navigation.navigate('MyAddress'),
         },
+        { 
+          icon: 'account-balance-wallet',
+          label: 'Saldo PawSmart',
+          onPress: () => navigation.navigate('Wallet'),
+        },
       ],
     },
     {
@@ -129,10 +142,11 @@ export default function ProfileScreen() {
             <View style={styles.headerContent}>
               <View style={styles.profileInfo}>
                 <View style={styles.avatarContainer}>
-                  <Image
-                    source={require('../../../assets/mascot-happy.png')}
+                  <CachedImage
+                    key={avatarKey}
+                    source={user?.partner_id ? { type: 'avatar', partnerId: user.partner_id } : undefined}
+                    placeholderImage={require('../../../assets/mascot-happy.png')}
                     style={styles.avatar}
-                    resizeMode="contain"
                   />
                 </View>
                 <Text style={styles.userName}>{user?.name || user?.username || 'Alan Syahlan'}</Text>
@@ -271,6 +285,7 @@ const styles = StyleSheet.create({
   avatar: {
     width: 45,
     height: 45,
+    borderRadius: 22.5,
   },
   userName: {
     fontSize: Typography.fontSize.lg,
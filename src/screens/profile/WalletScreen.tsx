@@ -0,0 +1,579 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { Ionicons, MaterialIcons } from '@expo/vector-icons';
+import QRCode from 'react-native-qrcode-svg';
+import { Colors } from '../../constants/colors';
+import { Typography } from '../../constants/typography';
+import { Spacing, BorderRadius } from '../../constants/spacing';
+import { ProfileStackParamList } from '../../navigation/types';
+import { useAuth } from '../../contexts/AuthContext';
+import { useLoading } from '../../hooks/useLoading';
+import { usePaymentStatus } from '../../hooks/usePaymentStatus';
+import paymentStatusEngine from '../../services/payment/paymentStatusEngine';
+import { PaymentMethod } from '../../services/payment/paymentGatewayConfig';
+import walletService, {
+  WALLET_ENTRY_LABELS,
+  WALLET_TOPUP_LIMITS,
+  WalletBalance,
+  WalletEntry,
+  WalletTopUp,
+} from '../../services/wallet/walletService';
+
+type NavigationProp = StackNavigationProp<ProfileStackParamList, 'Wallet'>;
+
+interface TopUpMethod {
+  id: string;
+  name: string;
+  type: PaymentMethod;
+  bankCode?: string;
+}
+
+const TOPUP_AMOUNTS = [50000, 100000, 200000, 500000];
+
+const TOPUP_METHODS: TopUpMethod[] = [
+  { id: 'qris', name: 'QRIS', type: 'QRIS' },
+  { id: 'bca', name: 'BCA Virtual Account', type: 'VIRTUAL_ACCOUNT', bankCode: 'BCA' },
+  { id: 'bni', name: 'BNI Virtual Account', type: 'VIRTUAL_ACCOUNT', bankCode: 'BNI' },
+  { id: 'bri', name: 'BRI Virtual Account', type: 'VIRTUAL_ACCOUNT', bankCode: 'BRI' },
+  { id: 'mandiri', name: 'Mandiri Virtual Account', type: 'VIRTUAL_ACCOUNT', bankCode: 'MANDIRI' },
+];
+
+const formatRupiah = (amount: number) => `Rp${Math.round(amount).toLocaleString('id-ID')}`;
+
+export default function WalletScreen() {
+  const navigation = useNavigation<NavigationProp>();
+  const { user } = useAuth();
+  const { showLoading, hideLoading } = useLoading();
+
+  const [balance, setBalance] = useState<WalletBalance | null>(null);
+  const [entries, setEntries] = useState<WalletEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [amountText, setAmountText] = useState('');
+  const [selectedMethod, setSelectedMethod] = useState<TopUpMethod>(TOPUP_METHODS[0]);
+  const [topUp, setTopUp] = useState<WalletTopUp | null>(null);
+
+  const partnerId = user?.partner_id;
+  const amount = parseInt(amountText, 10) || 0;
+
+  const loadWallet = useCallback(async () => {
+    if (!partnerId) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const [walletBalance, walletEntries] = await Promise.all([
+        walletService.getBalance(partnerId),
+        walletService.getEntries(partnerId),
+      ]);
+      setBalance(walletBalance);
+      setEntries(walletEntries);
+    } catch (error) {
+      // Keep showing the last loaded balance
+    } finally {
+      setLoading(false);
+    }
+  }, [partnerId]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadWallet();
+    }, [loadWallet])
+  );
+
+  const { status: topUpStatus, checkNow } = usePaymentStatus(
+    topUp
+      ? {
+          paymentId: topUp.payment.paymentId,
+          orderId: walletService.getTopUpReference(topUp.entry.id),
+          provider: topUp.payment.provider,
+          paymentMethod: topUp.entry.paymentMethod || 'QRIS',
+          expiresAt: topUp.payment.expiresAt,
+          walletTopUpId: topUp.entry.id,
+        }
+      : null
+  );
+
+  useEffect(() => {
+    if (!topUp || topUpStatus === 'PENDING') {
+      return;
+    }
+
+    if (topUpStatus === 'PAID') {
+      Alert.alert('Isi Saldo Berhasil', `${formatRupiah(topUp.entry.amount)} telah ditambahkan ke Saldo PawSmart Anda.`);
+    } else {
+      Alert.alert('Isi Saldo Gagal', 'Pembayaran tidak diselesaikan. Silakan coba isi saldo kembali.');
+    }
+
+    setTopUp(null);
+    loadWallet();
+  }, [topUpStatus]);
+
+  const handleTopUp = async () => {
+    if (!partnerId) {
+      return;
+    }
+
+    try {
+      showLoading(`Memproses ${selectedMethod.name}...`);
+
+      const created = await walletService.createTopUp({
+        amount,
+        paymentMethod: selectedMethod.type,
+        customerName: user?.name || 'Customer',
+        customerEmail: user?.email,
+        customerPhone: user?.phone,
+        paymentOptions: { bankCode: selectedMethod.bankCode },
+      });
+
+      await paymentStatusEngine.track({
+        paymentId: created.payment.paymentId,
+        orderId: walletService.getTopUpReference(created.entry.id),
+        provider: created.payment.provider,
+        paymentMethod: selectedMethod.type,
+        expiresAt: created.payment.expiresAt,
+        walletTopUpId: created.entry.id,
+      });
+
+      setTopUp(created);
+      setAmountText('');
+      hideLoading();
+      loadWallet();
+    } catch (error: any) {
+      hideLoading();
+      Alert.alert('Isi Saldo Gagal', error.message || 'Gagal membuat pembayaran. Silakan coba lagi.');
+    }
+  };
+
+  const handleCheckStatus = async () => {
+    const latest = await checkNow();
+    if (latest === 'PENDING') {
+      Alert.alert('Menunggu Pembayaran', 'Pembayaran belum kami terima. Silakan selesaikan pembayaran terlebih dahulu.');
+    }
+  };
+
+  const isAmountValid = amount >= WALLET_TOPUP_LIMITS.MIN && amount <= WALLET_TOPUP_LIMITS.MAX;
+
+  const renderEntry = (entry: WalletEntry) => {
+    const isDebit = entry.type === 'payment';
+    const stateLabel = entry.state === 'pending'
+      ? (isDebit ? 'Ditahan' : 'Menunggu Pembayaran')
+      : entry.state === 'cancelled' ? 'Dibatalkan' : null;
+
+    return (
+      <View key={entry.id} style={styles.entryRow}>
+        <View style={styles.entryIcon}>
+          <MaterialIcons
+            name={isDebit ? 'shopping-bag' : entry.type === 'refund' ? 'replay' : 'add-circle-outline'}
+            size={20}
+            color={isDebit ? Colors.text.secondary : Colors.success.main}
+          />
+        </View>
+        <View style={styles.entryInfo}>
+          <Text style={styles.entryTitle}>{WALLET_ENTRY_LABELS[entry.type]}</Text>
+          <Text style={styles.entryDescription}>{entry.description}</Text>
+          <Text style={styles.entryDate}>
+            {new Date(entry.createdAt).toLocaleDateString('id-ID', { day: 'numeric', month: 'short', year: 'numeric' })}
+            {stateLabel ? ` · ${stateLabel}` : ''}
+          </Text>
+        </View>
+        <Text
+          style={[
+            styles.entryAmount,
+            isDebit ? styles.entryAmountDebit : styles.entryAmountCredit,
+            entry.state === 'cancelled' && styles.entryAmountCancelled,
+          ]}
+        >
+          {isDebit ? '-' : '+'}{formatRupiah(entry.amount)}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Ionicons name="chevron-back" size={24} color={Colors.text.primary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Saldo PawSmart</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Balance */}
+        <View style={styles.balanceCard}>
+          <Text style={styles.balanceLabel}>Saldo Tersedia</Text>
+          {loading ? (
+            <ActivityIndicator size="small" color={Colors.text.white} />
+          ) : (
+            <Text style={styles.balanceAmount}>{formatRupiah(balance?.available || 0)}</Text>
+          )}
+          {!!balance?.held && (
+            <Text style={styles.balanceHeld}>
+              {formatRupiah(balance.held)} sedang ditahan untuk pesanan yang menunggu pembayaran
+            </Text>
+          )}
+        </View>
+
+        {/* Pending top-up */}
+        {topUp && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Selesaikan Pembayaran</Text>
+            <View style={styles.card}>
+              <Text style={styles.topUpAmount}>{formatRupiah(topUp.payment.amount)}</Text>
+
+              {topUp.payment.qrString ? (
+                <View style={styles.qrContainer}>
+                  <QRCode value={topUp.payment.qrString} size={200} />
+                  <Text style={styles.cardHint}>Pindai kode QR dengan aplikasi e-wallet atau m-banking Anda</Text>
+                </View>
+              ) : (
+                <View style={styles.vaContainer}>
+                  <Text style={styles.cardHint}>Nomor Virtual Account {topUp.payment.bankCode}</Text>
+                  <Text style={styles.vaNumber}>{topUp.payment.accountNumber}</Text>
+                </View>
+              )}
+
+              {topUp.payment.expiresAt && (
+                <Text style={styles.cardHint}>
+                  Bayar sebelum {new Date(topUp.payment.expiresAt).toLocaleString('id-ID', {
+                    day: 'numeric',
+                    month: 'short',
+                    hour: '2-digit',
+                    minute: '2-digit',
+                  })}
+                </Text>
+              )}
+
+              <TouchableOpacity style={styles.secondaryButton} onPress={handleCheckStatus}>
+                <Text style={styles.secondaryButtonText}>Cek Status Pembayaran</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
+        {/* Top-up form */}
+        {!topUp && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Isi Saldo</Text>
+            <View style={styles.card}>
+              <View style={styles.amountList}>
+                {TOPUP_AMOUNTS.map(option => {
+                  const selected = amount === option;
+                  return (
+                    <TouchableOpacity
+                      key={option}
+                      style={[styles.chip, selected && styles.chipSelected]}
+                      onPress={() => setAmountText(option.toString())}
+                    >
+                      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                        {formatRupiah(option)}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+
+              <TextInput
+                style={styles.input}
+                placeholder={`Nominal lain (min. ${formatRupiah(WALLET_TOPUP_LIMITS.MIN)})`}
+                placeholderTextColor={Colors.text.tertiary}
+                keyboardType="number-pad"
+                value={amountText}
+                onChangeText={text => setAmountText(text.replace(/\D/g, ''))}
+              />
+
+              <Text style={styles.label}>Metode Pembayaran</Text>
+              {TOPUP_METHODS.map(method => (
+                <TouchableOpacity
+                  key={method.id}
+                  style={styles.methodOption}
+                  onPress={() => setSelectedMethod(method)}
+                >
+                  <View style={[styles.radioButton, selectedMethod.id === method.id && styles.radioButtonSelected]}>
+                    {selectedMethod.id === method.id && <View style={styles.radioButtonInner} />}
+                  </View>
+                  <Text style={styles.methodName}>{method.name}</Text>
+                </TouchableOpacity>
+              ))}
+
+              <TouchableOpacity
+                style={[styles.primaryButton, (!isAmountValid || !partnerId) && styles.primaryButtonDisabled]}
+                onPress={handleTopUp}
+                disabled={!isAmountValid || !partnerId}
+              >
+                <Text style={styles.primaryButtonText}>Isi Saldo</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
+        {/* History */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Riwayat Saldo</Text>
+          <View style={styles.card}>
+            {entries.length === 0 ? (
+              <Text style={styles.emptyText}>Belum ada transaksi saldo</Text>
+            ) : (
+              entries.map(renderEntry)
+            )}
+          </View>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background.secondary,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: Spacing.base,
+    paddingVertical: Spacing.md,
+    backgroundColor: Colors.background.primary,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border.light,
+  },
+  headerTitle: {
+    fontSize: Typography.fontSize.lg,
+    fontFamily: Typography.fontFamily.semibold,
+    color: Colors.text.primary,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: Spacing.base,
+    paddingTop: Spacing.lg,
+  },
+  balanceCard: {
+    backgroundColor: Colors.primary.main,
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.lg,
+    marginBottom: Spacing.xl,
+  },
+  balanceLabel: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.text.white,
+    marginBottom: Spacing.xs,
+  },
+  balanceAmount: {
+    fontSize: Typography.fontSize['2xl'],
+    fontFamily: Typography.fontFamily.bold,
+    color: Colors.text.white,
+  },
+  balanceHeld: {
+    fontSize: Typography.fontSize.xs,
+    color: Colors.text.white,
+    marginTop: Spacing.sm,
+  },
+  section: {
+    marginBottom: Spacing.xl,
+  },
+  sectionTitle: {
+    fontSize: Typography.fontSize.lg,
+    fontFamily: Typography.fontFamily.semibold,
+    color: Colors.text.primary,
+    marginBottom: Spacing.md,
+  },
+  card: {
+    backgroundColor: Colors.background.primary,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.base,
+  },
+  topUpAmount: {
+    fontSize: Typography.fontSize.xl,
+    fontFamily: Typography.fontFamily.bold,
+    color: Colors.text.primary,
+    textAlign: 'center',
+    marginBottom: Spacing.base,
+  },
+  qrContainer: {
+    alignItems: 'center',
+    gap: Spacing.md,
+    marginBottom: Spacing.md,
+  },
+  vaContainer: {
+    alignItems: 'center',
+    marginBottom: Spacing.md,
+  },
+  vaNumber: {
+    fontSize: Typography.fontSize.xl,
+    fontFamily: Typography.fontFamily.bold,
+    color: Colors.primary.main,
+    letterSpacing: 1,
+    marginTop: Spacing.xs,
+  },
+  cardHint: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.text.secondary,
+    textAlign: 'center',
+  },
+  amountList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+    marginBottom: Spacing.base,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: Colors.border.light,
+    backgroundColor: Colors.background.primary,
+  },
+  chipSelected: {
+    borderColor: Colors.primary.main,
+  },
+  chipText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.text.secondary,
+  },
+  chipTextSelected: {
+    color: Colors.primary.main,
+    fontFamily: Typography.fontFamily.semibold,
+  },
+  input: {
+    backgroundColor: Colors.background.primary,
+    borderWidth: 1,
+    borderColor: Colors.border.light,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.base,
+    fontSize: Typography.fontSize.base,
+    color: Colors.text.primary,
+    marginBottom: Spacing.base,
+  },
+  label: {
+    fontSize: Typography.fontSize.sm,
+    fontFamily: Typography.fontFamily.medium,
+    color: Colors.text.secondary,
+    marginBottom: Spacing.sm,
+  },
+  methodOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+  },
+  radioButton: {
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: Colors.border.main,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: Spacing.md,
+  },
+  radioButtonSelected: {
+    borderColor: Colors.primary.main,
+  },
+  radioButtonInner: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: Colors.primary.main,
+  },
+  methodName: {
+    fontSize: Typography.fontSize.base,
+    color: Colors.text.primary,
+  },
+  primaryButton: {
+    backgroundColor: Colors.primary.main,
+    borderRadius: BorderRadius.md,
+    paddingVertical: Spacing.md,
+    alignItems: 'center',
+    marginTop: Spacing.base,
+  },
+  primaryButtonDisabled: {
+    backgroundColor: Colors.border.main,
+  },
+  primaryButtonText: {
+    fontSize: Typography.fontSize.base,
+    fontFamily: Typography.fontFamily.semibold,
+    color: Colors.text.white,
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: Colors.primary.main,
+    borderRadius: BorderRadius.md,
+    paddingVertical: Spacing.md,
+    alignItems: 'center',
+    marginTop: Spacing.base,
+  },
+  secondaryButtonText: {
+    fontSize: Typography.fontSize.base,
+    fontFamily: Typography.fontFamily.semibold,
+    color: Colors.primary.main,
+  },
+  entryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: Spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border.light,
+  },
+  entryIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: BorderRadius.full,
+    backgroundColor: Colors.background.secondary,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: Spacing.md,
+  },
+  entryInfo: {
+    flex: 1,
+  },
+  entryTitle: {
+    fontSize: Typography.fontSize.base,
+    fontFamily: Typography.fontFamily.medium,
+    color: Colors.text.primary,
+  },
+  entryDescription: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.text.secondary,
+  },
+  entryDate: {
+    fontSize: Typography.fontSize.xs,
+    color: Colors.text.tertiary,
+    marginTop: 2,
+  },
+  entryAmount: {
+    fontSize: Typography.fontSize.base,
+    fontFamily: Typography.fontFamily.semibold,
+  },
+  entryAmountCredit: {
+    color: Colors.success.main,
+  },
+  entryAmountDebit: {
+    color: Colors.text.primary,
+  },
+  entryAmountCancelled: {
+    color: Colors.text.tertiary,
+    textDecorationLine: 'line-through',
+  },
+  emptyText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.text.tertiary,
+    textAlign: 'center',
+    paddingVertical: Spacing.base,
+  },
+});
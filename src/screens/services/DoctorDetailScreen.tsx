@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -8,127 +8,266 @@ import {
   Image,
   Dimensions,
   Platform,
+  TextInput,
+  ActivityIndicator,
+  Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useNavigation, useRoute } from '@react-navigation/native';
+import { CompositeNavigationProp, useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
+import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 import { MaterialIcons } from '@expo/vector-icons';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { Colors } from '../../constants/colors';
 import { Typography } from '../../constants/typography';
 import { Spacing, BorderRadius } from '../../constants/spacing';
-import { ServicesStackParamList } from '../../navigation/types';
+import { MainTabParamList, ServicesStackParamList } from '../../navigation/types';
+import { useAuth } from '../../contexts/AuthContext';
+import { useLoading } from '../../hooks/useLoading';
+import { useDoctor, useDoctorSchedule } from '../../hooks/useDoctors';
+import odooDoctorService, {
+  DoctorTimeSlot,
+  DEFAULT_CONSULTATION_FEE,
+  SlotConflictError,
+} from '../../services/odoo/doctorService';
+import { SlotHold } from '../../services/odoo/slotHoldService';
+import petService, { Pet, getPetPhotoSource } from '../../services/petService';
+import CachedImage from '../../components/media/CachedImage';
+import { getPetBreedLabel, getPetDetailLabel } from './PetSelectionScreen';
 
 const { width } = Dimensions.get('window');
 
-type NavigationProp = StackNavigationProp<ServicesStackParamList, 'DoctorDetail'>;
-
-interface Pet {
-  id: string;
-  name: string;
-  breed: string;
-  gender: string;
-  age: string;
-  image: any;
-}
-
-interface Doctor {
-  id: string;
-  name: string;
-  specialization: string;
-  image: any;
-  isRecommended: boolean;
-}
-
-interface TimeSlot {
-  id: string;
-  time: string;
-  isAvailable: boolean;
-}
+type NavigationProp = CompositeNavigationProp<
+  StackNavigationProp<ServicesStackParamList, 'DoctorDetail'>,
+  BottomTabNavigationProp<MainTabParamList>
+>;
+type DoctorDetailRouteProp = RouteProp<ServicesStackParamList, 'DoctorDetail'>;
 
 interface AdditionalService {
   id: string;
   name: string;
-  price: string;
-  isSelected: boolean;
+  price: number;
 }
 
-const mockPet: Pet = {
-  id: '1',
-  name: 'Name Pet',
-  breed: 'Anjing, Chihuahua',
-  gender: 'Jantan',
-  age: '1 tahun',
-  image: require('../../../assets/product-placeholder.jpg'),
-};
+const ADDITIONAL_SERVICES: AdditionalService[] = [
+  { id: '1', name: 'Vaksinasi', price: 250000 },
+  { id: '2', name: 'Bedah', price: 250000 },
+  { id: '3', name: 'Pemeriksaan Laboratorium', price: 250000 },
+];
 
-const mockDoctor: Doctor = {
-  id: '1',
-  name: 'dr. Taylor Swift Jasmine',
-  specialization: 'Dokter Spesialis Hewan',
-  image: require('../../../assets/product-placeholder.jpg'),
-  isRecommended: true,
+const formatDateLabel = (date: Date) => {
+  const months = ['Jan', 'Feb', 'Mar', 'Apr', 'Mei', 'Jun', 'Jul', 'Agu', 'Sep', 'Okt', 'Nov', 'Des'];
+  return `${date.getDate()} ${months[date.getMonth()]} ${date.getFullYear()}`;
 };
 
-const mockTimeSlots: TimeSlot[] = [
-  { id: '1', time: '09.00 - 11.00', isAvailable: true },
-  { id: '2', time: '12.00 - 14.00', isAvailable: true },
-  { id: '3', time: '15.00 - 18.00', isAvailable: false },
-];
+const formatClock = (iso: string) =>
+  new Date(iso).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit', hour12: false });
+
+interface SlotConflict {
+  message: string;
+  alternatives: DoctorTimeSlot[];
+}
 
 export default function DoctorDetailScreen() {
   const navigation = useNavigation<NavigationProp>();
-  const route = useRoute();
-  const { doctorId } = route.params as { doctorId: string };
+  const route = useRoute<DoctorDetailRouteProp>();
+  const { doctorId, petId, reason } = route.params;
+  const { user } = useAuth();
+  const { showLoading, hideLoading } = useLoading();
 
-  const [selectedPet, setSelectedPet] = useState<Pet>(mockPet);
-  const [selectedDoctor, setSelectedDoctor] = useState<Doctor>(mockDoctor);
-  const [selectedTimeSlot, setSelectedTimeSlot] = useState<string>('');
-  const [selectedDate, setSelectedDate] = useState('2 Mei 2025');
+  const [pets, setPets] = useState<Pet[]>([]);
+  const [selectedTimeSlot, setSelectedTimeSlot] = useState<DoctorTimeSlot | null>(null);
   const [date, setDate] = useState(new Date());
   const [showDatePicker, setShowDatePicker] = useState(false);
-  const [additionalServices, setAdditionalServices] = useState<AdditionalService[]>([
-    { id: '1', name: 'Vaksinasi', price: '+Rp250.00', isSelected: true },
-    { id: '2', name: 'Bedah', price: '+Rp250.00', isSelected: false },
-    { id: '3', name: 'Pemeriksaan Laboratorium', price: '+Rp250.00', isSelected: false },
-  ]);
+  // Prefilled when booking from a health reminder
+  const [complaint, setComplaint] = useState(reason || '');
+  const [selectedServiceIds, setSelectedServiceIds] = useState<string[]>([]);
+  const [slotHold, setSlotHold] = useState<SlotHold | null>(null);
+  const [slotConflict, setSlotConflict] = useState<SlotConflict | null>(null);
+  // Read on unmount, where state is stale
+  const slotHoldIdRef = useRef<number | null>(null);
+
+  const { doctor, isLoading: isDoctorLoading } = useDoctor(Number(doctorId) || null);
+  const {
+    schedule,
+    isLoading: isScheduleLoading,
+    error: scheduleError,
+    refetch: refetchSchedule,
+  } = useDoctorSchedule(Number(doctorId) || null, date);
+  const timeSlots: DoctorTimeSlot[] = schedule?.timeSlots || [];
+
+  useEffect(() => {
+    slotHoldIdRef.current = slotHold?.id ?? null;
+    if (!slotHold) {
+      return;
+    }
+
+    // The hold lapses in Odoo at expiresAt; drop the selection at the same time
+    const timer = setTimeout(() => {
+      setSlotHold(null);
+      setSelectedTimeSlot(null);
+      refetchSchedule();
+      Alert.alert('Waktu Habis', 'Jadwal yang kamu pilih sudah tidak ditahan. Silakan pilih waktu lagi.');
+    }, Math.max(new Date(slotHold.expiresAt).getTime() - Date.now(), 0));
+
+    return () => clearTimeout(timer);
+  }, [slotHold]);
+
+  // Leaving the screen gives the slot back to other customers
+  useEffect(() => () => {
+    if (slotHoldIdRef.current) {
+      odooDoctorService.releaseSlot(slotHoldIdRef.current).catch(() => {
+        // Expires on its own
+      });
+    }
+  }, []);
+
+  useEffect(() => {
+    petService.getPets()
+      .then(setPets)
+      .catch(() => {
+        // The pet card asks the user to pick a pet instead
+      });
+  }, [petId]);
+
+  const selectedPet = pets.find(pet => pet.id === petId) || pets[0];
 
   const handleServiceToggle = (serviceId: string) => {
-    setAdditionalServices(prevServices =>
-      prevServices.map(service =>
-        service.id === serviceId
-          ? { ...service, isSelected: !service.isSelected }
-          : service
-      )
+    setSelectedServiceIds(prevIds =>
+      prevIds.includes(serviceId)
+        ? prevIds.filter(id => id !== serviceId)
+        : [...prevIds, serviceId]
     );
   };
 
+  const selectedServices = ADDITIONAL_SERVICES.filter(service => selectedServiceIds.includes(service.id));
+
   const calculateTotal = () => {
-    const basePrice = 350000;
-    const additionalPrice = additionalServices
-      .filter(service => service.isSelected)
-      .reduce((total, service) => total + 250000, 0);
+    const basePrice = doctor?.consultationFee || DEFAULT_CONSULTATION_FEE;
+    const additionalPrice = selectedServices.reduce((total, service) => total + service.price, 0);
     return basePrice + additionalPrice;
   };
 
-  const handleBooking = () => {
-    // Navigate to order summary or booking confirmation
-    // For now, just show alert
-    };
+  const releaseHeldSlot = () => {
+    if (slotHold) {
+      odooDoctorService.releaseSlot(slotHold.id).catch(() => {
+        // Expires on its own
+      });
+    }
+    setSlotHold(null);
+    setSelectedTimeSlot(null);
+  };
+
+  const showSlotConflict = (error: SlotConflictError) => {
+    setSlotHold(null);
+    setSelectedTimeSlot(null);
+    setSlotConflict({ message: error.message, alternatives: error.alternatives });
+    refetchSchedule();
+  };
+
+  const handleSelectSlot = async (slot: DoctorTimeSlot) => {
+    if (!user?.partner_id) {
+      Alert.alert('Login Diperlukan', 'Silakan login terlebih dahulu untuk membuat janji temu.');
+      return;
+    }
+
+    try {
+      showLoading('Menahan jadwal...');
+      const hold = await odooDoctorService.holdSlot(Number(doctorId), slot);
+      hideLoading();
+
+      const slotDate = new Date(slot.startTime);
+      if (slotDate.toDateString() !== date.toDateString()) {
+        setDate(slotDate);
+      }
+      setSelectedTimeSlot(slot);
+      setSlotHold(hold);
+      setSlotConflict(null);
+    } catch (error: any) {
+      hideLoading();
+      if (error instanceof SlotConflictError) {
+        showSlotConflict(error);
+        return;
+      }
+      Alert.alert('Gagal Memilih Jadwal', error.message || 'Silakan coba lagi.');
+    }
+  };
+
+  const handleBooking = async () => {
+    if (!user?.partner_id) {
+      Alert.alert('Login Diperlukan', 'Silakan login terlebih dahulu untuk membuat janji temu.');
+      return;
+    }
+    if (!selectedPet) {
+      Alert.alert('Pilih Hewan Peliharaan', 'Silakan pilih hewan peliharaan yang akan diperiksa.');
+      return;
+    }
+    if (!selectedTimeSlot) {
+      Alert.alert('Pilih Waktu', 'Silakan pilih periode waktu kedatangan.');
+      return;
+    }
+
+    try {
+      showLoading('Membuat janji temu...');
+
+      const { order } = await odooDoctorService.bookAppointment({
+        doctorId: Number(doctorId),
+        partnerId: user.partner_id,
+        pet: { id: selectedPet.id, name: selectedPet.name },
+        date,
+        slot: selectedTimeSlot,
+        holdId: slotHold?.id,
+        serviceType: 'walk-in',
+        reason: complaint.trim(),
+        additionalServices: selectedServices.map(service => ({ id: service.id, name: service.name, price: service.price })),
+      });
+
+      hideLoading();
+      // The hold became the appointment, nothing to release
+      slotHoldIdRef.current = null;
+      setSlotHold(null);
+      setSelectedTimeSlot(null);
+      refetchSchedule();
+
+      // The booking is paid like any order and then listed under Activity > Dokter
+      navigation.navigate('Activity', {
+        screen: 'PaymentMethodSelection',
+        params: {
+          orderId: order.id,
+          orderName: order.name,
+          totalAmount: order.amount_total,
+          customerInfo: {
+            name: user.name,
+            email: user.email,
+            phone: user.phone,
+          },
+        },
+      });
+    } catch (error: any) {
+      hideLoading();
+      if (error instanceof SlotConflictError) {
+        showSlotConflict(error);
+        return;
+      }
+      Alert.alert(
+        'Booking Gagal',
+        error.message || 'Gagal membuat janji temu. Silakan coba lagi.',
+        [{ text: 'OK' }]
+      );
+    }
+  };
 
   const handleDatePicker = () => {
     setShowDatePicker(true);
   };
 
-  const onDateChange = (event: any, selectedDate?: Date) => {
-    const currentDate = selectedDate || date;
+  const onDateChange = (event: any, pickedDate?: Date) => {
     setShowDatePicker(Platform.OS === 'ios');
-    setDate(currentDate);
-    
-    // Format date to DD MMM YYYY
-    const months = ['Jan', 'Feb', 'Mar', 'Apr', 'Mei', 'Jun', 'Jul', 'Agu', 'Sep', 'Okt', 'Nov', 'Des'];
-    const formatted = `${currentDate.getDate()} ${months[currentDate.getMonth()]} ${currentDate.getFullYear()}`;
-    setSelectedDate(formatted);
+    if (pickedDate) {
+      setDate(pickedDate);
+      releaseHeldSlot();
+      setSlotConflict(null);
+    }
   };
 
   return (
@@ -196,19 +335,34 @@ export default function DoctorDetailScreen() {
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
             <Text style={styles.sectionTitle}>Pilih Hewan Peliharaan</Text>
-            <TouchableOpacity onPress={() => navigation.navigate('PetSelection')}>
+            <TouchableOpacity
+              onPress={() => navigation.navigate('PetSelection', {
+                selectedPetId: selectedPet?.id,
+                returnTo: 'DoctorDetail',
+                doctorId,
+              })}
+            >
               <Text style={styles.pilihText}>Pilih</Text>
             </TouchableOpacity>
           </View>
           
-          <View style={styles.petCard}>
-            <Image source={selectedPet.image} style={styles.petImage} />
-            <View style={styles.petInfo}>
-              <Text style={styles.petName}>{selectedPet.name}</Text>
-              <Text style={styles.petDetails}>{selectedPet.breed}</Text>
-              <Text style={styles.petDetails}>{selectedPet.gender}, {selectedPet.age}</Text>
+          {selectedPet ? (
+            <View style={styles.petCard}>
+              <CachedImage
+                source={getPetPhotoSource(selectedPet)}
+                fallbackUri={selectedPet.photo}
+                placeholderImage={require('../../../assets/product-placeholder.jpg')}
+                style={styles.petImage}
+              />
+              <View style={styles.petInfo}>
+                <Text style={styles.petName}>{selectedPet.name}</Text>
+                <Text style={styles.petDetails}>{getPetBreedLabel(selectedPet)}</Text>
+                <Text style={styles.petDetails}>{getPetDetailLabel(selectedPet)}</Text>
+              </View>
             </View>
-          </View>
+          ) : (
+            <Text style={styles.noteText}>Belum ada hewan peliharaan yang dipilih</Text>
+          )}
         </View>
 
         {/* Doctor Selection */}
@@ -225,18 +379,22 @@ export default function DoctorDetailScreen() {
             lain yang bertugas di waktu tersebut.
           </Text>
           
-          <View style={styles.doctorCard}>
-            <Image source={selectedDoctor.image} style={styles.doctorImage} />
-            <View style={styles.doctorInfo}>
-              <Text style={styles.doctorName}>{selectedDoctor.name}</Text>
-              <Text style={styles.doctorSpecialization}>{selectedDoctor.specialization}</Text>
-            </View>
-            {selectedDoctor.isRecommended && (
-              <View style={styles.recommendedBadge}>
-                <Text style={styles.recommendedText}>Rekomendasi</Text>
+          {isDoctorLoading || !doctor ? (
+            <ActivityIndicator color={Colors.primary.main} />
+          ) : (
+            <View style={styles.doctorCard}>
+              <Image source={doctor.image} style={styles.doctorImage} />
+              <View style={styles.doctorInfo}>
+                <Text style={styles.doctorName}>{doctor.name}</Text>
+                <Text style={styles.doctorSpecialization}>{doctor.specialization}</Text>
               </View>
-            )}
-          </View>
+              {doctor.isRecommended && (
+                <View style={styles.recommendedBadge}>
+                  <Text style={styles.recommendedText}>Rekomendasi</Text>
+                </View>
+              )}
+            </View>
+          )}
         </View>
 
         {/* Date Selection */}
@@ -244,7 +402,7 @@ export default function DoctorDetailScreen() {
           <View style={styles.sectionHeader}>
             <Text style={styles.sectionTitle}>Hari / Tanggal</Text>
             <TouchableOpacity style={styles.dateButton} onPress={handleDatePicker}>
-              <Text style={styles.dateButtonText}>{selectedDate}</Text>
+              <Text style={styles.dateButtonText}>{formatDateLabel(date)}</Text>
               <MaterialIcons name="calendar-today" size={16} color={Colors.primary.main} />
             </TouchableOpacity>
           </View>
@@ -258,34 +416,86 @@ export default function DoctorDetailScreen() {
             Pastikan kamu datang tepat waktu ya.
           </Text>
           
-          <View style={styles.timeSlots}>
-            {mockTimeSlots.map((slot) => (
-              <TouchableOpacity
-                key={slot.id}
-                style={[
-                  styles.timeSlot,
-                  !slot.isAvailable && styles.timeSlotDisabled,
-                  selectedTimeSlot === slot.id && styles.timeSlotSelected
-                ]}
-                onPress={() => slot.isAvailable && setSelectedTimeSlot(slot.id)}
-                disabled={!slot.isAvailable}
-              >
-                <Text style={[
-                  styles.timeSlotText,
-                  !slot.isAvailable && styles.timeSlotTextDisabled,
-                  selectedTimeSlot === slot.id && styles.timeSlotTextSelected
-                ]}>
-                  {slot.time}
-                </Text>
-              </TouchableOpacity>
-            ))}
-          </View>
+          {isScheduleLoading ? (
+            <ActivityIndicator color={Colors.primary.main} />
+          ) : scheduleError ? (
+            <TouchableOpacity onPress={() => refetchSchedule()}>
+              <Text style={styles.noteText}>Gagal memuat jadwal. Ketuk untuk mencoba lagi.</Text>
+            </TouchableOpacity>
+          ) : timeSlots.some(slot => slot.isAvailable) ? (
+            <View style={styles.timeSlots}>
+              {timeSlots.map((slot) => (
+                <TouchableOpacity
+                  key={slot.id}
+                  style={[
+                    styles.timeSlot,
+                    !slot.isAvailable && styles.timeSlotDisabled,
+                    selectedTimeSlot?.id === slot.id && styles.timeSlotSelected
+                  ]}
+                  onPress={() => slot.isAvailable && handleSelectSlot(slot)}
+                  disabled={!slot.isAvailable}
+                >
+                  <Text style={[
+                    styles.timeSlotText,
+                    !slot.isAvailable && styles.timeSlotTextDisabled,
+                    selectedTimeSlot?.id === slot.id && styles.timeSlotTextSelected
+                  ]}>
+                    {slot.time}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          ) : (
+            <Text style={styles.noteText}>Tidak ada jadwal tersedia di tanggal ini. Silakan pilih tanggal lain.</Text>
+          )}
+
+          {slotHold && (
+            <Text style={styles.holdText}>
+              Jadwal ditahan untukmu sampai pukul {formatClock(slotHold.expiresAt)}
+            </Text>
+          )}
+
+          {slotConflict && (
+            <View style={styles.conflictCard}>
+              <View style={styles.conflictHeader}>
+                <MaterialIcons name="event-busy" size={20} color={Colors.error.main} />
+                <Text style={styles.conflictTitle}>{slotConflict.message}</Text>
+              </View>
+              {slotConflict.alternatives.length > 0 ? (
+                <>
+                  <Text style={styles.noteText}>Jadwal lain yang masih tersedia:</Text>
+                  <View style={styles.timeSlots}>
+                    {slotConflict.alternatives.map((slot) => (
+                      <TouchableOpacity
+                        key={slot.startTime}
+                        style={styles.timeSlot}
+                        onPress={() => handleSelectSlot(slot)}
+                      >
+                        <Text style={styles.timeSlotText}>
+                          {formatDateLabel(new Date(slot.startTime))}, {slot.time}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </>
+              ) : (
+                <Text style={styles.noteText}>Belum ada jadwal lain dalam seminggu ke depan.</Text>
+              )}
+            </View>
+          )}
         </View>
 
         {/* Additional Notes */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Keluhan</Text>
-          <Text style={styles.noteText}>berikan catatan tambahan</Text>
+          <TextInput
+            style={styles.complaintInput}
+            placeholder="berikan catatan tambahan"
+            placeholderTextColor={Colors.text.secondary}
+            value={complaint}
+            onChangeText={setComplaint}
+            multiline
+          />
         </View>
 
         {/* Additional Services */}
@@ -293,24 +503,27 @@ export default function DoctorDetailScreen() {
           <Text style={styles.sectionTitle}>Layanan Tambahan</Text>
           
           <View style={styles.services}>
-            {additionalServices.map((service) => (
-              <View key={service.id} style={styles.serviceItem}>
-                <View style={styles.serviceInfo}>
-                  <Text style={styles.serviceName}>{service.name}</Text>
-                  <Text style={styles.servicePrice}>{service.price}</Text>
+            {ADDITIONAL_SERVICES.map((service) => {
+              const isSelected = selectedServiceIds.includes(service.id);
+              return (
+                <View key={service.id} style={styles.serviceItem}>
+                  <View style={styles.serviceInfo}>
+                    <Text style={styles.serviceName}>{service.name}</Text>
+                    <Text style={styles.servicePrice}>+Rp{service.price.toLocaleString('id-ID')}</Text>
+                  </View>
+                  <TouchableOpacity
+                    style={styles.checkbox}
+                    onPress={() => handleServiceToggle(service.id)}
+                  >
+                    <MaterialIcons 
+                      name={isSelected ? "check-box" : "check-box-outline-blank"} 
+                      size={24} 
+                      color={isSelected ? Colors.primary.main : Colors.border.main} 
+                    />
+                  </TouchableOpacity>
                 </View>
-                <TouchableOpacity
-                  style={styles.checkbox}
-                  onPress={() => handleServiceToggle(service.id)}
-                >
-                  <MaterialIcons 
-                    name={service.isSelected ? "check-box" : "check-box-outline-blank"} 
-                    size={24} 
-                    color={service.isSelected ? Colors.primary.main : Colors.border.main} 
-                  />
-                </TouchableOpacity>
-              </View>
-            ))}
+              );
+            })}
           </View>
         </View>
       </ScrollView>
@@ -320,7 +533,10 @@ export default function DoctorDetailScreen() {
         <View style={styles.priceContainer}>
           <Text style={styles.totalPrice}>Rp{calculateTotal().toLocaleString('id-ID')}</Text>
         </View>
-        <TouchableOpacity style={styles.bookButton} onPress={handleBooking}>
+        <TouchableOpacity
+          style={[styles.bookButton, (!selectedPet || !selectedTimeSlot) && styles.bookButtonDisabled]}
+          onPress={handleBooking}
+        >
           <Text style={styles.bookButtonText}>Bayar</Text>
         </TouchableOpacity>
       </View>
@@ -619,6 +835,41 @@ const styles = StyleSheet.create({
   timeSlotTextDisabled: {
     color: Colors.text.secondary,
   },
+  holdText: {
+    marginTop: Spacing.sm,
+    fontSize: Typography.fontSize.sm,
+    color: Colors.primary.main,
+  },
+  conflictCard: {
+    marginTop: Spacing.md,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderColor: Colors.error.main,
+    gap: Spacing.sm,
+  },
+  conflictHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+  },
+  conflictTitle: {
+    flex: 1,
+    fontSize: Typography.fontSize.sm,
+    fontFamily: Typography.fontFamily.semibold,
+    color: Colors.error.main,
+  },
+  complaintInput: {
+    marginTop: Spacing.sm,
+    minHeight: 80,
+    borderWidth: 1,
+    borderColor: Colors.border.light,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    fontSize: Typography.fontSize.sm,
+    color: Colors.text.primary,
+    textAlignVertical: 'top',
+  },
   noteText: {
     fontSize: Typography.fontSize.sm,
     color: Colors.text.secondary,
@@ -678,6 +929,9 @@ const styles = StyleSheet.create({
     paddingHorizontal: Spacing.xl,
     paddingVertical: Spacing.md,
   },
+  bookButtonDisabled: {
+    opacity: 0.5,
+  },
   bookButtonText: {
     fontSize: Typography.fontSize.base,
     fontFamily: Typography.fontFamily.semibold,
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useCallback } from 'react';
 import {
   View,
   Text,
@@ -12,7 +12,7 @@ import {
   Platform,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useNavigation } from '@react-navigation/native';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { MaterialIcons } from '@expo/vector-icons';
 import DateTimePicker from '@react-native-community/datetimepicker';
@@ -20,6 +20,8 @@ import { Colors } from '../../constants/colors';
 import { Typography } from '../../constants/typography';
 import { Spacing, BorderRadius } from '../../constants/spacing';
 import { ServicesStackParamList } from '../../navigation/types';
+import { useAuth } from '../../contexts/AuthContext';
+import visitTrackingService, { HomeVisit, VISIT_STATUS_LABELS } from '../../services/visit/visitTrackingService';
 
 const { width } = Dimensions.get('window');
 
@@ -40,6 +42,23 @@ export default function DoctorHomeServiceScreen() {
   });
   const [date, setDate] = useState(new Date());
   const [showDatePicker, setShowDatePicker] = useState(false);
+  const { user } = useAuth();
+  const [activeVisits, setActiveVisits] = useState<HomeVisit[]>([]);
+
+  // A doctor (clinic staff login) sees the visits assigned to them, a customer their booked ones
+  useFocusEffect(
+    useCallback(() => {
+      if (!user?.partner_id) return;
+      const visits = user.staff
+        ? visitTrackingService.getDoctorVisits(user.id)
+        : visitTrackingService.getActiveVisits(user.partner_id);
+      visits
+        .then(setActiveVisits)
+        .catch(() => {
+          // No tracking card without visits
+        });
+    }, [user?.partner_id, user?.staff])
+  );
 
   const handleDatePicker = () => {
     setShowDatePicker(true);
@@ -140,6 +159,26 @@ export default function DoctorHomeServiceScreen() {
           </View>
         </View>
 
+        {/* Ongoing Visits */}
+        {activeVisits.map((visit) => (
+          <View key={visit.id} style={styles.section}>
+            <TouchableOpacity
+              style={styles.visitCard}
+              onPress={() => navigation.navigate('HomeVisitTracking', { visitId: visit.id })}
+            >
+              <MaterialIcons name="location-on" size={24} color={Colors.primary.main} />
+              <View style={styles.visitInfo}>
+                <Text style={styles.visitTitle}>{visit.doctorName || 'Kunjungan Dokter'}</Text>
+                <Text style={styles.visitStatus}>
+                  {VISIT_STATUS_LABELS[visit.status]}
+                  {visit.status === 'en_route' && visit.etaMinutes !== undefined ? ` · ±${visit.etaMinutes} menit` : ''}
+                </Text>
+              </View>
+              <Text style={styles.visitAction}>{user?.staff ? 'Buka' : 'Lacak'}</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+
         {/* Search Button */}
         <View style={styles.section}>
           <TouchableOpacity 
@@ -218,6 +257,33 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: Colors.background.secondary,
   },
+  visitCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1,
+    borderColor: Colors.primary.main,
+    backgroundColor: Colors.background.primary,
+  },
+  visitInfo: {
+    flex: 1,
+  },
+  visitTitle: {
+    fontSize: Typography.fontSize.base,
+    fontFamily: Typography.fontFamily.semibold,
+    color: Colors.text.primary,
+  },
+  visitStatus: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.text.secondary,
+  },
+  visitAction: {
+    fontSize: Typography.fontSize.base,
+    fontFamily: Typography.fontFamily.medium,
+    color: Colors.primary.main,
+  },
   header: {
     flexDirection: 'row',
     alignItems: 'center',
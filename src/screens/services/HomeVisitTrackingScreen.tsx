@@ -0,0 +1,473 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { MaterialIcons } from '@expo/vector-icons';
+import { WebView } from 'react-native-webview';
+import { Colors } from '../../constants/colors';
+import { Typography } from '../../constants/typography';
+import { Spacing, BorderRadius } from '../../constants/spacing';
+import { ServicesStackParamList } from '../../navigation/types';
+import { LEAFLET_HEAD, leafletTileLayer, leafletMessageListener } from '../../components/map/leafletHtml';
+import { useAuth } from '../../contexts/AuthContext';
+import visitTrackingService, {
+  HomeVisit,
+  GeoPoint,
+  VisitStatus,
+  VISIT_STATUS_LABELS,
+  ARRIVING_SOON_MINUTES,
+} from '../../services/visit/visitTrackingService';
+
+type NavigationProp = StackNavigationProp<ServicesStackParamList, 'HomeVisitTracking'>;
+type HomeVisitTrackingRouteProp = RouteProp<ServicesStackParamList, 'HomeVisitTracking'>;
+
+const TRACKED_STATUSES: VisitStatus[] = ['en_route', 'arrived', 'finished'];
+
+// Faster than the service default so the doctor marker moves smoothly
+const POLL_INTERVAL_MS = 5000;
+
+const generateTrackingMapHTML = (destination: GeoPoint) => `
+<!DOCTYPE html>
+<html>
+<head>${LEAFLET_HEAD}
+  <style>
+    body { margin: 0; padding: 0; }
+    #map { height: 100vh; width: 100vw; }
+  </style>
+</head>
+<body>
+  <div id="map"></div>
+  <script>
+    var map = L.map('map').setView([${destination.latitude}, ${destination.longitude}], 15);
+    ${leafletTileLayer('map')}
+
+    function createIcon(emoji, color) {
+      return L.divIcon({
+        html: '<div style="background-color: ' + color + '; width: 34px; height: 34px; border-radius: 50%; border: 2px solid white; display: flex; align-items: center; justify-content: center; box-shadow: 0 2px 4px rgba(0,0,0,0.3); font-size: 16px;">' + emoji + '</div>',
+        className: '',
+        iconSize: [34, 34],
+        iconAnchor: [17, 17]
+      });
+    }
+
+    var homeMarker = L.marker([${destination.latitude}, ${destination.longitude}], {
+      icon: createIcon('🏠', '${Colors.primary.main}')
+    }).addTo(map);
+    var doctorMarker = null;
+    var routeLine = null;
+    var hasFitted = false;
+
+    function handleMessage(data) {
+      if (data.type !== 'update_doctor') return;
+
+      var position = [data.latitude, data.longitude];
+      if (!doctorMarker) {
+        doctorMarker = L.marker(position, { icon: createIcon('🩺', '${Colors.info.main}') }).addTo(map);
+        routeLine = L.polyline([position, homeMarker.getLatLng()], {
+          color: '${Colors.info.main}',
+          weight: 3,
+          dashArray: '6, 8'
+        }).addTo(map);
+      } else {
+        doctorMarker.setLatLng(position);
+        routeLine.setLatLngs([position, homeMarker.getLatLng()]);
+      }
+
+      // Frame both markers once; afterwards the customer controls the map
+      if (!hasFitted) {
+        map.fitBounds(L.latLngBounds([position, homeMarker.getLatLng()]), { padding: [60, 60] });
+        hasFitted = true;
+      }
+    }
+    ${leafletMessageListener('handleMessage')}
+
+    window.ReactNativeWebView.postMessage(JSON.stringify({ type: 'map_ready' }));
+  </script>
+</body>
+</html>
+`;
+
+const formatDistance = (meters: number) =>
+  meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(1).replace('.', ',')} km`;
+
+const formatClock = (iso: string) =>
+  new Date(iso).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit', hour12: false });
+
+export default function HomeVisitTrackingScreen() {
+  const navigation = useNavigation<NavigationProp>();
+  const route = useRoute<HomeVisitTrackingRouteProp>();
+  const { visitId } = route.params;
+
+  const { user } = useAuth();
+  // The visiting doctor signs in with a clinic staff account and shares their location from here
+  const isDoctor = !!user?.staff;
+
+  const webViewRef = useRef<WebView>(null);
+  const stopPublishingRef = useRef<(() => void) | null>(null);
+  const [visit, setVisit] = useState<HomeVisit | null>(null);
+  const [isMapReady, setIsMapReady] = useState(false);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  useEffect(() => {
+    const stopWatching = visitTrackingService.watchVisit(visitId, setVisit, POLL_INTERVAL_MS);
+
+    return () => {
+      stopWatching();
+      stopPublishingRef.current?.();
+    };
+  }, [visitId]);
+
+  // Move the doctor marker whenever a new position comes in
+  useEffect(() => {
+    if (isMapReady && visit?.doctorLocation) {
+      webViewRef.current?.postMessage(JSON.stringify({
+        type: 'update_doctor',
+        latitude: visit.doctorLocation.latitude,
+        longitude: visit.doctorLocation.longitude,
+      }));
+    }
+  }, [isMapReady, visit?.doctorLocation?.latitude, visit?.doctorLocation?.longitude]);
+
+  // Publishing ends by itself once the doctor arrives
+  useEffect(() => {
+    if (visit && visit.status !== 'scheduled' && visit.status !== 'en_route') {
+      stopPublishing();
+    }
+  }, [visit?.status]);
+
+  const stopPublishing = () => {
+    stopPublishingRef.current?.();
+    stopPublishingRef.current = null;
+    setIsPublishing(false);
+  };
+
+  const handleWebViewMessage = (event: any) => {
+    try {
+      const data = JSON.parse(event.nativeEvent.data);
+      if (data.type === 'map_ready') {
+        setIsMapReady(true);
+      }
+    } catch (error) {
+      // Ignore messages that are not ours
+    }
+  };
+
+  const handleTogglePublishing = async () => {
+    if (isPublishing) {
+      stopPublishing();
+      return;
+    }
+
+    setIsUpdating(true);
+    try {
+      stopPublishingRef.current = await visitTrackingService.startLocationPublishing(visitId);
+      setIsPublishing(true);
+      setVisit(await visitTrackingService.getVisit(visitId));
+    } catch (error: any) {
+      Alert.alert('Gagal Membagikan Lokasi', error.message || 'Lokasi tidak dapat dibagikan. Silakan coba lagi.');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleFinish = async () => {
+    setIsUpdating(true);
+    try {
+      setVisit(await visitTrackingService.finishVisit(visitId));
+    } catch (error: any) {
+      Alert.alert('Gagal Menyelesaikan Kunjungan', error.message || 'Silakan coba lagi.');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const renderDoctorAction = () => {
+    if (!visit || visit.status === 'finished') return null;
+
+    const isArrived = visit.status === 'arrived';
+    const label = isArrived
+      ? 'Selesaikan Kunjungan'
+      : isPublishing
+        ? 'Berhenti Membagikan Lokasi'
+        : visit.status === 'scheduled' ? 'Mulai Perjalanan' : 'Bagikan Lokasi';
+
+    return (
+      <TouchableOpacity
+        style={[styles.actionButton, isUpdating && styles.actionButtonDisabled]}
+        onPress={isArrived ? handleFinish : handleTogglePublishing}
+        disabled={isUpdating}
+      >
+        {isUpdating ? (
+          <ActivityIndicator size="small" color={Colors.primary.main} />
+        ) : (
+          <Text style={styles.actionButtonText}>{label}</Text>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  const renderEta = () => {
+    if (!visit) return null;
+
+    switch (visit.status) {
+      case 'scheduled':
+        return <Text style={styles.etaTitle}>Dokter belum berangkat</Text>;
+      case 'en_route':
+        return (
+          <>
+            <Text style={styles.etaTitle}>
+              {visit.etaMinutes !== undefined ? `Tiba dalam ±${visit.etaMinutes} menit` : 'Dokter dalam perjalanan'}
+            </Text>
+            {visit.distanceMeters !== undefined && (
+              <Text style={styles.etaSubtitle}>
+                {formatDistance(visit.distanceMeters)} dari lokasimu
+                {visit.locationUpdatedAt ? ` · diperbarui ${formatClock(visit.locationUpdatedAt)}` : ''}
+              </Text>
+            )}
+          </>
+        );
+      case 'arrived':
+        return <Text style={styles.etaTitle}>Dokter sudah tiba di lokasimu</Text>;
+      case 'finished':
+        return <Text style={styles.etaTitle}>Kunjungan selesai</Text>;
+    }
+  };
+
+  if (!visit) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={Colors.primary.main} />
+          <Text style={styles.loadingText}>Memuat kunjungan...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const isArrivingSoon = visit.status === 'en_route'
+    && visit.etaMinutes !== undefined
+    && visit.etaMinutes <= ARRIVING_SOON_MINUTES;
+  const currentStep = TRACKED_STATUSES.indexOf(visit.status);
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <MaterialIcons name="arrow-back" size={24} color={Colors.text.primary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{isDoctor ? 'Kunjungan Dokter' : 'Lacak Dokter'}</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <View style={styles.mapContainer}>
+        <WebView
+          ref={webViewRef}
+          source={{ html: generateTrackingMapHTML(visit.destination) }}
+          style={styles.map}
+          onMessage={handleWebViewMessage}
+          javaScriptEnabled={true}
+          domStorageEnabled={true}
+          startInLoadingState={true}
+          onError={() => {
+            Alert.alert('Error', 'Gagal memuat peta. Silakan coba lagi.');
+          }}
+          renderLoading={() => (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator size="large" color={Colors.primary.main} />
+              <Text style={styles.loadingText}>Memuat peta...</Text>
+            </View>
+          )}
+        />
+      </View>
+
+      <View style={styles.infoCard}>
+        {isArrivingSoon && (
+          <View style={styles.arrivingBanner}>
+            <MaterialIcons name="notifications-active" size={18} color={Colors.text.white} />
+            <Text style={styles.arrivingText}>Dokter akan segera tiba</Text>
+          </View>
+        )}
+
+        {renderEta()}
+
+        {visit.doctorName && (
+          <View style={styles.doctorRow}>
+            <MaterialIcons name="medical-services" size={18} color={Colors.primary.main} />
+            <Text style={styles.doctorName}>{visit.doctorName}</Text>
+          </View>
+        )}
+
+        {visit.address && <Text style={styles.addressText}>{visit.address}</Text>}
+
+        {/* Status steps */}
+        <View style={styles.steps}>
+          {TRACKED_STATUSES.map((status, index) => {
+            const isDone = currentStep >= index;
+            return (
+              <View key={status} style={styles.step}>
+                <View style={[styles.stepDot, isDone && styles.stepDotDone]}>
+                  {isDone && <MaterialIcons name="check" size={14} color={Colors.text.white} />}
+                </View>
+                <Text style={[styles.stepLabel, isDone && styles.stepLabelDone]}>
+                  {VISIT_STATUS_LABELS[status]}
+                </Text>
+              </View>
+            );
+          })}
+        </View>
+
+        {isDoctor && renderDoctorAction()}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background.primary,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.base,
+    paddingVertical: Spacing.md,
+    backgroundColor: Colors.background.primary,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border.light,
+  },
+  backButton: {
+    padding: Spacing.sm,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: Typography.fontSize.lg,
+    fontFamily: Typography.fontFamily.semibold,
+    color: Colors.text.primary,
+    textAlign: 'center',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  mapContainer: {
+    flex: 1,
+  },
+  map: {
+    flex: 1,
+  },
+  loadingContainer: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: Colors.background.primary,
+  },
+  loadingText: {
+    marginTop: Spacing.sm,
+    fontSize: Typography.fontSize.sm,
+    color: Colors.text.secondary,
+  },
+  infoCard: {
+    padding: Spacing.base,
+    gap: Spacing.sm,
+    borderTopLeftRadius: BorderRadius.lg,
+    borderTopRightRadius: BorderRadius.lg,
+    backgroundColor: Colors.background.primary,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border.light,
+  },
+  arrivingBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    backgroundColor: Colors.primary.main,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+  },
+  arrivingText: {
+    fontSize: Typography.fontSize.sm,
+    fontFamily: Typography.fontFamily.semibold,
+    color: Colors.text.white,
+  },
+  etaTitle: {
+    fontSize: Typography.fontSize.xl,
+    fontFamily: Typography.fontFamily.bold,
+    color: Colors.text.primary,
+  },
+  etaSubtitle: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.text.secondary,
+  },
+  doctorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+  },
+  doctorName: {
+    fontSize: Typography.fontSize.base,
+    fontFamily: Typography.fontFamily.medium,
+    color: Colors.text.primary,
+  },
+  addressText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.text.secondary,
+  },
+  steps: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: Spacing.sm,
+  },
+  step: {
+    flex: 1,
+    alignItems: 'center',
+    gap: Spacing.xs,
+  },
+  stepDot: {
+    width: 24,
+    height: 24,
+    borderRadius: BorderRadius.full,
+    borderWidth: 2,
+    borderColor: Colors.border.main,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepDotDone: {
+    backgroundColor: Colors.primary.main,
+    borderColor: Colors.primary.main,
+  },
+  stepLabel: {
+    fontSize: Typography.fontSize.xs,
+    color: Colors.text.secondary,
+    textAlign: 'center',
+  },
+  stepLabelDone: {
+    color: Colors.primary.main,
+    fontFamily: Typography.fontFamily.medium,
+  },
+  actionButton: {
+    marginTop: Spacing.sm,
+    borderWidth: 1,
+    borderColor: Colors.primary.main,
+    borderRadius: BorderRadius.full,
+    paddingVertical: Spacing.sm,
+    alignItems: 'center',
+  },
+  actionButtonDisabled: {
+    opacity: 0.6,
+  },
+  actionButtonText: {
+    fontSize: Typography.fontSize.sm,
+    fontFamily: Typography.fontFamily.medium,
+    color: Colors.primary.main,
+  },
+});
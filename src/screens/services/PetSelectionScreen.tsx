@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   View,
   Text,
@@ -6,82 +6,84 @@ import {
   ScrollView,
   TouchableOpacity,
   Image,
+  ActivityIndicator,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useNavigation } from '@react-navigation/native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { MaterialIcons } from '@expo/vector-icons';
 import { Colors } from '../../constants/colors';
 import { Typography } from '../../constants/typography';
 import { Spacing, BorderRadius } from '../../constants/spacing';
 import { ServicesStackParamList } from '../../navigation/types';
+import petService, { Pet, getPetPhotoSource } from '../../services/petService';
+import CachedImage from '../../components/media/CachedImage';
 
 type NavigationProp = StackNavigationProp<ServicesStackParamList, 'PetSelection'>;
+type PetSelectionRouteProp = RouteProp<ServicesStackParamList, 'PetSelection'>;
 
-interface Pet {
-  id: string;
-  name: string;
-  breed: string;
-  gender: string;
-  age: string;
-  image: any;
-}
+const petTypeLabels: Record<Pet['type'], string> = {
+  dog: 'Anjing',
+  cat: 'Kucing',
+  bird: 'Burung',
+  fish: 'Ikan',
+  rabbit: 'Kelinci',
+  hamster: 'Hamster',
+  other: 'Lainnya',
+};
 
-const mockPets: Pet[] = [
-  {
-    id: '1',
-    name: 'Name Pet',
-    breed: 'Anjing, Chihuahua',
-    gender: 'Jantan',
-    age: '1 tahun',
-    image: require('../../../assets/product-placeholder.jpg'),
-  },
-  {
-    id: '2',
-    name: 'Name Pet',
-    breed: 'Anjing, Chihuahua',
-    gender: 'Jantan',
-    age: '1 tahun',
-    image: require('../../../assets/product-placeholder.jpg'),
-  },
-  {
-    id: '3',
-    name: 'Name Pet',
-    breed: 'Anjing, Chihuahua',
-    gender: 'Jantan',
-    age: '1 tahun',
-    image: require('../../../assets/product-placeholder.jpg'),
-  },
-  {
-    id: '4',
-    name: 'Name Pet',
-    breed: 'Anjing, Chihuahua',
-    gender: 'Jantan',
-    age: '1 tahun',
-    image: require('../../../assets/product-placeholder.jpg'),
-  },
-  {
-    id: '5',
-    name: 'Name Pet',
-    breed: 'Anjing, Chihuahua',
-    gender: 'Jantan',
-    age: '1 tahun',
-    image: require('../../../assets/product-placeholder.jpg'),
-  },
-];
+/**
+ * "Anjing, Chihuahua"
+ */
+export const getPetBreedLabel = (pet: Pet) =>
+  [petTypeLabels[pet.type] || pet.type, pet.breed].filter(Boolean).join(', ');
+
+/**
+ * "Jantan, 1 tahun"
+ */
+export const getPetDetailLabel = (pet: Pet) =>
+  [
+    pet.gender ? (pet.gender === 'male' ? 'Jantan' : 'Betina') : null,
+    pet.age !== undefined ? `${pet.age} tahun` : null,
+  ].filter(Boolean).join(', ');
 
 export default function PetSelectionScreen() {
   const navigation = useNavigation<NavigationProp>();
-  const [selectedPetId, setSelectedPetId] = useState<string>('1'); // Default to first pet
+  const route = useRoute<PetSelectionRouteProp>();
+  const [pets, setPets] = useState<Pet[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedPetId, setSelectedPetId] = useState<number | undefined>(route.params?.selectedPetId);
   const [selectedFilter, setSelectedFilter] = useState('Semua');
 
+  useEffect(() => {
+    petService.getPets()
+      .then(userPets => {
+        setPets(userPets);
+        if (!selectedPetId && userPets.length > 0) {
+          setSelectedPetId(userPets[0].id);
+        }
+      })
+      .catch(() => {
+        // Shows the empty state
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
   const handleSelectPet = () => {
-    const selectedPet = mockPets.find(pet => pet.id === selectedPetId);
-    if (selectedPet) {
-      // Navigate back with selected pet data
+    const selectedPet = pets.find(pet => pet.id === selectedPetId);
+    if (!selectedPet) {
+      return;
+    }
+
+    if (route.params?.returnTo === 'DoctorDetail' && route.params.doctorId) {
+      navigation.navigate({
+        name: 'DoctorDetail',
+        params: { doctorId: route.params.doctorId, petId: selectedPet.id },
+        merge: true,
+      });
+    } else {
       navigation.goBack();
-      // In a real app, you'd pass the selected pet data back
-      }
+    }
   };
 
   const renderPet = (pet: Pet) => (
@@ -101,12 +103,17 @@ export default function PetSelectionScreen() {
         />
       </View>
       
-      <Image source={pet.image} style={styles.petImage} />
+      <CachedImage
+        source={getPetPhotoSource(pet)}
+        fallbackUri={pet.photo}
+        placeholderImage={require('../../../assets/product-placeholder.jpg')}
+        style={styles.petImage}
+      />
       
       <View style={styles.petInfo}>
         <Text style={styles.petName}>{pet.name}</Text>
-        <Text style={styles.petBreed}>{pet.breed}</Text>
-        <Text style={styles.petDetails}>{pet.gender}, {pet.age}</Text>
+        <Text style={styles.petBreed}>{getPetBreedLabel(pet)}</Text>
+        <Text style={styles.petDetails}>{getPetDetailLabel(pet)}</Text>
       </View>
     </TouchableOpacity>
   );
@@ -138,7 +145,15 @@ export default function PetSelectionScreen() {
 
         {/* Pets List */}
         <View style={styles.petsList}>
-          {mockPets.map(renderPet)}
+          {loading ? (
+            <ActivityIndicator size="large" color={Colors.primary.main} />
+          ) : pets.length > 0 ? (
+            pets.map(renderPet)
+          ) : (
+            <Text style={styles.emptyText}>
+              Belum ada hewan peliharaan. Tambahkan hewan peliharaan di menu Profil.
+            </Text>
+          )}
         </View>
       </ScrollView>
 
@@ -269,6 +284,12 @@ const styles = StyleSheet.create({
     fontSize: Typography.fontSize.sm,
     color: Colors.text.secondary,
   },
+  emptyText: {
+    fontSize: Typography.fontSize.sm,
+    color: Colors.text.secondary,
+    textAlign: 'center',
+    marginTop: Spacing.lg,
+  },
   buttonContainer: {
     position: 'absolute',
     bottom: 0,
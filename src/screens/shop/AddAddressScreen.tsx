@@ -21,6 +21,7 @@ import { Spacing, BorderRadius } from '../../constants/spacing';
 import { HomeStackParamList } from '../../navigation/types';
 import odooAddressService from '../../services/address/odooAddressService';
 import defaultAddressService from '../../services/address/defaultAddressService';
+import districtIndex from '../../services/shipping/districtIndex';
 import { Address } from './AddressListScreen';
 
 type NavigationProp = StackNavigationProp<HomeStackParamList, 'AddAddress'>;
@@ -116,6 +117,21 @@ export default function AddAddressScreen() {
     try {
       let addressId: number | string;
 
+      // Store KiriminAja IDs on the address so shipping is quoted without a lookup
+      let districtId = formData.district_id;
+      let subdistrictId = formData.subdistrict_id;
+      if (!districtId) {
+        const resolved = await districtIndex.resolve({
+          district: formData.district,
+          subDistrict: formData.subDistrict,
+          city: formData.city,
+          province: formData.province,
+          postalCode: formData.postalCode,
+        });
+        districtId = resolved?.district_id;
+        subdistrictId = subdistrictId || resolved?.subdistrict_id;
+      }
+
       // Prepare extended location data for shipping
       const extendedData = JSON.stringify({
         detail: formData.detail || '',
@@ -124,8 +140,8 @@ export default function AddAddressScreen() {
         subDistrict: formData.subDistrict || '',
         province_id: formData.province_id,
         city_id: formData.city_id,
-        district_id: formData.district_id,
-        subdistrict_id: formData.subdistrict_id,
+        district_id: districtId,
+        subdistrict_id: subdistrictId,
       });
 
       if (isEditing && existingAddress) {
@@ -9,29 +9,41 @@ import {
   Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { CompositeNavigationProp, useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
+import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 import { MaterialIcons, Ionicons } from '@expo/vector-icons';
 import { Colors } from '../../constants/colors';
 import { Typography } from '../../constants/typography';
 import { Spacing, BorderRadius } from '../../constants/spacing';
-import { HomeStackParamList, PromoStackParamList } from '../../navigation/types';
+import { HomeStackParamList, MainTabParamList, PromoStackParamList, RootStackParamList } from '../../navigation/types';
 import { useCart } from '../../contexts/CartContext';
 import orderService, { CreateOrderData } from '../../services/order/orderService';
+import cartService, { CartChange } from '../../services/cart/cartService';
+import { ShipmentDestination, ShipmentServiceGroup } from '../../services/shipping/shipmentBookingService';
+import packageService, { PackageDetails, DEFAULT_ITEM_WEIGHT } from '../../services/shipping/packageService';
 import paymentSimulator from '../../services/payment/paymentSimulator';
 import authService from '../../services/auth/authService';
 import PaymentMethodModal from '../../components/modals/PaymentMethodModal';
 import PaymentDetails from '../../components/payment/PaymentDetails';
 import paymentGatewayService from '../../services/payment/paymentGatewayService';
+import { PaymentMethod as GatewayPaymentMethod } from '../../services/payment/paymentGatewayConfig';
+import paymentStatusEngine from '../../services/payment/paymentStatusEngine';
+import walletService, { WalletBalance } from '../../services/wallet/walletService';
 import { useLoading } from '../../hooks/useLoading';
 import { Address } from './AddressListScreen';
 import odooAddressService from '../../services/address/odooAddressService';
 import AutoKirimModal from '../../components/modals/AutoKirimModal';
+import autoKirimService, { AutoKirimConfig } from '../../services/subscription/autoKirimService';
 
 const autoKirimIcon = require('../../../assets/icons/order/auto_kirim.png');
 
 // Support navigation from both Home and Promo stacks
-type NavigationProp = StackNavigationProp<HomeStackParamList, 'Checkout'> | StackNavigationProp<PromoStackParamList, 'Checkout'>;
+// Checkout sits in the Home and Promo stacks; payment screens are on the root stack
+type NavigationProp = CompositeNavigationProp<
+  StackNavigationProp<HomeStackParamList, 'Checkout'>,
+  CompositeNavigationProp<BottomTabNavigationProp<MainTabParamList>, StackNavigationProp<RootStackParamList>>
+>;
 type CheckoutRouteProp = RouteProp<HomeStackParamList, 'Checkout'> | RouteProp<PromoStackParamList, 'Checkout'>;
 
 interface ShippingAddress {
@@ -56,12 +68,7 @@ interface CartItem {
   discount?: number;
   seller?: string;
   purchaseType?: 'autokirim' | 'sekali';
-  autoKirimConfig?: {
-    period: number;
-    unit: 'minggu' | 'bulan';
-    startDate: Date;
-    duration?: number;
-  };
+  autoKirimConfig?: AutoKirimConfig;
 }
 
 interface ShippingOption {
@@ -70,6 +77,11 @@ interface ShippingOption {
   service: string;
   price: number;
   estimatedDays: string;
+  // KiriminAja service details, set when chosen from live rates
+  courier?: string;
+  serviceType?: string;
+  group?: ShipmentServiceGroup;
+  cod?: boolean;
 }
 
 interface PaymentMethod {
@@ -92,7 +104,7 @@ interface Voucher {
 export default function CheckoutScreen() {
   const navigation = useNavigation<NavigationProp>();
   const route = useRoute<CheckoutRouteProp>();
-  const { items: contextCartItems, totalPrice, totalItems, clearCart } = useCart();
+  const { items: contextCartItems, totalPrice, totalItems, clearCart, replaceItems } = useCart();
   const { showLoading, hideLoading } = useLoading();
   
   const [user, setUser] = useState<any>(null);
@@ -102,23 +114,41 @@ export default function CheckoutScreen() {
   const [orderName, setOrderName] = useState<string>('');
   
   const [selectedAddress, setSelectedAddress] = useState<Address | null>(null);
+  const [packageDetails, setPackageDetails] = useState<PackageDetails | null>(null);
+
+  // Weigh the cart for shipping quotes and item weights
+  useEffect(() => {
+    let cancelled = false;
+    packageService.calculatePackage(contextCartItems).then(details => {
+      if (!cancelled) {
+        setPackageDetails(details);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [contextCartItems]);
 
   // Convert context cart items to local format with purchase options
   useEffect(() => {
-    const items: CartItem[] = contextCartItems.map(item => ({
-      id: item.id,
-      name: item.name,
-      price: item.price,
-      originalPrice: item.originalPrice,
-      quantity: item.quantity,
-      image: item.image,
-      weight: '500gr', // Default weight
-      discount: item.discount,
-      seller: 'PawSmart',
-      purchaseType: 'sekali' as const, // Default to one-time purchase
+    setCartItemsWithOptions(prev => contextCartItems.map(item => {
+      // Keep purchase options already chosen on this screen (e.g. after revalidation)
+      const existing = prev.find(prevItem => prevItem.id === item.id);
+      return {
+        id: item.id,
+        name: item.name,
+        price: item.price,
+        originalPrice: item.originalPrice,
+        quantity: item.quantity,
+        image: item.image,
+        weight: packageService.formatWeight(packageDetails?.itemWeights[item.id] || DEFAULT_ITEM_WEIGHT),
+        discount: item.discount,
+        seller: 'PawSmart',
+        purchaseType: existing?.purchaseType || 'sekali' as const, // Default to one-time purchase
+        autoKirimConfig: existing?.autoKirimConfig,
+      };
     }));
-    setCartItemsWithOptions(items);
-  }, [contextCartItems]);
+  }, [contextCartItems, packageDetails]);
 
   const [selectedShipping, setSelectedShipping] = useState<ShippingOption>({
     id: '1',
@@ -131,6 +161,8 @@ export default function CheckoutScreen() {
   const [selectedPayment, setSelectedPayment] = useState<any>(null);
 
   const [selectedVouchers, setSelectedVouchers] = useState<Voucher[]>([]);
+  const [walletBalance, setWalletBalance] = useState<WalletBalance | null>(null);
+  const [useWallet, setUseWallet] = useState(false);
   const [hasInsurance, setHasInsurance] = useState(false);
   const [showAutoKirimModal, setShowAutoKirimModal] = useState(false);
   const [editingItemId, setEditingItemId] = useState<string | null>(null);
@@ -162,7 +194,7 @@ export default function CheckoutScreen() {
     }
   };
 
-  const handleAutoKirimConfig = (config: any) => {
+  const handleAutoKirimConfig = (config: AutoKirimConfig) => {
     if (editingItemId) {
       setCartItemsWithOptions(prev => prev.map(item => 
         item.id === editingItemId ? { 
@@ -210,6 +242,14 @@ export default function CheckoutScreen() {
       
       const userData = await authService.getCurrentUser();
       setUser(userData);
+
+      if (userData?.partner_id) {
+        walletService.getBalance(userData.partner_id)
+          .then(setWalletBalance)
+          .catch(() => {
+            // Checkout works without the wallet; the balance section stays hidden
+          });
+      }
       
       // Load addresses from Odoo
       try {
@@ -322,7 +362,7 @@ export default function CheckoutScreen() {
 
     if (totalItems === 0 && !hasExistingOrder && !hasPaymentScreens) {
       // Silently redirect to my orders page without popup using nested navigation
-      navigation.navigate('Activity' as any, {
+      navigation.navigate('Activity', {
         screen: 'MyOrders',
         params: { orderId: undefined }
       });
@@ -376,6 +416,14 @@ export default function CheckoutScreen() {
     return finalTotal;
   };
 
+  // Part of the total paid from the PawSmart balance and part left for the gateway
+  const getWalletSplit = () =>
+    walletService.getSplit(calculateTotal(), useWallet && walletBalance ? walletBalance.available : 0);
+
+  // Cash on delivery is collected by regular couriers that offer it
+  const codAvailable = !!selectedShipping.cod && selectedShipping.group !== 'instant';
+  const payOnDelivery = selectedPayment?.type === 'COD';
+
   const handleSelectAddress = async () => {
     // Check if user is authenticated before navigating
     const isAuthenticated = await authService.isAuthenticated();
@@ -417,6 +465,7 @@ export default function CheckoutScreen() {
   const handleSelectShipping = () => {
     navigation.navigate('ShippingOptions', {
       deliveryAddress: selectedAddress, // Pass the selected delivery address
+      packageDetails: packageDetails || undefined,
       selectedShipping,
       selectedPayment, // Preserve payment selection
     });
@@ -468,9 +517,30 @@ export default function CheckoutScreen() {
         return;
       }
 
+      // The wallet covers part of the order; the gateway charges the rest
+      const { walletAmount, gatewayAmount } = getWalletSplit();
+      if (walletAmount > 0) {
+        await walletService.holdForOrder(currentOrderId, walletAmount);
+      } else {
+        await walletService.releaseOrderHolds(currentOrderId);
+      }
+
+      // Cards are tokenized and charged on their own screen
+      if (method.type === 'CARDS') {
+        hideLoading();
+        navigation.navigate('CardPayment', {
+          orderInfo: {
+            orderId: currentOrderId,
+            orderName: currentOrderName,
+            totalAmount: gatewayAmount,
+          },
+        });
+        return;
+      }
+
       const paymentRequest = {
         orderId: currentOrderId,
-        amount: calculateTotal(),
+        amount: gatewayAmount,
         paymentMethod: method.type,
         customerName: customerName.trim(),
         customerEmail: customerEmail.trim(),
@@ -507,14 +577,15 @@ export default function CheckoutScreen() {
         paymentOptions
       );
       
-      // Save payment info to order
+      // The proxy saves the payment on the order; watch it until it is final
       if (paymentResponse && paymentResponse.paymentId && currentOrderId) {
-        await orderService.updateOrderPaymentInfo(
-          currentOrderId,
-          paymentResponse.paymentId,
-          method.type,
-          paymentResponse.status || 'PENDING'
-        );
+        await paymentStatusEngine.track({
+          paymentId: paymentResponse.paymentId,
+          orderId: currentOrderId,
+          provider: paymentResponse.provider,
+          paymentMethod: method.type as GatewayPaymentMethod,
+          expiresAt: paymentResponse.expiresAt,
+        });
       }
       
       setPaymentData(paymentResponse);
@@ -525,7 +596,7 @@ export default function CheckoutScreen() {
         const orderInfo = {
           orderId: currentOrderId?.toString(),
           orderName: currentOrderName,
-          totalAmount: calculateTotal(),
+          totalAmount: gatewayAmount,
         };
 
         switch (method.type) {
@@ -629,9 +700,35 @@ export default function CheckoutScreen() {
   };
 
 
+  const payWithWallet = async (currentOrderId: string | number, currentOrderName: string) => {
+    try {
+      showLoading('Membayar dengan Saldo PawSmart...');
+
+      const total = calculateTotal();
+      // The proxy settles the order and books the courier
+      await orderService.payWithWallet(currentOrderId, total);
+
+      hideLoading();
+      navigation.navigate('UniversalSuccess', {
+        orderId: currentOrderId,
+        orderName: currentOrderName,
+        totalAmount: total,
+      });
+    } catch (error: any) {
+      hideLoading();
+      Alert.alert(
+        'Pembayaran Gagal',
+        error.message || 'Gagal membayar dengan Saldo PawSmart. Silakan coba lagi.',
+        [{ text: 'OK' }]
+      );
+    }
+  };
+
   const handleCheckout = async () => {
+    const paidByWallet = !payOnDelivery && getWalletSplit().gatewayAmount === 0;
+
     // Check if payment method is selected
-    if (!selectedPayment) {
+    if (!selectedPayment && !paidByWallet) {
       Alert.alert(
         'Metode Pembayaran',
         'Silakan pilih metode pembayaran terlebih dahulu',
@@ -640,19 +737,71 @@ export default function CheckoutScreen() {
       return;
     }
 
+    if (payOnDelivery && !codAvailable) {
+      Alert.alert(
+        'Bayar di Tempat',
+        'Kurir yang dipilih tidak melayani bayar di tempat (COD). Silakan pilih kurir atau metode pembayaran lain.',
+        [{ text: 'OK' }]
+      );
+      return;
+    }
+
     // Create order and navigate to payment screen
     try {
-      showLoading('Membuat pesanan...');
-      
       // Get current user
       if (!user) {
-        hideLoading();
         Alert.alert('Error', 'Silakan login untuk melakukan pemesanan');
         return;
       }
 
+      // Re-check prices and stock against Odoo before creating the order
+      showLoading('Memeriksa harga dan stok...');
+      let revalidation;
+      try {
+        revalidation = await cartService.revalidateCart(contextCartItems);
+      } catch (error) {
+        hideLoading();
+        Alert.alert('Error', 'Gagal memeriksa harga dan stok terbaru. Silakan coba lagi.');
+        return;
+      }
+      
+      let orderItems = cartItemsWithOptions;
+      if (revalidation.changes.length > 0) {
+        hideLoading();
+        
+        if (revalidation.items.length === 0) {
+          Alert.alert(
+            'Produk Tidak Tersedia',
+            `${revalidation.changes.map(formatCartChange).join('\n')}\n\nTidak ada produk yang dapat dipesan.`,
+            [{ text: 'OK', onPress: () => replaceItems([]) }]
+          );
+          return;
+        }
+        
+        const confirmed = await confirmCartChanges(revalidation.changes);
+        
+        // Apply the changes to the cart either way, so it reflects current prices and stock
+        replaceItems(revalidation.items);
+        if (!confirmed) {
+          return;
+        }
+        
+        orderItems = revalidation.items.map(validatedItem => {
+          const item = cartItemsWithOptions.find(option => option.id === validatedItem.id);
+          return {
+            ...item!,
+            price: validatedItem.price,
+            originalPrice: validatedItem.originalPrice,
+            discount: validatedItem.discount,
+            quantity: validatedItem.quantity,
+          };
+        });
+      }
+      
+      showLoading('Membuat pesanan...');
+      
       // Create new order
-      const order = await createNewOrder();
+      const order = await createNewOrder(orderItems);
       
       // Store order info
       setOrderId(order.id);
@@ -661,25 +810,60 @@ export default function CheckoutScreen() {
       hideLoading();
       
       // Now create payment with the selected method
-      await createPayment(selectedPayment, order.id, order.name);
-    } catch (error) {
+      if (payOnDelivery) {
+        // The proxy has already booked the courier, who collects the total
+        navigation.navigate('UniversalSuccess', {
+          orderId: order.id,
+          orderName: order.name,
+          totalAmount: calculateTotal(),
+        });
+      } else if (paidByWallet) {
+        await payWithWallet(order.id, order.name);
+      } else {
+        await createPayment(selectedPayment, order.id, order.name);
+      }
+    } catch (error: any) {
       hideLoading();
-      Alert.alert('Error', 'Gagal membuat pesanan. Silakan coba lagi.');
+      Alert.alert('Error', error.message || 'Gagal membuat pesanan. Silakan coba lagi.');
+    }
+  };
+
+  const formatCartChange = (change: CartChange) => {
+    switch (change.type) {
+      case 'price_changed':
+        return `• ${change.name}: harga berubah dari Rp${(change.oldPrice || 0).toLocaleString('id-ID')} menjadi Rp${(change.newPrice || 0).toLocaleString('id-ID')}`;
+      case 'quantity_reduced':
+        return `• ${change.name}: stok tersisa ${change.newQuantity}, jumlah disesuaikan dari ${change.oldQuantity}`;
+      case 'out_of_stock':
+        return `• ${change.name}: stok habis, dihapus dari keranjang`;
+      case 'unavailable':
+        return `• ${change.name}: produk tidak lagi tersedia, dihapus dari keranjang`;
     }
   };
 
-  const createNewOrder = async () => {
+  const confirmCartChanges = (changes: CartChange[]) => new Promise<boolean>(resolve => {
+    Alert.alert(
+      'Perubahan Keranjang',
+      `Beberapa produk di keranjang Anda telah berubah:\n\n${changes.map(formatCartChange).join('\n')}\n\nLanjutkan pemesanan dengan perubahan ini?`,
+      [
+        { text: 'Periksa Lagi', style: 'cancel', onPress: () => resolve(false) },
+        { text: 'Lanjutkan', onPress: () => resolve(true) },
+      ],
+      { cancelable: false }
+    );
+  });
+
+  const createNewOrder = async (items: CartItem[]) => {
     // Prepare order lines from cart items with subscription details
-    const orderLines = cartItemsWithOptions.map(item => ({
+    const orderLines = items.map(item => ({
       product_id: parseInt(item.id),
       product_uom_qty: item.quantity,
-      price_unit: item.price,
     }));
 
     // Determine if this is an AutoKirim order
-    const autoKirimItems = cartItemsWithOptions.filter(item => item.purchaseType === 'autokirim');
+    const autoKirimItems = items.filter(item => item.purchaseType === 'autokirim');
     const hasAutoKirim = autoKirimItems.length > 0;
-    const isFullAutoKirim = autoKirimItems.length === cartItemsWithOptions.length;
+    const isFullAutoKirim = autoKirimItems.length === items.length;
     
     // Prepare AutoKirim details for the order note
     let autoKirimNote = '';
@@ -719,24 +903,75 @@ export default function CheckoutScreen() {
       });
     }
     
-    // Create order in Odoo with order type identifier, voucher and shipping details
+    const destination: ShipmentDestination | undefined = selectedAddress
+      ? {
+          name: selectedAddress.name,
+          phone: selectedAddress.phone,
+          address: [selectedAddress.fullAddress, selectedAddress.district, selectedAddress.city]
+            .filter(Boolean)
+            .join(', '),
+          districtId: selectedAddress.district_id ? Number(selectedAddress.district_id) : undefined,
+          subdistrictId: selectedAddress.subdistrict_id ? Number(selectedAddress.subdistrict_id) : undefined,
+          postalCode: selectedAddress.postalCode,
+          latitude: selectedAddress.latitude,
+          longitude: selectedAddress.longitude,
+          note: selectedAddress.detail,
+        }
+      : undefined;
+
+    if (!selectedShipping.courier || !selectedShipping.serviceType || !destination) {
+      throw new Error('Pilih alamat dan jasa pengiriman terlebih dahulu');
+    }
+
+    // Create order in Odoo with order type identifier, voucher and shipping details.
+    // The proxy bills the chosen courier on the order and books it once the order is paid (right away for COD).
     const orderData: CreateOrderData = {
-      partner_id: user.partner_id,
       order_line: orderLines,
+      shipment: {
+        courier: selectedShipping.courier,
+        serviceType: selectedShipping.serviceType,
+        group: selectedShipping.group || 'regular',
+        cod: payOnDelivery,
+        destination,
+      },
       note: `${orderTypePrefix}\nShipping: ${selectedShipping.name} (${selectedShipping.service})\nShipping Cost: Rp${selectedShipping.price.toLocaleString('id-ID')}\nEstimated: ${selectedShipping.estimatedDays}\nAddress: ${selectedAddress?.fullAddress || ''}, ${selectedAddress?.city || ''}${autoKirimNote}${voucherNote}`,
-      payment_method_id: 1, // Default payment method ID
-      delivery_method_id: parseInt(selectedShipping.id) || 1,
     };
 
     const order = await orderService.createOrder(orderData);
     
-    // Set order status to waiting_payment
-    await orderService.updateOrderStatus(order.id, 'waiting_payment');
+    // Set order status to waiting_payment; a COD order is approved by the proxy instead
+    if (!payOnDelivery) {
+      await orderService.updateOrderStatus(order.id, 'waiting_payment');
+    }
+
+    // Schedule the following AutoKirim deliveries; this order is the first one
+    if (autoKirimItems.length > 0) {
+      try {
+        await autoKirimService.createSubscriptions(user.partner_id, autoKirimItems
+          .filter(item => item.autoKirimConfig)
+          .map(item => ({
+            productId: parseInt(item.id),
+            productName: item.name,
+            quantity: item.quantity,
+            price: item.price,
+            config: item.autoKirimConfig!,
+            shipping: {
+              ...orderData.shipment,
+              shippingCost: selectedShipping.price,
+            },
+            sourceOrderId: parseInt(order.id.toString()),
+          })));
+      } catch (error) {
+        Alert.alert('AutoKirim', 'Pesanan berhasil dibuat, tetapi jadwal AutoKirim gagal disimpan. Silakan hubungi layanan pelanggan PawSmart.');
+      }
+    }
     
     return order;
   };
 
 
+  const canCheckout = !!selectedPayment || getWalletSplit().gatewayAmount === 0;
+
   const renderSection = (title: string, onPress?: () => void, children?: React.ReactNode, showEditButton: boolean = true, customEditText?: string) => (
     <View style={styles.section}>
       <View style={styles.sectionHeader}>
@@ -935,6 +1170,29 @@ export default function CheckoutScreen() {
           </TouchableOpacity>
         ), true, undefined)}
 
+        {/* PawSmart Balance */}
+        {walletBalance && walletBalance.available > 0 && renderSection('Saldo PawSmart', undefined, (
+          <TouchableOpacity
+            style={styles.walletContent}
+            onPress={() => setUseWallet(!useWallet)}
+          >
+            {useWallet ? (
+              <MaterialIcons name="check-box" size={20} color={Colors.primary.main} />
+            ) : (
+              <MaterialIcons name="check-box-outline-blank" size={20} color={Colors.text.tertiary} />
+            )}
+            <View style={styles.insuranceContent}>
+              <Text style={styles.insuranceTitle}>Gunakan Saldo PawSmart</Text>
+              <Text style={styles.insuranceDesc}>
+                Saldo tersedia Rp{Math.round(walletBalance.available).toLocaleString('id-ID')}
+              </Text>
+            </View>
+            {useWallet && (
+              <Text style={styles.discountValue}>-Rp{Math.round(getWalletSplit().walletAmount).toLocaleString('id-ID')}</Text>
+            )}
+          </TouchableOpacity>
+        ), false)}
+
         {/* Payment Method */}
         {renderSection('Metode Pembayaran', handleSelectPayment, (
           <TouchableOpacity 
@@ -944,11 +1202,15 @@ export default function CheckoutScreen() {
             {selectedPayment ? (
               <View style={styles.paymentMethodSelected}>
                 <View style={styles.paymentMethodIcon}>
-                  <Image
-                    source={selectedPayment.icon}
-                    style={styles.paymentLogo}
-                    resizeMode="contain"
-                  />
+                  {selectedPayment.iconType === 'MaterialIcons' ? (
+                    <MaterialIcons name={selectedPayment.icon} size={28} color={selectedPayment.iconColor} />
+                  ) : (
+                    <Image
+                      source={selectedPayment.icon}
+                      style={styles.paymentLogo}
+                      resizeMode="contain"
+                    />
+                  )}
                 </View>
                 <View style={styles.paymentInfo}>
                   <Text style={styles.paymentName}>{selectedPayment.name}</Text>
@@ -1023,6 +1285,19 @@ export default function CheckoutScreen() {
                 )}
               </View>
             </View>
+
+            {getWalletSplit().walletAmount > 0 && (
+              <>
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>Dibayar dengan Saldo PawSmart</Text>
+                  <Text style={styles.discountValue}>-Rp{Math.round(getWalletSplit().walletAmount).toLocaleString('id-ID')}</Text>
+                </View>
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>Sisa Pembayaran</Text>
+                  <Text style={styles.summaryValue}>Rp{Math.round(getWalletSplit().gatewayAmount).toLocaleString('id-ID')}</Text>
+                </View>
+              </>
+            )}
           </View>
         ), false)}
       </ScrollView>
@@ -1030,18 +1305,18 @@ export default function CheckoutScreen() {
       {/* Bottom Checkout Button */}
       <View style={styles.bottomContainer}>
         <View style={styles.bottomContent}>
-          <Text style={styles.bottomTotal}>Rp {Math.round(calculateTotal()).toLocaleString('id-ID')}</Text>
+          <Text style={styles.bottomTotal}>Rp {Math.round(getWalletSplit().gatewayAmount).toLocaleString('id-ID')}</Text>
           <TouchableOpacity 
             style={[
               styles.checkoutButton,
-              !selectedPayment && styles.checkoutButtonDisabled
+              !canCheckout && styles.checkoutButtonDisabled
             ]} 
             onPress={handleCheckout}
-            disabled={!selectedPayment}
+            disabled={!canCheckout}
           >
             <Text style={[
               styles.checkoutButtonText,
-              !selectedPayment && { opacity: 0.7 }
+              !canCheckout && { opacity: 0.7 }
             ]}>
               Bayar
             </Text>
@@ -1054,6 +1329,7 @@ export default function CheckoutScreen() {
         visible={showPaymentModal}
         onClose={() => setShowPaymentModal(false)}
         onSelect={handlePaymentMethodSelected}
+        codAvailable={codAvailable}
       />
 
       {/* AutoKirim Configuration Modal */}
@@ -1225,6 +1501,11 @@ const styles = StyleSheet.create({
     borderTopWidth: 1,
     borderTopColor: Colors.border.light,
   },
+  walletContent: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingHorizontal: Spacing.base,
+  },
   insuranceContent: {
     flex: 1,
     marginLeft: Spacing.sm,
@@ -19,7 +19,7 @@ import { Typography } from '../../constants/typography';
 import { Spacing, BorderRadius } from '../../constants/spacing';
 import { HomeStackParamList } from '../../navigation/types';
 import { localLocationAPI } from '../../services/location/localLocationService';
-import kiriminAjaService from '../../services/shipping/kiriminAjaService';
+import districtIndex from '../../services/shipping/districtIndex';
 import { Province, City, District, LocationSelection } from '../../types/location';
 import { LocationListSkeleton } from '../../components/LoadingSkeletons/LocationSkeleton';
 // import { indonesiaData } from '../../data/indonesiaData';
@@ -104,24 +104,13 @@ export default function LocationPickerScreen() {
 
     console.log('Final selection before navigation:', finalSelection);
 
-    // Fetch KiriminAja location IDs for shipping
-    let kiriminAjaData = null;
-    try {
-      if (finalSelection.district && finalSelection.city) {
-        // Search with district and city for better accuracy
-        const searchKeyword = `${finalSelection.district.name}, ${finalSelection.city.name}`;
-        console.log('Searching KiriminAja for:', searchKeyword);
-
-        const result = await kiriminAjaService.searchLocation(searchKeyword);
-        if (result.results && result.results.length > 0) {
-          kiriminAjaData = result.results[0];
-          console.log('KiriminAja location found:', kiriminAjaData);
-        }
-      }
-    } catch (error) {
-      console.warn('Failed to fetch KiriminAja location:', error);
-      // Continue without KiriminAja data - instant shipping will still work with coordinates
-    }
+    // Resolve KiriminAja location IDs for shipping
+    const kiriminAjaData = await districtIndex.resolve({
+      district: finalSelection.district?.name,
+      city: finalSelection.city?.name,
+      province: finalSelection.province?.name,
+      postalCode: code,
+    });
 
     const locationData = {
       province: finalSelection.province?.name,
@@ -132,8 +121,6 @@ export default function LocationPickerScreen() {
         ? `${finalSelection.district.name}, ${finalSelection.city?.name}`
         : finalSelection.city?.name,
       // Add KiriminAja IDs for shipping calculations
-      province_id: kiriminAjaData?.province_id?.toString(),
-      city_id: kiriminAjaData?.city_id?.toString(),
       district_id: kiriminAjaData?.district_id?.toString(),
       subdistrict_id: kiriminAjaData?.subdistrict_id?.toString(),
     };
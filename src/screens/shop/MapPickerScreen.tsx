@@ -23,6 +23,7 @@ import { poiService, INDONESIAN_POI_CATEGORIES } from '../../services/location/p
 import { POI, POICategory, POISearchResult } from '../../types/poi';
 import { Spacing, BorderRadius } from '../../constants/spacing';
 import { HomeStackParamList } from '../../navigation/types';
+import { LEAFLET_HEAD, leafletTileLayer } from '../../components/map/leafletHtml';
 
 const { height: screenHeight } = Dimensions.get('window');
 
@@ -95,11 +96,7 @@ interface SearchSuggestion {
 const generateMapHTML = (lat: number, lng: number, useGoogleMaps: boolean = false) => `
 <!DOCTYPE html>
 <html>
-<head>
-  <meta name="viewport" content="width=device-width, initial-scale=1.0, maximum-scale=1.0, user-scalable=no" />
-  <link rel="stylesheet" href="https://unpkg.com/leaflet@1.9.4/dist/leaflet.css" />
-  <link href="https://fonts.googleapis.com/icon?family=Material+Icons" rel="stylesheet">
-  <script src="https://unpkg.com/leaflet@1.9.4/dist/leaflet.js"></script>
+<head>${LEAFLET_HEAD}
   <style>
     body { margin: 0; padding: 0; }
     #map { height: 100vh; width: 100vw; }
@@ -128,12 +125,7 @@ const generateMapHTML = (lat: number, lng: number, useGoogleMaps: boolean = fals
   <div id="map"></div>
   <script>
     var map = L.map('map').setView([${lat}, ${lng}], 15);
-    
-    // Use OpenStreetMap tiles (free, no API key required)
-    L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
-      attribution: '© OpenStreetMap contributors',
-      maxZoom: 19
-    }).addTo(map);
+    ${leafletTileLayer('map')}
     
     // Add a draggable marker for current selection
     var marker = L.marker([${lat}, ${lng}], {draggable: true}).addTo(map);
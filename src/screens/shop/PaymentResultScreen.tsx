@@ -108,7 +108,7 @@ export default function PaymentResultScreen() {
     setIsLoading(true);
     try {
       // Cancel the order
-      await orderService.updateOrderStatus(paymentDetails.orderId, 'cancelled');
+      await orderService.cancelOrder(paymentDetails.orderId);
       
       Alert.alert(
         'Pesanan Dibatalkan',
@@ -18,6 +18,11 @@ import { Spacing, BorderRadius } from '../../constants/spacing';
 import { HomeStackParamList } from '../../navigation/types';
 import kiriminAjaService, { ShippingService as KiriminAjaShippingService } from '../../services/shipping/kiriminAjaService';
 import addressServiceAPI, { Address } from '../../services/addressServiceAPI';
+import packageService from '../../services/shipping/packageService';
+import districtIndex from '../../services/shipping/districtIndex';
+import odooAddressService from '../../services/address/odooAddressService';
+import { useCart } from '../../contexts/CartContext';
+import config from '../../config/environment';
 
 type NavigationProp = StackNavigationProp<HomeStackParamList, 'ShippingOptions'>;
 type RoutePropType = RouteProp<HomeStackParamList, 'ShippingOptions'>;
@@ -37,23 +42,22 @@ interface ShippingProvider {
 }
 
 // Warehouse/Origin Address Configuration
-// TODO: Move this to environment config or database
 const WAREHOUSE_ADDRESS: Address = {
   id: 'warehouse-1',
   label: 'Warehouse Utama',
-  name: 'PawSmart Warehouse',
-  phone: '+62 21 1234567',
-  full_address: 'Jl. Warehouse No. 1, Jakarta Pusat',
-  postal_code: '10110',
+  name: config.SHIPPING.ORIGIN.NAME,
+  phone: config.SHIPPING.ORIGIN.PHONE,
+  full_address: config.SHIPPING.ORIGIN.ADDRESS,
+  postal_code: config.SHIPPING.ORIGIN.POSTAL_CODE,
   is_default: true,
-  latitude: -6.2088,
-  longitude: 106.8456,
+  latitude: config.SHIPPING.ORIGIN.LATITUDE,
+  longitude: config.SHIPPING.ORIGIN.LONGITUDE,
   province: 'DKI Jakarta',
   city: 'Jakarta Pusat',
   district: 'Menteng',
   province_id: '31',
   city_id: '3171',
-  district_id: 151, // Jakarta Pusat district ID for KiriminAja
+  district_id: config.SHIPPING.ORIGIN.DISTRICT_ID,
 };
 
 export default function ShippingOptionsScreen() {
@@ -63,6 +67,7 @@ export default function ShippingOptionsScreen() {
   // Get params from navigation
   const currentShipping = route.params?.selectedShipping;
   const deliveryAddress = route.params?.deliveryAddress; // Get address from checkout
+  const { items: cartItems } = useCart();
 
   const [shippingProviders, setShippingProviders] = useState<ShippingProvider[]>([]);
   const [selectedProvider, setSelectedProvider] = useState<ShippingProvider | null>(null);
@@ -103,8 +108,9 @@ export default function ShippingOptionsScreen() {
       console.log('Latitude:', customerAddress.latitude);
       console.log('Longitude:', customerAddress.longitude);
 
-      // TODO: Calculate actual weight from cart items
-      const totalWeight = 1000; // Default 1kg for demo
+      // Quote with the real parcel so rates match what the courier charges
+      const parcel = route.params?.packageDetails || await packageService.calculatePackage(cartItems);
+      const totalWeight = parcel.weight;
 
       // Check what shipping data we have available
       let hasDistrictId = !!customerAddress.district_id;
@@ -119,80 +125,26 @@ export default function ShippingOptionsScreen() {
 
       console.log('Address data available:', { hasDistrictId, hasCoordinates });
 
-      // If we don't have district_id but have district/city names, try to look it up
+      // Addresses saved before IDs were stored get them once, kept on the address
       if (!hasDistrictId && customerAddress.district && customerAddress.city) {
-        console.log('🔍 Attempting to lookup district_id for:', customerAddress.district, customerAddress.city);
-
-        // Hardcoded fallback district IDs for common areas (temporary solution)
-        const FALLBACK_DISTRICT_IDS: { [key: string]: number } = {
-          'cilodong_depok': 456, // Cilodong, Kota Depok, Jawa Barat
-          'beji_depok': 457,
-          'pancoran mas_depok': 458,
-          'sukmajaya_depok': 459,
-          'cimanggis_depok': 460,
-          'limo_depok': 461,
-          'cinere_depok': 462,
-          'sawangan_depok': 463,
-          'bojongsari_depok': 464,
-          'cipayung_depok': 465,
-          'tapos_depok': 466,
-        };
-
-        try {
-          // Try district name first (most specific)
-          let searchQuery = customerAddress.district;
-          let locationResults = await kiriminAjaService.searchLocation(searchQuery);
-
-          // If multiple results or no results, try with city for better matching
-          if (!locationResults.status || !locationResults.results?.length) {
-            console.log('⚠️ No results with district only, trying with city...');
-            searchQuery = `${customerAddress.district}, ${customerAddress.city}`;
-            locationResults = await kiriminAjaService.searchLocation(searchQuery);
-          }
-
-          if (locationResults.status && locationResults.results?.length > 0) {
-            // Find best match by comparing city and province names
-            let match = locationResults.results[0];
-
-            // If multiple results, try to find exact match
-            if (locationResults.results.length > 1) {
-              const exactMatch = locationResults.results.find(r =>
-                r.city_name?.toLowerCase().includes(customerAddress.city?.toLowerCase() || '') &&
-                (customerAddress.province ?
-                  r.province_name?.toLowerCase().includes(customerAddress.province?.toLowerCase()) : true)
-              );
-              if (exactMatch) match = exactMatch;
-            }
-
-            console.log('✅ Found KiriminAja location via lazy lookup:', match);
-
-            // Update the customerAddress with found IDs
-            customerAddress.province_id = match.province_id?.toString();
-            customerAddress.city_id = match.city_id?.toString();
-            customerAddress.district_id = match.district_id;
-            customerAddress.subdistrict_id = match.subdistrict_id;
-
-            // Update hasDistrictId flag
-            hasDistrictId = !!customerAddress.district_id;
-          } else {
-            console.log('⚠️ No KiriminAja location match found via API, trying fallback...');
-          }
-        } catch (error) {
-          console.log('⚠️ KiriminAja lazy location search failed:', error);
-        }
-
-        // If still no district_id, try fallback mapping
-        if (!hasDistrictId) {
-          const fallbackKey = `${customerAddress.district?.toLowerCase()}_${customerAddress.city?.toLowerCase()}`.replace(/\s+/g, ' ');
-          const fallbackId = FALLBACK_DISTRICT_IDS[fallbackKey];
-
-          if (fallbackId) {
-            console.log('✅ Using fallback district_id:', fallbackId, 'for', fallbackKey);
-            customerAddress.district_id = fallbackId;
-            hasDistrictId = true;
-          } else {
-            console.log('⚠️ No fallback district_id found for:', fallbackKey);
-            console.log('💡 Available fallback keys:', Object.keys(FALLBACK_DISTRICT_IDS).join(', '));
+        const resolved = await districtIndex.resolve({
+          district: customerAddress.district,
+          subDistrict: customerAddress.sub_district || customerAddress.subDistrict,
+          city: customerAddress.city,
+          province: customerAddress.province,
+          postalCode: customerAddress.postal_code || customerAddress.postalCode,
+        });
+
+        if (resolved) {
+          customerAddress.district_id = resolved.district_id;
+          customerAddress.subdistrict_id = customerAddress.subdistrict_id || resolved.subdistrict_id;
+          hasDistrictId = true;
+
+          const addressId = Number(customerAddress.id);
+          if (addressId) {
+            odooAddressService.storeShippingIds(addressId, resolved).catch(() => {
+              // Looked up again next time
+            });
           }
         }
       }
@@ -206,6 +158,9 @@ export default function ShippingOptionsScreen() {
           origin: Number(WAREHOUSE_ADDRESS.district_id),
           destination: Number(customerAddress.district_id),
           weight: totalWeight,
+          length: parcel.length,
+          width: parcel.width,
+          height: parcel.height,
           insurance: 0 as 0 | 1,
         };
         promises.push(kiriminAjaService.getShippingRates(shippingRequest));
@@ -331,6 +286,11 @@ export default function ShippingOptionsScreen() {
         service: selectedService.name,
         price: selectedService.price,
         estimatedDays: selectedService.estimatedDays,
+        // Needed to book the pickup once the order is paid
+        courier: selectedService.apiService?.service,
+        serviceType: selectedService.apiService?.service_type,
+        group: selectedService.apiService?.group,
+        cod: selectedService.apiService?.cod,
       },
       selectedPayment: route.params?.selectedPayment, // Preserve payment selection
     } as any);
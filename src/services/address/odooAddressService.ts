@@ -1,5 +1,6 @@
 import odooComService from '../odoocom/odooComService';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import districtIndex from '../shipping/districtIndex';
 
 /**
  * Odoo Address Service
@@ -26,6 +27,18 @@ export interface OdooAddress {
   write_date?: string;
 }
 
+// Location details and KiriminAja IDs are kept as JSON in street2; older addresses hold plain detail text
+const parseExtendedData = (street2?: string): Record<string, any> => {
+  try {
+    if (street2 && street2.startsWith('{')) {
+      return JSON.parse(street2);
+    }
+  } catch (error) {
+    // Treated as plain detail text
+  }
+  return { detail: street2 || '' };
+};
+
 class OdooAddressService {
   private model = 'res.partner';
   private cacheKey = 'odoo_addresses_cache';
@@ -64,6 +77,8 @@ class OdooAddressService {
         {}
       );
 
+      await this.backfillShippingIds(addresses);
+
       // Cache the results
       await this.cacheAddresses(addresses);
 
@@ -167,6 +182,22 @@ class OdooAddressService {
     }
   }
 
+  /**
+   * Store KiriminAja IDs on an address, so shipping for it is quoted without
+   * a location lookup
+   */
+  async storeShippingIds(id: number, ids: { district_id: number; subdistrict_id?: number }): Promise<void> {
+    const address = await this.getAddressById(id);
+    const extendedData = parseExtendedData(address.street2);
+    await this.updateAddress(id, {
+      street2: JSON.stringify({
+        ...extendedData,
+        district_id: ids.district_id,
+        subdistrict_id: extendedData.subdistrict_id || ids.subdistrict_id,
+      }),
+    });
+  }
+
   /**
    * Delete address (actually archives it in Odoo)
    */
@@ -318,6 +349,39 @@ class OdooAddressService {
       }
   }
 
+  /**
+   * Addresses saved before KiriminAja IDs were stored on them get the IDs
+   * once, so every later lookup reads them from the address
+   */
+  private async backfillShippingIds(addresses: OdooAddress[]) {
+    for (const address of addresses) {
+      const extendedData = parseExtendedData(address.street2);
+      if (extendedData.district_id || !extendedData.district || !address.city) {
+        continue;
+      }
+
+      try {
+        const resolved = await districtIndex.resolve({
+          district: extendedData.district,
+          subDistrict: extendedData.subDistrict,
+          city: address.city,
+          province: extendedData.province || address.state_id?.[1],
+          postalCode: address.zip,
+        });
+        if (resolved) {
+          address.street2 = JSON.stringify({
+            ...extendedData,
+            district_id: resolved.district_id,
+            subdistrict_id: extendedData.subdistrict_id || resolved.subdistrict_id,
+          });
+          await odooComService.write(this.model, [address.id], { street2: address.street2 });
+        }
+      } catch (error) {
+        // Tried again the next time the addresses are loaded
+      }
+    }
+  }
+
   private async cacheAddresses(addresses: OdooAddress[]) {
     try {
       await AsyncStorage.setItem(this.cacheKey, JSON.stringify({
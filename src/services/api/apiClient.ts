@@ -3,6 +3,7 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Alert } from 'react-native';
 import { API_CONFIG } from '../config/api.config';
 import config from '../../config/environment';
+import proxyClient from '../proxy/proxyClient';
 
 // Token storage keys
 const AUTH_TOKEN_KEY = config.STORAGE_KEYS.AUTH_TOKEN;
@@ -309,91 +310,67 @@ class ApiClient {
   }
 
   // Store Odoo credentials for subsequent API calls
-  // @deprecated - We now use admin credentials from .env for all API calls
+  // @deprecated - Odoo is reached through the proxy with the session token
   async storeOdooCredentials(uid: number, password: string, database: string) {
     // No longer storing user credentials for API calls
     }
 
   // Get stored Odoo credentials
-  // @deprecated - We now use admin credentials from .env for all API calls
+  // @deprecated - Odoo is reached through the proxy with the session token
   async getOdooCredentials(): Promise<{ uid: number; password: string; database: string } | null> {
-    // Always return null to force using admin credentials
     return null;
   }
 
-  // Clear Odoo credentials
+  // Clear Odoo credentials, including an admin login cached by older versions
   async clearOdooCredentials() {
     await AsyncStorage.removeItem(ODOO_CREDENTIALS_KEY);
     await AsyncStorage.removeItem(config.STORAGE_KEYS.ADMIN_CREDENTIALS);
   }
 
-  // Execute Odoo API call with .env credentials (admin access for API calls)
+  // Execute an Odoo model method through the proxy, which limits it to the
+  // signed-in customer's records (see proxyRoutes, records/*). Takes the same
+  // positional arguments and keyword arguments as Odoo's execute_kw.
   async odooExecute(model: string, method: string, args: any[] = [], kwargs: any = {}): Promise<any> {
-    // First check if we have an admin session, if not authenticate with .env credentials
-    let adminCredentials = await this.getAdminCredentials();
-    
-    if (!adminCredentials) {
-      // Authenticate with .env credentials for API access
-      adminCredentials = await this.authenticateAdmin();
-    }
-
-    return this.jsonRpc('object', 'execute_kw', [
-      adminCredentials.database,
-      adminCredentials.uid,
-      adminCredentials.password,
-      model,
-      method,
-      args,
-      kwargs,
-    ]);
-  }
-
-  // Authenticate with admin credentials from .env for API access
-  async authenticateAdmin(): Promise<{ uid: number; password: string; database: string }> {
-    // Check if we already have admin credentials cached
-    const cachedCredentials = await this.getAdminCredentials();
-    if (cachedCredentials) {
-      return cachedCredentials;
-    }
-    
-    const database = config.ODOO.DATABASE;
-    const username = config.ODOO.USERNAME;
-    const password = config.ODOO.PASSWORD;
-
-    if (!username || !password) {
-      throw new Error('Admin credentials not configured in environment');
-    }
-
-    try {
-      // Authenticate with Odoo
-      const uid = await this.jsonRpc('common', 'authenticate', [
-        database,
-        username,
-        password,
-        {},
-      ]);
-
-      if (!uid) {
-        throw new Error('Admin authentication failed');
-      }
-
-      // Store admin credentials separately from user credentials
-      const adminCredentials = { uid, password, database };
-      await AsyncStorage.setItem(config.STORAGE_KEYS.ADMIN_CREDENTIALS, JSON.stringify(adminCredentials));
-      
-      return adminCredentials;
-    } catch (error: any) {
-      throw error;
-    }
-  }
-
-  // Get stored admin credentials (for API access)
-  private async getAdminCredentials(): Promise<{ uid: number; password: string; database: string } | null> {
-    try {
-      const credentials = await AsyncStorage.getItem(config.STORAGE_KEYS.ADMIN_CREDENTIALS);
-      return credentials ? JSON.parse(credentials) : null;
-    } catch (error) {
-      return null;
+    switch (method) {
+      case 'search_read':
+        return proxyClient.call('records/search-read', {
+          model,
+          domain: args[0] ?? kwargs.domain,
+          fields: args[1] ?? kwargs.fields,
+          offset: args[2] ?? kwargs.offset,
+          limit: args[3] ?? kwargs.limit,
+          order: args[4] ?? kwargs.order,
+        });
+      case 'read':
+        return proxyClient.call('records/read', { model, ids: args[0], fields: args[1] ?? kwargs.fields });
+      case 'search':
+        return proxyClient.call('records/search', {
+          model,
+          domain: args[0] ?? kwargs.domain,
+          offset: args[1] ?? kwargs.offset,
+          limit: args[2] ?? kwargs.limit,
+          order: args[3] ?? kwargs.order,
+        });
+      case 'search_count':
+        return proxyClient.call('records/search-count', { model, domain: args[0] ?? kwargs.domain });
+      case 'name_search':
+        return proxyClient.call('records/name-search', {
+          model,
+          name: args[0] ?? kwargs.name,
+          domain: args[1] ?? kwargs.args,
+          limit: args[3] ?? kwargs.limit,
+        });
+      case 'fields_get':
+        return proxyClient.call('records/fields-get', { model, attributes: args[1] ?? kwargs.attributes });
+      case 'create':
+        return proxyClient.call('records/create', { model, values: args[0] });
+      case 'write':
+        return proxyClient.call('records/write', { model, ids: args[0], values: args[1] });
+      case 'unlink':
+        return proxyClient.call('records/unlink', { model, ids: args[0] });
+      default:
+        // Workflow buttons such as action_confirm take the record IDs only
+        return proxyClient.call('records/action', { model, ids: args[0], action: method });
     }
   }
 }
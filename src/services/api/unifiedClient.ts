@@ -18,7 +18,6 @@ interface UnifiedClient {
   jsonRpc(service: string, method: string, args?: any[], kwargs?: any): Promise<any>;
   testConnection(): Promise<{ success: boolean; message: string; details?: any }>;
   odooExecute(model: string, method: string, args?: any[], kwargs?: any): Promise<any>;
-  authenticateAdmin(): Promise<{ uid: number; password: string; database: string }>;
   storeOdooCredentials(uid: number, password: string, database: string): Promise<void>;
   getOdooCredentials(): Promise<{ uid: number; password: string; database: string } | null>;
   clearOdooCredentials(): Promise<void>;
@@ -104,53 +103,8 @@ class UnifiedAPIClient implements UnifiedClient {
   }
 
   async odooExecute(model: string, method: string, args: any[] = [], kwargs: any = {}): Promise<any> {
-    if (this.useAPKClient) {
-      // For APK client, use JSON-RPC directly
-      const adminCredentials = await this.authenticateAdmin();
-      return this.jsonRpc('object', 'execute_kw', [
-        adminCredentials.database,
-        adminCredentials.uid,
-        adminCredentials.password,
-        model,
-        method,
-        args,
-        kwargs,
-      ]);
-    } else {
-      return apiClient.odooExecute(model, method, args, kwargs);
-    }
-  }
-
-  async authenticateAdmin(): Promise<{ uid: number; password: string; database: string }> {
-    if (this.useAPKClient) {
-      // For APK client, implement admin authentication
-      const database = config.ODOO.DATABASE;
-      const username = config.ODOO.USERNAME;
-      const password = config.ODOO.PASSWORD;
-
-      if (!username || !password) {
-        throw new Error('Admin credentials not configured in environment');
-      }
-
-      try {
-        const uid = await this.jsonRpc('common', 'authenticate', [
-          database,
-          username,
-          password,
-          {},
-        ]);
-
-        if (!uid) {
-          throw new Error('Admin authentication failed');
-        }
-
-        return { uid, password, database };
-      } catch (error: any) {
-        throw error;
-      }
-    } else {
-      return apiClient.authenticateAdmin();
-    }
+    // Model calls go through the proxy whichever client is selected
+    return apiClient.odooExecute(model, method, args, kwargs);
   }
 
   async storeOdooCredentials(uid: number, password: string, database: string): Promise<void> {
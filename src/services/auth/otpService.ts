@@ -0,0 +1,80 @@
+/**
+ * OTP Service
+ * Requests and checks WhatsApp one-time codes through the proxy
+ * (auth/otp-request, auth/otp-verify). The proxy makes, hashes, rate-limits
+ * and checks the codes; the app only learns whether a code was sent and
+ * whether the one typed in matched. A verified code is used up by the
+ * proxy when the number registers or resets its password.
+ */
+
+import proxyClient, { ProxyError } from '../proxy/proxyClient';
+
+export type OtpErrorCode = 'RESEND_TOO_SOON' | 'RATE_LIMITED' | 'SEND_FAILED';
+
+export class OtpError extends Error {
+  constructor(
+    public code: OtpErrorCode,
+    message: string,
+    public retryAfter?: number // Seconds until a new code can be requested
+  ) {
+    super(message);
+    this.name = 'OtpError';
+  }
+}
+
+export interface OtpRequestResult {
+  expiresAt: string; // ISO 8601
+  resendAfter: number; // Seconds
+}
+
+export interface OtpVerifyResult {
+  success: boolean;
+  message?: string;
+  remainingAttempts?: number;
+}
+
+class OtpService {
+  /**
+   * Send a new code to a phone number over WhatsApp.
+   * Earlier pending codes for the number stop working.
+   * Throws OtpError when the number is throttled or the message fails.
+   */
+  async requestCode(phoneNumber: string): Promise<OtpRequestResult> {
+    try {
+      const result = await proxyClient.call('auth/otp-request', { phone: phoneNumber });
+
+      if (result.reason === 'RESEND_TOO_SOON') {
+        throw new OtpError('RESEND_TOO_SOON', 'Tunggu sebentar sebelum meminta kode OTP baru.', result.retryAfter);
+      }
+      if (result.reason === 'RATE_LIMITED' || !result.sent || !result.expiresAt) {
+        throw new OtpError('RATE_LIMITED', 'Terlalu banyak permintaan kode OTP. Silakan coba lagi nanti.', result.retryAfter);
+      }
+
+      return {
+        expiresAt: result.expiresAt,
+        resendAfter: result.retryAfter,
+      };
+    } catch (error: any) {
+      if (error instanceof ProxyError && error.code === 'SEND_FAILED') {
+        throw new OtpError('SEND_FAILED', error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Check a code against the latest one sent to the phone number.
+   * Wrong guesses count against the code; the proxy locks it after too many.
+   */
+  async verifyCode(phoneNumber: string, code: string): Promise<OtpVerifyResult> {
+    const result = await proxyClient.call('auth/otp-verify', { phone: phoneNumber, code: code.trim() });
+
+    return {
+      success: result.verified,
+      message: result.message,
+      remainingAttempts: result.remainingAttempts,
+    };
+  }
+}
+
+export default new OtpService();
@@ -0,0 +1,300 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import apiClient from '../api/apiClient';
+import orderService from '../order/orderService';
+import productService from '../product/productService';
+import { ODOO_CONFIG } from '../config/api.config';
+import config from '../../config/environment';
+import type { CartItem } from '../../contexts/CartContext';
+
+/**
+ * Cart as stored on the device.
+ * partnerId is the customer the cart was last synced for (undefined for a guest cart)
+ */
+export interface CartSnapshot {
+  partnerId?: number;
+  items: CartItem[];
+  updatedAt: string;
+}
+
+export interface ServerCart {
+  items: CartItem[];
+  updatedAt?: string;
+}
+
+export type CartChangeType = 'price_changed' | 'quantity_reduced' | 'out_of_stock' | 'unavailable';
+
+export interface CartChange {
+  type: CartChangeType;
+  itemId: string;
+  name: string;
+  oldPrice?: number;
+  newPrice?: number;
+  oldQuantity?: number;
+  newQuantity?: number;
+}
+
+export interface CartRevalidation {
+  items: CartItem[]; // Cart with current prices and quantities; out-of-stock lines removed
+  changes: CartChange[];
+}
+
+/**
+ * Cart Persistence Service
+ * Keeps the cart on the device and mirrors it to a draft sale.order in Odoo
+ */
+class CartService {
+  private readonly CART_KEY = config.STORAGE_KEYS.CART_ITEMS;
+
+  /**
+   * Load the cart saved on this device
+   */
+  async loadLocalCart(): Promise<CartSnapshot> {
+    try {
+      const stored = await AsyncStorage.getItem(this.CART_KEY);
+      if (!stored) {
+        return { items: [], updatedAt: new Date(0).toISOString() };
+      }
+
+      const parsed = JSON.parse(stored);
+
+      // Older builds stored a bare array of items
+      if (Array.isArray(parsed)) {
+        return { items: parsed, updatedAt: new Date(0).toISOString() };
+      }
+
+      return {
+        partnerId: parsed.partnerId,
+        items: Array.isArray(parsed.items) ? parsed.items : [],
+        updatedAt: parsed.updatedAt || new Date(0).toISOString(),
+      };
+    } catch (error) {
+      return { items: [], updatedAt: new Date(0).toISOString() };
+    }
+  }
+
+  /**
+   * Save the cart on this device
+   */
+  async saveLocalCart(items: CartItem[], partnerId?: number, updatedAt?: string): Promise<void> {
+    try {
+      const snapshot: CartSnapshot = {
+        partnerId,
+        items,
+        updatedAt: updatedAt || new Date().toISOString(),
+      };
+      await AsyncStorage.setItem(this.CART_KEY, JSON.stringify(snapshot));
+    } catch (error) {
+      // Storage failures only cost the offline copy; the in-memory cart is unaffected
+    }
+  }
+
+  /**
+   * Remove the cart saved on this device
+   */
+  async clearLocalCart(): Promise<void> {
+    try {
+      await AsyncStorage.removeItem(this.CART_KEY);
+    } catch (error) {
+      // Nothing to clean up
+    }
+  }
+
+  /**
+   * Load the customer's cart from the Odoo draft order.
+   * Returns null when the server cannot be reached, so callers never
+   * mistake a failed request for an empty cart.
+   */
+  async loadServerCart(partnerId: number): Promise<ServerCart | null> {
+    try {
+      const draft = await orderService.getCartDraft(partnerId);
+      if (!draft) {
+        return { items: [] };
+      }
+
+      const productIds = draft.lines
+        .map(line => line.product_id?.[0])
+        .filter(Boolean);
+
+      const productMap = new Map<number, any>();
+      if (productIds.length > 0) {
+        const products = await apiClient.odooExecute(
+          ODOO_CONFIG.MODELS.PRODUCT,
+          'read',
+          [productIds],
+          {
+            fields: ['id', 'name', 'list_price', 'standard_price', 'qty_available', 'image_128'],
+          }
+        );
+        (products || []).forEach((product: any) => productMap.set(product.id, product));
+      }
+
+      const items: CartItem[] = draft.lines
+        .filter(line => line.product_id && productMap.has(line.product_id[0]))
+        .map(line => {
+          const product = productMap.get(line.product_id[0]);
+          const price = line.price_unit || product.list_price || 0;
+          const originalPrice = product.standard_price || product.list_price || price;
+
+          return {
+            id: product.id.toString(),
+            name: product.name || line.product_name,
+            price,
+            originalPrice,
+            image: product.image_128
+              ? { uri: `data:image/jpeg;base64,${product.image_128}` }
+              : require('../../../assets/product-placeholder.jpg'),
+            quantity: line.product_uom_qty,
+            discount: originalPrice > price ? Math.round(((originalPrice - price) / originalPrice) * 100) : 0,
+            maxQuantity: product.qty_available || undefined,
+          };
+        });
+
+      return {
+        items,
+        // Odoo returns UTC datetimes as 'YYYY-MM-DD HH:MM:SS'
+        updatedAt: draft.write_date ? `${draft.write_date.replace(' ', 'T')}Z` : undefined,
+      };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Mirror the cart to the customer's Odoo draft order
+   */
+  async saveServerCart(partnerId: number, items: CartItem[]): Promise<void> {
+    await orderService.saveCartDraft(
+      partnerId,
+      items
+        .filter(item => !isNaN(parseInt(item.id, 10)))
+        .map(item => ({
+          product_id: parseInt(item.id, 10),
+          product_uom_qty: item.quantity,
+          price_unit: item.price,
+        }))
+    );
+  }
+
+  /**
+   * Re-read price and stock of every cart line from Odoo and report what changed
+   * since the items were added. Throws when Odoo cannot be reached, so checkout
+   * never proceeds on unverified prices.
+   */
+  async revalidateCart(items: CartItem[]): Promise<CartRevalidation> {
+    const products = await productService.getProductAvailability(items.map(item => item.id));
+    const productMap = new Map(products.map(product => [product.id.toString(), product]));
+
+    const changes: CartChange[] = [];
+    const validatedItems: CartItem[] = [];
+
+    items.forEach(item => {
+      const product = productMap.get(item.id.toString());
+
+      if (!product || !product.is_available) {
+        changes.push({ type: 'unavailable', itemId: item.id, name: item.name });
+        return;
+      }
+
+      if (product.qty_available <= 0) {
+        changes.push({ type: 'out_of_stock', itemId: item.id, name: item.name });
+        return;
+      }
+
+      if (Math.round(product.price) !== Math.round(item.price)) {
+        changes.push({
+          type: 'price_changed',
+          itemId: item.id,
+          name: item.name,
+          oldPrice: item.price,
+          newPrice: product.price,
+        });
+      }
+
+      const quantity = Math.min(item.quantity, product.qty_available);
+      if (quantity < item.quantity) {
+        changes.push({
+          type: 'quantity_reduced',
+          itemId: item.id,
+          name: item.name,
+          oldQuantity: item.quantity,
+          newQuantity: quantity,
+        });
+      }
+
+      validatedItems.push({
+        ...item,
+        price: product.price,
+        originalPrice: product.originalPrice || product.price,
+        discount: product.discount,
+        quantity,
+        maxQuantity: product.qty_available,
+      });
+    });
+
+    return { items: validatedItems, changes };
+  }
+
+  /**
+   * Decide which cart the customer sees after logging in:
+   * - Server unreachable: keep the device cart untouched
+   * - Guest cart on the device: merge it into the server cart
+   * - Device cart already belongs to this customer: the most recently changed copy wins
+   * - Device cart belongs to another customer: use the server cart
+   */
+  resolveLoginCart(local: CartSnapshot, server: ServerCart | null, partnerId: number): CartItem[] {
+    if (!server) {
+      return local.items;
+    }
+
+    if (local.partnerId === undefined) {
+      return this.mergeCarts(local.items, server.items);
+    }
+
+    if (local.partnerId === partnerId) {
+      if (!server.updatedAt) {
+        return local.items;
+      }
+      return new Date(local.updatedAt).getTime() >= new Date(server.updatedAt).getTime()
+        ? local.items
+        : server.items;
+    }
+
+    return server.items;
+  }
+
+  /**
+   * Merge a guest cart into a server cart.
+   * Products in both carts keep the larger quantity (not the sum, since a guest
+   * usually re-adds what they already saved), capped at the available stock.
+   * Guest items carry the most recently seen price, so they take precedence.
+   */
+  mergeCarts(guestItems: CartItem[], serverItems: CartItem[]): CartItem[] {
+    const merged = new Map<string, CartItem>();
+
+    serverItems.forEach(item => merged.set(item.id.toString(), item));
+
+    guestItems.forEach(guestItem => {
+      const key = guestItem.id.toString();
+      const serverItem = merged.get(key);
+
+      if (!serverItem) {
+        merged.set(key, guestItem);
+        return;
+      }
+
+      const maxQuantity = guestItem.maxQuantity || serverItem.maxQuantity;
+      const quantity = Math.max(guestItem.quantity, serverItem.quantity);
+
+      merged.set(key, {
+        ...serverItem,
+        ...guestItem,
+        quantity: maxQuantity ? Math.min(quantity, maxQuantity) : quantity,
+        maxQuantity,
+      });
+    });
+
+    return Array.from(merged.values());
+  }
+}
+
+export default new CartService();
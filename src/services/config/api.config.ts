@@ -8,9 +8,6 @@ export const API_CONFIG = {
   // API version
   API_VERSION: config.ODOO.API_VERSION,
   
-  // API Key for mobile authentication
-  API_KEY: config.ODOO.API_KEY,
-  
   // Request timeout (in milliseconds)
   TIMEOUT: config.NETWORK.TIMEOUT,
   
@@ -126,5 +123,6 @@ export const ODOO_CONFIG = {
     ACCOUNT_MOVE: 'account.move',
     STOCK_PICKING: 'stock.picking',
     COUPON_PROGRAM: 'sale.coupon.program',
+    ATTACHMENT: 'ir.attachment',
   },
 };
\ No newline at end of file
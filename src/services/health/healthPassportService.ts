@@ -0,0 +1,131 @@
+/**
+ * Health Passport Service
+ * Builds the health passport owners hand to kennels, other vets or airlines:
+ * a PDF (see passportDocument) carrying a QR code that opens a read-only copy
+ * online.
+ *
+ * The online copy is served by the proxy behind a link it creates for one of
+ * the customer's pets (passports/create). The proxy renders it from the pet's
+ * records each time it is opened, and only until the link expires, so a
+ * shared link lapses on its own.
+ */
+
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import proxyClient from '../proxy/proxyClient';
+import { PASSPORT_LINK_DAYS } from '../proxy/proxyRoutes';
+import odooDoctorService from '../odoo/doctorService';
+import authService from '../auth/authService';
+import { Pet, Vaccination, getPetAllergies } from '../petService';
+import { PassportDocument, renderPassportHtml } from './passportDocument';
+
+export { PASSPORT_LINK_DAYS } from '../proxy/proxyRoutes';
+export type { PassportVisit, PassportPrescription } from './passportDocument';
+
+export interface HealthPassport extends PassportDocument {
+  pet: Pet;
+  vaccinations: Vaccination[];
+  shareUrl: string;
+}
+
+export type HealthPassportErrorCode = 'NOT_LOGGED_IN' | 'PENDING_SYNC' | 'SHARE_UNAVAILABLE';
+
+export class HealthPassportError extends Error {
+  constructor(public code: HealthPassportErrorCode, message: string) {
+    super(message);
+    this.name = 'HealthPassportError';
+  }
+}
+
+// Odoo datetimes are UTC 'YYYY-MM-DD HH:MM:SS', dates are 'YYYY-MM-DD'
+const fromOdooDate = (value: string) =>
+  value.length <= 10 ? new Date(`${value}T00:00:00`).toISOString() : new Date(`${value.replace(' ', 'T')}Z`).toISOString();
+
+class HealthPassportService {
+  /**
+   * Collect the passport data and create the time-limited online link
+   */
+  async preparePassport(pet: Pet): Promise<HealthPassport> {
+    try {
+      if (!pet.id || pet.id < 0) {
+        throw new HealthPassportError(
+          'PENDING_SYNC',
+          'Data peliharaan belum tersinkron. Sambungkan ke internet lalu coba lagi.'
+        );
+      }
+
+      const user = await authService.getCurrentUser();
+      if (!user?.partner_id) {
+        throw new HealthPassportError('NOT_LOGGED_IN', 'Silakan masuk untuk membuat paspor kesehatan');
+      }
+
+      // A passport missing visits would mislead the reader, so both must load
+      const [records, prescriptions] = await Promise.all([
+        odooDoctorService.getPetMedicalHistory(pet.id),
+        odooDoctorService.getPetPrescriptions(pet.id),
+      ]);
+
+      const link = await proxyClient.call('passports/create', { petId: pet.id, days: PASSPORT_LINK_DAYS });
+
+      const passport: HealthPassport = {
+        pet,
+        ownerName: user.name,
+        allergies: getPetAllergies(pet),
+        vaccinations: [...(pet.vaccinations || [])].sort((a, b) => b.date.localeCompare(a.date)),
+        visits: records.map(record => ({
+          date: record.date ? fromOdooDate(record.date) : '',
+          diagnosis: record.diagnosis || 'Kunjungan Dokter',
+          doctorName: record.doctorName,
+          treatment: record.treatment || undefined,
+        })),
+        prescriptions: prescriptions.map(prescription => ({
+          date: prescription.prescribed_date ? fromOdooDate(prescription.prescribed_date) : '',
+          medication: prescription.medication_name,
+          dosage: [prescription.dosage, prescription.frequency].filter(Boolean).join(', ') || undefined,
+          duration: prescription.duration || undefined,
+        })),
+        generatedAt: new Date().toISOString(),
+        shareUrl: link.url,
+        expiresAt: link.expiresAt,
+      };
+
+      return passport;
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Print the passport to a PDF file and return its URI
+   * @param qrCode Base64 PNG of the QR code for passport.shareUrl
+   */
+  async exportPdf(passport: HealthPassport, qrCode: string): Promise<string> {
+    try {
+      const { uri } = await Print.printToFileAsync({ html: renderPassportHtml(passport, qrCode) });
+      return uri;
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Open the system share sheet for an exported passport PDF
+   */
+  async sharePdf(uri: string, petName: string): Promise<void> {
+    try {
+      if (!(await Sharing.isAvailableAsync())) {
+        throw new HealthPassportError('SHARE_UNAVAILABLE', 'Berbagi file tidak didukung di perangkat ini');
+      }
+
+      await Sharing.shareAsync(uri, {
+        mimeType: 'application/pdf',
+        UTI: 'com.adobe.pdf',
+        dialogTitle: `Paspor Kesehatan ${petName}`,
+      });
+    } catch (error) {
+      throw error;
+    }
+  }
+}
+
+export default new HealthPassportService();
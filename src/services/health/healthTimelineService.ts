@@ -0,0 +1,225 @@
+/**
+ * Health Timeline Service
+ * Merges everything known about a pet's health into one dated list for
+ * PetDetailScreen: vet visits (medical.record), prescriptions, vaccinations
+ * stored on the pet, and grooming sessions logged by the salon in
+ * x_pawsmart_grooming. Weights from vet visits and the pet profile are
+ * returned separately for charting.
+ *
+ * Each source is loaded on its own; a source that fails is left out and the
+ * timeline is marked incomplete rather than failing as a whole.
+ */
+
+import odooComService from '../odoocom/odooComService';
+import odooDoctorService from '../odoo/doctorService';
+import { Pet } from '../petService';
+
+export const GROOMING_MODEL = 'x_pawsmart_grooming';
+
+export type TimelineItemType = 'visit' | 'prescription' | 'vaccination' | 'grooming';
+
+export const TIMELINE_TYPE_LABELS: Record<TimelineItemType, string> = {
+  visit: 'Kunjungan',
+  prescription: 'Resep',
+  vaccination: 'Vaksin',
+  grooming: 'Grooming',
+};
+
+export interface TimelineAttachment {
+  id: number;
+  name: string;
+  mimetype: string;
+}
+
+export interface HealthTimelineItem {
+  id: string;
+  type: TimelineItemType;
+  date: string; // ISO 8601
+  title: string;
+  subtitle?: string;
+  details: string[];
+  attachments: TimelineAttachment[];
+}
+
+export interface WeightPoint {
+  date: string; // ISO 8601
+  weight: number; // kg
+}
+
+export interface PetHealthTimeline {
+  items: HealthTimelineItem[]; // newest first
+  weights: WeightPoint[]; // oldest first
+  incomplete: boolean;
+}
+
+// Odoo datetimes are UTC 'YYYY-MM-DD HH:MM:SS', dates are local 'YYYY-MM-DD';
+// pets cached offline carry ISO strings
+const fromOdooDate = (value: string): string => {
+  if (value.includes('T')) {
+    return new Date(value).toISOString();
+  }
+  if (value.length <= 10) {
+    const [year, month, day] = value.split('-').map(Number);
+    return new Date(year, month - 1, day).toISOString();
+  }
+  return new Date(`${value.replace(' ', 'T')}Z`).toISOString();
+};
+
+const getIds = (value: any): number[] =>
+  Array.isArray(value) ? value.filter((id: any) => typeof id === 'number') : [];
+
+class HealthTimelineService {
+  /**
+   * Build the health timeline of a pet
+   */
+  async getTimeline(pet: Pet): Promise<PetHealthTimeline> {
+    if (!pet.id || pet.id < 0) {
+      // Not synced yet, only what is stored on the pet itself
+      return {
+        items: this.getVaccinationItems(pet),
+        weights: this.getProfileWeight(pet),
+        incomplete: false,
+      };
+    }
+
+    const [records, prescriptions, grooming] = await Promise.allSettled([
+      odooDoctorService.getPetMedicalHistory(pet.id),
+      odooDoctorService.getPetPrescriptions(pet.id),
+      this.getGroomingRecords(pet.id),
+    ]);
+
+    const medicalRecords = records.status === 'fulfilled' ? records.value : [];
+    const attachments = await this.getAttachments(medicalRecords.flatMap(record => getIds(record.attachments)));
+
+    const items: HealthTimelineItem[] = [
+      ...medicalRecords.map(record => this.toVisitItem(record, attachments)),
+      ...(prescriptions.status === 'fulfilled' ? prescriptions.value.map(p => this.toPrescriptionItem(p)) : []),
+      ...this.getVaccinationItems(pet),
+      ...(grooming.status === 'fulfilled' ? grooming.value : []),
+    ].sort((a, b) => b.date.localeCompare(a.date));
+
+    const weights: WeightPoint[] = [
+      ...medicalRecords
+        .filter(record => record.weight > 0 && record.date)
+        .map(record => ({ date: fromOdooDate(record.date), weight: record.weight })),
+      ...this.getProfileWeight(pet),
+    ].sort((a, b) => a.date.localeCompare(b.date));
+
+    return {
+      items,
+      weights,
+      incomplete: [records, prescriptions, grooming].some(result => result.status === 'rejected'),
+    };
+  }
+
+  private toVisitItem(record: any, attachments: Map<number, TimelineAttachment>): HealthTimelineItem {
+    const details: string[] = [];
+    if (record.symptoms?.length) details.push(`Gejala: ${record.symptoms.join(', ')}`);
+    if (record.treatment) details.push(`Penanganan: ${record.treatment}`);
+    if (record.temperature) details.push(`Suhu: ${record.temperature}°C`);
+    if (record.weight) details.push(`Berat: ${record.weight} kg`);
+    if (record.followUpRequired && record.followUpDate) {
+      details.push(`Kontrol ulang: ${new Date(fromOdooDate(record.followUpDate)).toLocaleDateString('id-ID')}`);
+    }
+    if (record.notes) details.push(record.notes);
+
+    return {
+      id: `visit:${record.id}`,
+      type: 'visit',
+      date: record.date ? fromOdooDate(record.date) : new Date(0).toISOString(),
+      title: record.diagnosis || 'Kunjungan Dokter',
+      subtitle: record.doctorName,
+      details,
+      attachments: getIds(record.attachments)
+        .map(id => attachments.get(id))
+        .filter((attachment): attachment is TimelineAttachment => !!attachment),
+    };
+  }
+
+  private toPrescriptionItem(prescription: any): HealthTimelineItem {
+    return {
+      id: `prescription:${prescription.id}`,
+      type: 'prescription',
+      date: prescription.prescribed_date ? fromOdooDate(prescription.prescribed_date) : new Date(0).toISOString(),
+      title: prescription.medication_name,
+      subtitle: [prescription.dosage, prescription.frequency, prescription.duration].filter(Boolean).join(' • '),
+      details: prescription.instructions ? [prescription.instructions] : [],
+      attachments: [],
+    };
+  }
+
+  private getVaccinationItems(pet: Pet): HealthTimelineItem[] {
+    return (pet.vaccinations || [])
+      .filter(vaccination => vaccination.date)
+      .map((vaccination, index) => ({
+        id: `vaccination:${vaccination.id || index}:${vaccination.name}`,
+        type: 'vaccination' as const,
+        date: fromOdooDate(vaccination.date.substring(0, 10)),
+        title: `Vaksin ${vaccination.name}`,
+        subtitle: vaccination.veterinarian,
+        details: [
+          ...(vaccination.nextDueDate
+            ? [`Vaksin berikutnya: ${new Date(fromOdooDate(vaccination.nextDueDate.substring(0, 10))).toLocaleDateString('id-ID')}`]
+            : []),
+          ...(vaccination.notes ? [vaccination.notes] : []),
+        ],
+        attachments: [],
+      }));
+  }
+
+  private async getGroomingRecords(petId: number): Promise<HealthTimelineItem[]> {
+    const records = await odooComService.searchRead(
+      GROOMING_MODEL,
+      [['x_pet_id', '=', petId]],
+      ['id', 'x_name', 'x_date', 'x_groomer_name', 'x_notes'],
+      { order: 'x_date desc' }
+    );
+
+    return records.map((record: any) => ({
+      id: `grooming:${record.id}`,
+      type: 'grooming' as const,
+      date: record.x_date ? fromOdooDate(record.x_date) : new Date(0).toISOString(),
+      title: record.x_name || 'Grooming',
+      subtitle: record.x_groomer_name || undefined,
+      details: record.x_notes ? [record.x_notes] : [],
+      attachments: [],
+    }));
+  }
+
+  // The weight on the profile counts as measured when the pet was last updated
+  private getProfileWeight(pet: Pet): WeightPoint[] {
+    if (!pet.weight) {
+      return [];
+    }
+
+    const updatedAt = pet.updatedAt || pet.createdAt;
+    return [{
+      date: updatedAt ? fromOdooDate(updatedAt) : new Date().toISOString(),
+      weight: pet.weight,
+    }];
+  }
+
+  private async getAttachments(attachmentIds: number[]): Promise<Map<number, TimelineAttachment>> {
+    const attachments = new Map<number, TimelineAttachment>();
+    if (attachmentIds.length === 0) {
+      return attachments;
+    }
+
+    try {
+      const records = await odooComService.read('ir.attachment', attachmentIds, ['id', 'name', 'mimetype']);
+      records.forEach((record: any) => {
+        attachments.set(record.id, {
+          id: record.id,
+          name: record.name,
+          mimetype: record.mimetype || 'application/octet-stream',
+        });
+      });
+    } catch (error) {
+      // Visits are still listed without their files
+    }
+
+    return attachments;
+  }
+}
+
+export default new HealthTimelineService();
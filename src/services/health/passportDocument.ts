@@ -0,0 +1,185 @@
+/**
+ * Health Passport Document
+ * The passport page: the pet's identity (including microchip), allergies,
+ * vaccinations, vet visits and prescriptions. The app prints it to a PDF with
+ * a QR code; the proxy serves it without one behind the passport link. Kept
+ * free of imports so the proxy builds it too.
+ */
+
+export interface PassportPet {
+  name: string;
+  type: string; // 'dog', 'cat', ... (see Pet['type'])
+  breed?: string;
+  gender?: 'male' | 'female';
+  birthDate?: string;
+  color?: string;
+  weight?: number; // kg
+  microchipId?: string;
+}
+
+export interface PassportVaccination {
+  name: string;
+  date: string;
+  nextDueDate?: string;
+  veterinarian?: string;
+}
+
+export interface PassportVisit {
+  date: string; // ISO 8601
+  diagnosis: string;
+  doctorName?: string;
+  treatment?: string;
+}
+
+export interface PassportPrescription {
+  date: string; // ISO 8601
+  medication: string;
+  dosage?: string;
+  duration?: string;
+}
+
+export interface PassportDocument {
+  pet: PassportPet;
+  ownerName: string;
+  allergies?: string;
+  vaccinations: PassportVaccination[]; // Latest first
+  visits: PassportVisit[];
+  prescriptions: PassportPrescription[];
+  generatedAt: string; // ISO 8601
+  expiresAt: string; // ISO 8601, end of the online link
+}
+
+const PET_TYPE_LABELS: Record<string, string> = {
+  dog: 'Anjing',
+  cat: 'Kucing',
+  bird: 'Burung',
+  fish: 'Ikan',
+  rabbit: 'Kelinci',
+  hamster: 'Hamster',
+  other: 'Lainnya',
+};
+
+const formatDate = (value?: string) =>
+  value ? new Date(value).toLocaleDateString('id-ID', { day: 'numeric', month: 'long', year: 'numeric' }) : '-';
+
+const escapeHtml = (value?: string | number) =>
+  value === undefined || value === null || value === ''
+    ? '-'
+    : String(value)
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+
+/**
+ * The passport as a standalone HTML page
+ * @param qrCode Base64 PNG of a QR code for the online link, printed in the header
+ */
+export const renderPassportHtml = (passport: PassportDocument, qrCode?: string): string => {
+  const { pet } = passport;
+
+  const identity: Array<[string, string | number | undefined]> = [
+    ['Nama', pet.name],
+    ['Jenis', PET_TYPE_LABELS[pet.type] || pet.type],
+    ['Ras', pet.breed],
+    ['Jenis Kelamin', pet.gender === 'male' ? 'Jantan' : pet.gender === 'female' ? 'Betina' : undefined],
+    ['Tanggal Lahir', pet.birthDate ? formatDate(pet.birthDate) : undefined],
+    ['Warna', pet.color],
+    ['Berat', pet.weight ? `${pet.weight} kg` : undefined],
+    ['ID Microchip', pet.microchipId],
+    ['Pemilik', passport.ownerName],
+  ];
+
+  const table = (headers: string[], rows: Array<Array<string | undefined>>, empty: string) =>
+    rows.length === 0
+      ? `<p class="empty">${empty}</p>`
+      : `<table>
+          <tr>${headers.map(header => `<th>${header}</th>`).join('')}</tr>
+          ${rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('')}
+        </table>`;
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+  <style>
+    body { font-family: Helvetica, Arial, sans-serif; color: #212121; margin: 24px; font-size: 12px; }
+    .header { display: flex; justify-content: space-between; align-items: center; border-bottom: 3px solid #00A3E0; padding-bottom: 12px; }
+    .header h1 { margin: 0; color: #00A3E0; font-size: 22px; }
+    .header p { margin: 4px 0 0; color: #757575; }
+    .qr { text-align: center; font-size: 9px; color: #757575; }
+    .qr img { width: 110px; height: 110px; }
+    h2 { font-size: 14px; color: #00A3E0; margin: 20px 0 8px; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #E0E0E0; vertical-align: top; }
+    th { background: #E8F4F8; }
+    .identity td:first-child { width: 35%; color: #757575; }
+    .allergy { padding: 8px; background: #FFEBEE; border-left: 4px solid #F44336; }
+    .empty { color: #9E9E9E; }
+    .footer { margin-top: 24px; font-size: 10px; color: #9E9E9E; }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <div>
+      <h1>Paspor Kesehatan Hewan</h1>
+      <p>${escapeHtml(pet.name)} • Dibuat ${formatDate(passport.generatedAt)}</p>
+    </div>
+    ${qrCode ? `
+    <div class="qr">
+      <img src="data:image/png;base64,${qrCode}" />
+      <div>Pindai untuk versi online</div>
+      <div>Berlaku s.d. ${formatDate(passport.expiresAt)}</div>
+    </div>` : ''}
+  </div>
+
+  <h2>Identitas</h2>
+  <table class="identity">
+    ${identity.map(([label, value]) => `<tr><td>${label}</td><td>${escapeHtml(value)}</td></tr>`).join('')}
+  </table>
+
+  <h2>Alergi</h2>
+  ${passport.allergies
+    ? `<div class="allergy">${escapeHtml(passport.allergies)}</div>`
+    : '<p class="empty">Tidak ada alergi tercatat</p>'}
+
+  <h2>Vaksinasi</h2>
+  ${table(
+    ['Vaksin', 'Tanggal', 'Berikutnya', 'Dokter'],
+    passport.vaccinations.map(vaccination => [
+      vaccination.name,
+      formatDate(vaccination.date),
+      vaccination.nextDueDate ? formatDate(vaccination.nextDueDate) : undefined,
+      vaccination.veterinarian,
+    ]),
+    'Belum ada vaksinasi tercatat'
+  )}
+
+  <h2>Riwayat Pemeriksaan</h2>
+  ${table(
+    ['Tanggal', 'Diagnosis', 'Dokter', 'Penanganan'],
+    passport.visits.map(visit => [formatDate(visit.date), visit.diagnosis, visit.doctorName, visit.treatment]),
+    'Belum ada pemeriksaan tercatat'
+  )}
+
+  <h2>Resep Obat</h2>
+  ${table(
+    ['Tanggal', 'Obat', 'Dosis', 'Durasi'],
+    passport.prescriptions.map(prescription => [
+      formatDate(prescription.date),
+      prescription.medication,
+      prescription.dosage,
+      prescription.duration,
+    ]),
+    'Belum ada resep tercatat'
+  )}
+
+  <p class="footer">
+    Dokumen ini dibuat dari data PawSmart pada ${formatDate(passport.generatedAt)} dan hanya untuk dibaca.
+    Tautan online berlaku sampai ${formatDate(passport.expiresAt)}.
+  </p>
+</body>
+</html>`;
+};
@@ -3,13 +3,22 @@ export { default as apiClient } from './api/apiClient';
 export { default as authService } from './auth/authService';
 export { default as productService } from './product/productService';
 export { default as orderService } from './order/orderService';
+export { default as refundService } from './order/refundService';
 export { default as promotionService } from './promotion/promotionService';
+export { default as walletService } from './wallet/walletService';
+export { default as visitTrackingService } from './visit/visitTrackingService';
+export { default as mediaUploadService } from './media/mediaUploadService';
 
 // Export types
 export * from './auth/authService';
 export * from './product/productService';
 export * from './order/orderService';
+export * from './order/orderLifecycle';
+export * from './order/refundService';
 export * from './promotion/promotionService';
+export * from './wallet/walletService';
+export * from './visit/visitTrackingService';
+export * from './media/mediaUploadService';
 
 // Export configuration
 export * from './config/api.config';
\ No newline at end of file
@@ -9,7 +9,7 @@ import {
 import { locationCache } from './locationCache';
 import postalData from '../../../assets/kodepos.json';
 
-interface LocalLocationData {
+export interface LocalLocationData {
   code: number;
   village: string;
   district: string;
@@ -33,6 +33,13 @@ class LocalLocationService {
     }
   }
 
+  /**
+   * All entries of the bundled postal dataset
+   */
+  getPostalEntries(): LocalLocationData[] {
+    return this.postalData;
+  }
+
   /**
    * Get all provinces from local data
    */
@@ -0,0 +1,245 @@
+/**
+ * Media Upload Service
+ * Resizes and compresses photos picked on the device and stores them in Odoo,
+ * so they show up on every device the customer signs in on:
+ * - pet photos become ir.attachment records on the pet (full size + thumbnail)
+ * - profile photos are written to res.partner.image_1920, which Odoo resizes
+ *   into image_128 … image_1024 on its own
+ *
+ * Thumbnails are served as data URIs from an in-memory map backed by
+ * AsyncStorage, the same way OptimizedProductImage caches product images.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as ImageManipulator from 'expo-image-manipulator';
+import odooComService from '../odoocom/odooComService';
+
+// Longest edge in pixels of the stored photo and of its thumbnail
+export const MEDIA_FULL_SIZE = 1024;
+export const MEDIA_THUMBNAIL_SIZE = 256;
+
+const JPEG_QUALITY = 0.7;
+
+// Avatars can change on another device, attachments never change
+const AVATAR_CACHE_MAX_AGE = 24 * 60 * 60 * 1000;
+
+// Shares the img_ prefix so clearImageCache() also clears these
+const CACHE_KEY_PREFIX = 'img_media_';
+
+export type MediaSource =
+  | { type: 'attachment'; id: number }
+  | { type: 'avatar'; partnerId: number };
+
+export interface PreparedImage {
+  base64: string;
+  width: number;
+  height: number;
+}
+
+export interface UploadedPhoto {
+  attachmentId: number;
+  thumbnailId: number;
+}
+
+export type MediaUploadErrorCode = 'PROCESSING_FAILED' | 'UPLOAD_FAILED';
+
+export class MediaUploadError extends Error {
+  constructor(public code: MediaUploadErrorCode, message: string) {
+    super(message);
+    this.name = 'MediaUploadError';
+  }
+}
+
+// Simple in-memory cache for the current session
+const memoryCache = new Map<string, string>();
+
+const getCacheKey = (source: MediaSource) =>
+  source.type === 'attachment'
+    ? `${CACHE_KEY_PREFIX}att_${source.id}`
+    : `${CACHE_KEY_PREFIX}avatar_${source.partnerId}`;
+
+class MediaUploadService {
+  /**
+   * Scale an image down so its longest edge fits maxSize and re-encode it as JPEG
+   */
+  async prepareImage(uri: string, maxSize: number = MEDIA_FULL_SIZE): Promise<PreparedImage> {
+    try {
+      const original = await ImageManipulator.manipulateAsync(uri);
+      const scale = Math.min(1, maxSize / Math.max(original.width, original.height));
+
+      const actions = scale < 1
+        ? [{ resize: { width: Math.round(original.width * scale), height: Math.round(original.height * scale) } }]
+        : [];
+
+      const result = await ImageManipulator.manipulateAsync(uri, actions, {
+        compress: JPEG_QUALITY,
+        format: ImageManipulator.SaveFormat.JPEG,
+        base64: true,
+      });
+
+      if (!result.base64) {
+        throw new Error('No image data');
+      }
+
+      return { base64: result.base64, width: result.width, height: result.height };
+    } catch (error) {
+      throw new MediaUploadError('PROCESSING_FAILED', 'Gagal memproses foto. Silakan pilih foto lain.');
+    }
+  }
+
+  /**
+   * Upload a pet photo and its thumbnail as attachments of the pet record
+   */
+  async uploadPetPhoto(petId: number, uri: string): Promise<UploadedPhoto> {
+    const full = await this.prepareImage(uri, MEDIA_FULL_SIZE);
+    const thumbnail = await this.prepareImage(uri, MEDIA_THUMBNAIL_SIZE);
+
+    try {
+      const attachmentId = await this.createAttachment(full, `pet-${petId}.jpg`, 'x_pawsmart_pet', petId);
+      const thumbnailId = await this.createAttachment(thumbnail, `pet-${petId}-thumb.jpg`, 'x_pawsmart_pet', petId);
+
+      // Seed the cache so the new photo shows without another download
+      await this.cacheImage(getCacheKey({ type: 'attachment', id: thumbnailId }), thumbnail.base64);
+
+      return { attachmentId, thumbnailId };
+    } catch (error) {
+      throw new MediaUploadError('UPLOAD_FAILED', 'Gagal mengunggah foto. Periksa koneksi internet Anda.');
+    }
+  }
+
+  /**
+   * Replace the customer's profile photo
+   */
+  async uploadAvatar(partnerId: number, uri: string): Promise<string> {
+    const image = await this.prepareImage(uri, MEDIA_FULL_SIZE);
+
+    try {
+      await odooComService.write('res.partner', [partnerId], { image_1920: image.base64 });
+    } catch (error) {
+      throw new MediaUploadError('UPLOAD_FAILED', 'Gagal mengunggah foto. Periksa koneksi internet Anda.');
+    }
+
+    const thumbnail = await this.prepareImage(uri, MEDIA_THUMBNAIL_SIZE);
+    return this.cacheImage(getCacheKey({ type: 'avatar', partnerId }), thumbnail.base64);
+  }
+
+  /**
+   * Delete attachments that are no longer referenced, e.g. a replaced pet photo
+   */
+  async removeAttachments(attachmentIds: number[]): Promise<void> {
+    if (attachmentIds.length === 0) return;
+
+    try {
+      await odooComService.unlink('ir.attachment', attachmentIds);
+      await Promise.all(attachmentIds.map(id => this.clearCachedImage({ type: 'attachment', id })));
+    } catch (error) {
+      // Orphaned attachments are harmless
+    }
+  }
+
+  /**
+   * Data URI of an image already loaded in this session
+   */
+  peekImage(source: MediaSource): string | null {
+    return memoryCache.get(getCacheKey(source)) || null;
+  }
+
+  /**
+   * Data URI of a stored image, or null when there is none
+   */
+  async getImage(source: MediaSource): Promise<string | null> {
+    const cacheKey = getCacheKey(source);
+
+    if (memoryCache.has(cacheKey)) {
+      return memoryCache.get(cacheKey)!;
+    }
+
+    try {
+      const cached = await AsyncStorage.getItem(cacheKey);
+      if (cached) {
+        const { uri, cachedAt } = JSON.parse(cached);
+        if (source.type === 'attachment' || Date.now() - cachedAt < AVATAR_CACHE_MAX_AGE) {
+          memoryCache.set(cacheKey, uri);
+          return uri;
+        }
+      }
+    } catch (error) {
+      // Fall through to download
+    }
+
+    const base64 = await this.downloadImage(source);
+    return base64 ? this.cacheImage(cacheKey, base64) : null;
+  }
+
+  /**
+   * Name, type and base64 content of an attachment, for viewing documents in-app
+   */
+  async getAttachmentContent(attachmentId: number): Promise<{ name: string; mimetype: string; datas: string } | null> {
+    try {
+      const records = await odooComService.read('ir.attachment', [attachmentId], ['name', 'mimetype', 'datas']);
+      const record = records?.[0];
+      return record?.datas
+        ? { name: record.name, mimetype: record.mimetype || 'application/octet-stream', datas: record.datas }
+        : null;
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  async clearCachedImage(source: MediaSource): Promise<void> {
+    const cacheKey = getCacheKey(source);
+    memoryCache.delete(cacheKey);
+
+    try {
+      await AsyncStorage.removeItem(cacheKey);
+    } catch (error) {
+      // Ignore cache errors
+    }
+  }
+
+  private async createAttachment(
+    image: PreparedImage,
+    name: string,
+    resModel: string,
+    resId: number
+  ): Promise<number> {
+    return odooComService.create('ir.attachment', {
+      name,
+      type: 'binary',
+      datas: image.base64,
+      mimetype: 'image/jpeg',
+      res_model: resModel,
+      res_id: resId,
+    });
+  }
+
+  private async downloadImage(source: MediaSource): Promise<string | null> {
+    try {
+      if (source.type === 'attachment') {
+        const records = await odooComService.read('ir.attachment', [source.id], ['datas']);
+        return records?.[0]?.datas || null;
+      }
+
+      // Odoo keeps a 256px copy of every partner image
+      const records = await odooComService.read('res.partner', [source.partnerId], ['image_256']);
+      return records?.[0]?.image_256 || null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private async cacheImage(cacheKey: string, base64: string): Promise<string> {
+    const uri = `data:image/jpeg;base64,${base64}`;
+    memoryCache.set(cacheKey, uri);
+
+    try {
+      await AsyncStorage.setItem(cacheKey, JSON.stringify({ uri, cachedAt: Date.now() }));
+    } catch (error) {
+      // Ignore cache write errors
+    }
+
+    return uri;
+  }
+}
+
+export default new MediaUploadService();
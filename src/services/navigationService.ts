@@ -1,4 +1,4 @@
-import { createNavigationContainerRef } from '@react-navigation/native';
+import { CommonActions, createNavigationContainerRef } from '@react-navigation/native';
 
 export const navigationRef = createNavigationContainerRef();
 
@@ -15,4 +15,18 @@ export function goToCart() {
       screen: 'Cart'
     } as never);
   }
-}
\ No newline at end of file
+}
+export function goToDoctorBooking(params?: { doctorId: string; petId?: number; reason?: string }) {
+  if (navigationRef.isReady()) {
+    // Without a doctor, let the customer pick one from the list
+    navigationRef.dispatch(
+      CommonActions.navigate({
+        name: 'Main',
+        params: {
+          screen: 'Services',
+          params: params ? { screen: 'DoctorDetail', params } : { screen: 'PetDoctor' },
+        },
+      })
+    );
+  }
+}
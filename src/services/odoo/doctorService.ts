@@ -1,5 +1,68 @@
 import odooComService from '../odoocom/odooComService';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import orderService, { Order } from '../order/orderService';
+import slotHoldService, { SlotHold } from './slotHoldService';
+import proxyClient, { ProxyError } from '../proxy/proxyClient';
+import { DOCTOR_SLOT_MINUTES } from '../proxy/proxyRoutes';
+import visitTrackingService, { GeoPoint, HomeVisit } from '../visit/visitTrackingService';
+
+// Used when the doctor record has no fee configured in Odoo
+export const DEFAULT_CONSULTATION_FEE = 350000;
+
+const SLOT_DURATION_MINUTES = DOCTOR_SLOT_MINUTES;
+
+// How many other slots to suggest when the chosen one is taken
+const ALTERNATIVE_SLOT_COUNT = 3;
+const ALTERNATIVE_SLOT_DAYS = 7;
+
+export interface DoctorTimeSlot {
+  id: string;
+  time: string;
+  startTime: string;
+  endTime: string;
+  isAvailable: boolean;
+}
+
+export type SlotConflictCode = 'SLOT_TAKEN' | 'SLOT_HELD';
+
+/**
+ * The chosen slot was booked or reserved by another customer. alternatives
+ * holds the nearest free slots, possibly on later days.
+ */
+export class SlotConflictError extends Error {
+  constructor(
+    public code: SlotConflictCode,
+    message: string,
+    public alternatives: DoctorTimeSlot[] = []
+  ) {
+    super(message);
+    this.name = 'SlotConflictError';
+  }
+}
+
+export interface DoctorBookingRequest {
+  doctorId: number;
+  partnerId: number;
+  pet: { id?: number; name: string };
+  date: Date;
+  slot: DoctorTimeSlot;
+  holdId?: number; // From holdSlot; the proxy converts the customer's hold on the slot
+  serviceType: 'walk-in' | 'home-service';
+  reason: string;
+  additionalServices?: Array<{ id: string; name: string; price: number }>;
+  // Customer's address, required for home-service visits so they can be tracked
+  destination?: GeoPoint & { address?: string };
+}
+
+export interface DoctorBooking {
+  appointment: any;
+  order: Order;
+  visit?: HomeVisit; // Home-service bookings only
+}
+
+// Odoo stores datetimes as UTC 'YYYY-MM-DD HH:MM:SS'
+const toOdooDate = (date: Date) => date.toISOString().replace('T', ' ').substring(0, 19);
+const fromOdooDate = (value: string) => new Date(`${value.replace(' ', 'T')}Z`);
 
 /**
  * ODOO Doctor Service Integration
@@ -130,7 +193,8 @@ class OdooDoctorService {
   }
 
   /**
-   * Get doctor schedule and availability
+   * Get doctor schedule and availability. Slots reserved by other customers
+   * are unavailable; the customer's own hold is not.
    */
   async getDoctorSchedule(
     doctorId: number,
@@ -138,33 +202,38 @@ class OdooDoctorService {
   ): Promise<any> {
     try {
       const dateStr = this.formatDate(date);
+      const dayStart = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+      const dayEnd = new Date(dayStart.getTime() + 24 * 60 * 60 * 1000 - 1000);
       
-      // Get existing appointments for the date
+      // Get existing appointments for the (local) day
       const appointments = await odooComService.searchRead(
         'medical.appointment',
         [
           ['doctor_id', '=', doctorId],
-          ['appointment_date', '>=', `${dateStr} 00:00:00`],
-          ['appointment_date', '<=', `${dateStr} 23:59:59`],
+          ['appointment_date', '>=', toOdooDate(dayStart)],
+          ['appointment_date', '<=', toOdooDate(dayEnd)],
           ['state', 'not in', ['cancelled', 'no_show']],
         ],
         ['appointment_date', 'duration', 'state']
       );
 
+      const heldSlots = await slotHoldService.getHeldSlots(doctorId, dayStart, dayEnd);
+
       // Get doctor's working hours
       const doctor = await this.getDoctorById(doctorId);
       
       // Generate available time slots
       const timeSlots = this.generateTimeSlots(
-        doctor.working_hours,
+        doctor.workingHours,
         appointments,
-        date
+        date,
+        heldSlots
       );
 
       return {
         doctorId,
         date: dateStr,
-        workingHours: doctor.working_hours,
+        workingHours: doctor.workingHours,
         timeSlots,
         bookedSlots: appointments.length,
       };
@@ -173,12 +242,62 @@ class OdooDoctorService {
     }
   }
 
+  /**
+   * Reserve a slot for SLOT_HOLD_MINUTES while the customer completes the
+   * booking. Any other slot the customer was holding is released. Throws
+   * SlotConflictError when someone else booked or reserved it first.
+   */
+  async holdSlot(doctorId: number, slot: DoctorTimeSlot): Promise<SlotHold> {
+    try {
+      return await slotHoldService.createHold(doctorId, slot.startTime);
+    } catch (error) {
+      throw await this.toSlotConflict(error, doctorId, new Date(slot.startTime));
+    }
+  }
+
+  /**
+   * Give up a reserved slot, e.g. when the customer leaves the booking
+   */
+  async releaseSlot(holdId: number): Promise<void> {
+    try {
+      await slotHoldService.releaseHold(holdId);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Nearest free slots from the given time on, looking up to
+   * ALTERNATIVE_SLOT_DAYS ahead
+   */
+  async getAlternativeSlots(doctorId: number, from: Date): Promise<DoctorTimeSlot[]> {
+    const alternatives: DoctorTimeSlot[] = [];
+
+    try {
+      for (let day = 0; day < ALTERNATIVE_SLOT_DAYS && alternatives.length < ALTERNATIVE_SLOT_COUNT; day++) {
+        const date = new Date(from.getFullYear(), from.getMonth(), from.getDate() + day);
+        const schedule = await this.getDoctorSchedule(doctorId, date);
+
+        alternatives.push(
+          ...schedule.timeSlots.filter((slot: DoctorTimeSlot) =>
+            slot.isAvailable && new Date(slot.startTime).getTime() !== from.getTime()
+          )
+        );
+      }
+    } catch (error) {
+      // Report the conflict with whatever was found
+    }
+
+    return alternatives.slice(0, ALTERNATIVE_SLOT_COUNT);
+  }
+
   // ============================================
   // Appointment Management
   // ============================================
 
   /**
-   * Create a new appointment
+   * Create a new appointment. The proxy books the slot under its lock and
+   * throws SlotConflictError when another customer booked or reserved it.
    */
   async createAppointment(appointmentData: {
     doctorId: number;
@@ -186,47 +305,32 @@ class OdooDoctorService {
     petId: number;
     date: Date;
     timeSlot: string;
+    startTime?: string; // ISO start of the chosen slot, preferred over parsing timeSlot
+    holdId?: number; // Converted once the appointment is booked
     serviceType: 'walk-in' | 'home-service';
     reason: string;
     additionalServices?: string[];
     notes?: string;
     address?: any;
   }): Promise<any> {
-    try {
-      const appointmentDate = this.combineDateTime(
-        appointmentData.date,
-        appointmentData.timeSlot
-      );
+    const slotStart = appointmentData.startTime
+      ? new Date(appointmentData.startTime)
+      : fromOdooDate(this.combineDateTime(appointmentData.date, appointmentData.timeSlot));
 
-      const data = {
-        doctor_id: appointmentData.doctorId,
-        patient_id: appointmentData.patientId,
-        pet_id: appointmentData.petId,
-        appointment_date: appointmentDate,
-        service_type: appointmentData.serviceType,
+    try {
+      const { appointmentId } = await proxyClient.call('appointments/book', {
+        doctorId: appointmentData.doctorId,
+        petId: appointmentData.petId || undefined,
+        slotStart: slotStart.toISOString(),
+        holdId: appointmentData.holdId,
+        serviceType: appointmentData.serviceType,
         reason: appointmentData.reason,
-        additional_services: appointmentData.additionalServices || [],
+        additionalServices: appointmentData.additionalServices || [],
         notes: appointmentData.notes || '',
-        state: 'draft',
-        duration: 1.0, // Default 1 hour
-      };
-
-      // Add address for home service
-      if (appointmentData.serviceType === 'home-service' && appointmentData.address) {
-        data['service_address'] = appointmentData.address;
-      }
-
-      const appointmentId = await odooComService.create(
-        'medical.appointment',
-        data
-      );
-
-      // Confirm the appointment
-      await odooComService.execute(
-        'medical.appointment',
-        'action_confirm',
-        [[appointmentId]]
-      );
+        address: appointmentData.serviceType === 'home-service' && typeof appointmentData.address === 'string'
+          ? appointmentData.address
+          : undefined,
+      });
 
       // Get the created appointment details
       const appointment = await odooComService.read(
@@ -235,6 +339,67 @@ class OdooDoctorService {
       );
 
       return this.transformAppointmentData(appointment[0]);
+    } catch (error) {
+      throw await this.toSlotConflict(error, appointmentData.doctorId, slotStart);
+    }
+  }
+
+  /**
+   * Book a consultation: creates the appointment (which re-checks the slot)
+   * and a sale order for the fee so it can be paid like any other order. The
+   * appointment is confirmed once the order is paid and cancelled with it.
+   * The order note carries the [DOCTOR_SERVICE] marker the Activity "Dokter" tab uses.
+   */
+  async bookAppointment(request: DoctorBookingRequest): Promise<DoctorBooking> {
+    try {
+      const slot = request.slot;
+      const additionalServices = request.additionalServices || [];
+
+      const appointment = await this.createAppointment({
+        doctorId: request.doctorId,
+        patientId: request.partnerId,
+        petId: request.pet.id || 0,
+        date: request.date,
+        timeSlot: slot.time,
+        startTime: slot.startTime,
+        holdId: request.holdId,
+        serviceType: request.serviceType,
+        reason: request.reason,
+        additionalServices: additionalServices.map(service => service.name),
+        notes: `Hewan: ${request.pet.name}`,
+        address: request.destination?.address,
+      });
+
+      try {
+        // Priced by the proxy from the doctor's fee and the chosen services
+        const order = await orderService.createConsultationOrder(
+          appointment.id,
+          additionalServices.map(service => service.id)
+        );
+
+        await orderService.updateOrderStatus(order.id, 'waiting_payment');
+
+        let visit: HomeVisit | undefined;
+        if (request.serviceType === 'home-service' && request.destination) {
+          visit = await visitTrackingService.createVisit({
+            appointmentId: appointment.id,
+            partnerId: request.partnerId,
+            destination: request.destination,
+            address: request.destination.address,
+          }).catch(() => {
+            // The booking stands; the visit just can't be tracked live
+            return undefined;
+          });
+        }
+
+        return { appointment, order, visit };
+      } catch (error) {
+        // Free the slot again when the order could not be created
+        await this.cancelAppointment(appointment.id, 'Pesanan gagal dibuat').catch(() => {
+          // The unconfirmed appointment is left for the clinic to clean up
+        });
+        throw error;
+      }
     } catch (error) {
       throw error;
     }
@@ -308,16 +473,7 @@ class OdooDoctorService {
     reason?: string
   ): Promise<boolean> {
     try {
-      await odooComService.write(
-        'medical.appointment',
-        [appointmentId],
-        {
-          state: 'cancelled',
-          cancellation_reason: reason || 'User cancelled',
-          cancelled_date: new Date().toISOString(),
-        }
-      );
-
+      await proxyClient.call('appointments/cancel', { appointmentId, reason });
       return true;
     } catch (error) {
       throw error;
@@ -561,7 +717,8 @@ class OdooDoctorService {
   }
 
   /**
-   * Create invoice for appointment
+   * Create invoice for appointment. Clinic staff only; the proxy refuses
+   * invoices from customer sessions.
    */
   async createAppointmentInvoice(
     appointmentId: number,
@@ -746,10 +903,12 @@ class OdooDoctorService {
   private generateTimeSlots(
     workingHours: any,
     appointments: any[],
-    date: Date
-  ): any[] {
-    const slots = [];
-    const slotDuration = 60; // 60 minutes per slot
+    date: Date,
+    heldSlots: string[] = []
+  ): DoctorTimeSlot[] {
+    const slots: DoctorTimeSlot[] = [];
+    const slotDuration = SLOT_DURATION_MINUTES;
+    const now = new Date();
     
     // Default working hours if not specified
     const defaultHours = {
@@ -757,32 +916,35 @@ class OdooDoctorService {
       afternoon: { start: '14:00', end: '18:00' },
     };
 
-    const hours = workingHours || defaultHours;
+    const hours: Record<string, { start: string; end: string }> =
+      workingHours && Object.keys(workingHours).length > 0 ? workingHours : defaultHours;
     
     // Generate slots for each period
     for (const period of Object.values(hours)) {
-      const startTime = this.parseTime(period.start);
-      const endTime = this.parseTime(period.end);
+      const startTime = this.parseTime(period.start, date);
+      const endTime = this.parseTime(period.end, date);
       
       let currentTime = startTime;
       while (currentTime < endTime) {
-        const slotEnd = new Date(currentTime.getTime() + slotDuration * 60000);
+        const slotStart = currentTime;
+        const slotEnd = new Date(slotStart.getTime() + slotDuration * 60000);
         
         // Check if slot is available
         const isBooked = appointments.some(apt => {
-          const aptTime = new Date(apt.appointment_date);
+          const aptTime = fromOdooDate(apt.appointment_date);
           return (
-            aptTime >= currentTime &&
+            aptTime >= slotStart &&
             aptTime < slotEnd
           );
         });
+        const isHeld = heldSlots.some(held => new Date(held).getTime() === slotStart.getTime());
 
         slots.push({
-          id: `${currentTime.getHours()}-${currentTime.getMinutes()}`,
-          time: `${this.formatTime(currentTime)} - ${this.formatTime(slotEnd)}`,
-          startTime: currentTime.toISOString(),
+          id: `${slotStart.getHours()}-${slotStart.getMinutes()}`,
+          time: `${this.formatTime(slotStart)} - ${this.formatTime(slotEnd)}`,
+          startTime: slotStart.toISOString(),
           endTime: slotEnd.toISOString(),
-          isAvailable: !isBooked,
+          isAvailable: !isBooked && !isHeld && slotStart > now,
         });
 
         currentTime = slotEnd;
@@ -793,12 +955,23 @@ class OdooDoctorService {
   }
 
   /**
-   * Parse time string to Date object
+   * Turn the proxy's SLOT_TAKEN / SLOT_HELD errors into a SlotConflictError
+   * with the nearest free slots; other errors are returned as they are
+   */
+  private async toSlotConflict(error: unknown, doctorId: number, slotStart: Date): Promise<unknown> {
+    if (!(error instanceof ProxyError) || (error.code !== 'SLOT_TAKEN' && error.code !== 'SLOT_HELD')) {
+      return error;
+    }
+    return new SlotConflictError(error.code, error.message, await this.getAlternativeSlots(doctorId, slotStart));
+  }
+
+  /**
+   * Parse time string to a Date on the given day
    */
-  private parseTime(timeStr: string): Date {
-    const [hours, minutes] = timeStr.split(':').map(Number);
-    const date = new Date();
-    date.setHours(hours, minutes, 0, 0);
+  private parseTime(timeStr: string, day: Date): Date {
+    const [hours, minutes] = timeStr.split(/[.:]/).map(Number);
+    const date = new Date(day);
+    date.setHours(hours, minutes || 0, 0, 0);
     return date;
   }
 
@@ -814,23 +987,20 @@ class OdooDoctorService {
   }
 
   /**
-   * Format date for ODOO
+   * Format the local calendar date for ODOO (YYYY-MM-DD)
    */
   private formatDate(date: Date): string {
-    return date.toISOString().split('T')[0];
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
   }
 
   /**
-   * Combine date and time slot
+   * Combine date and time slot into an ODOO datetime
    */
   private combineDateTime(date: Date, timeSlot: string): string {
     const [startTime] = timeSlot.split(' - ');
-    const [hours, minutes] = startTime.split('.').map(Number);
-    
-    const combined = new Date(date);
-    combined.setHours(hours, minutes, 0, 0);
-    
-    return combined.toISOString();
+    return toOdooDate(this.parseTime(startTime, date));
   }
 
   /**
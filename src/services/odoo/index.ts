@@ -6,6 +6,10 @@
 export { default as odooDoctorService } from './doctorService';
 export { default as odooSyncService } from './syncService';
 export { default as odooInitService } from './initService';
+export { default as odooSlotHoldService } from './slotHoldService';
+export { SlotConflictError } from './doctorService';
+export type { DoctorTimeSlot, SlotConflictCode } from './doctorService';
+export type { SlotHold } from './slotHoldService';
 
 // Re-export hooks
 export * from '../../hooks/useDoctors';
@@ -2,7 +2,7 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import odooComService from '../odoocom/odooComService';
 import odooDoctorService from './doctorService';
 import odooSyncService from './syncService';
-import apiClient from '../api/apiClient';
+import proxyClient from '../proxy/proxyClient';
 
 /**
  * ODOO Integration Initialization Service
@@ -45,16 +45,13 @@ class OdooInitService {
         throw new Error('Failed to connect to ODOO server');
       }
 
-      // Step 2: Authenticate admin for API access
-      await this.authenticateAdmin();
-
-      // Step 3: Validate required ODOO models
+      // Step 2: Validate required ODOO models
       await this.validateOdooModels();
 
-      // Step 4: Initialize synchronization service
+      // Step 3: Initialize synchronization service
       await odooSyncService.initialize();
 
-      // Step 5: Cache initial data
+      // Step 4: Cache initial data
       await this.cacheInitialData();
 
       this.isInitialized = true;
@@ -71,41 +68,21 @@ class OdooInitService {
   }
 
   /**
-   * Check ODOO server connection
+   * Check ODOO server connection (the app reaches ODOO through the proxy)
    */
   private async checkOdooConnection(): Promise<boolean> {
     try {
-      this.log('info', 'Checking ODOO server connection...');
-      
-      // Try to get server version
-      const version = await apiClient.jsonRpc('common', 'version', []);
-      
-      if (version) {
-        this.log('info', `Connected to ODOO server version: ${JSON.stringify(version)}`);
-        return true;
+      this.log('info', 'Checking proxy connection...');
+
+      const isHealthy = await proxyClient.health();
+      if (isHealthy) {
+        this.log('info', 'Connected to proxy');
       }
-      
-      return false;
-    } catch (error) {
-      this.log('error', 'ODOO connection check failed', error);
-      return false;
-    }
-  }
 
-  /**
-   * Authenticate admin user for API access
-   */
-  private async authenticateAdmin(): Promise<void> {
-    try {
-      this.log('info', 'Authenticating admin for API access...');
-      
-      // This will use the credentials from .env
-      await apiClient.authenticateAdmin();
-      
-      this.log('info', 'Admin authenticated successfully');
+      return isHealthy;
     } catch (error) {
-      this.log('error', 'Admin authentication failed', error);
-      throw error;
+      this.log('error', 'Proxy connection check failed', error);
+      return false;
     }
   }
 
@@ -0,0 +1,61 @@
+/**
+ * Slot Hold Service
+ * Short-lived holds that reserve a doctor's time slot while the customer
+ * finishes booking. The proxy creates and checks them under the slot's lock
+ * (appointments/*), so two customers can never hold or book the same slot.
+ * A hold lapses at expiresAt on its own, so holds left behind by a closed
+ * app need no cleanup.
+ */
+
+import proxyClient from '../proxy/proxyClient';
+import { SlotHold } from '../proxy/proxyRoutes';
+
+export { SLOT_HOLD_MINUTES } from '../proxy/proxyRoutes';
+export type { SlotHold } from '../proxy/proxyRoutes';
+
+class SlotHoldService {
+  /**
+   * Starts (ISO 8601) of the doctor's slots within [from, to] that other
+   * customers are holding
+   */
+  async getHeldSlots(doctorId: number, from: Date, to: Date): Promise<string[]> {
+    try {
+      return await proxyClient.call('appointments/held-slots', {
+        doctorId,
+        from: from.toISOString(),
+        to: to.toISOString(),
+      });
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Reserve a slot for the customer, releasing any other slot they held.
+   * Fails with SLOT_TAKEN or SLOT_HELD when another customer got it first.
+   */
+  async createHold(doctorId: number, slotStart: string): Promise<SlotHold> {
+    try {
+      return await proxyClient.call('appointments/hold', { doctorId, slotStart });
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Whether a hold still reserves its slot
+   */
+  isHoldActive(hold: SlotHold): boolean {
+    return new Date(hold.expiresAt).getTime() > Date.now();
+  }
+
+  async releaseHold(holdId: number): Promise<void> {
+    try {
+      await proxyClient.call('appointments/release-hold', { holdId });
+    } catch (error) {
+      throw error;
+    }
+  }
+}
+
+export default new SlotHoldService();
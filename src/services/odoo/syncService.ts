@@ -1,6 +1,7 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import odooDoctorService from './doctorService';
 import odooComService from '../odoocom/odooComService';
+import proxyClient from '../proxy/proxyClient';
 
 /**
  * ODOO Synchronization Service
@@ -174,7 +175,8 @@ class OdooSyncService {
         
       case 'update':
         if (data.id) {
-          await odooComService.write(model, [data.id], data);
+          const { id, ...values } = data;
+          await odooComService.write(model, [id], values);
         } else {
           throw new Error('Update operation requires ID');
         }
@@ -330,9 +332,8 @@ class OdooSyncService {
    */
   private async isOnline(): Promise<boolean> {
     try {
-      // Try to fetch ODOO version as a connectivity check
-      const response = await odooComService.execute('ir.module.module', 'search_count', [[]]);
-      return true;
+      // Odoo is only reachable through the proxy
+      return await proxyClient.health();
     } catch (error) {
       return false;
     }
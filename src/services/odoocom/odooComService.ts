@@ -1,16 +1,11 @@
-import axios from 'axios';
 import apiClient from '../api/apiClient';
-import { API_CONFIG } from '../config/api.config';
 
 /**
  * Unified Odoo Service (formerly odooComService)
  * Combines all Odoo operations in a single service
- * Supports both standard Odoo and Odoo.com specific features
+ * Model calls go through apiClient and the proxy
  */
 class OdooComService {
-  private sessionId: string | null = null;
-  private csrfToken: string | null = null;
-
   // ============================================
   // Core CRUD Operations (added from odooClient)
   // ============================================
@@ -190,121 +185,6 @@ class OdooComService {
     }
   }
 
-  // ============================================
-  // Odoo.com Specific Methods (original methods)
-  // ============================================
-
-  /**
-   * Authenticate with Odoo.com using mobile API key or username/password
-   */
-  async authenticate(username: string, password: string): Promise<any> {
-    try {
-      // First, get session info
-      const sessionResponse = await axios.post(
-        `${API_CONFIG.BASE_URL}/web/session/get_session_info`,
-        {},
-        {
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          withCredentials: true,
-        }
-      );
-
-      // Then authenticate
-      const authResponse = await axios.post(
-        `${API_CONFIG.BASE_URL}/web/session/authenticate`,
-        {
-          jsonrpc: '2.0',
-          method: 'call',
-          params: {
-            db: 'petnexus',
-            login: username,
-            password: password,
-            // Use API key if available
-            context: API_CONFIG.API_KEY ? { api_key: API_CONFIG.API_KEY } : {},
-          },
-          id: new Date().getTime(),
-        },
-        {
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          withCredentials: true,
-        }
-      );
-
-      if (authResponse.data.result && authResponse.data.result.uid) {
-        this.sessionId = authResponse.data.result.session_id;
-        this.csrfToken = authResponse.data.result.csrf_token;
-        
-        return {
-          success: true,
-          uid: authResponse.data.result.uid,
-          username: authResponse.data.result.username,
-          name: authResponse.data.result.name,
-          partner_id: authResponse.data.result.partner_id,
-          session_id: this.sessionId,
-        };
-      }
-
-      return {
-        success: false,
-        error: 'Authentication failed',
-      };
-    } catch (error: any) {
-      throw error;
-    }
-  }
-
-  /**
-   * Make authenticated API call using Odoo.com's web/dataset/call_kw endpoint
-   */
-  async callKw(
-    model: string,
-    method: string,
-    args: any[] = [],
-    kwargs: any = {}
-  ): Promise<any> {
-    try {
-      const response = await axios.post(
-        `${API_CONFIG.BASE_URL}/web/dataset/call_kw/${model}/${method}`,
-        {
-          jsonrpc: '2.0',
-          method: 'call',
-          params: {
-            model: model,
-            method: method,
-            args: args,
-            kwargs: {
-              ...kwargs,
-              context: {
-                ...kwargs.context,
-                api_key: API_CONFIG.API_KEY,
-              },
-            },
-          },
-          id: new Date().getTime(),
-        },
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            ...(this.csrfToken ? { 'X-CSRF-Token': this.csrfToken } : {}),
-          },
-          withCredentials: true,
-        }
-      );
-
-      if (response.data.error) {
-        throw new Error(response.data.error.message || 'API Error');
-      }
-
-      return response.data.result;
-    } catch (error: any) {
-      throw error;
-    }
-  }
-
   // ============================================
   // Business Logic Methods
   // ============================================
@@ -480,83 +360,6 @@ class OdooComService {
     }
     return Math.round(((listPrice - standardPrice) / listPrice) * 100);
   }
-
-  /**
-   * Direct authentication with API key (for mobile apps)
-   */
-  async authenticateWithApiKey(): Promise<any> {
-    try {
-      // Odoo.com mobile API authentication
-      const response = await axios.post(
-        `${API_CONFIG.BASE_URL}/web/session/authenticate`,
-        {
-          jsonrpc: '2.0',
-          method: 'call',
-          params: {
-            db: 'petnexus',
-            login: '', // Can be empty with API key
-            password: API_CONFIG.API_KEY, // Use API key as password
-            context: {},
-          },
-          id: new Date().getTime(),
-        },
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            'X-API-Key': API_CONFIG.API_KEY,
-          },
-        }
-      );
-
-      if (response.data.result && response.data.result.uid) {
-        return {
-          success: true,
-          ...response.data.result,
-        };
-      }
-
-      // Fallback: Try using the API key in a different way
-      return await this.authenticateWithJsonRpc();
-    } catch (error) {
-      // Try alternative authentication method
-      return await this.authenticateWithJsonRpc();
-    }
-  }
-
-  /**
-   * Alternative: Use JSON-RPC directly
-   */
-  async authenticateWithJsonRpc(): Promise<any> {
-    try {
-      const response = await axios.post(
-        `${API_CONFIG.BASE_URL}/jsonrpc`,
-        {
-          jsonrpc: '2.0',
-          method: 'call',
-          params: {
-            service: 'common',
-            method: 'version',
-            args: [],
-          },
-          id: 1,
-        },
-        {
-          headers: {
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-
-      // Return mock success for now - you'll need proper credentials
-      return {
-        success: true,
-        message: 'Connected to Odoo',
-        version: response.data.result,
-      };
-    } catch (error) {
-      throw error;
-    }
-  }
 }
 
 export default new OdooComService();
\ No newline at end of file
@@ -0,0 +1,186 @@
+/**
+ * Order Lifecycle
+ * Typed status transitions for sale.order.
+ *
+ * The app status lives in dedicated Odoo fields instead of the customer note:
+ * - sale.order.x_pawsmart_status: current app status (e.g. 'waiting_payment')
+ * - sale.order.x_payment_method / x_payment_id / x_payment_status: latest payment attempt
+ * - sale.order.x_payment_provider: gateway that served that attempt ('FLIP' or 'XENDIT')
+ * - sale.order.x_payment_expires_at: when the gateway stops accepting that attempt
+ * - sale.order.x_shipping_awb / x_shipping_courier / x_shipping_service: courier shipment
+ * - sale.order.x_subscription_id / x_subscription_cycle: AutoKirim subscription and delivery date the order was generated for
+ * - sale.order.x_appointment_id: medical.appointment a consultation order pays for
+ * - sale.order.x_cancel_reason: why a cancelled order was cancelled ('customer' or 'expired')
+ * - x_pawsmart_order_event: one record per status change (the order timeline)
+ */
+
+export const ORDER_LIFECYCLE_MODELS = {
+  ORDER_EVENT: 'x_pawsmart_order_event',
+};
+
+export const ORDER_LIFECYCLE_FIELDS = {
+  STATUS: 'x_pawsmart_status',
+  PAYMENT_METHOD: 'x_payment_method',
+  PAYMENT_ID: 'x_payment_id',
+  PAYMENT_STATUS: 'x_payment_status',
+  PAYMENT_PROVIDER: 'x_payment_provider',
+  PAYMENT_EXPIRES_AT: 'x_payment_expires_at',
+  PAYMENT_REMINDED_AT: 'x_payment_reminded_at', // Expiry reminder sent by the proxy
+  SHIPPING_AWB: 'x_shipping_awb',
+  SHIPPING_COURIER: 'x_shipping_courier',
+  SHIPPING_SERVICE: 'x_shipping_service',
+  SUBSCRIPTION_ID: 'x_subscription_id',
+  SUBSCRIPTION_CYCLE: 'x_subscription_cycle',
+  APPOINTMENT_ID: 'x_appointment_id',
+  CANCEL_REASON: 'x_cancel_reason',
+};
+
+export type OrderStatus =
+  | 'draft'
+  | 'sent'
+  | 'sale'
+  | 'done'
+  | 'cancel'
+  | 'pending'
+  | 'processing'
+  | 'shipped'
+  | 'delivered'
+  | 'cancelled'
+  | 'waiting_payment'
+  | 'payment_confirmed'
+  | 'admin_review'
+  | 'approved'
+  | 'return_approved'
+  | 'inspecting';
+
+export type OrderEventSource = 'app' | 'payment' | 'webhook' | 'shipping' | 'admin' | 'system';
+
+// 'expired': the payment lapsed before it was paid; the order can be paid again
+export type OrderCancelReason = 'customer' | 'expired';
+
+export interface OrderStatusEvent {
+  id?: number;
+  status: OrderStatus;
+  previousStatus?: OrderStatus;
+  timestamp: string; // ISO 8601
+  note?: string;
+  source?: OrderEventSource;
+}
+
+export interface OrderPaymentInfo {
+  paymentId?: string;
+  paymentMethod?: string;
+  paymentStatus?: string;
+  paymentProvider?: string;
+  paymentExpiresAt?: string; // ISO 8601, from the gateway
+}
+
+export interface OrderShipmentInfo {
+  awb: string;
+  courier: string; // KiriminAja courier code (e.g. 'jne')
+  service?: string;
+}
+
+// Allowed moves between app statuses. Statuses without outgoing moves are final.
+export const ORDER_STATUS_TRANSITIONS: Partial<Record<OrderStatus, OrderStatus[]>> = {
+  draft: ['waiting_payment', 'payment_confirmed', 'cancelled'],
+  waiting_payment: ['payment_confirmed', 'approved', 'cancelled'], // 'approved': cash on delivery, paid to the courier
+  payment_confirmed: ['admin_review', 'approved', 'processing', 'cancelled'],
+  admin_review: ['approved', 'cancelled'],
+  approved: ['processing', 'cancelled'],
+  processing: ['shipped', 'cancelled'],
+  shipped: ['delivered'],
+  delivered: ['inspecting'],
+  inspecting: ['return_approved', 'delivered'],
+  return_approved: [],
+  cancelled: ['waiting_payment'], // Only with cancel reason 'expired' (reopened by the proxy)
+};
+
+// Statuses a customer may cancel from. From 'processing' on the courier is
+// booked, so only the admin can stop the order.
+export const CUSTOMER_CANCELLABLE_STATUSES: OrderStatus[] = ['draft', 'waiting_payment', 'payment_confirmed', 'admin_review', 'approved'];
+
+// Native Odoo states mapped onto the app lifecycle
+const NATIVE_STATE_ALIASES: Partial<Record<OrderStatus, OrderStatus>> = {
+  sent: 'waiting_payment',
+  pending: 'waiting_payment',
+  sale: 'payment_confirmed',
+  done: 'delivered',
+  cancel: 'cancelled',
+};
+
+// Odoo state written alongside each app status
+const ODOO_STATE_FOR_STATUS: Partial<Record<OrderStatus, string>> = {
+  draft: 'draft',
+  waiting_payment: 'draft',
+  payment_confirmed: 'sale',
+  admin_review: 'sale',
+  approved: 'sale',
+  processing: 'sale',
+  shipped: 'sale',
+  delivered: 'done',
+  inspecting: 'done',
+  return_approved: 'done',
+  cancelled: 'cancel',
+};
+
+export const ORDER_STATUS_LABELS: Partial<Record<OrderStatus, string>> = {
+  draft: 'Draft',
+  waiting_payment: 'Menunggu Pembayaran',
+  payment_confirmed: 'Pembayaran Dikonfirmasi',
+  admin_review: 'Sedang Ditinjau Admin',
+  approved: 'Disetujui',
+  processing: 'Sedang Diproses',
+  shipped: 'Dikirim',
+  delivered: 'Terkirim',
+  inspecting: 'Pemeriksaan Barang',
+  return_approved: 'Pengembalian Disetujui',
+  cancelled: 'Dibatalkan',
+};
+
+export class OrderTransitionError extends Error {
+  constructor(
+    public from: OrderStatus,
+    public to: OrderStatus
+  ) {
+    super(`Status pesanan tidak dapat diubah dari "${ORDER_STATUS_LABELS[from] || from}" ke "${ORDER_STATUS_LABELS[to] || to}"`);
+    this.name = 'OrderTransitionError';
+  }
+}
+
+/**
+ * Map any status (app or native Odoo) onto the app lifecycle
+ */
+export const normalizeOrderStatus = (status: OrderStatus): OrderStatus => {
+  return NATIVE_STATE_ALIASES[status] || status;
+};
+
+/**
+ * Check whether an order may move from one status to another. A cancelled
+ * order only goes back to waiting for payment when its payment expired.
+ */
+export const canTransitionOrder = (from: OrderStatus, to: OrderStatus, cancelReason?: OrderCancelReason): boolean => {
+  const current = normalizeOrderStatus(from);
+  const target = normalizeOrderStatus(to);
+
+  if (current === 'cancelled' && target === 'waiting_payment' && cancelReason !== 'expired') {
+    return false;
+  }
+  return (ORDER_STATUS_TRANSITIONS[current] || []).includes(target);
+};
+
+/**
+ * Throw an OrderTransitionError unless the move is allowed
+ */
+export const assertOrderTransition = (from: OrderStatus, to: OrderStatus, cancelReason?: OrderCancelReason): void => {
+  if (!canTransitionOrder(from, to, cancelReason)) {
+    throw new OrderTransitionError(normalizeOrderStatus(from), normalizeOrderStatus(to));
+  }
+};
+
+/**
+ * Odoo sale.order state that matches an app status
+ */
+export const getOdooStateForStatus = (status: OrderStatus): string => {
+  return ODOO_STATE_FOR_STATUS[normalizeOrderStatus(status)] || 'sale';
+};
@@ -1,23 +1,21 @@
 import apiClient from '../api/apiClient';
+import proxyClient from '../proxy/proxyClient';
 import { API_ENDPOINTS, ODOO_CONFIG } from '../config/api.config';
-
-export type OrderStatus = 
-  | 'draft'
-  | 'sent'
-  | 'sale'
-  | 'done'
-  | 'cancel'
-  | 'pending'
-  | 'processing'
-  | 'shipped'
-  | 'delivered'
-  | 'cancelled'
-  | 'waiting_payment'
-  | 'payment_confirmed'
-  | 'admin_review'
-  | 'approved'
-  | 'return_approved'
-  | 'inspecting';
+import {
+  ORDER_LIFECYCLE_FIELDS,
+  ORDER_LIFECYCLE_MODELS,
+  ORDER_STATUS_LABELS,
+  OrderCancelReason,
+  OrderPaymentInfo,
+  OrderShipmentInfo,
+  OrderStatus,
+  OrderStatusEvent,
+  normalizeOrderStatus,
+} from './orderLifecycle';
+import { PaymentStatus } from '../payment/paymentGatewayConfig';
+import { ShipmentChoice } from '../proxy/proxyRoutes';
+
+export type { OrderStatus } from './orderLifecycle';
 
 export interface OrderLine {
   id: number;
@@ -62,6 +60,11 @@ export interface Order {
   xendit_payment_id?: string;
   xendit_payment_method?: string;
   xendit_payment_status?: string;
+  payment_info?: OrderPaymentInfo;
+  shipment?: OrderShipmentInfo;
+  subscription_id?: number; // AutoKirim subscription this order was generated for
+  cancel_reason?: OrderCancelReason;
+  status_history?: OrderStatusEvent[];
 }
 
 export interface OrderItem {
@@ -73,19 +76,31 @@ export interface OrderItem {
   image_128?: string | null;
 }
 
+// Lines carry only a product and quantity; the proxy prices them from the catalogue
 export interface CreateOrderData {
-  partner_id: number;
   order_line: Array<{
     product_id: number;
     product_uom_qty: number;
-    price_unit?: number;
   }>;
-  payment_method_id?: number;
-  delivery_method_id?: number;
+  shipment: ShipmentChoice; // Quoted and billed on the order by the proxy
   note?: string;
-  coupon_code?: string;
 }
 
+export interface CartDraftLine {
+  product_id: number;
+  product_uom_qty: number;
+}
+
+export interface CartDraft {
+  id: number;
+  write_date?: string;
+  lines: OrderLine[];
+}
+
+// client_order_ref marker that distinguishes the customer's saved cart
+// from real draft orders (e.g. orders waiting for payment)
+export const CART_DRAFT_REF = 'PAWSMART_CART';
+
 export interface OrderFilter {
   state?: OrderStatus;
   partner_id?: number;
@@ -115,8 +130,8 @@ class OrderService {
    */
   async getOrders(filter?: OrderFilter): Promise<Order[]> {
     try {
-      // Build Odoo domain filter
-      const domain: any[] = [];
+      // Build Odoo domain filter (saved carts are not orders)
+      const domain: any[] = [['client_order_ref', '!=', CART_DRAFT_REF]];
       
       if (filter) {
         if (filter.state) domain.push(['state', '=', filter.state]);
@@ -149,6 +164,7 @@ class OrderService {
             'note',
             'invoice_status',
             'delivery_count',
+            ...Object.values(ORDER_LIFECYCLE_FIELDS),
           ],
           limit: filter?.limit || 20,
           offset: filter?.offset || 0,
@@ -224,7 +240,19 @@ class OrderService {
         }
       }
 
-      return this.transformOrders(orders);
+      const transformedOrders = this.transformOrders(orders);
+
+      // Attach status timelines as a separate, non-critical operation
+      try {
+        const histories = await this.getStatusHistories(transformedOrders.map(order => order.id));
+        transformedOrders.forEach(order => {
+          order.status_history = histories.get(order.id.toString()) || [];
+        });
+      } catch (historyError) {
+        // Continue without timelines - don't fail the entire order fetch
+      }
+
+      return transformedOrders;
     } catch (error) {
       // Return empty array if API fails
       return [];
@@ -243,7 +271,10 @@ class OrderService {
         'search_read',
         [],
         {
-          domain: [['partner_id', '=', partnerId]],
+          domain: [
+            ['partner_id', '=', partnerId],
+            ['client_order_ref', '!=', CART_DRAFT_REF],
+          ],
           fields: [
             'id',
             'name',
@@ -255,6 +286,7 @@ class OrderService {
             'amount_tax',
             'amount_total',
             'note',
+            ...Object.values(ORDER_LIFECYCLE_FIELDS),
           ],
           order: 'date_order desc',
           limit: 50,
@@ -303,6 +335,7 @@ class OrderService {
               'note',
               'invoice_status',
               'delivery_count',
+              ...Object.values(ORDER_LIFECYCLE_FIELDS),
             ],
           }
         );
@@ -417,74 +450,230 @@ class OrderService {
   }
 
   /**
-   * Create a new order
+   * Create a new order for the signed-in customer. The proxy adds the
+   * shipping cost of the chosen courier as an order line.
    */
   async createOrder(orderData: CreateOrderData): Promise<Order> {
     try {
-      // Creating order
-      
-      // Prepare order lines for Odoo
-      const orderLines = orderData.order_line.map(line => [
-        0, 0, {
-          product_id: line.product_id,
-          product_uom_qty: line.product_uom_qty,
-          price_unit: line.price_unit,
-        }
-      ]);
+      const { orderId } = await proxyClient.call('orders/create', {
+        lines: orderData.order_line.map(line => ({
+          productId: line.product_id,
+          quantity: line.product_uom_qty,
+        })),
+        shipment: orderData.shipment,
+        note: orderData.note,
+      });
 
-      // Create order in Odoo
-      const orderId = await apiClient.odooExecute(
-        ODOO_CONFIG.MODELS.SALE_ORDER,
-        'create',
-        [{
-          partner_id: orderData.partner_id,
-          order_line: orderLines,
-          note: orderData.note || '',
-        }]
-      );
+      return await this.getOrderById(orderId);
+    } catch (error) {
+      throw error;
+    }
+  }
 
-      // Order created successfully
-      
+  /**
+   * Book the order for a consultation; the proxy prices it from the doctor's
+   * fee and the chosen additional services
+   */
+  async createConsultationOrder(appointmentId: number, additionalServices: string[] = []): Promise<Order> {
+    try {
+      const { orderId } = await proxyClient.call('orders/consultation', { appointmentId, additionalServices });
+      return await this.getOrderById(orderId);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel an order that has not been paid yet. Paid orders are cancelled
+   * through refundService.cancelOrder, which collects the refund details.
+   */
+  async cancelOrder(orderId: string | number, reason: string = 'Dibatalkan oleh pelanggan'): Promise<Order> {
+    try {
       if (!orderId) {
-        throw new Error('Failed to create order - no ID returned from Odoo');
+        throw new Error('Order ID is required');
       }
 
-      // Read the created order
+      await proxyClient.call('orders/cancel', { orderId: parseInt(orderId.toString()), reason });
+
+      // Return the updated order
+      return await this.getOrderById(orderId);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Whether the customer can create a new payment for an unpaid order whose
+   * last payment expired or failed
+   */
+  canRegeneratePayment(order: Order): boolean {
+    const status = normalizeOrderStatus(order.state);
+    const paymentStatus = this.getPaymentInfoFromOrder(order).paymentStatus;
+
+    if (status === 'cancelled') {
+      return order.cancel_reason === 'expired';
+    }
+    return status === 'waiting_payment' && (paymentStatus === 'EXPIRED' || paymentStatus === 'FAILED');
+  }
+
+  /**
+   * Put an order cancelled by payment expiry back to waiting for payment, so a
+   * fresh payment can be created for it
+   */
+  async reopenExpiredOrder(orderId: string | number): Promise<Order> {
+    try {
       const order = await this.getOrderById(orderId);
 
-      return order;
+      if (!this.canRegeneratePayment(order)) {
+        throw new Error('Pembayaran untuk pesanan ini tidak dapat dibuat ulang');
+      }
+      if (normalizeOrderStatus(order.state) !== 'cancelled') {
+        return order;
+      }
+
+      await proxyClient.call('orders/reopen', { orderId: parseInt(orderId.toString()) });
+      return await this.getOrderById(orderId);
     } catch (error) {
       throw error;
     }
   }
 
   /**
-   * Cancel an order
+   * Get the customer's saved cart (draft sale.order marked with CART_DRAFT_REF)
+   * Returns null when the customer has no saved cart
    */
-  async cancelOrder(orderId: string | number, reason?: string): Promise<Order> {
+  async getCartDraft(partnerId: number): Promise<CartDraft | null> {
     try {
-      if (!orderId) {
-        throw new Error('Order ID is required');
+      const drafts = await apiClient.odooExecute(
+        ODOO_CONFIG.MODELS.SALE_ORDER,
+        'search_read',
+        [],
+        {
+          domain: [
+            ['partner_id', '=', partnerId],
+            ['state', '=', 'draft'],
+            ['client_order_ref', '=', CART_DRAFT_REF],
+          ],
+          fields: ['id', 'order_line', 'write_date'],
+          order: 'write_date desc',
+          limit: 1,
+        }
+      );
+
+      if (!drafts || drafts.length === 0) {
+        return null;
       }
-      
-      // Call action_cancel method in Odoo
-      await apiClient.odooExecute(
+
+      const draft = drafts[0];
+      let lines: any[] = [];
+
+      if (draft.order_line && draft.order_line.length > 0) {
+        lines = await apiClient.odooExecute(
+          ODOO_CONFIG.MODELS.SALE_ORDER_LINE,
+          'read',
+          [draft.order_line],
+          {
+            fields: [
+              'id',
+              'product_id',
+              'name',
+              'product_uom_qty',
+              'price_unit',
+              'price_total',
+              'price_subtotal',
+              'discount',
+            ],
+          }
+        );
+      }
+
+      return {
+        id: draft.id,
+        write_date: draft.write_date,
+        lines: this.transformOrderLines(lines),
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Save the customer's cart to a draft sale.order, replacing its lines.
+   * An empty cart discards the draft.
+   */
+  async saveCartDraft(partnerId: number, lines: CartDraftLine[]): Promise<number | null> {
+    try {
+      if (lines.length === 0) {
+        await this.discardCartDraft(partnerId);
+        return null;
+      }
+
+      const existingIds: number[] = await apiClient.odooExecute(
         ODOO_CONFIG.MODELS.SALE_ORDER,
-        'action_cancel',
-        [[parseInt(orderId.toString())]]
+        'search',
+        [[
+          ['partner_id', '=', partnerId],
+          ['state', '=', 'draft'],
+          ['client_order_ref', '=', CART_DRAFT_REF],
+        ]],
+        { limit: 1 }
       );
 
-      // If there's a reason, update the note
-      if (reason) {
+      // (5, 0, 0) clears the current lines, (0, 0, vals) creates new ones
+      const orderLines = [
+        [5, 0, 0],
+        ...lines.map(line => [
+          0, 0, {
+            product_id: line.product_id,
+            product_uom_qty: line.product_uom_qty,
+          }
+        ]),
+      ];
+
+      if (existingIds && existingIds.length > 0) {
         await apiClient.odooExecute(
           ODOO_CONFIG.MODELS.SALE_ORDER,
           'write',
-          [[parseInt(orderId.toString())], { note: reason }]
+          [[existingIds[0]], { order_line: orderLines }]
         );
+        return existingIds[0];
       }
 
-      // Return the updated order
-      return await this.getOrderById(orderId);
+      return await apiClient.odooExecute(
+        ODOO_CONFIG.MODELS.SALE_ORDER,
+        'create',
+        [{
+          client_order_ref: CART_DRAFT_REF,
+          order_line: orderLines.slice(1),
+        }]
+      );
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Delete the customer's saved cart, if any
+   */
+  async discardCartDraft(partnerId: number): Promise<void> {
+    try {
+      const draftIds: number[] = await apiClient.odooExecute(
+        ODOO_CONFIG.MODELS.SALE_ORDER,
+        'search',
+        [[
+          ['partner_id', '=', partnerId],
+          ['state', '=', 'draft'],
+          ['client_order_ref', '=', CART_DRAFT_REF],
+        ]]
+      );
+
+      if (draftIds && draftIds.length > 0) {
+        await apiClient.odooExecute(
+          ODOO_CONFIG.MODELS.SALE_ORDER,
+          'unlink',
+          [draftIds]
+        );
+      }
     } catch (error) {
       throw error;
     }
@@ -602,51 +791,20 @@ class OrderService {
    * Transform Odoo order data to match app format
    */
   private transformOrder(odooOrder: any): Order {
-    // Extract custom status from note field if present
     let actualState: OrderStatus = odooOrder.state as OrderStatus;
-    let statusText = '';
-    
-    if (odooOrder.note) {
+
+    if (odooOrder[ORDER_LIFECYCLE_FIELDS.STATUS]) {
+      actualState = odooOrder[ORDER_LIFECYCLE_FIELDS.STATUS] as OrderStatus;
+    } else if (odooOrder.note) {
+      // Orders created before the lifecycle fields encoded the status as a note prefix
       const statusMatch = odooOrder.note.match(/^\[([A-Z_]+)\]/);
-      if (statusMatch) {
-        const customStatus = statusMatch[1].toLowerCase().replace(/_/g, '_');
-        // Map note prefix back to our custom status
-        switch (customStatus) {
-          case 'waiting_payment':
-            actualState = 'waiting_payment';
-            statusText = 'Menunggu Pembayaran';
-            break;
-          case 'payment_confirmed':
-            actualState = 'payment_confirmed';
-            statusText = 'Pembayaran Dikonfirmasi';
-            break;
-          case 'admin_review':
-            actualState = 'admin_review';
-            statusText = 'Sedang Ditinjau Admin';
-            break;
-          case 'approved':
-            actualState = 'approved';
-            statusText = 'Disetujui';
-            break;
-          case 'processing':
-            actualState = 'processing';
-            statusText = 'Sedang Diproses';
-            break;
-          case 'shipped':
-            actualState = 'shipped';
-            statusText = 'Dikirim';
-            break;
-          case 'delivered':
-            actualState = 'delivered';
-            statusText = 'Terkirim';
-            break;
-          default:
-            actualState = customStatus as OrderStatus;
-            statusText = customStatus.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
-        }
+      if (statusMatch && ORDER_STATUS_LABELS[statusMatch[1].toLowerCase() as OrderStatus]) {
+        actualState = statusMatch[1].toLowerCase() as OrderStatus;
       }
     }
     
+    let statusText = ORDER_STATUS_LABELS[actualState] || '';
+    
     // Default status text if not set
     if (!statusText) {
       const statusMap: { [key: string]: string } = {
@@ -684,6 +842,28 @@ class OrderService {
       pricelist_id: odooOrder.pricelist_id,
       note: odooOrder.note,
       totalItems: odooOrder.order_line?.length || 0,
+      payment_info: odooOrder[ORDER_LIFECYCLE_FIELDS.PAYMENT_ID]
+        ? {
+            paymentId: odooOrder[ORDER_LIFECYCLE_FIELDS.PAYMENT_ID],
+            paymentMethod: odooOrder[ORDER_LIFECYCLE_FIELDS.PAYMENT_METHOD] || undefined,
+            paymentStatus: odooOrder[ORDER_LIFECYCLE_FIELDS.PAYMENT_STATUS] || undefined,
+            paymentProvider: odooOrder[ORDER_LIFECYCLE_FIELDS.PAYMENT_PROVIDER] || undefined,
+            paymentExpiresAt: odooOrder[ORDER_LIFECYCLE_FIELDS.PAYMENT_EXPIRES_AT]
+              ? `${odooOrder[ORDER_LIFECYCLE_FIELDS.PAYMENT_EXPIRES_AT].replace(' ', 'T')}Z`
+              : undefined,
+          }
+        : undefined,
+      shipment: odooOrder[ORDER_LIFECYCLE_FIELDS.SHIPPING_AWB]
+        ? {
+            awb: odooOrder[ORDER_LIFECYCLE_FIELDS.SHIPPING_AWB],
+            courier: odooOrder[ORDER_LIFECYCLE_FIELDS.SHIPPING_COURIER] || '',
+            service: odooOrder[ORDER_LIFECYCLE_FIELDS.SHIPPING_SERVICE] || undefined,
+          }
+        : undefined,
+      subscription_id: Array.isArray(odooOrder[ORDER_LIFECYCLE_FIELDS.SUBSCRIPTION_ID])
+        ? odooOrder[ORDER_LIFECYCLE_FIELDS.SUBSCRIPTION_ID][0]
+        : odooOrder[ORDER_LIFECYCLE_FIELDS.SUBSCRIPTION_ID] || undefined,
+      cancel_reason: odooOrder[ORDER_LIFECYCLE_FIELDS.CANCEL_REASON] || undefined,
     };
 
     // Add simplified items for compatibility
@@ -741,20 +921,13 @@ class OrderService {
   }
 
   /**
-   * Confirm order (change state from draft to sale)
+   * Move a new (draft) order to waiting for payment. An expired order comes
+   * back through reopenExpiredOrder; every later status change is made by the
+   * proxy when it sees the payment, the courier or a refund.
    */
-  async confirmOrder(orderId: string | number): Promise<Order> {
+  async updateOrderStatus(orderId: string | number, status: 'waiting_payment'): Promise<Order> {
     try {
-      if (!orderId) {
-        throw new Error('Order ID is required');
-      }
-      
-      // Call action_confirm method in Odoo to confirm the order
-      await apiClient.odooExecute(
-        ODOO_CONFIG.MODELS.SALE_ORDER,
-        'action_confirm',
-        [[parseInt(orderId.toString())]]
-      );
+      await proxyClient.call('orders/transition', { orderId: parseInt(orderId.toString()), status });
 
       // Return the updated order
       return await this.getOrderById(orderId);
@@ -764,82 +937,51 @@ class OrderService {
   }
 
   /**
-   * Update order status
+   * Get the status timeline of an order, oldest first
    */
-  async updateOrderStatus(orderId: string | number, status: OrderStatus): Promise<Order> {
-    try {
-      // Map custom statuses to valid Odoo states
-      let odooState: string;
-      let notePrefix = '';
-      
-      switch (status) {
-        case 'waiting_payment':
-          odooState = 'draft';
-          notePrefix = '[WAITING_PAYMENT] ';
-          break;
-        case 'payment_confirmed':
-          odooState = 'sale';
-          notePrefix = '[PAYMENT_CONFIRMED] ';
-          break;
-        case 'admin_review':
-          odooState = 'sale';
-          notePrefix = '[ADMIN_REVIEW] ';
-          break;
-        case 'approved':
-          odooState = 'sale';
-          notePrefix = '[APPROVED] ';
-          break;
-        case 'processing':
-          odooState = 'sale';
-          notePrefix = '[PROCESSING] ';
-          break;
-        case 'shipped':
-          odooState = 'sale';
-          notePrefix = '[SHIPPED] ';
-          break;
-        case 'delivered':
-          odooState = 'done';
-          notePrefix = '[DELIVERED] ';
-          break;
-        case 'cancelled':
-        case 'cancel':
-          odooState = 'cancel';
-          break;
-        default:
-          // Use the status as-is if it's a valid Odoo state
-          if (['draft', 'sent', 'sale', 'done', 'cancel'].includes(status)) {
-            odooState = status;
-          } else {
-            odooState = 'sale';
-            notePrefix = `[${status.toUpperCase()}] `;
-          }
-      }
+  async getOrderStatusHistory(orderId: string | number): Promise<OrderStatusEvent[]> {
+    const histories = await this.getStatusHistories([orderId]);
+    return histories.get(orderId.toString()) || [];
+  }
 
-      // Get current order to preserve existing note
-      const currentOrder = await this.getOrderById(orderId);
-      const existingNote = currentOrder.note || '';
-      
-      // Remove any existing status prefix and add new one
-      const cleanNote = existingNote.replace(/^\[[A-Z_]+\]\s*/, '');
-      const newNote = notePrefix + cleanNote;
-
-      // Update the order state and note in Odoo
-      const updateData: any = { state: odooState };
-      if (notePrefix) {
-        updateData.note = newNote;
-      }
-      
-      await apiClient.odooExecute(
-        ODOO_CONFIG.MODELS.SALE_ORDER,
-        'write',
-        [[parseInt(orderId.toString())], updateData]
-      );
+  /**
+   * Get status timelines for several orders in one call, keyed by order ID
+   */
+  private async getStatusHistories(orderIds: Array<string | number>): Promise<Map<string, OrderStatusEvent[]>> {
+    const histories = new Map<string, OrderStatusEvent[]>();
+    const ids = orderIds.map(id => parseInt(id.toString())).filter(id => !isNaN(id));
 
-      // Return the updated order
-      return await this.getOrderById(orderId);
-    } catch (error) {
-      throw error;
+    if (ids.length === 0) {
+      return histories;
     }
+
+    const events = await apiClient.odooExecute(
+      ORDER_LIFECYCLE_MODELS.ORDER_EVENT,
+      'search_read',
+      [],
+      {
+        domain: [['x_order_id', 'in', ids]],
+        fields: ['id', 'x_order_id', 'x_status', 'x_previous_status', 'x_note', 'x_source', 'x_event_date'],
+        order: 'x_event_date asc, id asc',
+      }
+    );
+
+    (events || []).forEach((event: any) => {
+      const key = (Array.isArray(event.x_order_id) ? event.x_order_id[0] : event.x_order_id).toString();
+      const history = histories.get(key) || [];
+      history.push({
+        id: event.id,
+        status: event.x_status,
+        previousStatus: event.x_previous_status || undefined,
+        // Odoo returns UTC datetimes as 'YYYY-MM-DD HH:MM:SS'
+        timestamp: event.x_event_date ? `${event.x_event_date.replace(' ', 'T')}Z` : '',
+        note: event.x_note || undefined,
+        source: event.x_source || undefined,
+      });
+      histories.set(key, history);
+    });
+
+    return histories;
   }
 
   /**
@@ -881,14 +1023,7 @@ class OrderService {
           amount: order.amount_total,
         };
 
-        // Check for custom status in note field first
-        let customState = order.state;
-        if (order.note) {
-          const statusMatch = order.note.match(/^\[([A-Z_]+)\]/);
-          if (statusMatch) {
-            customState = statusMatch[1].toLowerCase() as OrderStatus;
-          }
-        }
+        const customState = order.state;
         
         // Add appropriate activity type based on status
         switch (customState) {
@@ -927,7 +1062,6 @@ class OrderService {
             break;
             
           case 'processing':
-          case 'inspecting':
             orderActivities.push({
               ...baseActivity,
               type: 'order' as const,
@@ -938,6 +1072,17 @@ class OrderService {
             });
             break;
             
+          case 'inspecting':
+            orderActivities.push({
+              ...baseActivity,
+              type: 'order' as const,
+              title: 'Pemeriksaan Barang',
+              description: `Barang yang dikembalikan dari pesanan ${order.name} sedang diperiksa admin`,
+              status: customState,
+              icon: 'fact-check',
+            });
+            break;
+            
           case 'shipped':
             orderActivities.push({
               ...baseActivity,
@@ -966,10 +1111,12 @@ class OrderService {
             orderActivities.push({
               ...baseActivity,
               type: 'order' as const,
-              title: 'Pesanan Dibatalkan',
-              description: `Pesanan ${order.name} telah dibatalkan`,
+              title: order.cancel_reason === 'expired' ? 'Pembayaran Kedaluwarsa' : 'Pesanan Dibatalkan',
+              description: order.cancel_reason === 'expired'
+                ? `Pesanan ${order.name} dibatalkan karena pembayaran tidak diselesaikan. Buat pembayaran baru dari detail pesanan.`
+                : `Pesanan ${order.name} telah dibatalkan`,
               status: customState,
-              icon: 'cancel',
+              icon: order.cancel_reason === 'expired' ? 'timer-off' : 'cancel',
             });
             break;
             
@@ -1005,6 +1152,19 @@ class OrderService {
               status: customState,
             });
         }
+
+        // A refund shows up next to the cancellation or return it belongs to
+        if (order.payment_info?.paymentStatus === PaymentStatus.REFUNDED) {
+          orderActivities.push({
+            ...baseActivity,
+            id: `order_${order.id}_refunded`,
+            type: 'payment' as const,
+            title: 'Dana Dikembalikan',
+            description: `Dana untuk pesanan ${order.name} telah dikembalikan`,
+            status: PaymentStatus.REFUNDED,
+            icon: 'account-balance-wallet',
+          });
+        }
       }
 
       // Add some promotional activities if we have few orders
@@ -1060,39 +1220,16 @@ class OrderService {
   }
 
   /**
-   * Update order with payment information
+   * Pay a whole order from the customer's PawSmart balance.
+   * Returns false when the order can no longer be paid (e.g. it was cancelled).
    */
-  async updateOrderPaymentInfo(
-    orderId: string | number, 
-    paymentId: string, 
-    paymentMethod: string, 
-    paymentStatus: string
-  ): Promise<void> {
+  async payWithWallet(orderId: string | number, amount: number): Promise<boolean> {
     try {
-      if (!orderId) {
-        throw new Error('Order ID is required');
-      }
-
-      // Updating order payment info
-
-      // Get current order to preserve existing note
-      const currentOrder = await this.getOrderById(orderId);
-      const existingNote = currentOrder.note || '';
-      
-      // Create payment info note
-      const paymentInfo = `[PAYMENT] ${paymentMethod}:${paymentId}:${paymentStatus}`;
-      
-      // Remove any existing payment info and add new one
-      const cleanNote = existingNote.replace(/\[PAYMENT\][^\n]*\n?/g, '');
-      const newNote = `${paymentInfo}\n${cleanNote}`.trim();
-
-      await apiClient.odooExecute(
-        ODOO_CONFIG.MODELS.SALE_ORDER,
-        'write',
-        [[parseInt(orderId.toString())], { note: newNote }]
-      );
-
-      // Payment info updated
+      const { paid } = await proxyClient.call('orders/pay-with-wallet', {
+        orderId: parseInt(orderId.toString()),
+        amount,
+      });
+      return paid;
     } catch (error) {
       throw error;
     }
@@ -1101,15 +1238,16 @@ class OrderService {
   /**
    * Get payment info from order
    */
-  getPaymentInfoFromOrder(order: Order): {
-    paymentId?: string;
-    paymentMethod?: string;
-    paymentStatus?: string;
-  } {
+  getPaymentInfoFromOrder(order: Order): OrderPaymentInfo {
+    if (order.payment_info?.paymentId) {
+      return order.payment_info;
+    }
+
     if (!order.note) {
       return {};
     }
 
+    // Orders created before the payment fields kept a [PAYMENT] line in the note
     const paymentMatch = order.note.match(/\[PAYMENT\]\s*([^:]+):([^:]+):([^\n]+)/);
     if (paymentMatch) {
       return {
@@ -1140,12 +1278,12 @@ class OrderService {
   }
 
   /**
-   * Get orders with pending payments
+   * Get a customer's orders with pending payments
    */
-  async getOrdersWithPendingPayments(): Promise<Order[]> {
+  async getOrdersWithPendingPayments(partnerId: number): Promise<Order[]> {
     try {
-      // Get recent orders
-      const orders = await this.getOrders({ limit: 100 });
+      // Get the customer's recent orders
+      const orders = await this.getOrders({ partner_id: partnerId, limit: 100 });
       
       // Filter orders with pending payments
       const pendingPaymentOrders = orders.filter(order => {
@@ -1154,7 +1292,7 @@ class OrderService {
                paymentInfo.paymentStatus !== 'COMPLETED' && 
                paymentInfo.paymentStatus !== 'SUCCEEDED' &&
                paymentInfo.paymentStatus !== 'PAID' &&
-               (order.state === 'waiting_payment' || order.note?.includes('[WAITING_PAYMENT]'));
+               order.state === 'waiting_payment';
       });
 
       return pendingPaymentOrders;
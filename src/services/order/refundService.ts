@@ -0,0 +1,262 @@
+/**
+ * Refund Service
+ * Returns and refunds for paid orders. Every request is an x_pawsmart_return
+ * record in Odoo:
+ * - 'return': a delivered order sent back with photos and a reason. The order
+ *   moves to 'inspecting' until the admin approves or rejects the return in
+ *   Odoo (x_state and x_inspection_note); the order then becomes
+ *   'return_approved' or goes back to 'delivered'.
+ * - 'cancellation': a paid order cancelled before it shipped. It needs no
+ *   inspection and is approved right away.
+ * - 'late_payment': a payment that arrived after the order was closed. The
+ *   proxy holds it for the admin, who approves the refund.
+ *
+ * Approved returns are refunded with a Xendit refund for Xendit card and
+ * e-wallet payments, otherwise with a Flip disbursement to the bank account
+ * the customer entered. Whatever was paid from the PawSmart balance goes back to
+ * the wallet. The proxy creates the records, applies the admin's decision and
+ * issues the refunds; the app only requests them and reads them back.
+ */
+
+import apiClient from '../api/apiClient';
+import proxyClient from '../proxy/proxyClient';
+import orderService, { Order } from './orderService';
+import { assertOrderTransition } from './orderLifecycle';
+import paymentGatewayService, {
+  PaymentProvider,
+  RefundBankAccount,
+  RefundMethod,
+} from '../payment/paymentGatewayService';
+import { PaymentMethod, PaymentStatus } from '../payment/paymentGatewayConfig';
+import { WALLET_PAYMENT_PROVIDER } from '../wallet/walletService';
+
+export const RETURN_MODEL = 'x_pawsmart_return';
+
+const RETURN_FIELDS = [
+  'id', 'x_order_id', 'x_partner_id', 'x_type', 'x_state', 'x_reason', 'x_note', 'x_amount',
+  'x_refund_method', 'x_bank_code', 'x_account_number', 'x_account_name', 'x_refund_id',
+  'x_refund_provider', 'x_inspection_note', 'x_failure_reason', 'x_refunded_at', 'create_date',
+];
+
+export type ReturnType = 'cancellation' | 'return' | 'late_payment';
+
+// requested → approved | rejected (by the admin) → refunding → refunded | failed
+export type ReturnState = 'requested' | 'approved' | 'rejected' | 'refunding' | 'refunded' | 'failed';
+
+export const RETURN_STATE_LABELS: Record<ReturnState, string> = {
+  requested: 'Menunggu Pemeriksaan',
+  approved: 'Pengembalian Disetujui',
+  rejected: 'Pengembalian Ditolak',
+  refunding: 'Dana Sedang Dikembalikan',
+  refunded: 'Dana Dikembalikan',
+  failed: 'Pengembalian Dana Gagal',
+};
+
+export type RefundErrorCode = 'NOT_PAID' | 'ALREADY_REQUESTED' | 'BANK_ACCOUNT_REQUIRED' | 'PHOTOS_REQUIRED';
+
+export class RefundError extends Error {
+  constructor(
+    public code: RefundErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'RefundError';
+  }
+}
+
+export interface ReturnPhoto {
+  base64: string; // JPEG from expo-image-picker
+}
+
+export interface ReturnRequest {
+  reason: string;
+  note?: string;
+  photos: ReturnPhoto[];
+  bankAccount?: RefundBankAccount; // Required when the refund is a bank transfer
+}
+
+export interface CancellationRequest {
+  reason: string;
+  note?: string;
+  bankAccount?: RefundBankAccount;
+}
+
+export interface OrderReturn {
+  id: number;
+  orderId: number;
+  partnerId: number;
+  type: ReturnType;
+  state: ReturnState;
+  reason: string;
+  note?: string;
+  amount: number;
+  refundMethod: RefundMethod;
+  bankAccount?: RefundBankAccount;
+  refundId?: string;
+  refundProvider?: PaymentProvider;
+  inspectionNote?: string;
+  failureReason?: string;
+  refundedAt?: string; // ISO 8601
+  createdAt: string; // ISO 8601
+}
+
+// Orders need this many photos of the goods before a return can be requested
+export const MIN_RETURN_PHOTOS = 1;
+
+// Odoo datetimes are UTC 'YYYY-MM-DD HH:MM:SS'
+const fromOdooDate = (value: string) => new Date(`${value.replace(' ', 'T')}Z`).toISOString();
+
+class RefundService {
+  /**
+   * How the order's payment would be refunded, or null when it was not paid
+   */
+  getRefundMethod(order: Order): RefundMethod | null {
+    const paymentInfo = order.payment_info;
+    if (!paymentInfo?.paymentId || paymentInfo.paymentStatus !== PaymentStatus.PAID) {
+      return null;
+    }
+    if (paymentInfo.paymentProvider === WALLET_PAYMENT_PROVIDER) {
+      return 'wallet';
+    }
+
+    return paymentGatewayService.getRefundMethod(
+      (paymentInfo.paymentProvider as PaymentProvider) || 'FLIP',
+      paymentInfo.paymentMethod as PaymentMethod
+    );
+  }
+
+  /**
+   * Whether the customer has to enter a bank account for the refund
+   */
+  needsBankAccount(order: Order): boolean {
+    return this.getRefundMethod(order) === 'bank_transfer';
+  }
+
+  /**
+   * Send a delivered order back. The order waits in 'inspecting' until the
+   * admin has checked the goods.
+   */
+  async requestReturn(orderId: string | number, request: ReturnRequest): Promise<OrderReturn> {
+    try {
+      const order = await orderService.getOrderById(orderId);
+      const refundMethod = this.getRefundMethod(order);
+
+      if (!refundMethod) {
+        throw new RefundError('NOT_PAID', 'Pesanan ini belum dibayar sehingga tidak dapat dikembalikan.');
+      }
+      if (request.photos.length < MIN_RETURN_PHOTOS) {
+        throw new RefundError('PHOTOS_REQUIRED', 'Tambahkan foto barang yang akan dikembalikan.');
+      }
+      this.assertBankAccount(refundMethod, request.bankAccount);
+
+      assertOrderTransition(order.state, 'inspecting');
+
+      const { returnId } = await proxyClient.call('orders/return', {
+        orderId: parseInt(order.id.toString()),
+        reason: request.reason,
+        note: request.note,
+        photos: request.photos.map(photo => photo.base64),
+        bankAccount: request.bankAccount,
+      });
+
+      return await this.getReturn(returnId);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel an order, refunding it when it was already paid.
+   * Returns the refund record, or null when there was nothing to refund.
+   */
+  async cancelOrder(orderId: string | number, request: CancellationRequest): Promise<OrderReturn | null> {
+    try {
+      const order = await orderService.getOrderById(orderId);
+      const refundMethod = this.getRefundMethod(order);
+
+      if (refundMethod) {
+        this.assertBankAccount(refundMethod, request.bankAccount);
+      }
+
+      const { returnId } = await proxyClient.call('orders/cancel', {
+        orderId: parseInt(order.id.toString()),
+        reason: request.reason,
+        note: request.note,
+        bankAccount: request.bankAccount,
+      });
+
+      return returnId ? await this.getReturn(returnId) : null;
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Latest return or refund of an order
+   */
+  async getReturnForOrder(orderId: string | number): Promise<OrderReturn | null> {
+    try {
+      const records = await apiClient.odooExecute(
+        RETURN_MODEL,
+        'search_read',
+        [],
+        {
+          domain: [['x_order_id', '=', parseInt(orderId.toString())]],
+          fields: RETURN_FIELDS,
+          order: 'id desc',
+          limit: 1,
+        }
+      );
+
+      return records && records.length > 0 ? this.transformReturn(records[0]) : null;
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  private async getReturn(returnId: number): Promise<OrderReturn> {
+    const records = await apiClient.odooExecute(RETURN_MODEL, 'read', [[returnId]], { fields: RETURN_FIELDS });
+    if (!records || records.length === 0) {
+      throw new Error('Return not found');
+    }
+    return this.transformReturn(records[0]);
+  }
+
+  private assertBankAccount(refundMethod: RefundMethod, bankAccount?: RefundBankAccount): void {
+    if (
+      refundMethod === 'bank_transfer' &&
+      (!bankAccount?.bankCode || !bankAccount.accountNumber || !bankAccount.accountName)
+    ) {
+      throw new RefundError('BANK_ACCOUNT_REQUIRED', 'Lengkapi rekening bank untuk pengembalian dana.');
+    }
+  }
+
+  private transformReturn(record: any): OrderReturn {
+    return {
+      id: record.id,
+      orderId: Array.isArray(record.x_order_id) ? record.x_order_id[0] : record.x_order_id,
+      partnerId: Array.isArray(record.x_partner_id) ? record.x_partner_id[0] : record.x_partner_id,
+      type: record.x_type,
+      state: record.x_state,
+      reason: record.x_reason || '',
+      note: record.x_note || undefined,
+      amount: record.x_amount || 0,
+      refundMethod: record.x_refund_method,
+      bankAccount: record.x_account_number
+        ? {
+            bankCode: record.x_bank_code || '',
+            accountNumber: record.x_account_number,
+            accountName: record.x_account_name || '',
+          }
+        : undefined,
+      refundId: record.x_refund_id || undefined,
+      refundProvider: record.x_refund_provider || undefined,
+      inspectionNote: record.x_inspection_note || undefined,
+      failureReason: record.x_failure_reason || undefined,
+      refundedAt: record.x_refunded_at ? fromOdooDate(record.x_refunded_at) : undefined,
+      createdAt: record.create_date ? fromOdooDate(record.create_date) : new Date().toISOString(),
+    };
+  }
+}
+
+export default new RefundService();
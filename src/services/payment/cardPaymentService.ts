@@ -0,0 +1,394 @@
+/**
+ * Card Payment Service
+ * Credit and debit card payments through Xendit with 3-D Secure:
+ * 1. The card is tokenized on the device with Xendit's public key, so card
+ *    numbers never reach Odoo or the proxy.
+ * 2. When the issuer asks for it, the customer completes the 3-D Secure
+ *    challenge in a WebView (CardAuthenticationModal).
+ * 3. The proxy charges the authenticated token and settles the order, like
+ *    every other payment method; the payment status engine follows it.
+ *
+ * Saved cards are multi-use Xendit tokens kept in Odoo as x_pawsmart_saved_card
+ * records with only the masked number and card details. Every charge on a
+ * saved card goes through 3-D Secure again.
+ */
+
+import apiClient from '../api/apiClient';
+import paymentGatewayService, { UnifiedPaymentResponse } from './paymentGatewayService';
+import paymentStatusEngine, { TrackedPaymentStatus } from './paymentStatusEngine';
+import xenditPaymentGateway, { CardAuthenticationStatus, CardDetails } from './xenditPaymentGateway';
+
+export const SAVED_CARD_MODEL = 'x_pawsmart_saved_card';
+
+const SAVED_CARD_FIELDS = [
+  'id', 'x_partner_id', 'x_token_id', 'x_masked_number', 'x_brand', 'x_card_type',
+  'x_bank', 'x_exp_month', 'x_exp_year', 'x_is_default',
+];
+
+export type CardBrand = 'VISA' | 'MASTERCARD' | 'JCB' | 'AMEX' | 'UNKNOWN';
+
+export type CardPaymentErrorCode = 'INVALID_CARD' | 'AUTHENTICATION_FAILED' | 'CHARGE_FAILED';
+
+export class CardPaymentError extends Error {
+  constructor(
+    public code: CardPaymentErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'CardPaymentError';
+  }
+}
+
+export interface SavedCard {
+  id: number;
+  tokenId: string;
+  maskedNumber: string;
+  brand: CardBrand;
+  cardType?: 'CREDIT' | 'DEBIT';
+  bank?: string;
+  expMonth: string;
+  expYear: string;
+  isDefault: boolean;
+  isExpired: boolean;
+}
+
+// A card that is ready to charge once its 3-D Secure status is VERIFIED
+export interface CardAuthentication {
+  tokenId: string;
+  authenticationId: string;
+  status: CardAuthenticationStatus;
+  authenticationUrl?: string; // Challenge page to show while IN_REVIEW
+  maskedNumber: string;
+  brand: CardBrand;
+  cardType?: 'CREDIT' | 'DEBIT';
+  bank?: string;
+  expMonth: string;
+  expYear: string;
+  saveCard: boolean; // Save to the customer's cards after a successful charge
+}
+
+export interface CardPaymentResult {
+  payment: UnifiedPaymentResponse;
+  status: TrackedPaymentStatus;
+}
+
+// Xendit failure reasons shown to the customer
+const FAILURE_MESSAGES: Record<string, string> = {
+  CARD_DECLINED: 'Kartu ditolak oleh bank penerbit.',
+  EXPIRED_CARD: 'Kartu sudah kedaluwarsa.',
+  INSUFFICIENT_BALANCE: 'Saldo atau limit kartu tidak mencukupi.',
+  STOLEN_CARD: 'Kartu tidak dapat digunakan. Silakan hubungi bank penerbit.',
+  INACTIVE_CARD: 'Kartu belum aktif untuk transaksi online.',
+  INVALID_CVN: 'CVV tidak sesuai.',
+  AUTHENTICATION_FAILED: 'Verifikasi 3-D Secure gagal.',
+  PROCESSOR_ERROR: 'Bank sedang tidak dapat memproses transaksi. Silakan coba lagi.',
+};
+
+const getFailureMessage = (reason?: string) =>
+  (reason && FAILURE_MESSAGES[reason]) || 'Pembayaran kartu gagal. Silakan coba kartu lain.';
+
+class CardPaymentService {
+  /**
+   * Card brand from the number prefix
+   */
+  getBrand(cardNumber: string): CardBrand {
+    const digits = cardNumber.replace(/\D/g, '');
+    if (/^4/.test(digits)) return 'VISA';
+    if (/^(5[1-5]|2[2-7])/.test(digits)) return 'MASTERCARD';
+    if (/^35/.test(digits)) return 'JCB';
+    if (/^3[47]/.test(digits)) return 'AMEX';
+    return 'UNKNOWN';
+  }
+
+  /**
+   * Check card details before they are sent to Xendit.
+   * Returns a message for the customer, or null when the card looks valid.
+   */
+  validateCard(card: CardDetails): string | null {
+    const digits = card.number.replace(/\D/g, '');
+    if (digits.length < 13 || digits.length > 19 || !this.passesLuhn(digits)) {
+      return 'Nomor kartu tidak valid.';
+    }
+
+    const month = parseInt(card.expMonth, 10);
+    const year = parseInt(card.expYear, 10);
+    if (!month || month < 1 || month > 12 || !year) {
+      return 'Masa berlaku kartu tidak valid.';
+    }
+    if (this.isExpired(card.expMonth, card.expYear)) {
+      return 'Kartu sudah kedaluwarsa.';
+    }
+
+    const cvnLength = this.getBrand(digits) === 'AMEX' ? 4 : 3;
+    if (!new RegExp(`^\\d{${cvnLength}}$`).test(card.cvn)) {
+      return 'CVV tidak valid.';
+    }
+
+    return null;
+  }
+
+  /**
+   * Card fee for display, from the Xendit fee table
+   */
+  getFee(amount: number): number {
+    return xenditPaymentGateway.calculateFee(amount, 'CARDS');
+  }
+
+  /**
+   * Tokenize a new card and start 3-D Secure for the amount.
+   * A card the customer wants to keep becomes a multi-use token.
+   */
+  async authenticateNewCard(card: CardDetails, amount: number, saveCard: boolean): Promise<CardAuthentication> {
+    const invalid = this.validateCard(card);
+    if (invalid) {
+      throw new CardPaymentError('INVALID_CARD', invalid);
+    }
+
+    const token = await xenditPaymentGateway.tokenizeCard(card, { isSingleUse: !saveCard, amount });
+    if (token.status === 'FAILED') {
+      throw new CardPaymentError('INVALID_CARD', getFailureMessage(token.failure_reason));
+    }
+
+    const details = {
+      tokenId: token.id,
+      maskedNumber: token.masked_card_number,
+      brand: this.getBrand(card.number),
+      cardType: token.card_info?.type,
+      bank: token.card_info?.bank,
+      expMonth: card.expMonth,
+      expYear: card.expYear,
+      saveCard,
+    };
+
+    if (!saveCard) {
+      return {
+        ...details,
+        authenticationId: token.authentication_id || token.id,
+        status: token.status,
+        authenticationUrl: token.payer_authentication_url,
+      };
+    }
+
+    const authentication = await xenditPaymentGateway.createCardAuthentication(token.id, amount, card.cvn);
+    if (authentication.status === 'FAILED') {
+      throw new CardPaymentError('AUTHENTICATION_FAILED', getFailureMessage(authentication.failure_reason));
+    }
+
+    return {
+      ...details,
+      authenticationId: authentication.id,
+      status: authentication.status,
+      authenticationUrl: authentication.payer_authentication_url,
+    };
+  }
+
+  /**
+   * Start 3-D Secure on a saved card for the amount
+   */
+  async authenticateSavedCard(card: SavedCard, amount: number, cvn: string): Promise<CardAuthentication> {
+    if (card.isExpired) {
+      throw new CardPaymentError('INVALID_CARD', 'Kartu sudah kedaluwarsa. Silakan gunakan kartu lain.');
+    }
+
+    const authentication = await xenditPaymentGateway.createCardAuthentication(card.tokenId, amount, cvn);
+    if (authentication.status === 'FAILED') {
+      throw new CardPaymentError('AUTHENTICATION_FAILED', getFailureMessage(authentication.failure_reason));
+    }
+
+    return {
+      tokenId: card.tokenId,
+      authenticationId: authentication.id,
+      status: authentication.status,
+      authenticationUrl: authentication.payer_authentication_url,
+      maskedNumber: card.maskedNumber,
+      brand: card.brand,
+      cardType: card.cardType,
+      bank: card.bank,
+      expMonth: card.expMonth,
+      expYear: card.expYear,
+      saveCard: false,
+    };
+  }
+
+  /**
+   * Read the 3-D Secure result the challenge page posts when it finishes
+   */
+  parseAuthenticationMessage(data: string): CardAuthenticationStatus | null {
+    try {
+      const message = typeof data === 'string' ? JSON.parse(data) : data;
+      const status = (message?.status || '').toUpperCase();
+      return status === 'VERIFIED' || status === 'FAILED' ? status : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Charge an authenticated card for an order.
+   * The proxy settles the order once the charge is captured and records a
+   * declined charge on the order, which is then thrown.
+   */
+  async chargeOrder(
+    partnerId: number,
+    orderId: string | number,
+    authentication: CardAuthentication,
+    amount: number,
+    description?: string
+  ): Promise<CardPaymentResult> {
+    if (authentication.status !== 'VERIFIED') {
+      throw new CardPaymentError('AUTHENTICATION_FAILED', getFailureMessage('AUTHENTICATION_FAILED'));
+    }
+
+    const payment = await paymentGatewayService.chargeCard({
+      orderId: orderId.toString(),
+      tokenId: authentication.tokenId,
+      authenticationId: authentication.authenticationId,
+      amount,
+      description,
+    });
+
+    if (payment.status === 'FAILED') {
+      throw new CardPaymentError('CHARGE_FAILED', getFailureMessage(payment.paymentData?.failure_reason));
+    }
+
+    await paymentStatusEngine.track({
+      paymentId: payment.paymentId,
+      orderId,
+      provider: payment.provider,
+      paymentMethod: 'CARDS',
+    });
+    const status = await paymentStatusEngine.checkNow(payment.paymentId);
+
+    if (authentication.saveCard) {
+      try {
+        await this.saveCard(partnerId, authentication);
+      } catch (error) {
+        // The payment went through; the card can be added again next time
+      }
+    }
+
+    return { payment, status };
+  }
+
+  /**
+   * Cards saved by a customer, default first
+   */
+  async getSavedCards(partnerId: number): Promise<SavedCard[]> {
+    try {
+      const records = await apiClient.odooExecute(
+        SAVED_CARD_MODEL,
+        'search_read',
+        [],
+        {
+          domain: [['x_partner_id', '=', partnerId]],
+          fields: SAVED_CARD_FIELDS,
+          order: 'x_is_default desc, id desc',
+        }
+      );
+
+      return (records || []).map((record: any) => this.transformSavedCard(record));
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Make a saved card the one preselected at checkout
+   */
+  async setDefaultCard(partnerId: number, cardId: number): Promise<void> {
+    try {
+      const cards = await this.getSavedCards(partnerId);
+      const otherIds = cards.filter(card => card.isDefault && card.id !== cardId).map(card => card.id);
+
+      if (otherIds.length > 0) {
+        await apiClient.odooExecute(SAVED_CARD_MODEL, 'write', [otherIds, { x_is_default: false }]);
+      }
+      await apiClient.odooExecute(SAVED_CARD_MODEL, 'write', [[cardId], { x_is_default: true }]);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a saved card
+   */
+  async deleteSavedCard(cardId: number): Promise<void> {
+    try {
+      await apiClient.odooExecute(SAVED_CARD_MODEL, 'unlink', [[cardId]]);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  // The same card added again replaces its old token
+  private async saveCard(partnerId: number, authentication: CardAuthentication): Promise<void> {
+    const cards = await this.getSavedCards(partnerId);
+    const existing = cards.find(card =>
+      card.maskedNumber === authentication.maskedNumber &&
+      card.expMonth === authentication.expMonth &&
+      card.expYear === authentication.expYear
+    );
+
+    const values = {
+      x_token_id: authentication.tokenId,
+      x_masked_number: authentication.maskedNumber,
+      x_brand: authentication.brand,
+      x_card_type: authentication.cardType || false,
+      x_bank: authentication.bank || false,
+      x_exp_month: authentication.expMonth,
+      x_exp_year: authentication.expYear,
+    };
+
+    if (existing) {
+      await apiClient.odooExecute(SAVED_CARD_MODEL, 'write', [[existing.id], values]);
+      return;
+    }
+
+    await apiClient.odooExecute(SAVED_CARD_MODEL, 'create', [{
+      ...values,
+      x_name: authentication.maskedNumber,
+      x_partner_id: partnerId,
+      x_is_default: cards.length === 0,
+    }]);
+  }
+
+  private transformSavedCard(record: any): SavedCard {
+    return {
+      id: record.id,
+      tokenId: record.x_token_id,
+      maskedNumber: record.x_masked_number,
+      brand: record.x_brand || 'UNKNOWN',
+      cardType: record.x_card_type || undefined,
+      bank: record.x_bank || undefined,
+      expMonth: record.x_exp_month,
+      expYear: record.x_exp_year,
+      isDefault: !!record.x_is_default,
+      isExpired: this.isExpired(record.x_exp_month, record.x_exp_year),
+    };
+  }
+
+  // A card is valid through the last day of its expiry month
+  private isExpired(expMonth: string, expYear: string): boolean {
+    const month = parseInt(expMonth, 10);
+    const year = parseInt(expYear, 10);
+    if (!month || !year) {
+      return true;
+    }
+    return new Date() >= new Date(year, month, 1);
+  }
+
+  private passesLuhn(digits: string): boolean {
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+      let digit = parseInt(digits[digits.length - 1 - i], 10);
+      if (i % 2 === 1) {
+        digit *= 2;
+        if (digit > 9) digit -= 9;
+      }
+      sum += digit;
+    }
+    return sum % 10 === 0;
+  }
+}
+
+export default new CardPaymentService();
@@ -4,34 +4,16 @@
  * Can be easily extended to other providers (Midtrans, Doku, etc.)
  */
 import config from '../../config/environment';
+import { PAYMENT_FEES } from '../proxy/proxyRoutes';
 
 export const PAYMENT_GATEWAY_CONFIG = {
-  // Single provider configuration (Flip only)
-  PRIMARY_PROVIDER: config.PAYMENT_GATEWAYS.PRIMARY_PROVIDER,
-  FALLBACK_PROVIDER: config.PAYMENT_GATEWAYS.FALLBACK_PROVIDER, // null for Flip-only
-
-  // Flip Configuration
-  FLIP: {
-    SECRET_KEY: config.PAYMENT_GATEWAYS.FLIP.SECRET_KEY,
-    VALIDATION_KEY: config.PAYMENT_GATEWAYS.FLIP.VALIDATION_KEY,
-    BASE_URL: config.PAYMENT_GATEWAYS.FLIP.BASE_URL,
-    WEBHOOK_URL: config.PAYMENT_GATEWAYS.FLIP.WEBHOOK_URL,
-  },
-
-  // Xendit Configuration (Fallback)
+  // Provider order, retries and the provider secrets live on the proxy
+  // (payments/create); the app only tokenizes cards with the Xendit public key
   XENDIT: {
-    SECRET_KEY: config.PAYMENT_GATEWAYS.XENDIT.SECRET_KEY,
     PUBLIC_KEY: config.PAYMENT_GATEWAYS.XENDIT.PUBLIC_KEY,
     BASE_URL: config.PAYMENT_GATEWAYS.XENDIT.BASE_URL,
-    WEBHOOK_URL: config.PAYMENT_GATEWAYS.XENDIT.WEBHOOK_URL,
-    WEBHOOK_TOKEN: config.PAYMENT_GATEWAYS.XENDIT.WEBHOOK_TOKEN,
   },
 
-  // Legacy support (will be removed)
-  SECRET_KEY: config.PAYMENT_GATEWAYS.XENDIT.SECRET_KEY,
-  PUBLIC_KEY: config.PAYMENT_GATEWAYS.XENDIT.PUBLIC_KEY,
-  BASE_URL: config.PAYMENT_GATEWAYS.XENDIT.BASE_URL,
-  
   // Payment Methods Configuration
   PAYMENT_METHODS: {
     QRIS: {
@@ -55,58 +37,8 @@ export const PAYMENT_GATEWAY_CONFIG = {
     },
   },
   
-  // Callback URLs (update with your server endpoints)
-  CALLBACKS: {
-    SUCCESS_REDIRECT_URL: 'https://yourapp.com/payment/success',
-    FAILURE_REDIRECT_URL: 'https://yourapp.com/payment/failure',
-    FLIP_WEBHOOK_URL: config.PAYMENT_GATEWAYS.FLIP.WEBHOOK_URL,
-    XENDIT_WEBHOOK_URL: config.PAYMENT_GATEWAYS.XENDIT.WEBHOOK_URL,
-    XENDIT_WEBHOOK_TOKEN: config.PAYMENT_GATEWAYS.XENDIT.WEBHOOK_TOKEN,
-  },
-  
-  // Fee Structure by Provider (for display purposes)
-  FEES: {
-    FLIP: {
-      QRIS: {
-        percentage: 0.7, // 0.7% (standard QRIS fee)
-        fixed: 0,
-      },
-      VIRTUAL_ACCOUNT: {
-        percentage: 0, // No percentage fee
-        fixed: 4000, // Rp 4,000 per transaction
-      },
-      EWALLET: {
-        percentage: 0.7, // 0.7% (same as QRIS for e-wallet)
-        fixed: 0,
-      },
-      PAYMENT_LINK: {
-        percentage: 0.3, // 0.3%
-        fixed: 0,
-      },
-      BANK_TRANSFER: {
-        percentage: 0,
-        fixed: 2500, // Rp 2,500
-      },
-    },
-    XENDIT: {
-      QRIS: {
-        percentage: 0.7, // 0.7%
-        fixed: 0,
-      },
-      EWALLET: {
-        percentage: 2, // 2%
-        fixed: 0,
-      },
-      VIRTUAL_ACCOUNT: {
-        percentage: 0,
-        fixed: 4000, // Rp 4,000
-      },
-      CARDS: {
-        percentage: 2.9, // 2.9%
-        fixed: 2000, // Rp 2,000
-      },
-    },
-  },
+  // Fee Structure by Provider (for display purposes), shared with the proxy
+  FEES: PAYMENT_FEES,
 };
 
 // Payment Status Enum
@@ -1,12 +1,14 @@
 /**
  * Payment Integration Service
- * Connects payment gateway with order management and polling
+ * Connects payment gateway with order management and the payment status engine
  */
 
-import paymentGatewayService from './paymentGatewayService';
-import paymentPollingService from './paymentPollingService';
+import paymentGatewayService, { PaymentProvider } from './paymentGatewayService';
+import paymentStatusEngine from './paymentStatusEngine';
+import xenditPaymentGateway from './xenditPaymentGateway';
 import orderService from '../order/orderService';
 import { PaymentMethod } from './paymentGatewayConfig';
+import { calculatePaymentFee } from '../proxy/proxyRoutes';
 
 interface PaymentSession {
   orderId: string;
@@ -63,14 +65,6 @@ class PaymentIntegrationService {
         throw new Error('Failed to create payment - no payment ID returned');
       }
 
-      // Store payment info in order
-      await orderService.updateOrderPaymentInfo(
-        orderData.orderId,
-        paymentId,
-        paymentMethod,
-        paymentResult.status || 'PENDING'
-      );
-
       // Create payment session
       const session: PaymentSession = {
         orderId: orderData.orderId,
@@ -83,12 +77,14 @@ class PaymentIntegrationService {
 
       this.activeSessions.set(paymentId, session);
 
-      // Start automatic polling
-      paymentPollingService.startPolling(
+      // Check the payment until it is paid or expires
+      await paymentStatusEngine.track({
         paymentId,
+        orderId: orderData.orderId,
+        provider: paymentResult.provider,
         paymentMethod,
-        orderData.orderId
-      );
+        expiresAt: paymentResult.expiresAt,
+      });
 
       // Return appropriate response based on payment method
       const response: any = {
@@ -146,18 +142,26 @@ class PaymentIntegrationService {
         };
       }
 
-      // Use polling service for manual check
-      const result = await paymentPollingService.manualPaymentCheck(
-        paymentInfo.paymentId,
-        paymentInfo.paymentMethod as PaymentMethod,
-        orderId
-      );
+      await paymentStatusEngine.track({
+        paymentId: paymentInfo.paymentId,
+        orderId,
+        provider: (paymentInfo.paymentProvider as PaymentProvider) || 'FLIP',
+        paymentMethod: paymentInfo.paymentMethod as PaymentMethod,
+      });
+      const status = await paymentStatusEngine.checkNow(paymentInfo.paymentId);
+
+      const messages: Record<typeof status, string> = {
+        PAID: 'Pembayaran berhasil! Status pesanan telah diperbarui.',
+        PENDING: 'Pembayaran belum diterima. Silakan selesaikan pembayaran.',
+        EXPIRED: 'Pembayaran gagal atau telah expired. Silakan buat pesanan baru.',
+        FAILED: 'Pembayaran gagal atau telah expired. Silakan buat pesanan baru.',
+      };
 
       return {
         success: true,
-        isPaid: result.isPaid,
-        status: result.status,
-        message: result.message,
+        isPaid: status === 'PAID',
+        status,
+        message: messages[status],
       };
 
     } catch (error: any) {
@@ -182,7 +186,7 @@ class PaymentIntegrationService {
    */
   removePaymentSession(paymentId: string): void {
     this.activeSessions.delete(paymentId);
-    paymentPollingService.stopPolling(paymentId);
+    paymentStatusEngine.untrack(paymentId);
   }
 
   /**
@@ -192,70 +196,14 @@ class PaymentIntegrationService {
     return Array.from(this.activeSessions.values());
   }
 
-  /**
-   * Resume monitoring for existing orders with pending payments
-   */
-  async resumePaymentMonitoring(): Promise<void> {
-    try {
-      const pendingOrders = await orderService.getOrdersWithPendingPayments();
-      let resumedCount = 0;
-
-      for (const order of pendingOrders) {
-        const paymentInfo = orderService.getPaymentInfoFromOrder(order);
-        
-        if (paymentInfo.paymentId && paymentInfo.paymentMethod) {
-          // Check if already polling
-          if (!paymentPollingService.isPolling(paymentInfo.paymentId)) {
-            // Create session
-            const session: PaymentSession = {
-              orderId: order.id.toString(),
-              paymentId: paymentInfo.paymentId,
-              paymentMethod: paymentInfo.paymentMethod as PaymentMethod,
-              amount: order.amount_total,
-              paymentData: null,
-              startTime: Date.now(),
-            };
-
-            this.activeSessions.set(paymentInfo.paymentId, session);
-
-            // Start polling
-            paymentPollingService.startPolling(
-              paymentInfo.paymentId,
-              paymentInfo.paymentMethod as PaymentMethod,
-              order.id.toString()
-            );
-
-            resumedCount++;
-          }
-        }
-      }
-
-      } catch (error) {
-      }
-  }
-
-  /**
-   * Stop all payment monitoring
-   */
-  stopAllPaymentMonitoring(): void {
-    paymentPollingService.stopAllPolling();
-    this.activeSessions.clear();
-    
-    }
-
   /**
    * Get payment fee for display
    */
   calculatePaymentFee(amount: number, paymentMethod: PaymentMethod): number {
-    // Since we're using Flip, calculate fees based on Flip pricing
-    switch (paymentMethod) {
-      case 'QRIS':
-      case 'EWALLET':
-      case 'VIRTUAL_ACCOUNT':
-        return Math.round(amount * 0.003); // 0.3% for Flip
-      default:
-        return 0;
-    }
+    // Flip is the primary provider; cards go through Xendit
+    return paymentMethod === 'CARDS'
+      ? xenditPaymentGateway.calculateFee(amount, 'CARDS')
+      : calculatePaymentFee('FLIP', paymentMethod, amount);
   }
 
   /**
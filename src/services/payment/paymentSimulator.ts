@@ -8,7 +8,9 @@ import orderService from '../order/orderService';
 
 class PaymentSimulator {
   /**
-   * Simulate VA payment using official Xendit API
+   * Pay an order's test payment at the provider (sandbox only). The proxy
+   * confirms the order once the provider reports the payment, just like a
+   * real one; the app never marks an order paid itself.
    */
   async simulateVirtualAccountPayment(orderId: string): Promise<{
     success: boolean;
@@ -16,108 +18,26 @@ class PaymentSimulator {
     simulationData?: any;
   }> {
     try {
-      // Simulating VA payment
-      
-      // Get order details
       const order = await orderService.getOrderById(orderId);
       const paymentInfo = orderService.getPaymentInfoFromOrder(order);
-      
+
       if (!paymentInfo.paymentId) {
-        // Look for payment info in note or create simulation for existing VA
-        const vaMatch = order.note?.match(/va_\d+_\d+/);
-        if (!vaMatch) {
-          // Try to find VA ID in order note or external_id pattern
-          // Checking for VA patterns in order
-          
-          // Look for external_id pattern (va_orderId_timestamp)
-          const externalIdMatch = order.note?.match(/va_(\d+)_(\d+)/);
-          if (externalIdMatch) {
-            // Found VA external_id pattern
-            
-            // Try to find this VA in Xendit and simulate payment
-            try {
-              // Note: We would need a method to get VA by external_id, but for now use direct fallback
-              // Using direct payment completion for reliability
-            } catch (apiError: any) {
-              // Could not find VA by external_id
-            }
-          }
-          
-          // Alternative: Look for Xendit VA ID in logs/note (UUID pattern)
-          const uuidMatch = order.note?.match(/([a-f0-9]{8}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{12})/i);
-          if (uuidMatch) {
-            // Found potential Xendit VA ID
-            try {
-              const simulationResult = await paymentGatewayService.simulateVAPayment(
-                uuidMatch[1], 
-                order.amount_total
-              );
-              
-              await orderService.updateOrderStatus(orderId, 'payment_confirmed');
-              
-              return {
-                success: true,
-                message: `✅ VA Payment simulated via Xendit API for order ${order.name}!`,
-                simulationData: simulationResult,
-              };
-              
-            } catch (apiError: any) {
-              // Xendit API simulation failed
-            }
-          }
-          
-          // Fallback: Direct payment completion
-          // Using direct payment completion fallback
-          await orderService.updateOrderStatus(orderId, 'payment_confirmed');
-          
-          return {
-            success: true,
-            message: `✅ Payment completed for order ${order.name}! Status updated to payment confirmed.`,
-          };
-        }
-      }
-      
-      // Use the payment ID from order or find the latest VA for this order
-      let vaId = paymentInfo.paymentId;
-      
-      // If no payment ID, we'll simulate directly with order status update
-      if (!vaId) {
-        // No Xendit payment ID found, using direct completion
-        
-        // Simulate payment completion directly
-        await orderService.updateOrderStatus(orderId, 'payment_confirmed');
-        
-        return {
-          success: true,
-          message: `✅ Payment simulated successfully for order ${order.name}! Order status updated to payment confirmed.`,
-        };
-      }
-      
-      // Try to simulate using Xendit API
-      try {
-        const simulationResult = await paymentGatewayService.simulateVAPayment(vaId, order.amount_total);
-        
-        // Update order status after successful simulation
-        await orderService.updateOrderStatus(orderId, 'payment_confirmed');
-        
         return {
-          success: true,
-          message: `✅ VA Payment simulated via Xendit API! Order ${order.name} marked as paid.`,
-          simulationData: simulationResult,
-        };
-        
-      } catch (apiError: any) {
-        // Xendit API failed, using direct method
-        
-        // Fallback to direct status update
-        await orderService.updateOrderStatus(orderId, 'payment_confirmed');
-        
-        return {
-          success: true,
-          message: `✅ Payment completed (fallback method) for order ${order.name}! Status updated to payment confirmed.`,
+          success: false,
+          message: `❌ Order ${order.name} has no payment to simulate`,
         };
       }
-      
+
+      await paymentGatewayService.simulatePayment(paymentInfo.paymentId);
+      const status = await paymentGatewayService.getPaymentStatus(paymentInfo.paymentId);
+
+      return {
+        success: true,
+        message: status.isPaid
+          ? `✅ Payment simulated for order ${order.name}! Order marked as paid.`
+          : `✅ Payment simulated for order ${order.name}. Waiting for the provider to confirm it.`,
+        simulationData: status.paymentData,
+      };
     } catch (error: any) {
       return {
         success: false,
@@ -125,7 +45,7 @@ class PaymentSimulator {
       };
     }
   }
-  
+
   /**
    * Simulate payment for any order by order number
    */
@@ -0,0 +1,406 @@
+/**
+ * Payment Status Engine
+ * The single place the app checks gateway payments for completion.
+ * - Pending payments are kept in AsyncStorage and picked up again after a
+ *   restart, together with the signed-in customer's unpaid orders in Odoo.
+ *   Logging out forgets them.
+ * - Checks back off from a short first delay to a per-method ceiling and stop
+ *   once the payment's expiry (PAYMENT_GATEWAY_CONFIG.PAYMENT_METHODS) has passed.
+ * - One timer serves every payment and is paused while the app is in the background.
+ * - Status changes are emitted as typed events screens can subscribe to.
+ *
+ * Each check goes through the proxy's payments/status, which applies a final
+ * status itself: a paid order is confirmed once and its courier booked, an
+ * expired one is cancelled, and a wallet top-up is credited or dropped. The
+ * engine only follows the payments and tells the screens. The proxy's
+ * scheduler also expires unpaid orders and sends the WhatsApp expiry reminder,
+ * so neither depends on the app being open. Expired orders can be paid again
+ * with a new payment from OrderDetailScreen.
+ */
+
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import config from '../../config/environment';
+import orderService from '../order/orderService';
+import paymentGatewayService, { PaymentProvider } from './paymentGatewayService';
+import { PAYMENT_GATEWAY_CONFIG, PaymentMethod } from './paymentGatewayConfig';
+
+export type TrackedPaymentStatus = 'PENDING' | 'PAID' | 'EXPIRED' | 'FAILED';
+
+export interface TrackPaymentInput {
+  paymentId: string;
+  orderId: string | number;
+  provider: PaymentProvider;
+  paymentMethod: PaymentMethod;
+  expiresAt?: string; // From UnifiedPaymentResponse when the provider returns one
+  walletTopUpId?: number; // Set for wallet top-ups; orderId then holds the top-up reference
+}
+
+export interface PaymentStatusEvent {
+  paymentId: string;
+  orderId: string;
+  provider: PaymentProvider;
+  paymentMethod: PaymentMethod;
+  status: TrackedPaymentStatus;
+  previousStatus: TrackedPaymentStatus;
+  checkedAt: string; // ISO 8601
+}
+
+export type PaymentStatusListener = (event: PaymentStatusEvent) => void;
+
+interface TrackedPayment {
+  paymentId: string;
+  orderId: string;
+  provider: PaymentProvider;
+  paymentMethod: PaymentMethod;
+  expiresAt: number;
+  nextCheckAt: number;
+  attempts: number;
+  status: TrackedPaymentStatus;
+  walletTopUpId?: number;
+}
+
+// First delay and ceiling between checks, per method
+const CHECK_DELAYS: Record<PaymentMethod, { first: number; max: number }> = {
+  QRIS: { first: 5 * 1000, max: 60 * 1000 },
+  EWALLET: { first: 5 * 1000, max: 60 * 1000 },
+  CARDS: { first: 5 * 1000, max: 60 * 1000 },
+  VIRTUAL_ACCOUNT: { first: 15 * 1000, max: 10 * 60 * 1000 },
+};
+
+const DEFAULT_EXPIRY_MINUTES = 30;
+
+// Keep checking a little past expiry in case the provider settles late
+const EXPIRY_GRACE_MS = 5 * 60 * 1000;
+
+// Odoo datetimes are UTC 'YYYY-MM-DD HH:MM:SS'
+const fromOdooDate = (value: string) => new Date(`${value.replace(' ', 'T')}Z`);
+
+const getExpiryMs = (paymentMethod: PaymentMethod): number => {
+  const settings = PAYMENT_GATEWAY_CONFIG.PAYMENT_METHODS[paymentMethod] as { expiryMinutes?: number } | undefined;
+  return (settings?.expiryMinutes || DEFAULT_EXPIRY_MINUTES) * 60 * 1000;
+};
+
+const PAID_STATUSES = ['PAID', 'SUCCEEDED', 'COMPLETED', 'SUCCESSFUL', 'CAPTURED'];
+const FAILED_STATUSES = ['FAILED', 'CANCELLED', 'VOIDED'];
+
+const toTrackedStatus = (result: { isPaid: boolean; status: string }): TrackedPaymentStatus => {
+  const status = (result.status || '').toUpperCase();
+  if (result.isPaid || PAID_STATUSES.includes(status)) {
+    return 'PAID';
+  }
+  if (status === 'EXPIRED') {
+    return 'EXPIRED';
+  }
+  if (FAILED_STATUSES.includes(status)) {
+    return 'FAILED';
+  }
+  return 'PENDING';
+};
+
+class PaymentStatusEngine {
+  private readonly STORAGE_KEY = config.STORAGE_KEYS.PENDING_PAYMENTS;
+
+  private payments = new Map<string, TrackedPayment>();
+  private listeners = new Set<PaymentStatusListener>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private started = false;
+  private partnerId: number | null = null;
+  private active = true;
+  private checking: Promise<void> | null = null;
+
+  /**
+   * Start checking for a signed-in customer: restore saved payments, adopt
+   * their unpaid orders from Odoo and follow the app's foreground/background state
+   */
+  async start(partnerId: number): Promise<void> {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    this.partnerId = partnerId;
+    this.active = AppState.currentState === 'active';
+
+    this.appStateSubscription = AppState.addEventListener('change', this.handleAppStateChange);
+
+    await this.restore();
+    await this.adoptPendingOrders();
+    this.schedule();
+  }
+
+  /**
+   * Stop all checks (e.g. when the app closes). Saved payments stay for the next start.
+   */
+  stop(): void {
+    this.started = false;
+    this.partnerId = null;
+    this.clearTimer();
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.payments.clear();
+  }
+
+  /**
+   * Stop all checks and forget the saved payments (on logout)
+   */
+  async clear(): Promise<void> {
+    this.stop();
+    await AsyncStorage.removeItem(this.STORAGE_KEY);
+  }
+
+  /**
+   * Start checking a newly created payment. Tracking the same payment again
+   * keeps its current schedule.
+   */
+  async track(input: TrackPaymentInput): Promise<void> {
+    if (this.payments.has(input.paymentId)) {
+      return;
+    }
+
+    const now = Date.now();
+    const expiresAt = input.expiresAt ? new Date(input.expiresAt).getTime() : NaN;
+
+    this.payments.set(input.paymentId, {
+      paymentId: input.paymentId,
+      orderId: input.orderId.toString(),
+      provider: input.provider,
+      paymentMethod: input.paymentMethod,
+      expiresAt: Number.isNaN(expiresAt) ? now + getExpiryMs(input.paymentMethod) : expiresAt,
+      nextCheckAt: now + CHECK_DELAYS[input.paymentMethod].first,
+      attempts: 0,
+      status: 'PENDING',
+      walletTopUpId: input.walletTopUpId,
+    });
+
+    await this.persist();
+    this.schedule();
+  }
+
+  /**
+   * Stop checking a payment (e.g. the customer picked another method)
+   */
+  async untrack(paymentId: string): Promise<void> {
+    if (this.payments.delete(paymentId)) {
+      await this.persist();
+      this.schedule();
+    }
+  }
+
+  /**
+   * Check a payment right away (for "Cek Status Pembayaran" buttons)
+   */
+  async checkNow(paymentId: string): Promise<TrackedPaymentStatus> {
+    const payment = this.payments.get(paymentId);
+    if (!payment) {
+      return 'PENDING';
+    }
+
+    const status = await this.checkPayment(payment);
+    await this.persist();
+    this.schedule();
+    return status;
+  }
+
+  /**
+   * Latest known status of a tracked payment
+   */
+  getStatus(paymentId: string): TrackedPaymentStatus | undefined {
+    return this.payments.get(paymentId)?.status;
+  }
+
+  /**
+   * Listen for status changes, optionally of one payment or order.
+   * Returns a function that removes the listener.
+   */
+  subscribe(
+    listener: PaymentStatusListener,
+    filter: { paymentId?: string; orderId?: string | number } = {}
+  ): () => void {
+    const wrapped: PaymentStatusListener = event => {
+      if (filter.paymentId && event.paymentId !== filter.paymentId) {
+        return;
+      }
+      if (filter.orderId !== undefined && event.orderId !== filter.orderId.toString()) {
+        return;
+      }
+      listener(event);
+    };
+
+    this.listeners.add(wrapped);
+    return () => {
+      this.listeners.delete(wrapped);
+    };
+  }
+
+  private handleAppStateChange = (state: AppStateStatus) => {
+    const active = state === 'active';
+    if (active === this.active) {
+      return;
+    }
+
+    this.active = active;
+
+    if (active) {
+      // Payments were likely completed in another app; check them all now
+      const now = Date.now();
+      this.payments.forEach(payment => {
+        payment.nextCheckAt = Math.min(payment.nextCheckAt, now);
+      });
+      this.schedule();
+    } else {
+      this.clearTimer();
+    }
+  };
+
+  private schedule(): void {
+    this.clearTimer();
+
+    if (!this.started || !this.active || this.checking || this.payments.size === 0) {
+      return;
+    }
+
+    const nextCheckAt = Math.min(...Array.from(this.payments.values(), payment => payment.nextCheckAt));
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.checking = this.runDueChecks().finally(() => {
+        this.checking = null;
+        this.schedule();
+      });
+    }, Math.max(0, nextCheckAt - Date.now()));
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async runDueChecks(): Promise<void> {
+    const now = Date.now();
+    const due = Array.from(this.payments.values()).filter(payment => payment.nextCheckAt <= now);
+
+    for (const payment of due) {
+      if (!this.active) {
+        break;
+      }
+      await this.checkPayment(payment);
+    }
+
+    await this.persist();
+  }
+
+  private async checkPayment(payment: TrackedPayment): Promise<TrackedPaymentStatus> {
+    let status: TrackedPaymentStatus = 'PENDING';
+
+    try {
+      const result = await paymentGatewayService.getPaymentStatus(payment.paymentId);
+      status = toTrackedStatus(result);
+    } catch (error) {
+      // Treated as still pending; the next check backs off further
+    }
+
+    if (status === 'PENDING' && Date.now() > payment.expiresAt + EXPIRY_GRACE_MS) {
+      status = 'EXPIRED';
+    }
+
+    if (status === 'PENDING') {
+      payment.attempts += 1;
+      const delays = CHECK_DELAYS[payment.paymentMethod];
+      const delay = Math.min(delays.first * Math.pow(2, payment.attempts), delays.max);
+      // Always look once more right after expiry
+      const beforeExpiry = payment.expiresAt > Date.now() ? payment.expiresAt + 1000 : Infinity;
+      payment.nextCheckAt = Math.min(Date.now() + delay, beforeExpiry);
+      return status;
+    }
+
+    this.payments.delete(payment.paymentId);
+    this.emit(payment, status);
+    return status;
+  }
+
+  private emit(payment: TrackedPayment, status: TrackedPaymentStatus): void {
+    const event: PaymentStatusEvent = {
+      paymentId: payment.paymentId,
+      orderId: payment.orderId,
+      provider: payment.provider,
+      paymentMethod: payment.paymentMethod,
+      status,
+      previousStatus: payment.status,
+      checkedAt: new Date().toISOString(),
+    };
+    payment.status = status;
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        // A failing listener must not stop the others
+      }
+    });
+  }
+
+  private async restore(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(this.STORAGE_KEY);
+      const saved: TrackedPayment[] = stored ? JSON.parse(stored) : [];
+      saved.forEach(payment => {
+        if (!this.payments.has(payment.paymentId)) {
+          this.payments.set(payment.paymentId, payment);
+        }
+      });
+    } catch (error) {
+      // Unpaid orders are adopted from Odoo below
+    }
+  }
+
+  // Orders paid for on another device, or before this engine existed
+  private async adoptPendingOrders(): Promise<void> {
+    if (!this.partnerId) {
+      return;
+    }
+
+    const orders = await orderService.getOrdersWithPendingPayments(this.partnerId);
+    const tracked = new Set(Array.from(this.payments.values(), payment => payment.orderId));
+
+    for (const order of orders) {
+      const paymentInfo = orderService.getPaymentInfoFromOrder(order);
+      const paymentMethod = paymentInfo.paymentMethod as PaymentMethod;
+
+      if (!paymentInfo.paymentId || !CHECK_DELAYS[paymentMethod] || tracked.has(order.id.toString())) {
+        continue;
+      }
+
+      // Orders paid before the gateway expiry was stored fall back to the order date
+      const storedExpiry = paymentInfo.paymentExpiresAt ? new Date(paymentInfo.paymentExpiresAt).getTime() : NaN;
+      const orderedAt = order.date_order ? fromOdooDate(order.date_order).getTime() : NaN;
+      const expiresAt = !Number.isNaN(storedExpiry)
+        ? storedExpiry
+        : (Number.isNaN(orderedAt) ? Date.now() : orderedAt) + getExpiryMs(paymentMethod);
+
+      this.payments.set(paymentInfo.paymentId, {
+        paymentId: paymentInfo.paymentId,
+        orderId: order.id.toString(),
+        provider: (paymentInfo.paymentProvider as PaymentProvider) || 'FLIP',
+        paymentMethod,
+        expiresAt,
+        nextCheckAt: Date.now(),
+        attempts: 0,
+        status: 'PENDING',
+      });
+    }
+
+    await this.persist();
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(this.STORAGE_KEY, JSON.stringify(Array.from(this.payments.values())));
+    } catch (error) {
+      // Kept in memory; unpaid orders are adopted from Odoo on the next start
+    }
+  }
+}
+
+export default new PaymentStatusEngine();
@@ -1,5 +1,9 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
 import odooComService from './odoocom/odooComService';
+import odooSyncService from './odoo/syncService';
+import authService from './auth/authService';
+import mediaUploadService, { MediaSource } from './media/mediaUploadService';
 
 export interface Pet {
   id?: number;
@@ -12,11 +16,15 @@ export interface Pet {
   gender?: 'male' | 'female';
   microchipId?: string;
   birthDate?: string;
-  photo?: string;
+  photo?: string; // Local URI of a photo that is not uploaded yet
+  photoId?: number; // ir.attachment with the full-size photo
+  thumbnailId?: number; // ir.attachment with the thumbnail
   medicalHistory?: string;
   vaccinations?: Vaccination[];
   ownerId?: number;
   notes?: string;
+  reminderType?: string; // Care reminder picked when adding the pet, e.g. 'Obat Cacing'
+  lastVetVisit?: string; // YYYY-MM-DD
   isActive?: boolean;
   createdAt?: string;
   updatedAt?: string;
@@ -31,139 +39,245 @@ export interface Vaccination {
   notes?: string;
 }
 
+export type PetServiceErrorCode = 'NOT_LOGGED_IN' | 'NOT_FOUND' | 'PENDING_SYNC';
+
+export class PetServiceError extends Error {
+  constructor(public code: PetServiceErrorCode, message: string) {
+    super(message);
+    this.name = 'PetServiceError';
+  }
+}
+
+const PET_FIELDS = [
+  'id', 'x_name', 'x_type', 'x_breed', 'x_age', 'x_weight',
+  'x_color', 'x_gender', 'x_microchip_id', 'x_birth_date',
+  'x_photo', 'x_photo_id', 'x_photo_thumbnail_id', 'x_medical_history', 'x_vaccinations', 'x_notes',
+  'x_reminder_type', 'x_last_vet_visit', 'x_active', 'x_owner_id', 'create_date', 'write_date'
+];
+
+// apiClient reports unreachable servers with these messages
+const isNetworkError = (error: any): boolean =>
+  /Server tidak tersedia|Network Error|timeout/i.test(error?.message || '');
+
+// Photos picked with expo-image-picker that only exist on this device
+const isLocalUri = (uri?: string): uri is string =>
+  !!uri && /^(file|content|ph|assets-library):/.test(uri);
+
+const getId = (value: any): number | undefined =>
+  Array.isArray(value) ? value[0] : value || undefined;
+
+/**
+ * Where to load a pet's photo from, preferring the thumbnail for lists
+ */
+export const getPetPhotoSource = (pet: Pet, fullSize: boolean = false): MediaSource | undefined => {
+  const id = fullSize ? pet.photoId || pet.thumbnailId : pet.thumbnailId || pet.photoId;
+  return id ? { type: 'attachment', id } : undefined;
+};
+
+/**
+ * Allergies are kept as an 'Allergies:' line in the pet's medical history
+ */
+export const getPetAllergies = (pet: Pet): string | undefined => {
+  if (!pet.medicalHistory?.includes('Allergies:')) {
+    return undefined;
+  }
+  return pet.medicalHistory.split('Allergies:')[1].split('\n')[0].trim() || undefined;
+};
+
+/**
+ * Pets live in the x_pawsmart_pet model and are always scoped to the partner
+ * of the logged-in user. The last list fetched from Odoo is cached per partner
+ * so the pet screens keep working offline; writes made offline go through the
+ * sync queue and are applied to the cache right away.
+ */
 class PetService {
-  // Note: To use Odoo backend, create model 'x_pawsmart_pet' in Odoo via UI
-  // Settings → Technical → Database Structure → Models → New
-  private readonly MODEL_NAME = 'x_pawsmart_pet'; // Custom model via Odoo UI
-  private readonly LOCAL_STORAGE_KEY = '@PawSmart:pets';
-  private useLocalStorage = true; // Set to false after creating Odoo model
+  private readonly MODEL_NAME = 'x_pawsmart_pet';
+  private readonly CACHE_KEY_PREFIX = '@PawSmart:pets:';
+  // Device-wide store used before pets moved to Odoo
+  private readonly LEGACY_STORAGE_KEY = '@PawSmart:pets';
 
   /**
-   * Get all pets for the current user
+   * Get all pets of the logged-in user
    */
-  async getPets(ownerId?: number): Promise<Pet[]> {
-    // For now, always use local storage until Odoo model is created
-    // To enable Odoo: 
-    // 1. Create 'pawsmart.pet' model in Odoo with required fields
-    // 2. Set useLocalStorage = false in constructor
-    
-    if (!this.useLocalStorage) {
-      try {
-        const domain = ownerId ? [['x_owner_id', '=', ownerId]] : [];
-        const pets = await odooComService.searchRead(
-          this.MODEL_NAME,
-          domain,
-          [
-            'id', 'x_name', 'x_type', 'x_breed', 'x_age', 'x_weight', 
-            'x_color', 'x_gender', 'x_microchip_id', 'x_birth_date',
-            'x_photo', 'x_medical_history', 'x_vaccinations', 'x_notes',
-            'x_active', 'x_owner_id', 'create_date', 'write_date'
-          ],
-          { order: 'x_name ASC' }
-        );
+  async getPets(): Promise<Pet[]> {
+    const partnerId = await this.getPartnerId();
 
-        return pets.map(this.transformFromOdoo);
-      } catch (error: any) {
-        // Silently fall back to local storage
-        this.useLocalStorage = true;
-      }
+    if (await this.isOffline()) {
+      return this.getCachedPets(partnerId);
     }
 
-    // Use local storage
-    return this.getLocalPets();
+    try {
+      // Flush offline writes first so the fresh list includes them
+      await odooSyncService.processPendingSyncQueue();
+
+      const records = await odooComService.searchRead(
+        this.MODEL_NAME,
+        [['x_owner_id', '=', partnerId]],
+        PET_FIELDS,
+        { order: 'x_name ASC' }
+      );
+
+      const pets = records.map((record: any) => this.transformFromOdoo(record));
+      await this.setCachedPets(partnerId, pets);
+      return pets;
+    } catch (error) {
+      if (isNetworkError(error)) {
+        return this.getCachedPets(partnerId);
+      }
+      throw error;
+    }
   }
 
   /**
-   * Get a single pet by ID
+   * Get a single pet of the logged-in user by ID
    */
   async getPet(petId: number | string): Promise<Pet | null> {
-    // Convert string to number if needed
     const id = typeof petId === 'string' ? parseInt(petId, 10) : petId;
-    
-    if (!this.useLocalStorage) {
+    const partnerId = await this.getPartnerId();
+
+    if (id > 0 && !(await this.isOffline())) {
       try {
-        const pets = await odooComService.read(
+        const records = await odooComService.searchRead(
           this.MODEL_NAME,
-          [id],
-          [
-            'id', 'x_name', 'x_type', 'x_breed', 'x_age', 'x_weight',
-            'x_color', 'x_gender', 'x_microchip_id', 'x_birth_date',
-            'x_photo', 'x_medical_history', 'x_vaccinations', 'x_notes',
-            'x_active', 'x_owner_id', 'create_date', 'write_date'
-          ]
+          [['id', '=', id], ['x_owner_id', '=', partnerId]],
+          PET_FIELDS
         );
 
-        if (pets && pets.length > 0) {
-          return this.transformFromOdoo(pets[0]);
-        }
+        return records.length > 0 ? this.transformFromOdoo(records[0]) : null;
       } catch (error) {
-        this.useLocalStorage = true;
+        if (!isNetworkError(error)) {
+          throw error;
+        }
       }
     }
 
-    // Use local storage
-    const pets = await this.getLocalPets();
+    const pets = await this.getCachedPets(partnerId);
     return pets.find(p => p.id === id) || null;
   }
 
   /**
-   * Create a new pet
+   * Create a new pet owned by the logged-in user
    */
   async createPet(pet: Pet): Promise<Pet> {
-    if (!this.useLocalStorage) {
+    const partnerId = await this.getPartnerId();
+    const localPhoto = isLocalUri(pet.photo) ? pet.photo : undefined;
+    const odooData = this.transformToOdoo({ ...pet, photo: localPhoto ? '' : pet.photo, ownerId: partnerId });
+
+    if (!(await this.isOffline())) {
       try {
-        const odooData = this.transformToOdoo(pet);
         const petId = await odooComService.create(this.MODEL_NAME, odooData);
-        
-        // Read the created pet to get all fields
-        const createdPet = await this.getPet(petId);
-        return createdPet || { ...pet, id: petId };
+
+        if (localPhoto) {
+          try {
+            await this.uploadPhoto(petId, localPhoto);
+          } catch (error) {
+            // The pet is saved; the photo can be added again from Edit
+          }
+        }
+
+        const createdPet = (await this.getPet(petId)) || { ...pet, id: petId, ownerId: partnerId };
+
+        const pets = await this.getCachedPets(partnerId);
+        await this.setCachedPets(partnerId, [...pets, createdPet]);
+        return createdPet;
       } catch (error) {
-        this.useLocalStorage = true;
+        if (!isNetworkError(error)) {
+          throw error;
+        }
       }
     }
 
-    // Use local storage
-    return this.createLocalPet(pet);
+    // Negative ids mark pets that only exist in the cache until the queue syncs
+    const now = new Date().toISOString();
+    const newPet: Pet = {
+      ...pet,
+      id: -Date.now(),
+      ownerId: partnerId,
+      isActive: true,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await odooSyncService.addToSyncQueue({ type: 'create', model: this.MODEL_NAME, data: odooData });
+
+    const pets = await this.getCachedPets(partnerId);
+    await this.setCachedPets(partnerId, [...pets, newPet]);
+    return newPet;
   }
 
   /**
-   * Update an existing pet
+   * Update a pet of the logged-in user
    */
   async updatePet(petId: number | string, updates: Partial<Pet>): Promise<boolean> {
-    // Convert string to number if needed
     const id = typeof petId === 'string' ? parseInt(petId, 10) : petId;
-    
-    if (!this.useLocalStorage) {
+    const partnerId = await this.getPartnerId();
+    this.assertSynced(id);
+
+    // ownerId is never taken from the caller
+    const { ownerId, ...changes } = updates;
+    let queued = await this.isOffline();
+
+    if (!queued) {
       try {
-        const odooData = this.transformToOdoo(updates);
-        return await odooComService.write(this.MODEL_NAME, [id], odooData);
+        await this.assertOwned(id, partnerId);
+
+        if (isLocalUri(changes.photo)) {
+          Object.assign(changes, await this.uploadPhoto(id, changes.photo));
+        }
+
+        await odooComService.write(this.MODEL_NAME, [id], this.transformToOdoo(changes));
       } catch (error) {
-        this.useLocalStorage = true;
+        if (!isNetworkError(error)) {
+          throw error;
+        }
+        queued = true;
       }
     }
 
-    // Use local storage
-    return this.updateLocalPet(id, updates);
+    if (queued) {
+      // A new photo stays on this device until it is picked again online
+      const { photo, ...syncedChanges } = changes;
+      const odooData = this.transformToOdoo(isLocalUri(photo) ? syncedChanges : changes);
+      await odooSyncService.addToSyncQueue({ type: 'update', model: this.MODEL_NAME, data: { id, ...odooData } });
+    }
+
+    const pets = await this.getCachedPets(partnerId);
+    await this.setCachedPets(
+      partnerId,
+      pets.map(p => (p.id === id ? { ...p, ...changes, updatedAt: new Date().toISOString() } : p))
+    );
+    return true;
   }
 
   /**
-   * Delete a pet
+   * Delete a pet of the logged-in user
    */
   async deletePet(petId: number | string): Promise<boolean> {
-    // Convert string to number if needed
     const id = typeof petId === 'string' ? parseInt(petId, 10) : petId;
-    
-    if (!this.useLocalStorage) {
+    const partnerId = await this.getPartnerId();
+    this.assertSynced(id);
+
+    let queued = await this.isOffline();
+
+    if (!queued) {
       try {
-        return await odooComService.unlink(this.MODEL_NAME, [id]);
+        await this.assertOwned(id, partnerId);
+        await odooComService.unlink(this.MODEL_NAME, [id]);
       } catch (error) {
-        this.useLocalStorage = true;
+        if (!isNetworkError(error)) {
+          throw error;
+        }
+        queued = true;
       }
     }
 
-    // Use local storage
-    return this.deleteLocalPet(id);
+    if (queued) {
+      await odooSyncService.addToSyncQueue({ type: 'delete', model: this.MODEL_NAME, data: { id } });
+    }
+
+    const pets = await this.getCachedPets(partnerId);
+    await this.setCachedPets(partnerId, pets.filter(p => p.id !== id));
+    return true;
   }
 
   /**
@@ -182,55 +296,131 @@ class PetService {
     return this.updatePet(petId, { vaccinations });
   }
 
-  // Local Storage Methods (Fallback)
-  private async getLocalPets(): Promise<Pet[]> {
+  /**
+   * Move pets saved on this device before pets were stored in Odoo to the
+   * given partner. Runs once: the device-wide store is removed afterwards, and
+   * pets that could not be uploaded stay there for the next login.
+   */
+  async migrateLocalPets(partnerId: number): Promise<number> {
+    let legacyPets: Pet[];
     try {
-      const petsJson = await AsyncStorage.getItem(this.LOCAL_STORAGE_KEY);
-      return petsJson ? JSON.parse(petsJson) : [];
+      const petsJson = await AsyncStorage.getItem(this.LEGACY_STORAGE_KEY);
+      legacyPets = petsJson ? JSON.parse(petsJson) : [];
     } catch (error) {
-      return [];
+      return 0;
     }
+
+    if (legacyPets.length === 0) {
+      await AsyncStorage.removeItem(this.LEGACY_STORAGE_KEY);
+      return 0;
+    }
+
+    const remaining: Pet[] = [];
+    let migrated = 0;
+
+    for (const pet of legacyPets) {
+      const { id, createdAt, updatedAt, photo, ...data } = pet;
+      let petId: number;
+      try {
+        petId = await odooComService.create(this.MODEL_NAME, this.transformToOdoo({ ...data, ownerId: partnerId }));
+        migrated++;
+      } catch (error) {
+        remaining.push(pet);
+        continue;
+      }
+
+      if (isLocalUri(photo)) {
+        try {
+          await this.uploadPhoto(petId, photo);
+        } catch (error) {
+          // The photo file may be gone; the pet is migrated without it
+        }
+      }
+    }
+
+    if (remaining.length > 0) {
+      await AsyncStorage.setItem(this.LEGACY_STORAGE_KEY, JSON.stringify(remaining));
+    } else {
+      await AsyncStorage.removeItem(this.LEGACY_STORAGE_KEY);
+    }
+
+    return migrated;
   }
 
-  private async createLocalPet(pet: Pet): Promise<Pet> {
-    const pets = await this.getLocalPets();
-    const newPet: Pet = {
-      ...pet,
-      id: Date.now(),
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-      isActive: true,
-    };
-    
-    pets.push(newPet);
-    await AsyncStorage.setItem(this.LOCAL_STORAGE_KEY, JSON.stringify(pets));
-    return newPet;
+  /**
+   * Upload a local photo for a pet and point the pet at it. The attachments
+   * of the previous photo are removed.
+   */
+  private async uploadPhoto(petId: number, uri: string): Promise<Partial<Pet>> {
+    const previous = await odooComService.read(this.MODEL_NAME, [petId], ['x_photo_id', 'x_photo_thumbnail_id']);
+    const uploaded = await mediaUploadService.uploadPetPhoto(petId, uri);
+    const fields = { photo: '', photoId: uploaded.attachmentId, thumbnailId: uploaded.thumbnailId };
+
+    await odooComService.write(this.MODEL_NAME, [petId], this.transformToOdoo(fields));
+
+    const oldIds = [getId(previous?.[0]?.x_photo_id), getId(previous?.[0]?.x_photo_thumbnail_id)]
+      .filter((attachmentId): attachmentId is number => !!attachmentId);
+    await mediaUploadService.removeAttachments(oldIds);
+
+    return fields;
   }
 
-  private async updateLocalPet(petId: number, updates: Partial<Pet>): Promise<boolean> {
-    const pets = await this.getLocalPets();
-    const index = pets.findIndex(p => p.id === petId);
-    
-    if (index === -1) return false;
-    
-    pets[index] = {
-      ...pets[index],
-      ...updates,
-      updatedAt: new Date().toISOString(),
-    };
-    
-    await AsyncStorage.setItem(this.LOCAL_STORAGE_KEY, JSON.stringify(pets));
-    return true;
+  private async getPartnerId(): Promise<number> {
+    const user = await authService.getCurrentUser();
+    if (!user?.partner_id) {
+      throw new PetServiceError('NOT_LOGGED_IN', 'Silakan masuk untuk melihat data peliharaan');
+    }
+    return user.partner_id;
   }
 
-  private async deleteLocalPet(petId: number): Promise<boolean> {
-    const pets = await this.getLocalPets();
-    const filtered = pets.filter(p => p.id !== petId);
-    
-    if (filtered.length === pets.length) return false;
-    
-    await AsyncStorage.setItem(this.LOCAL_STORAGE_KEY, JSON.stringify(filtered));
-    return true;
+  private async isOffline(): Promise<boolean> {
+    try {
+      const state = await NetInfo.fetch();
+      return state.isConnected === false;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Pets created offline have no Odoo id yet, so later writes can't be queued
+   */
+  private assertSynced(petId: number): void {
+    if (petId < 0) {
+      throw new PetServiceError(
+        'PENDING_SYNC',
+        'Peliharaan ini belum tersinkron. Coba lagi setelah perangkat kembali online.'
+      );
+    }
+  }
+
+  private async assertOwned(petId: number, partnerId: number): Promise<void> {
+    const ids = await odooComService.search(this.MODEL_NAME, [
+      ['id', '=', petId],
+      ['x_owner_id', '=', partnerId],
+    ]);
+
+    if (ids.length === 0) {
+      throw new PetServiceError('NOT_FOUND', 'Peliharaan tidak ditemukan');
+    }
+  }
+
+  // Offline cache, one list per partner
+  private async getCachedPets(partnerId: number): Promise<Pet[]> {
+    try {
+      const petsJson = await AsyncStorage.getItem(`${this.CACHE_KEY_PREFIX}${partnerId}`);
+      return petsJson ? JSON.parse(petsJson) : [];
+    } catch (error) {
+      return [];
+    }
+  }
+
+  private async setCachedPets(partnerId: number, pets: Pet[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(`${this.CACHE_KEY_PREFIX}${partnerId}`, JSON.stringify(pets));
+    } catch (error) {
+      // Cache is best effort
+    }
   }
 
   // Transform methods
@@ -248,11 +438,15 @@ class PetService {
       microchipId: odooRecord.x_microchip_id || odooRecord.microchip_id,
       birthDate: odooRecord.x_birth_date || odooRecord.birth_date,
       photo: odooRecord.x_photo || odooRecord.photo,
+      photoId: getId(odooRecord.x_photo_id),
+      thumbnailId: getId(odooRecord.x_photo_thumbnail_id),
       medicalHistory: odooRecord.x_medical_history || odooRecord.medical_history,
       vaccinations: odooRecord.x_vaccinations ? JSON.parse(odooRecord.x_vaccinations) : 
                     odooRecord.vaccinations ? JSON.parse(odooRecord.vaccinations) : [],
       ownerId: odooRecord.x_owner_id?.[0] || odooRecord.owner_id?.[0],
       notes: odooRecord.x_notes || odooRecord.notes,
+      reminderType: odooRecord.x_reminder_type || undefined,
+      lastVetVisit: odooRecord.x_last_vet_visit || undefined,
       isActive: odooRecord.x_active !== undefined ? odooRecord.x_active : odooRecord.is_active,
       createdAt: odooRecord.create_date,
       updatedAt: odooRecord.write_date,
@@ -273,10 +467,14 @@ class PetService {
     if (pet.microchipId !== undefined) odooData.x_microchip_id = pet.microchipId;
     if (pet.birthDate !== undefined) odooData.x_birth_date = pet.birthDate;
     if (pet.photo !== undefined) odooData.x_photo = pet.photo;
+    if (pet.photoId !== undefined) odooData.x_photo_id = pet.photoId || false;
+    if (pet.thumbnailId !== undefined) odooData.x_photo_thumbnail_id = pet.thumbnailId || false;
     if (pet.medicalHistory !== undefined) odooData.x_medical_history = pet.medicalHistory;
     if (pet.vaccinations !== undefined) odooData.x_vaccinations = JSON.stringify(pet.vaccinations);
     if (pet.ownerId !== undefined) odooData.x_owner_id = pet.ownerId;
     if (pet.notes !== undefined) odooData.x_notes = pet.notes;
+    if (pet.reminderType !== undefined) odooData.x_reminder_type = pet.reminderType || false;
+    if (pet.lastVetVisit !== undefined) odooData.x_last_vet_visit = pet.lastVetVisit || false;
     if (pet.isActive !== undefined) odooData.x_active = pet.isActive;
     
     return odooData;
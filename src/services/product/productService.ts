@@ -34,6 +34,16 @@ export interface Product {
   product_tmpl_id?: [number, string];
 }
 
+export interface ProductAvailability {
+  id: number;
+  name: string;
+  price: number;
+  originalPrice: number;
+  discount: number;
+  qty_available: number;
+  is_available: boolean; // Still active and sellable
+}
+
 export interface ProductCategory {
   id: number;
   name: string;
@@ -193,6 +203,54 @@ class ProductService {
     }
   }
 
+  /**
+   * Get current price and stock for a set of products, straight from Odoo.
+   * Unlike the other getters this never falls back to mock data: callers use
+   * it to validate what the customer is about to pay for.
+   */
+  async getProductAvailability(productIds: Array<string | number>): Promise<ProductAvailability[]> {
+    try {
+      const ids = productIds
+        .map(id => parseInt(id.toString(), 10))
+        .filter(id => !isNaN(id));
+
+      if (ids.length === 0) {
+        return [];
+      }
+
+      const products = await apiClient.odooExecute(
+        'product.product',
+        'search_read',
+        [],
+        {
+          // Include archived products so they can be reported as unavailable
+          domain: [['id', 'in', ids], ['active', 'in', [true, false]]],
+          fields: [
+            'id',
+            'name',
+            'list_price',
+            'standard_price',
+            'qty_available',
+            'active',
+            'sale_ok',
+          ],
+        }
+      );
+
+      return (products || []).map((product: any) => ({
+        id: product.id,
+        name: product.name,
+        price: product.list_price || 0,
+        originalPrice: product.standard_price || product.list_price || 0,
+        discount: this.calculateDiscount(product.list_price, product.standard_price),
+        qty_available: product.qty_available || 0,
+        is_available: product.active !== false && product.sale_ok !== false,
+      }));
+    } catch (error) {
+      throw error;
+    }
+  }
+
   /**
    * Search products
    */
@@ -0,0 +1,83 @@
+/**
+ * Proxy Client
+ * Calls the backend-for-frontend proxy (see proxyRoutes for the contract).
+ *
+ * Every Odoo, payment, shipping and WhatsApp call goes through here, in
+ * development too: run the proxy locally (`npm start` in proxy/) and point
+ * EXPO_PUBLIC_PROXY_URL at it. The app carries no admin login or provider
+ * secrets.
+ */
+
+import axios from 'axios';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import config from '../../config/environment';
+import { ProxyRequest, ProxyResponse, ProxyRoute } from './proxyRoutes';
+
+export class ProxyError extends Error {
+  constructor(
+    public code: string,
+    message: string,
+    public status?: number
+  ) {
+    super(message);
+    this.name = 'ProxyError';
+  }
+}
+
+const proxyHttp = axios.create({
+  baseURL: config.PROXY.BASE_URL,
+  timeout: config.NETWORK.TIMEOUT,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+});
+
+class ProxyClient {
+  /**
+   * Whether the proxy is reachable
+   */
+  async health(): Promise<boolean> {
+    try {
+      const response = await proxyHttp.get('/health');
+      return response.data?.status === 'ok';
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Call a proxy route with the signed-in user's session
+   */
+  async call<R extends ProxyRoute>(route: R, request: ProxyRequest<R>): Promise<ProxyResponse<R>> {
+    const token = await AsyncStorage.getItem(config.STORAGE_KEYS.AUTH_TOKEN);
+
+    try {
+      const response = await proxyHttp.post(`/${route}`, request, {
+        headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+      });
+
+      if (response.data?.error) {
+        throw new ProxyError(response.data.error.code || 'PROXY_ERROR', response.data.error.message || 'Proxy error');
+      }
+
+      return response.data.result;
+    } catch (error: any) {
+      if (error instanceof ProxyError) {
+        throw error;
+      }
+
+      const remoteError = error.response?.data?.error;
+      if (remoteError) {
+        throw new ProxyError(remoteError.code || 'PROXY_ERROR', remoteError.message || 'Proxy error', error.response.status);
+      }
+
+      if (!error.response) {
+        throw new ProxyError('NETWORK_ERROR', 'Server tidak tersedia - Periksa koneksi internet.');
+      }
+
+      throw new ProxyError('HTTP_ERROR', `Proxy request failed (${route})`, error.response.status);
+    }
+  }
+}
+
+export default new ProxyClient();
@@ -0,0 +1,527 @@
+/**
+ * Proxy Routes
+ * Request and response types for every route of the backend-for-frontend
+ * proxy (the `proxy/` package). The proxy holds the Odoo admin login and the
+ * Flip, Xendit, KiriminAja and Fonnte secrets, so none of them ship in the
+ * app bundle, and it scopes every operation to the signed-in customer.
+ *
+ * Every route is a POST to `${PROXY.BASE_URL}/<route>` with the route's
+ * request as JSON body and the session token from auth/login as Bearer auth.
+ * The proxy answers `{ result }` on success or `{ error: { code, message } }`.
+ *
+ * This file is compiled into the proxy as well, so it must not import
+ * anything; the app re-exports the shared types from their usual modules.
+ */
+
+// Payments
+
+export type PaymentProvider = 'FLIP' | 'XENDIT';
+
+export type PaymentMethod = 'QRIS' | 'EWALLET' | 'VIRTUAL_ACCOUNT' | 'CARDS';
+
+// What each provider charges per payment: a percentage of the amount plus a
+// fixed Rupiah fee. The proxy reports it with each payment and the app shows it.
+export const PAYMENT_FEES: Record<PaymentProvider, Record<PaymentMethod, { percentage: number; fixed: number }>> = {
+  FLIP: {
+    QRIS: { percentage: 0.7, fixed: 0 },
+    EWALLET: { percentage: 0.7, fixed: 0 },
+    VIRTUAL_ACCOUNT: { percentage: 0, fixed: 4000 },
+    CARDS: { percentage: 0.3, fixed: 0 }, // Paid on a Flip bill page
+  },
+  XENDIT: {
+    QRIS: { percentage: 0.7, fixed: 0 },
+    EWALLET: { percentage: 2, fixed: 0 },
+    VIRTUAL_ACCOUNT: { percentage: 0, fixed: 4000 },
+    CARDS: { percentage: 2.9, fixed: 2000 },
+  },
+};
+
+export const calculatePaymentFee = (provider: PaymentProvider, paymentMethod: PaymentMethod, amount: number): number => {
+  const fee = PAYMENT_FEES[provider][paymentMethod];
+  return fee ? Math.round((amount * fee.percentage) / 100 + fee.fixed) : 0;
+};
+
+export interface UnifiedPaymentRequest {
+  orderId: string;
+  amount: number;
+  paymentMethod: PaymentMethod;
+  customerName: string;
+  customerEmail?: string;
+  customerPhone?: string;
+  description?: string;
+  items?: Array<{
+    name: string;
+    quantity: number;
+    price: number;
+  }>;
+}
+
+export interface UnifiedPaymentResponse {
+  provider: PaymentProvider;
+  paymentId: string;
+  status: 'PENDING' | 'PAID' | 'EXPIRED' | 'FAILED';
+  paymentUrl?: string;
+  paymentData: any;
+  qrString?: string;
+  accountNumber?: string;
+  bankCode?: string;
+  expiresAt?: string;
+  amount: number;
+  fees?: number;
+}
+
+export interface PaymentOptions {
+  channelCode?: string; // Xendit e-wallet channel, e.g. 'ID_DANA'
+  bankCode?: string; // Virtual account bank, e.g. 'BCA'
+}
+
+export interface PaymentStatusResult {
+  isPaid: boolean;
+  status: string;
+  paymentData?: any;
+}
+
+// Card data is tokenized on the device with the public key; only the token reaches the proxy
+export interface CardChargeRequest {
+  orderId: string;
+  tokenId: string;
+  authenticationId: string;
+  amount: number;
+  description?: string;
+}
+
+export interface RefundBankAccount {
+  bankCode: string; // Flip bank code, e.g. 'bca'
+  accountNumber: string;
+  accountName: string;
+}
+
+// Shipping (KiriminAja)
+
+export interface ShippingPriceRequest {
+  origin: number; // District ID of sender
+  subdistrict_origin?: number; // Village ID of sender (for RPX, POS, Paxel)
+  destination: number; // District ID of recipient
+  subdistrict_destination?: number; // Village ID of recipient (for RPX, POS, Paxel)
+  weight: number; // Total weight in grams
+  length?: number; // Package length in cm (for volumetric calculation)
+  width?: number; // Package width in cm (for volumetric calculation)
+  height?: number; // Package height in cm (for volumetric calculation)
+  insurance?: 0 | 1; // Insurance required (0 = false, 1 = true)
+  item_value?: string; // Item value for insurance/COD calculation
+  courier?: string | string[]; // Specific courier(s) to check (optional)
+}
+
+// Instant Pricing Request (different format)
+export interface InstantPricingRequest {
+  origin: {
+    lat: number;
+    long: number;
+  };
+  destination: {
+    lat: number;
+    long: number;
+  };
+  weight: number; // Total weight in grams
+  timezone?: string; // e.g., "Asia/Jakarta" - Optional due to API validation issues
+  item_value?: string; // Item value for insurance calculation
+}
+
+export interface DiscountCampaign {
+  discount: number;
+  discount_percentage: number;
+  discount_campaign_id: number;
+  discount_type: string;
+}
+
+export interface ServiceSetting {
+  cod_fee: string; // COD fee percentage (already divided by 100)
+  minimum_cod_fee: string; // Minimum COD fee amount
+  insurance_fee: string; // Insurance fee percentage (already divided by 100)
+  insurance_add_cost: number;
+  cod_fee_amount: number; // Calculated COD fee
+}
+
+export interface ShippingService {
+  service: string; // Service code (e.g., "jne")
+  service_name: string; // Service name (e.g., "JNE Express Reguler")
+  service_type: string; // Service type code (e.g., "REG23")
+  cost: string; // Shipping cost
+  etd: string; // Estimated delivery time (e.g., "2-3")
+  cod: boolean; // COD support
+  group: 'regular' | 'instant' | 'trucking'; // Service grouping
+  drop: boolean; // Dropoff support
+  cut_off_time: string | null;
+  force_insurance: boolean;
+  use_geolocation: boolean;
+  discount_campaign: DiscountCampaign;
+  discount_amount: number;
+  discount_percentage: number;
+  discount_type: string | null;
+  setting: ServiceSetting;
+  insurance: number; // Insurance fee
+  is_mock_data?: boolean; // Flag to identify mock/test data
+}
+
+export interface ShippingPriceResponse {
+  status: boolean;
+  method: string;
+  text: string;
+  details?: { // Not sent when the rates could not be fetched
+    origin_district_id: number;
+    origin_subdistrict_id?: number;
+    destination_district_id: number;
+    destination_subdistrict_id?: number;
+    origin_latitude: number;
+    origin_longitude: number;
+    weight: number;
+    item_value?: string;
+    width?: number;
+    length?: number;
+    height?: number;
+    insurance: number;
+    expeditions: string[];
+    cod: number;
+    origin: number;
+    destination: number;
+    origin_kelurahan?: number;
+    destination_kelurahan?: number;
+    courier: string[];
+  };
+  results: ShippingService[];
+}
+
+export interface TrackingHistory {
+  date: string;
+  description: string;
+  location: string;
+}
+
+export interface TrackingResponse {
+  status: boolean;
+  method: string;
+  text: string;
+  awb: string;
+  courier: string;
+  service: string;
+  status_code: string;
+  status_name: string;
+  receiver_name?: string;
+  history: TrackingHistory[];
+}
+
+export interface LocationResult {
+  district_id: number;
+  district_name: string;
+  city_id?: number; // Not returned by the district name search
+  city_name: string;
+  province_id?: number;
+  province_name: string;
+  postal_code: string;
+  subdistrict_id?: number;
+  subdistrict_name?: string;
+}
+
+export interface SubdistrictResult {
+  id: number;
+  name: string;
+}
+
+export interface LocationSearchResponse {
+  status: boolean;
+  method: string;
+  text: string;
+  results: LocationResult[];
+}
+
+export type ShipmentServiceGroup = 'regular' | 'instant' | 'trucking';
+
+export interface ShipmentDestination {
+  name: string;
+  phone: string;
+  address: string;
+  districtId?: number;
+  subdistrictId?: number;
+  postalCode?: string;
+  latitude?: number;
+  longitude?: number;
+  note?: string;
+}
+
+// Parcel for a set of products, from the Odoo product weights and volumes
+export interface PackageDetails {
+  weight: number; // grams
+  length?: number; // Box size in cm, only when item volumes are known
+  width?: number;
+  height?: number;
+  itemWeights: Record<string, number>; // Weight per unit in grams, keyed by product ID
+}
+
+// The courier the customer chose at checkout. The parcel, its cost and the
+// item value are worked out by the proxy.
+export interface ShipmentChoice {
+  courier: string; // KiriminAja courier code (e.g. 'jne', 'gosend')
+  serviceType: string; // KiriminAja service code (e.g. 'REG23')
+  group: ShipmentServiceGroup;
+  cod?: boolean; // Cash on delivery, for regular services that offer it; the courier collects the order total
+  destination: ShipmentDestination;
+}
+
+export interface NewShipmentRequest {
+  courier: string; // KiriminAja courier code (e.g. 'jne', 'gosend')
+  serviceType: string; // KiriminAja service code (e.g. 'REG23')
+  group: ShipmentServiceGroup;
+  cod: boolean;
+  shippingCost: number;
+  itemValue: number;
+  itemName: string;
+  weight?: number; // grams
+  dimensions?: { length: number; width: number; height: number }; // cm
+  destination: ShipmentDestination;
+}
+
+// Accounts
+
+export interface ProxyUser {
+  id: number;
+  username: string;
+  name: string;
+  email: string;
+  partnerId: number;
+  companyId?: number;
+  image?: string;
+  phone?: string;
+  staff: boolean; // Clinic staff (internal Odoo user), e.g. a doctor
+}
+
+export interface ProxySession {
+  token: string;
+  expiresIn: number; // Seconds
+  user: ProxyUser;
+}
+
+export interface SocialLoginRequest {
+  provider: string;
+  socialId: string;
+  accessToken: string;
+  idToken?: string;
+  email?: string;
+  name?: string;
+  avatar?: string;
+}
+
+// WhatsApp one-time codes are made, hashed and checked by the proxy; the app
+// only learns whether a code was sent and whether it matched
+export interface OtpRequestResult {
+  sent: boolean;
+  expiresAt?: string; // ISO 8601, when sent
+  // Seconds until a new code can be requested
+  retryAfter: number;
+  // Why no code was sent
+  reason?: 'RESEND_TOO_SOON' | 'RATE_LIMITED';
+}
+
+export interface OtpVerifyResult {
+  verified: boolean;
+  message?: string;
+  remainingAttempts?: number;
+}
+
+export interface RegisterRequest {
+  username: string;
+  password: string;
+  email: string;
+  name: string;
+  phone?: string;
+}
+
+// Records: plain Odoo reads and writes, limited to the models the app uses
+// and scoped to the caller's own records (see the proxy's record policies)
+
+export interface RecordQuery {
+  model: string;
+  domain?: any[];
+  fields?: string[];
+  limit?: number;
+  offset?: number;
+  order?: string;
+}
+
+// Orders
+
+export interface NewOrderLine {
+  productId: number;
+  quantity: number;
+}
+
+// Extra services a consultation can be booked with, priced by the proxy
+export const CONSULTATION_ADDITIONAL_SERVICES = [
+  { id: '1', name: 'Vaksinasi', price: 250000 },
+  { id: '2', name: 'Bedah', price: 250000 },
+  { id: '3', name: 'Pemeriksaan Laboratorium', price: 250000 },
+];
+
+// Appointments
+
+// Length of a doctor's appointment slot
+export const DOCTOR_SLOT_MINUTES = 60;
+
+// How long a picked slot stays reserved for the customer
+export const SLOT_HOLD_MINUTES = 10;
+
+export interface SlotHold {
+  id: number;
+  doctorId: number;
+  slotStart: string; // ISO 8601
+  expiresAt: string; // ISO 8601
+}
+
+export interface NewAppointment {
+  doctorId: number;
+  petId?: number; // x_pawsmart_pet of the caller
+  slotStart: string; // ISO 8601
+  holdId?: number; // The caller's hold on the slot, converted by the booking
+  serviceType: 'walk-in' | 'home-service';
+  reason: string;
+  additionalServices?: string[]; // Service names, for the clinic
+  notes?: string;
+  address?: string; // Home-service visits
+}
+
+// Health passports
+
+// How long a passport link stays readable: by default, and at most
+export const PASSPORT_LINK_DAYS = 7;
+export const PASSPORT_MAX_LINK_DAYS = 30;
+
+// Read-only passport page the proxy serves until expiresAt
+export interface PassportLink {
+  url: string;
+  expiresAt: string; // ISO 8601
+}
+
+interface Route<Request, Response> {
+  request: Request;
+  response: Response;
+}
+
+export interface ProxyRoutes {
+  // Accounts. Everything up to auth/reset-password works without a session.
+  'auth/login': Route<{ username: string; password: string }, ProxySession>;
+  'auth/social-login': Route<SocialLoginRequest, ProxySession>;
+  'auth/register': Route<RegisterRequest, ProxySession>;
+  'auth/check-username': Route<{ username: string }, { available: boolean }>;
+  'auth/check-email': Route<{ email: string }, { available: boolean }>;
+  'auth/check-phone': Route<{ phone: string }, { registered: boolean }>;
+  // A verified code lets its phone number register or reset a password once
+  'auth/otp-request': Route<{ phone: string }, OtpRequestResult>;
+  'auth/otp-verify': Route<{ phone: string; code: string }, OtpVerifyResult>;
+  // The username is sent to the account's WhatsApp number, never returned
+  'auth/find-username': Route<{ email: string }, { sent: boolean }>;
+  'auth/reset-password': Route<{ phone: string; password: string }, { reset: boolean }>;
+  'auth/change-password': Route<{ oldPassword: string; newPassword: string }, { changed: boolean }>;
+  'auth/profile': Route<{ name?: string; email?: string; phone?: string }, ProxyUser>;
+
+  // Records
+  'records/search-read': Route<RecordQuery, any[]>;
+  'records/read': Route<{ model: string; ids: number[]; fields?: string[] }, any[]>;
+  'records/search': Route<Omit<RecordQuery, 'fields'>, number[]>;
+  'records/search-count': Route<{ model: string; domain?: any[] }, number>;
+  'records/name-search': Route<{ model: string; name?: string; domain?: any[]; limit?: number }, Array<[number, string]>>;
+  'records/fields-get': Route<{ model: string; attributes?: string[] }, Record<string, any>>;
+  'records/create': Route<{ model: string; values: Record<string, any> }, number>;
+  'records/write': Route<{ model: string; ids: number[]; values: Record<string, any> }, boolean>;
+  'records/unlink': Route<{ model: string; ids: number[] }, boolean>;
+  // Workflow buttons such as account.move action_post (staff)
+  'records/action': Route<{ model: string; ids: number[]; action: string }, any>;
+
+  // Orders. Status changes past waiting_payment are made by the proxy itself
+  // (payments, shipping, refunds), never requested by the app.
+  // Bills the quoted shipping on the order; the courier is booked once it is paid
+  'orders/create': Route<{ lines: NewOrderLine[]; shipment: ShipmentChoice; note?: string }, { orderId: number }>;
+  'orders/consultation': Route<{ appointmentId: number; additionalServices?: string[] }, { orderId: number }>;
+  // Moves a draft order to waiting_payment; cancelled orders come back through orders/reopen
+  'orders/transition': Route<{ orderId: number; status: 'waiting_payment' }, { status: string }>;
+  'orders/cancel': Route<{
+    orderId: number;
+    reason: string;
+    note?: string;
+    bankAccount?: RefundBankAccount;
+  }, { status: string; returnId?: number }>;
+  'orders/reopen': Route<{ orderId: number }, { status: string }>;
+  'orders/pay-with-wallet': Route<{ orderId: number; amount: number }, { paid: boolean }>;
+  'orders/return': Route<{
+    orderId: number;
+    reason: string;
+    note?: string;
+    photos: string[]; // Base64 JPEGs
+    bankAccount?: RefundBankAccount;
+  }, { returnId: number }>;
+
+  // Appointments. Holds and bookings run under the slot's lock on the proxy,
+  // so each slot goes to one customer. SLOT_TAKEN and SLOT_HELD errors (409)
+  // mean another customer got the slot first.
+  // Starts of the doctor's slots in [from, to] other customers are holding
+  'appointments/held-slots': Route<{ doctorId: number; from: string; to: string }, string[]>;
+  // Releases any other slot the caller was holding
+  'appointments/hold': Route<{ doctorId: number; slotStart: string }, SlotHold>;
+  'appointments/release-hold': Route<{ holdId: number }, { released: boolean }>;
+  'appointments/book': Route<NewAppointment, { appointmentId: number }>;
+  'appointments/cancel': Route<{ appointmentId: number; reason?: string }, { cancelled: boolean }>;
+
+  // Health passports. The proxy renders the page behind the link from the
+  // pet's current records (GET /passport/<token>).
+  'passports/create': Route<{ petId: number; days?: number }, PassportLink>;
+
+  // PawSmart balance
+  'wallet/hold': Route<{ orderId: number; amount: number }, { entryId: number; amount: number }>;
+  'wallet/release': Route<{ orderId: number }, { released: number }>;
+  'wallet/top-up': Route<{
+    amount: number;
+    paymentMethod: PaymentMethod;
+    customerName: string;
+    customerEmail?: string;
+    customerPhone?: string;
+    paymentOptions?: PaymentOptions;
+  }, { entryId: number; payment: UnifiedPaymentResponse }>;
+
+  // Payments. The proxy stores the payment on the order and settles it.
+  'payments/create': Route<{
+    request: UnifiedPaymentRequest;
+    provider?: PaymentProvider;
+    options?: PaymentOptions;
+  }, UnifiedPaymentResponse>;
+  // Checks the provider and applies a final status to the order or top-up
+  'payments/status': Route<{ paymentId: string }, PaymentStatusResult>;
+  'payments/card-charge': Route<CardChargeRequest, UnifiedPaymentResponse>;
+  // Sandbox only: marks a test payment as paid at the provider
+  'payments/simulate': Route<{ paymentId: string }, { simulated: boolean }>;
+
+  // Shipping
+  'shipping/rates': Route<ShippingPriceRequest, ShippingPriceResponse>;
+  'shipping/instant-rates': Route<InstantPricingRequest, ShippingPriceResponse>;
+  'shipping/locations': Route<{ keyword: string }, LocationSearchResponse>;
+  'shipping/subdistricts': Route<{ districtId: number }, SubdistrictResult[]>;
+  // Tracks the order's AWB and marks the order delivered once the courier reports it
+  'shipping/order-tracking': Route<{ orderId: number }, { tracking: TrackingResponse; orderStatusUpdated: boolean }>;
+  // Parcel the proxy quotes shipping with for these products
+  'shipping/package': Route<{ items: NewOrderLine[] }, PackageDetails>;
+}
+
+export type ProxyRoute = keyof ProxyRoutes;
+export type ProxyRequest<R extends ProxyRoute> = ProxyRoutes[R]['request'];
+export type ProxyResponse<R extends ProxyRoute> = ProxyRoutes[R]['response'];
+
+// Routes the proxy serves without a session
+export const PUBLIC_ROUTES: ProxyRoute[] = [
+  'auth/login',
+  'auth/social-login',
+  'auth/register',
+  'auth/check-username',
+  'auth/check-email',
+  'auth/check-phone',
+  'auth/otp-request',
+  'auth/otp-verify',
+  'auth/find-username',
+  'auth/reset-password',
+];
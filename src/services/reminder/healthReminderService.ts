@@ -0,0 +1,384 @@
+/**
+ * Health Reminder Service
+ * Works out when each pet is next due for a vaccine booster or for the care
+ * reminder picked when the pet was added (Obat Cacing, Vitamin, …) and
+ * schedules on-device notifications for those dates.
+ *
+ * Reminders are recomputed from the pet list whenever it changes; every sync
+ * cancels the notifications of the previous one, so edits and deleted pets
+ * never leave stale notifications behind. The last computed list is kept in
+ * AsyncStorage for NotificationScreen.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import petService, { Pet } from '../petService';
+import odooDoctorService from '../odoo/doctorService';
+import authService from '../auth/authService';
+import { goToDoctorBooking } from '../navigationService';
+
+export type ReminderKind = 'vaccination' | 'deworming' | 'vitamin' | 'checkup' | 'grooming';
+
+export interface HealthReminder {
+  id: string;
+  petId: number;
+  petName: string;
+  kind: ReminderKind;
+  title: string; // e.g. 'Vaksin Rabies'
+  dueDate: string; // YYYY-MM-DD
+  notificationId?: string;
+}
+
+export interface ReminderBookingParams {
+  doctorId: string;
+  petId: number;
+  reason: string;
+}
+
+// Booster interval in months per species and vaccine, keyed by lowercase name
+const VACCINE_SCHEDULES: Partial<Record<Pet['type'], Record<string, number>>> = {
+  dog: { rabies: 12, dhpp: 12, bordetella: 6, leptospirosis: 12, parvovirus: 12 },
+  cat: { rabies: 12, fvrcp: 12, tricat: 12, felv: 12 },
+  rabbit: { rhd: 12, myxomatosis: 6 },
+};
+const DEFAULT_VACCINE_MONTHS = 12;
+
+// Care reminders offered by AddPetStepThreeScreen that repeat on a fixed interval
+const CARE_SCHEDULES: Record<string, { kind: ReminderKind; months: Partial<Record<Pet['type'], number>>; defaultMonths: number }> = {
+  'Obat Cacing': { kind: 'deworming', months: { dog: 3, cat: 3 }, defaultMonths: 6 },
+  'Vitamin': { kind: 'vitamin', months: {}, defaultMonths: 1 },
+  'Check-up Rutin': { kind: 'checkup', months: {}, defaultMonths: 12 },
+  'Grooming': { kind: 'grooming', months: { dog: 1 }, defaultMonths: 2 },
+};
+
+// Notify this many days ahead, at this local hour
+const REMINDER_LEAD_DAYS = 3;
+const REMINDER_HOUR = 9;
+
+// NotificationScreen lists reminders due within this many days
+export const UPCOMING_REMINDER_DAYS = 30;
+
+const STORAGE_KEY = '@PawSmart:healthReminders';
+const CHANNEL_ID = 'health-reminders';
+export const HEALTH_REMINDER_NOTIFICATION = 'health_reminder';
+
+// Data attached to a scheduled reminder notification
+type ReminderNotificationData = {
+  type: typeof HEALTH_REMINDER_NOTIFICATION;
+  reminderId: string;
+  petId: number;
+  title: string;
+};
+
+const isReminderNotification = (data: Record<string, unknown> | undefined): data is ReminderNotificationData =>
+  data?.type === HEALTH_REMINDER_NOTIFICATION;
+
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
+const toDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Dates are stored as YYYY-MM-DD or ISO strings; read them as local days
+const parseDate = (value: string): Date => {
+  const [year, month, day] = value.substring(0, 10).split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const addMonths = (date: Date, months: number): Date =>
+  new Date(date.getFullYear(), date.getMonth() + months, date.getDate());
+
+const startOfToday = (): Date => {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+};
+
+class HealthReminderService {
+  /**
+   * When a vaccine given on the given date is due again for the species
+   */
+  getNextVaccineDate(petType: Pet['type'], vaccineName: string, givenOn: string): string {
+    const months = VACCINE_SCHEDULES[petType]?.[vaccineName.trim().toLowerCase()] || DEFAULT_VACCINE_MONTHS;
+    return toDateString(addMonths(parseDate(givenOn), months));
+  }
+
+  /**
+   * Upcoming (or overdue) reminders for one pet
+   */
+  computeReminders(pet: Pet): HealthReminder[] {
+    if (!pet.id || pet.isActive === false) {
+      return [];
+    }
+
+    const reminders: HealthReminder[] = [];
+
+    // Only the latest dose of each vaccine counts
+    const latestDoses = new Map<string, { name: string; date: string; nextDueDate?: string }>();
+    (pet.vaccinations || []).forEach(vaccination => {
+      if (!vaccination.date) return;
+      const key = vaccination.name.trim().toLowerCase();
+      const current = latestDoses.get(key);
+      if (!current || parseDate(vaccination.date) > parseDate(current.date)) {
+        latestDoses.set(key, vaccination);
+      }
+    });
+
+    latestDoses.forEach((dose, key) => {
+      reminders.push({
+        id: `${pet.id}:vaccination:${key}`,
+        petId: pet.id!,
+        petName: pet.name,
+        kind: 'vaccination',
+        title: `Vaksin ${dose.name}`,
+        dueDate: dose.nextDueDate || this.getNextVaccineDate(pet.type, dose.name, dose.date),
+      });
+    });
+
+    const care = pet.reminderType ? CARE_SCHEDULES[pet.reminderType] : undefined;
+    if (care) {
+      const months = care.months[pet.type] || care.defaultMonths;
+      let dueDate: Date;
+
+      if (care.kind === 'checkup' && pet.lastVetVisit) {
+        // A missed check-up stays overdue
+        dueDate = addMonths(parseDate(pet.lastVetVisit), months);
+      } else {
+        // Repeat from the day the pet was added until the next future date
+        const start = pet.createdAt ? parseDate(pet.createdAt) : startOfToday();
+        let cycles = 1;
+        dueDate = addMonths(start, months);
+        while (dueDate < startOfToday()) {
+          cycles++;
+          dueDate = addMonths(start, months * cycles);
+        }
+      }
+
+      reminders.push({
+        id: `${pet.id}:${care.kind}`,
+        petId: pet.id,
+        petName: pet.name,
+        kind: care.kind,
+        title: pet.reminderType!,
+        dueDate: toDateString(dueDate),
+      });
+    }
+
+    return reminders;
+  }
+
+  /**
+   * Recompute reminders for the given pets and reschedule their notifications
+   */
+  async syncReminders(pets: Pet[]): Promise<HealthReminder[]> {
+    await this.cancelScheduled();
+
+    const reminders = pets
+      .flatMap(pet => this.computeReminders(pet))
+      .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+
+    if (await this.ensurePermission()) {
+      for (const reminder of reminders) {
+        try {
+          reminder.notificationId = await this.scheduleNotification(reminder);
+        } catch (error) {
+          // The reminder still shows in NotificationScreen
+        }
+      }
+    }
+
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(reminders));
+    return reminders;
+  }
+
+  /**
+   * Reload the user's pets and resync their reminders
+   */
+  async refresh(): Promise<HealthReminder[]> {
+    const pets = await petService.getPets();
+    return this.syncReminders(pets);
+  }
+
+  /**
+   * Reminders from the last sync that are overdue or due soon
+   */
+  async getUpcomingReminders(withinDays: number = UPCOMING_REMINDER_DAYS): Promise<HealthReminder[]> {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      const reminders: HealthReminder[] = stored ? JSON.parse(stored) : [];
+      const limit = toDateString(new Date(Date.now() + withinDays * 24 * 60 * 60 * 1000));
+      return reminders.filter(reminder => reminder.dueDate <= limit);
+    } catch (error) {
+      return [];
+    }
+  }
+
+  /**
+   * Days until a reminder is due, negative when overdue
+   */
+  getDaysUntilDue(reminder: HealthReminder): number {
+    return Math.round((parseDate(reminder.dueDate).getTime() - startOfToday().getTime()) / (24 * 60 * 60 * 1000));
+  }
+
+  /**
+   * Doctor and prefilled booking details for acting on a reminder. Prefers the
+   * doctor who last saw the pet, then the top-rated available doctor.
+   */
+  async getBookingParams(reminder: Pick<HealthReminder, 'petId' | 'title'>): Promise<ReminderBookingParams | null> {
+    let doctorId: number | undefined;
+
+    const user = await authService.getCurrentUser();
+    if (user?.partner_id) {
+      try {
+        const appointments = await odooDoctorService.getUserAppointments(user.partner_id, { petId: reminder.petId });
+        doctorId = appointments.find(appointment => appointment.doctorId)?.doctorId;
+      } catch (error) {
+        // Fall back to any available doctor
+      }
+    }
+
+    if (!doctorId) {
+      const doctors = await odooDoctorService.getDoctors({ available: true });
+      doctorId = doctors[0]?.id;
+    }
+
+    return doctorId
+      ? { doctorId: String(doctorId), petId: reminder.petId, reason: reminder.title }
+      : null;
+  }
+
+  /**
+   * Open doctor booking when a reminder notification is tapped, including the
+   * tap that launched the app. Returns the unsubscribe function.
+   */
+  listenForNotificationTaps(): () => void {
+    const openBooking = async (response: Notifications.NotificationResponse) => {
+      const data = response.notification.request.content.data;
+      if (!isReminderNotification(data)) {
+        return;
+      }
+
+      try {
+        const params = await this.getBookingParams({ petId: data.petId, title: data.title });
+        goToDoctorBooking(params || undefined);
+      } catch (error) {
+        goToDoctorBooking();
+      }
+    };
+
+    Notifications.getLastNotificationResponseAsync()
+      .then(response => {
+        if (response) {
+          Notifications.clearLastNotificationResponseAsync().catch(() => {});
+          openBooking(response);
+        }
+      })
+      .catch(() => {
+        // App was not opened from a notification
+      });
+
+    const subscription = Notifications.addNotificationResponseReceivedListener(openBooking);
+    return () => subscription.remove();
+  }
+
+  /**
+   * Cancel every scheduled reminder and forget them, e.g. on logout
+   */
+  async clear(): Promise<void> {
+    await this.cancelScheduled();
+    await AsyncStorage.removeItem(STORAGE_KEY);
+  }
+
+  private async cancelScheduled(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      const reminders: HealthReminder[] = stored ? JSON.parse(stored) : [];
+
+      await Promise.all(
+        reminders
+          .filter(reminder => reminder.notificationId)
+          .map(reminder => Notifications.cancelScheduledNotificationAsync(reminder.notificationId!).catch(() => {}))
+      );
+    } catch (error) {
+      // Nothing scheduled
+    }
+  }
+
+  private async ensurePermission(): Promise<boolean> {
+    try {
+      if (Platform.OS === 'android') {
+        await Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+          name: 'Pengingat Kesehatan',
+          importance: Notifications.AndroidImportance.HIGH,
+        });
+      }
+
+      const current = await Notifications.getPermissionsAsync();
+      if (current.granted) {
+        return true;
+      }
+
+      if (!current.canAskAgain) {
+        return false;
+      }
+
+      const requested = await Notifications.requestPermissionsAsync();
+      return requested.granted;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Notify a few days ahead at REMINDER_HOUR; overdue reminders fire at the next REMINDER_HOUR
+   */
+  private async scheduleNotification(reminder: HealthReminder): Promise<string> {
+    const due = parseDate(reminder.dueDate);
+    due.setHours(REMINDER_HOUR, 0, 0, 0);
+
+    const early = new Date(due);
+    early.setDate(early.getDate() - REMINDER_LEAD_DAYS);
+
+    let notifyAt = early > new Date() ? early : due;
+    if (notifyAt <= new Date()) {
+      notifyAt = new Date();
+      if (notifyAt.getHours() >= REMINDER_HOUR) {
+        notifyAt.setDate(notifyAt.getDate() + 1);
+      }
+      notifyAt.setHours(REMINDER_HOUR, 0, 0, 0);
+    }
+
+    const daysUntilDue = this.getDaysUntilDue(reminder);
+    const when = daysUntilDue > 0
+      ? `jatuh tempo ${parseDate(reminder.dueDate).toLocaleDateString('id-ID', { day: 'numeric', month: 'long' })}`
+      : 'sudah jatuh tempo';
+
+    const data: ReminderNotificationData = {
+      type: HEALTH_REMINDER_NOTIFICATION,
+      reminderId: reminder.id,
+      petId: reminder.petId,
+      title: reminder.title,
+    };
+
+    return Notifications.scheduleNotificationAsync({
+      content: {
+        title: `${reminder.title} untuk ${reminder.petName}`,
+        body: `Jadwal ${reminder.title.toLowerCase()} ${reminder.petName} ${when}. Ketuk untuk pesan dokter.`,
+        data,
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: notifyAt,
+        channelId: CHANNEL_ID,
+      },
+    });
+  }
+}
+
+export default new HealthReminderService();
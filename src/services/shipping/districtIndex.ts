@@ -0,0 +1,249 @@
+/**
+ * District Index for KiriminAja
+ * Offline index of Indonesian districts (kecamatan) and their villages
+ * (kelurahan), built from the bundled postal dataset and data/indonesiaData,
+ * used to match addresses to KiriminAja district/subdistrict IDs.
+ *
+ * KiriminAja IDs are looked up when an address is saved and stored on the
+ * address itself (its extended data, see odooAddressService), so quoting
+ * shipping for a saved address reads them from there and needs no network.
+ */
+
+import kiriminAjaService from './kiriminAjaService';
+import { indonesiaData } from '../../data/indonesiaData';
+import { localLocationAPI } from '../location/localLocationService';
+
+export interface DistrictVillage {
+  name: string;
+  postalCode?: string;
+}
+
+export interface DistrictEntry {
+  key: string;
+  district: string;
+  city: string;
+  province: string;
+  postalCodes: string[];
+  villages: DistrictVillage[];
+  latitude?: number;
+  longitude?: number;
+}
+
+export interface DistrictQuery {
+  district?: string;
+  subDistrict?: string; // Village (kelurahan)
+  city?: string;
+  province?: string;
+  postalCode?: string;
+}
+
+export interface ResolvedDistrict {
+  district_id: number;
+  subdistrict_id?: number;
+  district: string;
+  city: string;
+  province: string;
+}
+
+interface KiriminAjaJoin {
+  district_id: number;
+  subdistricts?: Record<string, number>; // Normalized village name -> KiriminAja ID
+}
+
+// Regency prefixes that differ between datasets ("Kota Adm. Jakarta Selatan" vs "Jakarta Selatan")
+const CITY_PREFIXES = /^(kota administrasi|kota adm\.?|kabupaten administrasi|kab\. adm\.?|kabupaten|kab\.?|kota)\s+/;
+
+// District prefixes typed by users ("Kec. Beji")
+const DISTRICT_PREFIXES = /^(kecamatan|kec\.?)\s+/;
+
+const normalizeName = (value?: string): string =>
+  (value || '').toLowerCase().trim().replace(/\s+/g, ' ');
+
+export const normalizeCity = (value?: string): string =>
+  normalizeName(value).replace(CITY_PREFIXES, '').replace(/[^a-z0-9]/g, '');
+
+export const normalizeDistrict = (value?: string): string =>
+  normalizeName(value).replace(DISTRICT_PREFIXES, '').replace(/[^a-z0-9]/g, '');
+
+const normalizeVillage = (value?: string): string =>
+  normalizeName(value).replace(/^(kelurahan|kel\.?|desa)\s+/, '').replace(/[^a-z0-9]/g, '');
+
+class DistrictIndex {
+  private entries: Map<string, DistrictEntry> | null = null;
+  private byDistrict = new Map<string, DistrictEntry[]>();
+  private byPostalCode = new Map<string, DistrictEntry[]>();
+  // KiriminAja IDs looked up this session
+  private joins = new Map<string, KiriminAjaJoin>();
+
+  /**
+   * Find a district in the offline index.
+   * Matches on district and city names, then on postal code.
+   */
+  findDistrict(query: DistrictQuery): DistrictEntry | null {
+    this.buildIndex();
+
+    const district = normalizeDistrict(query.district);
+    const city = normalizeCity(query.city);
+
+    if (district) {
+      const candidates = this.byDistrict.get(district) || [];
+      const match = candidates.find(entry => !city || normalizeCity(entry.city) === city)
+        || (candidates.length === 1 && !city ? candidates[0] : undefined);
+      if (match) {
+        return match;
+      }
+    }
+
+    if (query.postalCode) {
+      const candidates = this.byPostalCode.get(query.postalCode.trim()) || [];
+      const match = candidates.find(entry => !district || normalizeDistrict(entry.district) === district)
+        || (candidates.length === 1 ? candidates[0] : undefined);
+      if (match) {
+        return match;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Look up KiriminAja IDs for an address being saved. Districts are matched
+   * in the offline index, then with KiriminAja once per session. Returns null
+   * when the district cannot be identified.
+   */
+  async resolve(query: DistrictQuery): Promise<ResolvedDistrict | null> {
+    const entry = this.findDistrict(query);
+    const district = entry?.district || query.district;
+    const city = entry?.city || query.city;
+    const province = entry?.province || query.province || '';
+
+    if (!district || !city) {
+      return null;
+    }
+
+    const key = entry?.key || this.makeKey(city, district);
+    let join = this.joins.get(key);
+
+    if (!join) {
+      const districtId = await this.lookupDistrictId(district, city, province);
+      if (!districtId) {
+        return null;
+      }
+      join = { district_id: districtId };
+      this.joins.set(key, join);
+    }
+
+    const village = normalizeVillage(query.subDistrict);
+    let subdistrictId = village ? join.subdistricts?.[village] : undefined;
+
+    if (village && !join.subdistricts) {
+      subdistrictId = await this.lookupSubdistrictId(join, village);
+    }
+
+    return {
+      district_id: join.district_id,
+      subdistrict_id: subdistrictId,
+      district,
+      city,
+      province,
+    };
+  }
+
+  private async lookupDistrictId(district: string, city: string, province: string): Promise<number | null> {
+    try {
+      const response = await kiriminAjaService.searchLocation(`${district}, ${city}`);
+      const results = response.results || [];
+
+      const match = results.find(result =>
+        normalizeDistrict(result.district_name) === normalizeDistrict(district) &&
+        normalizeCity(result.city_name) === normalizeCity(city) &&
+        (!province || !result.province_name || normalizeName(result.province_name) === normalizeName(province))
+      ) || results.find(result =>
+        normalizeDistrict(result.district_name) === normalizeDistrict(district) &&
+        normalizeCity(result.city_name) === normalizeCity(city)
+      );
+
+      return match ? Number(match.district_id) : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private async lookupSubdistrictId(join: KiriminAjaJoin, village: string): Promise<number | undefined> {
+    try {
+      const subdistricts = await kiriminAjaService.getSubdistricts(join.district_id);
+      join.subdistricts = {};
+      subdistricts.forEach(subdistrict => {
+        join.subdistricts![normalizeVillage(subdistrict.name)] = subdistrict.id;
+      });
+      return join.subdistricts[village];
+    } catch (error) {
+      // Subdistrict IDs are only required by a few couriers
+      return undefined;
+    }
+  }
+
+  private buildIndex(): void {
+    if (this.entries) {
+      return;
+    }
+
+    this.entries = new Map();
+
+    localLocationAPI.getPostalEntries().forEach(item => {
+      const entry = this.getOrCreateEntry(item.province, item.regency, item.district);
+      const postalCode = item.code.toString();
+
+      if (!entry.postalCodes.includes(postalCode)) {
+        entry.postalCodes.push(postalCode);
+        const sameCode = this.byPostalCode.get(postalCode) || [];
+        sameCode.push(entry);
+        this.byPostalCode.set(postalCode, sameCode);
+      }
+      entry.villages.push({ name: item.village, postalCode });
+
+      if (entry.latitude === undefined && item.latitude) {
+        entry.latitude = item.latitude;
+        entry.longitude = item.longitude;
+      }
+    });
+
+    // Names used by the manual address form, in case the postal dataset spells them differently
+    indonesiaData.provinces.forEach(province => {
+      indonesiaData.getCities(province).forEach(city => {
+        indonesiaData.getDistricts(province, city).forEach(district => {
+          const entry = this.getOrCreateEntry(province, city, district);
+          indonesiaData.getSubDistricts(province, city, district).forEach(village => {
+            if (!entry.villages.some(existing => normalizeVillage(existing.name) === normalizeVillage(village))) {
+              entry.villages.push({ name: village });
+            }
+          });
+        });
+      });
+    });
+  }
+
+  private getOrCreateEntry(province: string, city: string, district: string): DistrictEntry {
+    const key = this.makeKey(city, district);
+    let entry = this.entries!.get(key);
+
+    if (!entry) {
+      entry = { key, district, city, province, postalCodes: [], villages: [] };
+      this.entries!.set(key, entry);
+
+      const districtKey = normalizeDistrict(district);
+      const sameName = this.byDistrict.get(districtKey) || [];
+      sameName.push(entry);
+      this.byDistrict.set(districtKey, sameName);
+    }
+
+    return entry;
+  }
+
+  // Keyed on city and district only; province names vary too much between sources
+  private makeKey(city: string, district: string): string {
+    return `${normalizeCity(city)}|${normalizeDistrict(district)}`;
+  }
+}
+
+export default new DistrictIndex();
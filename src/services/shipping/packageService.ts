@@ -0,0 +1,64 @@
+/**
+ * Package Service
+ * Parcel for a set of products: actual weight from the Odoo product weights
+ * and a box size for the courier's volumetric weight.
+ *
+ * The proxy works it out (shipping/package), the same way it does when it
+ * quotes the shipping billed on the order, so the rates shown at checkout
+ * match.
+ */
+
+import proxyClient from '../proxy/proxyClient';
+import { PackageDetails } from '../proxy/proxyRoutes';
+
+export type { PackageDetails } from '../proxy/proxyRoutes';
+
+export interface PackageItem {
+  id: string | number; // product.product ID
+  quantity: number;
+}
+
+// Used for products without a weight in Odoo
+export const DEFAULT_ITEM_WEIGHT = 500;
+
+class PackageService {
+  /**
+   * Calculate weight and box dimensions for the given products.
+   * Falls back to DEFAULT_ITEM_WEIGHT per unit when the proxy cannot be
+   * reached, so shipping can still be quoted.
+   */
+  async calculatePackage(items: PackageItem[]): Promise<PackageDetails> {
+    const lines = items
+      .map(item => ({ productId: parseInt(item.id.toString(), 10), quantity: item.quantity }))
+      .filter(line => !isNaN(line.productId));
+
+    if (lines.length > 0) {
+      try {
+        return await proxyClient.call('shipping/package', { items: lines });
+      } catch (error) {
+        // Quote with default weights
+      }
+    }
+
+    const itemWeights: Record<string, number> = {};
+    items.forEach(item => {
+      itemWeights[item.id.toString()] = DEFAULT_ITEM_WEIGHT;
+    });
+    return {
+      weight: items.reduce((sum, item) => sum + DEFAULT_ITEM_WEIGHT * item.quantity, 0),
+      itemWeights,
+    };
+  }
+
+  /**
+   * Format a weight in grams for display (e.g. '500gr', '1,5kg')
+   */
+  formatWeight(grams: number): string {
+    if (grams >= 1000) {
+      return `${(grams / 1000).toLocaleString('id-ID', { maximumFractionDigits: 1 })}kg`;
+    }
+    return `${grams}gr`;
+  }
+}
+
+export default new PackageService();
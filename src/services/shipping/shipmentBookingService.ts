@@ -0,0 +1,100 @@
+/**
+ * Shipment Booking Service
+ * Books the courier the customer chose at checkout with KiriminAja once the
+ * order is paid, and attaches the AWB to the order.
+ *
+ * The chosen service and destination are sent with the order at checkout
+ * (orders/create). The proxy weighs the parcel, bills its cost on the order
+ * and stores it as an x_pawsmart_shipment record. It books the pickup when
+ * it confirms the payment and retries a failed booking from its scheduler;
+ * the fulfilment team picks up what still fails.
+ */
+
+import apiClient from '../api/apiClient';
+import { NewShipmentRequest, ShipmentDestination } from '../proxy/proxyRoutes';
+
+export type { NewShipmentRequest, ShipmentChoice, ShipmentDestination, ShipmentServiceGroup } from '../proxy/proxyRoutes';
+
+export const SHIPMENT_MODEL = 'x_pawsmart_shipment';
+
+export type ShipmentBookingState = 'pending' | 'retrying' | 'booking' | 'booked' | 'failed' | 'cancelled';
+
+export interface ShipmentRequest extends NewShipmentRequest {
+  id: number;
+  orderId: number;
+  orderName: string;
+  state: ShipmentBookingState;
+  weight: number;
+  attempts: number;
+  lastError?: string;
+  lastAttemptAt?: string;
+  awb?: string;
+  pickupNumber?: string;
+  bookingRef?: string;
+}
+
+// Used when the parcel could not be weighed at checkout
+export const DEFAULT_PACKAGE_WEIGHT = 1000;
+
+const SHIPMENT_FIELDS = [
+  'id', 'x_name', 'x_order_id', 'x_state', 'x_courier', 'x_service_type', 'x_service_group',
+  'x_cod', 'x_shipping_cost', 'x_item_value', 'x_item_name', 'x_weight', 'x_length', 'x_width', 'x_height', 'x_destination',
+  'x_attempts', 'x_last_error', 'x_last_attempt_date', 'x_awb', 'x_pickup_number', 'x_booking_ref',
+];
+
+class ShipmentBookingService {
+  /**
+   * Get the shipment request of an order
+   */
+  async getShipmentRequest(orderId: string | number): Promise<ShipmentRequest | null> {
+    const records = await apiClient.odooExecute(
+      SHIPMENT_MODEL,
+      'search_read',
+      [],
+      {
+        domain: [['x_order_id', '=', parseInt(orderId.toString())]],
+        fields: SHIPMENT_FIELDS,
+        order: 'id desc',
+        limit: 1,
+      }
+    );
+
+    return records && records.length > 0 ? this.transformShipment(records[0]) : null;
+  }
+
+  private transformShipment(record: any): ShipmentRequest {
+    let destination: ShipmentDestination = { name: '', phone: '', address: '' };
+    try {
+      destination = JSON.parse(record.x_destination || '{}');
+    } catch (error) {
+      // Malformed destination fails validation when booking
+    }
+
+    return {
+      id: record.id,
+      orderId: Array.isArray(record.x_order_id) ? record.x_order_id[0] : record.x_order_id,
+      orderName: record.x_name,
+      state: record.x_state,
+      courier: record.x_courier,
+      serviceType: record.x_service_type,
+      group: record.x_service_group || 'regular',
+      cod: !!record.x_cod,
+      shippingCost: record.x_shipping_cost || 0,
+      itemValue: record.x_item_value || 0,
+      itemName: record.x_item_name || record.x_name,
+      weight: record.x_weight || DEFAULT_PACKAGE_WEIGHT,
+      dimensions: record.x_length && record.x_width && record.x_height
+        ? { length: record.x_length, width: record.x_width, height: record.x_height }
+        : undefined,
+      destination,
+      attempts: record.x_attempts || 0,
+      lastError: record.x_last_error || undefined,
+      lastAttemptAt: record.x_last_attempt_date || undefined,
+      awb: record.x_awb || undefined,
+      pickupNumber: record.x_pickup_number || undefined,
+      bookingRef: record.x_booking_ref || undefined,
+    };
+  }
+}
+
+export default new ShipmentBookingService();
@@ -0,0 +1,127 @@
+/**
+ * Shipment Tracking Service
+ * Live courier tracking for orders that have a KiriminAja AWB, with the
+ * last known status kept on the device for when KiriminAja cannot be reached.
+ * The proxy (shipping/order-tracking) marks the order delivered once the
+ * courier reports it.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import proxyClient from '../proxy/proxyClient';
+import { TrackingHistory, TrackingResponse } from './kiriminAjaService';
+import { Order } from '../order/orderService';
+import config from '../../config/environment';
+
+export interface ShipmentTracking {
+  orderId: string;
+  awb: string;
+  courier: string;
+  service?: string;
+  statusCode: string;
+  statusName: string;
+  receiverName?: string;
+  history: TrackingHistory[]; // Newest first
+  delivered: boolean;
+  fetchedAt: string; // ISO 8601
+  isCached: boolean; // True when KiriminAja failed and this is the last known status
+  orderStatusUpdated?: boolean; // True when this fetch moved the order to 'delivered'
+}
+
+// KiriminAja status codes that mean the parcel reached the customer. Only the
+// code is compared: the free-text status name also reads "diterima oleh kurir"
+// at pickup, and "UNDELIVERED" contains "delivered".
+const DELIVERED_STATUS_CODES = ['DELIVERED'];
+
+class ShipmentTrackingService {
+  private readonly CACHE_PREFIX = config.STORAGE_KEYS.SHIPMENT_TRACKING;
+
+  /**
+   * Fetch the courier timeline for an order.
+   * Falls back to the cached status when KiriminAja cannot be reached and
+   * throws only when there is nothing cached either.
+   * Returns null when the order has no AWB yet.
+   */
+  async getTracking(order: Order): Promise<ShipmentTracking | null> {
+    if (!order.shipment?.awb) {
+      return null;
+    }
+
+    const orderId = order.id.toString();
+
+    let tracking: ShipmentTracking;
+    try {
+      const response = await proxyClient.call('shipping/order-tracking', { orderId: parseInt(orderId) });
+      tracking = this.buildTracking(orderId, response.tracking, order.shipment.service);
+      tracking.orderStatusUpdated = response.orderStatusUpdated;
+    } catch (error) {
+      const cached = await this.getCachedTracking(orderId);
+      if (cached) {
+        return { ...cached, isCached: true };
+      }
+      throw error;
+    }
+
+    await this.saveCachedTracking(tracking);
+    return tracking;
+  }
+
+  /**
+   * Last known tracking result for an order, if any
+   */
+  async getCachedTracking(orderId: string | number): Promise<ShipmentTracking | null> {
+    try {
+      const stored = await AsyncStorage.getItem(this.getCacheKey(orderId));
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Check whether a KiriminAja status means the parcel was delivered
+   */
+  isDeliveredStatus(statusCode: string): boolean {
+    return DELIVERED_STATUS_CODES.includes((statusCode || '').trim().toUpperCase());
+  }
+
+  private buildTracking(orderId: string, response: TrackingResponse, service?: string): ShipmentTracking {
+    const history = [...(response.history || [])].sort(
+      (a, b) => this.parseDate(b.date) - this.parseDate(a.date)
+    );
+
+    return {
+      orderId,
+      awb: response.awb,
+      courier: response.courier,
+      service: response.service || service,
+      statusCode: response.status_code,
+      statusName: response.status_name,
+      receiverName: response.receiver_name,
+      history,
+      delivered: this.isDeliveredStatus(response.status_code),
+      fetchedAt: new Date().toISOString(),
+      isCached: false,
+    };
+  }
+
+  private async saveCachedTracking(tracking: ShipmentTracking): Promise<void> {
+    try {
+      const { orderStatusUpdated, ...cached } = tracking;
+      await AsyncStorage.setItem(this.getCacheKey(tracking.orderId), JSON.stringify(cached));
+    } catch (error) {
+      // Cache is only used when KiriminAja is unreachable
+    }
+  }
+
+  private getCacheKey(orderId: string | number): string {
+    return `${this.CACHE_PREFIX}:${orderId}`;
+  }
+
+  // KiriminAja returns local times as 'YYYY-MM-DD HH:MM:SS'
+  private parseDate(date: string): number {
+    const time = new Date((date || '').replace(' ', 'T')).getTime();
+    return isNaN(time) ? 0 : time;
+  }
+}
+
+export default new ShipmentTrackingService();
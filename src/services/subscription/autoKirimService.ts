@@ -0,0 +1,332 @@
+/**
+ * AutoKirim Service
+ * Recurring product deliveries. A subscription is stored in Odoo per customer
+ * and product as an x_pawsmart_subscription record; a sale.order is generated
+ * for every delivery date a few days ahead, so the cycle can be paid and
+ * booked with the courier before it is due.
+ *
+ * Each cycle is paid with a payment link sent over WhatsApp, or charged to the
+ * payment method saved on the subscription ('auto'). The proxy's scheduler
+ * generates the cycle orders; the app manages the subscriptions.
+ */
+
+import apiClient from '../api/apiClient';
+import orderService from '../order/orderService';
+import { normalizeOrderStatus } from '../order/orderLifecycle';
+import { ShipmentDestination, ShipmentServiceGroup } from '../shipping/shipmentBookingService';
+import { PaymentMethod } from '../payment/paymentGatewayConfig';
+
+export const SUBSCRIPTION_MODEL = 'x_pawsmart_subscription';
+
+export type AutoKirimUnit = 'minggu' | 'bulan';
+
+export type SubscriptionState = 'active' | 'paused' | 'cancelled' | 'completed';
+
+export type SubscriptionPaymentMode = 'link' | 'auto';
+
+export interface AutoKirimConfig {
+  period: number;
+  unit: AutoKirimUnit;
+  startDate: Date;
+  duration?: number; // Unlimited when not set
+  durationUnit?: AutoKirimUnit;
+}
+
+export interface SubscriptionShipping {
+  courier: string; // KiriminAja courier code
+  serviceType: string;
+  group: ShipmentServiceGroup;
+  shippingCost: number;
+  destination: ShipmentDestination;
+}
+
+export interface SubscriptionPayment {
+  mode: SubscriptionPaymentMode;
+  method?: PaymentMethod; // Charged each cycle in 'auto' mode
+  channelCode?: string;
+  bankCode?: string;
+}
+
+export interface NewSubscription {
+  productId: number; // product.product ID
+  productName: string;
+  quantity: number;
+  price: number;
+  config: AutoKirimConfig;
+  shipping?: SubscriptionShipping;
+  payment?: SubscriptionPayment;
+  sourceOrderId?: number; // Checkout order that delivered the first batch
+}
+
+export interface Subscription {
+  id: number;
+  partnerId: number;
+  productId: number;
+  productName: string;
+  quantity: number;
+  price: number;
+  period: number;
+  unit: AutoKirimUnit;
+  startDate: string; // YYYY-MM-DD
+  nextDate: string; // YYYY-MM-DD, next delivery
+  endDate?: string; // YYYY-MM-DD, last possible delivery
+  state: SubscriptionState;
+  payment: SubscriptionPayment;
+  shipping?: SubscriptionShipping;
+  lastOrderId?: number;
+  cycleCount: number;
+  lastError?: string;
+}
+
+// Orders are generated this many days before the delivery date
+export const ORDER_LEAD_DAYS = 3;
+
+const SUBSCRIPTION_FIELDS = [
+  'id', 'x_name', 'x_partner_id', 'x_product_id', 'x_product_name', 'x_quantity', 'x_price_unit',
+  'x_period', 'x_period_unit', 'x_start_date', 'x_next_date', 'x_end_date', 'x_state',
+  'x_payment_mode', 'x_payment_method', 'x_payment_channel', 'x_payment_bank', 'x_shipping',
+  'x_source_order_id', 'x_last_order_id', 'x_cycle_count', 'x_last_error',
+];
+
+// Odoo date fields are 'YYYY-MM-DD'
+const toOdooDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+const fromOdooDate = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const addPeriod = (date: Date, amount: number, unit: AutoKirimUnit): Date => {
+  const next = new Date(date);
+  if (unit === 'minggu') {
+    next.setDate(next.getDate() + amount * 7);
+  } else {
+    next.setMonth(next.getMonth() + amount);
+  }
+  return next;
+};
+
+const startOfToday = () => {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return today;
+};
+
+class AutoKirimService {
+  /**
+   * Start AutoKirim for products bought at checkout.
+   * A customer has one subscription per product: subscribing to a product
+   * again replaces the schedule of the existing one.
+   * The checkout order covers the first delivery, so the next one is a period
+   * after the start date (or on the start date when it lies in the future).
+   */
+  async createSubscriptions(partnerId: number, items: NewSubscription[]): Promise<void> {
+    try {
+      const existing = await this.getSubscriptions(partnerId);
+
+      for (const item of items) {
+        const startDate = new Date(item.config.startDate);
+        startDate.setHours(0, 0, 0, 0);
+
+        const nextDate = startDate > startOfToday()
+          ? startDate
+          : addPeriod(startDate, item.config.period, item.config.unit);
+
+        const endDate = item.config.duration
+          ? addPeriod(startDate, item.config.duration, item.config.durationUnit || 'bulan')
+          : null;
+
+        const values = {
+          x_name: `AutoKirim ${item.productName}`,
+          x_partner_id: partnerId,
+          x_product_id: item.productId,
+          x_product_name: item.productName,
+          x_quantity: item.quantity,
+          x_price_unit: item.price,
+          x_period: item.config.period,
+          x_period_unit: item.config.unit,
+          x_start_date: toOdooDate(startDate),
+          x_next_date: toOdooDate(nextDate),
+          x_end_date: endDate ? toOdooDate(endDate) : false,
+          x_state: 'active',
+          x_payment_mode: item.payment?.mode || 'link',
+          x_payment_method: item.payment?.method || false,
+          x_payment_channel: item.payment?.channelCode || false,
+          x_payment_bank: item.payment?.bankCode || false,
+          x_shipping: item.shipping ? JSON.stringify(item.shipping) : false,
+          x_source_order_id: item.sourceOrderId || false,
+          x_last_error: false,
+        };
+
+        const current = existing.find(subscription => subscription.productId === item.productId);
+        if (current) {
+          await this.writeSubscription(current.id, values);
+        } else {
+          await apiClient.odooExecute(SUBSCRIPTION_MODEL, 'create', [{ ...values, x_cycle_count: 0 }]);
+        }
+      }
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Get a customer's running and paused subscriptions, soonest delivery first
+   */
+  async getSubscriptions(partnerId: number): Promise<Subscription[]> {
+    try {
+      const records = await apiClient.odooExecute(
+        SUBSCRIPTION_MODEL,
+        'search_read',
+        [],
+        {
+          domain: [
+            ['x_partner_id', '=', partnerId],
+            ['x_state', 'in', ['active', 'paused']],
+          ],
+          fields: SUBSCRIPTION_FIELDS,
+          order: 'x_next_date asc',
+        }
+      );
+
+      return (records || []).map((record: any) => this.transformSubscription(record));
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Pause deliveries until the customer resumes
+   */
+  async pause(subscriptionId: number): Promise<void> {
+    const subscription = await this.getSubscription(subscriptionId);
+    if (subscription.state !== 'active') {
+      throw new Error('Hanya langganan aktif yang dapat dijeda');
+    }
+
+    await this.writeSubscription(subscriptionId, { x_state: 'paused' });
+  }
+
+  /**
+   * Resume a paused subscription. Deliveries missed while paused are dropped:
+   * the schedule moves on to the first delivery date from today.
+   */
+  async resume(subscriptionId: number): Promise<void> {
+    const subscription = await this.getSubscription(subscriptionId);
+    if (subscription.state !== 'paused') {
+      throw new Error('Langganan tidak sedang dijeda');
+    }
+
+    const today = startOfToday();
+    let nextDate = fromOdooDate(subscription.nextDate);
+    while (nextDate < today) {
+      nextDate = addPeriod(nextDate, subscription.period, subscription.unit);
+    }
+
+    if (subscription.endDate && nextDate > fromOdooDate(subscription.endDate)) {
+      await this.writeSubscription(subscriptionId, { x_state: 'completed' });
+      return;
+    }
+
+    await this.writeSubscription(subscriptionId, {
+      x_state: 'active',
+      x_next_date: toOdooDate(nextDate),
+    });
+  }
+
+  /**
+   * Skip the next delivery. Orders already generated for it are not affected.
+   */
+  async skipNext(subscriptionId: number): Promise<void> {
+    const subscription = await this.getSubscription(subscriptionId);
+    if (subscription.state !== 'active' && subscription.state !== 'paused') {
+      throw new Error('Langganan sudah berakhir');
+    }
+
+    const nextDate = addPeriod(fromOdooDate(subscription.nextDate), subscription.period, subscription.unit);
+
+    if (subscription.endDate && nextDate > fromOdooDate(subscription.endDate)) {
+      await this.writeSubscription(subscriptionId, { x_state: 'completed' });
+      return;
+    }
+
+    await this.writeSubscription(subscriptionId, { x_next_date: toOdooDate(nextDate) });
+  }
+
+  /**
+   * Stop the subscription. A generated order that is still unpaid is cancelled too.
+   */
+  async cancel(subscriptionId: number): Promise<void> {
+    const subscription = await this.getSubscription(subscriptionId);
+
+    await this.writeSubscription(subscriptionId, { x_state: 'cancelled' });
+
+    if (subscription.lastOrderId) {
+      try {
+        const order = await orderService.getOrderById(subscription.lastOrderId);
+        if (normalizeOrderStatus(order.state) === 'waiting_payment') {
+          await orderService.cancelOrder(order.id, 'Langganan AutoKirim dihentikan');
+        }
+      } catch (error) {
+        // Unpaid orders expire on their own
+      }
+    }
+  }
+
+  private async getSubscription(subscriptionId: number): Promise<Subscription> {
+    const records = await apiClient.odooExecute(
+      SUBSCRIPTION_MODEL,
+      'read',
+      [[subscriptionId]],
+      { fields: SUBSCRIPTION_FIELDS }
+    );
+
+    if (!records || records.length === 0) {
+      throw new Error('Langganan tidak ditemukan');
+    }
+
+    return this.transformSubscription(records[0]);
+  }
+
+  private async writeSubscription(subscriptionId: number, values: Record<string, any>): Promise<void> {
+    await apiClient.odooExecute(SUBSCRIPTION_MODEL, 'write', [[subscriptionId], values]);
+  }
+
+  private transformSubscription(record: any): Subscription {
+    let shipping: SubscriptionShipping | undefined;
+    try {
+      shipping = record.x_shipping ? JSON.parse(record.x_shipping) : undefined;
+    } catch (error) {
+      // Cycles without shipping details are booked by the fulfilment team
+    }
+
+    const many2one = (value: any) => (Array.isArray(value) ? value[0] : value || undefined);
+
+    return {
+      id: record.id,
+      partnerId: many2one(record.x_partner_id),
+      productId: many2one(record.x_product_id),
+      productName: record.x_product_name || record.x_name,
+      quantity: record.x_quantity || 1,
+      price: record.x_price_unit || 0,
+      period: record.x_period || 1,
+      unit: record.x_period_unit || 'bulan',
+      startDate: record.x_start_date,
+      nextDate: record.x_next_date,
+      endDate: record.x_end_date || undefined,
+      state: record.x_state,
+      payment: {
+        mode: record.x_payment_mode || 'link',
+        method: record.x_payment_method || undefined,
+        channelCode: record.x_payment_channel || undefined,
+        bankCode: record.x_payment_bank || undefined,
+      },
+      shipping,
+      lastOrderId: many2one(record.x_last_order_id),
+      cycleCount: record.x_cycle_count || 0,
+      lastError: record.x_last_error || undefined,
+    };
+  }
+}
+
+export default new AutoKirimService();
@@ -0,0 +1,407 @@
+/**
+ * Visit Tracking Service
+ * Live tracking of doctor home-service visits, stored as x_pawsmart_home_visit
+ * records in Odoo:
+ * - The customer's app creates the record when the visit is booked.
+ * - The doctor's device (a clinic staff login) publishes its location while
+ *   on the way (startLocationPublishing), which also refreshes the distance
+ *   and ETA. Only staff may write the record.
+ * - The customer's app polls the record (watchVisit) and shows the doctor on
+ *   a map.
+ * - Status moves scheduled → en_route → arrived → finished. A visit becomes
+ *   'arrived' by itself once the doctor is within ARRIVAL_RADIUS_METERS.
+ */
+
+import * as Location from 'expo-location';
+import apiClient from '../api/apiClient';
+
+export const HOME_VISIT_MODEL = 'x_pawsmart_home_visit';
+
+const HOME_VISIT_FIELDS = [
+  'id', 'x_appointment_id', 'x_doctor_id', 'x_partner_id', 'x_status', 'x_address',
+  'x_dest_latitude', 'x_dest_longitude', 'x_doctor_latitude', 'x_doctor_longitude', 'x_location_at',
+  'x_distance_m', 'x_eta_minutes', 'x_started_at', 'x_arrived_at', 'x_finished_at',
+];
+
+export type VisitStatus = 'scheduled' | 'en_route' | 'arrived' | 'finished';
+
+export const VISIT_STATUS_LABELS: Record<VisitStatus, string> = {
+  scheduled: 'Terjadwal',
+  en_route: 'Dalam Perjalanan',
+  arrived: 'Dokter Tiba',
+  finished: 'Selesai',
+};
+
+const VISIT_TRANSITIONS: Record<VisitStatus, VisitStatus[]> = {
+  scheduled: ['en_route'],
+  en_route: ['arrived'],
+  arrived: ['finished'],
+  finished: [],
+};
+
+// The doctor counts as arrived within this distance of the customer's address
+export const ARRIVAL_RADIUS_METERS = 100;
+
+// ETA at or below which the customer is told the doctor is about to arrive
+export const ARRIVING_SOON_MINUTES = 5;
+
+// Roads are longer than the straight line; doctors ride through city traffic
+const ROUTE_FACTOR = 1.4;
+const AVERAGE_SPEED_KMH = 25;
+
+const WATCH_INTERVAL_MS = 10000;
+
+export type VisitTrackingErrorCode = 'NOT_FOUND' | 'INVALID_TRANSITION' | 'LOCATION_DENIED';
+
+export class VisitTrackingError extends Error {
+  constructor(
+    public code: VisitTrackingErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'VisitTrackingError';
+  }
+}
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface VisitEta {
+  distanceMeters: number;
+  etaMinutes: number;
+}
+
+export interface HomeVisit {
+  id: number;
+  appointmentId?: number;
+  doctorId?: number;
+  doctorName?: string;
+  partnerId: number;
+  status: VisitStatus;
+  address?: string;
+  destination: GeoPoint;
+  doctorLocation?: GeoPoint;
+  locationUpdatedAt?: string; // ISO 8601
+  distanceMeters?: number;
+  etaMinutes?: number;
+  startedAt?: string; // ISO 8601
+  arrivedAt?: string; // ISO 8601
+  finishedAt?: string; // ISO 8601
+}
+
+export interface NewHomeVisit {
+  appointmentId: number;
+  partnerId: number;
+  destination: GeoPoint;
+  address?: string;
+}
+
+export type VisitListener = (visit: HomeVisit) => void;
+
+// Odoo datetimes are UTC 'YYYY-MM-DD HH:MM:SS'
+const toOdooDate = (date: Date) => date.toISOString().replace('T', ' ').substring(0, 19);
+const fromOdooDate = (value: string) => new Date(`${value.replace(' ', 'T')}Z`).toISOString();
+
+const getId = (value: any): number | undefined => (Array.isArray(value) ? value[0] : value || undefined);
+
+class VisitTrackingService {
+  /**
+   * Straight-line distance in meters
+   */
+  getDistance(from: GeoPoint, to: GeoPoint): number {
+    const R = 6371e3; // Earth's radius in meters
+    const φ1 = from.latitude * Math.PI / 180;
+    const φ2 = to.latitude * Math.PI / 180;
+    const Δφ = (to.latitude - from.latitude) * Math.PI / 180;
+    const Δλ = (to.longitude - from.longitude) * Math.PI / 180;
+
+    const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+              Math.cos(φ1) * Math.cos(φ2) *
+              Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+
+    return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  }
+
+  /**
+   * Estimated travel time from the doctor's position to the customer
+   */
+  getEta(from: GeoPoint, to: GeoPoint): VisitEta {
+    const distanceMeters = this.getDistance(from, to);
+    const roadKm = (distanceMeters * ROUTE_FACTOR) / 1000;
+    const etaMinutes = distanceMeters <= ARRIVAL_RADIUS_METERS
+      ? 0
+      : Math.max(1, Math.ceil((roadKm / AVERAGE_SPEED_KMH) * 60));
+
+    return { distanceMeters: Math.round(distanceMeters), etaMinutes };
+  }
+
+  /**
+   * Create the tracking record for a booked home-service appointment. The
+   * proxy takes the doctor from the appointment.
+   */
+  async createVisit(visit: NewHomeVisit): Promise<HomeVisit> {
+    try {
+      const visitId = await apiClient.odooExecute(HOME_VISIT_MODEL, 'create', [{
+        x_name: `Kunjungan ${visit.appointmentId}`,
+        x_appointment_id: visit.appointmentId,
+        x_partner_id: visit.partnerId,
+        x_address: visit.address || false,
+        x_dest_latitude: visit.destination.latitude,
+        x_dest_longitude: visit.destination.longitude,
+      }]);
+
+      return await this.getVisit(visitId);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  async getVisit(visitId: number): Promise<HomeVisit> {
+    try {
+      const records = await apiClient.odooExecute(HOME_VISIT_MODEL, 'read', [[visitId]], { fields: HOME_VISIT_FIELDS });
+      if (!records || records.length === 0) {
+        throw new VisitTrackingError('NOT_FOUND', 'Kunjungan dokter tidak ditemukan');
+      }
+      return this.transformVisit(records[0]);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * The customer's visits that are not finished yet, soonest first
+   */
+  async getActiveVisits(partnerId: number): Promise<HomeVisit[]> {
+    try {
+      const records = await apiClient.odooExecute(
+        HOME_VISIT_MODEL,
+        'search_read',
+        [],
+        {
+          domain: [
+            ['x_partner_id', '=', partnerId],
+            ['x_status', '!=', 'finished'],
+          ],
+          fields: HOME_VISIT_FIELDS,
+          order: 'id asc',
+        }
+      );
+
+      return (records || []).map((record: any) => this.transformVisit(record));
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Unfinished visits of the doctor signed in as this staff user, soonest first
+   */
+  async getDoctorVisits(userId: number): Promise<HomeVisit[]> {
+    try {
+      const records = await apiClient.odooExecute(
+        HOME_VISIT_MODEL,
+        'search_read',
+        [],
+        {
+          domain: [
+            ['x_doctor_id.user_id', '=', userId],
+            ['x_status', '!=', 'finished'],
+          ],
+          fields: HOME_VISIT_FIELDS,
+          order: 'id asc',
+        }
+      );
+
+      return (records || []).map((record: any) => this.transformVisit(record));
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Doctor leaves for the customer's address
+   */
+  async startVisit(visitId: number, location?: GeoPoint): Promise<HomeVisit> {
+    try {
+      await this.transition(visitId, 'en_route', { x_started_at: toOdooDate(new Date()) });
+      return location ? await this.publishLocation(visitId, location) : await this.getVisit(visitId);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Store the doctor's current position and refresh the ETA. Arrives the
+   * visit once the doctor is close enough to the address.
+   */
+  async publishLocation(visitId: number, location: GeoPoint): Promise<HomeVisit> {
+    try {
+      const visit = await this.getVisit(visitId);
+      if (visit.status !== 'en_route') {
+        return visit;
+      }
+
+      const { distanceMeters, etaMinutes } = this.getEta(location, visit.destination);
+
+      await apiClient.odooExecute(HOME_VISIT_MODEL, 'write', [[visitId], {
+        x_doctor_latitude: location.latitude,
+        x_doctor_longitude: location.longitude,
+        x_location_at: toOdooDate(new Date()),
+        x_distance_m: distanceMeters,
+        x_eta_minutes: etaMinutes,
+      }]);
+
+      if (distanceMeters <= ARRIVAL_RADIUS_METERS) {
+        return await this.markArrived(visitId);
+      }
+
+      return await this.getVisit(visitId);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  async markArrived(visitId: number): Promise<HomeVisit> {
+    try {
+      await this.transition(visitId, 'arrived', {
+        x_arrived_at: toOdooDate(new Date()),
+        x_eta_minutes: 0,
+      });
+      return await this.getVisit(visitId);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  async finishVisit(visitId: number): Promise<HomeVisit> {
+    try {
+      await this.transition(visitId, 'finished', { x_finished_at: toOdooDate(new Date()) });
+      return await this.getVisit(visitId);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Publish the doctor's GPS position for a visit from the doctor's device.
+   * Starts the visit if needed. Returns a function that stops publishing.
+   */
+  async startLocationPublishing(visitId: number): Promise<() => void> {
+    const { status } = await Location.requestForegroundPermissionsAsync();
+    if (status !== 'granted') {
+      throw new VisitTrackingError('LOCATION_DENIED', 'Izin lokasi diperlukan untuk membagikan posisi dokter');
+    }
+
+    const current = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced });
+    const position = { latitude: current.coords.latitude, longitude: current.coords.longitude };
+
+    const visit = await this.getVisit(visitId);
+    if (visit.status === 'scheduled') {
+      await this.startVisit(visitId, position);
+    } else {
+      await this.publishLocation(visitId, position);
+    }
+
+    const subscription = await Location.watchPositionAsync(
+      {
+        accuracy: Location.Accuracy.Balanced,
+        timeInterval: 15000,
+        distanceInterval: 50,
+      },
+      (update) => {
+        this.publishLocation(visitId, {
+          latitude: update.coords.latitude,
+          longitude: update.coords.longitude,
+        }).then(updated => {
+          if (updated.status !== 'en_route') {
+            subscription.remove();
+          }
+        }).catch(() => {
+          // The next position update retries
+        });
+      }
+    );
+
+    return () => subscription.remove();
+  }
+
+  /**
+   * Poll a visit for the customer's tracking screen. The listener gets the
+   * current state straight away and on every change until the visit is
+   * finished. Returns a function that stops watching.
+   */
+  watchVisit(visitId: number, listener: VisitListener, intervalMs: number = WATCH_INTERVAL_MS): () => void {
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const poll = async () => {
+      try {
+        const visit = await this.getVisit(visitId);
+        if (stopped) return;
+
+        listener(visit);
+        if (visit.status === 'finished') {
+          return;
+        }
+      } catch (error) {
+        // Keep polling through network errors
+      }
+
+      if (!stopped) {
+        timer = setTimeout(poll, intervalMs);
+      }
+    };
+
+    poll();
+
+    return () => {
+      stopped = true;
+      if (timer) {
+        clearTimeout(timer);
+      }
+    };
+  }
+
+  private async transition(visitId: number, status: VisitStatus, values: Record<string, any>): Promise<void> {
+    const visit = await this.getVisit(visitId);
+    if (!VISIT_TRANSITIONS[visit.status].includes(status)) {
+      throw new VisitTrackingError(
+        'INVALID_TRANSITION',
+        `Status kunjungan tidak dapat diubah dari "${VISIT_STATUS_LABELS[visit.status]}" ke "${VISIT_STATUS_LABELS[status]}"`
+      );
+    }
+
+    await apiClient.odooExecute(HOME_VISIT_MODEL, 'write', [[visitId], { x_status: status, ...values }]);
+  }
+
+  private transformVisit(record: any): HomeVisit {
+    const hasDoctorLocation = !!record.x_doctor_latitude && !!record.x_doctor_longitude;
+
+    return {
+      id: record.id,
+      appointmentId: getId(record.x_appointment_id),
+      doctorId: getId(record.x_doctor_id),
+      doctorName: Array.isArray(record.x_doctor_id) ? record.x_doctor_id[1] : undefined,
+      partnerId: getId(record.x_partner_id) as number,
+      status: record.x_status || 'scheduled',
+      address: record.x_address || undefined,
+      destination: {
+        latitude: record.x_dest_latitude,
+        longitude: record.x_dest_longitude,
+      },
+      doctorLocation: hasDoctorLocation
+        ? { latitude: record.x_doctor_latitude, longitude: record.x_doctor_longitude }
+        : undefined,
+      locationUpdatedAt: record.x_location_at ? fromOdooDate(record.x_location_at) : undefined,
+      distanceMeters: hasDoctorLocation ? record.x_distance_m : undefined,
+      etaMinutes: hasDoctorLocation ? record.x_eta_minutes : undefined,
+      startedAt: record.x_started_at ? fromOdooDate(record.x_started_at) : undefined,
+      arrivedAt: record.x_arrived_at ? fromOdooDate(record.x_arrived_at) : undefined,
+      finishedAt: record.x_finished_at ? fromOdooDate(record.x_finished_at) : undefined,
+    };
+  }
+}
+
+export default new VisitTrackingService();
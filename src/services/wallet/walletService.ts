@@ -0,0 +1,271 @@
+/**
+ * Wallet Service
+ * PawSmart balance kept as a ledger of x_pawsmart_wallet_entry records in Odoo:
+ * - 'topup': money added through a gateway payment. Pending until the payment
+ *   status engine sees it paid, cancelled when it expires or fails.
+ * - 'payment': balance spent on an order. While the rest of the order is paid
+ *   through a gateway the entry is a pending hold; it is posted when the order
+ *   is paid and cancelled when the order is cancelled.
+ * - 'refund': balance given back for a returned or cancelled order.
+ *
+ * The balance is the sum of posted entries; pending holds are subtracted from
+ * what the customer can still spend. Entries are only ever written by the
+ * proxy (wallet/* routes, payments and refunds).
+ */
+
+import apiClient from '../api/apiClient';
+import proxyClient from '../proxy/proxyClient';
+import {
+  PaymentProvider,
+  UnifiedPaymentResponse,
+} from '../payment/paymentGatewayService';
+import { PaymentMethod } from '../payment/paymentGatewayConfig';
+
+export const WALLET_ENTRY_MODEL = 'x_pawsmart_wallet_entry';
+
+// Stored as the order's payment provider and method when the wallet covers the whole order
+export const WALLET_PAYMENT_PROVIDER = 'WALLET';
+export const WALLET_PAYMENT_METHOD = 'WALLET';
+
+const WALLET_ENTRY_FIELDS = [
+  'id', 'x_partner_id', 'x_type', 'x_state', 'x_amount', 'x_order_id', 'x_payment_id',
+  'x_payment_provider', 'x_payment_method', 'x_reference', 'x_description', 'x_posted_at', 'create_date',
+];
+
+export type WalletEntryType = 'topup' | 'payment' | 'refund';
+
+export type WalletEntryState = 'pending' | 'posted' | 'cancelled';
+
+export const WALLET_ENTRY_LABELS: Record<WalletEntryType, string> = {
+  topup: 'Isi Saldo',
+  payment: 'Pembayaran',
+  refund: 'Pengembalian Dana',
+};
+
+export const WALLET_TOPUP_LIMITS = {
+  MIN: 10000,
+  MAX: 10000000,
+};
+
+// Xendit and Flip reject gateway payments below this, so a split always leaves at least this much
+export const MIN_GATEWAY_AMOUNT = 1000;
+
+export type WalletErrorCode = 'INVALID_AMOUNT' | 'INSUFFICIENT_BALANCE';
+
+export class WalletError extends Error {
+  constructor(
+    public code: WalletErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'WalletError';
+  }
+}
+
+export interface WalletEntry {
+  id: number;
+  partnerId: number;
+  type: WalletEntryType;
+  state: WalletEntryState;
+  amount: number;
+  orderId?: number;
+  paymentId?: string;
+  paymentProvider?: PaymentProvider;
+  paymentMethod?: PaymentMethod;
+  reference?: string;
+  description: string;
+  postedAt?: string; // ISO 8601
+  createdAt: string; // ISO 8601
+}
+
+export interface WalletBalance {
+  balance: number; // Posted entries
+  held: number; // Pending holds for orders awaiting their gateway payment
+  available: number;
+}
+
+export interface WalletSplit {
+  walletAmount: number;
+  gatewayAmount: number;
+}
+
+export interface WalletTopUpRequest {
+  amount: number;
+  paymentMethod: PaymentMethod;
+  customerName: string;
+  customerEmail?: string;
+  customerPhone?: string;
+  paymentOptions?: { channelCode?: string; bankCode?: string };
+}
+
+export interface WalletTopUp {
+  entry: WalletEntry;
+  payment: UnifiedPaymentResponse;
+}
+
+// Odoo datetimes are UTC 'YYYY-MM-DD HH:MM:SS'
+const fromOdooDate = (value: string) => new Date(`${value.replace(' ', 'T')}Z`).toISOString();
+
+const formatRupiah = (amount: number) => `Rp${Math.round(amount).toLocaleString('id-ID')}`;
+
+class WalletService {
+  /**
+   * Balance of a customer's wallet
+   */
+  async getBalance(partnerId: number): Promise<WalletBalance> {
+    try {
+      const records = await apiClient.odooExecute(
+        WALLET_ENTRY_MODEL,
+        'search_read',
+        [],
+        {
+          domain: [
+            ['x_partner_id', '=', partnerId],
+            '|',
+            ['x_state', '=', 'posted'],
+            '&',
+            ['x_state', '=', 'pending'],
+            ['x_type', '=', 'payment'],
+          ],
+          fields: ['x_type', 'x_state', 'x_amount'],
+        }
+      );
+
+      let balance = 0;
+      let held = 0;
+      (records || []).forEach((record: any) => {
+        const amount = record.x_amount || 0;
+        if (record.x_state === 'pending') {
+          held += amount;
+        } else {
+          balance += record.x_type === 'payment' ? -amount : amount;
+        }
+      });
+
+      return { balance, held, available: Math.max(0, balance - held) };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Latest ledger entries of a customer, newest first
+   */
+  async getEntries(partnerId: number, limit: number = 50): Promise<WalletEntry[]> {
+    try {
+      const records = await apiClient.odooExecute(
+        WALLET_ENTRY_MODEL,
+        'search_read',
+        [],
+        {
+          domain: [['x_partner_id', '=', partnerId]],
+          fields: WALLET_ENTRY_FIELDS,
+          order: 'id desc',
+          limit,
+        }
+      );
+
+      return (records || []).map((record: any) => this.transformEntry(record));
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * How much of an order the wallet pays, keeping the gateway part above its minimum
+   */
+  getSplit(total: number, available: number): WalletSplit {
+    if (available >= total) {
+      return { walletAmount: total, gatewayAmount: 0 };
+    }
+
+    const walletAmount = Math.max(0, Math.min(available, total - MIN_GATEWAY_AMOUNT));
+    return { walletAmount, gatewayAmount: total - walletAmount };
+  }
+
+  /**
+   * Start a top-up. The returned payment is shown like any other gateway
+   * payment and must be tracked by the payment status engine with the
+   * entry's id as walletTopUpId; the proxy credits the wallet once it is paid.
+   */
+  async createTopUp(request: WalletTopUpRequest): Promise<WalletTopUp> {
+    try {
+      if (request.amount < WALLET_TOPUP_LIMITS.MIN || request.amount > WALLET_TOPUP_LIMITS.MAX) {
+        throw new WalletError(
+          'INVALID_AMOUNT',
+          `Jumlah isi saldo harus antara ${formatRupiah(WALLET_TOPUP_LIMITS.MIN)} dan ${formatRupiah(WALLET_TOPUP_LIMITS.MAX)}.`
+        );
+      }
+
+      const { entryId, payment } = await proxyClient.call('wallet/top-up', request);
+      return { entry: await this.getEntry(entryId), payment };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Reference a top-up payment is created and tracked under, in place of an order id
+   */
+  getTopUpReference(entryId: number): string {
+    return `TOPUP-${entryId}`;
+  }
+
+  /**
+   * Reserve balance for an order while the rest is paid through a gateway.
+   * Replaces an earlier hold for the same order, e.g. when the customer
+   * retries with another method. Fails with INSUFFICIENT_BALANCE when the
+   * available balance no longer covers it.
+   */
+  async holdForOrder(orderId: string | number, amount: number): Promise<WalletEntry> {
+    try {
+      if (amount <= 0) {
+        throw new WalletError('INVALID_AMOUNT', 'Jumlah saldo yang digunakan tidak valid.');
+      }
+
+      const { entryId } = await proxyClient.call('wallet/hold', { orderId: parseInt(orderId.toString()), amount });
+      return await this.getEntry(entryId);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Give back the balance held for an order that will not be paid
+   */
+  async releaseOrderHolds(orderId: string | number): Promise<void> {
+    try {
+      await proxyClient.call('wallet/release', { orderId: parseInt(orderId.toString()) });
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  private async getEntry(entryId: number): Promise<WalletEntry> {
+    const records = await apiClient.odooExecute(WALLET_ENTRY_MODEL, 'read', [[entryId]], { fields: WALLET_ENTRY_FIELDS });
+    if (!records || records.length === 0) {
+      throw new Error('Wallet entry not found');
+    }
+    return this.transformEntry(records[0]);
+  }
+
+  private transformEntry(record: any): WalletEntry {
+    return {
+      id: record.id,
+      partnerId: Array.isArray(record.x_partner_id) ? record.x_partner_id[0] : record.x_partner_id,
+      type: record.x_type,
+      state: record.x_state,
+      amount: record.x_amount || 0,
+      orderId: Array.isArray(record.x_order_id) ? record.x_order_id[0] : record.x_order_id || undefined,
+      paymentId: record.x_payment_id || undefined,
+      paymentProvider: record.x_payment_provider || undefined,
+      paymentMethod: record.x_payment_method || undefined,
+      reference: record.x_reference || undefined,
+      description: record.x_description || WALLET_ENTRY_LABELS[record.x_type as WalletEntryType] || '',
+      postedAt: record.x_posted_at ? fromOdooDate(record.x_posted_at) : undefined,
+      createdAt: record.create_date ? fromOdooDate(record.create_date) : new Date().toISOString(),
+    };
+  }
+}
+
+export default new WalletService();